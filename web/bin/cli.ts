@@ -10,7 +10,7 @@ const command = process.argv[2];
 
 // Management subcommands that delegate to ctl.ts
 const CTL_COMMANDS = new Set([
-  "sessions", "envs", "cron", "skills", "settings", "assistant", "ctl-help",
+  "sessions", "presets", "envs", "cron", "skills", "settings", "assistant", "usage", "ctl-help",
 ]);
 
 function printUsage(): void {
@@ -30,15 +30,18 @@ Server commands:
   help        Show this help message
 
 Management commands (requires running server):
-  sessions    Manage sessions (list, create, kill, relaunch, archive, rename, send-message)
+  sessions    Manage sessions (list, create, kill, relaunch, archive, rename, send-message, export)
+  presets     List session presets (list, get, delete)
   envs        Manage environment profiles (list, get, create, update, delete)
   cron        Manage scheduled jobs (list, get, create, update, delete, toggle, run)
   skills      Manage Claude Code skills (list, get, create, update, delete)
   settings    Manage settings (get, set)
   assistant   Manage the Companion Assistant (status, launch, stop, config)
+  usage       Show spend from the usage ledger (summary, export)
 
 Options:
-  --port <n>  Override the default port (default: 3456)
+  --port <n>   Override the default port (default: 3456)
+  --token <t>  Auth token for management commands (default: ~/.companion/auth.json)
 `);
 }
 
@@ -5,7 +5,15 @@
  * All output is JSON to stdout for easy parsing by both humans and AI agents.
  */
 
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+
 const DEFAULT_PORT = 3456;
+const AUTH_FILE = join(homedir(), ".companion", "auth.json");
+
+/** Auth token sent with every request; resolved once in handleCtlCommand. */
+let authToken: string | null = null;
 
 function getPort(argv: string[]): number {
   const idx = argv.indexOf("--port");
@@ -20,12 +28,32 @@ function getBase(argv: string[]): string {
   return `http://localhost:${getPort(argv)}/api`;
 }
 
-/** Strip --port <n> from argv so subcommand parsers don't see it */
+/**
+ * Resolve the auth token: --token flag, then COMPANION_AUTH_TOKEN, then the
+ * secret the local server generated in ~/.companion/auth.json.
+ */
+function getToken(argv: string[]): string | null {
+  const idx = argv.indexOf("--token");
+  if (idx !== -1 && argv[idx + 1]) return argv[idx + 1];
+  if (process.env.COMPANION_AUTH_TOKEN) return process.env.COMPANION_AUTH_TOKEN;
+  try {
+    const stored = JSON.parse(readFileSync(AUTH_FILE, "utf-8")) as { token?: unknown };
+    return typeof stored.token === "string" && stored.token ? stored.token : null;
+  } catch {
+    return null;
+  }
+}
+
+function authHeaders(extra?: Record<string, string>): Record<string, string> {
+  return authToken ? { ...extra, Authorization: `Bearer ${authToken}` } : { ...extra };
+}
+
+/** Strip --port <n> and --token <t> from argv so subcommand parsers don't see them */
 function stripGlobalFlags(argv: string[]): string[] {
   const result: string[] = [];
   let i = 0;
   while (i < argv.length) {
-    if (argv[i] === "--port" && argv[i + 1]) {
+    if ((argv[i] === "--port" || argv[i] === "--token") && argv[i + 1]) {
       i += 2;
       continue;
     }
@@ -36,7 +64,7 @@ function stripGlobalFlags(argv: string[]): string[] {
 }
 
 async function apiGet(base: string, path: string): Promise<unknown> {
-  const res = await fetch(`${base}${path}`);
+  const res = await fetch(`${base}${path}`, { headers: authHeaders() });
   if (!res.ok) {
     const body = await res.json().catch(() => ({ error: res.statusText }));
     throw new Error((body as { error?: string }).error || `HTTP ${res.status}`);
@@ -47,7 +75,7 @@ async function apiGet(base: string, path: string): Promise<unknown> {
 async function apiPost(base: string, path: string, body?: unknown): Promise<unknown> {
   const res = await fetch(`${base}${path}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: authHeaders({ "Content-Type": "application/json" }),
     body: body ? JSON.stringify(body) : undefined,
   });
   if (!res.ok) {
@@ -60,7 +88,7 @@ async function apiPost(base: string, path: string, body?: unknown): Promise<unkn
 async function apiPut(base: string, path: string, body: unknown): Promise<unknown> {
   const res = await fetch(`${base}${path}`, {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
+    headers: authHeaders({ "Content-Type": "application/json" }),
     body: JSON.stringify(body),
   });
   if (!res.ok) {
@@ -73,7 +101,7 @@ async function apiPut(base: string, path: string, body: unknown): Promise<unknow
 async function apiPatch(base: string, path: string, body: unknown): Promise<unknown> {
   const res = await fetch(`${base}${path}`, {
     method: "PATCH",
-    headers: { "Content-Type": "application/json" },
+    headers: authHeaders({ "Content-Type": "application/json" }),
     body: JSON.stringify(body),
   });
   if (!res.ok) {
@@ -86,7 +114,7 @@ async function apiPatch(base: string, path: string, body: unknown): Promise<unkn
 async function apiDelete(base: string, path: string, body?: unknown): Promise<unknown> {
   const res = await fetch(`${base}${path}`, {
     method: "DELETE",
-    headers: { "Content-Type": "application/json" },
+    headers: authHeaders({ "Content-Type": "application/json" }),
     body: body ? JSON.stringify(body) : undefined,
   });
   if (!res.ok) {
@@ -128,6 +156,16 @@ function parseFlags(argv: string[]): Record<string, string | boolean> {
   return flags;
 }
 
+/** --thinking takes a level name or a token count (custom budget). */
+function applyThinkingFlag(body: Record<string, unknown>, value: string): void {
+  if (/^\d+$/.test(value)) {
+    body.thinkingLevel = "custom";
+    body.thinkingTokens = Number(value);
+  } else {
+    body.thinkingLevel = value;
+  }
+}
+
 /** Collect all --var KEY=VALUE pairs from argv */
 function parseVars(argv: string[]): Record<string, string> {
   const vars: Record<string, string> = {};
@@ -182,6 +220,8 @@ async function handleSessions(base: string, args: string[]): Promise<void> {
     case "create": {
       const flags = parseFlags(rest);
       const body: Record<string, unknown> = {};
+      // Other flags override what the preset sets.
+      if (flags.preset) body.presetId = flags.preset;
       if (flags.cwd) body.cwd = flags.cwd;
       if (flags.model) body.model = flags.model;
       if (flags["permission-mode"]) body.permissionMode = flags["permission-mode"];
@@ -225,8 +265,31 @@ async function handleSessions(base: string, args: string[]): Promise<void> {
       out(await apiPost(base, `/sessions/${encodeURIComponent(id)}/message`, { content }));
       break;
     }
+    case "export": {
+      const id = rest[0] && !rest[0].startsWith("--") ? rest[0] : "";
+      if (!id) err("Usage: companion sessions export <sessionId> [--format md|html|json] [--out <file>]");
+      const flags = parseFlags(rest.slice(1));
+      const format = typeof flags.format === "string" ? flags.format : "md";
+      const res = await fetch(
+        `${base}/sessions/${encodeURIComponent(id)}/export?format=${encodeURIComponent(format)}`,
+        { headers: authHeaders() },
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error((body as { error?: string }).error || `HTTP ${res.status}`);
+      }
+      const transcript = await res.text();
+      if (typeof flags.out === "string") {
+        writeFileSync(flags.out, transcript);
+        out({ ok: true, path: flags.out, format });
+      } else {
+        // The transcript goes to stdout as-is so it can be piped or redirected.
+        process.stdout.write(transcript);
+      }
+      break;
+    }
     default:
-      err(`Unknown sessions subcommand: ${sub}. Available: list, get, create, kill, relaunch, archive, rename, send-message`);
+      err(`Unknown sessions subcommand: ${sub}. Available: list, get, create, kill, relaunch, archive, rename, send-message, export`);
   }
 }
 
@@ -293,17 +356,19 @@ async function handleCron(base: string, args: string[]): Promise<void> {
     case "create": {
       const flags = parseFlags(rest);
       if (!flags.name || !flags.schedule || !flags.prompt)
-        err("Usage: companion cron create --name <name> --schedule <cron|datetime> --prompt <prompt> [--cwd <path>] [--model <model>] [--env <slug>] [--recurring] [--backend <type>] [--permission-mode <mode>]");
+        err("Usage: companion cron create --name <name> --schedule <cron|datetime> --prompt <prompt> [--cwd <path>] [--model <model>] [--env <slug>] [--recurring] [--backend <type>] [--permission-mode <mode>] [--thinking <off|low|medium|high|tokens>] [--preset <name|id>]");
       const body: Record<string, unknown> = {
         name: flags.name,
         schedule: flags.schedule,
         prompt: flags.prompt,
       };
+      if (flags.preset) body.presetId = flags.preset;
       if (flags.cwd) body.cwd = flags.cwd;
       if (flags.model) body.model = flags.model;
       if (flags.env) body.envSlug = flags.env;
       if (flags.backend) body.backendType = flags.backend;
       if (flags["permission-mode"]) body.permissionMode = flags["permission-mode"];
+      if (flags.thinking) applyThinkingFlag(body, flags.thinking as string);
       // Default: recurring=true for cron expressions, false if looks like a datetime
       body.recurring = flags.recurring === true || flags.recurring === "true"
         || (flags.recurring === undefined && !(flags.schedule as string).includes("T"));
@@ -324,7 +389,10 @@ async function handleCron(base: string, args: string[]): Promise<void> {
       if (flags.env) body.envSlug = flags.env;
       if (flags.backend) body.backendType = flags.backend;
       if (flags["permission-mode"]) body.permissionMode = flags["permission-mode"];
+      if (flags.thinking) applyThinkingFlag(body, flags.thinking as string);
       if (flags.recurring !== undefined) body.recurring = flags.recurring === true || flags.recurring === "true";
+      // --preset none unlinks the preset
+      if (typeof flags.preset === "string") body.presetId = flags.preset === "none" ? null : flags.preset;
       out(await apiPut(base, `/cron/jobs/${encodeURIComponent(id)}`, body));
       break;
     }
@@ -414,6 +482,34 @@ async function handleAssistant(base: string, args: string[]): Promise<void> {
   }
 }
 
+async function handlePresets(base: string, args: string[]): Promise<void> {
+  const sub = args[0];
+  const rest = args.slice(1);
+
+  switch (sub) {
+    case "list": {
+      const flags = parseFlags(rest);
+      const query = typeof flags.cwd === "string" ? `?cwd=${encodeURIComponent(flags.cwd)}` : "";
+      out(await apiGet(base, `/presets${query}`));
+      break;
+    }
+    case "get": {
+      const ref = rest[0];
+      if (!ref) err("Usage: companion presets get <name|id>");
+      out(await apiGet(base, `/presets/${encodeURIComponent(ref)}`));
+      break;
+    }
+    case "delete": {
+      const id = rest[0];
+      if (!id) err("Usage: companion presets delete <presetId>");
+      out(await apiDelete(base, `/presets/${encodeURIComponent(id)}`));
+      break;
+    }
+    default:
+      err(`Unknown presets subcommand: ${sub}. Available: list, get, delete`);
+  }
+}
+
 async function handleSkills(base: string, args: string[]): Promise<void> {
   const sub = args[0];
   const rest = args.slice(1);
@@ -457,6 +553,40 @@ async function handleSkills(base: string, args: string[]): Promise<void> {
   }
 }
 
+/** Build the /usage query string from --from/--to/--repo/--model/--backend/--session/--cron flags. */
+function usageQuery(flags: Record<string, string | boolean>, extra: Record<string, string>): string {
+  const params = new URLSearchParams(extra);
+  for (const key of ["from", "to", "repo", "model", "backend", "session", "cron"]) {
+    if (typeof flags[key] === "string") params.set(key, flags[key] as string);
+  }
+  return params.toString();
+}
+
+async function handleUsage(base: string, args: string[]): Promise<void> {
+  const sub = args[0] && !args[0].startsWith("--") ? args[0] : "summary";
+  const flags = parseFlags(args[0] === sub ? args.slice(1) : args);
+
+  switch (sub) {
+    case "summary": {
+      const groupBy = typeof flags["group-by"] === "string" ? flags["group-by"] : "day";
+      out(await apiGet(base, `/usage?${usageQuery(flags, { groupBy })}`));
+      break;
+    }
+    case "export": {
+      // CSV goes to stdout as-is so it can be redirected to a file.
+      const res = await fetch(`${base}/usage?${usageQuery(flags, { format: "csv" })}`, { headers: authHeaders() });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error((body as { error?: string }).error || `HTTP ${res.status}`);
+      }
+      process.stdout.write(await res.text());
+      break;
+    }
+    default:
+      err(`Unknown usage subcommand: ${sub}. Available: summary, export`);
+  }
+}
+
 // ─── Main dispatch ──────────────────────────────────────────────────────────
 
 function printCtlUsage(): void {
@@ -465,14 +595,21 @@ Management commands:
 
   companion status                        Overall Companion status
   companion sessions <subcommand>         Manage sessions
+                                          (export <id> --format md|html|json [--out <file>] prints a transcript,
+                                          create --preset <name|id> launches from a session preset)
+  companion presets <subcommand>          List session presets (list [--cwd <path>], get, delete)
   companion envs <subcommand>             Manage environment profiles
   companion cron <subcommand>             Manage scheduled jobs
   companion skills <subcommand>           Manage Claude Code skills
   companion settings <subcommand>         Manage settings
   companion assistant <subcommand>        Manage the Companion Assistant
+  companion usage [summary|export]        Spend and tokens from the usage ledger
+                                          (--from/--to YYYY-MM-DD, --group-by day|repo|model|backend|session|cron,
+                                          --repo, --model, --backend; export prints CSV)
 
 Global options:
   --port <n>    Override the Companion API port (default: 3456, or COMPANION_PORT env)
+  --token <t>   Auth token (default: COMPANION_AUTH_TOKEN env, or ~/.companion/auth.json)
 
 Run 'companion <command>' without subcommand for available subcommands.
 `);
@@ -481,6 +618,7 @@ Run 'companion <command>' without subcommand for available subcommands.
 export async function handleCtlCommand(command: string, rawArgv: string[]): Promise<void> {
   const argv = stripGlobalFlags(rawArgv);
   const base = getBase(rawArgv);
+  authToken = getToken(rawArgv);
 
   try {
     switch (command) {
@@ -488,9 +626,13 @@ export async function handleCtlCommand(command: string, rawArgv: string[]): Prom
         await handleStatus(base);
         break;
       case "sessions":
-        if (argv.length === 0) err("Usage: companion sessions <list|get|create|kill|relaunch|archive|rename|send-message>");
+        if (argv.length === 0) err("Usage: companion sessions <list|get|create|kill|relaunch|archive|rename|send-message|export>");
         await handleSessions(base, argv);
         break;
+      case "presets":
+        if (argv.length === 0) err("Usage: companion presets <list|get|delete>");
+        await handlePresets(base, argv);
+        break;
       case "envs":
         if (argv.length === 0) err("Usage: companion envs <list|get|create|update|delete>");
         await handleEnvs(base, argv);
@@ -511,6 +653,9 @@ export async function handleCtlCommand(command: string, rawArgv: string[]): Prom
         if (argv.length === 0) err("Usage: companion assistant <status|launch|stop|config>");
         await handleAssistant(base, argv);
         break;
+      case "usage":
+        await handleUsage(base, argv);
+        break;
       case "ctl-help":
         printCtlUsage();
         break;
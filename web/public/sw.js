@@ -0,0 +1,80 @@
+// Service worker for Web Push notifications sent by the Companion server
+// (server/notification-dispatcher.ts). Each push carries a JSON payload with
+// a title, body, tag and the hash route of the session to open. Permission
+// requests also carry signed one-time Allow/Deny links, answered from the
+// notification buttons without opening the app.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { title: "The Companion", body: event.data ? event.data.text() : "" };
+  }
+
+  const actions = data.actions
+    ? [
+      { action: "allow", title: "Allow" },
+      { action: "deny", title: "Deny" },
+    ]
+    : [];
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "The Companion", {
+      body: data.body || "",
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      icon: "/icon-192.png",
+      badge: "/icon-192.png",
+      actions,
+      data: { path: data.path || "/", sessionId: data.sessionId || "", actions: data.actions || null },
+    }),
+  );
+});
+
+async function answerPermission(url, behavior) {
+  let title;
+  try {
+    const res = await fetch(url, { method: "POST", headers: { Accept: "application/json" } });
+    const body = await res.json().catch(() => ({}));
+    title = res.ok
+      ? `${behavior === "allow" ? "Allowed" : "Denied"} ${body.toolName || "request"}`
+      : body.error || "Could not answer the request";
+  } catch {
+    title = "Could not reach The Companion";
+  }
+  await self.registration.showNotification(title, { icon: "/icon-192.png", tag: "permission-answer" });
+}
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const links = event.notification.data?.actions;
+  if ((event.action === "allow" || event.action === "deny") && links?.[event.action]) {
+    event.waitUntil(answerPermission(new URL(links[event.action], self.location.origin).href, event.action));
+    return;
+  }
+  const target = new URL(event.notification.data?.path || "/", self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      for (const client of windows) {
+        if (new URL(client.url).origin !== self.location.origin) continue;
+        await client.focus();
+        if ("navigate" in client) {
+          await client.navigate(target);
+        }
+        return;
+      }
+      await self.clients.openWindow(target);
+    })(),
+  );
+});
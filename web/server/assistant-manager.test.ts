@@ -0,0 +1,200 @@
+import { mkdtempSync, rmSync, existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+// Mock homedir so the assistant config and default workspace live in a temp directory
+const mockHomedir = vi.hoisted(() => {
+  let dir = "";
+  return {
+    get: () => dir,
+    set: (d: string) => { dir = d; },
+  };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => mockHomedir.get() };
+});
+
+const mockSetName = vi.hoisted(() => vi.fn());
+vi.mock("./session-names.js", () => ({
+  setName: mockSetName,
+  getName: vi.fn(),
+}));
+
+let tempDir: string;
+let assistantStore: typeof import("./assistant-store.js");
+let AssistantManagerClass: typeof import("./assistant-manager.js").AssistantManager;
+
+interface MockSession {
+  sessionId: string;
+  state: string;
+  cwd: string;
+  model?: string;
+  permissionMode?: string;
+  archived?: boolean;
+  assistant?: boolean;
+}
+
+function createMockLauncher() {
+  const sessions = new Map<string, MockSession>();
+  let launchCount = 0;
+  return {
+    launch: vi.fn((options: Record<string, unknown>) => {
+      const info: MockSession = {
+        sessionId: `assistant-${++launchCount}`,
+        state: "starting",
+        cwd: options.cwd as string,
+        model: options.model as string | undefined,
+        permissionMode: options.permissionMode as string | undefined,
+      };
+      sessions.set(info.sessionId, info);
+      return info;
+    }),
+    relaunch: vi.fn(async (id: string) => {
+      const s = sessions.get(id);
+      if (!s) return { ok: false, error: "Session not found" };
+      s.state = "starting";
+      return { ok: true };
+    }),
+    kill: vi.fn(async (id: string) => {
+      const s = sessions.get(id);
+      if (s) s.state = "exited";
+      return true;
+    }),
+    getSession: vi.fn((id: string) => sessions.get(id)),
+    isAlive: vi.fn((id: string) => {
+      const s = sessions.get(id);
+      return !!s && s.state !== "exited";
+    }),
+    setArchived: vi.fn((id: string, archived: boolean) => {
+      const s = sessions.get(id);
+      if (s) s.archived = archived;
+    }),
+    sessions,
+  };
+}
+
+beforeEach(async () => {
+  tempDir = mkdtempSync(join(tmpdir(), "assistant-manager-test-"));
+  mockHomedir.set(tempDir);
+  vi.resetModules();
+  mockSetName.mockClear();
+  assistantStore = await import("./assistant-store.js");
+  const mod = await import("./assistant-manager.js");
+  AssistantManagerClass = mod.AssistantManager;
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("AssistantManager", () => {
+  it("launches a new tagged session with the configured options", async () => {
+    assistantStore.updateAssistantConfig({ model: "claude-sonnet-4-6", permissionMode: "acceptEdits" });
+    const launcher = createMockLauncher();
+    const manager = new AssistantManagerClass(launcher as any);
+
+    const status = await manager.launch();
+
+    expect(launcher.launch).toHaveBeenCalledWith({
+      model: "claude-sonnet-4-6",
+      permissionMode: "acceptEdits",
+      cwd: assistantStore.getDefaultAssistantCwd(),
+    });
+    expect(status).toMatchObject({ running: true, sessionId: "assistant-1", state: "starting" });
+    expect(launcher.sessions.get("assistant-1")?.assistant).toBe(true);
+    expect(mockSetName).toHaveBeenCalledWith("assistant-1", "Assistant");
+    expect(assistantStore.getAssistantConfig().sessionId).toBe("assistant-1");
+    expect(manager.isAssistantSession("assistant-1")).toBe(true);
+    expect(manager.isAssistantSession("other")).toBe(false);
+  });
+
+  it("seeds the default workspace with a CLAUDE.md", async () => {
+    const manager = new AssistantManagerClass(createMockLauncher() as any);
+    await manager.launch();
+
+    const claudeMd = join(assistantStore.getDefaultAssistantCwd(), "CLAUDE.md");
+    expect(existsSync(claudeMd)).toBe(true);
+    expect(readFileSync(claudeMd, "utf-8")).toContain("companion sessions");
+  });
+
+  it("does not launch twice while the session is alive", async () => {
+    const launcher = createMockLauncher();
+    const manager = new AssistantManagerClass(launcher as any);
+
+    await manager.launch();
+    await manager.launch();
+
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+    expect(launcher.relaunch).not.toHaveBeenCalled();
+  });
+
+  it("stops the session and resumes it with updated config on next launch", async () => {
+    const launcher = createMockLauncher();
+    const manager = new AssistantManagerClass(launcher as any);
+    await manager.launch();
+
+    const stopped = await manager.stop();
+    expect(launcher.kill).toHaveBeenCalledWith("assistant-1");
+    expect(stopped).toMatchObject({ running: false, sessionId: "assistant-1", state: "exited" });
+
+    assistantStore.updateAssistantConfig({ model: "claude-opus-4-6" });
+    const status = await manager.launch();
+
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+    expect(launcher.relaunch).toHaveBeenCalledWith("assistant-1");
+    expect(launcher.sessions.get("assistant-1")?.model).toBe("claude-opus-4-6");
+    expect(status.running).toBe(true);
+  });
+
+  it("throws when relaunch fails", async () => {
+    const launcher = createMockLauncher();
+    const manager = new AssistantManagerClass(launcher as any);
+    await manager.launch();
+    await manager.stop();
+    launcher.relaunch.mockResolvedValueOnce({ ok: false, error: "boom" });
+
+    await expect(manager.launch()).rejects.toThrow("boom");
+  });
+
+  it("retires the old session when the cwd changes", async () => {
+    const launcher = createMockLauncher();
+    const manager = new AssistantManagerClass(launcher as any);
+    await manager.launch();
+
+    assistantStore.updateAssistantConfig({ cwd: tempDir });
+    const status = await manager.launch();
+
+    expect(launcher.kill).toHaveBeenCalledWith("assistant-1");
+    expect(launcher.setArchived).toHaveBeenCalledWith("assistant-1", true);
+    expect(status.sessionId).toBe("assistant-2");
+    expect(launcher.sessions.get("assistant-2")?.cwd).toBe(tempDir);
+  });
+
+  it("auto-launches on startup only when enabled", async () => {
+    const launcher = createMockLauncher();
+    const manager = new AssistantManagerClass(launcher as any);
+
+    await manager.startup();
+    expect(launcher.launch).not.toHaveBeenCalled();
+
+    assistantStore.updateAssistantConfig({ enabled: true });
+    await manager.startup();
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+
+    // Already alive (e.g. recovered from disk) — nothing to do
+    await manager.startup();
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a stopped status when no session exists", () => {
+    const manager = new AssistantManagerClass(createMockLauncher() as any);
+    expect(manager.getStatus()).toMatchObject({
+      enabled: false,
+      running: false,
+      sessionId: null,
+      state: null,
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { CliLauncher, SdkSessionInfo } from "./cli-launcher.js";
+import * as assistantStore from "./assistant-store.js";
+import * as sessionNames from "./session-names.js";
+
+export const ASSISTANT_SESSION_NAME = "Assistant";
+
+/** Seeded into the default workspace so the assistant knows what it can drive. */
+const ASSISTANT_CLAUDE_MD = `# Companion Assistant
+
+You are the long-lived assistant of The Companion, a web UI that runs Claude Code
+and Codex sessions. You manage it through the \`companion\` CLI; every command
+prints JSON.
+
+- \`companion status\` — overall status
+- \`companion sessions list|get|create|kill|relaunch|archive|rename|send-message\`
+- \`companion cron list|get|create|update|delete|toggle|run|executions\`
+- \`companion envs list|get|create|update|delete\`
+- \`companion settings get|set\`
+
+Run a command without a subcommand to see its usage.
+`;
+
+export interface AssistantStatus {
+  enabled: boolean;
+  /** True while the backing CLI process is alive */
+  running: boolean;
+  sessionId: string | null;
+  state: SdkSessionInfo["state"] | null;
+  model: string;
+  permissionMode: string;
+  cwd: string;
+}
+
+/**
+ * Owns the single long-lived "assistant" session. The session is reused across
+ * stops and server restarts (relaunched with --resume) so the conversation
+ * survives; a new one is only created when none exists or the cwd changed.
+ */
+export class AssistantManager {
+  private launcher: CliLauncher;
+
+  constructor(launcher: CliLauncher) {
+    this.launcher = launcher;
+  }
+
+  /** Launch the assistant if it is enabled. Called once at server startup. */
+  async startup(): Promise<void> {
+    const config = assistantStore.getAssistantConfig();
+    if (!config.enabled) return;
+    if (config.sessionId && this.launcher.isAlive(config.sessionId)) return;
+    try {
+      await this.launch();
+      console.log("[assistant] Auto-launched assistant session");
+    } catch (err) {
+      console.error("[assistant] Failed to auto-launch assistant:", err);
+    }
+  }
+
+  isAssistantSession(sessionId: string): boolean {
+    return assistantStore.getAssistantConfig().sessionId === sessionId;
+  }
+
+  getStatus(): AssistantStatus {
+    const config = assistantStore.getAssistantConfig();
+    const info = config.sessionId ? this.launcher.getSession(config.sessionId) : undefined;
+    return {
+      enabled: config.enabled,
+      running: !!info && this.launcher.isAlive(info.sessionId),
+      sessionId: info ? info.sessionId : null,
+      state: info?.state ?? null,
+      model: config.model,
+      permissionMode: config.permissionMode,
+      cwd: config.cwd,
+    };
+  }
+
+  /** Start the assistant, reusing its existing session when possible. No-op if already running. */
+  async launch(): Promise<AssistantStatus> {
+    const config = assistantStore.getAssistantConfig();
+    const existing = config.sessionId ? this.launcher.getSession(config.sessionId) : undefined;
+
+    if (existing && !existing.archived && existing.cwd === config.cwd) {
+      if (this.launcher.isAlive(existing.sessionId)) return this.getStatus();
+      // Pick up model / permission changes made while it was stopped
+      existing.model = config.model || undefined;
+      existing.permissionMode = config.permissionMode;
+      const result = await this.launcher.relaunch(existing.sessionId);
+      if (!result.ok) throw new Error(result.error || "Failed to relaunch assistant");
+      return this.getStatus();
+    }
+
+    if (existing) await this.retire(existing.sessionId);
+
+    this.ensureWorkspace(config.cwd);
+    const info = this.launcher.launch({
+      model: config.model || undefined,
+      permissionMode: config.permissionMode,
+      cwd: config.cwd,
+    });
+    info.assistant = true;
+    sessionNames.setName(info.sessionId, ASSISTANT_SESSION_NAME);
+    assistantStore.updateAssistantConfig({ sessionId: info.sessionId });
+    return this.getStatus();
+  }
+
+  /** Stop the assistant's CLI process. The session is kept so the next launch resumes it. */
+  async stop(): Promise<AssistantStatus> {
+    const { sessionId } = assistantStore.getAssistantConfig();
+    if (sessionId && this.launcher.isAlive(sessionId)) {
+      await this.launcher.kill(sessionId);
+    }
+    return this.getStatus();
+  }
+
+  /** Kill and archive a session that no longer matches the assistant config. */
+  private async retire(sessionId: string): Promise<void> {
+    if (this.launcher.isAlive(sessionId)) {
+      await this.launcher.kill(sessionId);
+    }
+    this.launcher.setArchived(sessionId, true);
+  }
+
+  /** Create the default workspace (with its CLAUDE.md) on first use. */
+  private ensureWorkspace(cwd: string): void {
+    if (cwd !== assistantStore.getDefaultAssistantCwd()) return;
+    mkdirSync(cwd, { recursive: true });
+    const claudeMd = join(cwd, "CLAUDE.md");
+    if (!existsSync(claudeMd)) {
+      writeFileSync(claudeMd, ASSISTANT_CLAUDE_MD, "utf-8");
+    }
+  }
+}
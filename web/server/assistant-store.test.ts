@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  getAssistantConfig,
+  updateAssistantConfig,
+  getDefaultAssistantCwd,
+  _resetForTest,
+  DEFAULT_ASSISTANT_PERMISSION_MODE,
+} from "./assistant-store.js";
+
+let tempDir: string;
+let configPath: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "assistant-store-test-"));
+  configPath = join(tempDir, "assistant.json");
+  _resetForTest(configPath);
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  _resetForTest();
+});
+
+describe("assistant-store", () => {
+  it("returns defaults when file is missing", () => {
+    expect(getAssistantConfig()).toEqual({
+      enabled: false,
+      model: "",
+      permissionMode: DEFAULT_ASSISTANT_PERMISSION_MODE,
+      cwd: getDefaultAssistantCwd(),
+      sessionId: null,
+      updatedAt: 0,
+    });
+  });
+
+  it("updates and persists config", () => {
+    const updated = updateAssistantConfig({ enabled: true, model: "claude-sonnet-4-6" });
+    expect(updated.enabled).toBe(true);
+    expect(updated.model).toBe("claude-sonnet-4-6");
+    expect(updated.updatedAt).toBeGreaterThan(0);
+
+    const saved = JSON.parse(readFileSync(configPath, "utf-8"));
+    expect(saved.enabled).toBe(true);
+    expect(saved.model).toBe("claude-sonnet-4-6");
+    expect(saved.permissionMode).toBe(DEFAULT_ASSISTANT_PERMISSION_MODE);
+  });
+
+  it("keeps existing fields when patching, and can clear the session id", () => {
+    updateAssistantConfig({ cwd: "/work", sessionId: "s1" });
+    updateAssistantConfig({ permissionMode: "plan" });
+    expect(getAssistantConfig()).toMatchObject({ cwd: "/work", sessionId: "s1", permissionMode: "plan" });
+
+    updateAssistantConfig({ sessionId: null });
+    expect(getAssistantConfig().sessionId).toBeNull();
+  });
+
+  it("falls back to defaults for blank or invalid values", () => {
+    writeFileSync(
+      configPath,
+      JSON.stringify({ enabled: "yes", model: 42, permissionMode: " ", cwd: "", sessionId: "" }),
+      "utf-8",
+    );
+    _resetForTest(configPath);
+
+    expect(getAssistantConfig()).toMatchObject({
+      enabled: false,
+      model: "",
+      permissionMode: DEFAULT_ASSISTANT_PERMISSION_MODE,
+      cwd: getDefaultAssistantCwd(),
+      sessionId: null,
+    });
+  });
+
+  it("falls back to defaults for invalid JSON", () => {
+    writeFileSync(configPath, "not-json", "utf-8");
+    _resetForTest(configPath);
+    expect(getAssistantConfig().enabled).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  existsSync,
+} from "node:fs";
+import { join, dirname } from "node:path";
+import { homedir } from "node:os";
+
+export const DEFAULT_ASSISTANT_PERMISSION_MODE = "default";
+
+export interface AssistantConfig {
+  /** Auto-launch the assistant at server start */
+  enabled: boolean;
+  /** Empty string = CLI default model */
+  model: string;
+  permissionMode: string;
+  cwd: string;
+  /** Session currently backing the assistant (reused across restarts) */
+  sessionId: string | null;
+  updatedAt: number;
+}
+
+const DEFAULT_PATH = join(homedir(), ".companion", "assistant.json");
+
+export function getDefaultAssistantCwd(): string {
+  return join(homedir(), ".companion", "assistant");
+}
+
+let loaded = false;
+let filePath = DEFAULT_PATH;
+let config: AssistantConfig = normalize(null);
+
+function normalize(raw: Partial<AssistantConfig> | null | undefined): AssistantConfig {
+  return {
+    enabled: typeof raw?.enabled === "boolean" ? raw.enabled : false,
+    model: typeof raw?.model === "string" ? raw.model : "",
+    permissionMode:
+      typeof raw?.permissionMode === "string" && raw.permissionMode.trim()
+        ? raw.permissionMode
+        : DEFAULT_ASSISTANT_PERMISSION_MODE,
+    cwd: typeof raw?.cwd === "string" && raw.cwd.trim() ? raw.cwd : getDefaultAssistantCwd(),
+    sessionId: typeof raw?.sessionId === "string" && raw.sessionId ? raw.sessionId : null,
+    updatedAt: typeof raw?.updatedAt === "number" ? raw.updatedAt : 0,
+  };
+}
+
+function ensureLoaded(): void {
+  if (loaded) return;
+  try {
+    if (existsSync(filePath)) {
+      const raw = readFileSync(filePath, "utf-8");
+      config = normalize(JSON.parse(raw) as Partial<AssistantConfig>);
+    }
+  } catch {
+    config = normalize(null);
+  }
+  loaded = true;
+}
+
+function persist(): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(config, null, 2), "utf-8");
+}
+
+export function getAssistantConfig(): AssistantConfig {
+  ensureLoaded();
+  return { ...config };
+}
+
+export function updateAssistantConfig(
+  patch: Partial<Pick<AssistantConfig, "enabled" | "model" | "permissionMode" | "cwd" | "sessionId">>,
+): AssistantConfig {
+  ensureLoaded();
+  config = normalize({
+    enabled: patch.enabled ?? config.enabled,
+    model: patch.model ?? config.model,
+    permissionMode: patch.permissionMode ?? config.permissionMode,
+    cwd: patch.cwd ?? config.cwd,
+    sessionId: patch.sessionId !== undefined ? patch.sessionId : config.sessionId,
+    updatedAt: Date.now(),
+  });
+  persist();
+  return { ...config };
+}
+
+export function _resetForTest(customPath?: string): void {
+  loaded = false;
+  filePath = customPath || DEFAULT_PATH;
+  config = normalize(null);
+}
@@ -0,0 +1,94 @@
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  getAuthToken,
+  verifyAuthToken,
+  getLaunchToken,
+  verifyLaunchToken,
+  extractRequestToken,
+  _resetForTest,
+} from "./auth-manager.js";
+
+let tempDir: string;
+let authPath: string;
+const originalEnvToken = process.env.COMPANION_AUTH_TOKEN;
+
+beforeEach(() => {
+  delete process.env.COMPANION_AUTH_TOKEN;
+  tempDir = mkdtempSync(join(tmpdir(), "auth-manager-test-"));
+  authPath = join(tempDir, "auth.json");
+  _resetForTest(authPath);
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  _resetForTest();
+  if (originalEnvToken === undefined) delete process.env.COMPANION_AUTH_TOKEN;
+  else process.env.COMPANION_AUTH_TOKEN = originalEnvToken;
+});
+
+describe("auth-manager", () => {
+  it("generates and persists a secret on first use", () => {
+    const token = getAuthToken();
+    expect(token).toMatch(/^[a-f0-9]{64}$/);
+
+    const saved = JSON.parse(readFileSync(authPath, "utf-8"));
+    expect(saved.token).toBe(token);
+    expect(saved.createdAt).toBeGreaterThan(0);
+    // Secret file must not be world-readable
+    expect(statSync(authPath).mode & 0o077).toBe(0);
+  });
+
+  it("reuses the stored secret across reloads", () => {
+    const token = getAuthToken();
+    _resetForTest(authPath);
+    expect(getAuthToken()).toBe(token);
+  });
+
+  it("loads an existing secret from disk", () => {
+    writeFileSync(authPath, JSON.stringify({ token: "existing-secret", createdAt: 1 }), "utf-8");
+    _resetForTest(authPath);
+    expect(getAuthToken()).toBe("existing-secret");
+  });
+
+  it("regenerates the secret when the file is invalid", () => {
+    writeFileSync(authPath, "not-json", "utf-8");
+    _resetForTest(authPath);
+    const token = getAuthToken();
+    expect(token).toMatch(/^[a-f0-9]{64}$/);
+    expect(JSON.parse(readFileSync(authPath, "utf-8")).token).toBe(token);
+  });
+
+  it("prefers COMPANION_AUTH_TOKEN over the stored secret", () => {
+    process.env.COMPANION_AUTH_TOKEN = "from-env";
+    expect(getAuthToken()).toBe("from-env");
+    expect(verifyAuthToken("from-env")).toBe(true);
+  });
+
+  it("verifies tokens", () => {
+    const token = getAuthToken();
+    expect(verifyAuthToken(token)).toBe(true);
+    expect(verifyAuthToken("wrong")).toBe(false);
+    expect(verifyAuthToken("")).toBe(false);
+    expect(verifyAuthToken(null)).toBe(false);
+  });
+
+  it("issues launch tokens that only match their own session", () => {
+    const launchToken = getLaunchToken("session-a");
+    expect(launchToken).not.toBe(getAuthToken());
+    expect(verifyLaunchToken("session-a", launchToken)).toBe(true);
+    expect(verifyLaunchToken("session-b", launchToken)).toBe(false);
+    expect(verifyLaunchToken("session-a", undefined)).toBe(false);
+    // The main secret is not a valid launch token
+    expect(verifyLaunchToken("session-a", getAuthToken())).toBe(false);
+  });
+
+  it("extracts tokens from the Authorization header or query string", () => {
+    expect(extractRequestToken(new Request("http://localhost/api/x", {
+      headers: { Authorization: "Bearer abc" },
+    }))).toBe("abc");
+    expect(extractRequestToken(new Request("http://localhost/ws/browser/s1?token=def"))).toBe("def");
+    expect(extractRequestToken(new Request("http://localhost/api/x"))).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  existsSync,
+} from "node:fs";
+import { join, dirname } from "node:path";
+import { homedir } from "node:os";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Token-based auth for the HTTP API and WebSocket endpoints.
+ *
+ * A random secret is generated on first use and stored in
+ * ~/.companion/auth.json (mode 0600). Browsers and `companion` CLI commands
+ * present it as a Bearer token (or `?token=` for WebSocket upgrades, where
+ * custom headers are not available). CLI processes we spawn get a per-session
+ * launch token derived from the secret, so only they can attach to
+ * /ws/cli/:sessionId — the launch token is useless for any other session.
+ *
+ * COMPANION_AUTH_TOKEN overrides the stored secret (useful for scripted setups).
+ */
+
+export interface AuthConfig {
+  token: string;
+  createdAt: number;
+}
+
+const DEFAULT_PATH = join(homedir(), ".companion", "auth.json");
+const TOKEN_BYTES = 32;
+
+let loaded = false;
+let filePath = DEFAULT_PATH;
+let config: AuthConfig | null = null;
+
+function generateConfig(): AuthConfig {
+  return {
+    token: randomBytes(TOKEN_BYTES).toString("hex"),
+    createdAt: Date.now(),
+  };
+}
+
+function normalize(raw: Partial<AuthConfig> | null | undefined): AuthConfig | null {
+  if (typeof raw?.token !== "string" || !raw.token.trim()) return null;
+  return {
+    token: raw.token.trim(),
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+  };
+}
+
+function persist(next: AuthConfig): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(next, null, 2), { encoding: "utf-8", mode: 0o600 });
+}
+
+function ensureLoaded(): AuthConfig {
+  if (loaded && config) return config;
+  try {
+    if (existsSync(filePath)) {
+      config = normalize(JSON.parse(readFileSync(filePath, "utf-8")) as Partial<AuthConfig>);
+    }
+  } catch {
+    config = null;
+  }
+  if (!config) {
+    config = generateConfig();
+    persist(config);
+  }
+  loaded = true;
+  return config;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  if (left.length !== right.length) return false;
+  return timingSafeEqual(left, right);
+}
+
+/** The shared secret browsers and `companion` commands authenticate with. */
+export function getAuthToken(): string {
+  const envToken = process.env.COMPANION_AUTH_TOKEN?.trim();
+  if (envToken) return envToken;
+  return ensureLoaded().token;
+}
+
+/** Path of the file holding the generated secret (for startup hints). */
+export function getAuthFilePath(): string {
+  return filePath;
+}
+
+export function verifyAuthToken(candidate: string | null | undefined): boolean {
+  if (!candidate) return false;
+  return safeEqual(candidate, getAuthToken());
+}
+
+/** Deterministic per-session token handed to the CLI via --sdk-url. */
+export function getLaunchToken(sessionId: string): string {
+  return createHmac("sha256", getAuthToken()).update(`cli:${sessionId}`).digest("hex");
+}
+
+export function verifyLaunchToken(sessionId: string, candidate: string | null | undefined): boolean {
+  if (!candidate) return false;
+  return safeEqual(candidate, getLaunchToken(sessionId));
+}
+
+/**
+ * Extract a credential from a request: `Authorization: Bearer <token>` first,
+ * falling back to the `token` query parameter.
+ */
+export function extractRequestToken(req: Request): string | null {
+  const header = req.headers.get("authorization");
+  if (header) {
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (match) return match[1].trim();
+  }
+  const queryToken = new URL(req.url).searchParams.get("token");
+  return queryToken || null;
+}
+
+export function _resetForTest(customPath?: string): void {
+  loaded = false;
+  filePath = customPath || DEFAULT_PATH;
+  config = null;
+}
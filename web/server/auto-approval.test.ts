@@ -0,0 +1,181 @@
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { AutoApprovalRule } from "./auto-approval.js";
+
+let tempDir: string;
+let autoApproval: typeof import("./auto-approval.js");
+
+const mockHomedir = vi.hoisted(() => {
+  let dir = "";
+  return {
+    get: () => dir,
+    set: (d: string) => {
+      dir = d;
+    },
+  };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return {
+    ...actual,
+    homedir: () => mockHomedir.get(),
+  };
+});
+
+beforeEach(async () => {
+  tempDir = mkdtempSync(join(tmpdir(), "auto-approval-test-"));
+  mockHomedir.set(tempDir);
+  vi.resetModules();
+  autoApproval = await import("./auto-approval.js");
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function rule(overrides: Partial<AutoApprovalRule>): AutoApprovalRule {
+  return {
+    id: "r1",
+    enabled: true,
+    behavior: "allow",
+    toolName: "Read",
+    scope: "global",
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+const ctx = { sessionId: "s1", cwd: "/repo/app", repoRoot: "/repo" };
+
+describe("createAutoApprovalRule", () => {
+  it("persists a rule to auto-approval.json with trimmed fields", () => {
+    const created = autoApproval.createAutoApprovalRule({
+      behavior: "allow",
+      toolName: "  Bash ",
+      commandPattern: " ^git status$ ",
+      scope: "global",
+      description: "  Read-only git ",
+    });
+
+    expect(created.toolName).toBe("Bash");
+    expect(created.commandPattern).toBe("^git status$");
+    expect(created.description).toBe("Read-only git");
+    expect(created.enabled).toBe(true);
+    const raw = JSON.parse(readFileSync(join(tempDir, ".companion", "auto-approval.json"), "utf-8"));
+    expect(raw).toHaveLength(1);
+    expect(raw[0].id).toBe(created.id);
+  });
+
+  it("rejects invalid input", () => {
+    expect(() => autoApproval.createAutoApprovalRule({ behavior: "allow", toolName: "Read", scope: "repo" }))
+      .toThrow("Repo path is required for repo rules");
+    expect(() => autoApproval.createAutoApprovalRule({ behavior: "allow", toolName: "Read", scope: "session" }))
+      .toThrow("Session ID is required for session rules");
+    expect(() => autoApproval.createAutoApprovalRule({ behavior: "allow", toolName: "*", scope: "global" }))
+      .toThrow("Allow rules for any tool need a path glob or command pattern");
+    expect(() => autoApproval.createAutoApprovalRule({
+      behavior: "deny", toolName: "Bash", commandPattern: "(", scope: "global",
+    })).toThrow("Command pattern is not a valid regular expression");
+    expect(autoApproval.listAutoApprovalRules()).toEqual([]);
+  });
+
+  it("keeps only the target that belongs to the scope", () => {
+    const created = autoApproval.createAutoApprovalRule({
+      behavior: "allow",
+      toolName: "Read",
+      scope: "repo",
+      repoRoot: "/repo/",
+      sessionId: "s1",
+    });
+    expect(created.repoRoot).toBe("/repo");
+    expect(created.sessionId).toBeUndefined();
+  });
+});
+
+describe("updateAutoApprovalRule / deleteAutoApprovalRule", () => {
+  it("updates fields, re-validates and deletes", () => {
+    const created = autoApproval.createAutoApprovalRule({ behavior: "allow", toolName: "Read", scope: "global" });
+
+    const updated = autoApproval.updateAutoApprovalRule(created.id, { enabled: false, pathGlob: "src/**" });
+    expect(updated?.enabled).toBe(false);
+    expect(updated?.pathGlob).toBe("src/**");
+    expect(() => autoApproval.updateAutoApprovalRule(created.id, { scope: "session" }))
+      .toThrow("Session ID is required for session rules");
+    expect(autoApproval.updateAutoApprovalRule("missing", { enabled: true })).toBeNull();
+
+    expect(autoApproval.deleteAutoApprovalRule(created.id)).toBe(true);
+    expect(autoApproval.deleteAutoApprovalRule(created.id)).toBe(false);
+    expect(autoApproval.listAutoApprovalRules()).toEqual([]);
+  });
+
+  it("ignores malformed entries on disk", () => {
+    mkdirSync(join(tempDir, ".companion"), { recursive: true });
+    writeFileSync(
+      join(tempDir, ".companion", "auto-approval.json"),
+      JSON.stringify([rule({ id: "ok" }), { id: "bad", behavior: "maybe" }]),
+    );
+    expect(autoApproval.listAutoApprovalRules().map((r) => r.id)).toEqual(["ok"]);
+  });
+});
+
+describe("evaluateAutoApproval", () => {
+  it("allows a tool by name and reports the path as subject", () => {
+    const decision = autoApproval.evaluateAutoApproval([rule({})], "Read", { file_path: "/repo/app/a.ts" }, ctx);
+    expect(decision?.rule.id).toBe("r1");
+    expect(decision?.subject).toBe("/repo/app/a.ts");
+    expect(autoApproval.evaluateAutoApproval([rule({})], "Write", { file_path: "a.ts" }, ctx)).toBeNull();
+    expect(autoApproval.evaluateAutoApproval([rule({ enabled: false })], "Read", {}, ctx)).toBeNull();
+  });
+
+  it("matches command patterns but never allows compound commands", () => {
+    const gitRule = rule({ toolName: "Bash", commandPattern: "^git (status|diff)\\b" });
+    expect(autoApproval.evaluateAutoApproval([gitRule], "Bash", { command: "git status" }, ctx)?.subject)
+      .toBe("git status");
+    expect(autoApproval.evaluateAutoApproval([gitRule], "Bash", { command: "git status && rm -rf /" }, ctx)).toBeNull();
+    expect(autoApproval.evaluateAutoApproval([gitRule], "Bash", { command: "git diff $(whoami)" }, ctx)).toBeNull();
+    expect(autoApproval.evaluateAutoApproval([gitRule], "Bash", { command: "git push" }, ctx)).toBeNull();
+  });
+
+  it("keeps relative globs inside the session cwd and needs every path for allow", () => {
+    const srcRule = rule({ toolName: "Edit", pathGlob: "src/**/*.ts" });
+    expect(autoApproval.evaluateAutoApproval([srcRule], "Edit", { file_path: "/repo/app/src/x/a.ts" }, ctx)).not.toBeNull();
+    expect(autoApproval.evaluateAutoApproval([srcRule], "Edit", { file_path: "../src/a.ts" }, ctx)).toBeNull();
+    expect(autoApproval.evaluateAutoApproval(
+      [rule({ toolName: "Edit", pathGlob: "src/**" })],
+      "Edit",
+      { file_paths: ["src/a.ts", "package.json"] },
+      ctx,
+    )).toBeNull();
+  });
+
+  it("lets deny rules win and match on any path", () => {
+    const allowAll = rule({ id: "allow", toolName: "Edit", pathGlob: "**" });
+    const denyEnv = rule({ id: "deny", behavior: "deny", toolName: "*", pathGlob: "**/.env*" });
+    const decision = autoApproval.evaluateAutoApproval(
+      [allowAll, denyEnv],
+      "Edit",
+      { file_paths: ["src/a.ts", "config/.env.local"] },
+      ctx,
+    );
+    expect(decision?.rule.id).toBe("deny");
+  });
+
+  it("applies repo and session scopes", () => {
+    const repoRule = rule({ scope: "repo", repoRoot: "/repo" });
+    const otherRepo = rule({ scope: "repo", repoRoot: "/other" });
+    const sessionRule = rule({ scope: "session", sessionId: "s2" });
+    expect(autoApproval.evaluateAutoApproval([repoRule], "Read", { file_path: "a" }, ctx)).not.toBeNull();
+    expect(autoApproval.evaluateAutoApproval([otherRepo], "Read", { file_path: "a" }, ctx)).toBeNull();
+    expect(autoApproval.evaluateAutoApproval([sessionRule], "Read", { file_path: "a" }, ctx)).toBeNull();
+    expect(autoApproval.evaluateAutoApproval([sessionRule], "Read", { file_path: "a" }, { ...ctx, sessionId: "s2" }))
+      .not.toBeNull();
+  });
+
+  it("never answers interactive tools", () => {
+    expect(autoApproval.evaluateAutoApproval([rule({ toolName: "AskUserQuestion" })], "AskUserQuestion", {}, ctx))
+      .toBeNull();
+  });
+});
@@ -0,0 +1,281 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import { homedir } from "node:os";
+import { globToRegExp } from "./path-glob.js";
+
+export type AutoApprovalScope = "global" | "repo" | "session";
+export type AutoApprovalBehavior = "allow" | "deny";
+
+export interface AutoApprovalRule {
+  id: string;
+  enabled: boolean;
+  behavior: AutoApprovalBehavior;
+  /** Exact tool name ("Read", "Bash", ...) or "*" for any tool. */
+  toolName: string;
+  /** Glob on the request's file path(s). Relative globs match paths inside the session cwd. */
+  pathGlob?: string;
+  /** Regex on the Bash command. */
+  commandPattern?: string;
+  scope: AutoApprovalScope;
+  /** Repo root the rule is limited to (scope "repo"). */
+  repoRoot?: string;
+  /** Session the rule is limited to (scope "session"). */
+  sessionId?: string;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AutoApprovalRuleInput {
+  enabled?: boolean;
+  behavior?: AutoApprovalBehavior;
+  toolName?: string;
+  pathGlob?: string;
+  commandPattern?: string;
+  scope?: AutoApprovalScope;
+  repoRoot?: string;
+  sessionId?: string;
+  description?: string;
+}
+
+/** What a permission request is evaluated against. */
+export interface AutoApprovalContext {
+  sessionId: string;
+  cwd: string;
+  repoRoot?: string;
+}
+
+export interface AutoApprovalDecision {
+  rule: AutoApprovalRule;
+  /** Command or path(s) the rule matched, for the feed and logs. */
+  subject?: string;
+}
+
+const COMPANION_DIR = join(homedir(), ".companion");
+const RULES_FILE = join(COMPANION_DIR, "auto-approval.json");
+
+/** Tools that collect an answer from the user; a rule can't answer them. */
+const INTERACTIVE_TOOLS = new Set(["AskUserQuestion", "ExitPlanMode"]);
+/** Chaining, piping, redirection or substitution: an allow rule never covers these. */
+const COMPOUND_COMMAND_RE = /[;&|`<>\n]|\$\(/;
+const PATH_INPUT_KEYS = ["file_path", "notebook_path", "path"] as const;
+
+function ensureDir(): void {
+  mkdirSync(COMPANION_DIR, { recursive: true });
+}
+
+function normalizePath(path: string): string {
+  return resolve(path).replace(/[\\/]+$/, "");
+}
+
+function isScope(value: unknown): value is AutoApprovalScope {
+  return value === "global" || value === "repo" || value === "session";
+}
+
+function isBehavior(value: unknown): value is AutoApprovalBehavior {
+  return value === "allow" || value === "deny";
+}
+
+function loadRules(): AutoApprovalRule[] {
+  ensureDir();
+  if (!existsSync(RULES_FILE)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(RULES_FILE, "utf-8")) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((r): r is AutoApprovalRule => {
+        if (!r || typeof r !== "object") return false;
+        const candidate = r as Partial<AutoApprovalRule>;
+        return (
+          typeof candidate.id === "string"
+          && typeof candidate.toolName === "string"
+          && isBehavior(candidate.behavior)
+          && isScope(candidate.scope)
+        );
+      })
+      .map((r) => ({ ...r, enabled: r.enabled !== false }));
+  } catch {
+    return [];
+  }
+}
+
+function saveRules(rules: AutoApprovalRule[]): void {
+  ensureDir();
+  writeFileSync(RULES_FILE, JSON.stringify(rules, null, 2), "utf-8");
+}
+
+function cleanCommandPattern(value: string | undefined): string | undefined {
+  const pattern = value?.trim();
+  if (!pattern) return undefined;
+  try {
+    new RegExp(pattern);
+  } catch {
+    throw new Error("Command pattern is not a valid regular expression");
+  }
+  return pattern;
+}
+
+function validateRule(rule: AutoApprovalRule): void {
+  if (!rule.toolName) throw new Error("Tool name is required");
+  if (rule.scope === "repo" && !rule.repoRoot) throw new Error("Repo path is required for repo rules");
+  if (rule.scope === "session" && !rule.sessionId) throw new Error("Session ID is required for session rules");
+  if (rule.behavior === "allow" && rule.toolName === "*" && !rule.pathGlob && !rule.commandPattern) {
+    throw new Error("Allow rules for any tool need a path glob or command pattern");
+  }
+}
+
+function applyInput(base: AutoApprovalRule, input: AutoApprovalRuleInput): AutoApprovalRule {
+  const scope = input.scope ?? base.scope;
+  const next: AutoApprovalRule = {
+    ...base,
+    enabled: input.enabled ?? base.enabled,
+    behavior: input.behavior ?? base.behavior,
+    toolName: input.toolName !== undefined ? input.toolName.trim() : base.toolName,
+    pathGlob: input.pathGlob !== undefined ? input.pathGlob.trim() || undefined : base.pathGlob,
+    commandPattern: input.commandPattern !== undefined
+      ? cleanCommandPattern(input.commandPattern)
+      : base.commandPattern,
+    scope,
+    repoRoot: input.repoRoot !== undefined
+      ? (input.repoRoot.trim() ? normalizePath(input.repoRoot.trim()) : undefined)
+      : base.repoRoot,
+    sessionId: input.sessionId !== undefined ? input.sessionId.trim() || undefined : base.sessionId,
+    description: input.description !== undefined ? input.description.trim() || undefined : base.description,
+  };
+  // Drop the target that doesn't belong to the scope so stale values don't linger.
+  if (scope !== "repo") next.repoRoot = undefined;
+  if (scope !== "session") next.sessionId = undefined;
+  return next;
+}
+
+// ─── CRUD ───────────────────────────────────────────────────────────────────
+
+export function listAutoApprovalRules(): AutoApprovalRule[] {
+  return loadRules();
+}
+
+export function createAutoApprovalRule(input: AutoApprovalRuleInput): AutoApprovalRule {
+  if (!isBehavior(input.behavior)) throw new Error("Invalid behavior");
+  if (!isScope(input.scope)) throw new Error("Invalid scope");
+
+  const now = Date.now();
+  const rule = applyInput({
+    id: crypto.randomUUID(),
+    enabled: true,
+    behavior: input.behavior,
+    toolName: "",
+    scope: input.scope,
+    createdAt: now,
+    updatedAt: now,
+  }, input);
+  validateRule(rule);
+
+  const rules = loadRules();
+  rules.push(rule);
+  saveRules(rules);
+  return rule;
+}
+
+export function updateAutoApprovalRule(id: string, input: AutoApprovalRuleInput): AutoApprovalRule | null {
+  const rules = loadRules();
+  const index = rules.findIndex((r) => r.id === id);
+  if (index < 0) return null;
+  if (input.behavior !== undefined && !isBehavior(input.behavior)) throw new Error("Invalid behavior");
+  if (input.scope !== undefined && !isScope(input.scope)) throw new Error("Invalid scope");
+
+  const updated = { ...applyInput(rules[index], input), updatedAt: Date.now() };
+  validateRule(updated);
+  rules[index] = updated;
+  saveRules(rules);
+  return updated;
+}
+
+export function deleteAutoApprovalRule(id: string): boolean {
+  const rules = loadRules();
+  const next = rules.filter((r) => r.id !== id);
+  if (next.length === rules.length) return false;
+  saveRules(next);
+  return true;
+}
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+function requestPaths(input: Record<string, unknown>): string[] {
+  // Codex file-change approvals carry several paths.
+  if (Array.isArray(input.file_paths)) {
+    return input.file_paths.filter((p): p is string => typeof p === "string" && !!p);
+  }
+  for (const key of PATH_INPUT_KEYS) {
+    if (typeof input[key] === "string" && input[key]) return [input[key] as string];
+  }
+  return [];
+}
+
+function pathMatches(path: string, glob: string, cwd: string): boolean {
+  const absolute = resolve(cwd, path);
+  if (isAbsolute(glob)) return globToRegExp(glob).test(absolute);
+  const rel = relative(cwd, absolute);
+  // Relative globs only ever cover the session's own tree.
+  if (!rel || rel.startsWith("..") || isAbsolute(rel)) return false;
+  return globToRegExp(glob).test(rel);
+}
+
+function inScope(rule: AutoApprovalRule, ctx: AutoApprovalContext): boolean {
+  if (rule.scope === "global") return true;
+  if (rule.scope === "session") return rule.sessionId === ctx.sessionId;
+  const root = rule.repoRoot;
+  if (!root) return false;
+  const sessionRoot = normalizePath(ctx.repoRoot || ctx.cwd);
+  return sessionRoot === root || sessionRoot.startsWith(`${root}/`);
+}
+
+function ruleMatches(
+  rule: AutoApprovalRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  ctx: AutoApprovalContext,
+): string | undefined | false {
+  if (!rule.enabled || !inScope(rule, ctx)) return false;
+  if (rule.toolName !== "*" && rule.toolName !== toolName) return false;
+
+  let subject = typeof input.command === "string" ? input.command : requestPaths(input).join(", ") || undefined;
+  if (rule.commandPattern) {
+    if (typeof input.command !== "string") return false;
+    const command = input.command.trim();
+    if (rule.behavior === "allow" && COMPOUND_COMMAND_RE.test(command)) return false;
+    try {
+      if (!new RegExp(rule.commandPattern).test(command)) return false;
+    } catch {
+      return false;
+    }
+    subject = command;
+  }
+  if (rule.pathGlob) {
+    const paths = requestPaths(input);
+    if (paths.length === 0) return false;
+    // Allow needs every path covered; one matching path is enough to deny.
+    const matches = paths.map((p) => pathMatches(p, rule.pathGlob!, ctx.cwd));
+    if (rule.behavior === "allow" ? !matches.every(Boolean) : !matches.some(Boolean)) return false;
+    subject = paths.join(", ");
+  }
+  return subject;
+}
+
+/** Find the rule that answers a permission request. Deny rules win over allow rules. */
+export function evaluateAutoApproval(
+  rules: AutoApprovalRule[],
+  toolName: string,
+  input: Record<string, unknown>,
+  ctx: AutoApprovalContext,
+): AutoApprovalDecision | null {
+  if (INTERACTIVE_TOOLS.has(toolName)) return null;
+
+  let allow: AutoApprovalDecision | null = null;
+  for (const rule of rules) {
+    const subject = ruleMatches(rule, toolName, input, ctx);
+    if (subject === false) continue;
+    if (rule.behavior === "deny") return { rule, subject };
+    allow ??= { rule, subject };
+  }
+  return allow;
+}
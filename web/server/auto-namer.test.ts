@@ -21,6 +21,12 @@ beforeEach(() => {
     linearAutoTransitionStateId: "",
     linearAutoTransitionStateName: "",
     editorTabEnabled: false,
+    maxConcurrentSessions: 0,
+    maxSessionsPerRepo: 0,
+    maxSessionsPerBackend: 0,
+    idleSuspendMinutes: 0,
+    stuckAfterMinutes: 0,
+    stuckAction: "notify",
     updatedAt: 0,
   });
 });
@@ -48,6 +54,12 @@ describe("generateSessionTitle", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -82,6 +94,12 @@ describe("generateSessionTitle", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
     mockFetch.mockResolvedValueOnce({
@@ -157,6 +175,12 @@ describe("generateSessionTitle", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
     mockFetch.mockResolvedValueOnce({
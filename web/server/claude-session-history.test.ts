@@ -1,9 +1,10 @@
 import { afterEach, describe, expect, it } from "vitest";
-import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import {
   clearClaudeSessionHistoryCacheForTests,
+  copyClaudeSessionTranscript,
   getClaudeSessionHistoryPage,
 } from "./claude-session-history.js";
 
@@ -156,3 +157,18 @@ describe("getClaudeSessionHistoryPage", () => {
     expect(page).toBeNull();
   });
 });
+
+describe("copyClaudeSessionTranscript", () => {
+  it("copies the transcript into the project directory of another cwd", () => {
+    // Forks launched in a fresh worktree resume from that worktree's project dir.
+    const root = createTempProjectsRoot();
+    const source = writeSessionHistoryFile(root, "-repo", "cli-1", [{ type: "user", uuid: "u1" }]);
+
+    expect(copyClaudeSessionTranscript("cli-1", "/wt/repo.fork", root)).toBe(true);
+    const copied = join(root, "-wt-repo-fork", "cli-1.jsonl");
+    expect(readFileSync(copied, "utf-8")).toBe(readFileSync(source, "utf-8"));
+
+    expect(copyClaudeSessionTranscript("missing", "/wt/other", root)).toBe(false);
+    expect(existsSync(join(root, "-wt-other"))).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, statSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import type { ContentBlock } from "./session-types.js";
@@ -405,6 +405,33 @@ export function getClaudeSessionHistoryPage(
   };
 }
 
+/** Project directory name the Claude CLI uses for a cwd ("/a/b.c" → "-a-b-c"). */
+export function claudeProjectDirName(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+/**
+ * Make a session transcript resumable from another directory. The CLI only
+ * looks for `--resume` transcripts under the cwd's project directory, so a
+ * fork launched in a new worktree needs its own copy. Returns false when the
+ * transcript cannot be found.
+ */
+export function copyClaudeSessionTranscript(
+  sessionId: string,
+  targetCwd: string,
+  projectsRoot?: string,
+): boolean {
+  const root = getProjectsRoot(projectsRoot);
+  const source = resolveSessionSourceFile(sessionId, root);
+  if (!source) return false;
+  const targetDir = join(root, claudeProjectDirName(targetCwd));
+  const target = join(targetDir, `${sessionId}.jsonl`);
+  if (target === source.sourceFile) return true;
+  mkdirSync(targetDir, { recursive: true });
+  copyFileSync(source.sourceFile, target);
+  return true;
+}
+
 export function clearClaudeSessionHistoryCacheForTests(): void {
   parsedHistoryCache.clear();
 }
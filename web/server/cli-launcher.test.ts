@@ -6,7 +6,11 @@ import { tmpdir } from "node:os";
 // ─── Hoisted mocks ──────────────────────────────────────────────────────────
 
 // Mock randomUUID so session IDs are deterministic
-vi.mock("node:crypto", () => ({ randomUUID: () => "test-session-id" }));
+const mockRandomUUID = vi.hoisted(() => vi.fn(() => "test-session-id"));
+vi.mock("node:crypto", () => ({ randomUUID: mockRandomUUID }));
+
+// Mock auth-manager so launch tokens are deterministic
+vi.mock("./auth-manager.js", () => ({ getLaunchToken: (sessionId: string) => `launch-${sessionId}` }));
 
 // Mock path-resolver for binary resolution
 const mockResolveBinary = vi.hoisted(() => vi.fn((_name: string): string | null => "/usr/bin/claude"));
@@ -153,7 +157,7 @@ describe("launch", () => {
 
     // Core required flags
     expect(cmdAndArgs).toContain("--sdk-url");
-    expect(cmdAndArgs).toContain("ws://localhost:3456/ws/cli/test-session-id");
+    expect(cmdAndArgs).toContain("ws://localhost:3456/ws/cli/test-session-id?token=launch-test-session-id");
     expect(cmdAndArgs).toContain("--print");
     expect(cmdAndArgs).toContain("--output-format");
     expect(cmdAndArgs).toContain("stream-json");
@@ -217,7 +221,7 @@ describe("launch", () => {
     // With bash -lc wrapping, CLI args are in the last element as a single string
     const bashCmd = cmdAndArgs[cmdAndArgs.length - 1];
     expect(bashCmd).toContain("--sdk-url");
-    expect(bashCmd).toContain("ws://172.17.0.1:3456/ws/cli/test-session-id");
+    expect(bashCmd).toContain("ws://172.17.0.1:3456/ws/cli/test-session-id?token=launch-test-session-id");
   });
 
   it("passes --allowedTools for each tool", () => {
@@ -253,6 +257,26 @@ describe("launch", () => {
     expect(cmdAndArgs).toContain("--fork-session");
   });
 
+  it("forks a session at a message with the parent's environment", () => {
+    const parent = launcher.launch({ cwd: "/tmp", env: { API_TOKEN: "secret" } });
+    mockSpawn.mockClear();
+
+    const fork = launcher.launch({
+      cwd: "/tmp",
+      resumeSessionId: "cli-parent",
+      resumeSessionAt: "uuid-7",
+      forkSession: true,
+      parentSessionId: parent.sessionId,
+    });
+
+    const [cmdAndArgs, options] = mockSpawn.mock.calls[0];
+    expect(cmdAndArgs[cmdAndArgs.indexOf("--resume") + 1]).toBe("cli-parent");
+    expect(cmdAndArgs[cmdAndArgs.indexOf("--resume-session-at") + 1]).toBe("uuid-7");
+    expect(cmdAndArgs).toContain("--fork-session");
+    expect(options.env.API_TOKEN).toBe("secret");
+    expect(fork.parentSessionId).toBe(parent.sessionId);
+  });
+
   it("resolves binary path via resolveBinary when not absolute", () => {
     mockResolveBinary.mockReturnValue("/usr/local/bin/claude-dev");
     launcher.launch({ claudeBinary: "claude-dev", cwd: "/tmp" });
@@ -820,6 +844,60 @@ describe("relaunch", () => {
 
 // ─── persistence ─────────────────────────────────────────────────────────────
 
+// ─── launch queue ────────────────────────────────────────────────────────────
+
+describe("launch queue", () => {
+  beforeEach(() => {
+    launcher.setConcurrencyLimits(() => ({ maxSessions: 1, maxSessionsPerRepo: 0, maxSessionsPerBackend: 0 }));
+  });
+
+  it("queues launches over the limit and starts them when a slot frees up", async () => {
+    mockRandomUUID.mockReturnValueOnce("first").mockReturnValueOnce("second");
+    launcher.launch({ cwd: "/tmp" });
+    const second = launcher.launch({ cwd: "/tmp" });
+
+    expect(mockSpawn).toHaveBeenCalledTimes(1);
+    expect(second.queued).toBe(true);
+    expect(launcher.getQueuePosition("second")).toBe(1);
+
+    // The first process exits; its slot goes to the queued session
+    exitResolve(0);
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    expect(second.queued).toBeUndefined();
+    expect(launcher.getQueuePosition("second")).toBeNull();
+  });
+
+  it("reports the blocking limit and cancels a queued launch on kill", async () => {
+    mockRandomUUID.mockReturnValueOnce("first").mockReturnValueOnce("second");
+    launcher.launch({ cwd: "/tmp" });
+    launcher.launch({ cwd: "/tmp" });
+    const updates: [number, string][] = [];
+    const waiting = launcher.waitForLaunchSlot("second", (position, reason) => updates.push([position, reason]));
+
+    expect(await launcher.kill("second")).toBe(true);
+    await waiting;
+
+    expect(updates).toEqual([[1, "1 of 1 sessions running"]]);
+    expect(launcher.getSession("second")?.state).toBe("exited");
+    expect(mockSpawn).toHaveBeenCalledTimes(1);
+  });
+
+  it("queues relaunches too", async () => {
+    mockRandomUUID.mockReturnValueOnce("first").mockReturnValueOnce("second");
+    launcher.launch({ cwd: "/tmp" });
+    launcher.launch({ cwd: "/tmp" });
+    await launcher.kill("second");
+
+    const result = await launcher.relaunch("second");
+
+    expect(result).toEqual({ ok: true });
+    expect(launcher.getSession("second")?.queued).toBe(true);
+    expect(mockSpawn).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe("persistence", () => {
   describe("restoreFromDisk", () => {
     it("recovers sessions from the store", () => {
@@ -14,6 +14,15 @@ import type { RecorderManager } from "./recorder.js";
 import { CodexAdapter } from "./codex-adapter.js";
 import { resolveBinary, getEnrichedPath } from "./path-resolver.js";
 import { containerManager } from "./container-manager.js";
+import { getLaunchToken } from "./auth-manager.js";
+import {
+  NO_CONCURRENCY_LIMITS,
+  findBlockingLimit,
+  hasConcurrencyLimits,
+  resolveRepoKey,
+  type ConcurrencyLimits,
+  type SlotClaim,
+} from "./concurrency-governor.js";
 import {
   getLegacyCodexHome,
   resolveCompanionCodexSessionHome,
@@ -71,10 +80,18 @@ export interface SdkSessionInfo {
   cronJobId?: string;
   /** Human-readable name of the cron job that spawned this session */
   cronJobName?: string;
+  /** Whether this is the long-lived Companion Assistant session */
+  assistant?: boolean;
   /** If session was created from an existing Claude thread/session. */
   resumeSessionAt?: string;
   /** Whether the resumed session used --fork-session. */
   forkSession?: boolean;
+  /** Companion session this one was forked from ("fork from here"). */
+  parentSessionId?: string;
+  /** Fan-out group this session is one variant of */
+  fanoutId?: string;
+  /** Waiting in the launch queue for a concurrency slot */
+  queued?: boolean;
 
   // Container fields
   /** Docker container ID when session runs inside a container */
@@ -114,6 +131,17 @@ export interface LaunchOptions {
   resumeSessionAt?: string;
   /** Fork a new Claude session when resuming from prior context. */
   forkSession?: boolean;
+  /** Claude session to resume; with resumeSessionAt, the message to fork at. */
+  resumeSessionId?: string;
+  /** Companion session being forked. Its environment is reused when `env` is unset. */
+  parentSessionId?: string;
+}
+
+interface QueuedLaunch {
+  sessionId: string;
+  start: () => void;
+  /** The limit it is waiting on, from the last drain */
+  reason: string;
 }
 
 /**
@@ -130,6 +158,11 @@ export class CliLauncher {
   private recorder: RecorderManager | null = null;
   private onCodexAdapter: ((sessionId: string, adapter: CodexAdapter) => void) | null = null;
   private exitHandlers: ((sessionId: string, exitCode: number | null) => void)[] = [];
+  private getConcurrencyLimits: () => ConcurrencyLimits = () => NO_CONCURRENCY_LIMITS;
+  /** Launches waiting for a slot, oldest first */
+  private launchQueue: QueuedLaunch[] = [];
+  private queueListeners = new Set<() => void>();
+  private repoKeys = new Map<string, string>();
 
   constructor(port: number) {
     this.port = port;
@@ -145,6 +178,11 @@ export class CliLauncher {
     this.exitHandlers.push(cb);
   }
 
+  /** Limits on running sessions; launches beyond them wait in a FIFO queue. Read on every launch. */
+  setConcurrencyLimits(getLimits: () => ConcurrencyLimits): void {
+    this.getConcurrencyLimits = getLimits;
+  }
+
   /** Attach a persistent store for surviving server restarts. */
   setStore(store: SessionStore): void {
     this.store = store;
@@ -174,6 +212,9 @@ export class CliLauncher {
     let recovered = 0;
     for (const info of data) {
       if (this.sessions.has(info.sessionId)) continue;
+      // The queue doesn't survive a restart; the reconnection watchdog
+      // relaunches sessions still "starting", which queues them again.
+      delete info.queued;
 
       // Check if the process is still alive
       if (info.pid && info.state !== "exited") {
@@ -221,6 +262,13 @@ export class CliLauncher {
       info.resumeSessionAt = options.resumeSessionAt;
       info.forkSession = options.forkSession === true;
     }
+    if (options.parentSessionId) {
+      info.parentSessionId = options.parentSessionId;
+      if (!options.env) {
+        const parentEnv = this.sessionEnvs.get(options.parentSessionId);
+        if (parentEnv) options = { ...options, env: parentEnv };
+      }
+    }
 
     if (backendType === "codex") {
       info.codexInternetAccess = options.codexInternetAccess === true;
@@ -240,11 +288,13 @@ export class CliLauncher {
       this.sessionEnvs.set(sessionId, { ...options.env });
     }
 
-    if (backendType === "codex") {
-      this.spawnCodex(sessionId, info, options);
-    } else {
-      this.spawnCLI(sessionId, info, options);
-    }
+    this.startOrQueue(info, () => {
+      if (backendType === "codex") {
+        this.spawnCodex(sessionId, info, options);
+      } else {
+        this.spawnCLI(sessionId, info, options);
+      }
+    });
     return info;
   }
 
@@ -256,6 +306,8 @@ export class CliLauncher {
   async relaunch(sessionId: string): Promise<{ ok: boolean; error?: string }> {
     const info = this.sessions.get(sessionId);
     if (!info) return { ok: false, error: "Session not found" };
+    // Already waiting for a slot
+    if (info.queued) return { ok: true };
 
     // Kill old process if still alive
     const oldProc = this.processes.get(sessionId);
@@ -319,7 +371,12 @@ export class CliLauncher {
     }
 
     info.state = "starting";
+    this.startOrQueue(info, () => this.respawn(sessionId, info));
+    return { ok: true };
+  }
 
+  /** Spawn a fresh process for an existing session, resuming its CLI conversation. */
+  private respawn(sessionId: string, info: SdkSessionInfo): void {
     const runtimeEnv = this.sessionEnvs.get(sessionId);
 
     if (info.backendType === "codex") {
@@ -347,7 +404,110 @@ export class CliLauncher {
         env: runtimeEnv,
       });
     }
-    return { ok: true };
+  }
+
+  // ── Launch queue ───────────────────────────────────────────────────────
+
+  /** Start now when the limits allow, otherwise wait at the back of the queue. */
+  private startOrQueue(info: SdkSessionInfo, start: () => void): void {
+    info.queued = true;
+    this.launchQueue.push({ sessionId: info.sessionId, start, reason: "" });
+    this.drainLaunchQueue();
+    const entry = this.launchQueue.find((e) => e.sessionId === info.sessionId);
+    if (entry) {
+      console.log(`[cli-launcher] Session ${info.sessionId} queued (${entry.reason})`);
+      this.persistState();
+    }
+  }
+
+  /**
+   * Start every queued launch that now fits, oldest first. Runs whenever a
+   * process exits or is killed; call it after raising the limits.
+   */
+  drainLaunchQueue(): void {
+    for (const entry of [...this.launchQueue]) {
+      const info = this.sessions.get(entry.sessionId);
+      if (!info?.queued) {
+        this.launchQueue = this.launchQueue.filter((e) => e !== entry);
+        continue;
+      }
+      const blocker = this.findLaunchBlocker(info);
+      if (blocker) {
+        entry.reason = blocker;
+        continue;
+      }
+      this.launchQueue = this.launchQueue.filter((e) => e !== entry);
+      delete info.queued;
+      entry.start();
+    }
+    for (const listener of this.queueListeners) listener();
+  }
+
+  /** The limit keeping `info` from starting, or null when it fits. */
+  private findLaunchBlocker(info: SdkSessionInfo): string | null {
+    const limits = this.getConcurrencyLimits();
+    if (!hasConcurrencyLimits(limits)) return null;
+    const claim = (s: SdkSessionInfo): SlotClaim => ({
+      backendType: s.backendType ?? "claude",
+      // Resolving the repository shells out to git; skip it when unused.
+      repoKey: limits.maxSessionsPerRepo ? this.repoKeyOf(s) : "",
+    });
+    const running: SlotClaim[] = [];
+    for (const s of this.sessions.values()) {
+      if (s !== info && s.state !== "exited" && !s.queued) running.push(claim(s));
+    }
+    return findBlockingLimit(running, claim(info), limits);
+  }
+
+  private repoKeyOf(info: SdkSessionInfo): string {
+    let key = this.repoKeys.get(info.sessionId);
+    if (key === undefined) {
+      key = resolveRepoKey(info.cwd);
+      this.repoKeys.set(info.sessionId, key);
+    }
+    return key;
+  }
+
+  /** 1-based position in the launch queue, or null when the session isn't waiting. */
+  getQueuePosition(sessionId: string): number | null {
+    const index = this.launchQueue.findIndex((e) => e.sessionId === sessionId);
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Resolve once a queued session leaves the queue, started or cancelled.
+   * `onUpdate` gets its position and the limit it waits on whenever they change.
+   */
+  waitForLaunchSlot(sessionId: string, onUpdate?: (position: number, reason: string) => void): Promise<void> {
+    return new Promise((resolve) => {
+      let last = "";
+      const check = () => {
+        const position = this.getQueuePosition(sessionId);
+        if (position === null) {
+          this.queueListeners.delete(check);
+          resolve();
+          return;
+        }
+        const reason = this.launchQueue[position - 1].reason;
+        if (`${position}:${reason}` === last) return;
+        last = `${position}:${reason}`;
+        onUpdate?.(position, reason);
+      };
+      this.queueListeners.add(check);
+      check();
+    });
+  }
+
+  /** Drop a launch that is still waiting for a slot. */
+  private cancelQueuedLaunch(sessionId: string): boolean {
+    const info = this.sessions.get(sessionId);
+    if (!info?.queued) return false;
+    delete info.queued;
+    info.state = "exited";
+    info.exitCode = -1;
+    this.persistState();
+    this.drainLaunchQueue();
+    return true;
   }
 
   /**
@@ -357,7 +517,7 @@ export class CliLauncher {
     return Array.from(this.sessions.values()).filter((s) => s.state === "starting");
   }
 
-  private spawnCLI(sessionId: string, info: SdkSessionInfo, options: LaunchOptions & { resumeSessionId?: string }): void {
+  private spawnCLI(sessionId: string, info: SdkSessionInfo, options: LaunchOptions): void {
     const isContainerized = !!options.containerId;
 
     // For containerized sessions, the CLI binary lives inside the container.
@@ -383,9 +543,11 @@ export class CliLauncher {
 
     // When running inside a container, the SDK URL should target the host alias
     // so the CLI can connect back to the Hono server running on the host.
+    // The launch token lets the server verify this is the CLI we spawned.
+    const launchToken = getLaunchToken(sessionId);
     const sdkUrl = isContainerized
-      ? `ws://${containerSdkHost}:${this.port}/ws/cli/${sessionId}`
-      : `ws://localhost:${this.port}/ws/cli/${sessionId}`;
+      ? `ws://${containerSdkHost}:${this.port}/ws/cli/${sessionId}?token=${launchToken}`
+      : `ws://localhost:${this.port}/ws/cli/${sessionId}?token=${launchToken}`;
 
     // Claude Code rejects bypassPermissions when running with root/sudo. Most
     // container images run as root by default, so downgrade to acceptEdits unless
@@ -457,6 +619,7 @@ export class CliLauncher {
       }
       // Ensure CLAUDECODE is unset inside container
       dockerArgs.push("-e", "CLAUDECODE=");
+      dockerArgs.push("-e", "CLAUDE_CODE_ENABLE_SDK_FILE_CHECKPOINTING=true");
 
       dockerArgs.push(options.containerId!);
       // Use a login shell so ~/.bashrc is sourced and nvm/bun/deno/etc are on PATH
@@ -473,6 +636,8 @@ export class CliLauncher {
       spawnEnv = {
         ...process.env,
         CLAUDECODE: undefined,
+        // Lets rewind_files restore edits made after a given user message
+        CLAUDE_CODE_ENABLE_SDK_FILE_CHECKPOINTING: "true",
         ...options.env,
         PATH: getEnrichedPath(),
       };
@@ -519,6 +684,7 @@ export class CliLauncher {
       for (const handler of this.exitHandlers) {
         try { handler(sessionId, exitCode); } catch {}
       }
+      this.drainLaunchQueue();
     });
 
     this.persistState();
@@ -720,6 +886,7 @@ export class CliLauncher {
       for (const handler of this.exitHandlers) {
         try { handler(sessionId, exitCode); } catch {}
       }
+      this.drainLaunchQueue();
     });
 
     this.persistState();
@@ -754,6 +921,7 @@ export class CliLauncher {
    * Kill a session's CLI process.
    */
   async kill(sessionId: string): Promise<boolean> {
+    if (this.cancelQueuedLaunch(sessionId)) return true;
     const proc = this.processes.get(sessionId);
     if (!proc) return false;
 
@@ -777,6 +945,7 @@ export class CliLauncher {
     }
     this.processes.delete(sessionId);
     this.persistState();
+    this.drainLaunchQueue();
     return true;
   }
 
@@ -817,7 +986,9 @@ export class CliLauncher {
    * Remove a session from the internal map (after kill or cleanup).
    */
   removeSession(sessionId: string) {
+    this.cancelQueuedLaunch(sessionId);
     this.sessions.delete(sessionId);
+    this.repoKeys.delete(sessionId);
     this.processes.delete(sessionId);
     this.sessionEnvs.delete(sessionId);
     this.persistState();
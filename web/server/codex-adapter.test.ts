@@ -242,6 +242,51 @@ describe("CodexAdapter", () => {
     expect(result.data.subtype).toBe("success");
   });
 
+  it("reports the tokens used by each turn in the result", async () => {
+    // Codex only sends cumulative thread totals; the result carries the difference.
+    const messages: BrowserIncomingMessage[] = [];
+    const adapter = new CodexAdapter(proc as never, "test-session", { model: "o4-mini" });
+    adapter.onBrowserMessage((msg) => messages.push(msg));
+
+    await new Promise((r) => setTimeout(r, 50));
+    stdout.push(JSON.stringify({ id: 1, result: { userAgent: "codex" } }) + "\n");
+    await new Promise((r) => setTimeout(r, 20));
+    stdout.push(JSON.stringify({ id: 2, result: { thread: { id: "thr_123" } } }) + "\n");
+    await new Promise((r) => setTimeout(r, 50));
+
+    const usage = (inputTokens: number, cachedInputTokens: number, outputTokens: number) => JSON.stringify({
+      method: "thread/tokenUsage/updated",
+      params: {
+        threadId: "thr_123",
+        tokenUsage: {
+          total: { inputTokens, cachedInputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+          modelContextWindow: 258_400,
+        },
+      },
+    }) + "\n";
+    const turn = (id: string) => [
+      JSON.stringify({ method: "turn/started", params: { turn: { id } } }) + "\n",
+      JSON.stringify({ method: "turn/completed", params: { turn: { id, status: "completed", items: [], error: null } } }) + "\n",
+    ];
+
+    const [start1, end1] = turn("turn_1");
+    stdout.push(start1);
+    stdout.push(usage(1000, 200, 100));
+    stdout.push(end1);
+    await new Promise((r) => setTimeout(r, 50));
+    const [start2, end2] = turn("turn_2");
+    stdout.push(start2);
+    stdout.push(usage(1500, 900, 160));
+    stdout.push(end2);
+    await new Promise((r) => setTimeout(r, 50));
+
+    const results = messages.filter((m) => m.type === "result") as Array<{ data: { usage: Record<string, number> } }>;
+    expect(results.map((r) => r.data.usage)).toEqual([
+      { input_tokens: 1000, output_tokens: 100, cache_creation_input_tokens: 0, cache_read_input_tokens: 200 },
+      { input_tokens: 500, output_tokens: 60, cache_creation_input_tokens: 0, cache_read_input_tokens: 700 },
+    ]);
+  });
+
   it("translates turn/plan/updated into TodoWrite tool_use for /plan", async () => {
     const messages: BrowserIncomingMessage[] = [];
     const adapter = new CodexAdapter(proc as never, "test-session", { model: "o4-mini" });
@@ -437,6 +482,28 @@ describe("CodexAdapter", () => {
     expect(allWritten).toContain("thr_123");
   });
 
+  it("passes the thinking budget to turn/start as reasoning effort", async () => {
+    const adapter = new CodexAdapter(proc as never, "test-session", { model: "o4-mini" });
+
+    await new Promise((r) => setTimeout(r, 50));
+
+    stdout.push(JSON.stringify({ id: 1, result: { userAgent: "codex" } }) + "\n");
+    await new Promise((r) => setTimeout(r, 20));
+    stdout.push(JSON.stringify({ id: 2, result: { thread: { id: "thr_123" } } }) + "\n");
+    await new Promise((r) => setTimeout(r, 50));
+
+    stdin.chunks = [];
+
+    adapter.sendBrowserMessage({ type: "set_thinking_budget", level: "custom", tokens: 2_000 });
+    adapter.sendBrowserMessage({ type: "user_message", content: "Think briefly" });
+
+    await new Promise((r) => setTimeout(r, 50));
+
+    const allWritten = stdin.chunks.join("");
+    expect(allWritten).toContain('"method":"turn/start"');
+    expect(allWritten).toContain('"effort":"low"');
+  });
+
   it("uses executionCwd for turn/start when receiving user_message", async () => {
     const adapter = new CodexAdapter(proc as never, "test-session", {
       model: "o4-mini",
@@ -21,6 +21,7 @@ import type {
   McpServerConfig,
 } from "./session-types.js";
 import type { RecorderManager } from "./recorder.js";
+import { toCodexReasoningEffort, type CodexReasoningEffort } from "./thinking-budget.js";
 
 // ─── Codex JSON-RPC Types ─────────────────────────────────────────────────────
 
@@ -323,6 +324,10 @@ export class CodexAdapter {
   // State
   private threadId: string | null = null;
   private currentTurnId: string | null = null;
+  /** Turn start time and cumulative token totals, used to report per-turn usage in the synthesized result. */
+  private turnStartedAt: number | null = null;
+  private tokenTotals: Record<string, number> | null = null;
+  private turnStartTotals: Record<string, number> | null = null;
   private connected = false;
   private initialized = false;
   private initFailed = false;
@@ -336,6 +341,8 @@ export class CodexAdapter {
 
   // Track requested runtime mode for subsequent turns.
   private currentPermissionMode: string;
+  /** Reasoning effort for new turns; unset = Codex default */
+  private currentReasoningEffort: CodexReasoningEffort | null = null;
   private lastNonPlanPermissionMode: string;
   private currentCollaborationModeKind: "default" | "plan";
   // Track what we last sent to Codex so we only send on transitions.
@@ -453,6 +460,7 @@ export class CodexAdapter {
         || msg.type === "mcp_toggle"
         || msg.type === "mcp_reconnect"
         || msg.type === "mcp_set_servers"
+        || msg.type === "set_thinking_budget"
       ) {
         console.log(`[codex-adapter] Queuing ${msg.type} — adapter not yet initialized`);
         this.pendingOutgoing.push(msg);
@@ -494,6 +502,10 @@ export class CodexAdapter {
       case "mcp_set_servers":
         this.handleOutgoingMcpSetServers(msg.servers);
         return true;
+      case "set_thinking_budget":
+        // Applied to subsequent turns via turn/start's `effort`
+        this.currentReasoningEffort = toCodexReasoningEffort(msg.level, msg.tokens);
+        return true;
       default:
         return false;
     }
@@ -682,6 +694,9 @@ export class CodexAdapter {
         approvalPolicy: this.mapApprovalPolicy(this.currentPermissionMode),
         sandboxPolicy: this.mapSandboxPolicyObject(this.currentPermissionMode),
       };
+      if (this.currentReasoningEffort) {
+        turnParams.effort = this.currentReasoningEffort;
+      }
       if (this.currentCollaborationModeKind !== this.lastSentCollaborationModeKind) {
         turnParams.collaborationMode = this.mapCollaborationMode(this.currentCollaborationModeKind);
         this.lastSentCollaborationModeKind = this.currentCollaborationModeKind;
@@ -1041,6 +1056,8 @@ export class CodexAdapter {
   }
 
   private handleTurnStarted(params: Record<string, unknown>): void {
+    this.turnStartedAt = Date.now();
+    this.turnStartTotals = this.tokenTotals;
     const turn = this.asRecord(params.turn);
     const collab = this.asRecord(turn?.collaborationMode);
     const fromObject = collab?.mode;
@@ -1773,17 +1790,28 @@ export class CodexAdapter {
     const turn = params.turn as { id: string; status: string; error?: { message: string } } | undefined;
 
     // Synthesize a CLIResultMessage-like structure
+    const totals = this.tokenTotals;
+    const startTotals = this.turnStartTotals;
+    const used = (key: string) => Math.max(0, (totals?.[key] || 0) - (startTotals?.[key] || 0));
+    const durationMs = this.turnStartedAt ? Date.now() - this.turnStartedAt : 0;
+    this.turnStartedAt = null;
+    this.turnStartTotals = totals;
     const result: CLIResultMessage = {
       type: "result",
       subtype: turn?.status === "completed" ? "success" : "error_during_execution",
       is_error: turn?.status !== "completed",
       result: turn?.error?.message,
-      duration_ms: 0,
+      duration_ms: durationMs,
       duration_api_ms: 0,
       num_turns: 1,
       total_cost_usd: 0,
       stop_reason: turn?.status || "end_turn",
-      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      usage: {
+        input_tokens: used("inputTokens"),
+        output_tokens: used("outputTokens"),
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: used("cachedInputTokens"),
+      },
       uuid: randomUUID(),
       session_id: this.sessionId,
     };
@@ -1846,6 +1874,7 @@ export class CodexAdapter {
     const total = tokenUsage.total as Record<string, number> | undefined;
     const last = tokenUsage.last as Record<string, number> | undefined;
     const contextWindow = tokenUsage.modelContextWindow as number | undefined;
+    if (total) this.tokenTotals = total;
 
     const updates: Partial<SessionState> = {};
 
@@ -0,0 +1,70 @@
+import { findBlockingLimit, suspendIdleSessions, type SlotClaim } from "./concurrency-governor.js";
+import type { SdkSessionInfo } from "./cli-launcher.js";
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1);
+
+function claim(backendType: SlotClaim["backendType"], repoKey = "/repo"): SlotClaim {
+  return { backendType, repoKey };
+}
+
+function info(sessionId: string, overrides: Partial<SdkSessionInfo> = {}): SdkSessionInfo {
+  return { sessionId, state: "connected", cwd: "/repo", createdAt: 0, ...overrides };
+}
+
+function makeDeps(sessions: SdkSessionInfo[], idleSince: Record<string, number | null>) {
+  return {
+    launcher: { listSessions: vi.fn(() => sessions), kill: vi.fn(async () => true) },
+    bridge: { getIdleSince: vi.fn((id: string) => idleSince[id] ?? null), markSuspended: vi.fn() },
+  };
+}
+
+describe("findBlockingLimit", () => {
+  it("lets everything through when no limit is set", () => {
+    const running = [claim("claude"), claim("claude"), claim("codex")];
+    expect(findBlockingLimit(running, claim("claude"), { maxSessions: 0, maxSessionsPerRepo: 0, maxSessionsPerBackend: 0 }))
+      .toBeNull();
+  });
+
+  it("reports the global limit first", () => {
+    const running = [claim("claude"), claim("codex", "/other")];
+    expect(findBlockingLimit(running, claim("claude"), { maxSessions: 2, maxSessionsPerRepo: 1, maxSessionsPerBackend: 0 }))
+      .toBe("2 of 2 sessions running");
+  });
+
+  it("counts sessions in the same repository", () => {
+    const running = [claim("claude", "/a"), claim("claude", "/b")];
+    const limits = { maxSessions: 0, maxSessionsPerRepo: 1, maxSessionsPerBackend: 0 };
+    expect(findBlockingLimit(running, claim("codex", "/a"), limits)).toBe("1 of 1 sessions running in this repository");
+    expect(findBlockingLimit(running, claim("codex", "/c"), limits)).toBeNull();
+  });
+
+  it("counts each backend separately", () => {
+    const running = [claim("claude"), claim("claude"), claim("codex")];
+    const limits = { maxSessions: 0, maxSessionsPerRepo: 0, maxSessionsPerBackend: 2 };
+    expect(findBlockingLimit(running, claim("claude"), limits)).toBe("2 of 2 Claude Code sessions running");
+    expect(findBlockingLimit(running, claim("codex"), limits)).toBeNull();
+  });
+});
+
+describe("suspendIdleSessions", () => {
+  it("marks and kills sessions idle past the threshold", async () => {
+    const deps = makeDeps(
+      [info("idle"), info("recent"), info("busy"), info("exited", { state: "exited" }), info("archived", { archived: true })],
+      { idle: NOW - 31 * MINUTE, recent: NOW - 5 * MINUTE, busy: null, exited: 0, archived: 0 },
+    );
+
+    const suspended = await suspendIdleSessions(deps, 30, NOW);
+
+    expect(suspended).toEqual(["idle"]);
+    expect(deps.bridge.markSuspended).toHaveBeenCalledWith("idle");
+    expect(deps.launcher.kill).toHaveBeenCalledTimes(1);
+    expect(deps.launcher.kill).toHaveBeenCalledWith("idle");
+  });
+
+  it("does nothing when idle suspend is off", async () => {
+    const deps = makeDeps([info("idle")], { idle: 0 });
+    expect(await suspendIdleSessions(deps, 0, NOW)).toEqual([]);
+    expect(deps.launcher.kill).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import type { CliLauncher } from "./cli-launcher.js";
+import type { WsBridge } from "./ws-bridge.js";
+import type { BackendType } from "./session-types.js";
+import type { CompanionSettings } from "./settings-manager.js";
+import { getMainRepoRoot } from "./git-utils.js";
+
+const MINUTE_MS = 60 * 1000;
+const IDLE_SWEEP_INTERVAL_MS = MINUTE_MS;
+
+/** Caps on sessions with a live CLI process. 0 means no limit. */
+export interface ConcurrencyLimits {
+  maxSessions: number;
+  maxSessionsPerRepo: number;
+  /** Applies to each backend separately */
+  maxSessionsPerBackend: number;
+}
+
+export const NO_CONCURRENCY_LIMITS: ConcurrencyLimits = {
+  maxSessions: 0,
+  maxSessionsPerRepo: 0,
+  maxSessionsPerBackend: 0,
+};
+
+export function concurrencyLimitsFromSettings(
+  settings: Pick<CompanionSettings, "maxConcurrentSessions" | "maxSessionsPerRepo" | "maxSessionsPerBackend">,
+): ConcurrencyLimits {
+  return {
+    maxSessions: settings.maxConcurrentSessions,
+    maxSessionsPerRepo: settings.maxSessionsPerRepo,
+    maxSessionsPerBackend: settings.maxSessionsPerBackend,
+  };
+}
+
+export function hasConcurrencyLimits(limits: ConcurrencyLimits): boolean {
+  return limits.maxSessions > 0 || limits.maxSessionsPerRepo > 0 || limits.maxSessionsPerBackend > 0;
+}
+
+/** What a session counts against while its process runs. */
+export interface SlotClaim {
+  backendType: BackendType;
+  repoKey: string;
+}
+
+/** Why `candidate` can't start alongside `running`, or null when it fits. */
+export function findBlockingLimit(
+  running: SlotClaim[],
+  candidate: SlotClaim,
+  limits: ConcurrencyLimits,
+): string | null {
+  if (limits.maxSessions && running.length >= limits.maxSessions) {
+    return `${running.length} of ${limits.maxSessions} sessions running`;
+  }
+  if (limits.maxSessionsPerRepo) {
+    const count = running.filter((c) => c.repoKey === candidate.repoKey).length;
+    if (count >= limits.maxSessionsPerRepo) {
+      return `${count} of ${limits.maxSessionsPerRepo} sessions running in this repository`;
+    }
+  }
+  if (limits.maxSessionsPerBackend) {
+    const count = running.filter((c) => c.backendType === candidate.backendType).length;
+    if (count >= limits.maxSessionsPerBackend) {
+      const backend = candidate.backendType === "codex" ? "Codex" : "Claude Code";
+      return `${count} of ${limits.maxSessionsPerBackend} ${backend} sessions running`;
+    }
+  }
+  return null;
+}
+
+/** Worktrees count against their main repository; a directory outside git is its own key. */
+export function resolveRepoKey(cwd: string): string {
+  return getMainRepoRoot(cwd) ?? cwd;
+}
+
+// ─── Idle suspend ────────────────────────────────────────────────────────────
+
+export interface IdleSuspendDeps {
+  launcher: Pick<CliLauncher, "listSessions" | "kill">;
+  bridge: Pick<WsBridge, "getIdleSince" | "markSuspended">;
+}
+
+/**
+ * Kill the process of every session idle for `idleMinutes`. The bridge keeps
+ * the session and relaunches it when the next message arrives. Returns the
+ * suspended ids.
+ */
+export async function suspendIdleSessions(
+  deps: IdleSuspendDeps,
+  idleMinutes: number,
+  now = Date.now(),
+): Promise<string[]> {
+  if (!idleMinutes) return [];
+  const suspended: string[] = [];
+  for (const info of deps.launcher.listSessions()) {
+    if (info.state === "exited" || info.state === "starting" || info.archived) continue;
+    const idleSince = deps.bridge.getIdleSince(info.sessionId);
+    if (idleSince === null || now - idleSince < idleMinutes * MINUTE_MS) continue;
+    deps.bridge.markSuspended(info.sessionId);
+    suspended.push(info.sessionId);
+  }
+  await Promise.all(suspended.map((id) => deps.launcher.kill(id)));
+  if (suspended.length > 0) {
+    console.log(`[concurrency-governor] Suspended ${suspended.length} idle session(s)`);
+  }
+  return suspended;
+}
+
+/** Check for idle sessions every minute. The setting is re-read on each sweep. Returns a stop function. */
+export function startIdleSuspender(deps: IdleSuspendDeps, getIdleMinutes: () => number): () => void {
+  const timer = setInterval(() => {
+    suspendIdleSessions(deps, getIdleMinutes()).catch((err) => {
+      console.error("[concurrency-governor] Idle sweep failed:", err);
+    });
+  }, IDLE_SWEEP_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
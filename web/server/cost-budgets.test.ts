@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  budgetDay,
+  createCostBudgetPolicy,
+  estimateUsageCostUsd,
+  evaluateBudgets,
+  findExceededBudget,
+  getBudgetConfig,
+  normalizeBudgetUsd,
+  recordSpend,
+  setBudgetLimit,
+  _resetForTest,
+} from "./cost-budgets.js";
+
+let tempDir: string;
+let budgetsPath: string;
+
+// Noon, so the local calendar day is the same in every test timezone.
+const DAY1 = new Date(2026, 2, 14, 12).getTime();
+const DAY2 = new Date(2026, 2, 15, 12).getTime();
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "cost-budgets-test-"));
+  budgetsPath = join(tempDir, "budgets.json");
+  _resetForTest(budgetsPath);
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  _resetForTest();
+});
+
+describe("cost-budgets", () => {
+  it("has no budgets by default", () => {
+    expect(getBudgetConfig(DAY1)).toEqual(expect.objectContaining({
+      dailyUsd: null,
+      repos: {},
+      sessions: {},
+      spend: { date: "2026-03-14", totalUsd: 0, byRepo: {} },
+    }));
+    expect(evaluateBudgets({ sessionId: "s1", costUsd: 3, repoRoot: "/repo" }, null, DAY1)).toEqual([]);
+  });
+
+  it("reports every budget that applies to a session", () => {
+    setBudgetLimit("session", "s1", 5);
+    setBudgetLimit("repo", "/work/app", 10);
+    setBudgetLimit("day", "", 20);
+    recordSpend("/work/app", 4, DAY1);
+    recordSpend("/work/other", 2.5, DAY1);
+
+    const usages = evaluateBudgets(
+      { sessionId: "s1", costUsd: 4, repoRoot: "/work/app" },
+      { id: "nightly", name: "Nightly", budgetUsd: 3 },
+      DAY1,
+    );
+    expect(usages).toEqual([
+      { scope: "session", target: "s1", label: "This session", limit_usd: 5, spent_usd: 4 },
+      { scope: "cron", target: "nightly", label: 'Cron "Nightly"', limit_usd: 3, spent_usd: 4 },
+      { scope: "repo", target: "/work/app", label: "app today", limit_usd: 10, spent_usd: 4 },
+      { scope: "day", target: "2026-03-14", label: "All sessions today", limit_usd: 20, spent_usd: 6.5 },
+    ]);
+    expect(findExceededBudget(usages)?.scope).toBe("cron");
+    expect(findExceededBudget(usages.filter((u) => u.scope !== "cron"))).toBeNull();
+  });
+
+  it("adds the running turn's estimate to every budget", () => {
+    setBudgetLimit("session", "s1", 5);
+    setBudgetLimit("repo", "/work/app", 10);
+    setBudgetLimit("day", "", 20);
+    recordSpend("/work/app", 4, DAY1);
+
+    const usages = evaluateBudgets(
+      { sessionId: "s1", costUsd: 4, repoRoot: "/work/app", inFlightUsd: 1.5 },
+      { id: "nightly", name: "Nightly", budgetUsd: 3 },
+      DAY1,
+    );
+    expect(usages.map((u) => u.spent_usd)).toEqual([5.5, 5.5, 5.5, 5.5]);
+  });
+
+  it("estimates message cost from token usage and the model", () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 100_000, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+    expect(estimateUsageCostUsd("claude-sonnet-4-6", usage)).toBeCloseTo(4.5, 5);
+    expect(estimateUsageCostUsd("claude-opus-4-1", usage)).toBeCloseTo(22.5, 5);
+    expect(estimateUsageCostUsd("claude-opus-4-6", usage)).toBeCloseTo(7.5, 5);
+    // Cache reads are a tenth of input, cache writes a quarter more
+    expect(estimateUsageCostUsd("claude-sonnet-4-6", { cache_read_input_tokens: 1_000_000, cache_creation_input_tokens: 1_000_000 }))
+      .toBeCloseTo(0.3 + 3.75, 5);
+    expect(estimateUsageCostUsd("gpt-5", { output_tokens: 1_000_000 })).toBeCloseTo(15, 5);
+  });
+
+  it("starts a new spend record on a new day", () => {
+    setBudgetLimit("day", "", 1);
+    recordSpend("/repo", 2, DAY1);
+    expect(findExceededBudget(evaluateBudgets({ sessionId: "s1", costUsd: 0 }, null, DAY1))).not.toBeNull();
+
+    const nextDay = evaluateBudgets({ sessionId: "s1", costUsd: 0 }, null, DAY2);
+    expect(nextDay).toEqual([
+      expect.objectContaining({ scope: "day", target: budgetDay(DAY2), spent_usd: 0 }),
+    ]);
+    expect(findExceededBudget(nextDay)).toBeNull();
+  });
+
+  it("persists limits and spend, and clears limits with null", () => {
+    setBudgetLimit("session", "s1", 5);
+    recordSpend("/repo", 1.25);
+    const saved = JSON.parse(readFileSync(budgetsPath, "utf-8"));
+    expect(saved.sessions).toEqual({ s1: 5 });
+    expect(saved.spend.totalUsd).toBe(1.25);
+
+    setBudgetLimit("session", "s1", null);
+    expect(getBudgetConfig().sessions).toEqual({});
+  });
+
+  it("rejects invalid limits and drops invalid persisted values", () => {
+    expect(() => setBudgetLimit("day", "", 0)).toThrow("positive");
+    expect(() => setBudgetLimit("repo", "", 5)).toThrow("target");
+    expect(normalizeBudgetUsd("2.499")).toBe(2.5);
+    expect(normalizeBudgetUsd("")).toBeUndefined();
+
+    writeFileSync(budgetsPath, JSON.stringify({ dailyUsd: -4, sessions: { s1: "abc", s2: 3 } }));
+    _resetForTest(budgetsPath);
+    expect(getBudgetConfig()).toEqual(expect.objectContaining({ dailyUsd: null, sessions: { s2: 3 } }));
+  });
+
+  it("resolves the cron job through the policy", () => {
+    const getCronJob = vi.fn(() => ({ id: "nightly", name: "Nightly", budgetUsd: 2 }));
+    const policy = createCostBudgetPolicy(getCronJob);
+    expect(policy.evaluate({ sessionId: "s9", costUsd: 1 })).toEqual([
+      expect.objectContaining({ scope: "cron", limit_usd: 2, spent_usd: 1 }),
+    ]);
+    expect(getCronJob).toHaveBeenCalledWith("s9");
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  existsSync,
+} from "node:fs";
+import { basename, join, dirname } from "node:path";
+import { homedir } from "node:os";
+import type { BudgetScope, BudgetUsage } from "./session-types.js";
+
+export type { BudgetScope, BudgetUsage };
+
+/** Scopes stored in budgets.json; cron budgets live on the job itself. */
+export type StoredBudgetScope = Exclude<BudgetScope, "cron">;
+
+export interface CostBudgetConfig {
+  /** Cap on what all sessions together may spend per local day. null = no cap. */
+  dailyUsd: number | null;
+  /** Per-day cap for each repo root. */
+  repos: Record<string, number>;
+  /** Lifetime cap for individual sessions. */
+  sessions: Record<string, number>;
+  /** Spend recorded for the current local day (resets when the date changes). */
+  spend: { date: string; totalUsd: number; byRepo: Record<string, number> };
+  updatedAt: number;
+}
+
+/** What the bridge knows about a session when budgets are evaluated. */
+export interface BudgetContext {
+  sessionId: string;
+  costUsd: number;
+  repoRoot?: string;
+  /** Estimated cost of the running turn, not yet part of costUsd or the recorded spend */
+  inFlightUsd?: number;
+}
+
+/** Token counts on a streamed assistant message. */
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export interface CronBudgetSource {
+  id: string;
+  name: string;
+  budgetUsd?: number;
+}
+
+/** Attached to the bridge (see WsBridge.setCostBudgets). */
+export interface CostBudgetPolicy {
+  recordSpend(repoRoot: string | undefined, deltaUsd: number): void;
+  evaluate(context: BudgetContext): BudgetUsage[];
+}
+
+const DEFAULT_PATH = join(homedir(), ".companion", "budgets.json");
+
+// USD per million input / output tokens, first match wins. Only used to
+// estimate a running turn; its result carries the real cost.
+const MODEL_PRICES: [RegExp, number, number][] = [
+  [/opus-4-[5-9]|opus-[5-9]/, 5, 25],
+  [/opus/, 15, 75],
+  [/haiku/, 1, 5],
+  [/sonnet/, 3, 15],
+];
+const DEFAULT_PRICE: [number, number] = [3, 15];
+
+let loaded = false;
+let filePath = DEFAULT_PATH;
+let config: CostBudgetConfig = normalize(null);
+
+/** Local calendar day, e.g. "2026-03-14". */
+export function budgetDay(now = Date.now()): string {
+  const d = new Date(now);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** A positive dollar amount, or undefined for anything else (used to clear a budget). */
+export function normalizeBudgetUsd(value: unknown): number | undefined {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n) || n <= 0) return undefined;
+  return Math.round(n * 100) / 100;
+}
+
+function normalizeLimits(raw: unknown): Record<string, number> {
+  const result: Record<string, number> = {};
+  if (!raw || typeof raw !== "object") return result;
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const limit = normalizeBudgetUsd(value);
+    if (limit !== undefined) result[key] = limit;
+  }
+  return result;
+}
+
+function normalize(raw: Partial<CostBudgetConfig> | null | undefined): CostBudgetConfig {
+  const spend = raw?.spend;
+  const byRepo: Record<string, number> = {};
+  if (spend?.byRepo && typeof spend.byRepo === "object") {
+    for (const [repo, usd] of Object.entries(spend.byRepo)) {
+      if (typeof usd === "number" && Number.isFinite(usd) && usd > 0) byRepo[repo] = usd;
+    }
+  }
+  return {
+    dailyUsd: normalizeBudgetUsd(raw?.dailyUsd) ?? null,
+    repos: normalizeLimits(raw?.repos),
+    sessions: normalizeLimits(raw?.sessions),
+    spend: {
+      date: typeof spend?.date === "string" ? spend.date : budgetDay(),
+      totalUsd: typeof spend?.totalUsd === "number" && Number.isFinite(spend.totalUsd) ? spend.totalUsd : 0,
+      byRepo,
+    },
+    updatedAt: typeof raw?.updatedAt === "number" ? raw.updatedAt : 0,
+  };
+}
+
+function ensureLoaded(): void {
+  if (loaded) return;
+  try {
+    if (existsSync(filePath)) {
+      config = normalize(JSON.parse(readFileSync(filePath, "utf-8")) as Partial<CostBudgetConfig>);
+    }
+  } catch {
+    config = normalize(null);
+  }
+  loaded = true;
+}
+
+function persist(): void {
+  config.updatedAt = Date.now();
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(config, null, 2), "utf-8");
+}
+
+/** Start a fresh spend record when the local day changed. */
+function rollSpend(now: number): void {
+  const today = budgetDay(now);
+  if (config.spend.date !== today) {
+    config.spend = { date: today, totalUsd: 0, byRepo: {} };
+  }
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+export function getBudgetConfig(now = Date.now()): CostBudgetConfig {
+  ensureLoaded();
+  rollSpend(now);
+  return {
+    ...config,
+    repos: { ...config.repos },
+    sessions: { ...config.sessions },
+    spend: { ...config.spend, byRepo: { ...config.spend.byRepo } },
+  };
+}
+
+/** Set or clear (limitUsd = null) a budget. `target` is the session id or repo root; ignored for "day". */
+export function setBudgetLimit(scope: StoredBudgetScope, target: string, limitUsd: number | null): CostBudgetConfig {
+  ensureLoaded();
+  const limit = limitUsd === null ? undefined : normalizeBudgetUsd(limitUsd);
+  if (limitUsd !== null && limit === undefined) throw new Error("Budget must be a positive amount in USD");
+  if (scope === "day") {
+    config.dailyUsd = limit ?? null;
+  } else {
+    if (!target) throw new Error(`A ${scope} budget needs a target`);
+    const limits = scope === "repo" ? config.repos : config.sessions;
+    if (limit === undefined) delete limits[target];
+    else limits[target] = limit;
+  }
+  persist();
+  return getBudgetConfig();
+}
+
+/** Rough cost of one message's tokens; cache writes cost 1.25x input, cache reads 0.1x. */
+export function estimateUsageCostUsd(model: string, usage: TokenUsage): number {
+  const match = MODEL_PRICES.find(([pattern]) => pattern.test(model));
+  const [input, output] = match ? [match[1], match[2]] : DEFAULT_PRICE;
+  const inputUsd = input * ((usage.input_tokens ?? 0)
+    + 1.25 * (usage.cache_creation_input_tokens ?? 0)
+    + 0.1 * (usage.cache_read_input_tokens ?? 0));
+  return (inputUsd + output * (usage.output_tokens ?? 0)) / 1_000_000;
+}
+
+/** Add the cost of a finished turn to today's totals. */
+export function recordSpend(repoRoot: string | undefined, deltaUsd: number, now = Date.now()): void {
+  if (!Number.isFinite(deltaUsd) || deltaUsd <= 0) return;
+  ensureLoaded();
+  rollSpend(now);
+  config.spend.totalUsd += deltaUsd;
+  if (repoRoot) config.spend.byRepo[repoRoot] = (config.spend.byRepo[repoRoot] ?? 0) + deltaUsd;
+  persist();
+}
+
+/** Every budget that applies to a session, with the amount spent against each. */
+export function evaluateBudgets(
+  context: BudgetContext,
+  cronJob: CronBudgetSource | null = null,
+  now = Date.now(),
+): BudgetUsage[] {
+  ensureLoaded();
+  rollSpend(now);
+  const usages: BudgetUsage[] = [];
+  const inFlight = context.inFlightUsd ?? 0;
+  const sessionLimit = config.sessions[context.sessionId];
+  if (sessionLimit !== undefined) {
+    usages.push({ scope: "session", target: context.sessionId, label: "This session", limit_usd: sessionLimit, spent_usd: context.costUsd + inFlight });
+  }
+  if (cronJob?.budgetUsd !== undefined) {
+    usages.push({ scope: "cron", target: cronJob.id, label: `Cron "${cronJob.name}"`, limit_usd: cronJob.budgetUsd, spent_usd: context.costUsd + inFlight });
+  }
+  const repoLimit = context.repoRoot ? config.repos[context.repoRoot] : undefined;
+  if (context.repoRoot && repoLimit !== undefined) {
+    usages.push({
+      scope: "repo",
+      target: context.repoRoot,
+      label: `${basename(context.repoRoot)} today`,
+      limit_usd: repoLimit,
+      spent_usd: (config.spend.byRepo[context.repoRoot] ?? 0) + inFlight,
+    });
+  }
+  if (config.dailyUsd !== null) {
+    usages.push({ scope: "day", target: config.spend.date, label: "All sessions today", limit_usd: config.dailyUsd, spent_usd: config.spend.totalUsd + inFlight });
+  }
+  return usages;
+}
+
+/** The first budget that has been used up, if any. */
+export function findExceededBudget(usages: BudgetUsage[] | undefined): BudgetUsage | null {
+  return usages?.find((u) => u.spent_usd >= u.limit_usd) ?? null;
+}
+
+/** Policy for the bridge; `getCronJob` resolves the job that launched a session. */
+export function createCostBudgetPolicy(
+  getCronJob: (sessionId: string) => CronBudgetSource | null,
+): CostBudgetPolicy {
+  return {
+    recordSpend: (repoRoot, deltaUsd) => recordSpend(repoRoot, deltaUsd),
+    evaluate: (context) => evaluateBudgets(context, getCronJob(context.sessionId)),
+  };
+}
+
+export function _resetForTest(customPath?: string): void {
+  loaded = false;
+  filePath = customPath || DEFAULT_PATH;
+  config = normalize(null);
+}
@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { CronJobExecution } from "./cron-types.js";
+
+let tempDir: string;
+let cronHistory: typeof import("./cron-history.js");
+let cronStore: typeof import("./cron-store.js");
+
+const mockHomedir = vi.hoisted(() => {
+  let dir = "";
+  return {
+    get: () => dir,
+    set: (d: string) => {
+      dir = d;
+    },
+  };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => mockHomedir.get() };
+});
+
+beforeEach(async () => {
+  tempDir = mkdtempSync(join(tmpdir(), "cron-history-test-"));
+  mockHomedir.set(tempDir);
+  vi.resetModules();
+  cronHistory = await import("./cron-history.js");
+  cronStore = await import("./cron-store.js");
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function run(overrides: Partial<CronJobExecution> = {}): CronJobExecution {
+  return { sessionId: "s1", jobId: "nightly", startedAt: 1000, ...overrides };
+}
+
+describe("saveExecution", () => {
+  it("replaces the run with the same session and lists every job newest first", () => {
+    cronHistory.saveExecution(run());
+    cronHistory.saveExecution(run({ success: true, completedAt: 2000 }));
+    cronHistory.saveExecution(run({ sessionId: "s2", jobId: "weekly", startedAt: 3000 }));
+    // A launch that failed has no session; it is still recorded
+    cronHistory.saveExecution(run({ sessionId: "", startedAt: 500, error: "No CLI" }));
+
+    expect(cronHistory.listExecutions("nightly")).toEqual([
+      run({ success: true, completedAt: 2000 }),
+      run({ sessionId: "", startedAt: 500, error: "No CLI" }),
+    ]);
+    expect(cronHistory.listAllExecutions().map((e) => e.startedAt)).toEqual([3000, 1000, 500]);
+  });
+});
+
+describe("saveDiff", () => {
+  it("stores the diff and counts changed lines", () => {
+    const diff = "--- a/f.ts\n+++ b/f.ts\n@@ -1 +1,2 @@\n-a\n+b\n+c";
+    expect(cronHistory.saveDiff("s1", diff)).toEqual({ added: 2, removed: 1 });
+    expect(cronHistory.getDiff("s1")).toBe(diff);
+    expect(cronHistory.getDiff("missing")).toBeNull();
+  });
+});
+
+describe("with cron-store", () => {
+  const input = {
+    name: "Nightly",
+    prompt: "Go",
+    schedule: "0 8 * * *",
+    recurring: true,
+    backendType: "claude" as const,
+    model: "claude-sonnet-4-6",
+    cwd: "/tmp",
+    enabled: true,
+    permissionMode: "bypassPermissions",
+  };
+
+  it("moves history along when a job is renamed and drops it when the job is deleted", () => {
+    cronStore.createJob(input);
+    cronHistory.saveExecution(run({ hasDiff: true }));
+    cronHistory.saveDiff("s1", "+x");
+
+    cronStore.updateJob("nightly", { name: "Nightly Build" });
+    expect(cronHistory.listExecutions("nightly")).toEqual([]);
+    expect(cronHistory.listExecutions("nightly-build")).toEqual([run({ jobId: "nightly-build", hasDiff: true })]);
+
+    cronStore.deleteJob("nightly-build");
+    expect(cronHistory.listAllExecutions()).toEqual([]);
+    expect(cronHistory.getDiff("s1")).toBeNull();
+  });
+});
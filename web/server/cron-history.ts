@@ -0,0 +1,134 @@
+import {
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  unlinkSync,
+  existsSync,
+  readdirSync,
+} from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { CronJobExecution } from "./cron-types.js";
+
+// ─── Paths ──────────────────────────────────────────────────────────────────
+
+/** Kept apart from ~/.companion/cron, which holds one JSON file per job */
+const HISTORY_DIR = join(homedir(), ".companion", "cron-runs");
+const DIFF_DIR = join(HISTORY_DIR, "diffs");
+
+const MAX_EXECUTIONS_PER_JOB = 200;
+/** Diffs past this are cut; the run-history view is for reviewing, not applying */
+const MAX_DIFF_CHARS = 500_000;
+
+function ensureDir(): void {
+  mkdirSync(DIFF_DIR, { recursive: true });
+}
+
+function historyPath(jobId: string): string {
+  return join(HISTORY_DIR, `${jobId}.json`);
+}
+
+function diffPath(sessionId: string): string {
+  return join(DIFF_DIR, `${sessionId}.diff`);
+}
+
+function removeFile(path: string): void {
+  try {
+    unlinkSync(path);
+  } catch {
+    /* ok */
+  }
+}
+
+function writeHistory(jobId: string, executions: CronJobExecution[]): void {
+  ensureDir();
+  writeFileSync(historyPath(jobId), JSON.stringify(executions, null, 2), "utf-8");
+}
+
+// ─── Executions ─────────────────────────────────────────────────────────────
+
+/** A job's runs, oldest first. */
+export function listExecutions(jobId: string): CronJobExecution[] {
+  try {
+    const parsed = JSON.parse(readFileSync(historyPath(jobId), "utf-8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Runs of every job, newest first. */
+export function listAllExecutions(): CronJobExecution[] {
+  ensureDir();
+  const all: CronJobExecution[] = [];
+  for (const file of readdirSync(HISTORY_DIR)) {
+    if (file.endsWith(".json")) all.push(...listExecutions(file.slice(0, -".json".length)));
+  }
+  return all.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function getExecution(jobId: string, sessionId: string): CronJobExecution | null {
+  return listExecutions(jobId).find((e) => e.sessionId === sessionId) ?? null;
+}
+
+/**
+ * Add a run, or replace the one with the same session. Runs that never got a
+ * session are always added. Drops the oldest runs (and their diffs) past the cap.
+ */
+export function saveExecution(execution: CronJobExecution): void {
+  const list = listExecutions(execution.jobId);
+  const index = execution.sessionId ? list.findIndex((e) => e.sessionId === execution.sessionId) : -1;
+  if (index >= 0) list[index] = execution;
+  else list.push(execution);
+  const dropped = list.length > MAX_EXECUTIONS_PER_JOB ? list.splice(0, list.length - MAX_EXECUTIONS_PER_JOB) : [];
+  for (const old of dropped) {
+    if (old.sessionId) removeFile(diffPath(old.sessionId));
+  }
+  writeHistory(execution.jobId, list);
+}
+
+/** Follow a job rename. */
+export function renameJobHistory(oldId: string, newId: string): void {
+  if (oldId === newId || !existsSync(historyPath(oldId))) return;
+  const list = listExecutions(oldId).map((e) => ({ ...e, jobId: newId }));
+  writeHistory(newId, list);
+  removeFile(historyPath(oldId));
+}
+
+export function deleteJobHistory(jobId: string): void {
+  for (const execution of listExecutions(jobId)) {
+    if (execution.sessionId) removeFile(diffPath(execution.sessionId));
+  }
+  removeFile(historyPath(jobId));
+}
+
+// ─── Diffs ──────────────────────────────────────────────────────────────────
+
+/** Store the diff a run produced. Returns the lines it added and removed. */
+export function saveDiff(sessionId: string, diff: string): { added: number; removed: number } {
+  ensureDir();
+  const text = diff.length > MAX_DIFF_CHARS
+    ? `${diff.slice(0, MAX_DIFF_CHARS)}\n… (${diff.length - MAX_DIFF_CHARS} more characters)`
+    : diff;
+  writeFileSync(diffPath(sessionId), text, "utf-8");
+  return countDiffLines(diff);
+}
+
+export function getDiff(sessionId: string): string | null {
+  try {
+    return readFileSync(diffPath(sessionId), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+export function countDiffLines(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) continue;
+    if (line.startsWith("+")) added++;
+    else if (line.startsWith("-")) removed++;
+  }
+  return { added, removed };
+}
@@ -1,4 +1,4 @@
-import { mkdtempSync, rmSync } from "node:fs";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import type { CronJob } from "./cron-types.js";
@@ -23,6 +23,15 @@ vi.mock("./session-names.js", () => ({
   getName: vi.fn(),
 }));
 
+const mockGit = vi.hoisted(() => ({
+  fetchBranchHead: vi.fn<(cwd: string, remote: string, branch: string) => Promise<string | null>>(),
+  headCommit: vi.fn<(cwd: string) => string | null>(() => null),
+  snapshotWorktree: vi.fn<(cwd: string) => Promise<string | null>>(async () => null),
+  diffSinceSnapshot: vi.fn<(cwd: string, baseTree: string) => Promise<string>>(async () => ""),
+}));
+const mockFetchBranchHead = mockGit.fetchBranchHead;
+vi.mock("./git-utils.js", () => mockGit);
+
 let tempDir: string;
 let cronStore: typeof import("./cron-store.js");
 let CronSchedulerClass: typeof import("./cron-scheduler.js").CronScheduler;
@@ -47,6 +56,11 @@ function createMockLauncher() {
       return info;
     }),
     getSession: vi.fn((id: string) => sessions.get(id)),
+    kill: vi.fn(async (id: string) => {
+      const s = sessions.get(id);
+      if (s) s.state = "exited";
+      return !!s;
+    }),
     isAlive: vi.fn((id: string) => {
       const s = sessions.get(id);
       return !!s && s.state !== "exited";
@@ -59,6 +73,9 @@ function createMockLauncher() {
 function createMockBridge() {
   return {
     injectUserMessage: vi.fn(),
+    setThinkingBudget: vi.fn(),
+    getSession: vi.fn((): { messageHistory: unknown[] } | undefined => undefined),
+    interruptSession: vi.fn(() => true),
   };
 }
 
@@ -251,6 +268,38 @@ describe("execution", () => {
     scheduler.destroy();
   });
 
+  it("applies the job's thinking budget before injecting the prompt", async () => {
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+
+    cronStore.createJob({
+      name: "Deep Think",
+      prompt: "Review the architecture",
+      schedule: "0 8 * * *",
+      recurring: true,
+      backendType: "claude",
+      model: "claude-sonnet-4-6",
+      cwd: "/tmp/repo",
+      enabled: true,
+      permissionMode: "bypassPermissions",
+      thinkingLevel: "custom",
+      thinkingTokens: 24_000,
+    });
+
+    await scheduler.executeJob("deep-think");
+
+    expect(bridge.setThinkingBudget).toHaveBeenCalledWith(
+      expect.stringMatching(/^mock-session-/),
+      "custom",
+      24_000,
+    );
+    expect(bridge.setThinkingBudget.mock.invocationCallOrder[0])
+      .toBeLessThan(bridge.injectUserMessage.mock.invocationCallOrder[0]);
+
+    scheduler.destroy();
+  });
+
   it("skips execution when previous run is still alive", async () => {
     const launcher = createMockLauncher();
     const bridge = createMockBridge();
@@ -537,6 +586,65 @@ describe("execution history", () => {
 
     scheduler.destroy();
   });
+
+  it("captures the outcome and diff of a run's first turn", async () => {
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+    mockGit.headCommit.mockReturnValueOnce("abc1234");
+    mockGit.snapshotWorktree.mockResolvedValueOnce("tree123");
+    mockGit.diffSinceSnapshot.mockResolvedValueOnce("--- a/x.ts\n+++ b/x.ts\n-old\n+new\n+more");
+    cronStore.createJob({
+      name: "Outcome",
+      prompt: "Go",
+      schedule: "0 8 * * *",
+      recurring: true,
+      backendType: "codex",
+      model: "gpt-5.3-codex",
+      cwd: "/repo",
+      enabled: true,
+      permissionMode: "bypassPermissions",
+    });
+
+    await scheduler.executeJob("outcome");
+    const sessionId = cronStore.getJob("outcome")!.lastSessionId!;
+    // Codex results carry no text; the last assistant message is the summary
+    bridge.getSession.mockReturnValue({
+      messageHistory: [{ type: "assistant", message: { content: [{ type: "text", text: "Fixed the flaky test." }] } }],
+    });
+    scheduler.handleTurnCompleted(sessionId, {
+      is_error: false,
+      subtype: "success",
+      total_cost_usd: 0,
+      duration_ms: 4200,
+      num_turns: 3,
+    });
+
+    // The diff waits until the bridge's result handler has returned
+    expect(mockGit.diffSinceSnapshot).not.toHaveBeenCalled();
+    await vi.waitFor(() => expect(scheduler.getAllExecutions()[0].hasDiff).toBe(true));
+
+    // Diffed against the checkout as the run found it, not just HEAD
+    expect(mockGit.snapshotWorktree).toHaveBeenCalledWith("/repo");
+    expect(mockGit.diffSinceSnapshot).toHaveBeenCalledWith("/repo", "tree123");
+    const [execution] = scheduler.getAllExecutions();
+    expect(execution).toEqual(expect.objectContaining({
+      jobName: "Outcome",
+      resultSubtype: "success",
+      summary: "Fixed the flaky test.",
+      durationMs: 4200,
+      numTurns: 3,
+      linesAdded: 2,
+      linesRemoved: 1,
+      hasDiff: true,
+      sessionStatus: "active",
+    }));
+
+    launcher.sessions.delete(sessionId);
+    expect(scheduler.getExecutions("outcome")[0].sessionStatus).toBe("gone");
+
+    scheduler.destroy();
+  });
 });
 
 // ===========================================================================
@@ -601,6 +709,69 @@ describe("prompt formatting", () => {
 // ===========================================================================
 // Session tagging
 // ===========================================================================
+describe("presets", () => {
+  it("launches with the preset's settings and sends its prompt before the job prompt", async () => {
+    const presetManager = await import("./preset-manager.js");
+    const preset = presetManager.createPreset({
+      name: "Codex review",
+      scope: "global",
+      options: { backend: "codex", model: "gpt-5", cwd: "/tmp/repo", permissionMode: "plan" },
+      initialPrompt: "Follow REVIEW.md",
+    });
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+    const job = cronStore.createJob({ ...makeJob({ name: "Nightly", presetId: preset.id }) });
+
+    await scheduler.executeJob(job.id);
+
+    expect(launcher.launch).toHaveBeenCalledWith(expect.objectContaining({
+      backendType: "codex",
+      model: "gpt-5",
+      cwd: "/tmp/repo",
+      permissionMode: "plan",
+      codexSandbox: "workspace-write",
+    }));
+    expect(bridge.injectUserMessage.mock.calls[0][1]).toBe(`[cron:${job.id} Nightly]\n\nFollow REVIEW.md\n\nDo something`);
+
+    scheduler.destroy();
+  });
+
+  it("fails the run instead of launching a sandboxed preset on the host", async () => {
+    const presetManager = await import("./preset-manager.js");
+    const preset = presetManager.createPreset({
+      name: "Sandboxed",
+      scope: "global",
+      options: { cwd: "/tmp/repo", permissionMode: "bypassPermissions", useWorktree: true, container: { image: "node:22" } },
+    });
+    const launcher = createMockLauncher();
+    const scheduler = new CronSchedulerClass(launcher as any, createMockBridge() as any);
+    const job = cronStore.createJob({ ...makeJob({ name: "Sandboxed run", presetId: preset.id }) });
+
+    await scheduler.executeJob(job.id);
+
+    expect(launcher.launch).not.toHaveBeenCalled();
+    expect(scheduler.getExecutions(job.id)[0]).toMatchObject({
+      error: 'Preset "Sandboxed" sets container, worktree, which scheduled runs don\'t support yet',
+    });
+
+    scheduler.destroy();
+  });
+
+  it("records a failure when the preset was deleted", async () => {
+    const launcher = createMockLauncher();
+    const scheduler = new CronSchedulerClass(launcher as any, createMockBridge() as any);
+    const job = cronStore.createJob({ ...makeJob({ name: "Orphan", presetId: "gone" }) });
+
+    await scheduler.executeJob(job.id);
+
+    expect(launcher.launch).not.toHaveBeenCalled();
+    expect(scheduler.getExecutions(job.id)[0]).toMatchObject({ error: 'Preset "gone" not found' });
+
+    scheduler.destroy();
+  });
+});
+
 describe("session tagging", () => {
   it("tags the session with cronJobId and cronJobName", async () => {
     const launcher = createMockLauncher();
@@ -635,7 +806,7 @@ describe("session tagging", () => {
 // Failure recovery
 // ===========================================================================
 describe("failure recovery", () => {
-  it("resets consecutiveFailures to 0 on successful execution", async () => {
+  it("resets consecutiveFailures to 0 once a run succeeds", async () => {
     const launcher = createMockLauncher();
     const bridge = createMockBridge();
     const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
@@ -655,9 +826,17 @@ describe("failure recovery", () => {
     // Manually set some failures
     cronStore.updateJob("recovering", { consecutiveFailures: 3 });
 
-    // Execute successfully
+    // Launching doesn't count as success yet
     await scheduler.executeJob("recovering");
-
+    expect(cronStore.getJob("recovering")!.consecutiveFailures).toBe(3);
+
+    scheduler.handleTurnCompleted(cronStore.getJob("recovering")!.lastSessionId!, {
+      is_error: false,
+      subtype: "success",
+      total_cost_usd: 0,
+      duration_ms: 1000,
+      num_turns: 1,
+    });
     const job = cronStore.getJob("recovering");
     expect(job!.consecutiveFailures).toBe(0);
     expect(job!.totalRuns).toBe(1);
@@ -911,7 +1090,7 @@ describe("destroy", () => {
     expect(scheduler.getExecutions("test-job")).toEqual([]);
   });
 
-  it("clears execution history for all jobs", async () => {
+  it("keeps execution history for the next server start", async () => {
     const launcher = createMockLauncher();
     const bridge = createMockBridge();
     const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
@@ -932,7 +1111,8 @@ describe("destroy", () => {
     expect(scheduler.getExecutions("history-clear")).toHaveLength(1);
 
     scheduler.destroy();
-    expect(scheduler.getExecutions("history-clear")).toEqual([]);
+    const restarted = new CronSchedulerClass(launcher as any, bridge as any);
+    expect(restarted.getExecutions("history-clear")).toHaveLength(1);
   });
 
   it("stops multiple timers", () => {
@@ -955,3 +1135,288 @@ describe("destroy", () => {
     expect(scheduler.getNextRunTime("job-3")).toBeNull();
   });
 });
+
+// ===========================================================================
+// Triggers
+// ===========================================================================
+describe("triggers", () => {
+  const base = {
+    prompt: "Do it",
+    schedule: "",
+    recurring: true,
+    backendType: "claude" as const,
+    model: "claude-sonnet-4-6",
+    cwd: "/tmp",
+    enabled: true,
+    permissionMode: "bypassPermissions",
+  };
+  const turn = { duration_ms: 1000, num_turns: 1 };
+  const success = { ...turn, is_error: false, subtype: "success" as const, errors: undefined, total_cost_usd: 0.25 };
+  const failure = { ...turn, is_error: true, subtype: "error_during_execution" as const, errors: ["boom"], total_cost_usd: 0.1 };
+
+  it("runs chained jobs when the job they follow finishes", async () => {
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+    cronStore.createJob({ ...base, name: "Build", schedule: "0 8 * * *" });
+    cronStore.createJob({ ...base, name: "Deploy", trigger: { kind: "job", jobId: "build", on: "success" } });
+    cronStore.createJob({ ...base, name: "Report", trigger: { kind: "job", jobId: "build", on: "any" } });
+
+    await scheduler.executeJob("build");
+    const buildSession = cronStore.getJob("build")!.lastSessionId!;
+    scheduler.handleTurnCompleted(buildSession, failure);
+
+    await vi.waitFor(() => expect(scheduler.getExecutions("report")).toHaveLength(1));
+    expect(scheduler.getExecutions("report")[0].triggeredBy).toBe('After "Build" failed');
+    expect(scheduler.getExecutions("deploy")).toHaveLength(0);
+    expect(scheduler.getExecutions("build")[0]).toEqual(expect.objectContaining({
+      success: false,
+      error: "boom",
+      costUsd: 0.1,
+      completedAt: expect.any(Number),
+    }));
+
+    // Only the run's first turn counts
+    scheduler.handleTurnCompleted(buildSession, success);
+    expect(scheduler.getExecutions("deploy")).toHaveLength(0);
+
+    scheduler.destroy();
+  });
+
+  it("runs when a watched file changes", async () => {
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+    const watched = mkdtempSync(join(tmpdir(), "cron-watch-"));
+    const job = cronStore.createJob({
+      ...base,
+      name: "On Change",
+      trigger: { kind: "watch", dir: watched, glob: "**/*.md", debounceSeconds: 0.05 },
+    });
+
+    scheduler.scheduleJob(job);
+    writeFileSync(join(watched, "notes.md"), "hello");
+
+    await vi.waitFor(() => expect(launcher.launch).toHaveBeenCalledTimes(1), { timeout: 3000 });
+    expect(scheduler.getExecutions("on-change")[0].triggeredBy).toBe("notes.md changed");
+
+    scheduler.destroy();
+    rmSync(watched, { recursive: true, force: true });
+  });
+
+  it("ignores the edits its own run makes in the watched directory", async () => {
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+    const watched = mkdtempSync(join(tmpdir(), "cron-watch-"));
+    const job = cronStore.createJob({
+      ...base,
+      name: "Docs",
+      cwd: watched,
+      trigger: { kind: "watch", dir: watched, glob: "**/*.md", debounceSeconds: 0.3 },
+    });
+    const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+    scheduler.scheduleJob(job);
+    writeFileSync(join(watched, "notes.md"), "hello");
+    await vi.waitFor(() => expect(launcher.launch).toHaveBeenCalledTimes(1), { timeout: 3000 });
+
+    // The agent edits docs just before its run finishes
+    writeFileSync(join(watched, "agent.md"), "edited by the run");
+    await sleep(100);
+    scheduler.handleTurnCompleted(cronStore.getJob("docs")!.lastSessionId!, success);
+    await sleep(600);
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+
+    // A change after the run is a real trigger again
+    writeFileSync(join(watched, "notes.md"), "hello again");
+    await vi.waitFor(() => expect(launcher.launch).toHaveBeenCalledTimes(2), { timeout: 3000 });
+
+    scheduler.destroy();
+    rmSync(watched, { recursive: true, force: true });
+  });
+
+  it("runs on new commits after recording the branch head", async () => {
+    vi.useFakeTimers();
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+    const job = cronStore.createJob({
+      ...base,
+      name: "On Push",
+      trigger: { kind: "git", remote: "origin", branch: "main", intervalMinutes: 1 },
+    });
+    mockFetchBranchHead.mockResolvedValue("aaaaaaa1111");
+
+    scheduler.scheduleJob(job);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(cronStore.getJob("on-push")!.lastSeenCommit).toBe("aaaaaaa1111");
+    expect(launcher.launch).not.toHaveBeenCalled();
+
+    mockFetchBranchHead.mockResolvedValue("bbbbbbb2222");
+    await vi.advanceTimersByTimeAsync(60_000);
+    vi.useRealTimers();
+
+    await vi.waitFor(() => expect(launcher.launch).toHaveBeenCalledTimes(1));
+    expect(mockFetchBranchHead).toHaveBeenCalledWith("/tmp", "origin", "main");
+    expect(scheduler.getExecutions("on-push")[0].triggeredBy).toBe("New commit bbbbbbb on origin/main");
+
+    scheduler.destroy();
+  });
+
+  it("starts nothing for manual jobs", () => {
+    const scheduler = new CronSchedulerClass(createMockLauncher() as any, createMockBridge() as any);
+    scheduler.scheduleJob(makeJob({ schedule: "", trigger: { kind: "manual" } }));
+    expect(scheduler.getNextRunTime("test-job")).toBeNull();
+    scheduler.destroy();
+  });
+});
+
+// ===========================================================================
+// Run policies
+// ===========================================================================
+describe("run policies", () => {
+  const base = {
+    prompt: "Do it",
+    schedule: "0 8 * * *",
+    recurring: true,
+    backendType: "claude" as const,
+    model: "claude-sonnet-4-6",
+    cwd: "/tmp",
+    enabled: true,
+    permissionMode: "bypassPermissions",
+  };
+  const turn = { total_cost_usd: 0, duration_ms: 1000, num_turns: 1 };
+  const success = { ...turn, is_error: false, subtype: "success" as const };
+  const failure = { ...turn, is_error: true, subtype: "error_during_execution" as const, errors: ["boom"] };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("skips a run while the previous one works, but not once it finished", async () => {
+    const launcher = createMockLauncher();
+    const scheduler = new CronSchedulerClass(launcher as any, createMockBridge() as any);
+    cronStore.createJob({ ...base, name: "Skipper" });
+
+    await scheduler.executeJob("skipper");
+    await scheduler.executeJob("skipper");
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+
+    // The session stays open after its run; that doesn't block the next one
+    scheduler.handleTurnCompleted(cronStore.getJob("skipper")!.lastSessionId!, success);
+    await scheduler.executeJob("skipper");
+    expect(launcher.launch).toHaveBeenCalledTimes(2);
+
+    scheduler.destroy();
+  });
+
+  it("queues a run until the previous one finishes", async () => {
+    const launcher = createMockLauncher();
+    const scheduler = new CronSchedulerClass(launcher as any, createMockBridge() as any);
+    cronStore.createJob({ ...base, name: "Queued", overlapPolicy: "queue" });
+
+    await scheduler.executeJob("queued");
+    await scheduler.executeJob("queued", { triggeredBy: "notes.md changed" });
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+
+    scheduler.handleTurnCompleted(cronStore.getJob("queued")!.lastSessionId!, success);
+    await vi.waitFor(() => expect(scheduler.getExecutions("queued")).toHaveLength(2));
+    expect(scheduler.getExecutions("queued")[1].triggeredBy).toBe("notes.md changed");
+
+    scheduler.destroy();
+  });
+
+  it("kills the previous run for a new one", async () => {
+    const launcher = createMockLauncher();
+    const scheduler = new CronSchedulerClass(launcher as any, createMockBridge() as any);
+    cronStore.createJob({ ...base, name: "Replacer", overlapPolicy: "kill" });
+
+    await scheduler.executeJob("replacer");
+    const first = cronStore.getJob("replacer")!.lastSessionId!;
+    await scheduler.executeJob("replacer");
+
+    expect(launcher.kill).toHaveBeenCalledWith(first);
+    const [old, current] = scheduler.getExecutions("replacer");
+    expect(old).toEqual(expect.objectContaining({ success: false, error: "Stopped for a newer run" }));
+    expect(current.completedAt).toBeUndefined();
+
+    scheduler.destroy();
+  });
+
+  it("interrupts a run at its runtime limit and kills it when it doesn't stop", async () => {
+    vi.useFakeTimers();
+    const launcher = createMockLauncher();
+    const bridge = createMockBridge();
+    const scheduler = new CronSchedulerClass(launcher as any, bridge as any);
+    cronStore.createJob({ ...base, name: "Slow", maxRuntimeMinutes: 10 });
+
+    await scheduler.executeJob("slow");
+    const sessionId = cronStore.getJob("slow")!.lastSessionId!;
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(bridge.interruptSession).toHaveBeenCalledWith(sessionId);
+    expect(launcher.kill).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(launcher.kill).toHaveBeenCalledWith(sessionId);
+    expect(scheduler.getExecutions("slow")[0]).toEqual(expect.objectContaining({
+      success: false,
+      timedOut: true,
+      error: "Timed out after 10 minutes",
+      completedAt: expect.any(Number),
+    }));
+    expect(cronStore.getJob("slow")!.consecutiveFailures).toBe(1);
+
+    scheduler.destroy();
+  });
+
+  it("retries failed runs with exponential backoff", async () => {
+    vi.useFakeTimers();
+    const launcher = createMockLauncher();
+    const scheduler = new CronSchedulerClass(launcher as any, createMockBridge() as any);
+    cronStore.createJob({ ...base, name: "Flaky", maxRetries: 2, retryBackoffSeconds: 10 });
+    const failLatest = () => {
+      const sessionId = cronStore.getJob("flaky")!.lastSessionId!;
+      scheduler.handleTurnCompleted(sessionId, failure);
+    };
+
+    await scheduler.executeJob("flaky");
+    failLatest();
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(launcher.launch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(launcher.launch).toHaveBeenCalledTimes(2);
+
+    failLatest();
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(launcher.launch).toHaveBeenCalledTimes(3);
+    expect(scheduler.getExecutions("flaky").map((e) => e.triggeredBy)).toEqual(["Schedule", "Retry 1 of 2", "Retry 2 of 2"]);
+
+    // Out of retries
+    failLatest();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(launcher.launch).toHaveBeenCalledTimes(3);
+
+    scheduler.destroy();
+  });
+
+  it("turns the job off with a reason and a notification after repeated failures", async () => {
+    const launcher = createMockLauncher();
+    const scheduler = new CronSchedulerClass(launcher as any, createMockBridge() as any);
+    const notifier = { cronJobDisabled: vi.fn() };
+    scheduler.setNotifier(notifier);
+    cronStore.createJob({ ...base, name: "Broken" });
+    cronStore.updateJob("broken", { consecutiveFailures: 4 });
+
+    await scheduler.executeJob("broken");
+    scheduler.handleTurnCompleted(cronStore.getJob("broken")!.lastSessionId!, failure);
+
+    const job = cronStore.getJob("broken")!;
+    expect(job.enabled).toBe(false);
+    expect(job.disabledReason).toBe("Turned off after 5 failed runs in a row. Last error: boom");
+    expect(notifier.cronJobDisabled).toHaveBeenCalledWith(expect.objectContaining({ id: "broken" }), job.disabledReason);
+
+    scheduler.destroy();
+  });
+});
@@ -1,10 +1,17 @@
 import { Cron } from "croner";
-import type { CronJob, CronJobExecution } from "./cron-types.js";
+import { isAbsolute, relative } from "node:path";
+import type { CronExecutionView, CronJob, CronJobExecution } from "./cron-types.js";
+import type { BrowserIncomingMessage, CLIResultMessage } from "./session-types.js";
 import type { CliLauncher, SdkSessionInfo } from "./cli-launcher.js";
 import type { WsBridge } from "./ws-bridge.js";
+import type { NotificationDispatcher } from "./notification-dispatcher.js";
 import * as cronStore from "./cron-store.js";
+import * as cronHistory from "./cron-history.js";
 import * as envManager from "./env-manager.js";
 import * as sessionNames from "./session-names.js";
+import * as presetManager from "./preset-manager.js";
+import { jobTrigger, pollBranch, watchFiles } from "./cron-triggers.js";
+import { diffSinceSnapshot, headCommit, snapshotWorktree } from "./git-utils.js";
 
 /** Max consecutive failures before auto-disabling a job */
 const MAX_CONSECUTIVE_FAILURES = 5;
@@ -12,20 +19,63 @@ const MAX_CONSECUTIVE_FAILURES = 5;
 const CLI_CONNECT_TIMEOUT_MS = 30_000;
 /** Poll interval when waiting for CLI connection */
 const CLI_CONNECT_POLL_MS = 500;
+/** Time a run over its runtime limit gets to stop after the interrupt before it is killed */
+const RUNTIME_KILL_GRACE_MS = 30_000;
+const DEFAULT_RETRY_BACKOFF_SECONDS = 60;
+
+interface RunOptions {
+  /** Run even when the job is disabled */
+  force?: boolean;
+  triggeredBy?: string;
+  /** Retry number; unset for the first attempt */
+  attempt?: number;
+}
+
+/** One directory contains the other. */
+function pathsOverlap(a: string, b: string): boolean {
+  const inside = (dir: string, path: string) => {
+    const rel = relative(dir, path);
+    return !rel.startsWith("..") && !isAbsolute(rel);
+  };
+  return inside(a, b) || inside(b, a);
+}
+
+/** Text of the last assistant message, for backends whose result carries none. */
+function lastAssistantText(history: BrowserIncomingMessage[]): string | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const msg = history[i];
+    if (msg.type !== "assistant") continue;
+    const text = msg.message.content.map((b) => (b.type === "text" ? b.text : "")).filter(Boolean).join("\n");
+    if (text.trim()) return text.trim();
+  }
+  return undefined;
+}
 
 export class CronScheduler {
   private timers = new Map<string, Cron>();
+  /** Stop functions for file watches and branch polls */
+  private watchers = new Map<string, () => void>();
   private launcher: CliLauncher;
   private wsBridge: WsBridge;
-  /** In-memory execution history (last N per job) */
-  private executions = new Map<string, CronJobExecution[]>();
-  private static readonly MAX_EXECUTIONS_PER_JOB = 50;
+  private notifier: Pick<NotificationDispatcher, "cronJobDisabled"> | null = null;
+  /** Jobs launching a run that isn't recorded yet */
+  private launching = new Set<string>();
+  /** Run waiting for the job's current one to finish (overlap policy "queue"); the latest wins */
+  private queued = new Map<string, RunOptions>();
+  /** Pending retries by job */
+  private retries = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Runtime limits by session: the interrupt, then the kill */
+  private runtimeLimits = new Map<string, ReturnType<typeof setTimeout>>();
 
   constructor(launcher: CliLauncher, wsBridge: WsBridge) {
     this.launcher = launcher;
     this.wsBridge = wsBridge;
   }
 
+  setNotifier(notifier: Pick<NotificationDispatcher, "cronJobDisabled">): void {
+    this.notifier = notifier;
+  }
+
   /** Start all enabled jobs from disk. Called once at server startup. */
   startAll(): void {
     const jobs = cronStore.listJobs();
@@ -39,6 +89,14 @@ export class CronScheduler {
     if (started > 0) {
       console.log(`[cron-scheduler] Started ${started} cron job(s)`);
     }
+    // Runs that kept going through the restart still have a time limit
+    for (const job of jobs) {
+      if (!job.maxRuntimeMinutes || !job.lastSessionId) continue;
+      const execution = cronHistory.getExecution(job.id, job.lastSessionId);
+      if (execution && !execution.completedAt && this.launcher.isAlive(job.lastSessionId)) {
+        this.startRuntimeLimit(job, execution);
+      }
+    }
   }
 
   /** Schedule (or reschedule) a single job. */
@@ -47,6 +105,12 @@ export class CronScheduler {
 
     if (!job.enabled) return;
 
+    const trigger = jobTrigger(job);
+    if (trigger.kind !== "schedule") {
+      this.startTrigger(job);
+      return;
+    }
+
     try {
       if (job.recurring) {
         const cronTask = new Cron(job.schedule, {}, () => {
@@ -82,26 +146,287 @@ export class CronScheduler {
     }
   }
 
-  /** Stop a job's timer. */
+  /** Start the watcher behind a non-schedule trigger. Chained and manual jobs have none. */
+  private startTrigger(job: CronJob): void {
+    const trigger = jobTrigger(job);
+    try {
+      if (trigger.kind === "watch") {
+        // The job's own run edits files in its cwd; reacting to those would re-run it forever.
+        const watchesOwnCwd = pathsOverlap(trigger.dir, job.cwd);
+        const ownRunActive = () => {
+          const current = cronStore.getJob(job.id);
+          return !!current && this.runningSession(current) !== null;
+        };
+        this.watchers.set(job.id, watchFiles(
+          trigger.dir,
+          trigger.glob,
+          trigger.debounceSeconds * 1000,
+          (path) => this.runTriggered(job.id, `${path} changed`),
+          () => watchesOwnCwd && ownRunActive(),
+        ));
+        console.log(`[cron-scheduler] Watching "${trigger.glob}" in ${trigger.dir} for "${job.name}"`);
+      } else if (trigger.kind === "git") {
+        this.watchers.set(job.id, pollBranch(job.cwd, trigger.remote, trigger.branch, trigger.intervalMinutes * 60_000, (head) => {
+          this.handleBranchHead(job.id, head);
+        }));
+        console.log(`[cron-scheduler] Polling ${trigger.remote}/${trigger.branch} every ${trigger.intervalMinutes}m for "${job.name}"`);
+      }
+    } catch (err) {
+      console.error(`[cron-scheduler] Failed to start the ${trigger.kind} trigger of "${job.name}":`, err);
+    }
+  }
+
+  /** The first fetch only records where the branch is; later moves start a run. */
+  private handleBranchHead(jobId: string, head: string): void {
+    const job = cronStore.getJob(jobId);
+    if (!job || job.lastSeenCommit === head) return;
+    cronStore.updateJob(jobId, { lastSeenCommit: head });
+    const trigger = jobTrigger(job);
+    if (job.lastSeenCommit && trigger.kind === "git") {
+      this.runTriggered(jobId, `New commit ${head.slice(0, 7)} on ${trigger.remote}/${trigger.branch}`);
+    }
+  }
+
+  private runTriggered(jobId: string, triggeredBy: string): void {
+    this.executeJob(jobId, { triggeredBy }).catch((err) => {
+      console.error(`[cron-scheduler] Triggered run of job "${jobId}" failed:`, err);
+    });
+  }
+
+  /** Stop a job's timer or watcher, and drop its pending retry. */
   stopJob(jobId: string): void {
+    this.clearRetry(jobId);
     const timer = this.timers.get(jobId);
     if (timer) {
       timer.stop();
       this.timers.delete(jobId);
     }
+    const stopWatcher = this.watchers.get(jobId);
+    if (stopWatcher) {
+      stopWatcher();
+      this.watchers.delete(jobId);
+    }
   }
 
-  /** Execute a job: create a session, send the prompt, track the result. */
-  async executeJob(jobId: string, opts?: { force?: boolean }): Promise<void> {
+  /**
+   * A turn finished somewhere. The first result of a job's run completes its
+   * execution, captures what the run changed, and starts the jobs chained after it.
+   * Called from the bridge's result handler, so the diff is taken afterwards.
+   */
+  handleTurnCompleted(
+    sessionId: string,
+    result: Pick<
+      CLIResultMessage,
+      "is_error" | "subtype" | "errors" | "result" | "total_cost_usd" | "duration_ms" | "num_turns" | "total_lines_added" | "total_lines_removed"
+    >,
+  ): void {
+    const jobId = this.launcher.getSession(sessionId)?.cronJobId;
+    if (!jobId) return;
+    const execution = cronHistory.getExecution(jobId, sessionId);
+    if (!execution || execution.completedAt) return;
+    this.clearRuntimeLimit(sessionId);
+    execution.completedAt = Date.now();
+    // A run stopped for its runtime limit already carries the error
+    execution.success = !result.is_error && !execution.timedOut;
+    execution.costUsd = result.total_cost_usd;
+    // Codex puts a failed turn's message in `result`
+    if (result.is_error && !execution.timedOut) {
+      execution.error = result.errors?.[0] || result.result || result.subtype.replace(/_/g, " ");
+    }
+    execution.resultSubtype = result.subtype;
+    execution.summary = (!result.is_error && result.result?.trim())
+      || lastAssistantText(this.wsBridge.getSession(sessionId)?.messageHistory ?? []);
+    execution.durationMs = result.duration_ms > 0 ? result.duration_ms : execution.completedAt - execution.startedAt;
+    execution.numTurns = result.num_turns;
+    if (execution.cwd && execution.baseTree) {
+      setImmediate(() => {
+        this.captureDiff(execution).finally(() => this.recordCompletion(jobId, execution, result));
+      });
+      return;
+    }
+    this.recordCompletion(jobId, execution, result);
+  }
+
+  /** Save what the run changed since its starting snapshot, with its line counts. */
+  private async captureDiff(execution: CronJobExecution): Promise<void> {
+    try {
+      // Edits another session made in the same checkout during the run still show up here.
+      const diff = await diffSinceSnapshot(execution.cwd!, execution.baseTree!);
+      const lines = cronHistory.saveDiff(execution.sessionId, diff);
+      execution.hasDiff = true;
+      execution.linesAdded = lines.added;
+      execution.linesRemoved = lines.removed;
+    } catch (err) {
+      console.error(`[cron-scheduler] Could not save the diff of session "${execution.sessionId}":`, err);
+    }
+  }
+
+  private recordCompletion(
+    jobId: string,
+    execution: CronJobExecution,
+    result: Pick<CLIResultMessage, "total_lines_added" | "total_lines_removed">,
+  ): void {
+    // The CLI's own counts cover files outside the repository too
+    if (typeof result.total_lines_added === "number") execution.linesAdded = result.total_lines_added;
+    if (typeof result.total_lines_removed === "number") execution.linesRemoved = result.total_lines_removed;
+    cronHistory.saveExecution(execution);
+    this.finishRun(jobId, execution);
+  }
+
+  /**
+   * A run ended: reset or count the job's failures, start the jobs chained
+   * after it, then the run queued behind it.
+   */
+  private finishRun(jobId: string, execution: CronJobExecution): void {
+    if (execution.success) cronStore.updateJob(jobId, { consecutiveFailures: 0 });
+    else this.recordFailure(jobId, execution);
+
     const job = cronStore.getJob(jobId);
-    if (!job) return;
-    if (!job.enabled && !opts?.force) return;
+    for (const next of cronStore.listJobs()) {
+      const trigger = jobTrigger(next);
+      if (!next.enabled || trigger.kind !== "job" || trigger.jobId !== jobId) continue;
+      if (trigger.on === "success" && !execution.success) continue;
+      const outcome = execution.success ? "succeeded" : "failed";
+      this.runTriggered(next.id, `After "${job?.name ?? jobId}" ${outcome}`);
+    }
 
-    // Overlap prevention: skip if previous execution is still running
-    if (job.lastSessionId && this.launcher.isAlive(job.lastSessionId)) {
-      console.log(`[cron-scheduler] Skipping "${job.name}" — previous execution still running (${job.lastSessionId})`);
+    const queued = this.queued.get(jobId);
+    if (queued) {
+      this.queued.delete(jobId);
+      this.executeJob(jobId, queued).catch((err) => {
+        console.error(`[cron-scheduler] Queued run of job "${jobId}" failed:`, err);
+      });
+    }
+  }
+
+  /**
+   * Count a failed run. Retries it with exponential backoff while the job has
+   * retries left, and turns the job off after too many failures in a row.
+   */
+  private recordFailure(jobId: string, execution: CronJobExecution): void {
+    const job = cronStore.getJob(jobId);
+    if (!job) return;
+    const failures = job.consecutiveFailures + 1;
+    if (failures >= MAX_CONSECUTIVE_FAILURES) {
+      const disabledReason = `Turned off after ${failures} failed runs in a row. Last error: ${execution.error || "unknown"}`;
+      cronStore.updateJob(jobId, { consecutiveFailures: failures, enabled: false, disabledReason });
+      this.stopJob(jobId);
+      this.queued.delete(jobId);
+      this.notifier?.cronJobDisabled(job, disabledReason);
+      console.warn(`[cron-scheduler] Job "${job.name}" disabled after ${failures} consecutive failures`);
       return;
     }
+    cronStore.updateJob(jobId, { consecutiveFailures: failures });
+
+    const attempt = execution.attempt ?? 0;
+    const maxRetries = job.maxRetries ?? 0;
+    if (attempt >= maxRetries) return;
+    const next = attempt + 1;
+    const delayMs = (job.retryBackoffSeconds ?? DEFAULT_RETRY_BACKOFF_SECONDS) * 1000 * 2 ** attempt;
+    this.clearRetry(jobId);
+    // Turning the job off or editing it clears the timer (stopJob), so the retry may ignore `enabled`
+    this.retries.set(jobId, setTimeout(() => {
+      this.retries.delete(jobId);
+      this.executeJob(jobId, { force: true, triggeredBy: `Retry ${next} of ${maxRetries}`, attempt: next }).catch((err) => {
+        console.error(`[cron-scheduler] Retry of job "${jobId}" failed:`, err);
+      });
+    }, delayMs));
+    console.log(`[cron-scheduler] Retrying "${job.name}" in ${Math.round(delayMs / 1000)}s (${next} of ${maxRetries})`);
+  }
+
+  private clearRetry(jobId: string): void {
+    const timer = this.retries.get(jobId);
+    if (timer) clearTimeout(timer);
+    this.retries.delete(jobId);
+  }
+
+  /** Session of the job's run still in progress; "" while it is launching, null when none is. */
+  private runningSession(job: CronJob): string | null {
+    if (this.launching.has(job.id)) return "";
+    if (!job.lastSessionId || !this.launcher.isAlive(job.lastSessionId)) return null;
+    // A session left open after its run finished doesn't hold up the next run
+    return cronHistory.getExecution(job.id, job.lastSessionId)?.completedAt ? null : job.lastSessionId;
+  }
+
+  /** Kill the previous run to make room for a new one (overlap policy "kill"). */
+  private async replaceRun(job: CronJob, sessionId: string): Promise<void> {
+    console.log(`[cron-scheduler] Stopping the previous run of "${job.name}" (${sessionId}) for a new one`);
+    this.clearRuntimeLimit(sessionId);
+    await this.launcher.kill(sessionId);
+    const execution = cronHistory.getExecution(job.id, sessionId);
+    if (execution && !execution.completedAt) {
+      cronHistory.saveExecution({ ...execution, completedAt: Date.now(), success: false, error: "Stopped for a newer run" });
+    }
+  }
+
+  /** Interrupt a run once it reaches the job's runtime limit, and kill it if it doesn't stop. */
+  private startRuntimeLimit(job: CronJob, execution: CronJobExecution): void {
+    const minutes = job.maxRuntimeMinutes!;
+    const sessionId = execution.sessionId;
+    const remainingMs = Math.max(0, execution.startedAt + minutes * 60_000 - Date.now());
+    this.clearRuntimeLimit(sessionId);
+    this.runtimeLimits.set(sessionId, setTimeout(() => {
+      const current = cronHistory.getExecution(job.id, sessionId);
+      if (!current || current.completedAt) {
+        this.runtimeLimits.delete(sessionId);
+        return;
+      }
+      cronHistory.saveExecution({
+        ...current,
+        timedOut: true,
+        error: `Timed out after ${minutes} minute${minutes === 1 ? "" : "s"}`,
+      });
+      console.warn(`[cron-scheduler] Run of "${job.name}" (${sessionId}) hit its ${minutes}m limit, interrupting`);
+      // The interrupted turn's result completes the run; the kill is for a backend that doesn't answer
+      this.wsBridge.interruptSession(sessionId);
+      this.runtimeLimits.set(sessionId, setTimeout(() => {
+        this.runtimeLimits.delete(sessionId);
+        this.killTimedOutRun(job.id, sessionId).catch((err) => {
+          console.error(`[cron-scheduler] Failed to kill timed out run ${sessionId}:`, err);
+        });
+      }, RUNTIME_KILL_GRACE_MS));
+    }, remainingMs));
+  }
+
+  private async killTimedOutRun(jobId: string, sessionId: string): Promise<void> {
+    const execution = cronHistory.getExecution(jobId, sessionId);
+    if (!execution || execution.completedAt) return;
+    console.warn(`[cron-scheduler] Run ${sessionId} did not stop after the interrupt, killing it`);
+    await this.launcher.kill(sessionId);
+    execution.completedAt = Date.now();
+    execution.success = false;
+    execution.durationMs = execution.completedAt - execution.startedAt;
+    cronHistory.saveExecution(execution);
+    this.finishRun(jobId, execution);
+  }
+
+  private clearRuntimeLimit(sessionId: string): void {
+    const timer = this.runtimeLimits.get(sessionId);
+    if (timer) clearTimeout(timer);
+    this.runtimeLimits.delete(sessionId);
+  }
+
+  /** Execute a job: create a session, send the prompt, track the result. */
+  async executeJob(jobId: string, opts: RunOptions = {}): Promise<void> {
+    const job = cronStore.getJob(jobId);
+    if (!job) return;
+    if (!job.enabled && !opts.force) return;
+
+    const previous = this.runningSession(job);
+    if (previous !== null) {
+      const policy = job.overlapPolicy ?? "skip";
+      if (policy === "queue") {
+        this.queued.set(jobId, opts);
+        console.log(`[cron-scheduler] Queued "${job.name}" until the previous execution finishes (${previous || "starting"})`);
+        return;
+      }
+      // A run that is still launching can't be killed yet
+      if (policy === "skip" || !previous) {
+        console.log(`[cron-scheduler] Skipping "${job.name}" — previous execution still running (${previous || "starting"})`);
+        return;
+      }
+      await this.replaceRun(job, previous);
+    }
 
     console.log(`[cron-scheduler] Executing job "${job.name}" (${jobId})`);
 
@@ -109,27 +434,50 @@ export class CronScheduler {
       sessionId: "",
       jobId,
       startedAt: Date.now(),
+      triggeredBy: opts.triggeredBy ?? (opts.force ? "Manual run" : "Schedule"),
+      jobName: job.name,
+      ...(opts.attempt ? { attempt: opts.attempt } : {}),
     };
 
+    this.launching.add(jobId);
     try {
+      const preset = job.presetId ? presetManager.getPreset(job.presetId) : null;
+      if (job.presetId && !preset) throw new Error(`Preset "${job.presetId}" not found`);
+      // The preset may have gained a container or worktree since it was linked
+      if (preset) presetManager.assertCronCompatible(preset);
+      const launch = preset?.options ?? {};
+      const backendType = launch.backend ?? job.backendType;
+      const permissionMode = launch.permissionMode ?? job.permissionMode;
+
       // Resolve environment variables
       let envVars: Record<string, string> | undefined;
-      if (job.envSlug) {
-        const env = envManager.getEnv(job.envSlug);
+      const envSlug = launch.envSlug ?? job.envSlug;
+      if (envSlug) {
+        const env = envManager.getEnv(envSlug);
         if (env) envVars = env.variables;
       }
+      if (launch.env) envVars = { ...envVars, ...launch.env };
+
+      const cwd = launch.cwd ?? job.cwd;
+      execution.cwd = cwd;
+      execution.baseCommit = headCommit(cwd) ?? undefined;
+      // Edits already sitting in the checkout aren't the run's; diff against the tree as it was.
+      execution.baseTree = (await snapshotWorktree(cwd)) ?? undefined;
 
       // Launch the session via CliLauncher
       // For Codex, explicitly set sandbox and internet access for full autonomy
       const sessionInfo = this.launcher.launch({
-        model: job.model,
-        permissionMode: job.permissionMode,
-        cwd: job.cwd,
+        model: launch.model ?? job.model,
+        permissionMode,
+        cwd,
         env: envVars,
-        backendType: job.backendType,
-        codexInternetAccess: job.backendType === "codex" ? (job.codexInternetAccess ?? true) : undefined,
-        codexSandbox: job.backendType === "codex"
-          ? (job.permissionMode === "bypassPermissions" ? "danger-full-access" : "workspace-write")
+        backendType,
+        claudeBinary: launch.claudeBinary,
+        codexBinary: launch.codexBinary,
+        allowedTools: launch.allowedTools,
+        codexInternetAccess: backendType === "codex" ? (job.codexInternetAccess ?? true) : undefined,
+        codexSandbox: backendType === "codex"
+          ? (permissionMode === "bypassPermissions" ? "danger-full-access" : "workspace-write")
           : undefined,
       });
 
@@ -146,41 +494,35 @@ export class CronScheduler {
       // Wait for CLI to connect, then send the prompt
       await this.waitForCLIConnection(sessionInfo.sessionId);
 
+      if (job.thinkingLevel) {
+        this.wsBridge.setThinkingBudget(sessionInfo.sessionId, job.thinkingLevel, job.thinkingTokens);
+      }
+
       // Send the prompt with cron prefix for traceability
-      const fullPrompt = `[cron:${job.id} ${job.name}]\n\n${job.prompt}`;
+      const presetPrompt = preset ? presetManager.resolvePresetPrompt(preset) : "";
+      const fullPrompt = `[cron:${job.id} ${job.name}]\n\n${[presetPrompt, job.prompt].filter(Boolean).join("\n\n")}`;
       this.wsBridge.injectUserMessage(sessionInfo.sessionId, fullPrompt);
 
-      // Update job tracking
+      // Update job tracking; failures are reset once the run succeeds
       cronStore.updateJob(jobId, {
         lastRunAt: Date.now(),
         lastSessionId: sessionInfo.sessionId,
         totalRuns: job.totalRuns + 1,
-        consecutiveFailures: 0,
       });
 
       execution.success = true;
-      this.addExecution(jobId, execution);
+      cronHistory.saveExecution(execution);
+      if (job.maxRuntimeMinutes) this.startRuntimeLimit(job, execution);
 
     } catch (err) {
       console.error(`[cron-scheduler] Job "${job.name}" failed:`, err);
       execution.error = err instanceof Error ? err.message : String(err);
       execution.completedAt = Date.now();
-      this.addExecution(jobId, execution);
-
-      const failures = job.consecutiveFailures + 1;
-      const updates: Partial<CronJob> = {
-        consecutiveFailures: failures,
-        lastRunAt: Date.now(),
-      };
-
-      // Auto-disable after too many failures
-      if (failures >= MAX_CONSECUTIVE_FAILURES) {
-        updates.enabled = false;
-        this.stopJob(jobId);
-        console.warn(`[cron-scheduler] Job "${job.name}" disabled after ${failures} consecutive failures`);
-      }
-
-      cronStore.updateJob(jobId, updates);
+      cronHistory.saveExecution(execution);
+      cronStore.updateJob(jobId, { lastRunAt: Date.now() });
+      this.recordFailure(jobId, execution);
+    } finally {
+      this.launching.delete(jobId);
     }
   }
 
@@ -193,6 +535,10 @@ export class CronScheduler {
 
   /** Wait for CLI to be connected (poll up to timeout). */
   private async waitForCLIConnection(sessionId: string): Promise<void> {
+    // Time spent waiting for a concurrency slot doesn't count against the timeout.
+    if (this.launcher.getSession(sessionId)?.queued) {
+      await this.launcher.waitForLaunchSlot(sessionId);
+    }
     const start = Date.now();
 
     while (Date.now() - start < CLI_CONNECT_TIMEOUT_MS) {
@@ -216,28 +562,36 @@ export class CronScheduler {
     return timer.nextRun() || null;
   }
 
-  /** Get recent executions for a job. */
-  getExecutions(jobId: string): CronJobExecution[] {
-    return this.executions.get(jobId) || [];
+  /** Get recent executions for a job, oldest first. */
+  getExecutions(jobId: string): CronExecutionView[] {
+    return cronHistory.listExecutions(jobId).map((e) => this.withSessionStatus(e));
   }
 
-  private addExecution(jobId: string, execution: CronJobExecution): void {
-    if (!this.executions.has(jobId)) {
-      this.executions.set(jobId, []);
-    }
-    const list = this.executions.get(jobId)!;
-    list.push(execution);
-    if (list.length > CronScheduler.MAX_EXECUTIONS_PER_JOB) {
-      list.splice(0, list.length - CronScheduler.MAX_EXECUTIONS_PER_JOB);
-    }
+  /** Executions of every job, newest first. */
+  getAllExecutions(): CronExecutionView[] {
+    return cronHistory.listAllExecutions().map((e) => this.withSessionStatus(e));
+  }
+
+  private withSessionStatus(execution: CronJobExecution): CronExecutionView {
+    const info = execution.sessionId ? this.launcher.getSession(execution.sessionId) : undefined;
+    return { ...execution, sessionStatus: !info ? "gone" : info.archived ? "archived" : "active" };
   }
 
-  /** Stop all timers (for graceful shutdown). */
+  /** Stop all timers and watchers (for graceful shutdown). */
   destroy(): void {
     for (const timer of this.timers.values()) {
       timer.stop();
     }
     this.timers.clear();
-    this.executions.clear();
+    for (const stopWatcher of this.watchers.values()) {
+      stopWatcher();
+    }
+    this.watchers.clear();
+    for (const timer of [...this.retries.values(), ...this.runtimeLimits.values()]) {
+      clearTimeout(timer);
+    }
+    this.retries.clear();
+    this.runtimeLimits.clear();
+    this.queued.clear();
   }
 }
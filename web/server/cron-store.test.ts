@@ -189,12 +189,32 @@ describe("createJob", () => {
   it("throws when cwd is empty", () => {
     expect(() => cronStore.createJob(makeJobInput({ cwd: "" }))).toThrow("Job working directory is required");
   });
+
+  it("doesn't need a schedule for other triggers", () => {
+    const job = cronStore.createJob(makeJobInput({ schedule: "", trigger: { kind: "manual" } }));
+    expect(job.schedule).toBe("");
+    expect(job.trigger).toEqual({ kind: "manual" });
+  });
+
+  it("throws when chaining after a job that doesn't exist", () => {
+    expect(() => cronStore.createJob(makeJobInput({ trigger: { kind: "job", jobId: "nope", on: "success" } })))
+      .toThrow('Job "nope" to run after was not found');
+  });
 });
 
 // ===========================================================================
 // updateJob
 // ===========================================================================
 describe("updateJob", () => {
+  it("rejects a chain that loops back to the job", () => {
+    cronStore.createJob(makeJobInput({ name: "Build" }));
+    cronStore.createJob(makeJobInput({ name: "Deploy", trigger: { kind: "job", jobId: "build", on: "success" } }));
+
+    expect(() => cronStore.updateJob("build", { trigger: { kind: "job", jobId: "deploy", on: "any" } }))
+      .toThrow("Chained jobs can't trigger each other in a loop");
+    expect(cronStore.getJob("build")!.trigger).toBeUndefined();
+  });
+
   it("updates fields and preserves createdAt", async () => {
     const job = cronStore.createJob(makeJobInput({ name: "Original" }));
     const originalCreatedAt = job.createdAt;
@@ -9,6 +9,8 @@ import {
 import { join } from "node:path";
 import { homedir } from "node:os";
 import type { CronJob, CronJobCreateInput } from "./cron-types.js";
+import { jobTrigger } from "./cron-triggers.js";
+import { deleteJobHistory, renameJobHistory } from "./cron-history.js";
 
 // ─── Paths ──────────────────────────────────────────────────────────────────
 
@@ -34,6 +36,23 @@ function slugify(name: string): string {
     .replace(/^-|-$/g, "");
 }
 
+/** A chained job must follow an existing job and must not end up triggering itself. */
+function assertValidChain(job: Pick<CronJob, "id" | "trigger">): void {
+  let trigger = job.trigger;
+  const seen = new Set<string>();
+  while (trigger?.kind === "job") {
+    if (trigger.jobId === job.id) throw new Error("Chained jobs can't trigger each other in a loop");
+    if (seen.has(trigger.jobId)) return;
+    seen.add(trigger.jobId);
+    const upstream = getJob(trigger.jobId);
+    if (!upstream) {
+      if (seen.size === 1) throw new Error(`Job "${trigger.jobId}" to run after was not found`);
+      return;
+    }
+    trigger = upstream.trigger;
+  }
+}
+
 // ─── CRUD ───────────────────────────────────────────────────────────────────
 
 export function listJobs(): CronJob[] {
@@ -69,7 +88,7 @@ export function getJob(id: string): CronJob | null {
 export function createJob(data: CronJobCreateInput): CronJob {
   if (!data.name || !data.name.trim()) throw new Error("Job name is required");
   if (!data.prompt || !data.prompt.trim()) throw new Error("Job prompt is required");
-  if (!data.schedule || !data.schedule.trim()) throw new Error("Job schedule is required");
+  if (jobTrigger(data).kind === "schedule" && !data.schedule?.trim()) throw new Error("Job schedule is required");
   if (!data.cwd || !data.cwd.trim()) throw new Error("Job working directory is required");
 
   const id = slugify(data.name.trim());
@@ -79,6 +98,7 @@ export function createJob(data: CronJobCreateInput): CronJob {
   if (existsSync(filePath(id))) {
     throw new Error(`A job with a similar name already exists ("${id}")`);
   }
+  assertValidChain({ id, trigger: data.trigger });
 
   const now = Date.now();
   const job: CronJob = {
@@ -86,7 +106,7 @@ export function createJob(data: CronJobCreateInput): CronJob {
     id,
     name: data.name.trim(),
     prompt: data.prompt.trim(),
-    schedule: data.schedule.trim(),
+    schedule: (data.schedule ?? "").trim(),
     cwd: data.cwd.trim(),
     createdAt: now,
     updatedAt: now,
@@ -123,14 +143,16 @@ export function updateJob(
     // Preserve immutable fields
     createdAt: existing.createdAt,
   };
+  if (updates.trigger) assertValidChain(job);
 
-  // If id changed, delete old file
+  // If id changed, delete old file and move the run history along
   if (newId !== id) {
     try {
       unlinkSync(filePath(id));
     } catch {
       /* ok */
     }
+    renameJobHistory(id, newId);
   }
 
   writeFileSync(filePath(newId), JSON.stringify(job, null, 2), "utf-8");
@@ -142,6 +164,7 @@ export function deleteJob(id: string): boolean {
   if (!existsSync(filePath(id))) return false;
   try {
     unlinkSync(filePath(id));
+    deleteJobHistory(id);
     return true;
   } catch {
     return false;
@@ -0,0 +1,62 @@
+const mockFetchBranchHead = vi.hoisted(() => vi.fn<(cwd: string, remote: string, branch: string) => Promise<string | null>>());
+vi.mock("./git-utils.js", () => ({ fetchBranchHead: mockFetchBranchHead }));
+
+import { jobTrigger, parseCronTrigger, pollBranch } from "./cron-triggers.js";
+
+describe("parseCronTrigger", () => {
+  it("defaults to the schedule", () => {
+    expect(parseCronTrigger(undefined)).toEqual({ kind: "schedule" });
+    expect(jobTrigger({})).toEqual({ kind: "schedule" });
+  });
+
+  it("fills in defaults for watches and git triggers", () => {
+    expect(parseCronTrigger({ kind: "watch", dir: "/repo", glob: " src/**/*.ts " }))
+      .toEqual({ kind: "watch", dir: "/repo", glob: "src/**/*.ts", debounceSeconds: 30 });
+    expect(parseCronTrigger({ kind: "git", branch: "main" }))
+      .toEqual({ kind: "git", remote: "origin", branch: "main", intervalMinutes: 5 });
+    expect(parseCronTrigger({ kind: "job", jobId: "build" }))
+      .toEqual({ kind: "job", jobId: "build", on: "success" });
+  });
+
+  it("rejects incomplete or unsafe triggers", () => {
+    expect(() => parseCronTrigger({ kind: "watch", dir: "relative", glob: "*" }))
+      .toThrow("A file watch needs an absolute directory");
+    expect(() => parseCronTrigger({ kind: "git", branch: "main; rm -rf /" }))
+      .toThrow("Invalid remote or branch name");
+    expect(() => parseCronTrigger({ kind: "git", branch: "main", intervalMinutes: 0 }))
+      .toThrow("Trigger intervals must be positive numbers");
+    expect(() => parseCronTrigger({ kind: "webhook" }))
+      .toThrow("trigger.kind must be one of schedule, watch, git, job, manual");
+  });
+});
+
+describe("pollBranch", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    mockFetchBranchHead.mockReset();
+  });
+
+  it("skips polls that come due while a fetch is still running", async () => {
+    vi.useFakeTimers();
+    let finish: (head: string) => void = () => {};
+    mockFetchBranchHead.mockImplementation(() => new Promise((resolve) => { finish = resolve; }));
+    const onHead = vi.fn();
+    const stop = pollBranch("/repo", "origin", "main", 1000, onHead);
+
+    await vi.advanceTimersByTimeAsync(3500);
+    expect(mockFetchBranchHead).toHaveBeenCalledTimes(1);
+
+    finish("abc1234");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onHead).toHaveBeenCalledWith("abc1234");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetchBranchHead).toHaveBeenCalledTimes(2);
+
+    // A fetch that finishes after stop reports nothing
+    stop();
+    finish("def5678");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onHead).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { watch } from "node:fs";
+import { isAbsolute, sep } from "node:path";
+import type { CronJob, CronTrigger } from "./cron-types.js";
+import { globToRegExp } from "./path-glob.js";
+import { fetchBranchHead } from "./git-utils.js";
+
+const DEFAULT_DEBOUNCE_SECONDS = 30;
+const DEFAULT_FETCH_INTERVAL_MINUTES = 5;
+/** Changes here never trigger a run: git's own bookkeeping and installed dependencies */
+const IGNORED_PATHS = /(^|\/)(\.git|node_modules)(\/|$)/;
+/** Remote and branch names are passed to git unquoted */
+const GIT_NAME = /^[\w.][\w./-]*$/;
+
+export function jobTrigger(job: Pick<CronJob, "trigger">): CronTrigger {
+  return job.trigger ?? { kind: "schedule" };
+}
+
+function positive(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === "") return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new Error("Trigger intervals must be positive numbers");
+  return n;
+}
+
+/** Validate a trigger from the API. Throws with a message for the user. */
+export function parseCronTrigger(raw: unknown): CronTrigger {
+  if (raw === undefined || raw === null) return { kind: "schedule" };
+  if (typeof raw !== "object") throw new Error("trigger must be an object");
+  const t = raw as Record<string, unknown>;
+  switch (t.kind) {
+    case "schedule":
+    case "manual":
+      return { kind: t.kind };
+    case "watch": {
+      const dir = typeof t.dir === "string" ? t.dir.trim() : "";
+      const glob = typeof t.glob === "string" ? t.glob.trim() : "";
+      if (!dir || !isAbsolute(dir)) throw new Error("A file watch needs an absolute directory");
+      if (!glob) throw new Error("A file watch needs a glob pattern");
+      return { kind: "watch", dir, glob, debounceSeconds: positive(t.debounceSeconds, DEFAULT_DEBOUNCE_SECONDS) };
+    }
+    case "git": {
+      const remote = typeof t.remote === "string" && t.remote.trim() ? t.remote.trim() : "origin";
+      const branch = typeof t.branch === "string" ? t.branch.trim() : "";
+      if (!branch) throw new Error("A git trigger needs a branch");
+      if (!GIT_NAME.test(remote) || !GIT_NAME.test(branch)) throw new Error("Invalid remote or branch name");
+      return {
+        kind: "git",
+        remote,
+        branch,
+        intervalMinutes: positive(t.intervalMinutes, DEFAULT_FETCH_INTERVAL_MINUTES),
+      };
+    }
+    case "job": {
+      const jobId = typeof t.jobId === "string" ? t.jobId.trim() : "";
+      if (!jobId) throw new Error("A chained trigger needs the job to run after");
+      return { kind: "job", jobId, on: t.on === "any" ? "any" : "success" };
+    }
+    default:
+      throw new Error("trigger.kind must be one of schedule, watch, git, job, manual");
+  }
+}
+
+/**
+ * Watch `dir` recursively and call `onChange` once files matching `glob` have
+ * been quiet for `debounceMs`. `onChange` gets the last changed path. While
+ * `isPaused` returns true, changes are dropped along with any pending call.
+ * Returns a stop function; throws when the directory can't be watched.
+ */
+export function watchFiles(
+  dir: string,
+  glob: string,
+  debounceMs: number,
+  onChange: (path: string) => void,
+  isPaused: () => boolean = () => false,
+): () => void {
+  const pattern = globToRegExp(glob);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastPath = "";
+  const watcher = watch(dir, { recursive: true }, (_event, filename) => {
+    if (!filename) return;
+    const path = String(filename).split(sep).join("/");
+    if (IGNORED_PATHS.test(path) || !pattern.test(path)) return;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (isPaused()) return;
+    lastPath = path;
+    timer = setTimeout(() => {
+      timer = null;
+      if (!isPaused()) onChange(lastPath);
+    }, debounceMs);
+  });
+  watcher.on("error", (err) => {
+    console.error(`[cron-triggers] Watching ${dir} failed:`, err);
+  });
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/**
+ * Fetch `remote`/`branch` in `cwd` right away and then every `intervalMs`,
+ * calling `onHead` with the branch's commit each time. A poll that comes due
+ * while the previous fetch is still running is skipped. Returns a stop function.
+ */
+export function pollBranch(
+  cwd: string,
+  remote: string,
+  branch: string,
+  intervalMs: number,
+  onHead: (commit: string) => void,
+): () => void {
+  let fetching = false;
+  let stopped = false;
+  const check = async () => {
+    if (fetching) return;
+    fetching = true;
+    try {
+      const head = await fetchBranchHead(cwd, remote, branch);
+      if (stopped) return;
+      if (head) onHead(head);
+      else console.warn(`[cron-triggers] Could not fetch ${remote}/${branch} in ${cwd}`);
+    } finally {
+      fetching = false;
+    }
+  };
+  const first = setTimeout(check, 0);
+  const timer = setInterval(check, intervalMs);
+  return () => {
+    stopped = true;
+    clearTimeout(first);
+    clearInterval(timer);
+  };
+}
@@ -1,5 +1,25 @@
+import type { CLIResultMessage, ThinkingLevel } from "./session-types.js";
+
 // ─── Cron Job Types ────────────────────────────────────────────────────────
 
+/** What starts a job run. Jobs saved before triggers existed have none and run on their schedule. */
+export type CronTrigger =
+  /** `schedule` and `recurring` decide when it runs */
+  | { kind: "schedule" }
+  /** Files under `dir` matching `glob` changed; runs once they have been quiet for `debounceSeconds` */
+  | { kind: "watch"; dir: string; glob: string; debounceSeconds: number }
+  /** New commits on `remote`/`branch`, checked with `git fetch` every `intervalMinutes` */
+  | { kind: "git"; remote: string; branch: string; intervalMinutes: number }
+  /** Another job's run finished its first turn */
+  | { kind: "job"; jobId: string; on: "success" | "any" }
+  /** Only "Run now" */
+  | { kind: "manual" };
+
+export type CronTriggerKind = CronTrigger["kind"];
+
+/** What happens when a job fires while its previous run is still working */
+export type CronOverlapPolicy = "skip" | "queue" | "kill";
+
 export interface CronJob {
   /** Unique slug-based ID (derived from name) */
   id: string;
@@ -7,7 +27,7 @@ export interface CronJob {
   name: string;
   /** The prompt to send when the job fires */
   prompt: string;
-  /** Cron expression (e.g. "0 8 * * *") or ISO datetime string for one-shot */
+  /** Cron expression (e.g. "0 8 * * *") or ISO datetime string for one-shot; unused by other triggers */
   schedule: string;
   /** true = recurring cron, false = one-shot at a specific time */
   recurring: boolean;
@@ -25,6 +45,27 @@ export interface CronJob {
   permissionMode: string;
   /** Codex-only: enable internet access */
   codexInternetAccess?: boolean;
+  /** Thinking budget for the run; unset = backend default */
+  thinkingLevel?: ThinkingLevel;
+  /** Token budget when thinkingLevel is "custom" */
+  thinkingTokens?: number;
+  /** Cost cap in USD for each run; the run is interrupted once it is reached */
+  budgetUsd?: number;
+  /**
+   * Session preset to launch from. Its backend, model, permission mode, cwd and
+   * env replace the job's own; its prompt is sent ahead of the job prompt.
+   */
+  presetId?: string;
+  /** Unset = schedule */
+  trigger?: CronTrigger;
+  /** Unset = skip */
+  overlapPolicy?: CronOverlapPolicy;
+  /** Wall-clock limit for a run; it is interrupted, then killed. Unset = none */
+  maxRuntimeMinutes?: number;
+  /** Times a failed run is retried; unset = 0 */
+  maxRetries?: number;
+  /** Wait before the first retry; doubles for each one after it */
+  retryBackoffSeconds?: number;
 
   // ── Tracking ──
   createdAt: number;
@@ -37,6 +78,10 @@ export interface CronJob {
   consecutiveFailures: number;
   /** Total number of runs */
   totalRuns: number;
+  /** Git trigger: branch head seen by the last fetch */
+  lastSeenCommit?: string;
+  /** Why the scheduler turned the job off; cleared when it is turned back on */
+  disabledReason?: string;
 }
 
 export interface CronJobExecution {
@@ -54,10 +99,41 @@ export interface CronJobExecution {
   error?: string;
   /** Cost in USD */
   costUsd?: number;
+  /** What started the run, e.g. "New commit 1a2b3c4 on main" */
+  triggeredBy?: string;
+  /** Retry number; unset for the first attempt */
+  attempt?: number;
+  /** Stopped for running past maxRuntimeMinutes */
+  timedOut?: boolean;
+  /** Job name at the time, kept for runs of renamed or deleted jobs */
+  jobName?: string;
+  /** Directory the run worked in */
+  cwd?: string;
+  /** HEAD when the run started */
+  baseCommit?: string;
+  /** Snapshot of the worktree, uncommitted and untracked files included, when the run started; its diff is taken against this */
+  baseTree?: string;
+
+  // ── Outcome, from the run's first turn result ──
+  resultSubtype?: CLIResultMessage["subtype"];
+  /** Final assistant message */
+  summary?: string;
+  durationMs?: number;
+  numTurns?: number;
+  linesAdded?: number;
+  linesRemoved?: number;
+  /** A diff was captured (see cron-history getDiff) */
+  hasDiff?: boolean;
+}
+
+/** An execution as the API returns it */
+export interface CronExecutionView extends CronJobExecution {
+  /** "gone" once the session was purged, or for runs that never launched */
+  sessionStatus: "active" | "archived" | "gone";
 }
 
 /** Input for creating a cron job (without auto-generated fields) */
 export type CronJobCreateInput = Omit<
   CronJob,
-  "id" | "createdAt" | "updatedAt" | "consecutiveFailures" | "totalRuns" | "lastRunAt" | "lastSessionId"
+  "id" | "createdAt" | "updatedAt" | "consecutiveFailures" | "totalRuns" | "lastRunAt" | "lastSessionId" | "lastSeenCommit" | "disabledReason"
 >;
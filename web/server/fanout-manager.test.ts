@@ -0,0 +1,94 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+let tempDir: string;
+let fanoutManager: typeof import("./fanout-manager.js");
+
+const mockHomedir = vi.hoisted(() => {
+  let dir = "";
+  return {
+    get: () => dir,
+    set: (d: string) => {
+      dir = d;
+    },
+  };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return {
+    ...actual,
+    homedir: () => mockHomedir.get(),
+  };
+});
+
+beforeEach(async () => {
+  tempDir = mkdtempSync(join(tmpdir(), "fanout-test-"));
+  mockHomedir.set(tempDir);
+  vi.resetModules();
+  fanoutManager = await import("./fanout-manager.js");
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function groupInput(id: string) {
+  return {
+    id,
+    prompt: "Fix the flaky test",
+    cwd: "/repo",
+    repoRoot: "/repo",
+    baseBranch: "main",
+    baseCommit: "abc123",
+    variants: [
+      { backend: "claude" as const, sessionId: `${id}-a`, label: "Claude", branch: "main-wt-1", worktreePath: "/wt/1" },
+      { backend: "codex" as const, sessionId: `${id}-b`, label: "Codex", branch: "main-wt-2", worktreePath: "/wt/2" },
+    ],
+  };
+}
+
+describe("parseVariantConfigs", () => {
+  it("keeps known fields and defaults the backend to claude", () => {
+    expect(fanoutManager.parseVariantConfigs([
+      { model: " claude-opus-4-6 ", permissionMode: "plan", extra: true },
+      { backend: "codex", model: "" },
+    ])).toEqual([
+      { backend: "claude", model: "claude-opus-4-6", permissionMode: "plan" },
+      { backend: "codex" },
+    ]);
+  });
+
+  it("rejects too few, too many and unknown backends", () => {
+    expect(() => fanoutManager.parseVariantConfigs([{}])).toThrow("at least two variants");
+    expect(() => fanoutManager.parseVariantConfigs(Array.from({ length: 7 }, () => ({})))).toThrow("at most 6 variants");
+    expect(() => fanoutManager.parseVariantConfigs([{}, { backend: "gpt" }])).toThrow("Invalid backend: gpt");
+  });
+});
+
+describe("fan-out storage", () => {
+  it("persists groups and lists the newest first", () => {
+    const now = vi.spyOn(Date, "now");
+    now.mockReturnValue(1);
+    fanoutManager.createFanout(groupInput("old"));
+    now.mockReturnValue(2);
+    fanoutManager.createFanout(groupInput("new"));
+    now.mockRestore();
+
+    expect(fanoutManager.listFanouts().map((g) => g.id)).toEqual(["new", "old"]);
+    expect(fanoutManager.getFanout("old")?.variants).toHaveLength(2);
+    expect(fanoutManager.getFanout("missing")).toBeNull();
+  });
+
+  it("updates a stored group in place", () => {
+    fanoutManager.createFanout(groupInput("g1"));
+    const updated = fanoutManager.updateFanout("g1", (g) => {
+      g.kept = { sessionId: "g1-a", mode: "merge", at: 5 };
+    });
+
+    expect(updated?.kept).toEqual({ sessionId: "g1-a", mode: "merge", at: 5 });
+    expect(fanoutManager.getFanout("g1")?.kept?.sessionId).toBe("g1-a");
+    expect(fanoutManager.updateFanout("missing", () => {})).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+
+/** One configuration to try the prompt with. */
+export interface FanoutVariantConfig {
+  backend: "claude" | "codex";
+  model?: string;
+  permissionMode?: string;
+}
+
+export interface FanoutTestResult {
+  passed: boolean;
+  exitCode: number;
+  /** Tail of the command's combined output */
+  output: string;
+  ranAt: number;
+}
+
+export interface FanoutVariant extends FanoutVariantConfig {
+  sessionId: string;
+  label: string;
+  /** Companion-managed branch the variant works on */
+  branch: string;
+  worktreePath: string;
+  testResult?: FanoutTestResult;
+}
+
+export interface FanoutGroup {
+  id: string;
+  prompt: string;
+  cwd: string;
+  repoRoot: string;
+  /** Branch the variants started from; "merge" keeps the winner here */
+  baseBranch: string;
+  /** Commit every variant started from, used to diff each one */
+  baseCommit: string;
+  testCommand?: string;
+  variants: FanoutVariant[];
+  kept?: { sessionId: string; mode: FanoutKeepMode; at: number };
+  createdAt: number;
+}
+
+/** "merge" merges the winner into the base branch; "checkout" checks its branch out in the main repo. */
+export type FanoutKeepMode = "merge" | "checkout";
+
+export const MAX_FANOUT_VARIANTS = 6;
+
+const COMPANION_DIR = join(homedir(), ".companion");
+const FANOUTS_FILE = join(COMPANION_DIR, "fanouts.json");
+
+function ensureDir(): void {
+  mkdirSync(COMPANION_DIR, { recursive: true });
+}
+
+function loadGroups(): FanoutGroup[] {
+  ensureDir();
+  if (!existsSync(FANOUTS_FILE)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(FANOUTS_FILE, "utf-8")) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((g): g is FanoutGroup =>
+      !!g && typeof g === "object"
+      && typeof (g as FanoutGroup).id === "string"
+      && Array.isArray((g as FanoutGroup).variants));
+  } catch {
+    return [];
+  }
+}
+
+function saveGroups(groups: FanoutGroup[]): void {
+  ensureDir();
+  writeFileSync(FANOUTS_FILE, JSON.stringify(groups, null, 2), "utf-8");
+}
+
+/** Validate the variant list from a request: 2 to MAX_FANOUT_VARIANTS known backends. */
+export function parseVariantConfigs(raw: unknown): FanoutVariantConfig[] {
+  if (!Array.isArray(raw) || raw.length < 2) throw new Error("A fan-out needs at least two variants");
+  if (raw.length > MAX_FANOUT_VARIANTS) throw new Error(`A fan-out can have at most ${MAX_FANOUT_VARIANTS} variants`);
+  return raw.map((item) => {
+    const input = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const backend = input.backend ?? "claude";
+    if (backend !== "claude" && backend !== "codex") throw new Error(`Invalid backend: ${String(backend)}`);
+    const config: FanoutVariantConfig = { backend };
+    if (typeof input.model === "string" && input.model.trim()) config.model = input.model.trim();
+    if (typeof input.permissionMode === "string" && input.permissionMode.trim()) {
+      config.permissionMode = input.permissionMode.trim();
+    }
+    return config;
+  });
+}
+
+export function variantLabel(config: FanoutVariantConfig): string {
+  const backend = config.backend === "codex" ? "Codex" : "Claude";
+  return config.model ? `${backend} · ${config.model}` : backend;
+}
+
+export function listFanouts(): FanoutGroup[] {
+  return loadGroups().sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getFanout(id: string): FanoutGroup | null {
+  return loadGroups().find((g) => g.id === id) ?? null;
+}
+
+export function createFanout(input: Omit<FanoutGroup, "createdAt">): FanoutGroup {
+  const group: FanoutGroup = { ...input, createdAt: Date.now() };
+  const groups = loadGroups();
+  groups.push(group);
+  saveGroups(groups);
+  return group;
+}
+
+/** Apply `update` to a stored group. Returns the saved group, or null if it doesn't exist. */
+export function updateFanout(id: string, update: (group: FanoutGroup) => void): FanoutGroup | null {
+  const groups = loadGroups();
+  const group = groups.find((g) => g.id === id);
+  if (!group) return null;
+  update(group);
+  saveGroups(groups);
+  return group;
+}
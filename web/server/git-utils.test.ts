@@ -8,15 +8,20 @@ const mockHomedir = vi.hoisted(() => {
 });
 
 const mockExecSync = vi.hoisted(() => vi.fn());
+const mockExecFileSync = vi.hoisted(() => vi.fn());
+const mockExecFile = vi.hoisted(() => vi.fn());
 const mockExistsSync = vi.hoisted(() => vi.fn());
 const mockMkdirSync = vi.hoisted(() => vi.fn());
+const mockCopyFile = vi.hoisted(() => vi.fn(async () => {}));
+const mockRm = vi.hoisted(() => vi.fn(async () => {}));
 
-vi.mock("node:os", () => ({ homedir: () => mockHomedir.get() }));
-vi.mock("node:child_process", () => ({ execSync: mockExecSync }));
+vi.mock("node:os", () => ({ homedir: () => mockHomedir.get(), tmpdir: () => "/fake/tmp" }));
+vi.mock("node:child_process", () => ({ execSync: mockExecSync, execFileSync: mockExecFileSync, execFile: mockExecFile }));
 vi.mock("node:fs", () => ({
   existsSync: mockExistsSync,
   mkdirSync: mockMkdirSync,
 }));
+vi.mock("node:fs/promises", () => ({ copyFile: mockCopyFile, rm: mockRm }));
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -41,6 +46,17 @@ function mockGitCommands(map: Record<string, string | Error>) {
   });
 }
 
+/** Answer async execFile("git", args) calls; `respond` returns stdout or throws. */
+function mockGitAsync(respond: (args: string[]) => string) {
+  mockExecFile.mockImplementation((_file: string, args: string[], _opts: unknown, callback: (err: Error | null, out?: { stdout: string; stderr: string }) => void) => {
+    try {
+      callback(null, { stdout: respond(args), stderr: "" });
+    } catch (e) {
+      callback(e as Error);
+    }
+  });
+}
+
 // ─── Dynamic import with module reset ────────────────────────────────────────
 
 let gitUtils: typeof import("./git-utils.js");
@@ -48,8 +64,12 @@ let gitUtils: typeof import("./git-utils.js");
 beforeEach(async () => {
   vi.resetModules();
   mockExecSync.mockReset();
+  mockExecFileSync.mockReset();
+  mockExecFile.mockReset();
   mockExistsSync.mockReset();
   mockMkdirSync.mockReset();
+  mockCopyFile.mockClear();
+  mockRm.mockClear();
   mockHomedir.set("/fake/home");
   gitUtils = await import("./git-utils.js");
 });
@@ -936,3 +956,115 @@ describe("checkoutOrCreateBranch", () => {
     ).toThrow('Branch "feat/missing" does not exist');
   });
 });
+
+// ─── diffSince ───────────────────────────────────────────────────────────────
+
+describe("diffSince", () => {
+  it("passes untracked file names to git as arguments, not through a shell", () => {
+    const file = "$(touch pwned).ts";
+    mockGitCommands({
+      "diff abc1234": "diff --git a/a.ts b/a.ts",
+      "ls-files --others --exclude-standard": file,
+    });
+    mockExecFileSync.mockImplementation(() => {
+      throw Object.assign(new Error("exit 1"), { stdout: `diff --git a/${file} b/${file}\n` });
+    });
+
+    expect(gitUtils.diffSince("/repo", "abc1234")).toBe(`diff --git a/a.ts b/a.ts\ndiff --git a/${file} b/${file}`);
+    expect(mockExecFileSync).toHaveBeenCalledWith(
+      "git",
+      ["diff", "--no-index", "--", "/dev/null", file],
+      expect.objectContaining({ cwd: "/repo" }),
+    );
+    expect(mockExecSync.mock.calls.some(([cmd]) => String(cmd).includes(file))).toBe(false);
+  });
+});
+
+// ─── fetchBranchHead ─────────────────────────────────────────────────────────
+
+describe("fetchBranchHead", () => {
+  it("fetches without blocking and never waits for a credential prompt", async () => {
+    mockGitAsync((args) => (args[0] === "rev-parse" ? "abc1234\n" : ""));
+
+    await expect(gitUtils.fetchBranchHead("/repo", "origin", "main")).resolves.toBe("abc1234");
+    expect(mockExecFile).toHaveBeenCalledWith(
+      "git",
+      ["fetch", "--quiet", "origin", "main"],
+      expect.objectContaining({ cwd: "/repo", env: expect.objectContaining({ GIT_TERMINAL_PROMPT: "0" }) }),
+      expect.any(Function),
+    );
+    expect(mockExecFile).toHaveBeenLastCalledWith(
+      "git",
+      ["rev-parse", "--verify", "refs/remotes/origin/main"],
+      expect.objectContaining({ cwd: "/repo" }),
+      expect.any(Function),
+    );
+    expect(mockExecSync).not.toHaveBeenCalled();
+  });
+
+  it("returns null when the fetch fails", async () => {
+    mockGitAsync(() => {
+      throw new Error("could not read Username");
+    });
+    await expect(gitUtils.fetchBranchHead("/repo", "origin", "main")).resolves.toBeNull();
+  });
+});
+
+// ─── snapshotWorktree / diffSinceSnapshot ────────────────────────────────────
+
+describe("snapshotWorktree", () => {
+  it("writes the worktree as a tree through a throwaway copy of the index", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockGitAsync((args) => {
+      if (args[0] === "rev-parse") return ".git/index\n";
+      return args[0] === "write-tree" ? "tree-abc\n" : "";
+    });
+
+    await expect(gitUtils.snapshotWorktree("/repo")).resolves.toBe("tree-abc");
+
+    const [, tempIndex] = mockCopyFile.mock.calls[0] as unknown as [string, string];
+    expect(mockCopyFile).toHaveBeenCalledWith("/repo/.git/index", expect.stringMatching(/^\/fake\/tmp\/companion-index-/));
+    for (const [, args, opts] of mockExecFile.mock.calls.slice(1)) {
+      expect(args[0]).toMatch(/^(add|write-tree)$/);
+      expect(opts.env.GIT_INDEX_FILE).toBe(tempIndex);
+    }
+    expect(mockRm).toHaveBeenCalledWith(tempIndex, { force: true });
+    // Nothing here holds up the event loop
+    expect(mockExecSync).not.toHaveBeenCalled();
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  it("returns null outside a repository", async () => {
+    mockGitAsync(() => {
+      throw new Error("not a git repository");
+    });
+    await expect(gitUtils.snapshotWorktree("/not-a-repo")).resolves.toBeNull();
+    expect(mockExecFile).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("diffSinceSnapshot", () => {
+  it("diffs the starting snapshot against a fresh one", async () => {
+    const base = "a".repeat(40);
+    mockExistsSync.mockReturnValue(false);
+    mockGitAsync((args) => {
+      if (args[0] === "rev-parse") return ".git/index";
+      if (args[0] === "write-tree") return "b".repeat(40);
+      if (args[0] === "diff") return "diff --git a/x b/x";
+      return "";
+    });
+
+    await expect(gitUtils.diffSinceSnapshot("/repo", base)).resolves.toBe("diff --git a/x b/x");
+    expect(mockExecFile).toHaveBeenLastCalledWith(
+      "git",
+      ["diff", base, "b".repeat(40)],
+      expect.objectContaining({ cwd: "/repo" }),
+      expect.any(Function),
+    );
+  });
+
+  it("ignores anything that isn't an object id", async () => {
+    await expect(gitUtils.diffSinceSnapshot("/repo", "HEAD; rm -rf /")).resolves.toBe("");
+    expect(mockExecFile).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,12 @@
-import { execSync } from "node:child_process";
+import { execFile, execFileSync, execSync } from "node:child_process";
+import { randomUUID } from "node:crypto";
 import { existsSync, mkdirSync } from "node:fs";
-import { join, basename } from "node:path";
-import { homedir } from "node:os";
+import { copyFile, rm } from "node:fs/promises";
+import { join, basename, dirname, resolve } from "node:path";
+import { homedir, tmpdir } from "node:os";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -62,6 +67,30 @@ function git(cmd: string, cwd: string): string {
   }).trim();
 }
 
+/** Run git without a shell, for arguments that come from files or need their own env. */
+function gitArgs(args: string[], cwd: string, env?: NodeJS.ProcessEnv): string {
+  return execFileSync("git", args, {
+    cwd,
+    env,
+    encoding: "utf-8",
+    timeout: 30_000,
+    maxBuffer: 64 * 1024 * 1024,
+    stdio: ["pipe", "pipe", "pipe"],
+  }).trim();
+}
+
+/** gitArgs off the event loop, for work that may take a while (network, whole trees). */
+async function gitArgsAsync(args: string[], cwd: string, env?: NodeJS.ProcessEnv): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    env,
+    encoding: "utf-8",
+    timeout: 30_000,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout.trim();
+}
+
 function gitSafe(cmd: string, cwd: string): string | null {
   try {
     return git(cmd, cwd);
@@ -92,6 +121,14 @@ export function getRepoInfo(cwd: string): GitRepoInfo | null {
   };
 }
 
+/** Root of the main working tree, also when `cwd` is inside a linked worktree. */
+export function getMainRepoRoot(cwd: string): string | null {
+  const commonDir = gitSafe("rev-parse --path-format=absolute --git-common-dir", cwd);
+  if (!commonDir) return null;
+  // Bare repositories have no .git directory of their own
+  return basename(commonDir) === ".git" ? dirname(commonDir) : commonDir;
+}
+
 function resolveDefaultBranch(repoRoot: string): string {
   // Try origin HEAD
   const originRef = gitSafe("symbolic-ref refs/remotes/origin/HEAD", repoRoot);
@@ -419,3 +456,108 @@ export function getBranchStatus(
   const [behind, ahead] = raw.split(/\s+/).map(Number);
   return { ahead: ahead || 0, behind: behind || 0 };
 }
+
+/** Fetch one branch and return the commit it points to, or null when the fetch fails. */
+export async function fetchBranchHead(cwd: string, remote: string, branch: string): Promise<string | null> {
+  // Nobody is there to answer a credential prompt; fail instead of waiting.
+  const env = {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: "0",
+    GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND || "ssh -o BatchMode=yes",
+  };
+  try {
+    await gitArgsAsync(["fetch", "--quiet", remote, branch], cwd, env);
+    return await gitArgsAsync(["rev-parse", "--verify", `refs/remotes/${remote}/${branch}`], cwd);
+  } catch {
+    return null;
+  }
+}
+
+export function headCommit(cwd: string): string | null {
+  return gitSafe("rev-parse HEAD", cwd);
+}
+
+/** Stage and commit everything in the worktree. Returns false when there was nothing to commit. */
+export function commitAll(cwd: string, message: string): boolean {
+  if (!isWorktreeDirty(cwd)) return false;
+  git("add -A", cwd);
+  git(`commit -m '${message.replace(/'/g, "'\\''")}'`, cwd);
+  return true;
+}
+
+/** Merge a branch into the current checkout, aborting the merge if it fails. */
+export function mergeBranch(
+  repoRoot: string,
+  branchName: string,
+): { success: boolean; output: string } {
+  try {
+    const output = git(`merge --no-edit ${branchName}`, repoRoot);
+    return { success: true, output };
+  } catch (e: unknown) {
+    gitSafe("merge --abort", repoRoot);
+    return { success: false, output: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Everything that changed in a worktree since `baseCommit`: commits, uncommitted
+ * edits and untracked files, as one unified diff.
+ */
+export function diffSince(cwd: string, baseCommit: string): string {
+  if (!/^[0-9a-f]{7,40}$/i.test(baseCommit)) return "";
+  const parts: string[] = [];
+  const tracked = gitSafe(`diff ${baseCommit}`, cwd);
+  if (tracked) parts.push(tracked);
+  const untracked = gitSafe("ls-files --others --exclude-standard", cwd);
+  for (const file of untracked ? untracked.split("\n") : []) {
+    if (!file) continue;
+    try {
+      // File names come from the agent; pass them as arguments, never through a shell.
+      gitArgs(["diff", "--no-index", "--", "/dev/null", file], cwd);
+    } catch (e: unknown) {
+      // --no-index exits 1 when the files differ; the diff is on stdout.
+      const stdout = (e as { stdout?: string }).stdout;
+      if (stdout) parts.push(stdout.trim());
+    }
+  }
+  return parts.join("\n");
+}
+
+/**
+ * Record the worktree as a git tree: HEAD plus uncommitted edits and untracked
+ * files. A throwaway index is used, so the real index and files are untouched.
+ * Returns null outside a repository.
+ */
+export async function snapshotWorktree(cwd: string): Promise<string | null> {
+  let indexPath: string;
+  try {
+    indexPath = await gitArgsAsync(["rev-parse", "--git-path", "index"], cwd);
+  } catch {
+    return null;
+  }
+  const tempIndex = join(tmpdir(), `companion-index-${randomUUID()}`);
+  try {
+    // Starting from the real index lets git skip re-hashing unchanged files
+    const realIndex = resolve(cwd, indexPath);
+    if (existsSync(realIndex)) await copyFile(realIndex, tempIndex);
+    const env = { ...process.env, GIT_INDEX_FILE: tempIndex };
+    await gitArgsAsync(["add", "-A"], cwd, env);
+    return await gitArgsAsync(["write-tree"], cwd, env);
+  } catch {
+    return null;
+  } finally {
+    await rm(tempIndex, { force: true });
+  }
+}
+
+/** What changed in the worktree since `baseTree` was taken with snapshotWorktree, as one unified diff. */
+export async function diffSinceSnapshot(cwd: string, baseTree: string): Promise<string> {
+  if (!/^[0-9a-f]{40,64}$/i.test(baseTree)) return "";
+  const current = await snapshotWorktree(cwd);
+  if (!current) return "";
+  try {
+    return await gitArgsAsync(["diff", baseTree, current], cwd);
+  } catch {
+    return "";
+  }
+}
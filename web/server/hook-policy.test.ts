@@ -0,0 +1,141 @@
+import {
+  buildHookRegistration,
+  evaluateHookCallback,
+  toHookCallbackResponse,
+} from "./hook-policy.js";
+import type { HookRule } from "./hook-rules.js";
+
+function rule(overrides: Partial<HookRule>): HookRule {
+  return {
+    id: overrides.name ?? "rule",
+    name: "rule",
+    enabled: true,
+    event: "PreToolUse",
+    decision: "deny",
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+const blockRm = rule({ id: "rm", name: "Block rm", toolPattern: "Bash", inputPattern: "rm\\s+-rf", reason: "No rm -rf" });
+const askOutside = rule({
+  id: "outside",
+  name: "Ask outside",
+  toolPattern: "Write|Edit",
+  outsideCwd: true,
+  decision: "ask",
+});
+
+describe("buildHookRegistration", () => {
+  it("registers one catch-all callback per event", () => {
+    expect(buildHookRegistration()).toEqual({
+      PreToolUse: [{ hookCallbackIds: ["companion:PreToolUse"] }],
+      PostToolUse: [{ hookCallbackIds: ["companion:PostToolUse"] }],
+      Stop: [{ hookCallbackIds: ["companion:Stop"] }],
+    });
+  });
+});
+
+describe("evaluateHookCallback", () => {
+  it("matches Bash commands against the input pattern", () => {
+    const result = evaluateHookCallback([blockRm], "companion:PreToolUse", {
+      hook_event_name: "PreToolUse",
+      tool_name: "Bash",
+      tool_input: { command: "rm -rf /tmp/x" },
+    }, "/repo");
+    expect(result!.rule?.id).toBe("rm");
+    expect(result!.subject).toBe("rm -rf /tmp/x");
+
+    const safe = evaluateHookCallback([blockRm], "companion:PreToolUse", {
+      hook_event_name: "PreToolUse",
+      tool_name: "Bash",
+      tool_input: { command: "ls -la" },
+    }, "/repo");
+    expect(safe!.rule).toBeNull();
+  });
+
+  it("matches tool patterns against the whole tool name", () => {
+    const result = evaluateHookCallback([rule({ toolPattern: "Bash" })], "companion:PreToolUse", {
+      tool_name: "BashOutput",
+      tool_input: {},
+    }, "/repo");
+    expect(result!.rule).toBeNull();
+  });
+
+  it("only fires outside-cwd rules for paths outside the working directory", () => {
+    const input = (file_path: string) => ({
+      hook_event_name: "PreToolUse",
+      cwd: "/repo",
+      tool_name: "Write",
+      tool_input: { file_path },
+    });
+    expect(evaluateHookCallback([askOutside], "companion:PreToolUse", input("/repo/src/a.ts"), "/fallback")!.rule).toBeNull();
+    expect(evaluateHookCallback([askOutside], "companion:PreToolUse", input("src/a.ts"), "/fallback")!.rule).toBeNull();
+    expect(evaluateHookCallback([askOutside], "companion:PreToolUse", input("/etc/hosts"), "/fallback")!.rule?.id).toBe("outside");
+    expect(evaluateHookCallback([askOutside], "companion:PreToolUse", input("../other/a.ts"), "/fallback")!.rule?.id).toBe("outside");
+  });
+
+  it("prefers deny over ask over allow", () => {
+    const rules = [
+      rule({ id: "allow", decision: "allow" }),
+      rule({ id: "deny", decision: "deny" }),
+      rule({ id: "ask", decision: "ask" }),
+    ];
+    const result = evaluateHookCallback(rules, "companion:PreToolUse", { tool_name: "Read", tool_input: {} }, "/repo");
+    expect(result!.rule?.id).toBe("deny");
+  });
+
+  it("ignores disabled rules and rules for other events", () => {
+    const rules = [rule({ enabled: false }), rule({ event: "PostToolUse" })];
+    const result = evaluateHookCallback(rules, "companion:PreToolUse", { tool_name: "Read", tool_input: {} }, "/repo");
+    expect(result!.rule).toBeNull();
+  });
+
+  it("falls back to the callback id for the event name", () => {
+    const result = evaluateHookCallback([rule({ event: "Stop" })], "companion:Stop", {}, "/repo");
+    expect(result!.event).toBe("Stop");
+    expect(result!.rule).not.toBeNull();
+  });
+
+  it("lets Claude stop once a Stop hook has already kept it going", () => {
+    const keepGoing = rule({ id: "stop", event: "Stop" });
+    const first = evaluateHookCallback([keepGoing], "companion:Stop", { hook_event_name: "Stop" }, "/repo");
+    expect(first!.rule?.id).toBe("stop");
+    const second = evaluateHookCallback([keepGoing], "companion:Stop", {
+      hook_event_name: "Stop",
+      stop_hook_active: true,
+    }, "/repo");
+    expect(second!.rule).toBeNull();
+    expect(toHookCallbackResponse(second)).toEqual({});
+  });
+
+  it("returns null for unknown events", () => {
+    expect(evaluateHookCallback([blockRm], "other", { hook_event_name: "SessionStart" }, "/repo")).toBeNull();
+  });
+});
+
+describe("toHookCallbackResponse", () => {
+  it("returns a permission decision for PreToolUse", () => {
+    expect(toHookCallbackResponse({ event: "PreToolUse", rule: blockRm })).toEqual({
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: "No rm -rf",
+      },
+    });
+  });
+
+  it("blocks PostToolUse and Stop with the rule reason", () => {
+    const stopRule = rule({ name: "Keep going", event: "Stop" });
+    expect(toHookCallbackResponse({ event: "Stop", rule: stopRule })).toEqual({
+      decision: "block",
+      reason: 'Companion hook rule "Keep going"',
+    });
+  });
+
+  it("returns an empty response when no rule matched", () => {
+    expect(toHookCallbackResponse(null)).toEqual({});
+    expect(toHookCallbackResponse({ event: "PreToolUse", rule: null })).toEqual({});
+  });
+});
@@ -0,0 +1,146 @@
+import { isAbsolute, relative, resolve } from "node:path";
+import { HOOK_EVENTS, type HookAuditEntry, type HookEvent, type HookRule, type HookRuleDecision } from "./hook-rules.js";
+
+/** Source of rules plus an audit sink; lets the bridge stay independent of the on-disk store. */
+export interface HookPolicy {
+  listRules(): HookRule[];
+  recordDecision(entry: HookAuditEntry): void;
+}
+
+/** Input the CLI sends with a `hook_callback` control request (protocol §7.13). */
+export interface HookCallbackInput {
+  hook_event_name?: string;
+  cwd?: string;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
+  tool_use_id?: string;
+  stop_hook_active?: boolean;
+}
+
+export interface HookEvaluation {
+  event: HookEvent;
+  toolName?: string;
+  subject?: string;
+  /** null when no enabled rule matched; the CLI proceeds as if the hook was not there. */
+  rule: HookRule | null;
+}
+
+export const HOOK_CALLBACK_PREFIX = "companion:";
+
+const PATH_INPUT_KEYS = ["file_path", "notebook_path", "path"] as const;
+const DECISION_WEIGHT: Record<HookRuleDecision, number> = { allow: 0, ask: 1, deny: 2 };
+
+function toolPath(input: Record<string, unknown> | undefined): string | undefined {
+  if (!input) return undefined;
+  for (const key of PATH_INPUT_KEYS) {
+    if (typeof input[key] === "string" && input[key]) return input[key] as string;
+  }
+  return undefined;
+}
+
+function toolSubject(toolName: string | undefined, input: Record<string, unknown> | undefined): string | undefined {
+  if (!input) return undefined;
+  if (toolName === "Bash" && typeof input.command === "string") return input.command;
+  return toolPath(input) ?? JSON.stringify(input);
+}
+
+function fullMatch(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(value);
+  } catch {
+    return false;
+  }
+}
+
+function partialMatch(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return false;
+  }
+}
+
+function isOutside(path: string, cwd: string): boolean {
+  const rel = relative(cwd, resolve(cwd, path));
+  return rel.startsWith("..") || isAbsolute(rel);
+}
+
+function ruleMatches(rule: HookRule, input: HookCallbackInput, fallbackCwd: string): boolean {
+  // The CLI sets stop_hook_active when Claude is already continuing because of
+  // a Stop hook; blocking again would keep the session running forever.
+  if (rule.event === "Stop") return !input.stop_hook_active;
+  const toolName = input.tool_name ?? "";
+  if (rule.toolPattern && !fullMatch(rule.toolPattern, toolName)) return false;
+  if (rule.inputPattern) {
+    const subject = toolSubject(toolName, input.tool_input);
+    if (subject === undefined || !partialMatch(rule.inputPattern, subject)) return false;
+  }
+  if (rule.outsideCwd) {
+    const path = toolPath(input.tool_input);
+    const cwd = input.cwd || fallbackCwd;
+    if (!path || !cwd || !isOutside(path, cwd)) return false;
+  }
+  return true;
+}
+
+/**
+ * Hooks to register in the `initialize` control request. One catch-all
+ * callback per event, registered even without rules; matching happens
+ * in-process so rule edits apply without reconnecting the CLI, and an event
+ * with no enabled rules answers with an empty response.
+ */
+export function buildHookRegistration(): Record<HookEvent, { hookCallbackIds: string[] }[]> {
+  const hooks = {} as Record<HookEvent, { hookCallbackIds: string[] }[]>;
+  for (const event of HOOK_EVENTS) {
+    hooks[event] = [{ hookCallbackIds: [`${HOOK_CALLBACK_PREFIX}${event}`] }];
+  }
+  return hooks;
+}
+
+/** Pick the most restrictive enabled rule (deny > ask > allow) that matches the callback. */
+export function evaluateHookCallback(
+  rules: HookRule[],
+  callbackId: string,
+  input: HookCallbackInput,
+  fallbackCwd: string,
+): HookEvaluation | null {
+  const eventName = input.hook_event_name
+    ?? (callbackId.startsWith(HOOK_CALLBACK_PREFIX) ? callbackId.slice(HOOK_CALLBACK_PREFIX.length) : "");
+  const event = HOOK_EVENTS.find((e) => e === eventName);
+  if (!event) return null;
+
+  let winner: HookRule | null = null;
+  for (const rule of rules) {
+    if (!rule.enabled || rule.event !== event) continue;
+    if (!ruleMatches(rule, input, fallbackCwd)) continue;
+    if (!winner || DECISION_WEIGHT[rule.decision] > DECISION_WEIGHT[winner.decision]) {
+      winner = rule;
+    }
+  }
+
+  return {
+    event,
+    toolName: input.tool_name,
+    subject: event === "Stop" ? undefined : toolSubject(input.tool_name, input.tool_input)?.slice(0, 500),
+    rule: winner,
+  };
+}
+
+/** Sync `hook_callback` response body for an evaluation. */
+export function toHookCallbackResponse(evaluation: HookEvaluation | null): Record<string, unknown> {
+  const rule = evaluation?.rule;
+  if (!evaluation || !rule) return {};
+  const reason = rule.reason || `Companion hook rule "${rule.name}"`;
+
+  if (evaluation.event === "PreToolUse") {
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: rule.decision,
+        permissionDecisionReason: reason,
+      },
+    };
+  }
+  // PostToolUse: feeds the reason back to Claude. Stop: keeps Claude working.
+  return rule.decision === "deny" ? { decision: "block", reason } : {};
+}
@@ -0,0 +1,150 @@
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+let tempDir: string;
+let hookRules: typeof import("./hook-rules.js");
+
+const mockHomedir = vi.hoisted(() => {
+  let dir = "";
+  return {
+    get: () => dir,
+    set: (d: string) => {
+      dir = d;
+    },
+  };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return {
+    ...actual,
+    homedir: () => mockHomedir.get(),
+  };
+});
+
+beforeEach(async () => {
+  tempDir = mkdtempSync(join(tmpdir(), "hook-rules-test-"));
+  mockHomedir.set(tempDir);
+  vi.resetModules();
+  hookRules = await import("./hook-rules.js");
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("createHookRule", () => {
+  it("persists a rule to hooks.json with trimmed fields", () => {
+    const rule = hookRules.createHookRule({
+      name: "  Block rm  ",
+      event: "PreToolUse",
+      toolPattern: " Bash ",
+      inputPattern: "rm\\s+-rf",
+      decision: "deny",
+      reason: "  no  ",
+    });
+    expect(rule.name).toBe("Block rm");
+    expect(rule.toolPattern).toBe("Bash");
+    expect(rule.enabled).toBe(true);
+    expect(rule.reason).toBe("no");
+
+    const saved = JSON.parse(readFileSync(join(tempDir, ".companion", "hooks.json"), "utf-8"));
+    expect(saved).toHaveLength(1);
+    expect(saved[0].id).toBe(rule.id);
+  });
+
+  it("rejects invalid regular expressions", () => {
+    expect(() => hookRules.createHookRule({
+      name: "Broken",
+      event: "PreToolUse",
+      inputPattern: "(unclosed",
+      decision: "deny",
+    })).toThrow("Input pattern is not a valid regular expression");
+  });
+
+  it("only allows blocking on PostToolUse and Stop", () => {
+    expect(() => hookRules.createHookRule({ name: "Allow stop", event: "Stop", decision: "allow" }))
+      .toThrow("Stop rules can only block");
+    expect(hookRules.createHookRule({ name: "Keep going", event: "Stop", decision: "deny" }).event).toBe("Stop");
+  });
+
+  it("requires a name, a known event and a known decision", () => {
+    expect(() => hookRules.createHookRule({ event: "PreToolUse", decision: "deny" })).toThrow("Rule name is required");
+    expect(() => hookRules.createHookRule({ name: "x", event: "Nope" as never, decision: "deny" })).toThrow("Invalid hook event");
+    expect(() => hookRules.createHookRule({ name: "x", event: "PreToolUse", decision: "maybe" as never })).toThrow("Invalid decision");
+  });
+});
+
+describe("updateHookRule and deleteHookRule", () => {
+  it("updates fields and clears optional patterns with empty strings", () => {
+    const rule = hookRules.createHookRule({ name: "Rule", event: "PreToolUse", toolPattern: "Bash", decision: "ask" });
+    const updated = hookRules.updateHookRule(rule.id, { enabled: false, toolPattern: "", decision: "deny" });
+    expect(updated!.enabled).toBe(false);
+    expect(updated!.toolPattern).toBeUndefined();
+    expect(updated!.decision).toBe("deny");
+    expect(hookRules.getHookRule(rule.id)!.enabled).toBe(false);
+  });
+
+  it("validates the resulting event/decision combination", () => {
+    const rule = hookRules.createHookRule({ name: "Rule", event: "PreToolUse", decision: "allow" });
+    expect(() => hookRules.updateHookRule(rule.id, { event: "PostToolUse" })).toThrow("PostToolUse rules can only block");
+  });
+
+  it("returns null/false for unknown rules", () => {
+    expect(hookRules.updateHookRule("missing", { name: "x" })).toBeNull();
+    expect(hookRules.deleteHookRule("missing")).toBe(false);
+  });
+
+  it("deletes a rule", () => {
+    const rule = hookRules.createHookRule({ name: "Rule", event: "PreToolUse", decision: "deny" });
+    expect(hookRules.deleteHookRule(rule.id)).toBe(true);
+    expect(hookRules.listHookRules()).toEqual([]);
+  });
+});
+
+describe("listHookRules", () => {
+  it("skips malformed entries in hooks.json", () => {
+    mkdirSync(join(tempDir, ".companion"), { recursive: true });
+    writeFileSync(join(tempDir, ".companion", "hooks.json"), JSON.stringify([
+      { id: "ok", name: "Ok", event: "PreToolUse", decision: "deny" },
+      { id: "bad", name: "Bad", event: "Whenever", decision: "deny" },
+      "nope",
+    ]));
+    const rules = hookRules.listHookRules();
+    expect(rules.map((r) => r.id)).toEqual(["ok"]);
+    expect(rules[0].enabled).toBe(true);
+  });
+});
+
+describe("hook audit log", () => {
+  const entry = (i: number) => ({
+    timestamp: i,
+    sessionId: "s1",
+    event: "PreToolUse" as const,
+    toolName: "Bash",
+    decision: "deny" as const,
+    ruleId: "r1",
+    ruleName: "Rule",
+  });
+
+  it("returns the most recent decisions first", () => {
+    hookRules.appendHookAudit(entry(1));
+    hookRules.appendHookAudit(entry(2));
+    hookRules.appendHookAudit(entry(3));
+    expect(hookRules.listHookAudit(2).map((e) => e.timestamp)).toEqual([3, 2]);
+  });
+
+  it("trims the log once it grows past the cap", () => {
+    for (let i = 0; i < 2001; i++) hookRules.appendHookAudit(entry(i));
+    const all = hookRules.listHookAudit(5000);
+    expect(all).toHaveLength(1000);
+    expect(all[0].timestamp).toBe(2000);
+  });
+
+  it("clears the log", () => {
+    hookRules.appendHookAudit(entry(1));
+    hookRules.clearHookAudit();
+    expect(hookRules.listHookAudit()).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+
+export type HookEvent = "PreToolUse" | "PostToolUse" | "Stop";
+export type HookRuleDecision = "allow" | "deny" | "ask";
+
+export const HOOK_EVENTS: readonly HookEvent[] = ["PreToolUse", "PostToolUse", "Stop"];
+
+export interface HookRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  event: HookEvent;
+  /** Regex matched against the full tool name (e.g. "Bash", "Write|Edit"). Empty matches every tool. */
+  toolPattern?: string;
+  /** Regex matched against the tool's main input: the Bash command, the file path, or the JSON input. */
+  inputPattern?: string;
+  /** Only match when the tool's file path resolves outside the session's working directory. */
+  outsideCwd?: boolean;
+  decision: HookRuleDecision;
+  /** Shown to Claude (and in the audit log) when the rule fires. */
+  reason?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface HookRuleInput {
+  name?: string;
+  enabled?: boolean;
+  event?: HookEvent;
+  toolPattern?: string;
+  inputPattern?: string;
+  outsideCwd?: boolean;
+  decision?: HookRuleDecision;
+  reason?: string;
+}
+
+export interface HookAuditEntry {
+  timestamp: number;
+  sessionId: string;
+  event: HookEvent;
+  toolName?: string;
+  /** Short description of what was evaluated (command, path, ...). */
+  subject?: string;
+  decision: HookRuleDecision;
+  ruleId: string;
+  ruleName: string;
+  reason?: string;
+}
+
+const COMPANION_DIR = join(homedir(), ".companion");
+const HOOKS_FILE = join(COMPANION_DIR, "hooks.json");
+const AUDIT_FILE = join(COMPANION_DIR, "hooks-audit.jsonl");
+/** The audit log is trimmed back to AUDIT_KEEP entries once it grows past AUDIT_MAX. */
+const AUDIT_MAX = 2000;
+const AUDIT_KEEP = 1000;
+
+function ensureDir(): void {
+  mkdirSync(COMPANION_DIR, { recursive: true });
+}
+
+function isHookEvent(value: unknown): value is HookEvent {
+  return typeof value === "string" && (HOOK_EVENTS as readonly string[]).includes(value);
+}
+
+function isDecision(value: unknown): value is HookRuleDecision {
+  return value === "allow" || value === "deny" || value === "ask";
+}
+
+function loadRules(): HookRule[] {
+  ensureDir();
+  if (!existsSync(HOOKS_FILE)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(HOOKS_FILE, "utf-8")) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((r): r is HookRule => {
+        if (!r || typeof r !== "object") return false;
+        const candidate = r as Partial<HookRule>;
+        return (
+          typeof candidate.id === "string"
+          && typeof candidate.name === "string"
+          && isHookEvent(candidate.event)
+          && isDecision(candidate.decision)
+        );
+      })
+      .map((r) => ({ ...r, enabled: r.enabled !== false }));
+  } catch {
+    return [];
+  }
+}
+
+function saveRules(rules: HookRule[]): void {
+  ensureDir();
+  writeFileSync(HOOKS_FILE, JSON.stringify(rules, null, 2), "utf-8");
+}
+
+function cleanPattern(value: string | undefined, label: string): string | undefined {
+  const pattern = value?.trim();
+  if (!pattern) return undefined;
+  try {
+    new RegExp(pattern);
+  } catch {
+    throw new Error(`${label} is not a valid regular expression`);
+  }
+  return pattern;
+}
+
+function validateDecision(event: HookEvent, decision: HookRuleDecision): void {
+  // PostToolUse and Stop hooks can only push back on Claude; there is nothing to allow or ask.
+  if (event !== "PreToolUse" && decision !== "deny") {
+    throw new Error(`${event} rules can only block`);
+  }
+}
+
+export function listHookRules(): HookRule[] {
+  return loadRules();
+}
+
+export function getHookRule(id: string): HookRule | null {
+  return loadRules().find((r) => r.id === id) ?? null;
+}
+
+export function createHookRule(input: HookRuleInput): HookRule {
+  const name = input.name?.trim();
+  if (!name) throw new Error("Rule name is required");
+  if (!isHookEvent(input.event)) throw new Error("Invalid hook event");
+  if (!isDecision(input.decision)) throw new Error("Invalid decision");
+  validateDecision(input.event, input.decision);
+
+  const now = Date.now();
+  const rule: HookRule = {
+    id: crypto.randomUUID(),
+    name,
+    enabled: input.enabled !== false,
+    event: input.event,
+    toolPattern: cleanPattern(input.toolPattern, "Tool pattern"),
+    inputPattern: cleanPattern(input.inputPattern, "Input pattern"),
+    outsideCwd: input.outsideCwd === true || undefined,
+    decision: input.decision,
+    reason: input.reason?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const rules = loadRules();
+  rules.push(rule);
+  saveRules(rules);
+  return rule;
+}
+
+export function updateHookRule(id: string, updates: HookRuleInput): HookRule | null {
+  const rules = loadRules();
+  const index = rules.findIndex((r) => r.id === id);
+  if (index < 0) return null;
+  const existing = rules[index];
+
+  if (updates.name !== undefined && !updates.name.trim()) throw new Error("Rule name cannot be empty");
+  if (updates.event !== undefined && !isHookEvent(updates.event)) throw new Error("Invalid hook event");
+  if (updates.decision !== undefined && !isDecision(updates.decision)) throw new Error("Invalid decision");
+
+  const updated: HookRule = {
+    ...existing,
+    name: updates.name !== undefined ? updates.name.trim() : existing.name,
+    enabled: updates.enabled !== undefined ? updates.enabled : existing.enabled,
+    event: updates.event ?? existing.event,
+    toolPattern: updates.toolPattern !== undefined
+      ? cleanPattern(updates.toolPattern, "Tool pattern")
+      : existing.toolPattern,
+    inputPattern: updates.inputPattern !== undefined
+      ? cleanPattern(updates.inputPattern, "Input pattern")
+      : existing.inputPattern,
+    outsideCwd: updates.outsideCwd !== undefined ? updates.outsideCwd || undefined : existing.outsideCwd,
+    decision: updates.decision ?? existing.decision,
+    reason: updates.reason !== undefined ? updates.reason.trim() || undefined : existing.reason,
+    updatedAt: Date.now(),
+  };
+  validateDecision(updated.event, updated.decision);
+  rules[index] = updated;
+  saveRules(rules);
+  return updated;
+}
+
+export function deleteHookRule(id: string): boolean {
+  const rules = loadRules();
+  const next = rules.filter((r) => r.id !== id);
+  if (next.length === rules.length) return false;
+  saveRules(next);
+  return true;
+}
+
+// ─── Audit log ──────────────────────────────────────────────────────────────
+
+function readAudit(): HookAuditEntry[] {
+  if (!existsSync(AUDIT_FILE)) return [];
+  const entries: HookAuditEntry[] = [];
+  for (const line of readFileSync(AUDIT_FILE, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HookAuditEntry);
+    } catch {
+      // Skip partial lines
+    }
+  }
+  return entries;
+}
+
+/** Entries currently in the audit file; counted lazily so appends don't re-read it. */
+let auditCount: number | null = null;
+
+export function appendHookAudit(entry: HookAuditEntry): void {
+  try {
+    ensureDir();
+    if (auditCount === null) auditCount = readAudit().length;
+    appendFileSync(AUDIT_FILE, JSON.stringify(entry) + "\n", "utf-8");
+    auditCount++;
+    if (auditCount > AUDIT_MAX) {
+      const kept = readAudit().slice(-AUDIT_KEEP);
+      writeFileSync(AUDIT_FILE, kept.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf-8");
+      auditCount = kept.length;
+    }
+  } catch (err) {
+    console.warn("[hook-rules] Failed to write audit entry:", err);
+  }
+}
+
+/** Most recent decisions first. */
+export function listHookAudit(limit = 200): HookAuditEntry[] {
+  return readAudit().slice(-Math.max(1, limit)).reverse();
+}
+
+export function clearHookAudit(): void {
+  ensureDir();
+  writeFileSync(AUDIT_FILE, "", "utf-8");
+  auditCount = 0;
+}
@@ -15,6 +15,9 @@ import { createRoutes } from "./routes.js";
 import { CliLauncher } from "./cli-launcher.js";
 import { WsBridge } from "./ws-bridge.js";
 import { SessionStore } from "./session-store.js";
+import { retentionFromEnv, startRetentionSweeper } from "./session-retention.js";
+import { concurrencyLimitsFromSettings, startIdleSuspender } from "./concurrency-governor.js";
+import { startSessionWatchdog, watchdogPolicyFromSettings } from "./session-watchdog.js";
 import { WorktreeTracker } from "./worktree-tracker.js";
 import { containerManager } from "./container-manager.js";
 import { join } from "node:path";
@@ -26,6 +29,15 @@ import { getSettings } from "./settings-manager.js";
 import { PRPoller } from "./pr-poller.js";
 import { RecorderManager } from "./recorder.js";
 import { CronScheduler } from "./cron-scheduler.js";
+import { AssistantManager } from "./assistant-manager.js";
+import { appendHookAudit, listHookRules } from "./hook-rules.js";
+import { listAutoApprovalRules } from "./auto-approval.js";
+import { NotificationDispatcher } from "./notification-dispatcher.js";
+import { createCostBudgetPolicy } from "./cost-budgets.js";
+import { createUsageRecorder } from "./usage-ledger.js";
+import { SearchIndex } from "./search-index.js";
+import { getJob as getCronJob } from "./cron-store.js";
+import { extractRequestToken, getAuthFilePath, getAuthToken, verifyAuthToken, verifyLaunchToken } from "./auth-manager.js";
 
 import { startPeriodicCheck, setServiceMode } from "./update-checker.js";
 import { imagePullManager } from "./image-pull-manager.js";
@@ -50,15 +62,36 @@ const terminalManager = new TerminalManager();
 const prPoller = new PRPoller(wsBridge);
 const recorder = new RecorderManager();
 const cronScheduler = new CronScheduler(launcher, wsBridge);
+const assistantManager = new AssistantManager(launcher);
 
 // ── Restore persisted sessions from disk ────────────────────────────────────
 wsBridge.setStore(sessionStore);
 wsBridge.setRecorder(recorder);
+wsBridge.setHookPolicy({ listRules: listHookRules, recordDecision: appendHookAudit });
+wsBridge.setAutoApprovalRules(listAutoApprovalRules);
+const notificationDispatcher = new NotificationDispatcher();
+wsBridge.setNotifier(notificationDispatcher);
+cronScheduler.setNotifier(notificationDispatcher);
+wsBridge.setCostBudgets(createCostBudgetPolicy((sessionId) => {
+  const jobId = launcher.getSession(sessionId)?.cronJobId;
+  return jobId ? getCronJob(jobId) : null;
+}));
+wsBridge.setUsageRecorder(createUsageRecorder((sessionId) => {
+  const info = launcher.getSession(sessionId);
+  return info ? { cronJobId: info.cronJobId, cronJobName: info.cronJobName } : null;
+}));
+const searchIndex = new SearchIndex(() => wsBridge.getSearchSources());
+wsBridge.setSearchIndex(searchIndex);
 launcher.setStore(sessionStore);
 launcher.setRecorder(recorder);
+launcher.setConcurrencyLimits(() => concurrencyLimitsFromSettings(getSettings()));
 launcher.restoreFromDisk();
 wsBridge.restoreFromDisk();
 containerManager.restoreState(CONTAINER_STATE_PATH);
+const retention = retentionFromEnv();
+startRetentionSweeper({ store: sessionStore, launcher, bridge: wsBridge }, retention);
+startIdleSuspender({ launcher, bridge: wsBridge }, () => getSettings().idleSuspendMinutes);
+startSessionWatchdog({ launcher, bridge: wsBridge }, () => watchdogPolicyFromSettings(getSettings()));
 
 // When the CLI reports its internal session_id, store it for --resume on relaunch
 wsBridge.onCLISessionIdReceived((sessionId, cliSessionId) => {
@@ -75,6 +108,11 @@ wsBridge.onSessionGitInfoReadyCallback((sessionId, cwd, branch) => {
   prPoller.watch(sessionId, cwd, branch);
 });
 
+// Chained cron jobs start when the job they follow finishes a run
+wsBridge.onTurnCompletedCallback((sessionId, result) => {
+  cronScheduler.handleTurnCompleted(sessionId, result);
+});
+
 // Auto-relaunch CLI when a browser connects to a session with no CLI
 const relaunchingSet = new Set<string>();
 wsBridge.onCLIRelaunchNeededCallback(async (sessionId) => {
@@ -85,6 +123,14 @@ wsBridge.onCLIRelaunchNeededCallback(async (sessionId) => {
     relaunchingSet.add(sessionId);
     console.log(`[server] Auto-relaunching CLI for session ${sessionId}`);
     try {
+      if (assistantManager.isAssistantSession(sessionId)) {
+        // Goes through the manager so assistant config changes are applied
+        await assistantManager.launch().catch((err: unknown) => {
+          const message = err instanceof Error ? err.message : String(err);
+          wsBridge.broadcastToSession(sessionId, { type: "error", message });
+        });
+        return;
+      }
       const result = await launcher.relaunch(sessionId);
       if (!result.ok && result.error) {
         wsBridge.broadcastToSession(sessionId, { type: "error", message: result.error });
@@ -113,6 +159,9 @@ wsBridge.onFirstTurnCompletedCallback(async (sessionId, firstUserMessage) => {
 });
 
 console.log(`[server] Session persistence: ${sessionStore.directory}`);
+if (retention.archiveAfterDays || retention.purgeAfterDays) {
+  console.log(`[server] Session retention: archive after ${retention.archiveAfterDays || "never"} day(s), purge archived after ${retention.purgeAfterDays || "never"} day(s)`);
+}
 if (recorder.isGloballyEnabled()) {
   console.log(`[server] Recording enabled (dir: ${recorder.getRecordingsDir()}, max: ${recorder.getMaxLines()} lines)`);
 }
@@ -120,7 +169,7 @@ if (recorder.isGloballyEnabled()) {
 const app = new Hono();
 
 app.use("/api/*", cors());
-app.route("/api", createRoutes(launcher, wsBridge, sessionStore, worktreeTracker, terminalManager, prPoller, recorder, cronScheduler));
+app.route("/api", createRoutes(launcher, wsBridge, sessionStore, worktreeTracker, terminalManager, prPoller, recorder, cronScheduler, assistantManager, notificationDispatcher, searchIndex));
 
 // In production, serve built frontend using absolute path (works when installed as npm package)
 if (process.env.NODE_ENV === "production") {
@@ -139,6 +188,10 @@ const server = Bun.serve<SocketData>({
     const cliMatch = url.pathname.match(/^\/ws\/cli\/([a-f0-9-]+)$/);
     if (cliMatch) {
       const sessionId = cliMatch[1];
+      // Only the CLI we spawned knows this session's launch token
+      if (!verifyLaunchToken(sessionId, url.searchParams.get("token"))) {
+        return new Response("Unauthorized", { status: 401 });
+      }
       const upgraded = server.upgrade(req, {
         data: { kind: "cli" as const, sessionId },
       });
@@ -150,6 +203,9 @@ const server = Bun.serve<SocketData>({
     const browserMatch = url.pathname.match(/^\/ws\/browser\/([a-f0-9-]+)$/);
     if (browserMatch) {
       const sessionId = browserMatch[1];
+      if (!verifyAuthToken(extractRequestToken(req))) {
+        return new Response("Unauthorized", { status: 401 });
+      }
       const upgraded = server.upgrade(req, {
         data: { kind: "browser" as const, sessionId },
       });
@@ -161,6 +217,9 @@ const server = Bun.serve<SocketData>({
     const termMatch = url.pathname.match(/^\/ws\/terminal\/([a-f0-9-]+)$/);
     if (termMatch) {
       const terminalId = termMatch[1];
+      if (!verifyAuthToken(extractRequestToken(req))) {
+        return new Response("Unauthorized", { status: 401 });
+      }
       const upgraded = server.upgrade(req, {
         data: { kind: "terminal" as const, terminalId },
       });
@@ -209,6 +268,14 @@ const server = Bun.serve<SocketData>({
 console.log(`Server running on http://localhost:${server.port}`);
 console.log(`  CLI WebSocket:     ws://localhost:${server.port}/ws/cli/:sessionId`);
 console.log(`  Browser WebSocket: ws://localhost:${server.port}/ws/browser/:sessionId`);
+console.log(`  Auth token:        ${process.env.COMPANION_AUTH_TOKEN ? "$COMPANION_AUTH_TOKEN" : getAuthFilePath()}`);
+// Only hand out the token-bearing URL on an interactive terminal; service
+// logs (launchd, systemd, docker) are often readable by more than the owner.
+if (process.stdout.isTTY) {
+  console.log(`  Login URL:         http://localhost:${server.port}/?token=${getAuthToken()}`);
+} else {
+  console.log(`  Login URL:         http://localhost:${server.port}/ (sign in with the auth token)`);
+}
 
 if (process.env.NODE_ENV !== "production") {
   console.log("Dev mode: frontend at http://localhost:5174");
@@ -217,6 +284,9 @@ if (process.env.NODE_ENV !== "production") {
 // ── Cron scheduler ──────────────────────────────────────────────────────────
 cronScheduler.startAll();
 
+// ── Assistant — auto-launch the long-lived assistant session if enabled ─────
+assistantManager.startup();
+
 // ── Image pull manager — pre-pull missing Docker images for environments ────
 imagePullManager.initFromEnvironments();
 
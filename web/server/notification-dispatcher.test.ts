@@ -0,0 +1,150 @@
+import { NotificationDispatcher, type NotificationDispatcherDeps } from "./notification-dispatcher.js";
+import type { NotificationConfig } from "./notification-store.js";
+
+function makeConfig(overrides: Partial<NotificationConfig> = {}): NotificationConfig {
+  return {
+    vapid: { publicKey: "pub", privateKey: "priv" },
+    subscriptions: [
+      { id: "sub-1", endpoint: "https://push.example.com/1", keys: { p256dh: "a", auth: "b" }, createdAt: 0 },
+    ],
+    webhookUrl: "",
+    baseUrl: "",
+    events: { permission_request: true, result: true, stuck: true, cron_disabled: true },
+    mutedSessions: [],
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+function makeDispatcher(config: NotificationConfig, overrides: Partial<NotificationDispatcherDeps> = {}) {
+  const deps = {
+    store: {
+      getNotificationConfig: vi.fn(() => config),
+      getVapidKeys: vi.fn(() => config.vapid!),
+      isSessionMuted: vi.fn((id: string) => config.mutedSessions.includes(id)),
+      removePushSubscription: vi.fn(() => true),
+    },
+    getSessionName: vi.fn(() => "Fix login"),
+    sendPush: vi.fn(async () => ({ status: 201, gone: false })),
+    fetch: vi.fn(async () => new Response("ok")) as unknown as typeof fetch,
+    actionPath: vi.fn((requestId: string, behavior: string, via: string) => `/api/permissions/${requestId}/${behavior}?via=${via}&sig=x`),
+    ...overrides,
+  };
+  return { dispatcher: new NotificationDispatcher(deps), deps };
+}
+
+const permission = {
+  request_id: "req-1",
+  tool_name: "Bash",
+  input: { command: "npm publish" },
+  tool_use_id: "tu-1",
+  timestamp: 0,
+};
+
+describe("NotificationDispatcher", () => {
+  it("pushes permission requests with a deep link to the session", async () => {
+    const { dispatcher, deps } = makeDispatcher(makeConfig());
+    const result = await dispatcher.dispatch({
+      kind: "permission_request",
+      sessionId: "s1",
+      title: "t",
+      body: "b",
+      path: "/#/session/s1",
+      tag: "permission:s1",
+      timestamp: 0,
+    });
+    expect(result?.push.sent).toBe(1);
+
+    dispatcher.permissionRequested("s1", permission);
+    await vi.waitFor(() => expect(deps.sendPush).toHaveBeenCalledTimes(2));
+    const payload = JSON.parse(vi.mocked(deps.sendPush).mock.calls[1][1]);
+    expect(payload).toEqual(expect.objectContaining({
+      kind: "permission_request",
+      sessionId: "s1",
+      title: "Permission needed · Fix login",
+      body: "Bash: npm publish",
+      path: "/#/session/s1",
+      requestId: "req-1",
+      actions: {
+        allow: "/api/permissions/req-1/allow?via=push:sub-1&sig=x",
+        deny: "/api/permissions/req-1/deny?via=push:sub-1&sig=x",
+      },
+    }));
+    expect(payload.url).toBeUndefined();
+  });
+
+  it("skips muted sessions and disabled events", async () => {
+    const { dispatcher, deps } = makeDispatcher(makeConfig({
+      mutedSessions: ["s1"],
+      events: { permission_request: true, result: false, stuck: true, cron_disabled: true },
+    }));
+    const base = { sessionId: "s1", title: "t", body: "b", path: "/", tag: "x", timestamp: 0 };
+    expect(await dispatcher.dispatch({ ...base, kind: "permission_request" })).toBeNull();
+    expect(await dispatcher.dispatch({ ...base, sessionId: "s2", kind: "result" })).toBeNull();
+    expect(await dispatcher.dispatch({ ...base, sessionId: "s2", kind: "permission_request" })).not.toBeNull();
+    expect(deps.sendPush).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops subscriptions the push service reports as gone", async () => {
+    const { dispatcher, deps } = makeDispatcher(makeConfig(), {
+      sendPush: vi.fn(async () => ({ status: 410, gone: true })),
+    });
+    const result = await dispatcher.sendTest();
+    expect(result.push).toEqual({ sent: 0, failed: 0, removed: 1 });
+    expect(deps.store.removePushSubscription).toHaveBeenCalledWith("https://push.example.com/1");
+  });
+
+  it("posts finished turns to the webhook with an absolute link", async () => {
+    const fetchMock = vi.fn(async () => new Response("ok"));
+    const { dispatcher } = makeDispatcher(
+      makeConfig({ subscriptions: [], webhookUrl: "https://hooks.example.com/x", baseUrl: "http://mac.local:3456" }),
+      { fetch: fetchMock as unknown as typeof fetch },
+    );
+
+    dispatcher.turnCompleted("s1", { is_error: true, subtype: "error_max_turns", errors: [] });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://hooks.example.com/x");
+    expect(JSON.parse(String(init.body))).toEqual(expect.objectContaining({
+      kind: "result",
+      title: "Turn failed · Fix login",
+      body: "error max turns",
+      url: "http://mac.local:3456/#/session/s1",
+    }));
+    expect(JSON.parse(String(init.body)).actions).toBeUndefined();
+  });
+
+  it("links disabled scheduled tasks to the scheduled page", async () => {
+    const fetchMock = vi.fn(async () => new Response("ok"));
+    const { dispatcher } = makeDispatcher(
+      makeConfig({ subscriptions: [], webhookUrl: "https://hooks.example.com/x", baseUrl: "http://mac.local:3456" }),
+      { fetch: fetchMock as unknown as typeof fetch },
+    );
+
+    dispatcher.cronJobDisabled({ id: "nightly", name: "Nightly" }, "Turned off after 5 failed runs in a row");
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(String(init.body))).toEqual(expect.objectContaining({
+      kind: "cron_disabled",
+      title: "Scheduled task turned off · Nightly",
+      url: "http://mac.local:3456/#/scheduled",
+      tag: "cron_disabled:nightly",
+    }));
+  });
+
+  it("signs webhook action links for the webhook channel with absolute URLs", async () => {
+    const fetchMock = vi.fn(async () => new Response("ok"));
+    const { dispatcher } = makeDispatcher(
+      makeConfig({ subscriptions: [], webhookUrl: "https://hooks.example.com/x", baseUrl: "http://mac.local:3456" }),
+      { fetch: fetchMock as unknown as typeof fetch },
+    );
+
+    dispatcher.permissionRequested("s1", permission);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(String(init.body)).actions).toEqual({
+      allow: "http://mac.local:3456/api/permissions/req-1/allow?via=webhook&sig=x",
+      deny: "http://mac.local:3456/api/permissions/req-1/deny?via=webhook&sig=x",
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import type { CLIResultMessage, PermissionRequest } from "./session-types.js";
+import type { CronJob } from "./cron-types.js";
+import * as notificationStore from "./notification-store.js";
+import type { NotificationKind } from "./notification-store.js";
+import * as sessionNames from "./session-names.js";
+import { sendWebPush } from "./web-push.js";
+import { permissionActionPath } from "./permission-actions.js";
+
+/** Events the bridge reports; lets ws-bridge stay independent of delivery. */
+export interface SessionNotifier {
+  permissionRequested(sessionId: string, request: PermissionRequest): void;
+  turnCompleted(sessionId: string, result: Pick<CLIResultMessage, "is_error" | "result" | "errors" | "subtype">): void;
+  sessionStuck(sessionId: string, reason: string): void;
+}
+
+/** Body sent to push subscriptions (read by public/sw.js) and to the webhook. */
+export interface CompanionNotification {
+  kind: NotificationKind | "test";
+  sessionId: string;
+  sessionName?: string;
+  title: string;
+  body: string;
+  /** Hash route that opens the session, e.g. "/#/session/<id>". */
+  path: string;
+  /** Absolute deep link; only set when a base URL is configured. */
+  url?: string;
+  /** Same tag replaces the previous notification for that session and kind. */
+  tag: string;
+  requestId?: string;
+  toolName?: string;
+  /** Signed one-time links answering the permission request (POST them, or open them to confirm). */
+  actions?: { allow: string; deny: string };
+  timestamp: number;
+}
+
+export interface DispatchResult {
+  push: { sent: number; failed: number; removed: number };
+  webhook: "sent" | "failed" | "disabled";
+}
+
+export interface NotificationDispatcherDeps {
+  store: Pick<
+    typeof notificationStore,
+    "getNotificationConfig" | "getVapidKeys" | "isSessionMuted" | "removePushSubscription"
+  >;
+  getSessionName: (sessionId: string) => string | undefined;
+  sendPush: typeof sendWebPush;
+  fetch: typeof fetch;
+  actionPath: typeof permissionActionPath;
+}
+
+const VAPID_SUBJECT = "https://github.com/The-Vibe-Company/claude-code-controller";
+const BODY_MAX = 180;
+
+function truncate(text: string, max = BODY_MAX): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+function describeRequest(request: PermissionRequest): string {
+  const input = request.input;
+  if (typeof input.command === "string") return `${request.tool_name}: ${input.command}`;
+  for (const key of ["file_path", "path", "url", "pattern"]) {
+    if (typeof input[key] === "string") return `${request.tool_name}: ${input[key] as string}`;
+  }
+  return request.description || request.tool_name;
+}
+
+export class NotificationDispatcher implements SessionNotifier {
+  private deps: NotificationDispatcherDeps;
+
+  constructor(deps: Partial<NotificationDispatcherDeps> = {}) {
+    this.deps = {
+      store: deps.store ?? notificationStore,
+      getSessionName: deps.getSessionName ?? sessionNames.getName,
+      sendPush: deps.sendPush ?? sendWebPush,
+      fetch: deps.fetch ?? fetch,
+      actionPath: deps.actionPath ?? permissionActionPath,
+    };
+  }
+
+  permissionRequested(sessionId: string, request: PermissionRequest): void {
+    const name = this.deps.getSessionName(sessionId);
+    void this.dispatch({
+      kind: "permission_request",
+      sessionId,
+      sessionName: name,
+      title: `Permission needed${name ? ` · ${name}` : ""}`,
+      body: truncate(describeRequest(request)),
+      ...this.links(sessionId),
+      tag: `permission:${sessionId}`,
+      requestId: request.request_id,
+      toolName: request.tool_name,
+      timestamp: Date.now(),
+    });
+  }
+
+  turnCompleted(sessionId: string, result: Pick<CLIResultMessage, "is_error" | "result" | "errors" | "subtype">): void {
+    const name = this.deps.getSessionName(sessionId);
+    const detail = result.is_error
+      ? result.errors?.[0] || result.subtype.replace(/_/g, " ")
+      : result.result || "Turn finished";
+    void this.dispatch({
+      kind: "result",
+      sessionId,
+      sessionName: name,
+      title: `${result.is_error ? "Turn failed" : "Turn finished"}${name ? ` · ${name}` : ""}`,
+      body: truncate(detail),
+      ...this.links(sessionId),
+      tag: `result:${sessionId}`,
+      timestamp: Date.now(),
+    });
+  }
+
+  sessionStuck(sessionId: string, reason: string): void {
+    const name = this.deps.getSessionName(sessionId);
+    void this.dispatch({
+      kind: "stuck",
+      sessionId,
+      sessionName: name,
+      title: `Session looks stuck${name ? ` · ${name}` : ""}`,
+      body: truncate(reason),
+      ...this.links(sessionId),
+      tag: `stuck:${sessionId}`,
+      timestamp: Date.now(),
+    });
+  }
+
+  /** The scheduler turned a job off after repeated failures. */
+  cronJobDisabled(job: Pick<CronJob, "id" | "name">, reason: string): void {
+    const path = "/#/scheduled";
+    const baseUrl = this.deps.store.getNotificationConfig().baseUrl;
+    void this.dispatch({
+      kind: "cron_disabled",
+      sessionId: "",
+      title: `Scheduled task turned off · ${job.name}`,
+      body: truncate(reason),
+      path,
+      url: baseUrl ? `${baseUrl}${path}` : undefined,
+      tag: `cron_disabled:${job.id}`,
+      timestamp: Date.now(),
+    });
+  }
+
+  /** Send a sample notification to every target, ignoring event toggles and mutes. */
+  sendTest(): Promise<DispatchResult> {
+    return this.deliver({
+      kind: "test",
+      sessionId: "",
+      title: "The Companion",
+      body: "Notifications are working.",
+      path: "/",
+      url: this.deps.store.getNotificationConfig().baseUrl || undefined,
+      tag: "test",
+      timestamp: Date.now(),
+    });
+  }
+
+  async dispatch(notification: CompanionNotification): Promise<DispatchResult | null> {
+    const config = this.deps.store.getNotificationConfig();
+    if (notification.kind !== "test") {
+      if (!config.events[notification.kind]) return null;
+      if (this.deps.store.isSessionMuted(notification.sessionId)) return null;
+    }
+    return this.deliver(notification);
+  }
+
+  private links(sessionId: string): { path: string; url?: string } {
+    const path = `/#/session/${sessionId}`;
+    const baseUrl = this.deps.store.getNotificationConfig().baseUrl;
+    return { path, url: baseUrl ? `${baseUrl}${path}` : undefined };
+  }
+
+  /** Payload for one target; action links are signed per channel so the audit shows who answered. */
+  private payloadFor(notification: CompanionNotification, via: string, baseUrl: string): string {
+    if (notification.kind !== "permission_request" || !notification.requestId) return JSON.stringify(notification);
+    const link = (behavior: "allow" | "deny") => `${baseUrl}${this.deps.actionPath(notification.requestId!, behavior, via)}`;
+    return JSON.stringify({ ...notification, actions: { allow: link("allow"), deny: link("deny") } });
+  }
+
+  private async deliver(notification: CompanionNotification): Promise<DispatchResult> {
+    const config = this.deps.store.getNotificationConfig();
+    const result: DispatchResult = {
+      push: { sent: 0, failed: 0, removed: 0 },
+      webhook: config.webhookUrl ? "failed" : "disabled",
+    };
+
+    if (config.subscriptions.length > 0) {
+      const vapid = this.deps.store.getVapidKeys();
+      await Promise.all(config.subscriptions.map(async (sub) => {
+        try {
+          const payload = this.payloadFor(notification, `push:${sub.id}`, config.baseUrl);
+          const res = await this.deps.sendPush(sub, payload, vapid, VAPID_SUBJECT, this.deps.fetch);
+          if (res.gone) {
+            this.deps.store.removePushSubscription(sub.endpoint);
+            result.push.removed++;
+          } else if (res.status >= 200 && res.status < 300) {
+            result.push.sent++;
+          } else {
+            result.push.failed++;
+            console.warn(`[notifications] Push rejected with status ${res.status}`);
+          }
+        } catch (err) {
+          result.push.failed++;
+          console.warn("[notifications] Push failed:", err);
+        }
+      }));
+    }
+
+    if (config.webhookUrl) {
+      try {
+        const res = await this.deps.fetch(config.webhookUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: this.payloadFor(notification, "webhook", config.baseUrl),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (res.ok) {
+          result.webhook = "sent";
+        } else {
+          console.warn(`[notifications] Webhook responded with status ${res.status}`);
+        }
+      } catch (err) {
+        console.warn("[notifications] Webhook failed:", err);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  addPushSubscription,
+  getNotificationConfig,
+  getNotificationSettings,
+  isSessionMuted,
+  removePushSubscription,
+  setSessionMuted,
+  updateNotificationSettings,
+  _resetForTest,
+} from "./notification-store.js";
+
+let tempDir: string;
+let configPath: string;
+
+const subscription = {
+  endpoint: "https://push.example.com/abc",
+  keys: { p256dh: "BPub", auth: "secret" },
+};
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "notification-store-test-"));
+  configPath = join(tempDir, "notifications.json");
+  _resetForTest(configPath);
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  _resetForTest();
+});
+
+describe("notification-store", () => {
+  it("generates VAPID keys once and never exposes the private key", () => {
+    const first = getNotificationSettings();
+    expect(first.publicKey).toMatch(/^[A-Za-z0-9_-]{80,}$/);
+    expect(first).not.toHaveProperty("vapid");
+    expect(first.events).toEqual({ permission_request: true, result: true, stuck: true, cron_disabled: true });
+
+    _resetForTest(configPath);
+    expect(getNotificationSettings().publicKey).toBe(first.publicKey);
+    expect(JSON.parse(readFileSync(configPath, "utf-8")).vapid.privateKey).toContain("PRIVATE KEY");
+  });
+
+  it("updates targets and event toggles with validation", () => {
+    const next = updateNotificationSettings({
+      webhookUrl: " https://hooks.example.com/x ",
+      baseUrl: "http://mac.local:3456/",
+      events: { result: false },
+    });
+    expect(next.webhookUrl).toBe("https://hooks.example.com/x");
+    expect(next.baseUrl).toBe("http://mac.local:3456");
+    expect(next.events).toEqual({ permission_request: true, result: false, stuck: true, cron_disabled: true });
+
+    expect(() => updateNotificationSettings({ webhookUrl: "ftp://nope" })).toThrow("Webhook URL must be an http(s) URL");
+    expect(updateNotificationSettings({ webhookUrl: "" }).webhookUrl).toBe("");
+  });
+
+  it("stores subscriptions once per endpoint and removes them", () => {
+    addPushSubscription(subscription, "Firefox");
+    addPushSubscription({ ...subscription, keys: { p256dh: "BNew", auth: "secret" } });
+    const { subscriptions } = getNotificationConfig();
+    expect(subscriptions).toHaveLength(1);
+    expect(subscriptions[0].keys.p256dh).toBe("BNew");
+
+    expect(() => addPushSubscription({ endpoint: "http://insecure", keys: subscription.keys }))
+      .toThrow("Subscription endpoint must be an https URL");
+    expect(() => addPushSubscription({ endpoint: subscription.endpoint })).toThrow("Subscription keys are required");
+
+    expect(removePushSubscription(subscription.endpoint)).toBe(true);
+    expect(removePushSubscription(subscription.endpoint)).toBe(false);
+  });
+
+  it("tracks muted sessions", () => {
+    setSessionMuted("s1", true);
+    setSessionMuted("s1", true);
+    expect(isSessionMuted("s1")).toBe(true);
+    expect(getNotificationConfig().mutedSessions).toEqual(["s1"]);
+    setSessionMuted("s1", false);
+    expect(isSessionMuted("s1")).toBe(false);
+  });
+
+  it("falls back to safe defaults for malformed files", () => {
+    writeFileSync(configPath, JSON.stringify({ subscriptions: [{ endpoint: 1 }], events: "x", mutedSessions: [1, "s2"] }));
+    const config = getNotificationConfig();
+    expect(config.subscriptions).toEqual([]);
+    expect(config.events).toEqual({ permission_request: true, result: true, stuck: true, cron_disabled: true });
+    expect(config.mutedSessions).toEqual(["s2"]);
+    expect(config.vapid).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import {
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  existsSync,
+} from "node:fs";
+import { join, dirname } from "node:path";
+import { homedir } from "node:os";
+import { generateVapidKeys, type PushSubscriptionKeys, type VapidKeys } from "./web-push.js";
+
+export type NotificationKind = "permission_request" | "result" | "stuck" | "cron_disabled";
+
+export interface PushSubscriptionRecord {
+  id: string;
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+  userAgent?: string;
+  createdAt: number;
+}
+
+export interface NotificationConfig {
+  vapid: VapidKeys | null;
+  subscriptions: PushSubscriptionRecord[];
+  /** Generic webhook that receives every notification as JSON. Empty = disabled. */
+  webhookUrl: string;
+  /** Origin used to build absolute deep links for the webhook (e.g. "http://mac.local:3456"). */
+  baseUrl: string;
+  events: Record<NotificationKind, boolean>;
+  mutedSessions: string[];
+  updatedAt: number;
+}
+
+/** Everything the browser may see; the VAPID private key stays on the server. */
+export interface NotificationSettingsView {
+  publicKey: string;
+  subscriptionCount: number;
+  webhookUrl: string;
+  baseUrl: string;
+  events: Record<NotificationKind, boolean>;
+  mutedSessions: string[];
+}
+
+const DEFAULT_PATH = join(homedir(), ".companion", "notifications.json");
+
+let loaded = false;
+let filePath = DEFAULT_PATH;
+let config: NotificationConfig = normalize(null);
+
+function isSubscription(value: unknown): value is PushSubscriptionRecord {
+  if (!value || typeof value !== "object") return false;
+  const sub = value as Partial<PushSubscriptionRecord>;
+  return (
+    typeof sub.id === "string"
+    && typeof sub.endpoint === "string"
+    && typeof sub.keys?.p256dh === "string"
+    && typeof sub.keys?.auth === "string"
+  );
+}
+
+function normalize(raw: Partial<NotificationConfig> | null | undefined): NotificationConfig {
+  const vapid = raw?.vapid;
+  return {
+    vapid: vapid && typeof vapid.publicKey === "string" && typeof vapid.privateKey === "string" ? vapid : null,
+    subscriptions: Array.isArray(raw?.subscriptions) ? raw.subscriptions.filter(isSubscription) : [],
+    webhookUrl: typeof raw?.webhookUrl === "string" ? raw.webhookUrl : "",
+    baseUrl: typeof raw?.baseUrl === "string" ? raw.baseUrl : "",
+    events: {
+      permission_request: typeof raw?.events?.permission_request === "boolean" ? raw.events.permission_request : true,
+      result: typeof raw?.events?.result === "boolean" ? raw.events.result : true,
+      stuck: typeof raw?.events?.stuck === "boolean" ? raw.events.stuck : true,
+      cron_disabled: typeof raw?.events?.cron_disabled === "boolean" ? raw.events.cron_disabled : true,
+    },
+    mutedSessions: Array.isArray(raw?.mutedSessions)
+      ? raw.mutedSessions.filter((id): id is string => typeof id === "string")
+      : [],
+    updatedAt: typeof raw?.updatedAt === "number" ? raw.updatedAt : 0,
+  };
+}
+
+function ensureLoaded(): void {
+  if (loaded) return;
+  try {
+    if (existsSync(filePath)) {
+      config = normalize(JSON.parse(readFileSync(filePath, "utf-8")) as Partial<NotificationConfig>);
+    }
+  } catch {
+    config = normalize(null);
+  }
+  loaded = true;
+}
+
+function persist(): void {
+  config.updatedAt = Date.now();
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(config, null, 2), { encoding: "utf-8", mode: 0o600 });
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+export function getNotificationConfig(): NotificationConfig {
+  ensureLoaded();
+  return { ...config, subscriptions: [...config.subscriptions], mutedSessions: [...config.mutedSessions] };
+}
+
+/** VAPID keys, generated and saved on first use. */
+export function getVapidKeys(): VapidKeys {
+  ensureLoaded();
+  if (!config.vapid) {
+    config.vapid = generateVapidKeys();
+    persist();
+  }
+  return config.vapid;
+}
+
+export function getNotificationSettings(): NotificationSettingsView {
+  const vapid = getVapidKeys();
+  return {
+    publicKey: vapid.publicKey,
+    subscriptionCount: config.subscriptions.length,
+    webhookUrl: config.webhookUrl,
+    baseUrl: config.baseUrl,
+    events: { ...config.events },
+    mutedSessions: [...config.mutedSessions],
+  };
+}
+
+export function updateNotificationSettings(patch: {
+  webhookUrl?: string;
+  baseUrl?: string;
+  events?: Partial<Record<NotificationKind, boolean>>;
+}): NotificationSettingsView {
+  ensureLoaded();
+  const webhookUrl = patch.webhookUrl?.trim();
+  if (webhookUrl && !isHttpUrl(webhookUrl)) throw new Error("Webhook URL must be an http(s) URL");
+  const baseUrl = patch.baseUrl?.trim().replace(/\/+$/, "");
+  if (baseUrl && !isHttpUrl(baseUrl)) throw new Error("Base URL must be an http(s) URL");
+
+  if (webhookUrl !== undefined) config.webhookUrl = webhookUrl;
+  if (baseUrl !== undefined) config.baseUrl = baseUrl;
+  if (patch.events) {
+    for (const kind of ["permission_request", "result", "stuck", "cron_disabled"] as const) {
+      if (typeof patch.events[kind] === "boolean") config.events[kind] = patch.events[kind]!;
+    }
+  }
+  persist();
+  return getNotificationSettings();
+}
+
+export function addPushSubscription(
+  input: { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } },
+  userAgent?: string,
+): PushSubscriptionRecord {
+  ensureLoaded();
+  const endpoint = typeof input.endpoint === "string" ? input.endpoint : "";
+  if (!endpoint.startsWith("https://")) throw new Error("Subscription endpoint must be an https URL");
+  const p256dh = input.keys?.p256dh;
+  const auth = input.keys?.auth;
+  if (typeof p256dh !== "string" || typeof auth !== "string" || !p256dh || !auth) {
+    throw new Error("Subscription keys are required");
+  }
+
+  // Re-subscribing from the same browser replaces the old record.
+  config.subscriptions = config.subscriptions.filter((s) => s.endpoint !== endpoint);
+  const record: PushSubscriptionRecord = {
+    id: crypto.randomUUID(),
+    endpoint,
+    keys: { p256dh, auth },
+    userAgent: userAgent?.slice(0, 200) || undefined,
+    createdAt: Date.now(),
+  };
+  config.subscriptions.push(record);
+  persist();
+  return record;
+}
+
+export function removePushSubscription(endpoint: string): boolean {
+  ensureLoaded();
+  const next = config.subscriptions.filter((s) => s.endpoint !== endpoint);
+  if (next.length === config.subscriptions.length) return false;
+  config.subscriptions = next;
+  persist();
+  return true;
+}
+
+export function isSessionMuted(sessionId: string): boolean {
+  ensureLoaded();
+  return config.mutedSessions.includes(sessionId);
+}
+
+export function setSessionMuted(sessionId: string, muted: boolean): void {
+  ensureLoaded();
+  const without = config.mutedSessions.filter((id) => id !== sessionId);
+  config.mutedSessions = muted ? [...without, sessionId] : without;
+  persist();
+}
+
+export function _resetForTest(customPath?: string): void {
+  loaded = false;
+  filePath = customPath || DEFAULT_PATH;
+  config = normalize(null);
+}
@@ -0,0 +1,27 @@
+import { globToRegExp, matchesGlob } from "./path-glob.js";
+
+describe("matchesGlob", () => {
+  it("matches single-segment wildcards", () => {
+    expect(matchesGlob("src/a.ts", "src/*.ts")).toBe(true);
+    expect(matchesGlob("src/lib/a.ts", "src/*.ts")).toBe(false);
+    expect(matchesGlob("src/ab.ts", "src/a?.ts")).toBe(true);
+  });
+
+  it("matches any depth with **", () => {
+    expect(matchesGlob("src/a.ts", "src/**/*.ts")).toBe(true);
+    expect(matchesGlob("src/lib/deep/a.ts", "src/**/*.ts")).toBe(true);
+    expect(matchesGlob("docs/a.ts", "src/**")).toBe(false);
+    expect(matchesGlob("src/x/y", "src/**")).toBe(true);
+  });
+
+  it("supports brace alternation", () => {
+    expect(matchesGlob("a.md", "*.{md,txt}")).toBe(true);
+    expect(matchesGlob("a.txt", "*.{md,txt}")).toBe(true);
+    expect(matchesGlob("a.ts", "*.{md,txt}")).toBe(false);
+  });
+
+  it("escapes regex characters", () => {
+    expect(matchesGlob("a+b(1).ts", "a+b(1).ts")).toBe(true);
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Minimal glob → RegExp conversion for rule matching.
+ * Supports `**` (any number of path segments), `*` and `?` (within a segment)
+ * and `{a,b}` alternation. Everything else matches literally.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let out = "";
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more whole segments; a trailing "**" matches the rest.
+        if (glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else if (ch === "{") {
+      braceDepth++;
+      out += "(?:";
+    } else if (ch === "}" && braceDepth > 0) {
+      braceDepth--;
+      out += ")";
+    } else if (ch === "," && braceDepth > 0) {
+      out += "|";
+    } else {
+      out += ch.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${out}$`);
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+  return globToRegExp(glob).test(path);
+}
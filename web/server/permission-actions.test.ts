@@ -0,0 +1,41 @@
+vi.mock("./auth-manager.js", () => ({
+  getAuthToken: () => "secret-token",
+}));
+
+import {
+  describeUserAgent,
+  permissionActionPath,
+  signPermissionAction,
+  verifyPermissionAction,
+} from "./permission-actions.js";
+
+describe("permission action signatures", () => {
+  it("verifies only the exact request, decision and channel", () => {
+    const sig = signPermissionAction("req-1", "allow", "webhook");
+    expect(verifyPermissionAction("req-1", "allow", "webhook", sig)).toBe(true);
+    expect(verifyPermissionAction("req-1", "deny", "webhook", sig)).toBe(false);
+    expect(verifyPermissionAction("req-2", "allow", "webhook", sig)).toBe(false);
+    expect(verifyPermissionAction("req-1", "allow", "push:sub-1", sig)).toBe(false);
+    expect(verifyPermissionAction("req-1", "allow", "webhook", "")).toBe(false);
+    expect(verifyPermissionAction("req-1", "allow", "webhook", null)).toBe(false);
+  });
+
+  it("builds the action path with the channel and signature", () => {
+    const path = permissionActionPath("req/1", "deny", "push:sub-1");
+    const url = new URL(path, "http://localhost");
+    expect(url.pathname).toBe("/api/permissions/req%2F1/deny");
+    expect(url.searchParams.get("via")).toBe("push:sub-1");
+    expect(verifyPermissionAction("req/1", "deny", "push:sub-1", url.searchParams.get("sig"))).toBe(true);
+  });
+});
+
+describe("describeUserAgent", () => {
+  it("summarizes common devices and browsers", () => {
+    expect(describeUserAgent("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Version/17.0 Mobile/15E148 Safari/604.1"))
+      .toBe("iPhone Safari");
+    expect(describeUserAgent("Mozilla/5.0 (Linux; Android 14) AppleWebKit/537.36 Chrome/120.0 Mobile Safari/537.36"))
+      .toBe("Android Chrome");
+    expect(describeUserAgent("curl/8.4.0")).toBe("curl/8.4.0");
+    expect(describeUserAgent(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { getAuthToken } from "./auth-manager.js";
+
+/**
+ * Signed one-time links that answer a pending permission request without the
+ * auth token, for notifications opened on a phone. The signature is derived
+ * from the Companion auth secret and covers the request, the decision and the
+ * delivery channel. Links are single-use because the bridge only accepts them
+ * while the request is still pending: answering, cancelling
+ * (`permission_cancelled`) or a CLI disconnect makes them dead.
+ */
+
+export type PermissionActionBehavior = "allow" | "deny";
+
+export function isPermissionActionBehavior(value: unknown): value is PermissionActionBehavior {
+  return value === "allow" || value === "deny";
+}
+
+export function signPermissionAction(requestId: string, behavior: PermissionActionBehavior, via: string): string {
+  return createHmac("sha256", getAuthToken())
+    .update(`permission:${requestId}:${behavior}:${via}`)
+    .digest("base64url");
+}
+
+export function verifyPermissionAction(
+  requestId: string,
+  behavior: PermissionActionBehavior,
+  via: string,
+  sig: string | null | undefined,
+): boolean {
+  if (!sig) return false;
+  const expected = Buffer.from(signPermissionAction(requestId, behavior, via));
+  const candidate = Buffer.from(sig);
+  return expected.length === candidate.length && timingSafeEqual(expected, candidate);
+}
+
+/** Relative URL of a signed action, e.g. `/api/permissions/<id>/allow?via=webhook&sig=...`. */
+export function permissionActionPath(requestId: string, behavior: PermissionActionBehavior, via: string): string {
+  const params = new URLSearchParams({ via, sig: signPermissionAction(requestId, behavior, via) });
+  return `/api/permissions/${encodeURIComponent(requestId)}/${behavior}?${params}`;
+}
+
+/** Short "iPhone Safari"-style label for the audit trail. */
+export function describeUserAgent(userAgent: string | undefined): string | undefined {
+  if (!userAgent) return undefined;
+  const device = /iPhone/.test(userAgent) ? "iPhone"
+    : /iPad/.test(userAgent) ? "iPad"
+      : /Android/.test(userAgent) ? "Android"
+        : /Macintosh|Mac OS X/.test(userAgent) ? "Mac"
+          : /Windows/.test(userAgent) ? "Windows"
+            : /Linux/.test(userAgent) ? "Linux"
+              : undefined;
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+      : /Chrome\//.test(userAgent) ? "Chrome"
+        : /Safari\//.test(userAgent) ? "Safari"
+          : undefined;
+  const label = [device, browser].filter(Boolean).join(" ");
+  return label || userAgent.slice(0, 60);
+}
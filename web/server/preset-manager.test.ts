@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+let tempDir: string;
+let presetManager: typeof import("./preset-manager.js");
+let promptManager: typeof import("./prompt-manager.js");
+
+const mockHomedir = vi.hoisted(() => {
+  let dir = "";
+  return {
+    get: () => dir,
+    set: (d: string) => {
+      dir = d;
+    },
+  };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return {
+    ...actual,
+    homedir: () => mockHomedir.get(),
+  };
+});
+
+beforeEach(async () => {
+  tempDir = mkdtempSync(join(tmpdir(), "preset-test-"));
+  mockHomedir.set(tempDir);
+  vi.resetModules();
+  presetManager = await import("./preset-manager.js");
+  promptManager = await import("./prompt-manager.js");
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("createPreset", () => {
+  it("keeps only known launch options", () => {
+    const preset = presetManager.createPreset({
+      name: "Review",
+      scope: "global",
+      options: {
+        backend: "codex",
+        model: " gpt-5 ",
+        cwd: "/tmp/repo/",
+        useWorktree: true,
+        createBranch: "yes",
+        container: { image: "node:22", ports: ["3000", -1] },
+        resumeSessionAt: "abc",
+      },
+    });
+    expect(preset.options).toEqual({
+      backend: "codex",
+      model: "gpt-5",
+      cwd: "/tmp/repo",
+      useWorktree: true,
+      container: { image: "node:22", ports: [3000] },
+    });
+  });
+
+  it("validates names, backends and linked prompts", () => {
+    presetManager.createPreset({ name: "Nightly", scope: "global" });
+    expect(() => presetManager.createPreset({ name: "nightly", scope: "global" })).toThrow(
+      'A preset named "nightly" already exists',
+    );
+    expect(() => presetManager.createPreset({ name: "X", scope: "global", options: { backend: "gpt" } })).toThrow(
+      "Invalid backend: gpt",
+    );
+    expect(() => presetManager.createPreset({ name: "Y", scope: "global", promptId: "missing" })).toThrow(
+      "Linked prompt not found",
+    );
+    expect(() => presetManager.createPreset({ name: "Z", scope: "project" })).toThrow(
+      "Project path is required for project presets",
+    );
+  });
+});
+
+describe("listPresets / findPreset", () => {
+  it("shows project presets only inside their project", () => {
+    presetManager.createPreset({ name: "Global", scope: "global" });
+    presetManager.createPreset({ name: "Repo", scope: "project", projectPath: "/tmp/repo" });
+
+    expect(presetManager.listPresets({ cwd: "/tmp/repo/src" }).map((p) => p.name)).toEqual(["Global", "Repo"]);
+    expect(presetManager.listPresets({ cwd: "/tmp/other" }).map((p) => p.name)).toEqual(["Global"]);
+    expect(presetManager.listPresets().map((p) => p.name)).toEqual(["Global", "Repo"]);
+  });
+
+  it("finds presets by id or by case-insensitive name", () => {
+    const preset = presetManager.createPreset({ name: "Bug Triage", scope: "global" });
+    expect(presetManager.findPreset(preset.id)?.name).toBe("Bug Triage");
+    expect(presetManager.findPreset("bug triage")?.id).toBe(preset.id);
+    expect(presetManager.findPreset("nope")).toBeNull();
+  });
+});
+
+describe("updatePreset", () => {
+  it("clears the linked prompt and initial prompt with empty strings", () => {
+    const prompt = promptManager.createPrompt("Checklist", "Run the checklist", "global");
+    const preset = presetManager.createPreset({ name: "P", scope: "global", promptId: prompt.id, initialPrompt: "Go" });
+
+    const updated = presetManager.updatePreset(preset.id, { promptId: "", initialPrompt: "" });
+    expect(updated?.promptId).toBeUndefined();
+    expect(updated?.initialPrompt).toBeUndefined();
+    expect(presetManager.updatePreset("missing", { name: "x" })).toBeNull();
+  });
+});
+
+describe("resolvePresetPrompt / applyPreset", () => {
+  it("sends the linked prompt's current text before the preset's own prompt", () => {
+    const prompt = promptManager.createPrompt("Checklist", "Old text", "global");
+    const preset = presetManager.createPreset({ name: "P", scope: "global", promptId: prompt.id, initialPrompt: "Then fix it" });
+    promptManager.updatePrompt(prompt.id, { content: "Run the checklist" });
+
+    expect(presetManager.resolvePresetPrompt(preset)).toBe("Run the checklist\n\nThen fix it");
+  });
+
+  it("lets explicit request fields win over the preset", () => {
+    const preset = presetManager.createPreset({
+      name: "P",
+      scope: "global",
+      options: { backend: "codex", model: "gpt-5", cwd: "/tmp/repo" },
+    });
+    expect(presetManager.applyPreset(preset, { model: "o3", cwd: "", presetId: preset.id })).toEqual({
+      backend: "codex",
+      model: "o3",
+      cwd: "/tmp/repo",
+      presetId: preset.id,
+    });
+  });
+});
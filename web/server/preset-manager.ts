@@ -0,0 +1,282 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { homedir } from "node:os";
+import * as promptManager from "./prompt-manager.js";
+
+export type PresetScope = "global" | "project";
+
+/**
+ * Everything `/api/sessions/create` accepts except resume/fork, which point at
+ * one specific earlier session and make no sense in a reusable template.
+ */
+export interface PresetLaunchOptions {
+  backend?: "claude" | "codex";
+  model?: string;
+  permissionMode?: string;
+  cwd?: string;
+  envSlug?: string;
+  env?: Record<string, string>;
+  branch?: string;
+  createBranch?: boolean;
+  useWorktree?: boolean;
+  container?: { image?: string; ports?: number[]; volumes?: string[] };
+  claudeBinary?: string;
+  codexBinary?: string;
+  allowedTools?: string[];
+}
+
+export interface SessionPreset {
+  id: string;
+  name: string;
+  scope: PresetScope;
+  projectPath?: string;
+  options: PresetLaunchOptions;
+  /** Sent as the first message of every session launched from the preset */
+  initialPrompt?: string;
+  /** SavedPrompt whose current content is sent before initialPrompt */
+  promptId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PresetInput {
+  name: string;
+  scope: PresetScope;
+  projectPath?: string;
+  options?: unknown;
+  initialPrompt?: string;
+  promptId?: string;
+}
+
+export type PresetUpdateFields = Partial<Omit<PresetInput, "scope" | "projectPath">>;
+
+const COMPANION_DIR = join(homedir(), ".companion");
+const PRESETS_FILE = join(COMPANION_DIR, "presets.json");
+
+function ensureDir(): void {
+  mkdirSync(COMPANION_DIR, { recursive: true });
+}
+
+function normalizePath(path: string): string {
+  return resolve(path).replace(/[\\/]+$/, "");
+}
+
+function loadPresets(): SessionPreset[] {
+  ensureDir();
+  if (!existsSync(PRESETS_FILE)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(PRESETS_FILE, "utf-8")) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((p): p is SessionPreset => {
+      if (!p || typeof p !== "object") return false;
+      const candidate = p as Partial<SessionPreset>;
+      return (
+        typeof candidate.id === "string"
+        && typeof candidate.name === "string"
+        && (candidate.scope === "global" || candidate.scope === "project")
+        && !!candidate.options && typeof candidate.options === "object"
+      );
+    });
+  } catch {
+    return [];
+  }
+}
+
+function savePresets(presets: SessionPreset[]): void {
+  ensureDir();
+  writeFileSync(PRESETS_FILE, JSON.stringify(presets, null, 2), "utf-8");
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === "string" && !!v.trim());
+  return list.length > 0 ? list : undefined;
+}
+
+/** Keep only the known launch options, with the types the create route expects. */
+export function sanitizeLaunchOptions(raw: unknown): PresetLaunchOptions {
+  if (!raw || typeof raw !== "object") return {};
+  const input = raw as Record<string, unknown>;
+  const options: PresetLaunchOptions = {};
+
+  if (input.backend !== undefined) {
+    if (input.backend !== "claude" && input.backend !== "codex") {
+      throw new Error(`Invalid backend: ${String(input.backend)}`);
+    }
+    options.backend = input.backend;
+  }
+  const branch = optionalString(input.branch);
+  if (branch && !/^[a-zA-Z0-9/_.\-]+$/.test(branch)) throw new Error("Invalid branch name");
+
+  const strings = { model: input.model, permissionMode: input.permissionMode, envSlug: input.envSlug, claudeBinary: input.claudeBinary, codexBinary: input.codexBinary };
+  for (const [key, value] of Object.entries(strings)) {
+    const clean = optionalString(value);
+    if (clean) options[key as keyof typeof strings] = clean;
+  }
+  const cwd = optionalString(input.cwd);
+  if (cwd) options.cwd = normalizePath(cwd);
+  if (branch) options.branch = branch;
+  if (input.createBranch === true) options.createBranch = true;
+  if (input.useWorktree === true) options.useWorktree = true;
+  const allowedTools = stringList(input.allowedTools);
+  if (allowedTools) options.allowedTools = allowedTools;
+
+  if (input.env && typeof input.env === "object" && !Array.isArray(input.env)) {
+    const env = Object.fromEntries(
+      Object.entries(input.env as Record<string, unknown>).filter(([, v]) => typeof v === "string"),
+    ) as Record<string, string>;
+    if (Object.keys(env).length > 0) options.env = env;
+  }
+
+  if (input.container && typeof input.container === "object") {
+    const c = input.container as Record<string, unknown>;
+    const container: NonNullable<PresetLaunchOptions["container"]> = {};
+    const image = optionalString(c.image);
+    if (image) container.image = image;
+    if (Array.isArray(c.ports)) {
+      const ports = c.ports.map(Number).filter((n) => Number.isInteger(n) && n > 0);
+      if (ports.length > 0) container.ports = ports;
+    }
+    const volumes = stringList(c.volumes);
+    if (volumes) container.volumes = volumes;
+    if (Object.keys(container).length > 0) options.container = container;
+  }
+  return options;
+}
+
+function sortPresets(presets: SessionPreset[]): SessionPreset[] {
+  return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function visibleForCwd(preset: SessionPreset, cwd: string): boolean {
+  if (preset.scope === "global") return true;
+  if (!preset.projectPath) return false;
+  const normalizedCwd = normalizePath(cwd);
+  return normalizedCwd === preset.projectPath || normalizedCwd.startsWith(`${preset.projectPath}/`);
+}
+
+export function listPresets(opts?: { cwd?: string }): SessionPreset[] {
+  const presets = loadPresets();
+  if (!opts?.cwd) return sortPresets(presets);
+  return sortPresets(presets.filter((p) => visibleForCwd(p, opts.cwd!)));
+}
+
+export function getPreset(id: string): SessionPreset | null {
+  return loadPresets().find((p) => p.id === id) ?? null;
+}
+
+/** Look a preset up by id, then by name (case-insensitive) for the CLI. */
+export function findPreset(ref: string): SessionPreset | null {
+  const presets = loadPresets();
+  const name = ref.trim().toLowerCase();
+  return presets.find((p) => p.id === ref) ?? presets.find((p) => p.name.toLowerCase() === name) ?? null;
+}
+
+function checkPromptId(promptId: string | undefined): void {
+  if (promptId && !promptManager.getPrompt(promptId)) throw new Error("Linked prompt not found");
+}
+
+export function createPreset(input: PresetInput): SessionPreset {
+  const name = input.name?.trim();
+  if (!name) throw new Error("Preset name is required");
+  if (input.scope !== "global" && input.scope !== "project") throw new Error("Invalid preset scope");
+  if (input.scope === "project" && !input.projectPath?.trim()) throw new Error("Project path is required for project presets");
+  const promptId = optionalString(input.promptId);
+  checkPromptId(promptId);
+
+  const presets = loadPresets();
+  if (presets.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A preset named "${name}" already exists`);
+  }
+  const now = Date.now();
+  const preset: SessionPreset = {
+    id: crypto.randomUUID(),
+    name,
+    scope: input.scope,
+    projectPath: input.scope === "project" ? normalizePath(input.projectPath!) : undefined,
+    options: sanitizeLaunchOptions(input.options),
+    initialPrompt: optionalString(input.initialPrompt),
+    promptId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  presets.push(preset);
+  savePresets(presets);
+  return preset;
+}
+
+export function updatePreset(id: string, updates: PresetUpdateFields): SessionPreset | null {
+  const presets = loadPresets();
+  const index = presets.findIndex((p) => p.id === id);
+  if (index < 0) return null;
+
+  const current = presets[index];
+  const name = updates.name !== undefined ? updates.name.trim() : current.name;
+  if (!name) throw new Error("Preset name cannot be empty");
+  if (presets.some((p) => p.id !== id && p.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A preset named "${name}" already exists`);
+  }
+  // An empty string clears the linked prompt or initial prompt.
+  const promptId = updates.promptId !== undefined ? optionalString(updates.promptId) : current.promptId;
+  checkPromptId(promptId);
+
+  const updated: SessionPreset = {
+    ...current,
+    name,
+    options: updates.options !== undefined ? sanitizeLaunchOptions(updates.options) : current.options,
+    initialPrompt: updates.initialPrompt !== undefined ? optionalString(updates.initialPrompt) : current.initialPrompt,
+    promptId,
+    updatedAt: Date.now(),
+  };
+  presets[index] = updated;
+  savePresets(presets);
+  return updated;
+}
+
+export function deletePreset(id: string): boolean {
+  const presets = loadPresets();
+  const next = presets.filter((p) => p.id !== id);
+  if (next.length === presets.length) return false;
+  savePresets(next);
+  return true;
+}
+
+/** The first message for a launch: the linked prompt's current text, then the preset's own prompt. */
+export function resolvePresetPrompt(preset: SessionPreset): string {
+  const linked = preset.promptId ? promptManager.getPrompt(preset.promptId)?.content : undefined;
+  return [linked, preset.initialPrompt].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Launch settings a cron run can't honour: scheduled runs launch straight on
+ * the host in the preset's cwd, without the create route's container and
+ * worktree setup. Running such a preset anyway would drop its sandbox.
+ */
+export function cronUnsupportedOptions(preset: SessionPreset): string[] {
+  const { container, useWorktree, branch } = preset.options;
+  return [
+    ...(container ? ["container"] : []),
+    ...(useWorktree ? ["worktree"] : []),
+    ...(branch ? ["branch"] : []),
+  ];
+}
+
+/** Throws when a scheduled job can't run with this preset. */
+export function assertCronCompatible(preset: SessionPreset): void {
+  const unsupported = cronUnsupportedOptions(preset);
+  if (unsupported.length > 0) {
+    throw new Error(`Preset "${preset.name}" sets ${unsupported.join(", ")}, which scheduled runs don't support yet`);
+  }
+}
+
+/** Fill a create request from the preset; fields set explicitly in the request win. */
+export function applyPreset<T extends Record<string, unknown>>(preset: SessionPreset, body: T): PresetLaunchOptions & T {
+  const explicit = Object.fromEntries(
+    Object.entries(body).filter(([, v]) => v !== undefined && v !== null && v !== ""),
+  ) as T;
+  return { ...preset.options, ...explicit };
+}
@@ -18,6 +18,16 @@ vi.mock("./prompt-manager.js", () => ({
   deletePrompt: vi.fn(() => false),
 }));
 
+vi.mock("./preset-manager.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./preset-manager.js")>()),
+  listPresets: vi.fn(() => []),
+  findPreset: vi.fn(() => null),
+  resolvePresetPrompt: vi.fn(() => ""),
+  createPreset: vi.fn(),
+  updatePreset: vi.fn(),
+  deletePreset: vi.fn(() => false),
+}));
+
 vi.mock("node:child_process", () => ({
   execSync: vi.fn(() => ""),
 }));
@@ -47,6 +57,21 @@ vi.mock("./git-utils.js", () => ({
   checkoutOrCreateBranch: vi.fn(() => ({ created: false })),
   removeWorktree: vi.fn(),
   isWorktreeDirty: vi.fn(() => false),
+  headCommit: vi.fn(() => null),
+  commitAll: vi.fn(() => false),
+  mergeBranch: vi.fn(() => ({ success: true, output: "" })),
+  diffSince: vi.fn(() => ""),
+}));
+
+const mockRunShellCommand = vi.hoisted(() => vi.fn());
+vi.mock("./shell-command.js", () => ({ runShellCommand: mockRunShellCommand }));
+
+vi.mock("./fanout-manager.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./fanout-manager.js")>()),
+  listFanouts: vi.fn(() => []),
+  getFanout: vi.fn(() => null),
+  createFanout: vi.fn((input: object) => ({ ...input, createdAt: 1 })),
+  updateFanout: vi.fn(() => null),
 }));
 
 vi.mock("./session-names.js", () => ({
@@ -57,8 +82,36 @@ vi.mock("./session-names.js", () => ({
   _resetForTest: vi.fn(),
 }));
 
+vi.mock("./notification-store.js", () => ({
+  isSessionMuted: vi.fn((id: string) => id === "s2"),
+  getNotificationConfig: vi.fn(() => ({
+    subscriptions: [{ id: "sub-1", userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) Version/17.0 Mobile Safari/604.1" }],
+  })),
+}));
+
+vi.mock("./cost-budgets.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./cost-budgets.js")>()),
+  getBudgetConfig: vi.fn(() => ({
+    dailyUsd: 20,
+    repos: {},
+    sessions: { s1: 5 },
+    spend: { date: "2026-03-14", totalUsd: 3.5, byRepo: {} },
+    updatedAt: 0,
+  })),
+  setBudgetLimit: vi.fn(),
+}));
+
+vi.mock("./usage-ledger.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./usage-ledger.js")>()),
+  readUsage: vi.fn(() => [
+    { timestamp: new Date(2026, 2, 14, 12).getTime(), sessionId: "s1", backendType: "claude", model: "claude-sonnet-4-5", repoRoot: "/work/app", inputTokens: 100, outputTokens: 50, cacheReadInputTokens: 0, cacheCreationInputTokens: 0, costUsd: 0.5, durationMs: 1000, isError: false },
+    { timestamp: new Date(2026, 2, 15, 12).getTime(), sessionId: "s2", backendType: "codex", model: "gpt-5.1-codex", repoRoot: "/work/app", inputTokens: 200, outputTokens: 80, cacheReadInputTokens: 0, cacheCreationInputTokens: 0, costUsd: 0, durationMs: 2000, isError: false },
+  ]),
+}));
+
 vi.mock("./settings-manager.js", () => ({
   DEFAULT_OPENROUTER_MODEL: "openrouter/free",
+  isStuckAction: (value: unknown) => value === "notify" || value === "interrupt" || value === "relaunch",
   getSettings: vi.fn(() => ({
     openrouterApiKey: "",
     openrouterModel: "openrouter/free",
@@ -67,6 +120,12 @@ vi.mock("./settings-manager.js", () => ({
     linearAutoTransitionStateId: "",
     linearAutoTransitionStateName: "",
     editorTabEnabled: false,
+    maxConcurrentSessions: 0,
+    maxSessionsPerRepo: 0,
+    maxSessionsPerBackend: 0,
+    idleSuspendMinutes: 0,
+    stuckAfterMinutes: 0,
+    stuckAction: "notify",
     updatedAt: 0,
   })),
   updateSettings: vi.fn((patch) => ({
@@ -77,10 +136,34 @@ vi.mock("./settings-manager.js", () => ({
     linearAutoTransitionStateId: patch.linearAutoTransitionStateId ?? "",
     linearAutoTransitionStateName: patch.linearAutoTransitionStateName ?? "",
     editorTabEnabled: patch.editorTabEnabled ?? false,
+    maxConcurrentSessions: patch.maxConcurrentSessions ?? 0,
+    maxSessionsPerRepo: patch.maxSessionsPerRepo ?? 0,
+    maxSessionsPerBackend: patch.maxSessionsPerBackend ?? 0,
+    idleSuspendMinutes: patch.idleSuspendMinutes ?? 0,
+    stuckAfterMinutes: patch.stuckAfterMinutes ?? 0,
+    stuckAction: patch.stuckAction ?? "notify",
     updatedAt: Date.now(),
   })),
 }));
 
+const mockAssistantConfig = vi.hoisted(() => ({
+  enabled: false,
+  model: "",
+  permissionMode: "default",
+  cwd: "/home/test/.companion/assistant",
+  sessionId: null as string | null,
+  updatedAt: 0,
+}));
+vi.mock("./assistant-store.js", () => ({
+  getAssistantConfig: vi.fn(() => ({ ...mockAssistantConfig })),
+  updateAssistantConfig: vi.fn((patch: Record<string, unknown>) => {
+    for (const [k, v] of Object.entries(patch)) {
+      if (v !== undefined) (mockAssistantConfig as Record<string, unknown>)[k] = v;
+    }
+    return { ...mockAssistantConfig, updatedAt: Date.now() };
+  }),
+}));
+
 vi.mock("./linear-project-manager.js", () => ({
   listMappings: vi.fn(() => []),
   getMapping: vi.fn(() => null),
@@ -119,8 +202,10 @@ const mockGetClaudeSessionHistoryPage = vi.hoisted(() => vi.fn(
       messages: Array<{ id: string; role: "user" | "assistant"; content: string; timestamp: number }>;
     } | null
 ));
+const mockCopyClaudeSessionTranscript = vi.hoisted(() => vi.fn(() => true));
 vi.mock("./claude-session-history.js", () => ({
   getClaudeSessionHistoryPage: mockGetClaudeSessionHistoryPage,
+  copyClaudeSessionTranscript: mockCopyClaudeSessionTranscript,
 }));
 
 const mockGetUsageLimits = vi.hoisted(() => vi.fn());
@@ -180,15 +265,31 @@ vi.mock("./image-pull-manager.js", () => ({
   },
 }));
 
+// Auth is exercised in its own describe block; every other test runs authenticated.
+const mockVerifyAuthToken = vi.hoisted(() => vi.fn((_token: string | null | undefined) => true));
+vi.mock("./auth-manager.js", () => ({
+  verifyAuthToken: mockVerifyAuthToken,
+  getAuthToken: () => "secret-token",
+  extractRequestToken: (req: Request) => {
+    const header = req.headers.get("authorization");
+    return header ? header.replace(/^Bearer\s+/i, "") : new URL(req.url).searchParams.get("token");
+  },
+}));
+
 import { Hono } from "hono";
 import { execSync } from "node:child_process";
 import { existsSync, readFileSync } from "node:fs";
 import { createRoutes } from "./routes.js";
+import { permissionActionPath } from "./permission-actions.js";
 import * as envManager from "./env-manager.js";
 import * as promptManager from "./prompt-manager.js";
+import * as presetManager from "./preset-manager.js";
+import * as fanoutManager from "./fanout-manager.js";
 import * as gitUtils from "./git-utils.js";
 import * as sessionNames from "./session-names.js";
 import * as settingsManager from "./settings-manager.js";
+import * as costBudgets from "./cost-budgets.js";
+import * as usageLedger from "./usage-ledger.js";
 import * as linearProjectManager from "./linear-project-manager.js";
 import { containerManager } from "./container-manager.js";
 
@@ -208,6 +309,7 @@ function createMockLauncher() {
     getSession: vi.fn(),
     setArchived: vi.fn(),
     removeSession: vi.fn(),
+    drainLaunchQueue: vi.fn(),
   } as any;
 }
 
@@ -218,6 +320,11 @@ function createMockBridge() {
     getAllSessions: vi.fn(() => []),
     getCodexRateLimits: vi.fn(() => null),
     markContainerized: vi.fn(),
+    findPendingPermission: vi.fn(() => null),
+    answerPermissionRemotely: vi.fn(() => null),
+    refreshBudgets: vi.fn(),
+    getForkPoint: vi.fn(() => null),
+    seedForkedSession: vi.fn(),
   } as any;
 }
 
@@ -255,6 +362,7 @@ beforeEach(() => {
   mockUpdateCheckerState.isServiceMode = false;
   mockUpdateCheckerState.checking = false;
   mockUpdateCheckerState.updateInProgress = false;
+  mockVerifyAuthToken.mockImplementation(() => true);
   launcher = createMockLauncher();
   bridge = createMockBridge();
   sessionStore = createMockStore();
@@ -277,6 +385,352 @@ beforeEach(() => {
   mockImagePullWaitForReady.mockResolvedValue(true);
 });
 
+// ─── Cost budgets ────────────────────────────────────────────────────────────
+
+describe("cost budgets API", () => {
+  it("returns limits and today's spend", async () => {
+    const res = await app.request("/api/budgets");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(expect.objectContaining({ dailyUsd: 20, sessions: { s1: 5 } }));
+  });
+
+  it("sets a budget and re-evaluates every session", async () => {
+    const res = await app.request("/api/budgets", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scope: "session", target: "s1", limitUsd: 7.5 }),
+    });
+    expect(res.status).toBe(200);
+    expect(costBudgets.setBudgetLimit).toHaveBeenCalledWith("session", "s1", 7.5);
+    expect(bridge.refreshBudgets).toHaveBeenCalled();
+  });
+
+  it("clears a budget with a null limit", async () => {
+    await app.request("/api/budgets", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scope: "day", target: "", limitUsd: null }),
+    });
+    expect(costBudgets.setBudgetLimit).toHaveBeenCalledWith("day", "", null);
+  });
+
+  it("rejects unknown scopes and non-positive limits", async () => {
+    const badScope = await app.request("/api/budgets", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scope: "week", target: "", limitUsd: 5 }),
+    });
+    expect(badScope.status).toBe(400);
+    const badLimit = await app.request("/api/budgets", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scope: "session", target: "s1", limitUsd: -1 }),
+    });
+    expect(badLimit.status).toBe(400);
+    expect(costBudgets.setBudgetLimit).not.toHaveBeenCalled();
+    expect(bridge.refreshBudgets).not.toHaveBeenCalled();
+  });
+});
+
+describe("usage API", () => {
+  it("summarizes the ledger by the requested group", async () => {
+    const res = await app.request("/api/usage?groupBy=backend&from=2026-03-01&to=2026-03-31");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.totals).toEqual(expect.objectContaining({ costUsd: 0.5, turns: 2, inputTokens: 300 }));
+    expect(body.groups.map((g: { key: string }) => g.key)).toEqual(["claude", "codex"]);
+    expect(body.options.models).toEqual(["claude-sonnet-4-5", "gpt-5.1-codex"]);
+    // "to" is inclusive: the range ends at the start of the following day
+    expect(usageLedger.readUsage).toHaveBeenCalledWith({
+      from: new Date(2026, 2, 1).getTime(),
+      to: new Date(2026, 3, 1).getTime(),
+    });
+  });
+
+  it("filters by model and exports CSV", async () => {
+    const res = await app.request("/api/usage?model=gpt-5.1-codex&format=csv");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/csv");
+    const rows = (await res.text()).trim().split("\n");
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toContain("gpt-5.1-codex");
+  });
+
+  it("rejects malformed dates and unknown groupings", async () => {
+    expect((await app.request("/api/usage?from=yesterday")).status).toBe(400);
+    expect((await app.request("/api/usage?groupBy=week")).status).toBe(400);
+  });
+});
+
+describe("search API", () => {
+  let searchIndex: { search: ReturnType<typeof vi.fn>; facets: ReturnType<typeof vi.fn> };
+  let searchApp: Hono;
+
+  beforeEach(() => {
+    searchIndex = {
+      search: vi.fn(() => ({
+        hits: [{ sessionId: "s1", messageId: "u1", kind: "user", snippet: "flaky test", timestamp: 1, repoRoot: "/work/app", backendType: "claude" }],
+        total: 1,
+      })),
+      facets: vi.fn(() => ({ repos: ["/work/app"], backends: ["claude"] })),
+    };
+    searchApp = new Hono();
+    searchApp.route(
+      "/api",
+      createRoutes(launcher, bridge, sessionStore, tracker, terminalManager as any, undefined, undefined, undefined, undefined, undefined, searchIndex as any),
+    );
+  });
+
+  it("passes the query and filters to the index", async () => {
+    const res = await searchApp.request("/api/search?q=flaky&repo=/work/app&backend=claude&from=2026-03-01&to=2026-03-31&limit=10");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.total).toBe(1);
+    expect(body.hits[0].messageId).toBe("u1");
+    expect(body.options).toEqual({ repos: ["/work/app"], backends: ["claude"] });
+    // "to" is inclusive: the range ends at the start of the following day
+    expect(searchIndex.search).toHaveBeenCalledWith({
+      q: "flaky",
+      repoRoot: "/work/app",
+      backendType: "claude",
+      sessionId: undefined,
+      from: new Date(2026, 2, 1).getTime(),
+      to: new Date(2026, 3, 1).getTime(),
+      limit: 10,
+    });
+  });
+
+  it("rejects an empty query and malformed dates", async () => {
+    expect((await searchApp.request("/api/search?q=%20")).status).toBe(400);
+    expect((await searchApp.request("/api/search?q=x&from=yesterday")).status).toBe(400);
+    expect(searchIndex.search).not.toHaveBeenCalled();
+  });
+
+  it("returns 503 when no index is wired", async () => {
+    expect((await app.request("/api/search?q=flaky")).status).toBe(503);
+  });
+});
+
+// ─── Signed permission actions ───────────────────────────────────────────────
+
+describe("signed permission actions", () => {
+  const pending = {
+    sessionId: "s1",
+    request: { request_id: "req-1", tool_name: "Bash", input: { command: "npm publish" }, tool_use_id: "tu-1", timestamp: 0 },
+  };
+
+  beforeEach(() => {
+    // Links must work without the auth token.
+    mockVerifyAuthToken.mockImplementation(() => false);
+  });
+
+  it("shows a confirmation page on GET without answering", async () => {
+    bridge.findPendingPermission.mockReturnValue(pending);
+    const res = await app.request(permissionActionPath("req-1", "allow", "webhook"));
+
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain("Allow Bash?");
+    expect(html).toContain("npm publish");
+    expect(bridge.answerPermissionRemotely).not.toHaveBeenCalled();
+  });
+
+  it("answers on POST and records who used the link", async () => {
+    bridge.answerPermissionRemotely.mockReturnValue(pending);
+    const res = await app.request(permissionActionPath("req-1", "deny", "push:sub-1"), {
+      method: "POST",
+      headers: { Accept: "application/json", "X-Forwarded-For": "10.0.0.7" },
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, sessionId: "s1", behavior: "deny", toolName: "Bash" });
+    expect(bridge.answerPermissionRemotely).toHaveBeenCalledWith("req-1", "deny", {
+      via: "push",
+      actor: "push (iPhone Safari), 10.0.0.7",
+    });
+  });
+
+  it("rejects tampered links", async () => {
+    const allowPath = permissionActionPath("req-1", "allow", "webhook");
+    const res = await app.request(allowPath.replace("/allow?", "/deny?"), {
+      method: "POST",
+      headers: { Accept: "application/json" },
+    });
+
+    expect(res.status).toBe(403);
+    expect(bridge.answerPermissionRemotely).not.toHaveBeenCalled();
+  });
+
+  it("reports links for requests that are no longer pending as expired", async () => {
+    const res = await app.request(permissionActionPath("req-1", "allow", "webhook"), {
+      method: "POST",
+      headers: { Accept: "application/json" },
+    });
+
+    expect(res.status).toBe(410);
+    expect(await res.json()).toEqual({ error: "Permission request is no longer pending" });
+  });
+});
+
+// ─── Auth ────────────────────────────────────────────────────────────────────
+
+describe("auth", () => {
+  beforeEach(() => {
+    mockVerifyAuthToken.mockImplementation((token) => token === "secret-token");
+  });
+
+  it("rejects API requests without a token", async () => {
+    const res = await app.request("/api/sessions");
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Unauthorized" });
+    expect(launcher.listSessions).not.toHaveBeenCalled();
+  });
+
+  it("accepts a Bearer token", async () => {
+    const res = await app.request("/api/sessions", {
+      headers: { Authorization: "Bearer secret-token" },
+    });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("accepts a token query parameter", async () => {
+    const res = await app.request("/api/sessions?token=secret-token");
+
+    expect(res.status).toBe(200);
+  });
+
+  it("reports auth status without requiring a token", async () => {
+    const res = await app.request("/api/auth/status");
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ authenticated: false });
+  });
+
+  it("validates tokens via POST /api/auth/login", async () => {
+    const bad = await app.request("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: "wrong" }),
+    });
+    expect(bad.status).toBe(401);
+
+    const missing = await app.request("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect(missing.status).toBe(400);
+
+    const good = await app.request("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: "secret-token" }),
+    });
+    expect(good.status).toBe(200);
+    expect(await good.json()).toEqual({ ok: true });
+  });
+});
+
+// ─── Assistant ───────────────────────────────────────────────────────────────
+
+describe("Assistant API", () => {
+  const runningStatus = {
+    enabled: true,
+    running: true,
+    sessionId: "assistant-1",
+    state: "connected",
+    model: "",
+    permissionMode: "default",
+    cwd: "/home/test/.companion/assistant",
+  };
+  let assistantManager: { getStatus: ReturnType<typeof vi.fn>; launch: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn> };
+  let assistantApp: Hono;
+
+  beforeEach(() => {
+    mockAssistantConfig.enabled = false;
+    mockAssistantConfig.model = "";
+    mockAssistantConfig.permissionMode = "default";
+    assistantManager = {
+      getStatus: vi.fn(() => runningStatus),
+      launch: vi.fn(async () => runningStatus),
+      stop: vi.fn(async () => ({ ...runningStatus, running: false, state: "exited" })),
+    };
+    assistantApp = new Hono();
+    assistantApp.route(
+      "/api",
+      createRoutes(launcher, bridge, sessionStore, tracker, terminalManager as any, undefined, undefined, undefined, assistantManager as any),
+    );
+  });
+
+  it("GET /api/assistant/status returns the manager status", async () => {
+    const res = await assistantApp.request("/api/assistant/status");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(runningStatus);
+  });
+
+  it("returns 503 when no assistant manager is wired", async () => {
+    const res = await app.request("/api/assistant/status");
+    expect(res.status).toBe(503);
+  });
+
+  it("POST /api/assistant/launch launches the assistant", async () => {
+    const res = await assistantApp.request("/api/assistant/launch", { method: "POST" });
+    expect(res.status).toBe(200);
+    expect(assistantManager.launch).toHaveBeenCalled();
+  });
+
+  it("POST /api/assistant/launch surfaces launch errors", async () => {
+    assistantManager.launch.mockRejectedValueOnce(new Error("Container missing"));
+    const res = await assistantApp.request("/api/assistant/launch", { method: "POST" });
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "Container missing" });
+  });
+
+  it("POST /api/assistant/stop stops the assistant", async () => {
+    const res = await assistantApp.request("/api/assistant/stop", { method: "POST" });
+    expect(res.status).toBe(200);
+    expect((await res.json()).running).toBe(false);
+  });
+
+  it("GET /api/assistant/config omits the internal session id", async () => {
+    const res = await assistantApp.request("/api/assistant/config");
+    const json = await res.json();
+    expect(json).toMatchObject({ enabled: false, permissionMode: "default" });
+    expect(json).not.toHaveProperty("sessionId");
+  });
+
+  it("PUT /api/assistant/config updates fields", async () => {
+    const res = await assistantApp.request("/api/assistant/config", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled: true, model: " claude-sonnet-4-6 ", permissionMode: "plan" }),
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ enabled: true, model: "claude-sonnet-4-6", permissionMode: "plan" });
+  });
+
+  it("PUT /api/assistant/config validates types", async () => {
+    const res = await assistantApp.request("/api/assistant/config", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled: "yes" }),
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "enabled must be a boolean" });
+  });
+
+  it("PUT /api/assistant/config rejects empty payloads", async () => {
+    const res = await assistantApp.request("/api/assistant/config", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
 describe("POST /api/terminal/kill", () => {
   it("returns 400 when terminalId is missing", async () => {
     const res = await app.request("/api/terminal/kill", {
@@ -809,10 +1263,12 @@ describe("GET /api/sessions", () => {
       {
         sessionId: "s1", state: "running", cwd: "/a", name: "Fix auth bug",
         gitBranch: "", gitAhead: 0, gitBehind: 0, totalLinesAdded: 0, totalLinesRemoved: 0,
+        notificationsMuted: false,
       },
       {
         sessionId: "s2", state: "stopped", cwd: "/b",
         gitBranch: "", gitAhead: 0, gitBehind: 0, totalLinesAdded: 0, totalLinesRemoved: 0,
+        notificationsMuted: true,
       },
     ]);
   });
@@ -1140,6 +1596,135 @@ describe("POST /api/sessions/:id/relaunch", () => {
   });
 });
 
+describe("GET /api/sessions/:id/export", () => {
+  beforeEach(() => {
+    bridge.getSession.mockReturnValue({
+      state: { model: "claude-sonnet-4-5", cwd: "/repo", total_cost_usd: 0.1, num_turns: 1 },
+      messageHistory: [{ type: "user_message", id: "u1", content: "Hello there", timestamp: 1 }],
+    });
+    vi.mocked(sessionNames.getName).mockReturnValue("Greeting");
+  });
+
+  afterEach(() => {
+    vi.mocked(sessionNames.getName).mockReturnValue(undefined);
+  });
+
+  it("downloads the transcript as Markdown by default", async () => {
+    const res = await app.request("/api/sessions/s1/export");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/markdown");
+    expect(res.headers.get("content-disposition")).toBe('attachment; filename="greeting.md"');
+    const body = await res.text();
+    expect(body).toContain("# Greeting");
+    expect(body).toContain("Hello there");
+  });
+
+  it("renders HTML and JSON", async () => {
+    const html = await app.request("/api/sessions/s1/export?format=html");
+    expect(html.headers.get("content-type")).toContain("text/html");
+    expect(await html.text()).toContain("<title>Greeting</title>");
+
+    const json = await app.request("/api/sessions/s1/export?format=json");
+    expect((await json.json()).entries).toEqual([{ kind: "user", id: "u1", timestamp: 1, text: "Hello there" }]);
+  });
+
+  it("rejects unknown formats and sessions", async () => {
+    expect((await app.request("/api/sessions/s1/export?format=pdf")).status).toBe(400);
+    bridge.getSession.mockReturnValue(null);
+    expect((await app.request("/api/sessions/nope/export")).status).toBe(404);
+  });
+});
+
+describe("POST /api/sessions/:id/fork", () => {
+  const parent = {
+    sessionId: "s1",
+    cliSessionId: "cli-abc",
+    state: "connected",
+    cwd: "/repo",
+    model: "claude-sonnet-4-6",
+    permissionMode: "acceptEdits",
+    backendType: "claude",
+    createdAt: 1,
+  };
+
+  function fork(body: Record<string, unknown>) {
+    return app.request("/api/sessions/s1/fork", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("resumes the parent CLI session at the message with --fork-session", async () => {
+    launcher.getSession.mockReturnValue(parent);
+    bridge.getForkPoint.mockReturnValue("uuid-7");
+    vi.mocked(sessionNames.getName).mockReturnValueOnce("Fix login");
+
+    const res = await fork({ messageId: "msg-7" });
+
+    expect(res.status).toBe(200);
+    expect(bridge.getForkPoint).toHaveBeenCalledWith("s1", "msg-7");
+    expect(launcher.launch).toHaveBeenCalledWith({
+      model: "claude-sonnet-4-6",
+      permissionMode: "acceptEdits",
+      cwd: "/repo",
+      backendType: "claude",
+      resumeSessionId: "cli-abc",
+      resumeSessionAt: "uuid-7",
+      forkSession: true,
+      parentSessionId: "s1",
+    });
+    expect(bridge.seedForkedSession).toHaveBeenCalledWith("session-1", "s1", "msg-7");
+    expect(sessionNames.setName).toHaveBeenCalledWith("session-1", "Fix login (fork)");
+    expect(mockCopyClaudeSessionTranscript).not.toHaveBeenCalled();
+  });
+
+  it("forks into a fresh worktree of the current branch", async () => {
+    launcher.getSession.mockReturnValue(parent);
+    bridge.getForkPoint.mockReturnValue("uuid-7");
+    vi.mocked(gitUtils.getRepoInfo).mockReturnValue({
+      repoRoot: "/repo",
+      repoName: "repo",
+      currentBranch: "main",
+      defaultBranch: "main",
+      isWorktree: false,
+    });
+    vi.mocked(gitUtils.ensureWorktree).mockReturnValue({
+      worktreePath: "/wt/repo/main-1234",
+      branch: "main",
+      actualBranch: "main-wt-1234",
+      isNew: true,
+    });
+
+    const res = await fork({ messageId: "msg-7", useWorktree: true });
+
+    expect(res.status).toBe(200);
+    expect(gitUtils.ensureWorktree).toHaveBeenCalledWith("/repo", "main", expect.objectContaining({ forceNew: true }));
+    expect(mockCopyClaudeSessionTranscript).toHaveBeenCalledWith("cli-abc", "/wt/repo/main-1234");
+    expect(launcher.launch.mock.calls[0][0].cwd).toBe("/wt/repo/main-1234");
+    expect(tracker.addMapping).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: "session-1",
+      actualBranch: "main-wt-1234",
+      worktreePath: "/wt/repo/main-1234",
+    }));
+  });
+
+  it("rejects messages without a fork point and sessions that cannot fork", async () => {
+    launcher.getSession.mockReturnValue(parent);
+    expect((await fork({ messageId: "msg-x" })).status).toBe(400);
+
+    launcher.getSession.mockReturnValue({ ...parent, backendType: "codex" });
+    expect((await fork({ messageId: "msg-7" })).status).toBe(400);
+
+    launcher.getSession.mockReturnValue({ ...parent, cliSessionId: undefined });
+    expect((await fork({ messageId: "msg-7" })).status).toBe(409);
+
+    launcher.getSession.mockReturnValue(undefined);
+    expect((await fork({ messageId: "msg-7" })).status).toBe(404);
+    expect(launcher.launch).not.toHaveBeenCalled();
+  });
+});
+
 describe("DELETE /api/sessions/:id", () => {
   it("kills, removes, and closes session", async () => {
     const res = await app.request("/api/sessions/s1", { method: "DELETE" });
@@ -1438,6 +2023,252 @@ describe("Saved prompts API", () => {
   });
 });
 
+describe("Session presets API", () => {
+  const preset = {
+    id: "preset-1",
+    name: "Nightly review",
+    scope: "global" as const,
+    options: { backend: "claude" as const, model: "claude-opus-4-6", cwd: "/repo", permissionMode: "plan" },
+    initialPrompt: "Review yesterday's commits",
+    createdAt: 1,
+    updatedAt: 1,
+  };
+
+  it("creates a preset from the request body", async () => {
+    vi.mocked(presetManager.createPreset).mockReturnValue(preset);
+
+    const res = await app.request("/api/presets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Nightly review", scope: "project", cwd: "/repo", options: preset.options, promptId: "p1" }),
+    });
+
+    expect(res.status).toBe(201);
+    expect(presetManager.createPreset).toHaveBeenCalledWith({
+      name: "Nightly review",
+      scope: "project",
+      projectPath: "/repo",
+      options: preset.options,
+      initialPrompt: undefined,
+      promptId: "p1",
+    });
+  });
+
+  it("returns validation errors as 400", async () => {
+    vi.mocked(presetManager.createPreset).mockImplementation(() => {
+      throw new Error("Preset name is required");
+    });
+    const res = await app.request("/api/presets", { method: "POST", body: JSON.stringify({}) });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Preset name is required" });
+  });
+
+  it("launches a session from a preset, letting explicit fields win", async () => {
+    vi.mocked(presetManager.findPreset).mockReturnValue(preset);
+    vi.mocked(presetManager.resolvePresetPrompt).mockReturnValue("Review yesterday's commits");
+    bridge.getOrCreateSession = vi.fn();
+    bridge.injectUserMessage = vi.fn();
+
+    const res = await app.request("/api/sessions/create", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ presetId: "Nightly review", permissionMode: "bypassPermissions" }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(presetManager.findPreset).toHaveBeenCalledWith("Nightly review");
+    expect(launcher.launch).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "claude-opus-4-6", cwd: "/repo", permissionMode: "bypassPermissions" }),
+    );
+    // The first message waits in the bridge until the CLI connects.
+    expect(bridge.injectUserMessage).toHaveBeenCalledWith("session-1", "Review yesterday's commits");
+  });
+
+  it("refuses to link a container preset to a cron job", async () => {
+    vi.mocked(presetManager.findPreset).mockReturnValue({ ...preset, options: { ...preset.options, container: { image: "node:22" } } });
+
+    const res = await app.request("/api/cron/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Nightly", prompt: "Review", schedule: "0 8 * * *", cwd: "/repo", presetId: "Nightly review" }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Preset "Nightly review" sets container, which scheduled runs don\'t support yet' });
+  });
+
+  it("returns 404 for an unknown preset without launching", async () => {
+    vi.mocked(presetManager.findPreset).mockReturnValue(null);
+    const res = await app.request("/api/sessions/create", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ presetId: "missing" }),
+    });
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: "Preset not found" });
+    expect(launcher.launch).not.toHaveBeenCalled();
+  });
+});
+
+describe("Fan-out API", () => {
+  const repoInfo = {
+    repoRoot: "/repo",
+    repoName: "my-repo",
+    currentBranch: "main",
+    defaultBranch: "main",
+    isWorktree: false,
+  };
+  const group = {
+    id: "fan1",
+    prompt: "Fix the flaky test",
+    cwd: "/repo",
+    repoRoot: "/repo",
+    baseBranch: "main",
+    baseCommit: "abc123",
+    variants: [
+      { backend: "claude" as const, sessionId: "s1", label: "Claude", branch: "main-wt-1", worktreePath: "/wt/1" },
+      { backend: "codex" as const, sessionId: "s2", label: "Codex", branch: "main-wt-2", worktreePath: "/wt/2" },
+    ],
+    createdAt: 1,
+  };
+
+  it("rejects a fan-out with fewer than two variants", async () => {
+    const res = await app.request("/api/fanouts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ prompt: "Fix it", cwd: "/repo", variants: [{ backend: "claude" }] }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "A fan-out needs at least two variants" });
+    expect(launcher.launch).not.toHaveBeenCalled();
+  });
+
+  it("launches each variant in its own worktree and sends the prompt", async () => {
+    vi.mocked(gitUtils.getRepoInfo).mockReturnValueOnce(repoInfo);
+    vi.mocked(gitUtils.headCommit).mockReturnValueOnce("abc123");
+    vi.mocked(gitUtils.ensureWorktree)
+      .mockReturnValueOnce({ worktreePath: "/wt/1", branch: "main", actualBranch: "main-wt-1", isNew: true })
+      .mockReturnValueOnce({ worktreePath: "/wt/2", branch: "main", actualBranch: "main-wt-2", isNew: true });
+    launcher.launch
+      .mockReturnValueOnce({ sessionId: "s1", state: "starting", cwd: "/wt/1", createdAt: 1 })
+      .mockReturnValueOnce({ sessionId: "s2", state: "starting", cwd: "/wt/2", createdAt: 1 });
+    bridge.getOrCreateSession = vi.fn();
+    bridge.injectUserMessage = vi.fn();
+
+    const res = await app.request("/api/fanouts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        prompt: "Fix the flaky test",
+        cwd: "/repo",
+        variants: [{ backend: "claude", model: "claude-opus-4-6" }, { backend: "codex" }],
+        testCommand: "bun test",
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    expect(gitUtils.ensureWorktree).toHaveBeenCalledTimes(2);
+    expect(gitUtils.ensureWorktree).toHaveBeenCalledWith("/repo", "main", { baseBranch: "main", forceNew: true });
+    expect(launcher.launch).toHaveBeenCalledWith(
+      expect.objectContaining({ cwd: "/wt/1", model: "claude-opus-4-6", backendType: "claude" }),
+    );
+    expect(launcher.launch).toHaveBeenCalledWith(expect.objectContaining({ cwd: "/wt/2", backendType: "codex" }));
+    expect(bridge.injectUserMessage).toHaveBeenCalledWith("s1", "Fix the flaky test");
+    expect(bridge.injectUserMessage).toHaveBeenCalledWith("s2", "Fix the flaky test");
+    expect(fanoutManager.createFanout).toHaveBeenCalledWith(expect.objectContaining({
+      baseBranch: "main",
+      baseCommit: "abc123",
+      testCommand: "bun test",
+      variants: [
+        expect.objectContaining({ sessionId: "s1", label: "Claude · claude-opus-4-6", branch: "main-wt-1" }),
+        expect.objectContaining({ sessionId: "s2", label: "Codex", branch: "main-wt-2" }),
+      ],
+    }));
+    const json = await res.json();
+    expect(json.variants.map((v: { status: string }) => v.status)).toEqual(["exited", "exited"]);
+  });
+
+  it("runs the test command in the background and stores each result", async () => {
+    const withTests = { ...group, testCommand: "bun test" };
+    vi.mocked(fanoutManager.getFanout).mockReturnValue(withTests);
+    const finishers: Array<(result: object) => void> = [];
+    mockRunShellCommand.mockImplementation(() => new Promise((resolve) => finishers.push(resolve)));
+    const stored = structuredClone(withTests) as typeof withTests & {
+      variants: Array<{ testResult?: object }>;
+    };
+    vi.mocked(fanoutManager.updateFanout).mockImplementation((_id, update) => {
+      update(stored);
+      return stored;
+    });
+
+    try {
+      const res = await app.request("/api/fanouts/fan1/test", { method: "POST" });
+      expect(res.status).toBe(202);
+      expect((await res.json()).testsRunning).toBe(true);
+      expect(mockRunShellCommand).toHaveBeenCalledWith("bun test", expect.objectContaining({ cwd: "/wt/1" }));
+
+      const again = await app.request("/api/fanouts/fan1/test", { method: "POST" });
+      expect(again.status).toBe(409);
+
+      finishers[0]({ exitCode: 0, output: "ok", timedOut: false });
+      await vi.waitFor(() => expect(finishers).toHaveLength(2));
+      expect(stored.variants[0].testResult).toMatchObject({ passed: true, exitCode: 0 });
+      expect(mockRunShellCommand).toHaveBeenLastCalledWith("bun test", expect.objectContaining({ cwd: "/wt/2" }));
+
+      finishers[1]({ exitCode: 1, output: "1 failing", timedOut: false });
+      await vi.waitFor(async () => {
+        const res = await app.request("/api/fanouts/fan1");
+        expect((await res.json()).testsRunning).toBe(false);
+      });
+      expect(stored.variants[1].testResult).toMatchObject({ passed: false, exitCode: 1, output: "1 failing" });
+    } finally {
+      vi.mocked(fanoutManager.getFanout).mockReset().mockReturnValue(null);
+      vi.mocked(fanoutManager.updateFanout).mockReset().mockReturnValue(null);
+      mockRunShellCommand.mockReset();
+    }
+  });
+
+  it("merges the kept variant into the base branch and archives the rest", async () => {
+    vi.mocked(fanoutManager.getFanout).mockReturnValueOnce(group);
+    vi.mocked(fanoutManager.updateFanout).mockImplementationOnce((_id, update) => {
+      const copy = structuredClone(group);
+      update(copy);
+      return copy;
+    });
+
+    const res = await app.request("/api/fanouts/fan1/keep", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId: "s1", mode: "merge" }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(gitUtils.commitAll).toHaveBeenCalledWith("/wt/1", "Fan-out result: Claude");
+    expect(gitUtils.checkoutBranch).toHaveBeenCalledWith("/repo", "main");
+    expect(gitUtils.mergeBranch).toHaveBeenCalledWith("/repo", "main-wt-1");
+    expect(launcher.setArchived).toHaveBeenCalledWith("s2", true);
+    expect(launcher.setArchived).not.toHaveBeenCalledWith("s1", true);
+    expect((await res.json()).kept).toMatchObject({ sessionId: "s1", mode: "merge" });
+  });
+
+  it("refuses to keep a variant while the main repo has uncommitted changes", async () => {
+    vi.mocked(fanoutManager.getFanout).mockReturnValueOnce(group);
+    vi.mocked(gitUtils.isWorktreeDirty).mockReturnValueOnce(true);
+
+    const res = await app.request("/api/fanouts/fan1/keep", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId: "s1" }),
+    });
+
+    expect(res.status).toBe(409);
+    expect(gitUtils.mergeBranch).not.toHaveBeenCalled();
+    expect(launcher.setArchived).not.toHaveBeenCalled();
+  });
+});
+
 // ─── Image Pull Manager API ──────────────────────────────────────────────────
 
 describe("GET /api/images/:tag/status", () => {
@@ -1499,6 +2330,12 @@ describe("GET /api/settings", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 123,
     });
 
@@ -1513,6 +2350,12 @@ describe("GET /api/settings", () => {
       linearAutoTransition: false,
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
     });
   });
 
@@ -1525,6 +2368,12 @@ describe("GET /api/settings", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 123,
     });
 
@@ -1539,6 +2388,12 @@ describe("GET /api/settings", () => {
       linearAutoTransition: false,
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
     });
   });
 });
@@ -1553,6 +2408,12 @@ describe("PUT /api/settings", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 456,
     });
 
@@ -1580,6 +2441,12 @@ describe("PUT /api/settings", () => {
       linearAutoTransition: false,
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
     });
   });
 
@@ -1592,6 +2459,12 @@ describe("PUT /api/settings", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 789,
     });
 
@@ -1622,6 +2495,12 @@ describe("PUT /api/settings", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 999,
     });
 
@@ -1691,6 +2570,61 @@ describe("PUT /api/settings", () => {
     expect(json).toEqual({ error: "editorTabEnabled must be a boolean" });
   });
 
+  it("saves concurrency limits and retries queued launches", async () => {
+    const res = await app.request("/api/settings", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ maxConcurrentSessions: 3, idleSuspendMinutes: 30 }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(settingsManager.updateSettings).toHaveBeenCalledWith(expect.objectContaining({
+      maxConcurrentSessions: 3,
+      idleSuspendMinutes: 30,
+    }));
+    expect(launcher.drainLaunchQueue).toHaveBeenCalled();
+  });
+
+  it("returns 400 for a negative concurrency limit", async () => {
+    const res = await app.request("/api/settings", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ maxSessionsPerRepo: -1 }),
+    });
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json).toEqual({ error: "maxSessionsPerRepo must be a non-negative integer" });
+    expect(launcher.drainLaunchQueue).not.toHaveBeenCalled();
+  });
+
+  it("saves the stuck-session watchdog policy", async () => {
+    const res = await app.request("/api/settings", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ stuckAfterMinutes: 20, stuckAction: "interrupt" }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(settingsManager.updateSettings).toHaveBeenCalledWith(expect.objectContaining({
+      stuckAfterMinutes: 20,
+      stuckAction: "interrupt",
+    }));
+    expect(launcher.drainLaunchQueue).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an unknown stuck action", async () => {
+    const res = await app.request("/api/settings", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ stuckAction: "reboot" }),
+    });
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json).toEqual({ error: "stuckAction must be notify, interrupt or relaunch" });
+  });
+
   it("returns 400 when no settings fields are provided", async () => {
     const res = await app.request("/api/settings", {
       method: "PUT",
@@ -1721,6 +2655,12 @@ describe("GET /api/linear/issues", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -1739,6 +2679,12 @@ describe("GET /api/linear/issues", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -1811,6 +2757,12 @@ describe("GET /api/linear/issues", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -1890,6 +2842,12 @@ describe("GET /api/linear/issues", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -1934,6 +2892,12 @@ describe("GET /api/linear/connection", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -1952,6 +2916,12 @@ describe("GET /api/linear/connection", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -1992,6 +2962,12 @@ describe("POST /api/linear/issues/:id/transition", () => {
       linearAutoTransitionStateId: "state-123",
       linearAutoTransitionStateName: "In Progress",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2015,6 +2991,12 @@ describe("POST /api/linear/issues/:id/transition", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2037,6 +3019,12 @@ describe("POST /api/linear/issues/:id/transition", () => {
       linearAutoTransitionStateId: "state-123",
       linearAutoTransitionStateName: "In Progress",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2060,6 +3048,12 @@ describe("POST /api/linear/issues/:id/transition", () => {
       linearAutoTransitionStateId: "state-doing",
       linearAutoTransitionStateName: "Doing",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2118,6 +3112,12 @@ describe("POST /api/linear/issues/:id/transition", () => {
       linearAutoTransitionStateId: "state-doing",
       linearAutoTransitionStateName: "Doing",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2155,6 +3155,12 @@ describe("GET /api/linear/projects", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2173,6 +3179,12 @@ describe("GET /api/linear/projects", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2222,6 +3234,12 @@ describe("GET /api/linear/project-issues", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2240,6 +3258,12 @@ describe("GET /api/linear/project-issues", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -2304,6 +3328,12 @@ describe("GET /api/linear/project-issues", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
 
@@ -15,6 +15,7 @@ import * as envManager from "./env-manager.js";
 import * as gitUtils from "./git-utils.js";
 import * as sessionNames from "./session-names.js";
 import * as sessionLinearIssues from "./session-linear-issues.js";
+import * as presetManager from "./preset-manager.js";
 import { containerManager, ContainerManager, type ContainerConfig, type ContainerInfo } from "./container-manager.js";
 import type { CreationStepId } from "./session-types.js";
 import { hasContainerClaudeAuth } from "./claude-container-auth.js";
@@ -25,12 +26,25 @@ import { registerSkillRoutes } from "./routes/skills-routes.js";
 import { registerEnvRoutes } from "./routes/env-routes.js";
 import { registerCronRoutes } from "./routes/cron-routes.js";
 import { registerPromptRoutes } from "./routes/prompt-routes.js";
+import { registerPresetRoutes } from "./routes/preset-routes.js";
+import { registerFanoutRoutes } from "./routes/fanout-routes.js";
+import { registerHookRoutes } from "./routes/hook-routes.js";
+import { registerAutoApprovalRoutes } from "./routes/auto-approval-routes.js";
 import { registerSettingsRoutes } from "./routes/settings-routes.js";
 import { registerGitRoutes } from "./routes/git-routes.js";
 import { registerSystemRoutes } from "./routes/system-routes.js";
 import { registerLinearRoutes } from "./routes/linear-routes.js";
+import { registerAuthRoutes, requireAuth } from "./routes/auth-routes.js";
+import { registerAssistantRoutes } from "./routes/assistant-routes.js";
+import { registerNotificationRoutes } from "./routes/notification-routes.js";
+import { registerPermissionActionRoutes } from "./routes/permission-action-routes.js";
+import { registerBudgetRoutes } from "./routes/budget-routes.js";
+import { registerUsageRoutes } from "./routes/usage-routes.js";
+import { registerSearchRoutes } from "./routes/search-routes.js";
+import { exportSession, isExportFormat } from "./session-export.js";
+import { isSessionMuted } from "./notification-store.js";
 import { discoverClaudeSessions } from "./claude-session-discovery.js";
-import { getClaudeSessionHistoryPage } from "./claude-session-history.js";
+import { copyClaudeSessionTranscript, getClaudeSessionHistoryPage } from "./claude-session-history.js";
 
 const UPDATE_CHECK_STALE_MS = 5 * 60 * 1000;
 const ROUTES_DIR = dirname(fileURLToPath(import.meta.url));
@@ -51,13 +65,33 @@ export function createRoutes(
   prPoller?: import("./pr-poller.js").PRPoller,
   recorder?: import("./recorder.js").RecorderManager,
   cronScheduler?: import("./cron-scheduler.js").CronScheduler,
+  assistantManager?: import("./assistant-manager.js").AssistantManager,
+  notificationDispatcher?: import("./notification-dispatcher.js").NotificationDispatcher,
+  searchIndex?: import("./search-index.js").SearchIndex,
 ) {
   const api = new Hono();
 
+  // ─── Auth (must precede every other route) ────────────────────────
+
+  registerAuthRoutes(api);
+  registerPermissionActionRoutes(api, wsBridge);
+  api.use("*", requireAuth());
+
   // ─── SDK Sessions (--sdk-url) ─────────────────────────────────────
 
+  /** The preset's first message waits in the session until the backend connects. */
+  function sendPresetPrompt(preset: presetManager.SessionPreset | null, sessionId: string, backend: "claude" | "codex") {
+    const prompt = preset ? presetManager.resolvePresetPrompt(preset) : "";
+    if (!prompt) return;
+    wsBridge.getOrCreateSession(sessionId, backend);
+    wsBridge.injectUserMessage(sessionId, prompt);
+  }
+
   api.post("/sessions/create", async (c) => {
-    const body = await c.req.json().catch(() => ({}));
+    let body = await c.req.json().catch(() => ({}));
+    const preset = body.presetId ? presetManager.findPreset(String(body.presetId)) : null;
+    if (body.presetId && !preset) return c.json({ error: "Preset not found" }, 404);
+    if (preset) body = presetManager.applyPreset(preset, body);
     try {
       const resumeSessionAt = typeof body.resumeSessionAt === "string" && body.resumeSessionAt.trim()
         ? body.resumeSessionAt.trim()
@@ -280,6 +314,7 @@ export function createRoutes(
         containerManager.retrack(containerInfo.containerId, session.sessionId);
         wsBridge.markContainerized(session.sessionId, cwd);
       }
+      sendPresetPrompt(preset, session.sessionId, backend);
 
       // Track the worktree mapping
       if (worktreeInfo) {
@@ -304,7 +339,10 @@ export function createRoutes(
   // ─── SSE Session Creation (with progress streaming) ─────────────────────
 
   api.post("/sessions/create-stream", async (c) => {
-    const body = await c.req.json().catch(() => ({}));
+    let body = await c.req.json().catch(() => ({}));
+    const preset = body.presetId ? presetManager.findPreset(String(body.presetId)) : null;
+    if (body.presetId && !preset) return c.json({ error: "Preset not found" }, 404);
+    if (preset) body = presetManager.applyPreset(preset, body);
 
     const emitProgress = (
       stream: SSEStreamingApi,
@@ -604,6 +642,7 @@ export function createRoutes(
           containerManager.retrack(containerInfo.containerId, session.sessionId);
           wsBridge.markContainerized(session.sessionId, cwd);
         }
+        sendPresetPrompt(preset, session.sessionId, backend);
 
         // Track worktree mapping
         if (worktreeInfo) {
@@ -617,6 +656,27 @@ export function createRoutes(
           });
         }
 
+        // --- Step: Wait for a concurrency slot ---
+        if (session.queued) {
+          await launcher.waitForLaunchSlot(session.sessionId, (position, reason) => {
+            emitProgress(
+              stream,
+              "waiting_for_slot",
+              `Waiting for a free slot (position ${position} in queue)...`,
+              "in_progress",
+              reason,
+            ).catch(() => {});
+          });
+          if (session.state === "exited") {
+            await stream.writeSSE({
+              event: "error",
+              data: JSON.stringify({ error: "Session was stopped while waiting for a slot", step: "waiting_for_slot" }),
+            });
+            return;
+          }
+          await emitProgress(stream, "waiting_for_slot", "Slot available", "done");
+        }
+
         await emitProgress(stream, "launching_cli", "Session started", "done");
 
         // --- Done ---
@@ -660,6 +720,7 @@ export function createRoutes(
         gitBehind: bridge?.git_behind || 0,
         totalLinesAdded: bridge?.total_lines_added || 0,
         totalLinesRemoved: bridge?.total_lines_removed || 0,
+        notificationsMuted: isSessionMuted(s.sessionId),
       };
     });
     return c.json(enriched);
@@ -672,6 +733,25 @@ export function createRoutes(
     return c.json(session);
   });
 
+  // Transcript as Markdown, a self-contained HTML page, or JSON (?format=md|html|json).
+  api.get("/sessions/:id/export", (c) => {
+    const id = c.req.param("id");
+    const format = c.req.query("format") || "md";
+    if (!isExportFormat(format)) return c.json({ error: "format must be one of md, html, json" }, 400);
+    const session = wsBridge.getSession(id);
+    if (!session) return c.json({ error: "Session not found" }, 404);
+    const rendered = exportSession({
+      sessionId: id,
+      name: sessionNames.getName(id),
+      state: session.state,
+      history: session.messageHistory,
+      createdAt: launcher.getSession(id)?.createdAt,
+    }, format);
+    c.header("Content-Type", rendered.contentType);
+    c.header("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+    return c.body(rendered.body);
+  });
+
   api.get("/claude/sessions/discover", (c) => {
     const limitRaw = c.req.query("limit");
     const limit = limitRaw ? Number(limitRaw) : undefined;
@@ -867,6 +947,79 @@ export function createRoutes(
     return c.json({ ok: true });
   });
 
+  api.post("/sessions/:id/fork", async (c) => {
+    const id = c.req.param("id");
+    const body = await c.req.json().catch(() => ({}));
+    const parent = launcher.getSession(id);
+    if (!parent) return c.json({ error: "Session not found" }, 404);
+    if (parent.backendType === "codex") {
+      return c.json({ error: "Forking is only supported for Claude Code sessions" }, 400);
+    }
+    if (parent.containerId) {
+      return c.json({ error: "Forking containerized sessions is not supported" }, 400);
+    }
+    if (!parent.cliSessionId) {
+      return c.json({ error: "Session has not connected yet" }, 409);
+    }
+    const messageId = typeof body.messageId === "string" ? body.messageId : "";
+    const resumeSessionAt = messageId ? wsBridge.getForkPoint(id, messageId) : null;
+    if (!resumeSessionAt) {
+      return c.json({ error: "This message cannot be forked from" }, 400);
+    }
+    if (body.branch && !/^[a-zA-Z0-9/_.\-]+$/.test(body.branch)) {
+      return c.json({ error: "Invalid branch name" }, 400);
+    }
+
+    try {
+      let cwd = parent.cwd;
+      let worktreeInfo: { repoRoot: string; branch: string; actualBranch: string; worktreePath: string } | undefined;
+      if (body.useWorktree) {
+        const repoInfo = gitUtils.getRepoInfo(cwd);
+        if (!repoInfo) return c.json({ error: "Session is not in a git repository" }, 400);
+        const branch = body.branch || repoInfo.currentBranch;
+        // forceNew gives the fork its own checkout even when the branch is in use.
+        const result = gitUtils.ensureWorktree(repoInfo.repoRoot, branch, {
+          baseBranch: repoInfo.defaultBranch,
+          createBranch: body.createBranch,
+          forceNew: true,
+        });
+        cwd = result.worktreePath;
+        worktreeInfo = { repoRoot: repoInfo.repoRoot, branch, actualBranch: result.actualBranch, worktreePath: result.worktreePath };
+        if (!copyClaudeSessionTranscript(parent.cliSessionId, cwd)) {
+          console.warn(`[routes] Transcript for ${parent.cliSessionId} not found; fork may start without context`);
+        }
+      }
+
+      const session = launcher.launch({
+        model: parent.model,
+        permissionMode: parent.permissionMode,
+        cwd,
+        backendType: "claude",
+        resumeSessionId: parent.cliSessionId,
+        resumeSessionAt,
+        forkSession: true,
+        parentSessionId: id,
+      });
+      wsBridge.seedForkedSession(session.sessionId, id, messageId);
+
+      if (worktreeInfo) {
+        worktreeTracker.addMapping({
+          sessionId: session.sessionId,
+          ...worktreeInfo,
+          createdAt: Date.now(),
+        });
+      }
+      const parentName = sessionNames.getName(id);
+      if (parentName) sessionNames.setName(session.sessionId, `${parentName} (fork)`);
+
+      return c.json(session);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error("[routes] Failed to fork session:", msg);
+      return c.json({ error: msg }, 500);
+    }
+  });
+
   api.delete("/sessions/:id", async (c) => {
     const id = c.req.param("id");
     await launcher.kill(id);
@@ -882,9 +1035,7 @@ export function createRoutes(
     return c.json({ ok: true, worktree: worktreeResult });
   });
 
-  api.post("/sessions/:id/archive", async (c) => {
-    const id = c.req.param("id");
-    const body = await c.req.json().catch(() => ({}));
+  async function archiveSession(id: string, force?: boolean) {
     await launcher.kill(id);
 
     // Clean up container if any
@@ -893,9 +1044,15 @@ export function createRoutes(
     // Stop PR polling for this session
     prPoller?.unwatch(id);
 
-    const worktreeResult = cleanupWorktree(id, body.force);
+    const worktreeResult = cleanupWorktree(id, force);
     launcher.setArchived(id, true);
     sessionStore.setArchived(id, true);
+    return worktreeResult;
+  }
+
+  api.post("/sessions/:id/archive", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    const worktreeResult = await archiveSession(c.req.param("id"), body.force);
     return c.json({ ok: true, worktree: worktreeResult });
   });
 
@@ -1004,7 +1161,15 @@ export function createRoutes(
   registerEnvRoutes(api, { webDir: WEB_DIR });
 
   registerPromptRoutes(api);
-  registerSettingsRoutes(api);
+  registerPresetRoutes(api);
+  registerFanoutRoutes(api, { launcher, wsBridge, worktreeTracker, archiveSession });
+  registerHookRoutes(api);
+  registerAutoApprovalRoutes(api);
+  registerNotificationRoutes(api, notificationDispatcher);
+  registerBudgetRoutes(api, wsBridge);
+  registerUsageRoutes(api);
+  registerSearchRoutes(api, searchIndex);
+  registerSettingsRoutes(api, { launcher });
 
   // ─── Linear ────────────────────────────────────────────────────────
 
@@ -1020,6 +1185,7 @@ export function createRoutes(
 
   registerSkillRoutes(api);
   registerCronRoutes(api, cronScheduler);
+  registerAssistantRoutes(api, assistantManager);
 
   // ─── Worktree cleanup helper ────────────────────────────────────
 
@@ -0,0 +1,60 @@
+import type { Hono } from "hono";
+import { getAssistantConfig, updateAssistantConfig } from "../assistant-store.js";
+import type { AssistantManager } from "../assistant-manager.js";
+
+export function registerAssistantRoutes(
+  api: Hono,
+  assistantManager?: AssistantManager,
+): void {
+  api.get("/assistant/status", (c) => {
+    if (!assistantManager) return c.json({ error: "Assistant not available" }, 503);
+    return c.json(assistantManager.getStatus());
+  });
+
+  api.post("/assistant/launch", async (c) => {
+    if (!assistantManager) return c.json({ error: "Assistant not available" }, 503);
+    try {
+      return c.json(await assistantManager.launch());
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 500);
+    }
+  });
+
+  api.post("/assistant/stop", async (c) => {
+    if (!assistantManager) return c.json({ error: "Assistant not available" }, 503);
+    return c.json(await assistantManager.stop());
+  });
+
+  api.get("/assistant/config", (c) => {
+    const { sessionId: _sessionId, ...config } = getAssistantConfig();
+    return c.json(config);
+  });
+
+  api.put("/assistant/config", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+      return c.json({ error: "enabled must be a boolean" }, 400);
+    }
+    if (body.model !== undefined && typeof body.model !== "string") {
+      return c.json({ error: "model must be a string" }, 400);
+    }
+    if (body.permissionMode !== undefined && typeof body.permissionMode !== "string") {
+      return c.json({ error: "permissionMode must be a string" }, 400);
+    }
+    if (body.cwd !== undefined && typeof body.cwd !== "string") {
+      return c.json({ error: "cwd must be a string" }, 400);
+    }
+    const hasAnyField = ["enabled", "model", "permissionMode", "cwd"].some((k) => body[k] !== undefined);
+    if (!hasAnyField) {
+      return c.json({ error: "At least one config field is required" }, 400);
+    }
+
+    const { sessionId: _sessionId, ...config } = updateAssistantConfig({
+      enabled: body.enabled,
+      model: typeof body.model === "string" ? body.model.trim() : undefined,
+      permissionMode: typeof body.permissionMode === "string" ? body.permissionMode.trim() : undefined,
+      cwd: typeof body.cwd === "string" ? body.cwd.trim() : undefined,
+    });
+    return c.json(config);
+  });
+}
@@ -0,0 +1,34 @@
+import type { Hono, MiddlewareHandler } from "hono";
+import { extractRequestToken, verifyAuthToken } from "../auth-manager.js";
+
+/**
+ * Public auth endpoints. Must be registered before `requireAuth()` so the
+ * login page can reach them without a token.
+ */
+export function registerAuthRoutes(api: Hono): void {
+  api.get("/auth/status", (c) => {
+    return c.json({ authenticated: verifyAuthToken(extractRequestToken(c.req.raw)) });
+  });
+
+  api.post("/auth/login", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.token !== "string" || !body.token.trim()) {
+      return c.json({ error: "token is required" }, 400);
+    }
+    if (!verifyAuthToken(body.token.trim())) {
+      return c.json({ error: "Invalid token" }, 401);
+    }
+    return c.json({ ok: true });
+  });
+}
+
+/** Rejects any request that doesn't carry the Companion auth token. */
+export function requireAuth(): MiddlewareHandler {
+  return async (c, next) => {
+    if (c.req.method === "OPTIONS") return next();
+    if (!verifyAuthToken(extractRequestToken(c.req.raw))) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+    return next();
+  };
+}
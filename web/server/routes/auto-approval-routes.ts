@@ -0,0 +1,52 @@
+import type { Hono } from "hono";
+import * as autoApproval from "../auto-approval.js";
+
+function toRuleInput(body: Record<string, unknown>): autoApproval.AutoApprovalRuleInput {
+  const str = (key: string) => (typeof body[key] === "string" ? (body[key] as string) : undefined);
+  return {
+    enabled: typeof body.enabled === "boolean" ? body.enabled : undefined,
+    behavior: body.behavior as autoApproval.AutoApprovalBehavior | undefined,
+    toolName: str("toolName"),
+    pathGlob: str("pathGlob"),
+    commandPattern: str("commandPattern"),
+    scope: body.scope as autoApproval.AutoApprovalScope | undefined,
+    repoRoot: str("repoRoot"),
+    sessionId: str("sessionId"),
+    description: str("description"),
+  };
+}
+
+export function registerAutoApprovalRoutes(api: Hono): void {
+  api.get("/auto-approval/rules", (c) => {
+    const sessionId = c.req.query("sessionId");
+    const rules = autoApproval.listAutoApprovalRules();
+    // Session rules belong to one session; only list them for that session.
+    return c.json(rules.filter((r) => r.scope !== "session" || !sessionId || r.sessionId === sessionId));
+  });
+
+  api.post("/auto-approval/rules", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    try {
+      return c.json(autoApproval.createAutoApprovalRule(toRuleInput(body)), 201);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.put("/auto-approval/rules/:id", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    try {
+      const rule = autoApproval.updateAutoApprovalRule(c.req.param("id"), toRuleInput(body));
+      if (!rule) return c.json({ error: "Rule not found" }, 404);
+      return c.json(rule);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.delete("/auto-approval/rules/:id", (c) => {
+    const deleted = autoApproval.deleteAutoApprovalRule(c.req.param("id"));
+    if (!deleted) return c.json({ error: "Rule not found" }, 404);
+    return c.json({ ok: true });
+  });
+}
@@ -0,0 +1,33 @@
+import type { Hono } from "hono";
+import type { WsBridge } from "../ws-bridge.js";
+import * as costBudgets from "../cost-budgets.js";
+import * as cronStore from "../cron-store.js";
+
+const SCOPES = new Set(["session", "cron", "repo", "day"]);
+
+export function registerBudgetRoutes(api: Hono, wsBridge: WsBridge): void {
+  api.get("/budgets", (c) => c.json(costBudgets.getBudgetConfig()));
+
+  // Body: { scope, target, limitUsd } — limitUsd null clears the budget.
+  api.put("/budgets", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    const scope = body.scope as costBudgets.BudgetScope;
+    if (!SCOPES.has(scope)) return c.json({ error: "scope must be one of session, cron, repo, day" }, 400);
+    const target = typeof body.target === "string" ? body.target : "";
+    const limitUsd = body.limitUsd === null ? null : costBudgets.normalizeBudgetUsd(body.limitUsd);
+    if (limitUsd === undefined) return c.json({ error: "limitUsd must be a positive amount or null" }, 400);
+
+    try {
+      if (scope === "cron") {
+        const job = cronStore.updateJob(target, { budgetUsd: limitUsd ?? undefined });
+        if (!job) return c.json({ error: "Job not found" }, 404);
+      } else {
+        costBudgets.setBudgetLimit(scope, target, limitUsd);
+      }
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+    wsBridge.refreshBudgets();
+    return c.json(costBudgets.getBudgetConfig());
+  });
+}
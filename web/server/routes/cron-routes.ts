@@ -1,6 +1,74 @@
 import type { Hono } from "hono";
 import * as cronStore from "../cron-store.js";
+import * as cronHistory from "../cron-history.js";
 import type { CronScheduler } from "../cron-scheduler.js";
+import { isThinkingLevel, normalizeThinkingTokens } from "../thinking-budget.js";
+import { normalizeBudgetUsd } from "../cost-budgets.js";
+import * as presetManager from "../preset-manager.js";
+import { parseCronTrigger } from "../cron-triggers.js";
+import type { CronJob, CronOverlapPolicy } from "../cron-types.js";
+
+const OVERLAP_POLICIES: readonly CronOverlapPolicy[] = ["skip", "queue", "kill"];
+const MAX_RETRIES = 10;
+
+type RunPolicy = Pick<CronJob, "overlapPolicy" | "maxRuntimeMinutes" | "maxRetries" | "retryBackoffSeconds">;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/** Run policy fields present in `body`; null / "" resets one to its default. Throws with a message for the user. */
+function parseRunPolicy(body: Record<string, unknown>): Partial<RunPolicy> {
+  const policy: Partial<RunPolicy> = {};
+  if ("overlapPolicy" in body) {
+    if (!isBlank(body.overlapPolicy) && !OVERLAP_POLICIES.includes(body.overlapPolicy as CronOverlapPolicy)) {
+      throw new Error("overlapPolicy must be skip, queue or kill");
+    }
+    policy.overlapPolicy = isBlank(body.overlapPolicy) ? undefined : body.overlapPolicy as CronOverlapPolicy;
+  }
+  if ("maxRuntimeMinutes" in body) {
+    // 0 removes the limit
+    const minutes = Number(body.maxRuntimeMinutes);
+    if (!isBlank(body.maxRuntimeMinutes) && !(Number.isFinite(minutes) && minutes >= 0)) {
+      throw new Error("maxRuntimeMinutes must be a positive number");
+    }
+    policy.maxRuntimeMinutes = isBlank(body.maxRuntimeMinutes) || minutes === 0 ? undefined : minutes;
+  }
+  if ("maxRetries" in body) {
+    const retries = Number(body.maxRetries);
+    if (!isBlank(body.maxRetries) && !(Number.isInteger(retries) && retries >= 0 && retries <= MAX_RETRIES)) {
+      throw new Error(`maxRetries must be a whole number from 0 to ${MAX_RETRIES}`);
+    }
+    policy.maxRetries = isBlank(body.maxRetries) || retries === 0 ? undefined : retries;
+  }
+  if ("retryBackoffSeconds" in body) {
+    const seconds = Number(body.retryBackoffSeconds);
+    if (!isBlank(body.retryBackoffSeconds) && !(Number.isFinite(seconds) && seconds > 0)) {
+      throw new Error("retryBackoffSeconds must be a positive number");
+    }
+    policy.retryBackoffSeconds = isBlank(body.retryBackoffSeconds) ? undefined : seconds;
+  }
+  return policy;
+}
+
+function validateThinkingBudget(body: Record<string, unknown>): string | null {
+  if (body.thinkingLevel !== undefined && body.thinkingLevel !== null && !isThinkingLevel(body.thinkingLevel)) {
+    return "thinkingLevel must be one of off, low, medium, high, custom";
+  }
+  if (body.thinkingLevel === "custom" && normalizeThinkingTokens(body.thinkingTokens) === undefined) {
+    return "thinkingTokens must be a positive number for a custom thinking budget";
+  }
+  return null;
+}
+
+/** Accepts a preset id or name; "" / null unlinks the preset. Presets cron can't run are rejected. */
+function resolvePresetId(value: unknown): string | undefined {
+  if (!value) return undefined;
+  const preset = presetManager.findPreset(String(value));
+  if (!preset) throw new Error("Preset not found");
+  presetManager.assertCronCompatible(preset);
+  return preset.id;
+}
 
 export function registerCronRoutes(
   api: Hono,
@@ -26,6 +94,8 @@ export function registerCronRoutes(
 
   api.post("/cron/jobs", async (c) => {
     const body = await c.req.json().catch(() => ({}));
+    const budgetError = validateThinkingBudget(body);
+    if (budgetError) return c.json({ error: budgetError }, 400);
     try {
       const job = cronStore.createJob({
         name: body.name || "",
@@ -39,6 +109,12 @@ export function registerCronRoutes(
         enabled: body.enabled ?? true,
         permissionMode: body.permissionMode || "bypassPermissions",
         codexInternetAccess: body.codexInternetAccess,
+        thinkingLevel: body.thinkingLevel || undefined,
+        thinkingTokens: body.thinkingLevel === "custom" ? normalizeThinkingTokens(body.thinkingTokens) : undefined,
+        budgetUsd: normalizeBudgetUsd(body.budgetUsd),
+        presetId: resolvePresetId(body.presetId),
+        trigger: parseCronTrigger(body.trigger),
+        ...parseRunPolicy(body),
       });
       if (job.enabled) cronScheduler?.scheduleJob(job);
       return c.json(job, 201);
@@ -50,12 +126,30 @@ export function registerCronRoutes(
   api.put("/cron/jobs/:id", async (c) => {
     const id = c.req.param("id");
     const body = await c.req.json().catch(() => ({}));
+    const budgetError = validateThinkingBudget(body);
+    if (budgetError) return c.json({ error: budgetError }, 400);
     try {
       // Only allow user-editable fields — prevent tampering with internal tracking
       const allowed: Record<string, unknown> = {};
-      for (const key of ["name", "prompt", "schedule", "recurring", "backendType", "model", "cwd", "envSlug", "enabled", "permissionMode", "codexInternetAccess"] as const) {
+      for (const key of ["name", "prompt", "schedule", "recurring", "backendType", "model", "cwd", "envSlug", "enabled", "permissionMode", "codexInternetAccess", "thinkingLevel", "thinkingTokens"] as const) {
         if (key in body) allowed[key] = body[key];
       }
+      // null / "" clears the budget back to the backend default
+      if ("thinkingLevel" in body && !body.thinkingLevel) allowed.thinkingLevel = undefined;
+      if ("thinkingTokens" in body) allowed.thinkingTokens = normalizeThinkingTokens(body.thinkingTokens);
+      // null / "" / 0 removes the cost cap
+      if ("budgetUsd" in body) allowed.budgetUsd = normalizeBudgetUsd(body.budgetUsd);
+      if ("presetId" in body) allowed.presetId = resolvePresetId(body.presetId);
+      if ("trigger" in body) {
+        allowed.trigger = parseCronTrigger(body.trigger);
+        // A different branch (or none) starts from a fresh baseline
+        if (JSON.stringify(cronStore.getJob(id)?.trigger) !== JSON.stringify(allowed.trigger)) {
+          allowed.lastSeenCommit = undefined;
+        }
+      }
+      Object.assign(allowed, parseRunPolicy(body));
+      // Turning a job back on gives it a clean slate
+      if (body.enabled === true && cronStore.getJob(id)?.enabled === false) Object.assign(allowed, { disabledReason: undefined, consecutiveFailures: 0 });
       const job = cronStore.updateJob(id, allowed);
       if (!job) return c.json({ error: "Job not found" }, 404);
       // Stop the old timer (id may differ from job.id after a rename)
@@ -79,7 +173,11 @@ export function registerCronRoutes(
     const id = c.req.param("id");
     const job = cronStore.getJob(id);
     if (!job) return c.json({ error: "Job not found" }, 404);
-    const updated = cronStore.updateJob(id, { enabled: !job.enabled });
+    const updated = cronStore.updateJob(
+      id,
+      // Turning a job back on gives it a clean slate
+      job.enabled ? { enabled: false } : { enabled: true, disabledReason: undefined, consecutiveFailures: 0 },
+    );
     if (updated?.enabled) {
       cronScheduler?.scheduleJob(updated);
     } else {
@@ -100,4 +198,18 @@ export function registerCronRoutes(
     const id = c.req.param("id");
     return c.json(cronScheduler?.getExecutions(id) ?? []);
   });
+
+  /** The diff captured when a run's first turn finished. */
+  api.get("/cron/jobs/:id/executions/:sessionId/diff", (c) => {
+    const execution = cronHistory.getExecution(c.req.param("id"), c.req.param("sessionId"));
+    if (!execution) return c.json({ error: "Execution not found" }, 404);
+    const diff = execution.hasDiff ? cronHistory.getDiff(execution.sessionId) : null;
+    if (diff === null) return c.json({ error: "No diff was captured for this run" }, 404);
+    return c.json({ diff });
+  });
+
+  /** Runs of every job, newest first. */
+  api.get("/cron/executions", (c) => {
+    return c.json(cronScheduler?.getAllExecutions() ?? []);
+  });
 }
@@ -0,0 +1,225 @@
+import type { Hono } from "hono";
+import type { CliLauncher } from "../cli-launcher.js";
+import type { WsBridge } from "../ws-bridge.js";
+import type { WorktreeTracker } from "../worktree-tracker.js";
+import * as fanoutManager from "../fanout-manager.js";
+import * as gitUtils from "../git-utils.js";
+import * as sessionNames from "../session-names.js";
+import { runShellCommand } from "../shell-command.js";
+import { sessionSpendUsd } from "../ws-bridge-types.js";
+
+const TEST_TIMEOUT_MS = 10 * 60_000;
+
+export interface FanoutRouteDeps {
+  launcher: CliLauncher;
+  wsBridge: WsBridge;
+  worktreeTracker: WorktreeTracker;
+  /** Same as POST /sessions/:id/archive: kill, drop the worktree, mark archived */
+  archiveSession: (sessionId: string, force?: boolean) => Promise<unknown>;
+}
+
+export function registerFanoutRoutes(api: Hono, deps: FanoutRouteDeps): void {
+  const { launcher, wsBridge, worktreeTracker, archiveSession } = deps;
+
+  /** Fan-out ids whose test command is running in the background */
+  const testRuns = new Set<string>();
+
+  async function runTests(group: fanoutManager.FanoutGroup, testCommand: string): Promise<void> {
+    for (const variant of group.variants) {
+      if (launcher.getSession(variant.sessionId)?.archived) continue;
+      const result = await runShellCommand(testCommand, {
+        cwd: variant.worktreePath,
+        timeoutMs: TEST_TIMEOUT_MS,
+      });
+      fanoutManager.updateFanout(group.id, (g) => {
+        const stored = g.variants.find((v) => v.sessionId === variant.sessionId);
+        if (!stored) return;
+        stored.testResult = {
+          passed: result.exitCode === 0 && !result.timedOut,
+          exitCode: result.exitCode,
+          output: result.output,
+          ranAt: Date.now(),
+        };
+      });
+    }
+  }
+
+  /** The stored group plus each variant's live status, cost and turn count. */
+  function withLiveStats(group: fanoutManager.FanoutGroup) {
+    return {
+      ...group,
+      testsRunning: testRuns.has(group.id),
+      variants: group.variants.map((variant) => {
+        const info = launcher.getSession(variant.sessionId);
+        const state = wsBridge.getSession(variant.sessionId)?.state;
+        return {
+          ...variant,
+          status: info?.state ?? "exited",
+          archived: info?.archived === true,
+          costUsd: state ? sessionSpendUsd(state) : 0,
+          numTurns: state?.num_turns ?? 0,
+        };
+      }),
+    };
+  }
+
+  api.get("/fanouts", (c) => {
+    const cwd = c.req.query("cwd");
+    const groups = fanoutManager.listFanouts().filter((g) => !cwd || g.cwd === cwd);
+    return c.json(groups.map(withLiveStats));
+  });
+
+  api.get("/fanouts/:id", (c) => {
+    const group = fanoutManager.getFanout(c.req.param("id"));
+    if (!group) return c.json({ error: "Fan-out not found" }, 404);
+    return c.json(withLiveStats(group));
+  });
+
+  api.post("/fanouts", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    const prompt = typeof body.prompt === "string" ? body.prompt.trim() : "";
+    if (!prompt) return c.json({ error: "prompt is required" }, 400);
+    if (typeof body.cwd !== "string" || !body.cwd) return c.json({ error: "cwd is required" }, 400);
+    let configs: fanoutManager.FanoutVariantConfig[];
+    try {
+      configs = fanoutManager.parseVariantConfigs(body.variants);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+    const repoInfo = gitUtils.getRepoInfo(body.cwd);
+    if (!repoInfo) return c.json({ error: "Fan-out runs need a git repository" }, 400);
+    const baseCommit = gitUtils.headCommit(repoInfo.repoRoot);
+    if (!baseCommit) return c.json({ error: "Repository has no commits yet" }, 400);
+
+    const id = crypto.randomUUID().slice(0, 8);
+    const variants: fanoutManager.FanoutVariant[] = [];
+    try {
+      for (const config of configs) {
+        // forceNew gives every variant its own branch off the current one.
+        const worktree = gitUtils.ensureWorktree(repoInfo.repoRoot, repoInfo.currentBranch, {
+          baseBranch: repoInfo.defaultBranch,
+          forceNew: true,
+        });
+        const session = launcher.launch({
+          model: config.model,
+          permissionMode: config.permissionMode,
+          cwd: worktree.worktreePath,
+          backendType: config.backend,
+          codexInternetAccess: config.backend === "codex",
+          codexSandbox: config.backend === "codex" ? "danger-full-access" : undefined,
+        });
+        session.fanoutId = id;
+        worktreeTracker.addMapping({
+          sessionId: session.sessionId,
+          repoRoot: repoInfo.repoRoot,
+          branch: worktree.branch,
+          actualBranch: worktree.actualBranch,
+          worktreePath: worktree.worktreePath,
+          createdAt: Date.now(),
+        });
+        const label = fanoutManager.variantLabel(config);
+        sessionNames.setName(session.sessionId, `Fan-out: ${label}`);
+        variants.push({
+          ...config,
+          sessionId: session.sessionId,
+          label,
+          branch: worktree.actualBranch,
+          worktreePath: worktree.worktreePath,
+        });
+        // Queued until the backend connects
+        wsBridge.getOrCreateSession(session.sessionId, config.backend);
+        wsBridge.injectUserMessage(session.sessionId, prompt);
+      }
+    } catch (e: unknown) {
+      // Don't leave half a group running
+      for (const variant of variants) await archiveSession(variant.sessionId, true);
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error("[fanout] Failed to launch fan-out:", msg);
+      return c.json({ error: msg }, 500);
+    }
+
+    const testCommand = typeof body.testCommand === "string" && body.testCommand.trim()
+      ? body.testCommand.trim()
+      : undefined;
+    const group = fanoutManager.createFanout({
+      id,
+      prompt,
+      cwd: body.cwd,
+      repoRoot: repoInfo.repoRoot,
+      baseBranch: repoInfo.currentBranch,
+      baseCommit,
+      testCommand,
+      variants,
+    });
+    return c.json(withLiveStats(group), 201);
+  });
+
+  api.get("/fanouts/:id/diff", (c) => {
+    const group = fanoutManager.getFanout(c.req.param("id"));
+    if (!group) return c.json({ error: "Fan-out not found" }, 404);
+    const variant = group.variants.find((v) => v.sessionId === c.req.query("sessionId"));
+    if (!variant) return c.json({ error: "Variant not found" }, 404);
+    return c.json({ diff: gitUtils.diffSince(variant.worktreePath, group.baseCommit) });
+  });
+
+  /**
+   * Run the group's test command in every variant's worktree, one at a time.
+   * The runs outlive any HTTP request, so this returns at once; each result is
+   * stored as it lands and the page polls GET /fanouts/:id for them.
+   */
+  api.post("/fanouts/:id/test", (c) => {
+    const group = fanoutManager.getFanout(c.req.param("id"));
+    if (!group) return c.json({ error: "Fan-out not found" }, 404);
+    if (!group.testCommand) return c.json({ error: "This fan-out has no test command" }, 400);
+    if (testRuns.has(group.id)) return c.json({ error: "Tests are already running" }, 409);
+    const testCommand = group.testCommand;
+    testRuns.add(group.id);
+    void runTests(group, testCommand)
+      .catch((e: unknown) => {
+        console.error(`[fanout] Test run for ${group.id} failed:`, e instanceof Error ? e.message : String(e));
+      })
+      .finally(() => testRuns.delete(group.id));
+    return c.json(withLiveStats(group), 202);
+  });
+
+  /** Keep one variant: merge or check out its branch, then archive the others. */
+  api.post("/fanouts/:id/keep", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    const group = fanoutManager.getFanout(c.req.param("id"));
+    if (!group) return c.json({ error: "Fan-out not found" }, 404);
+    if (group.kept) return c.json({ error: "A variant was already kept" }, 409);
+    const winner = group.variants.find((v) => v.sessionId === body.sessionId);
+    if (!winner) return c.json({ error: "Variant not found" }, 404);
+    const mode: fanoutManager.FanoutKeepMode = body.mode === "checkout" ? "checkout" : "merge";
+    if (gitUtils.isWorktreeDirty(group.repoRoot)) {
+      return c.json({ error: `Commit or stash the changes in ${group.repoRoot} first` }, 409);
+    }
+
+    try {
+      gitUtils.commitAll(winner.worktreePath, `Fan-out result: ${winner.label}`);
+      if (mode === "merge") {
+        gitUtils.checkoutBranch(group.repoRoot, group.baseBranch);
+        const merge = gitUtils.mergeBranch(group.repoRoot, winner.branch);
+        if (!merge.success) return c.json({ error: `Merge failed: ${merge.output}` }, 409);
+      } else {
+        // The branch can only be checked out in one place: retire the winner's
+        // worktree (its work is committed) and keep the branch itself.
+        await launcher.kill(winner.sessionId);
+        gitUtils.removeWorktree(group.repoRoot, winner.worktreePath);
+        worktreeTracker.removeBySession(winner.sessionId);
+        gitUtils.checkoutBranch(group.repoRoot, winner.branch);
+        await archiveSession(winner.sessionId);
+      }
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 500);
+    }
+
+    for (const variant of group.variants) {
+      if (variant.sessionId !== winner.sessionId) await archiveSession(variant.sessionId, true);
+    }
+    const updated = fanoutManager.updateFanout(group.id, (g) => {
+      g.kept = { sessionId: winner.sessionId, mode, at: Date.now() };
+    });
+    return c.json(withLiveStats(updated ?? group));
+  });
+}
@@ -0,0 +1,55 @@
+import type { Hono } from "hono";
+import * as hookRules from "../hook-rules.js";
+
+function toRuleInput(body: Record<string, unknown>): hookRules.HookRuleInput {
+  return {
+    name: typeof body.name === "string" ? body.name : undefined,
+    enabled: typeof body.enabled === "boolean" ? body.enabled : undefined,
+    event: body.event as hookRules.HookEvent | undefined,
+    toolPattern: typeof body.toolPattern === "string" ? body.toolPattern : undefined,
+    inputPattern: typeof body.inputPattern === "string" ? body.inputPattern : undefined,
+    outsideCwd: typeof body.outsideCwd === "boolean" ? body.outsideCwd : undefined,
+    decision: body.decision as hookRules.HookRuleDecision | undefined,
+    reason: typeof body.reason === "string" ? body.reason : undefined,
+  };
+}
+
+export function registerHookRoutes(api: Hono): void {
+  api.get("/hooks/rules", (c) => c.json(hookRules.listHookRules()));
+
+  api.post("/hooks/rules", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    try {
+      return c.json(hookRules.createHookRule(toRuleInput(body)), 201);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.put("/hooks/rules/:id", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    try {
+      const rule = hookRules.updateHookRule(c.req.param("id"), toRuleInput(body));
+      if (!rule) return c.json({ error: "Rule not found" }, 404);
+      return c.json(rule);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.delete("/hooks/rules/:id", (c) => {
+    const deleted = hookRules.deleteHookRule(c.req.param("id"));
+    if (!deleted) return c.json({ error: "Rule not found" }, 404);
+    return c.json({ ok: true });
+  });
+
+  api.get("/hooks/audit", (c) => {
+    const limit = Number(c.req.query("limit"));
+    return c.json(hookRules.listHookAudit(Number.isFinite(limit) && limit > 0 ? Math.floor(limit) : undefined));
+  });
+
+  api.delete("/hooks/audit", (c) => {
+    hookRules.clearHookAudit();
+    return c.json({ ok: true });
+  });
+}
@@ -0,0 +1,59 @@
+import type { Hono } from "hono";
+import * as notificationStore from "../notification-store.js";
+import type { NotificationDispatcher } from "../notification-dispatcher.js";
+
+export function registerNotificationRoutes(
+  api: Hono,
+  dispatcher?: NotificationDispatcher,
+): void {
+  api.get("/notifications/settings", (c) => c.json(notificationStore.getNotificationSettings()));
+
+  api.put("/notifications/settings", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    const events = body.events && typeof body.events === "object" ? body.events : undefined;
+    try {
+      return c.json(notificationStore.updateNotificationSettings({
+        webhookUrl: typeof body.webhookUrl === "string" ? body.webhookUrl : undefined,
+        baseUrl: typeof body.baseUrl === "string" ? body.baseUrl : undefined,
+        events: events
+          ? {
+            permission_request: typeof events.permission_request === "boolean" ? events.permission_request : undefined,
+            result: typeof events.result === "boolean" ? events.result : undefined,
+          }
+          : undefined,
+      }));
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.post("/notifications/subscriptions", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    try {
+      const sub = notificationStore.addPushSubscription(body, c.req.header("user-agent"));
+      return c.json({ id: sub.id, createdAt: sub.createdAt }, 201);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.delete("/notifications/subscriptions", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.endpoint !== "string" || !body.endpoint) {
+      return c.json({ error: "endpoint is required" }, 400);
+    }
+    return c.json({ ok: true, removed: notificationStore.removePushSubscription(body.endpoint) });
+  });
+
+  api.put("/notifications/sessions/:id/mute", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.muted !== "boolean") return c.json({ error: "muted must be a boolean" }, 400);
+    notificationStore.setSessionMuted(c.req.param("id"), body.muted);
+    return c.json({ ok: true, muted: body.muted });
+  });
+
+  api.post("/notifications/test", async (c) => {
+    if (!dispatcher) return c.json({ error: "Notifications are not available" }, 503);
+    return c.json(await dispatcher.sendTest());
+  });
+}
@@ -0,0 +1,130 @@
+import type { Context, Hono } from "hono";
+import type { WsBridge } from "../ws-bridge.js";
+import { getNotificationConfig } from "../notification-store.js";
+import {
+  describeUserAgent,
+  isPermissionActionBehavior,
+  verifyPermissionAction,
+  type PermissionActionBehavior,
+} from "../permission-actions.js";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Tiny standalone page so a phone can act on a link without loading the SPA. */
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · The Companion</title>
+<style>
+  body { font: 15px/1.5 -apple-system, system-ui, sans-serif; background: #262624; color: #f5f4ef; margin: 0; padding: 24px; }
+  main { max-width: 480px; margin: 0 auto; }
+  h1 { font-size: 18px; margin: 0 0 12px; }
+  pre { background: #30302e; padding: 12px; border-radius: 8px; white-space: pre-wrap; word-break: break-word; font-size: 13px; }
+  button { font: inherit; padding: 10px 18px; border: 0; border-radius: 8px; color: #fff; cursor: pointer; }
+  .allow { background: #d97757; }
+  .deny { background: #b53a3a; }
+  .muted { color: #a8a59c; font-size: 13px; }
+</style>
+</head>
+<body><main>${body}</main></body>
+</html>`;
+}
+
+function wantsJson(c: Context): boolean {
+  return (c.req.header("accept") || "").includes("application/json");
+}
+
+/** "push (iPhone Safari), 192.168.1.20" — best effort, for the audit trail. */
+function describeActor(c: Context, via: string): string {
+  const [channel, subscriptionId] = via.split(":");
+  const parts: string[] = [];
+  let device = describeUserAgent(c.req.header("user-agent"));
+  if (channel === "push" && subscriptionId) {
+    const sub = getNotificationConfig().subscriptions.find((s) => s.id === subscriptionId);
+    device = describeUserAgent(sub?.userAgent) ?? device;
+  }
+  parts.push(device ? `${channel} (${device})` : channel);
+  const forwarded = c.req.header("x-forwarded-for")?.split(",")[0]?.trim();
+  const server = c.env as { requestIP?: (req: Request) => { address: string } | null } | undefined;
+  const address = forwarded || server?.requestIP?.(c.req.raw)?.address;
+  if (address) parts.push(address);
+  return parts.join(", ");
+}
+
+function summarizeInput(input: Record<string, unknown>): string {
+  if (typeof input.command === "string") return input.command;
+  if (typeof input.file_path === "string") return input.file_path;
+  return JSON.stringify(input, null, 2).slice(0, 1200);
+}
+
+/**
+ * Public signed permission actions. Must be registered before `requireAuth()`:
+ * the signature replaces the auth token.
+ */
+export function registerPermissionActionRoutes(api: Hono, wsBridge: WsBridge): void {
+  function verify(c: Context): { requestId: string; behavior: PermissionActionBehavior; via: string } | null {
+    const requestId = c.req.param("requestId") ?? "";
+    const behavior = c.req.param("behavior");
+    const via = c.req.query("via") || "";
+    if (!isPermissionActionBehavior(behavior) || !via) return null;
+    if (!verifyPermissionAction(requestId, behavior, via, c.req.query("sig"))) return null;
+    return { requestId, behavior, via };
+  }
+
+  // GET only shows a confirmation: link previews and prefetchers must not answer the request.
+  api.get("/permissions/:requestId/:behavior", (c) => {
+    const action = verify(c);
+    if (!action) return c.html(page("Invalid link", "<h1>This link is not valid.</h1>"), 403);
+    const pending = wsBridge.findPendingPermission(action.requestId);
+    if (!pending) {
+      return c.html(page("Expired", "<h1>This request is no longer pending.</h1><p class=\"muted\">It was answered or cancelled.</p>"), 410);
+    }
+    const verb = action.behavior === "allow" ? "Allow" : "Deny";
+    const { request } = pending;
+    return c.html(page(`${verb} ${request.tool_name}`, `
+      <h1>${verb} ${escapeHtml(request.tool_name)}?</h1>
+      ${request.description ? `<p>${escapeHtml(request.description)}</p>` : ""}
+      <pre>${escapeHtml(summarizeInput(request.input))}</pre>
+      <form method="post">
+        <button type="submit" class="${action.behavior}">${verb}</button>
+      </form>
+      <p class="muted">Session ${escapeHtml(pending.sessionId.slice(0, 8))}. The link works once.</p>`));
+  });
+
+  api.post("/permissions/:requestId/:behavior", (c) => {
+    const action = verify(c);
+    if (!action) {
+      return wantsJson(c)
+        ? c.json({ error: "Invalid signature" }, 403)
+        : c.html(page("Invalid link", "<h1>This link is not valid.</h1>"), 403);
+    }
+    const answered = wsBridge.answerPermissionRemotely(action.requestId, action.behavior, {
+      via: action.via.split(":")[0],
+      actor: describeActor(c, action.via),
+    });
+    if (!answered) {
+      return wantsJson(c)
+        ? c.json({ error: "Permission request is no longer pending" }, 410)
+        : c.html(page("Expired", "<h1>This request is no longer pending.</h1><p class=\"muted\">It was answered or cancelled.</p>"), 410);
+    }
+    if (wantsJson(c)) {
+      return c.json({
+        ok: true,
+        sessionId: answered.sessionId,
+        behavior: action.behavior,
+        toolName: answered.request.tool_name,
+      });
+    }
+    const verb = action.behavior === "allow" ? "Allowed" : "Denied";
+    return c.html(page(verb, `<h1>${verb} ${escapeHtml(answered.request.tool_name)}.</h1><p class="muted">You can close this tab.</p>`));
+  });
+}
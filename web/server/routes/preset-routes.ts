@@ -0,0 +1,57 @@
+import type { Hono } from "hono";
+import * as presetManager from "../preset-manager.js";
+
+export function registerPresetRoutes(api: Hono): void {
+  api.get("/presets", (c) => {
+    try {
+      return c.json(presetManager.listPresets({ cwd: c.req.query("cwd") }));
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 500);
+    }
+  });
+
+  api.get("/presets/:id", (c) => {
+    const preset = presetManager.findPreset(c.req.param("id"));
+    if (!preset) return c.json({ error: "Preset not found" }, 404);
+    return c.json(preset);
+  });
+
+  api.post("/presets", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    try {
+      const preset = presetManager.createPreset({
+        name: String(body.name || ""),
+        scope: body.scope,
+        projectPath: body.cwd,
+        options: body.options,
+        initialPrompt: body.initialPrompt,
+        promptId: body.promptId,
+      });
+      return c.json(preset, 201);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.put("/presets/:id", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    try {
+      const preset = presetManager.updatePreset(c.req.param("id"), {
+        name: body.name,
+        options: body.options,
+        initialPrompt: body.initialPrompt,
+        promptId: body.promptId,
+      });
+      if (!preset) return c.json({ error: "Preset not found" }, 404);
+      return c.json(preset);
+    } catch (e: unknown) {
+      return c.json({ error: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  api.delete("/presets/:id", (c) => {
+    const deleted = presetManager.deletePreset(c.req.param("id"));
+    if (!deleted) return c.json({ error: "Preset not found" }, 404);
+    return c.json({ ok: true });
+  });
+}
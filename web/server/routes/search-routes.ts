@@ -0,0 +1,27 @@
+import type { Hono } from "hono";
+import type { SearchIndex } from "../search-index.js";
+import { parseDay } from "./usage-routes.js";
+
+export function registerSearchRoutes(api: Hono, searchIndex?: SearchIndex): void {
+  // Query: q (required), repo, backend, session, from / to (inclusive local days), limit.
+  api.get("/search", (c) => {
+    if (!searchIndex) return c.json({ error: "Search is not available" }, 503);
+    const q = (c.req.query("q") || "").trim();
+    if (!q) return c.json({ error: "q is required" }, 400);
+    const from = parseDay(c.req.query("from"));
+    const to = parseDay(c.req.query("to"), 1);
+    if (from === null || to === null) return c.json({ error: "from and to must be dates like 2026-03-14" }, 400);
+    const limit = Number(c.req.query("limit"));
+
+    const results = searchIndex.search({
+      q,
+      repoRoot: c.req.query("repo") || undefined,
+      backendType: c.req.query("backend") || undefined,
+      sessionId: c.req.query("session") || undefined,
+      from,
+      to,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    });
+    return c.json({ ...results, options: searchIndex.facets() });
+  });
+}
@@ -1,8 +1,17 @@
 import type { Hono } from "hono";
-import { DEFAULT_OPENROUTER_MODEL, getSettings, updateSettings } from "../settings-manager.js";
+import { DEFAULT_OPENROUTER_MODEL, getSettings, isStuckAction, updateSettings } from "../settings-manager.js";
 import { linearCache } from "../linear-cache.js";
+import type { CliLauncher } from "../cli-launcher.js";
 
-export function registerSettingsRoutes(api: Hono): void {
+const LIMIT_FIELDS = ["maxConcurrentSessions", "maxSessionsPerRepo", "maxSessionsPerBackend", "idleSuspendMinutes"] as const;
+const WATCHDOG_FIELDS = ["stuckAfterMinutes", "stuckAction"] as const;
+
+export interface SettingsRouteDeps {
+  /** Raised limits may let queued launches start */
+  launcher: Pick<CliLauncher, "drainLaunchQueue">;
+}
+
+export function registerSettingsRoutes(api: Hono, deps: SettingsRouteDeps): void {
   api.get("/settings", (c) => {
     const settings = getSettings();
     return c.json({
@@ -12,6 +21,12 @@ export function registerSettingsRoutes(api: Hono): void {
       linearAutoTransition: settings.linearAutoTransition,
       linearAutoTransitionStateName: settings.linearAutoTransitionStateName,
       editorTabEnabled: settings.editorTabEnabled,
+      maxConcurrentSessions: settings.maxConcurrentSessions,
+      maxSessionsPerRepo: settings.maxSessionsPerRepo,
+      maxSessionsPerBackend: settings.maxSessionsPerBackend,
+      idleSuspendMinutes: settings.idleSuspendMinutes,
+      stuckAfterMinutes: settings.stuckAfterMinutes,
+      stuckAction: settings.stuckAction,
     });
   });
 
@@ -38,10 +53,25 @@ export function registerSettingsRoutes(api: Hono): void {
     if (body.editorTabEnabled !== undefined && typeof body.editorTabEnabled !== "boolean") {
       return c.json({ error: "editorTabEnabled must be a boolean" }, 400);
     }
+    for (const field of LIMIT_FIELDS) {
+      const value = body[field];
+      if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 0)) {
+        return c.json({ error: `${field} must be a non-negative integer` }, 400);
+      }
+    }
+    if (body.stuckAfterMinutes !== undefined
+      && (typeof body.stuckAfterMinutes !== "number" || !Number.isInteger(body.stuckAfterMinutes) || body.stuckAfterMinutes < 0)) {
+      return c.json({ error: "stuckAfterMinutes must be a non-negative integer" }, 400);
+    }
+    if (body.stuckAction !== undefined && !isStuckAction(body.stuckAction)) {
+      return c.json({ error: "stuckAction must be notify, interrupt or relaunch" }, 400);
+    }
+    const hasLimitField = LIMIT_FIELDS.some((field) => body[field] !== undefined);
     const hasAnyField = body.openrouterApiKey !== undefined || body.openrouterModel !== undefined
       || body.linearApiKey !== undefined || body.linearAutoTransition !== undefined
       || body.linearAutoTransitionStateId !== undefined || body.linearAutoTransitionStateName !== undefined
-      || body.editorTabEnabled !== undefined;
+      || body.editorTabEnabled !== undefined || hasLimitField
+      || WATCHDOG_FIELDS.some((field) => body[field] !== undefined);
     if (!hasAnyField) {
       return c.json({ error: "At least one settings field is required" }, 400);
     }
@@ -79,7 +109,14 @@ export function registerSettingsRoutes(api: Hono): void {
         typeof body.editorTabEnabled === "boolean"
           ? body.editorTabEnabled
           : undefined,
+      maxConcurrentSessions: body.maxConcurrentSessions,
+      maxSessionsPerRepo: body.maxSessionsPerRepo,
+      maxSessionsPerBackend: body.maxSessionsPerBackend,
+      idleSuspendMinutes: body.idleSuspendMinutes,
+      stuckAfterMinutes: body.stuckAfterMinutes,
+      stuckAction: body.stuckAction,
     });
+    if (hasLimitField) deps.launcher.drainLaunchQueue();
 
     return c.json({
       openrouterApiKeyConfigured: !!settings.openrouterApiKey.trim(),
@@ -88,6 +125,12 @@ export function registerSettingsRoutes(api: Hono): void {
       linearAutoTransition: settings.linearAutoTransition,
       linearAutoTransitionStateName: settings.linearAutoTransitionStateName,
       editorTabEnabled: settings.editorTabEnabled,
+      maxConcurrentSessions: settings.maxConcurrentSessions,
+      maxSessionsPerRepo: settings.maxSessionsPerRepo,
+      maxSessionsPerBackend: settings.maxSessionsPerBackend,
+      idleSuspendMinutes: settings.idleSuspendMinutes,
+      stuckAfterMinutes: settings.stuckAfterMinutes,
+      stuckAction: settings.stuckAction,
     });
   });
 }
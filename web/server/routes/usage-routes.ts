@@ -0,0 +1,58 @@
+import type { Hono } from "hono";
+import * as usageLedger from "../usage-ledger.js";
+
+const DAY_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Start of a local calendar day ("2026-03-14"), optionally shifted by whole days. */
+export function parseDay(value: string | undefined, offsetDays = 0): number | undefined | null {
+  if (!value) return undefined;
+  const match = DAY_RE.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + offsetDays).getTime();
+}
+
+function distinct(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))].sort();
+}
+
+export function registerUsageRoutes(api: Hono): void {
+  // Query: from / to (inclusive local days), repo, model, backend, session, cron,
+  // groupBy (day | repo | model | backend | session | cron), format=csv.
+  api.get("/usage", (c) => {
+    const from = parseDay(c.req.query("from"));
+    const to = parseDay(c.req.query("to"), 1);
+    if (from === null || to === null) return c.json({ error: "from and to must be dates like 2026-03-14" }, 400);
+    const groupBy = c.req.query("groupBy") || "day";
+    if (!usageLedger.isUsageGroupBy(groupBy)) {
+      return c.json({ error: `groupBy must be one of ${usageLedger.USAGE_GROUPS.join(", ")}` }, 400);
+    }
+
+    const inRange = usageLedger.readUsage({ from, to });
+    const filter: usageLedger.UsageQuery = {
+      repoRoot: c.req.query("repo") || undefined,
+      model: c.req.query("model") || undefined,
+      backendType: c.req.query("backend") || undefined,
+      sessionId: c.req.query("session") || undefined,
+      cronJobId: c.req.query("cron") || undefined,
+    };
+    const entries = inRange.filter((e) => usageLedger.matchesUsage(e, filter));
+
+    if (c.req.query("format") === "csv") {
+      c.header("Content-Type", "text/csv; charset=utf-8");
+      c.header("Content-Disposition", 'attachment; filename="companion-usage.csv"');
+      return c.body(usageLedger.usageToCsv(entries));
+    }
+
+    return c.json({
+      groupBy,
+      totals: usageLedger.totalUsage(entries),
+      groups: usageLedger.summarizeUsage(entries, groupBy),
+      // Values present in the date range, for filter pickers.
+      options: {
+        repos: distinct(inRange.map((e) => e.repoRoot)),
+        models: distinct(inRange.map((e) => e.model)),
+        backends: distinct(inRange.map((e) => e.backendType)),
+      },
+    });
+  });
+}
@@ -0,0 +1,168 @@
+import { mkdtempSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("./session-names.js", () => ({
+  getName: vi.fn((id: string) => (id === "s1" ? "Fix login" : undefined)),
+}));
+
+import { SearchIndex, parseQuery, tokenize, type SearchSource } from "./search-index.js";
+import type { BrowserIncomingMessage } from "./session-types.js";
+
+let tempDir: string;
+
+const DAY1 = new Date(2026, 2, 14, 12).getTime();
+const DAY2 = new Date(2026, 2, 15, 12).getTime();
+
+function user(id: string, content: string, timestamp = DAY1): BrowserIncomingMessage {
+  return { type: "user_message", id, content, timestamp };
+}
+
+function assistant(id: string, content: unknown[], timestamp = DAY1): BrowserIncomingMessage {
+  return {
+    type: "assistant",
+    parent_tool_use_id: null,
+    timestamp,
+    message: {
+      id,
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4-5",
+      content: content as never,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+    },
+  };
+}
+
+function source(sessionId: string, history: BrowserIncomingMessage[], repoRoot = "/work/app", backendType = "claude"): SearchSource {
+  return { sessionId, meta: { repoRoot, backendType }, history };
+}
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "search-index-test-"));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("query parsing", () => {
+  it("lowercases words and drops one-letter tokens", () => {
+    expect(tokenize("Fix the a LOGIN-form")).toEqual(["fix", "the", "login", "form"]);
+  });
+
+  it("keeps quoted phrases and their words", () => {
+    expect(parseQuery('"null pointer" crash')).toEqual({ terms: ["null", "pointer", "crash"], phrases: ["null pointer"] });
+  });
+});
+
+describe("SearchIndex", () => {
+  it("finds user messages, assistant text, tool inputs and tool results", () => {
+    const index = new SearchIndex(() => [
+      source("s1", [
+        user("u1", "Why does the login page crash?"),
+        assistant("a1", [
+          { type: "text", text: "Looking at the handler now." },
+          { type: "tool_use", id: "tu1", name: "Grep", input: { pattern: "validateToken" } },
+        ]),
+        assistant("a2", [{ type: "tool_result", tool_use_id: "tu2", content: "README mentions tokens" }]),
+      ]),
+    ], tempDir);
+
+    expect(index.search({ q: "login" }).hits.map((h) => [h.messageId, h.kind])).toEqual([["u1", "user"]]);
+    expect(index.search({ q: "handler" }).hits[0]).toMatchObject({ messageId: "a1", kind: "assistant", sessionName: "Fix login" });
+    expect(index.search({ q: "validatetoken" }).hits[0]).toMatchObject({ messageId: "a1", kind: "tool_use", toolName: "Grep" });
+    expect(index.search({ q: "readme" }).hits[0]).toMatchObject({ messageId: "a2", kind: "tool_result" });
+  });
+
+  it("requires every word as a prefix and quoted phrases verbatim", () => {
+    const index = new SearchIndex(() => [
+      source("s1", [user("u1", "null pointer in parser"), user("u2", "pointer to null")]),
+    ], tempDir);
+
+    expect(index.search({ q: "pars null" }).hits.map((h) => h.messageId)).toEqual(["u1"]);
+    expect(index.search({ q: "null pointer" }).total).toBe(2);
+    expect(index.search({ q: '"null pointer"' }).hits.map((h) => h.messageId)).toEqual(["u1"]);
+    expect(index.search({ q: "missing" }).total).toBe(0);
+  });
+
+  it("ranks exact word matches first, then newer messages", () => {
+    const index = new SearchIndex(() => [
+      source("s1", [user("u1", "deployment script", DAY1), user("u2", "deploy it", DAY1), user("u3", "deploy again", DAY2)]),
+    ], tempDir);
+
+    expect(index.search({ q: "deploy" }).hits.map((h) => h.messageId)).toEqual(["u3", "u2", "u1"]);
+  });
+
+  it("filters by repo, backend, session and date", () => {
+    const index = new SearchIndex(() => [
+      source("s1", [user("u1", "flaky test", DAY1)], "/work/app", "claude"),
+      source("s2", [user("u2", "flaky test", DAY2)], "/work/api", "codex"),
+    ], tempDir);
+
+    expect(index.search({ q: "flaky", repoRoot: "/work/api" }).hits.map((h) => h.sessionId)).toEqual(["s2"]);
+    expect(index.search({ q: "flaky", backendType: "claude" }).hits.map((h) => h.sessionId)).toEqual(["s1"]);
+    expect(index.search({ q: "flaky", sessionId: "s1" }).total).toBe(1);
+    expect(index.search({ q: "flaky", from: DAY2 - 1000 }).hits.map((h) => h.sessionId)).toEqual(["s2"]);
+    expect(index.facets()).toEqual({ repos: ["/work/api", "/work/app"], backends: ["claude", "codex"] });
+  });
+
+  it("builds a snippet around the first match", () => {
+    const long = `${"intro ".repeat(40)}the needle is here ${"outro ".repeat(60)}`;
+    const index = new SearchIndex(() => [source("s1", [user("u1", long)])], tempDir);
+
+    const snippet = index.search({ q: "needle" }).hits[0].snippet;
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("the needle is here");
+  });
+
+  it("indexes new messages incrementally and replaces a session on reindex", () => {
+    const history: BrowserIncomingMessage[] = [user("u1", "first prompt")];
+    const index = new SearchIndex(() => [source("s1", history)], tempDir);
+    expect(index.search({ q: "second" }).total).toBe(0);
+
+    const next = user("u2", "second prompt");
+    history.push(next);
+    index.addMessage("s1", { repoRoot: "/work/app", backendType: "claude" }, next);
+    expect(index.search({ q: "second" }).hits[0].messageId).toBe("u2");
+
+    index.indexSession("s1", { repoRoot: "/work/app", backendType: "claude" }, [history[0]]);
+    expect(index.search({ q: "second" }).total).toBe(0);
+    expect(index.search({ q: "first" }).total).toBe(1);
+  });
+
+  it("journals tool results so they survive a rebuild, but not past a rewind", () => {
+    const meta = { repoRoot: "/work/app", backendType: "claude" };
+    const history = [
+      user("u1", "run the tests"),
+      assistant("a1", [{ type: "tool_use", id: "tu1", name: "Bash", input: { command: "bun test" } }]),
+    ];
+    const first = new SearchIndex(() => [source("s1", history)], tempDir);
+    first.addToolResults("s1", meta, history, [
+      { type: "tool_result", tool_use_id: "tu1", content: [{ type: "text", text: "3 assertions failed" }] },
+    ]);
+    expect(first.search({ q: "assertions" }).hits[0]).toMatchObject({ messageId: "a1", kind: "tool_result" });
+
+    // A fresh process rebuilds from history plus the journal.
+    const restarted = new SearchIndex(() => [source("s1", history)], tempDir);
+    expect(restarted.search({ q: "assertions" }).total).toBe(1);
+
+    const rewound = new SearchIndex(() => [source("s1", [history[0]])], tempDir);
+    expect(rewound.search({ q: "assertions" }).total).toBe(0);
+  });
+
+  it("forgets a removed session and deletes its journal", () => {
+    const history = [assistant("a1", [{ type: "tool_use", id: "tu1", name: "Bash", input: { command: "ls" } }])];
+    const index = new SearchIndex(() => [source("s1", history)], tempDir);
+    index.addToolResults("s1", { repoRoot: "/work/app", backendType: "claude" }, history, [
+      { type: "tool_result", tool_use_id: "tu1", content: "package.json" },
+    ]);
+    expect(existsSync(join(tempDir, "s1.jsonl"))).toBe(true);
+
+    index.removeSession("s1");
+    expect(index.search({ q: "package" }).total).toBe(0);
+    expect(existsSync(join(tempDir, "s1.jsonl"))).toBe(false);
+  });
+});
@@ -0,0 +1,378 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { BrowserIncomingMessage, ContentBlock } from "./session-types.js";
+import * as sessionNames from "./session-names.js";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type SearchKind = "user" | "assistant" | "tool_use" | "tool_result";
+
+export interface SearchDoc {
+  sessionId: string;
+  /** Browser-facing message id a result jumps to ("" when the message has none). */
+  messageId: string;
+  kind: SearchKind;
+  text: string;
+  timestamp: number;
+  toolName?: string;
+}
+
+export interface SearchSessionMeta {
+  repoRoot: string;
+  backendType: string;
+}
+
+export interface SearchSource {
+  sessionId: string;
+  meta: SearchSessionMeta;
+  history: BrowserIncomingMessage[];
+}
+
+export interface SearchQuery {
+  q: string;
+  repoRoot?: string;
+  backendType?: string;
+  sessionId?: string;
+  /** Inclusive lower / exclusive upper bound on the message timestamp (ms). */
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  sessionName?: string;
+  messageId: string;
+  kind: SearchKind;
+  toolName?: string;
+  snippet: string;
+  timestamp: number;
+  repoRoot: string;
+  backendType: string;
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  /** Matches before the limit was applied. */
+  total: number;
+}
+
+/** What the bridge needs to keep the index current as messages arrive. */
+export interface SearchIndexer {
+  addMessage(sessionId: string, meta: SearchSessionMeta, entry: BrowserIncomingMessage): void;
+  addToolResults(
+    sessionId: string,
+    meta: SearchSessionMeta,
+    history: BrowserIncomingMessage[],
+    blocks: ContentBlock[],
+  ): void;
+  indexSession(sessionId: string, meta: SearchSessionMeta, history: BrowserIncomingMessage[]): void;
+  removeSession(sessionId: string): void;
+}
+
+// ─── Text extraction ────────────────────────────────────────────────────────
+
+const DEFAULT_DIR = join(homedir(), ".companion", "search");
+/** Tool output can be huge; only the start of each document is searchable. */
+const MAX_DOC_CHARS = 4000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+function clip(text: string): string {
+  return text.length > MAX_DOC_CHARS ? text.slice(0, MAX_DOC_CHARS) : text;
+}
+
+function resultText(content: string | ContentBlock[]): string {
+  if (typeof content === "string") return content;
+  return content.map((b) => (b.type === "text" ? b.text : "")).filter(Boolean).join("\n");
+}
+
+function inputText(input: Record<string, unknown>): string {
+  return Object.values(input)
+    .map((v) => (typeof v === "string" ? v : JSON.stringify(v)))
+    .join("\n");
+}
+
+/** The assistant message holding a tool call, so tool results jump to it. */
+function messageIdForToolUse(history: BrowserIncomingMessage[], toolUseId: string): string {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const m = history[i];
+    if (m.type !== "assistant") continue;
+    if (m.message.content.some((b) => b.type === "tool_use" && b.id === toolUseId)) return m.message.id;
+  }
+  return "";
+}
+
+/** Searchable documents in one history entry. */
+export function docsFromEntry(sessionId: string, entry: BrowserIncomingMessage): SearchDoc[] {
+  if (entry.type === "user_message") {
+    if (!entry.content.trim()) return [];
+    return [{ sessionId, messageId: entry.id || "", kind: "user", text: clip(entry.content), timestamp: entry.timestamp }];
+  }
+  if (entry.type !== "assistant") return [];
+
+  const messageId = entry.message.id;
+  const timestamp = entry.timestamp || 0;
+  const docs: SearchDoc[] = [];
+  const text = entry.message.content
+    .map((b) => (b.type === "text" ? b.text : ""))
+    .filter(Boolean)
+    .join("\n");
+  if (text.trim()) docs.push({ sessionId, messageId, kind: "assistant", text: clip(text), timestamp });
+  for (const block of entry.message.content) {
+    if (block.type === "tool_use") {
+      const input = inputText(block.input);
+      if (input.trim()) docs.push({ sessionId, messageId, kind: "tool_use", toolName: block.name, text: clip(input), timestamp });
+    } else if (block.type === "tool_result") {
+      const output = resultText(block.content);
+      if (output.trim()) docs.push({ sessionId, messageId, kind: "tool_result", text: clip(output), timestamp });
+    }
+  }
+  return docs;
+}
+
+// ─── Query parsing ──────────────────────────────────────────────────────────
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((t) => t.length >= 2);
+}
+
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+}
+
+/** Words must all match (as prefixes); "quoted phrases" must appear verbatim. */
+export function parseQuery(q: string): ParsedQuery {
+  const phrases: string[] = [];
+  const rest = q.replace(/"([^"]+)"/g, (_m, phrase: string) => {
+    const trimmed = phrase.trim().toLowerCase().replace(/\s+/g, " ");
+    if (trimmed) phrases.push(trimmed);
+    return ` ${phrase} `;
+  });
+  return { terms: [...new Set(tokenize(rest))], phrases };
+}
+
+function makeSnippet(text: string, parsed: ParsedQuery): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+  let at = -1;
+  for (const needle of [...parsed.phrases, ...parsed.terms]) {
+    const i = lower.indexOf(needle);
+    if (i !== -1 && (at === -1 || i < at)) at = i;
+  }
+  if (at === -1) at = 0;
+  const start = Math.max(0, at - SNIPPET_BEFORE);
+  const end = Math.min(flat.length, at + SNIPPET_AFTER);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+// ─── Index ──────────────────────────────────────────────────────────────────
+
+interface IndexedDoc extends SearchDoc {
+  tokens: Set<string>;
+  lower: string;
+}
+
+/**
+ * In-memory inverted index over session transcripts. Built from the bridge's
+ * message histories on the first search, then kept current as messages
+ * arrive. Claude tool results never reach the history, so they are journaled
+ * per session under ~/.companion/search/ to survive restarts.
+ */
+export class SearchIndex implements SearchIndexer {
+  private docs = new Map<number, IndexedDoc>();
+  private postings = new Map<string, Set<number>>();
+  private bySession = new Map<string, Set<number>>();
+  private meta = new Map<string, SearchSessionMeta>();
+  private nextId = 1;
+  private built = false;
+
+  constructor(
+    private loadSources: () => SearchSource[],
+    private dir = DEFAULT_DIR,
+  ) {}
+
+  addMessage(sessionId: string, meta: SearchSessionMeta, entry: BrowserIncomingMessage): void {
+    // Until the first search, the build reads the same history.
+    if (!this.built) return;
+    this.meta.set(sessionId, meta);
+    for (const doc of docsFromEntry(sessionId, entry)) this.addDoc(doc);
+  }
+
+  addToolResults(
+    sessionId: string,
+    meta: SearchSessionMeta,
+    history: BrowserIncomingMessage[],
+    blocks: ContentBlock[],
+  ): void {
+    const docs: SearchDoc[] = [];
+    for (const block of blocks) {
+      if (block.type !== "tool_result") continue;
+      const text = resultText(block.content);
+      if (!text.trim()) continue;
+      const messageId = messageIdForToolUse(history, block.tool_use_id);
+      docs.push({ sessionId, messageId, kind: "tool_result", text: clip(text), timestamp: Date.now() });
+    }
+    if (docs.length === 0) return;
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      appendFileSync(this.journalPath(sessionId), docs.map((d) => JSON.stringify(d)).join("\n") + "\n");
+    } catch (e) {
+      console.warn("[search-index] Failed to journal tool results:", e);
+    }
+    if (!this.built) return;
+    this.meta.set(sessionId, meta);
+    for (const doc of docs) this.addDoc(doc);
+  }
+
+  /** Replace a session's documents, e.g. after a rewind truncated its history. */
+  indexSession(sessionId: string, meta: SearchSessionMeta, history: BrowserIncomingMessage[]): void {
+    if (!this.built) return;
+    this.dropDocs(sessionId);
+    this.addSession({ sessionId, meta, history });
+  }
+
+  removeSession(sessionId: string): void {
+    this.dropDocs(sessionId);
+    this.meta.delete(sessionId);
+    try {
+      rmSync(this.journalPath(sessionId), { force: true });
+    } catch {
+      // ignore
+    }
+  }
+
+  search(query: SearchQuery): SearchResults {
+    this.ensureBuilt();
+    const parsed = parseQuery(query.q);
+    if (parsed.terms.length === 0) return { hits: [], total: 0 };
+
+    // Every term must prefix-match some token of the document.
+    const exact = new Map<string, Set<number>>();
+    const perTerm = parsed.terms.map((term) => {
+      const matching = new Set<number>();
+      for (const [token, ids] of this.postings) {
+        if (!token.startsWith(term)) continue;
+        for (const id of ids) matching.add(id);
+      }
+      exact.set(term, this.postings.get(term) ?? new Set());
+      return matching;
+    });
+    const candidates = [...perTerm[0]].filter((id) => perTerm.every((ids) => ids.has(id)));
+
+    const scored: { doc: IndexedDoc; score: number }[] = [];
+    for (const id of candidates) {
+      const doc = this.docs.get(id)!;
+      const meta = this.meta.get(doc.sessionId);
+      if (!meta) continue;
+      if (query.sessionId && doc.sessionId !== query.sessionId) continue;
+      if (query.repoRoot && meta.repoRoot !== query.repoRoot) continue;
+      if (query.backendType && meta.backendType !== query.backendType) continue;
+      if (query.from !== undefined && doc.timestamp < query.from) continue;
+      if (query.to !== undefined && doc.timestamp >= query.to) continue;
+      if (!parsed.phrases.every((p) => doc.lower.includes(p))) continue;
+      let score = doc.kind === "user" || doc.kind === "assistant" ? 1 : 0;
+      for (const term of parsed.terms) score += exact.get(term)!.has(id) ? 3 : 1;
+      scored.push({ doc, score });
+    }
+    scored.sort((a, b) => b.score - a.score || b.doc.timestamp - a.doc.timestamp);
+
+    const limit = Math.max(1, Math.min(MAX_LIMIT, query.limit ?? DEFAULT_LIMIT));
+    const hits = scored.slice(0, limit).map(({ doc }): SearchHit => {
+      const meta = this.meta.get(doc.sessionId)!;
+      return {
+        sessionId: doc.sessionId,
+        sessionName: sessionNames.getName(doc.sessionId),
+        messageId: doc.messageId,
+        kind: doc.kind,
+        toolName: doc.toolName,
+        snippet: makeSnippet(doc.text, parsed),
+        timestamp: doc.timestamp,
+        repoRoot: meta.repoRoot,
+        backendType: meta.backendType,
+      };
+    });
+    return { hits, total: scored.length };
+  }
+
+  /** Repos and backends that have indexed sessions, for filter pickers. */
+  facets(): { repos: string[]; backends: string[] } {
+    this.ensureBuilt();
+    const values = [...this.meta.values()];
+    const distinct = (list: string[]) => [...new Set(list.filter(Boolean))].sort();
+    return { repos: distinct(values.map((m) => m.repoRoot)), backends: distinct(values.map((m) => m.backendType)) };
+  }
+
+  private ensureBuilt(): void {
+    if (this.built) return;
+    this.built = true;
+    for (const source of this.loadSources()) this.addSession(source);
+  }
+
+  private addSession(source: SearchSource): void {
+    const { sessionId, history } = source;
+    this.meta.set(sessionId, source.meta);
+    const messageIds = new Set<string>();
+    for (const entry of history) {
+      for (const doc of docsFromEntry(sessionId, entry)) {
+        messageIds.add(doc.messageId);
+        this.addDoc(doc);
+      }
+    }
+    // Journaled tool results whose message was rewound away are skipped.
+    for (const doc of this.readJournal(sessionId)) {
+      if (!doc.messageId || messageIds.has(doc.messageId)) this.addDoc(doc);
+    }
+  }
+
+  private readJournal(sessionId: string): SearchDoc[] {
+    const path = this.journalPath(sessionId);
+    if (!existsSync(path)) return [];
+    const docs: SearchDoc[] = [];
+    for (const line of readFileSync(path, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        docs.push(JSON.parse(line) as SearchDoc);
+      } catch {
+        // Partial line from an interrupted write
+      }
+    }
+    return docs;
+  }
+
+  private journalPath(sessionId: string): string {
+    return join(this.dir, `${sessionId.replace(/[^a-zA-Z0-9_-]/g, "_")}.jsonl`);
+  }
+
+  private addDoc(doc: SearchDoc): void {
+    const id = this.nextId++;
+    const tokens = new Set(tokenize(doc.text));
+    this.docs.set(id, { ...doc, tokens, lower: doc.text.toLowerCase().replace(/\s+/g, " ") });
+    for (const token of tokens) {
+      let ids = this.postings.get(token);
+      if (!ids) this.postings.set(token, (ids = new Set()));
+      ids.add(id);
+    }
+    let sessionDocs = this.bySession.get(doc.sessionId);
+    if (!sessionDocs) this.bySession.set(doc.sessionId, (sessionDocs = new Set()));
+    sessionDocs.add(id);
+  }
+
+  private dropDocs(sessionId: string): void {
+    for (const id of this.bySession.get(sessionId) ?? []) {
+      const doc = this.docs.get(id);
+      if (!doc) continue;
+      for (const token of doc.tokens) {
+        const ids = this.postings.get(token);
+        ids?.delete(id);
+        if (ids?.size === 0) this.postings.delete(token);
+      }
+      this.docs.delete(id);
+    }
+    this.bySession.delete(sessionId);
+  }
+}
@@ -0,0 +1,138 @@
+import { buildTranscript, exportSession, isExportFormat, renderHtml, renderMarkdown } from "./session-export.js";
+import type { BrowserIncomingMessage } from "./session-types.js";
+
+const T0 = Date.UTC(2026, 2, 14, 12, 0);
+
+function assistant(id: string, content: unknown[], parent: string | null = null): BrowserIncomingMessage {
+  return {
+    type: "assistant",
+    parent_tool_use_id: parent,
+    timestamp: T0 + 1000,
+    message: {
+      id,
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4-5",
+      content: content as never,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+    },
+  };
+}
+
+const history: BrowserIncomingMessage[] = [
+  { type: "user_message", id: "u1", content: "Fix the <login> bug", timestamp: T0 },
+  assistant("a1", [{ type: "text", text: "Editing `auth.ts` now." }]),
+  // Claude streams each content block as its own message with the same id.
+  assistant("a1", [{ type: "tool_use", id: "tu1", name: "Edit", input: { file_path: "/repo/src/auth.ts", old_string: "return false;", new_string: "return true;" } }]),
+  assistant("a2", [{ type: "tool_use", id: "tu2", name: "Bash", input: { command: "bun test", description: "Run tests" } }]),
+  assistant("a3", [{ type: "tool_result", tool_use_id: "tu2", content: "12 pass", is_error: false }]),
+  {
+    type: "result",
+    data: {
+      type: "result",
+      subtype: "success",
+      is_error: false,
+      result: "done",
+      duration_ms: 65000,
+      duration_api_ms: 60000,
+      num_turns: 3,
+      total_cost_usd: 0.42,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      uuid: "r1",
+      session_id: "cli-1",
+    },
+  },
+  { type: "system_event", event: { subtype: "compact_boundary", compact_metadata: { trigger: "auto", pre_tokens: 1 }, uuid: "c1", session_id: "cli-1" }, timestamp: T0 + 2000 },
+];
+
+const input = {
+  sessionId: "s1",
+  name: "Fix login",
+  state: { model: "claude-sonnet-4-5", cwd: "/repo", git_branch: "main", total_cost_usd: 0.42, num_turns: 3, total_lines_added: 1, total_lines_removed: 1 },
+  history,
+  createdAt: T0,
+  exportedAt: T0 + 60_000,
+};
+
+describe("buildTranscript", () => {
+  it("merges streamed assistant blocks and attaches tool results and diffs", () => {
+    const transcript = buildTranscript(input);
+    expect(transcript.session).toMatchObject({ id: "s1", name: "Fix login", backendType: "claude", totalCostUsd: 0.42, numTurns: 3 });
+    expect(transcript.entries.map((e) => e.kind)).toEqual(["user", "assistant", "assistant", "result", "event"]);
+
+    const edit = transcript.entries[1];
+    expect(edit).toMatchObject({ kind: "assistant", text: "Editing `auth.ts` now." });
+    if (edit.kind !== "assistant") throw new Error("expected assistant");
+    expect(edit.tools[0]).toMatchObject({ name: "Edit", summary: "src/auth.ts" });
+    expect(edit.tools[0].diff).toContain("-return false;");
+    expect(edit.tools[0].diff).toContain("+return true;");
+
+    const bash = transcript.entries[2];
+    if (bash.kind !== "assistant") throw new Error("expected assistant");
+    expect(bash.tools[0]).toMatchObject({ summary: "Run tests", result: { text: "12 pass", isError: false } });
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("renders messages, collapsed tool calls and metadata", () => {
+    const md = renderMarkdown(buildTranscript(input));
+    expect(md).toContain("# Fix login");
+    expect(md).toContain("- **Cost:** $0.42");
+    expect(md).toContain("## User\n\nFix the <login> bug");
+    expect(md).toContain("<details>\n<summary>Edit: src/auth.ts</summary>");
+    expect(md).toContain("```diff\n--- /repo/src/auth.ts");
+    expect(md).toContain("_Turn finished · 1m 5s · $0.42 total_");
+    expect(md).toContain("> Context compacted");
+  });
+
+  it("uses a longer fence when the content contains backticks", () => {
+    const md = renderMarkdown(buildTranscript({
+      ...input,
+      history: [assistant("a1", [{ type: "tool_use", id: "t", name: "Bash", input: { command: "echo ```" } }])],
+    }));
+    expect(md).toContain("````bash\necho ```\n````");
+  });
+});
+
+describe("renderHtml", () => {
+  it("renders the chat view's message and tool components into one page", () => {
+    const html = renderHtml(buildTranscript(input));
+    expect(html.startsWith("<!doctype html>")).toBe(true);
+    expect(html).toContain("<title>Fix login</title>");
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<link|<script src/);
+    // MessageBubble: escaped user text and markdown from the assistant
+    expect(html).toContain("Fix the &lt;login&gt; bug");
+    expect(html).toMatch(/<code [^>]*>auth\.ts<\/code>/);
+    // ToolBlock details render expanded for the page script to collapse
+    expect(html).toContain('<button aria-expanded="true"');
+    expect(html).toContain('<div class="diff-line diff-line-add"><span class="diff-marker">+</span><span class="diff-content">return true;</span></div>');
+    expect(html).toContain("bun test</pre>");
+    expect(html).toContain("12 pass");
+    expect(html).toContain("Turn finished · 1m 5s · $0.42 total");
+  });
+
+  it("indents subagent messages", () => {
+    const html = renderHtml(buildTranscript({
+      ...input,
+      history: [assistant("a1", [{ type: "text", text: "From the subagent" }], "task-1")],
+    }));
+    expect(html).toMatch(/<div class="ml-3 pl-3 border-l-2 border-cc-border">.*From the subagent/);
+  });
+});
+
+describe("exportSession", () => {
+  it("names the file after the session and sets the content type", () => {
+    expect(exportSession(input, "md")).toMatchObject({ filename: "fix-login.md", contentType: "text/markdown; charset=utf-8" });
+    const json = exportSession(input, "json");
+    expect(JSON.parse(json.body).version).toBe(1);
+    expect(json.filename).toBe("fix-login.json");
+  });
+
+  it("validates formats", () => {
+    expect(isExportFormat("html")).toBe(true);
+    expect(isExportFormat("pdf")).toBe(false);
+  });
+});
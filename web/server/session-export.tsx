@@ -0,0 +1,475 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Fragment } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { structuredPatch } from "diff";
+import type { BrowserIncomingMessage, ContentBlock, SessionState } from "./session-types.js";
+import type { ChatMessage } from "../src/types.js";
+import { MessageBubble } from "../src/components/MessageBubble.js";
+import { ToolBlocksExpanded } from "../src/components/ToolBlock.js";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export const EXPORT_FORMATS = ["md", "html", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export interface SessionExportInput {
+  sessionId: string;
+  name?: string;
+  state: Partial<SessionState>;
+  history: BrowserIncomingMessage[];
+  createdAt?: number;
+  exportedAt?: number;
+}
+
+export interface TranscriptTool {
+  id: string;
+  name: string;
+  /** One-line summary, e.g. the command or file path. */
+  summary: string;
+  input: Record<string, unknown>;
+  /** Unified diff for file edits and writes. */
+  diff?: string;
+  result?: { text: string; isError: boolean };
+}
+
+export type TranscriptEntry =
+  | { kind: "user"; id: string; timestamp: number; text: string }
+  | {
+    kind: "assistant";
+    id: string;
+    timestamp: number;
+    model: string;
+    /** Set for messages from a subagent. */
+    parentToolUseId: string | null;
+    text: string;
+    tools: TranscriptTool[];
+  }
+  | { kind: "result"; isError: boolean; durationMs: number; totalCostUsd: number; numTurns: number; text?: string }
+  | { kind: "event"; timestamp?: number; text: string };
+
+export interface SessionTranscript {
+  version: 1;
+  session: {
+    id: string;
+    name: string;
+    backendType: string;
+    model: string;
+    cwd: string;
+    repoRoot: string;
+    gitBranch: string;
+    createdAt?: number;
+    exportedAt: number;
+    totalCostUsd: number;
+    numTurns: number;
+    linesAdded: number;
+    linesRemoved: number;
+  };
+  entries: TranscriptEntry[];
+}
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+// ─── Transcript ─────────────────────────────────────────────────────────────
+
+/** Tool output can be huge; exports keep the start of it. */
+const MAX_RESULT_CHARS = 8000;
+
+function clip(text: string): string {
+  return text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}\n… (${text.length - MAX_RESULT_CHARS} more characters)` : text;
+}
+
+function blockText(content: string | ContentBlock[]): string {
+  if (typeof content === "string") return content;
+  return content.map((b) => (b.type === "text" ? b.text : "")).filter(Boolean).join("\n");
+}
+
+function shortPath(path: string): string {
+  return path.split("/").slice(-2).join("/");
+}
+
+/** Same previews the chat shows in its collapsed tool rows. */
+function toolSummary(name: string, input: Record<string, unknown>): string {
+  const str = (key: string) => (typeof input[key] === "string" ? (input[key] as string) : "");
+  if (name === "Bash") return str("description") || str("command");
+  if (name === "Read" || name === "Write" || name === "Edit") return shortPath(str("file_path"));
+  if (name === "Glob" || name === "Grep") return str("pattern");
+  if (name === "WebSearch" || name === "web_search") return str("query");
+  if (name === "WebFetch") return str("url");
+  if (name === "Task") return str("description");
+  if (name === "NotebookEdit") return shortPath(str("notebook_path"));
+  if (name === "TodoWrite" && Array.isArray(input.todos)) {
+    return `${input.todos.length} task${input.todos.length === 1 ? "" : "s"}`;
+  }
+  return "";
+}
+
+function unifiedDiff(fileName: string, oldText: string, newText: string): string {
+  const patch = structuredPatch(fileName, fileName, oldText, newText, "", "", { context: 3 });
+  const lines = [`--- ${fileName}`, `+++ ${fileName}`];
+  for (const hunk of patch.hunks) {
+    lines.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...hunk.lines);
+  }
+  return lines.join("\n");
+}
+
+function toolDiff(name: string, input: Record<string, unknown>): string | undefined {
+  const path = typeof input.file_path === "string" ? input.file_path : "";
+  if (name === "Edit" && (typeof input.old_string === "string" || typeof input.new_string === "string")) {
+    return unifiedDiff(path, String(input.old_string ?? ""), String(input.new_string ?? ""));
+  }
+  if (name === "Write" && typeof input.content === "string") {
+    return unifiedDiff(path, "", input.content);
+  }
+  return undefined;
+}
+
+function eventText(entry: Extract<BrowserIncomingMessage, { type: "system_event" }>): string | null {
+  const event = entry.event;
+  switch (event.subtype) {
+    case "compact_boundary":
+      return "Context compacted";
+    case "task_notification":
+      return event.summary ? `Task ${event.status}: ${event.summary}` : `Task ${event.status}`;
+    case "budget_exceeded":
+      return `Budget used up: ${event.label} ($${event.spent_usd.toFixed(2)} of $${event.limit_usd.toFixed(2)})`;
+    case "session_stuck":
+      return `Session looked stuck (${event.reason}), watchdog action: ${event.action}`;
+    case "auto_approval":
+      return `${event.tool_name} ${event.behavior === "allow" ? "allowed" : "denied"} by an auto-approval rule`;
+    case "hook_decision":
+      return `Hook rule "${event.rule_name}" decided ${event.decision}${event.tool_name ? ` for ${event.tool_name}` : ""}`;
+    default:
+      return null;
+  }
+}
+
+/** Flatten a session's message history into the entries every format renders. */
+export function buildTranscript(input: SessionExportInput): SessionTranscript {
+  const { state } = input;
+  const entries: TranscriptEntry[] = [];
+  const toolsById = new Map<string, TranscriptTool>();
+  // Claude streams one history entry per content block, all with the same message id.
+  const assistantById = new Map<string, Extract<TranscriptEntry, { kind: "assistant" }>>();
+
+  for (const msg of input.history) {
+    if (msg.type === "user_message") {
+      entries.push({ kind: "user", id: msg.id || "", timestamp: msg.timestamp, text: msg.content });
+    } else if (msg.type === "assistant") {
+      let entry = assistantById.get(msg.message.id);
+      if (!entry) {
+        entry = {
+          kind: "assistant",
+          id: msg.message.id,
+          timestamp: msg.timestamp || 0,
+          model: msg.message.model,
+          parentToolUseId: msg.parent_tool_use_id,
+          text: "",
+          tools: [],
+        };
+        assistantById.set(entry.id, entry);
+        entries.push(entry);
+      }
+      for (const block of msg.message.content) {
+        if (block.type === "text" && block.text.trim()) {
+          entry.text = entry.text ? `${entry.text}\n\n${block.text}` : block.text;
+        } else if (block.type === "tool_use") {
+          const tool: TranscriptTool = {
+            id: block.id,
+            name: block.name,
+            summary: toolSummary(block.name, block.input),
+            input: block.input,
+            diff: toolDiff(block.name, block.input),
+          };
+          toolsById.set(block.id, tool);
+          entry.tools.push(tool);
+        } else if (block.type === "tool_result") {
+          const tool = toolsById.get(block.tool_use_id);
+          if (tool) tool.result = { text: clip(blockText(block.content)), isError: !!block.is_error };
+        }
+      }
+    } else if (msg.type === "result") {
+      const data = msg.data;
+      entries.push({
+        kind: "result",
+        isError: data.is_error,
+        durationMs: data.duration_ms,
+        totalCostUsd: data.total_cost_usd,
+        numTurns: data.num_turns,
+        text: data.is_error ? (data.errors?.join("\n") || data.result) : undefined,
+      });
+    } else if (msg.type === "system_event") {
+      const text = eventText(msg);
+      if (text) entries.push({ kind: "event", timestamp: msg.timestamp, text });
+    }
+  }
+
+  return {
+    version: 1,
+    session: {
+      id: input.sessionId,
+      name: input.name || input.sessionId,
+      backendType: state.backend_type || "claude",
+      model: state.model || "",
+      cwd: state.cwd || "",
+      repoRoot: state.repo_root || "",
+      gitBranch: state.git_branch || "",
+      createdAt: input.createdAt,
+      exportedAt: input.exportedAt ?? Date.now(),
+      totalCostUsd: state.total_cost_usd ?? 0,
+      numTurns: state.num_turns ?? 0,
+      linesAdded: state.total_lines_added ?? 0,
+      linesRemoved: state.total_lines_removed ?? 0,
+    },
+    entries: entries.filter((e) => e.kind !== "assistant" || e.text || e.tools.length > 0),
+  };
+}
+
+// ─── Rendering ──────────────────────────────────────────────────────────────
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function formatTime(ms: number | undefined): string {
+  return ms ? new Date(ms).toISOString().replace("T", " ").slice(0, 16) + " UTC" : "";
+}
+
+function metadataRows(session: SessionTranscript["session"]): [string, string][] {
+  const rows: [string, string][] = [
+    ["Session", session.id],
+    ["Backend", session.backendType],
+    ["Model", session.model],
+    ["Directory", session.cwd],
+    ["Branch", session.gitBranch],
+    ["Started", formatTime(session.createdAt)],
+    ["Exported", formatTime(session.exportedAt)],
+    ["Turns", String(session.numTurns)],
+    ["Cost", formatUsd(session.totalCostUsd)],
+    ["Lines changed", `+${session.linesAdded} / -${session.linesRemoved}`],
+  ];
+  return rows.filter(([, value]) => value);
+}
+
+function resultLine(entry: Extract<TranscriptEntry, { kind: "result" }>): string {
+  const status = entry.isError ? "Turn failed" : "Turn finished";
+  return `${status} · ${formatDuration(entry.durationMs)} · ${formatUsd(entry.totalCostUsd)} total`;
+}
+
+/** Longest backtick run in the text plus one, so fences never close early. */
+function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(longest + 1);
+}
+
+function codeBlock(text: string, lang = ""): string {
+  const f = fence(text);
+  return `${f}${lang}\n${text}\n${f}`;
+}
+
+export function renderMarkdown(transcript: SessionTranscript): string {
+  const { session } = transcript;
+  const out: string[] = [`# ${session.name}`, ""];
+  for (const [label, value] of metadataRows(session)) out.push(`- **${label}:** ${value}`);
+  out.push("");
+
+  for (const entry of transcript.entries) {
+    if (entry.kind === "user") {
+      out.push("## User", "", entry.text, "");
+    } else if (entry.kind === "assistant") {
+      out.push(entry.parentToolUseId ? "### Subagent" : "## Assistant", "");
+      if (entry.text) out.push(entry.text, "");
+      for (const tool of entry.tools) {
+        // <details> keeps tool calls collapsed on GitHub and most Markdown viewers.
+        out.push("<details>", `<summary>${escapeHtml(tool.name)}${tool.summary ? `: ${escapeHtml(tool.summary)}` : ""}</summary>`, "");
+        if (tool.diff) {
+          out.push(codeBlock(tool.diff, "diff"), "");
+        } else if (tool.name === "Bash" && typeof tool.input.command === "string") {
+          out.push(codeBlock(tool.input.command, "bash"), "");
+        } else {
+          out.push(codeBlock(JSON.stringify(tool.input, null, 2), "json"), "");
+        }
+        if (tool.result) out.push(tool.result.isError ? "Error:" : "Output:", "", codeBlock(tool.result.text), "");
+        out.push("</details>", "");
+      }
+    } else if (entry.kind === "result") {
+      out.push(`_${resultLine(entry)}_`, "");
+      if (entry.text) out.push(codeBlock(entry.text), "");
+    } else {
+      out.push(`> ${entry.text}`, "");
+    }
+  }
+  return out.join("\n");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ─── HTML ───────────────────────────────────────────────────────────────────
+
+const PACKAGE_ROOT = process.env.__COMPANION_PACKAGE_ROOT || resolve(dirname(fileURLToPath(import.meta.url)), "..");
+
+// Used when there is no built frontend (e.g. running from source without `bun run build`).
+const FALLBACK_STYLE = `
+body { margin: 0; font: 14px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+pre { white-space: pre-wrap; }
+svg { width: 12px; height: 12px; }
+`;
+
+// Collapses tool calls on load and lets their headers toggle them, like the chat view.
+const TOGGLE_SCRIPT = `
+if (matchMedia("(prefers-color-scheme: dark)").matches) document.documentElement.classList.add("dark");
+document.querySelectorAll("button[aria-expanded]").forEach(function (button) {
+  var panel = button.nextElementSibling;
+  if (!panel) return;
+  function setOpen(open) {
+    button.setAttribute("aria-expanded", String(open));
+    panel.hidden = !open;
+    var chevron = button.querySelector("svg");
+    if (chevron) chevron.classList.toggle("rotate-90", open);
+  }
+  setOpen(false);
+  button.addEventListener("click", function () { setOpen(button.getAttribute("aria-expanded") !== "true"); });
+});
+`;
+
+/** The built app stylesheet, inlined so the export looks like the chat view offline. */
+function appStylesheet(): string {
+  const assetsDir = join(PACKAGE_ROOT, "dist", "assets");
+  try {
+    const css = readdirSync(assetsDir)
+      .filter((file) => file.endsWith(".css"))
+      .map((file) => readFileSync(join(assetsDir, file), "utf-8"));
+    if (css.length > 0) return css.join("\n");
+  } catch {
+    // No build yet
+  }
+  return FALLBACK_STYLE;
+}
+
+/** Same shape the chat feed renders, so the export can reuse MessageBubble. */
+function toChatMessage(entry: TranscriptEntry, index: number): ChatMessage {
+  if (entry.kind === "user") {
+    return { id: entry.id || `user-${index}`, role: "user", content: entry.text, timestamp: entry.timestamp };
+  }
+  if (entry.kind === "assistant") {
+    const blocks: ContentBlock[] = entry.text ? [{ type: "text", text: entry.text }] : [];
+    for (const tool of entry.tools) {
+      blocks.push({ type: "tool_use", id: tool.id, name: tool.name, input: tool.input });
+      if (tool.result) {
+        blocks.push({ type: "tool_result", tool_use_id: tool.id, content: tool.result.text, is_error: tool.result.isError });
+      }
+    }
+    return {
+      id: entry.id,
+      role: "assistant",
+      content: entry.text,
+      contentBlocks: blocks,
+      timestamp: entry.timestamp,
+      parentToolUseId: entry.parentToolUseId,
+      model: entry.model,
+    };
+  }
+  const content = entry.kind === "result"
+    ? (entry.text ? `${resultLine(entry)}: ${entry.text}` : resultLine(entry))
+    : entry.text;
+  return { id: `${entry.kind}-${index}`, role: "system", content, timestamp: entry.kind === "event" ? entry.timestamp ?? 0 : 0 };
+}
+
+function ExportPage({ transcript }: { transcript: SessionTranscript }) {
+  const { session } = transcript;
+  return (
+    <main className="max-w-3xl mx-auto px-4 sm:px-6 py-8 space-y-5">
+      <div>
+        <h1 className="text-xl font-semibold text-cc-fg">{session.name}</h1>
+        <dl className="mt-3 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-0.5 text-xs">
+          {metadataRows(session).map(([label, value]) => (
+            <Fragment key={label}>
+              <dt className="text-cc-muted">{label}</dt>
+              <dd className="font-mono-code text-cc-fg break-all">{value}</dd>
+            </Fragment>
+          ))}
+        </dl>
+      </div>
+      <ToolBlocksExpanded.Provider value={true}>
+        {transcript.entries.map((entry, i) => {
+          const message = toChatMessage(entry, i);
+          return message.parentToolUseId
+            ? (
+              <div key={message.id} className="ml-3 pl-3 border-l-2 border-cc-border">
+                <MessageBubble message={message} />
+              </div>
+            )
+            : <MessageBubble key={message.id} message={message} />;
+        })}
+      </ToolBlocksExpanded.Provider>
+    </main>
+  );
+}
+
+/**
+ * A single offline page rendered with the chat view's own MessageBubble and
+ * ToolBlock, styled by the built app stylesheet.
+ */
+export function renderHtml(transcript: SessionTranscript): string {
+  const page = renderToStaticMarkup(<ExportPage transcript={transcript} />);
+  const title = renderToStaticMarkup(<title>{transcript.session.name}</title>);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${title}
+<style>${appStylesheet()}</style>
+</head>
+<body class="bg-cc-bg text-cc-fg font-sans-ui antialiased">
+${page}
+<script>${TOGGLE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "session";
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+export function exportSession(input: SessionExportInput, format: ExportFormat): RenderedExport {
+  const transcript = buildTranscript(input);
+  const body = format === "md"
+    ? renderMarkdown(transcript)
+    : format === "html"
+      ? renderHtml(transcript)
+      : JSON.stringify(transcript, null, 2);
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `${fileSlug(transcript.session.name)}.${format}`,
+  };
+}
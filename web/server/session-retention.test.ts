@@ -0,0 +1,71 @@
+import { applyRetention, retentionFromEnv } from "./session-retention.js";
+import type { SessionMeta } from "./session-store.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1);
+
+function meta(id: string, overrides: Partial<SessionMeta> = {}): SessionMeta {
+  return {
+    id,
+    state: {} as SessionMeta["state"],
+    pendingMessages: [],
+    pendingPermissions: [],
+    messageCount: 0,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeDeps(sessions: SessionMeta[], alive: string[] = []) {
+  return {
+    store: { loadAllMeta: vi.fn(() => sessions), setArchived: vi.fn(() => true), remove: vi.fn() },
+    launcher: { isAlive: vi.fn((id: string) => alive.includes(id)), setArchived: vi.fn(), removeSession: vi.fn() },
+    bridge: { closeSession: vi.fn() },
+  };
+}
+
+describe("retentionFromEnv", () => {
+  it("is off unless positive day counts are set", () => {
+    expect(retentionFromEnv({})).toEqual({ archiveAfterDays: 0, purgeAfterDays: 0 });
+    expect(retentionFromEnv({ COMPANION_ARCHIVE_AFTER_DAYS: "14", COMPANION_PURGE_AFTER_DAYS: "-1" })).toEqual({
+      archiveAfterDays: 14,
+      purgeAfterDays: 0,
+    });
+  });
+});
+
+describe("applyRetention", () => {
+  it("archives idle sessions whose CLI has exited", () => {
+    const deps = makeDeps([
+      meta("idle", { updatedAt: NOW - 15 * DAY }),
+      meta("recent", { updatedAt: NOW - 2 * DAY }),
+      meta("running", { updatedAt: NOW - 30 * DAY }),
+    ], ["running"]);
+
+    const result = applyRetention(deps, { archiveAfterDays: 14, purgeAfterDays: 0 }, NOW);
+
+    expect(result).toEqual({ archived: ["idle"], purged: [] });
+    expect(deps.launcher.setArchived).toHaveBeenCalledWith("idle", true);
+    expect(deps.store.setArchived).toHaveBeenCalledWith("idle", true);
+  });
+
+  it("purges sessions archived longer than the purge window", () => {
+    const deps = makeDeps([
+      meta("old", { archived: true, archivedAt: NOW - 31 * DAY }),
+      meta("fresh", { archived: true, archivedAt: NOW - DAY, updatedAt: NOW - 90 * DAY }),
+    ]);
+
+    const result = applyRetention(deps, { archiveAfterDays: 0, purgeAfterDays: 30 }, NOW);
+
+    expect(result).toEqual({ archived: [], purged: ["old"] });
+    expect(deps.launcher.removeSession).toHaveBeenCalledWith("old");
+    expect(deps.bridge.closeSession).toHaveBeenCalledWith("old");
+    expect(deps.store.remove).toHaveBeenCalledWith("old");
+  });
+
+  it("does nothing when both steps are off", () => {
+    const deps = makeDeps([meta("idle", { updatedAt: 0 })]);
+    expect(applyRetention(deps, { archiveAfterDays: 0, purgeAfterDays: 0 }, NOW)).toEqual({ archived: [], purged: [] });
+    expect(deps.store.loadAllMeta).not.toHaveBeenCalled();
+  });
+});
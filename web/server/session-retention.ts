@@ -0,0 +1,83 @@
+import type { SessionStore } from "./session-store.js";
+import type { CliLauncher } from "./cli-launcher.js";
+import type { WsBridge } from "./ws-bridge.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/** 0 turns a step off. */
+export interface RetentionPolicy {
+  /** Archive sessions whose CLI has exited after this many days without activity */
+  archiveAfterDays: number;
+  /** Delete archived sessions this many days after they were archived */
+  purgeAfterDays: number;
+}
+
+export interface RetentionDeps {
+  store: Pick<SessionStore, "loadAllMeta" | "setArchived" | "remove">;
+  launcher: Pick<CliLauncher, "isAlive" | "setArchived" | "removeSession">;
+  bridge: Pick<WsBridge, "closeSession">;
+}
+
+function days(value: string | undefined): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/** Read COMPANION_ARCHIVE_AFTER_DAYS / COMPANION_PURGE_AFTER_DAYS; both default to off. */
+export function retentionFromEnv(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  return {
+    archiveAfterDays: days(env.COMPANION_ARCHIVE_AFTER_DAYS),
+    purgeAfterDays: days(env.COMPANION_PURGE_AFTER_DAYS),
+  };
+}
+
+/** Archive idle sessions and purge old archived ones. Returns the affected ids. */
+export function applyRetention(
+  deps: RetentionDeps,
+  policy: RetentionPolicy,
+  now = Date.now(),
+): { archived: string[]; purged: string[] } {
+  const archived: string[] = [];
+  const purged: string[] = [];
+  if (!policy.archiveAfterDays && !policy.purgeAfterDays) return { archived, purged };
+
+  for (const meta of deps.store.loadAllMeta()) {
+    if (meta.archived) {
+      const since = meta.archivedAt ?? meta.updatedAt;
+      if (policy.purgeAfterDays && now - since >= policy.purgeAfterDays * DAY_MS) {
+        deps.launcher.removeSession(meta.id);
+        deps.bridge.closeSession(meta.id);
+        deps.store.remove(meta.id);
+        purged.push(meta.id);
+      }
+      continue;
+    }
+    if (!policy.archiveAfterDays || now - meta.updatedAt < policy.archiveAfterDays * DAY_MS) continue;
+    // A running CLI means someone may come back to it; leave it alone.
+    if (deps.launcher.isAlive(meta.id)) continue;
+    deps.launcher.setArchived(meta.id, true);
+    deps.store.setArchived(meta.id, true);
+    archived.push(meta.id);
+  }
+
+  if (archived.length > 0 || purged.length > 0) {
+    console.log(`[session-retention] Archived ${archived.length} and purged ${purged.length} session(s)`);
+  }
+  return { archived, purged };
+}
+
+/** Run the policy now and then hourly. Returns a stop function. */
+export function startRetentionSweeper(deps: RetentionDeps, policy: RetentionPolicy): () => void {
+  if (!policy.archiveAfterDays && !policy.purgeAfterDays) return () => {};
+  const sweep = () => {
+    try {
+      applyRetention(deps, policy);
+    } catch (err) {
+      console.error("[session-retention] Sweep failed:", err);
+    }
+  };
+  sweep();
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
@@ -1,4 +1,4 @@
-import { mkdtempSync, rmSync, existsSync, readFileSync, writeFileSync } from "node:fs";
+import { mkdtempSync, mkdirSync, rmSync, existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { SessionStore, type PersistedSession } from "./session-store.js";
@@ -112,6 +112,86 @@ describe("saveSync / load", () => {
   });
 });
 
+// ─── message log ─────────────────────────────────────────────────────────────
+
+describe("message log", () => {
+  const msg = (n: number) => ({ type: "error" as const, message: `m${n}` });
+  const logLines = (id: string) =>
+    readFileSync(join(tempDir, `${id}.messages.jsonl`), "utf-8").trim().split("\n").map((l) => JSON.parse(l).message);
+
+  it("keeps messages out of the metadata file and appends only new ones", () => {
+    const session = makeSession("log-1", { messageHistory: [msg(1)] });
+    store.saveSync(session);
+    // Corrupt the first line on disk: an append-only save must not rewrite it.
+    const logPath = join(tempDir, "log-1.messages.jsonl");
+    writeFileSync(logPath, readFileSync(logPath, "utf-8").replace("m1", "on-disk"), "utf-8");
+
+    session.messageHistory.push(msg(2), msg(3));
+    store.saveSync(session);
+
+    expect(logLines("log-1")).toEqual(["on-disk", "m2", "m3"]);
+    const meta = JSON.parse(readFileSync(join(tempDir, "log-1.json"), "utf-8"));
+    expect(meta.messageHistory).toBeUndefined();
+    expect(meta.messageCount).toBe(3);
+  });
+
+  it("rewrites the log when the history was truncated", () => {
+    const session = makeSession("log-2", { messageHistory: [msg(1), msg(2), msg(3)] });
+    store.saveSync(session);
+
+    session.messageHistory.splice(1);
+    session.messageHistory.push(msg(4));
+    store.saveSync(session);
+
+    expect(logLines("log-2")).toEqual(["m1", "m4"]);
+  });
+
+  it("skips a torn last line", () => {
+    store.saveSync(makeSession("log-3", { messageHistory: [msg(1)] }));
+    writeFileSync(join(tempDir, "log-3.messages.jsonl"), `${JSON.stringify(msg(1))}\n{"type":"err`, { flag: "w" });
+
+    expect(store.loadMessages("log-3")).toEqual([msg(1)]);
+  });
+
+  it("lists metadata without reading message logs", () => {
+    store.saveSync(makeSession("meta-1", { messageHistory: [msg(1), msg(2)] }));
+
+    const [meta] = store.loadAllMeta();
+    expect(meta).toMatchObject({ id: "meta-1", messageCount: 2 });
+    expect(meta.updatedAt).toBeGreaterThan(0);
+    expect("messageHistory" in meta).toBe(false);
+  });
+});
+
+// ─── migration ───────────────────────────────────────────────────────────────
+
+describe("migration", () => {
+  it("upgrades files that still embed the message history", () => {
+    const legacy = makeSession("old-1", { messageHistory: [{ type: "error", message: "hi" }] });
+    writeFileSync(join(tempDir, "old-1.json"), JSON.stringify(legacy), "utf-8");
+
+    expect(store.load("old-1")).toEqual(legacy);
+    expect(JSON.parse(readFileSync(join(tempDir, "old-1.json"), "utf-8")).messageHistory).toBeUndefined();
+    expect(existsSync(join(tempDir, "old-1.messages.jsonl"))).toBe(true);
+  });
+
+  it("imports sessions and launcher state from the legacy directory once", () => {
+    const legacyDir = join(tempDir, "legacy");
+    const newDir = join(tempDir, "new");
+    mkdirSync(legacyDir);
+    const legacy = makeSession("tmp-1", { messageHistory: [{ type: "error", message: "kept" }] });
+    writeFileSync(join(legacyDir, "tmp-1.json"), JSON.stringify(legacy), "utf-8");
+    writeFileSync(join(legacyDir, "launcher.json"), JSON.stringify([{ sessionId: "tmp-1" }]), "utf-8");
+
+    const migrated = new SessionStore(newDir, legacyDir);
+
+    expect(migrated.load("tmp-1")).toEqual(legacy);
+    expect(migrated.loadLauncher()).toEqual([{ sessionId: "tmp-1" }]);
+    expect(existsSync(join(legacyDir, "tmp-1.json"))).toBe(false);
+    expect(existsSync(join(legacyDir, "tmp-1.json.migrated"))).toBe(true);
+  });
+});
+
 // ─── save (debounced) ─────────────────────────────────────────────────────────
 
 describe("save (debounced)", () => {
@@ -231,6 +311,17 @@ describe("setArchived", () => {
     expect(loaded!.archived).toBe(false);
   });
 
+  it("records when a session was archived and keeps the flag across later saves", () => {
+    const session = makeSession("arch-3");
+    store.saveSync(session);
+    store.setArchived("arch-3", true);
+    store.saveSync(session);
+
+    const [meta] = store.loadAllMeta();
+    expect(meta.archived).toBe(true);
+    expect(meta.archivedAt).toBeGreaterThan(0);
+  });
+
   it("returns false for a non-existent session", () => {
     const result = store.setArchived("no-such-session", true);
     expect(result).toBe(false);
@@ -1,11 +1,24 @@
-import { mkdirSync, readdirSync, readFileSync, writeFileSync, unlinkSync } from "node:fs";
+import {
+  appendFileSync,
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+  unlinkSync,
+} from "node:fs";
 import { join } from "node:path";
-import { tmpdir } from "node:os";
+import { homedir, tmpdir } from "node:os";
 import type {
   SessionState,
   BrowserIncomingMessage,
   PermissionRequest,
   BufferedBrowserEvent,
+  PromptQueue,
+  VerifyLoop,
 } from "./session-types.js";
 
 // ─── Serializable session shape ─────────────────────────────────────────────
@@ -20,26 +33,60 @@ export interface PersistedSession {
   nextEventSeq?: number;
   lastAckSeq?: number;
   processedClientMessageIds?: string[];
+  promptQueue?: PromptQueue;
+  verifyLoop?: VerifyLoop;
   archived?: boolean;
+  archivedAt?: number;
+}
+
+/**
+ * Everything but the message log, as stored in `<id>.json`. Cheap to read for
+ * thousands of sessions; the messages live in `<id>.messages.jsonl`.
+ */
+export interface SessionMeta extends Omit<PersistedSession, "messageHistory"> {
+  messageCount: number;
+  /** Last time the session was saved — the activity clock for retention */
+  updatedAt: number;
 }
 
 // ─── Store ──────────────────────────────────────────────────────────────────
 
-const DEFAULT_DIR = join(tmpdir(), "vibe-sessions");
+const DEFAULT_DIR = join(homedir(), ".companion", "sessions");
+/** Where sessions lived before they moved under ~/.companion; imported on first start. */
+const LEGACY_DIR = join(tmpdir(), "vibe-sessions");
+const LAUNCHER_FILE = "launcher.json";
+
+function toLines(messages: BrowserIncomingMessage[]): string {
+  return messages.map((m) => `${JSON.stringify(m)}\n`).join("");
+}
+
+function isSessionFile(file: string): boolean {
+  return file.endsWith(".json") && file !== LAUNCHER_FILE;
+}
 
 export class SessionStore {
   private dir: string;
   private debounceTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** How much of each message log is on disk, so saves only append the new tail. */
+  private logged = new Map<string, { count: number; tail: BrowserIncomingMessage | undefined }>();
+  /** Archive flags survive saves from the bridge, which doesn't track them. */
+  private archiveInfo = new Map<string, { archived: boolean; archivedAt?: number }>();
 
-  constructor(dir?: string) {
+  constructor(dir?: string, legacyDir?: string) {
     this.dir = dir || DEFAULT_DIR;
     mkdirSync(this.dir, { recursive: true });
+    const importFrom = legacyDir ?? (dir ? undefined : LEGACY_DIR);
+    if (importFrom && importFrom !== this.dir) this.importLegacyDir(importFrom);
   }
 
   private filePath(sessionId: string): string {
     return join(this.dir, `${sessionId}.json`);
   }
 
+  private messagesPath(sessionId: string): string {
+    return join(this.dir, `${sessionId}.messages.jsonl`);
+  }
+
   /** Debounced write — batches rapid changes (e.g. multiple stream events). */
   save(session: PersistedSession): void {
     const existing = this.debounceTimers.get(session.id);
@@ -55,34 +102,108 @@ export class SessionStore {
   /** Immediate write — use for critical state changes. */
   saveSync(session: PersistedSession): void {
     try {
-      writeFileSync(this.filePath(session.id), JSON.stringify(session), "utf-8");
+      this.writeSession(session, Date.now());
     } catch (err) {
       console.error(`[session-store] Failed to save session ${session.id}:`, err);
     }
   }
 
-  /** Load a single session from disk. */
-  load(sessionId: string): PersistedSession | null {
+  private writeSession(session: PersistedSession, updatedAt: number): void {
+    const { messageHistory, ...rest } = session;
+    this.writeMessages(session.id, messageHistory);
+    const meta: SessionMeta = {
+      ...this.archiveInfo.get(session.id),
+      ...rest,
+      messageCount: messageHistory.length,
+      updatedAt,
+    };
+    this.writeMeta(meta);
+  }
+
+  private writeMeta(meta: SessionMeta): void {
+    if (meta.archived !== undefined) {
+      this.archiveInfo.set(meta.id, { archived: meta.archived, archivedAt: meta.archivedAt });
+    }
+    writeFileSync(this.filePath(meta.id), JSON.stringify(meta), "utf-8");
+  }
+
+  /**
+   * Append messages added since the last write. The log is rewritten only when
+   * the history no longer extends what is on disk (rewind, fork seeding).
+   */
+  private writeMessages(sessionId: string, history: BrowserIncomingMessage[]): void {
+    const logged = this.logged.get(sessionId);
+    const extendsLog = !!logged
+      && history.length >= logged.count
+      && (logged.count === 0 || history[logged.count - 1] === logged.tail);
+    if (extendsLog) {
+      if (history.length > logged.count) {
+        appendFileSync(this.messagesPath(sessionId), toLines(history.slice(logged.count)), "utf-8");
+      }
+    } else {
+      writeFileSync(this.messagesPath(sessionId), toLines(history), "utf-8");
+    }
+    this.logged.set(sessionId, { count: history.length, tail: history.at(-1) });
+  }
+
+  /** Read `<id>.json`, upgrading files that still embed the message history. */
+  private readMeta(sessionId: string): SessionMeta | null {
+    const path = this.filePath(sessionId);
+    let raw: SessionMeta & { messageHistory?: BrowserIncomingMessage[] };
     try {
-      const raw = readFileSync(this.filePath(sessionId), "utf-8");
-      return JSON.parse(raw) as PersistedSession;
+      raw = JSON.parse(readFileSync(path, "utf-8"));
     } catch {
       return null;
     }
+    if (!raw || typeof raw !== "object" || typeof raw.id !== "string") return null;
+    if (Array.isArray(raw.messageHistory)) {
+      const updatedAt = statSync(path).mtimeMs;
+      this.writeSession(raw as unknown as PersistedSession, updatedAt);
+      const { messageHistory, ...rest } = raw;
+      return { ...rest, messageCount: messageHistory.length, updatedAt };
+    }
+    if (raw.archived !== undefined) {
+      this.archiveInfo.set(raw.id, { archived: raw.archived, archivedAt: raw.archivedAt });
+    }
+    return raw;
   }
 
-  /** Load all sessions from disk. */
-  loadAll(): PersistedSession[] {
-    const sessions: PersistedSession[] = [];
+  /** Load a session's message log. Unparseable lines (e.g. a torn last write) are skipped. */
+  loadMessages(sessionId: string): BrowserIncomingMessage[] {
+    const messages: BrowserIncomingMessage[] = [];
+    let raw = "";
     try {
-      const files = readdirSync(this.dir).filter((f) => f.endsWith(".json") && f !== "launcher.json");
-      for (const file of files) {
-        try {
-          const raw = readFileSync(join(this.dir, file), "utf-8");
-          sessions.push(JSON.parse(raw));
-        } catch {
-          // Skip corrupt files
-        }
+      raw = readFileSync(this.messagesPath(sessionId), "utf-8");
+    } catch {
+      // No messages yet
+    }
+    for (const line of raw.split("\n")) {
+      if (!line) continue;
+      try {
+        messages.push(JSON.parse(line));
+      } catch {
+        // Skip corrupt lines
+      }
+    }
+    this.logged.set(sessionId, { count: messages.length, tail: messages.at(-1) });
+    return messages;
+  }
+
+  /** Load a single session from disk. */
+  load(sessionId: string): PersistedSession | null {
+    const meta = this.readMeta(sessionId);
+    if (!meta) return null;
+    const { messageCount: _count, updatedAt: _updatedAt, ...rest } = meta;
+    return { ...rest, messageHistory: this.loadMessages(sessionId) };
+  }
+
+  /** Load every session's metadata without reading any message logs. */
+  loadAllMeta(): SessionMeta[] {
+    const sessions: SessionMeta[] = [];
+    try {
+      for (const file of readdirSync(this.dir).filter(isSessionFile)) {
+        const meta = this.readMeta(file.slice(0, -".json".length));
+        if (meta) sessions.push(meta);
       }
     } catch {
       // Dir doesn't exist yet
@@ -90,33 +211,86 @@ export class SessionStore {
     return sessions;
   }
 
+  /** Load all sessions from disk, messages included. */
+  loadAll(): PersistedSession[] {
+    return this.loadAllMeta()
+      .map((meta) => this.load(meta.id))
+      .filter((s): s is PersistedSession => s !== null);
+  }
+
   /** Set the archived flag on a persisted session. */
   setArchived(sessionId: string, archived: boolean): boolean {
-    const session = this.load(sessionId);
-    if (!session) return false;
-    session.archived = archived;
-    this.saveSync(session);
+    const meta = this.readMeta(sessionId);
+    if (!meta) return false;
+    meta.archived = archived;
+    if (archived) meta.archivedAt = Date.now();
+    else delete meta.archivedAt;
+    try {
+      this.writeMeta(meta);
+    } catch (err) {
+      console.error(`[session-store] Failed to archive session ${sessionId}:`, err);
+      return false;
+    }
     return true;
   }
 
-  /** Remove a session file from disk. */
+  /** Remove a session's files from disk. */
   remove(sessionId: string): void {
     const timer = this.debounceTimers.get(sessionId);
     if (timer) {
       clearTimeout(timer);
       this.debounceTimers.delete(sessionId);
     }
+    this.logged.delete(sessionId);
+    this.archiveInfo.delete(sessionId);
+    for (const path of [this.filePath(sessionId), this.messagesPath(sessionId)]) {
+      try {
+        unlinkSync(path);
+      } catch {
+        // File may not exist
+      }
+    }
+  }
+
+  /**
+   * Import sessions saved by older versions in one-file-per-session JSON.
+   * Imported files are renamed to `.migrated` so this runs once.
+   */
+  private importLegacyDir(legacyDir: string): void {
+    let files: string[];
     try {
-      unlinkSync(this.filePath(sessionId));
+      files = readdirSync(legacyDir).filter((f) => f.endsWith(".json"));
     } catch {
-      // File may not exist
+      return;
+    }
+    let imported = 0;
+    for (const file of files) {
+      const source = join(legacyDir, file);
+      try {
+        if (file === LAUNCHER_FILE) {
+          if (!existsSync(join(this.dir, LAUNCHER_FILE))) copyFileSync(source, join(this.dir, LAUNCHER_FILE));
+        } else {
+          const session = JSON.parse(readFileSync(source, "utf-8")) as PersistedSession;
+          if (typeof session?.id !== "string") continue;
+          if (!existsSync(this.filePath(session.id))) {
+            this.writeSession({ ...session, messageHistory: session.messageHistory || [] }, statSync(source).mtimeMs);
+            imported++;
+          }
+        }
+        renameSync(source, `${source}.migrated`);
+      } catch (err) {
+        console.warn(`[session-store] Could not migrate ${source}:`, err);
+      }
+    }
+    if (imported > 0) {
+      console.log(`[session-store] Migrated ${imported} session(s) from ${legacyDir}`);
     }
   }
 
   /** Persist launcher state (separate file). */
   saveLauncher(data: unknown): void {
     try {
-      writeFileSync(join(this.dir, "launcher.json"), JSON.stringify(data), "utf-8");
+      writeFileSync(join(this.dir, LAUNCHER_FILE), JSON.stringify(data), "utf-8");
     } catch (err) {
       console.error("[session-store] Failed to save launcher state:", err);
     }
@@ -125,7 +299,7 @@ export class SessionStore {
   /** Load launcher state. */
   loadLauncher<T>(): T | null {
     try {
-      const raw = readFileSync(join(this.dir, "launcher.json"), "utf-8");
+      const raw = readFileSync(join(this.dir, LAUNCHER_FILE), "utf-8");
       return JSON.parse(raw) as T;
     } catch {
       return null;
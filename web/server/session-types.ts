@@ -131,6 +131,18 @@ export interface CLIAssistantMessage {
   session_id: string;
 }
 
+/** Echoed user turns; after a tool call this carries the tool_result blocks. */
+export interface CLIUserMessage {
+  type: "user";
+  message: {
+    role: "user";
+    content: string | ContentBlock[];
+  };
+  parent_tool_use_id: string | null;
+  uuid?: string;
+  session_id: string;
+}
+
 export interface CLIResultMessage {
   type: "result";
   subtype: "success" | "error_during_execution" | "error_max_turns" | "error_max_budget_usd" | "error_max_structured_output_retries";
@@ -192,15 +204,22 @@ export interface CLIToolUseSummaryMessage {
 export interface CLIControlRequestMessage {
   type: "control_request";
   request_id: string;
-  request: {
-    subtype: "can_use_tool";
-    tool_name: string;
-    input: Record<string, unknown>;
-    permission_suggestions?: PermissionUpdate[];
-    description?: string;
-    tool_use_id: string;
-    agent_id?: string;
-  };
+  request:
+    | {
+      subtype: "can_use_tool";
+      tool_name: string;
+      input: Record<string, unknown>;
+      permission_suggestions?: PermissionUpdate[];
+      description?: string;
+      tool_use_id: string;
+      agent_id?: string;
+    }
+    | {
+      subtype: "hook_callback";
+      callback_id: string;
+      input: Record<string, unknown>;
+      tool_use_id?: string;
+    };
 }
 
 export interface CLIKeepAliveMessage {
@@ -229,6 +248,7 @@ export interface CLIControlResponseMessage {
 export type CLIMessage =
   | CLISystemMessage
   | CLIAssistantMessage
+  | CLIUserMessage
   | CLIResultMessage
   | CLIStreamEventMessage
   | CLIToolProgressMessage
@@ -250,23 +270,176 @@ export type ContentBlock =
 
 /** Messages the browser sends to the bridge */
 export type BrowserOutgoingMessage =
-  | { type: "user_message"; content: string; session_id?: string; images?: { media_type: string; data: string }[]; client_msg_id?: string }
+  | { type: "user_message"; content: string; session_id?: string; images?: { media_type: string; data: string }[]; id?: string; client_msg_id?: string }
   | { type: "permission_response"; request_id: string; behavior: "allow" | "deny"; updated_input?: Record<string, unknown>; updated_permissions?: PermissionUpdate[]; message?: string; client_msg_id?: string }
   | { type: "session_subscribe"; last_seq: number }
   | { type: "session_ack"; last_seq: number }
+  | { type: "history_page"; before: number }
   | { type: "interrupt"; client_msg_id?: string }
   | { type: "set_model"; model: string; client_msg_id?: string }
   | { type: "set_permission_mode"; mode: string; client_msg_id?: string }
   | { type: "mcp_get_status"; client_msg_id?: string }
   | { type: "mcp_toggle"; serverName: string; enabled: boolean; client_msg_id?: string }
   | { type: "mcp_reconnect"; serverName: string; client_msg_id?: string }
-  | { type: "mcp_set_servers"; servers: Record<string, McpServerConfig>; client_msg_id?: string };
+  | { type: "mcp_set_servers"; servers: Record<string, McpServerConfig>; client_msg_id?: string }
+  | { type: "rewind_files"; message_id: string; dry_run?: boolean; client_msg_id?: string }
+  | { type: "set_thinking_budget"; level: ThinkingLevel; tokens?: number; client_msg_id?: string }
+  | { type: "presence_hello"; viewer_id: string; name: string }
+  | { type: "presence_typing"; typing: boolean }
+  | { type: "driver_claim" }
+  | { type: "driver_release" }
+  | { type: "driver_handoff"; viewer_id: string }
+  | { type: "queue_add"; content: string; images?: { media_type: string; data: string }[]; client_msg_id?: string }
+  | { type: "queue_edit"; id: string; content: string }
+  | { type: "queue_remove"; id: string }
+  | { type: "queue_move"; id: string; index: number }
+  | { type: "queue_settings"; paused?: boolean; pause_on_error?: boolean }
+  /** `command: ""` turns verification off; `max_cost_usd: null` removes the budget */
+  | { type: "verify_settings"; command?: string; max_iterations?: number; max_cost_usd?: number | null };
+
+/** A person looking at a session; several tabs of one browser share a viewer_id. */
+export interface SessionViewer {
+  viewer_id: string;
+  name: string;
+  typing: boolean;
+}
+
+/** Holder of the optional driver lock: only they may send prompts or answer permissions. */
+export interface SessionDriver {
+  viewer_id: string;
+  name: string;
+}
+
+/** A prompt waiting for the current turn to finish before it is sent. */
+export interface QueuedPrompt {
+  id: string;
+  content: string;
+  images?: { media_type: string; data: string }[];
+  created_at: number;
+}
+
+/** Per-session prompt queue, dispatched head-first whenever the agent goes idle. */
+export interface PromptQueue {
+  prompts: QueuedPrompt[];
+  paused: boolean;
+  /** Pause instead of dispatching the next prompt when a turn ends in an error result. */
+  pause_on_error: boolean;
+  /** Why the queue was paused automatically; cleared when it is resumed. */
+  paused_reason?: string;
+}
+
+/** One run of the verification command after a turn ended. */
+export interface VerifyIteration {
+  /** 1-based position within the current loop */
+  iteration: number;
+  passed: boolean;
+  exit_code: number;
+  timed_out: boolean;
+  /** Tail of the command's combined output */
+  output: string;
+  duration_ms: number;
+  finished_at: number;
+}
+
+/**
+ * "Loop until green": after each result the command runs, and a failure is
+ * sent back to the agent until it passes, `max_iterations` runs have failed or
+ * the loop has spent `max_cost_usd`. A prompt from a person starts a new loop.
+ */
+export interface VerifyLoop {
+  /** Verification command, e.g. `bun test`; empty when verification is off */
+  command: string;
+  max_iterations: number;
+  max_cost_usd?: number;
+  /** The command is running right now */
+  running: boolean;
+  /** Runs in the current loop, oldest first */
+  iterations: VerifyIteration[];
+  /** Session cost when the current loop started, for the loop budget */
+  start_cost_usd: number;
+  /** The last prompt was a failure report, so its result continues the loop */
+  follow_up_pending: boolean;
+  /** Why the current loop ended: passed, out of iterations or budget */
+  stopped_reason?: string;
+}
+
+/** Outcome of a `rewind_files` control request (preview when dry_run) */
+export interface RewindFilesResult {
+  can_rewind: boolean;
+  /** File names, when the CLI lists them */
+  files_changed: string[];
+  /** How many files would change, as the CLI reports it (protocol §7.12 sends a count) */
+  files_changed_count?: number;
+  insertions?: number;
+  deletions?: number;
+  error?: string;
+}
+
+/** A Companion hook rule (see hook-rules.ts) decided a `hook_callback`. */
+export interface HookDecisionEvent {
+  subtype: "hook_decision";
+  hook_event: string;
+  tool_name?: string;
+  decision: "allow" | "deny" | "ask";
+  rule_id: string;
+  rule_name: string;
+  reason?: string;
+}
+
+/** A permission request was answered by an auto-approval rule (see auto-approval.ts). */
+export interface AutoApprovalEvent {
+  subtype: "auto_approval";
+  request_id: string;
+  tool_name: string;
+  behavior: "allow" | "deny";
+  rule_id: string;
+  scope: "global" | "repo" | "session";
+  description?: string;
+  subject?: string;
+}
+
+/** A permission request was answered through a signed notification link (see permission-actions.ts). */
+export interface RemotePermissionDecisionEvent {
+  subtype: "remote_permission_decision";
+  request_id: string;
+  tool_name: string;
+  behavior: "allow" | "deny";
+  /** Channel the link was delivered through: "push" or "webhook". */
+  via: string;
+  /** Who used the link, as far as the server can tell (device, address). */
+  actor: string;
+}
+
+/**
+ * A cost budget was used up (see cost-budgets.ts). A running turn whose
+ * estimated cost (from streamed token usage) crosses a limit is interrupted;
+ * either way the session's new turns are blocked from then on.
+ */
+export interface BudgetExceededEvent {
+  subtype: "budget_exceeded";
+  scope: BudgetScope;
+  label: string;
+  limit_usd: number;
+  spent_usd: number;
+  /** A turn was running and got interrupted */
+  interrupted: boolean;
+}
+
+/** What the watchdog does with a session that stopped making progress mid-turn. */
+export type StuckAction = "notify" | "interrupt" | "relaunch";
+
+/** The watchdog found a session stuck mid-turn and acted on it (see session-watchdog.ts). */
+export interface SessionStuckEvent {
+  subtype: "session_stuck";
+  reason: string;
+  action: StuckAction;
+}
 
 /** Messages the bridge sends to the browser */
 export type BrowserIncomingMessageBase =
   | { type: "session_init"; session: SessionState }
   | { type: "session_update"; session: Partial<SessionState> }
-  | { type: "assistant"; message: CLIAssistantMessage["message"]; parent_tool_use_id: string | null; timestamp?: number }
+  | { type: "assistant"; message: CLIAssistantMessage["message"]; parent_tool_use_id: string | null; timestamp?: number; uuid?: string }
   | { type: "stream_event"; event: unknown; parent_tool_use_id: string | null }
   | {
     type: "system_event";
@@ -276,7 +449,12 @@ export type BrowserIncomingMessageBase =
       | Pick<CLIFilesPersistedMessage, "subtype" | "files" | "failed" | "processed_at" | "uuid" | "session_id">
       | Pick<CLIHookStartedMessage, "subtype" | "hook_id" | "hook_name" | "hook_event" | "uuid" | "session_id">
       | Pick<CLIHookProgressMessage, "subtype" | "hook_id" | "hook_name" | "hook_event" | "stdout" | "stderr" | "output" | "uuid" | "session_id">
-      | Pick<CLIHookResponseMessage, "subtype" | "hook_id" | "hook_name" | "hook_event" | "output" | "stdout" | "stderr" | "exit_code" | "outcome" | "uuid" | "session_id">;
+      | Pick<CLIHookResponseMessage, "subtype" | "hook_id" | "hook_name" | "hook_event" | "output" | "stdout" | "stderr" | "exit_code" | "outcome" | "uuid" | "session_id">
+      | HookDecisionEvent
+      | AutoApprovalEvent
+      | RemotePermissionDecisionEvent
+      | BudgetExceededEvent
+      | SessionStuckEvent;
     timestamp?: number;
   }
   | { type: "result"; data: CLIResultMessage }
@@ -289,12 +467,25 @@ export type BrowserIncomingMessageBase =
   | { type: "error"; message: string }
   | { type: "cli_disconnected" }
   | { type: "cli_connected" }
-  | { type: "user_message"; content: string; timestamp: number; id?: string }
-  | { type: "message_history"; messages: BrowserIncomingMessage[] }
+  | { type: "user_message"; content: string; timestamp: number; id?: string; uuid?: string }
+  /** `cursor` is the index of the first message sent when older ones were left out */
+  | { type: "message_history"; messages: BrowserIncomingMessage[]; cursor?: number }
+  /** Messages `[cursor, before)`; `cursor` is null once the start of the history is reached */
+  | { type: "history_page"; before: number; messages: BrowserIncomingMessage[]; cursor: number | null }
   | { type: "event_replay"; events: BufferedBrowserEvent[] }
   | { type: "session_name_update"; name: string }
   | { type: "pr_status_update"; pr: import("./github-pr.js").GitHubPRInfo | null; available: boolean }
-  | { type: "mcp_status"; servers: McpServerDetail[] };
+  | { type: "mcp_status"; servers: McpServerDetail[] }
+  | ({ type: "rewind_result"; message_id: string; dry_run: boolean } & RewindFilesResult)
+  | {
+    type: "presence";
+    viewers: SessionViewer[];
+    driver: SessionDriver | null;
+    /** Viewers who asked the driver to hand off control. */
+    control_requests: string[];
+  }
+  | { type: "prompt_queue"; queue: PromptQueue }
+  | { type: "verify_loop"; loop: VerifyLoop };
 
 export type BrowserIncomingMessage = BrowserIncomingMessageBase & { seq?: number };
 
@@ -303,12 +494,29 @@ export type ReplayableBrowserIncomingMessage = Exclude<BrowserIncomingMessageBas
 export interface BufferedBrowserEvent {
   seq: number;
   message: ReplayableBrowserIncomingMessage;
+  /** When it was sent; a rewind drops the events from the rewound message on */
+  timestamp?: number;
 }
 
 // ─── Session State ────────────────────────────────────────────────────────────
 
 export type BackendType = "claude" | "codex";
 
+export type BudgetScope = "session" | "cron" | "repo" | "day";
+
+/** One cost budget that applies to a session and how much has been spent against it. */
+export interface BudgetUsage {
+  scope: BudgetScope;
+  /** Session id, cron job id, repo root or day ("YYYY-MM-DD") */
+  target: string;
+  label: string;
+  limit_usd: number;
+  spent_usd: number;
+}
+
+/** Reasoning budget shared by both backends (Claude: max thinking tokens, Codex: reasoning effort) */
+export type ThinkingLevel = "off" | "low" | "medium" | "high" | "custom";
+
 export interface SessionState {
   session_id: string;
   backend_type?: BackendType;
@@ -322,6 +530,8 @@ export interface SessionState {
   slash_commands: string[];
   skills: string[];
   total_cost_usd: number;
+  /** Spend across every CLI process this session ran; total_cost_usd starts over when the CLI is relaunched */
+  lifetime_cost_usd?: number;
   num_turns: number;
   context_used_percent: number;
   is_compacting: boolean;
@@ -350,6 +560,20 @@ export interface SessionState {
   cronJobId?: string;
   /** Human-readable name of the cron job that spawned this session */
   cronJobName?: string;
+  /** Thinking budget; unset = backend default */
+  thinking_level?: ThinkingLevel;
+  /** Token budget when thinking_level is "custom" */
+  thinking_tokens?: number;
+  /** Cost budgets that apply to this session; new turns are refused once one is used up */
+  budgets?: BudgetUsage[];
+  /** Set by the watchdog while the session looks stuck; null once it recovers */
+  stuck?: SessionStuck | null;
+}
+
+export interface SessionStuck {
+  reason: string;
+  since: number;
+  action: StuckAction;
 }
 
 // ─── MCP Types ───────────────────────────────────────────────────────────────
@@ -410,7 +634,8 @@ export type CreationStepId =
   | "creating_container"
   | "copying_workspace"
   | "running_init_script"
-  | "launching_cli";
+  | "launching_cli"
+  | "waiting_for_slot";
 
 export interface CreationProgressEvent {
   step: CreationStepId;
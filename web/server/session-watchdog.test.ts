@@ -0,0 +1,76 @@
+import { checkStuckSessions, findStuckReason, type SessionLiveness } from "./session-watchdog.js";
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1);
+
+function liveness(sessionId: string, overrides: Partial<SessionLiveness> = {}): SessionLiveness {
+  return {
+    sessionId,
+    busy: true,
+    connected: true,
+    lastEventAt: NOW,
+    currentTool: null,
+    stuck: false,
+    ...overrides,
+  };
+}
+
+function makeDeps(sessions: SessionLiveness[]) {
+  return {
+    bridge: { listLiveness: vi.fn(() => sessions), markStuck: vi.fn(), clearStuck: vi.fn() },
+    launcher: { relaunch: vi.fn(async () => ({ ok: true })) },
+  };
+}
+
+describe("findStuckReason", () => {
+  it("ignores idle sessions and a disabled watchdog", () => {
+    const silent = liveness("s1", { lastEventAt: NOW - 60 * MINUTE });
+    expect(findStuckReason({ ...silent, busy: false }, 30, NOW)).toBeNull();
+    expect(findStuckReason(silent, 0, NOW)).toBeNull();
+  });
+
+  it("reports a turn with no events", () => {
+    expect(findStuckReason(liveness("s1", { lastEventAt: NOW - 31 * MINUTE }), 30, NOW)).toBe("No events for 31 minutes");
+    expect(findStuckReason(liveness("s1", { lastEventAt: NOW - 5 * MINUTE }), 30, NOW)).toBeNull();
+  });
+
+  it("counts a tool's elapsed time plus the silence since its last progress event", () => {
+    const tool = { name: "Bash", elapsedSeconds: 35 * 60 };
+    expect(findStuckReason(liveness("s1", { currentTool: tool, lastEventAt: NOW - 5 * MINUTE }), 30, NOW))
+      .toBe("Bash running for 40 minutes");
+    expect(findStuckReason(liveness("s1", { currentTool: { name: "Bash", elapsedSeconds: 60 } }), 30, NOW)).toBeNull();
+  });
+
+  it("reports a backend that disconnected mid-turn", () => {
+    expect(findStuckReason(liveness("s1", { connected: false, lastEventAt: NOW - 45 * MINUTE }), 30, NOW))
+      .toBe("Backend disconnected mid-turn 45 minutes ago");
+  });
+});
+
+describe("checkStuckSessions", () => {
+  it("acts once per stuck session and clears sessions that recovered", async () => {
+    const deps = makeDeps([
+      liveness("hung", { lastEventAt: NOW - 40 * MINUTE }),
+      liveness("flagged", { lastEventAt: NOW - 40 * MINUTE, stuck: true }),
+      liveness("recovered", { stuck: true }),
+      liveness("fine"),
+    ]);
+
+    const stuck = await checkStuckSessions(deps, { stuckAfterMinutes: 30, action: "relaunch" }, NOW);
+
+    expect(stuck).toEqual(["hung"]);
+    expect(deps.bridge.markStuck).toHaveBeenCalledTimes(1);
+    expect(deps.bridge.markStuck).toHaveBeenCalledWith("hung", "No events for 40 minutes", "relaunch");
+    expect(deps.launcher.relaunch).toHaveBeenCalledTimes(1);
+    expect(deps.launcher.relaunch).toHaveBeenCalledWith("hung");
+    expect(deps.bridge.clearStuck).toHaveBeenCalledTimes(1);
+    expect(deps.bridge.clearStuck).toHaveBeenCalledWith("recovered");
+  });
+
+  it("leaves relaunching out of the other actions", async () => {
+    const deps = makeDeps([liveness("hung", { lastEventAt: NOW - 40 * MINUTE })]);
+    await checkStuckSessions(deps, { stuckAfterMinutes: 30, action: "notify" }, NOW);
+    expect(deps.bridge.markStuck).toHaveBeenCalledWith("hung", "No events for 40 minutes", "notify");
+    expect(deps.launcher.relaunch).not.toHaveBeenCalled();
+  });
+});
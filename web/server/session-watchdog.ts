@@ -0,0 +1,97 @@
+import type { CliLauncher } from "./cli-launcher.js";
+import type { WsBridge } from "./ws-bridge.js";
+import type { StuckAction } from "./session-types.js";
+import type { CompanionSettings } from "./settings-manager.js";
+
+const MINUTE_MS = 60 * 1000;
+const WATCHDOG_INTERVAL_MS = 30 * 1000;
+
+/** What the bridge knows about a session's progress. */
+export interface SessionLiveness {
+  sessionId: string;
+  /** A turn is running and not waiting on a permission prompt */
+  busy: boolean;
+  connected: boolean;
+  /** Last message from the backend (or prompt sent to it) */
+  lastEventAt: number;
+  /** Tool the backend last reported progress for */
+  currentTool: { name: string; elapsedSeconds: number } | null;
+  /** Already flagged by a previous check */
+  stuck: boolean;
+}
+
+export interface WatchdogPolicy {
+  /** 0 turns the watchdog off */
+  stuckAfterMinutes: number;
+  action: StuckAction;
+}
+
+export function watchdogPolicyFromSettings(
+  settings: Pick<CompanionSettings, "stuckAfterMinutes" | "stuckAction">,
+): WatchdogPolicy {
+  return { stuckAfterMinutes: settings.stuckAfterMinutes, action: settings.stuckAction };
+}
+
+function minutes(ms: number): string {
+  const n = Math.floor(ms / MINUTE_MS);
+  return `${n} minute${n === 1 ? "" : "s"}`;
+}
+
+/** Why a session looks stuck, or null while it is idle or making progress. */
+export function findStuckReason(liveness: SessionLiveness, stuckAfterMinutes: number, now = Date.now()): string | null {
+  if (!stuckAfterMinutes || !liveness.busy) return null;
+  const threshold = stuckAfterMinutes * MINUTE_MS;
+  const silentMs = now - liveness.lastEventAt;
+  if (!liveness.connected) {
+    return silentMs >= threshold ? `Backend disconnected mid-turn ${minutes(silentMs)} ago` : null;
+  }
+  // Progress events report the elapsed time when they were sent; count the silence since then too
+  const tool = liveness.currentTool;
+  if (tool) {
+    const toolMs = tool.elapsedSeconds * 1000 + silentMs;
+    if (toolMs >= threshold) return `${tool.name} running for ${minutes(toolMs)}`;
+    return null;
+  }
+  return silentMs >= threshold ? `No events for ${minutes(silentMs)}` : null;
+}
+
+export interface WatchdogDeps {
+  bridge: Pick<WsBridge, "listLiveness" | "markStuck" | "clearStuck">;
+  launcher: Pick<CliLauncher, "relaunch">;
+}
+
+/**
+ * Flag sessions that stopped making progress and act on each once, then
+ * clear the flag for sessions that recovered. Returns the newly stuck ids.
+ */
+export async function checkStuckSessions(
+  deps: WatchdogDeps,
+  policy: WatchdogPolicy,
+  now = Date.now(),
+): Promise<string[]> {
+  const stuck: string[] = [];
+  for (const liveness of deps.bridge.listLiveness()) {
+    const reason = findStuckReason(liveness, policy.stuckAfterMinutes, now);
+    if (!reason) {
+      if (liveness.stuck) deps.bridge.clearStuck(liveness.sessionId);
+      continue;
+    }
+    if (liveness.stuck) continue;
+    deps.bridge.markStuck(liveness.sessionId, reason, policy.action);
+    stuck.push(liveness.sessionId);
+  }
+  if (policy.action === "relaunch") {
+    await Promise.all(stuck.map((id) => deps.launcher.relaunch(id)));
+  }
+  return stuck;
+}
+
+/** Check every 30 seconds. The policy is re-read on each check. Returns a stop function. */
+export function startSessionWatchdog(deps: WatchdogDeps, getPolicy: () => WatchdogPolicy): () => void {
+  const timer = setInterval(() => {
+    checkStuckSessions(deps, getPolicy()).catch((err) => {
+      console.error("[session-watchdog] Check failed:", err);
+    });
+  }, WATCHDOG_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
@@ -32,6 +32,12 @@ describe("settings-manager", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
   });
@@ -71,6 +77,12 @@ describe("settings-manager", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 123,
     });
   });
@@ -117,6 +129,12 @@ describe("settings-manager", () => {
       linearAutoTransitionStateId: "",
       linearAutoTransitionStateName: "",
       editorTabEnabled: false,
+      maxConcurrentSessions: 0,
+      maxSessionsPerRepo: 0,
+      maxSessionsPerBackend: 0,
+      idleSuspendMinutes: 0,
+      stuckAfterMinutes: 0,
+      stuckAction: "notify",
       updatedAt: 0,
     });
   });
@@ -147,4 +165,12 @@ describe("settings-manager", () => {
     const updated = updateSettings({ editorTabEnabled: true });
     expect(updated.editorTabEnabled).toBe(true);
   });
+
+  it("updates concurrency limits and drops invalid values", () => {
+    const updated = updateSettings({ maxConcurrentSessions: 4, maxSessionsPerRepo: 2.7, idleSuspendMinutes: -5 });
+    expect(updated.maxConcurrentSessions).toBe(4);
+    expect(updated.maxSessionsPerRepo).toBe(2);
+    expect(updated.maxSessionsPerBackend).toBe(0);
+    expect(updated.idleSuspendMinutes).toBe(0);
+  });
 });
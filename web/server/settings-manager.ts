@@ -6,6 +6,7 @@ import {
 } from "node:fs";
 import { join, dirname } from "node:path";
 import { homedir } from "node:os";
+import type { StuckAction } from "./session-types.js";
 
 export const DEFAULT_OPENROUTER_MODEL = "openrouter/free";
 
@@ -17,6 +18,15 @@ export interface CompanionSettings {
   linearAutoTransitionStateId: string;
   linearAutoTransitionStateName: string;
   editorTabEnabled: boolean;
+  /** Concurrency limits on running sessions; 0 means unlimited */
+  maxConcurrentSessions: number;
+  maxSessionsPerRepo: number;
+  maxSessionsPerBackend: number;
+  /** Suspend sessions idle this long; 0 turns it off */
+  idleSuspendMinutes: number;
+  /** Flag a turn with no progress for this long as stuck; 0 turns the watchdog off */
+  stuckAfterMinutes: number;
+  stuckAction: StuckAction;
   updatedAt: number;
 }
 
@@ -32,9 +42,25 @@ let settings: CompanionSettings = {
   linearAutoTransitionStateId: "",
   linearAutoTransitionStateName: "",
   editorTabEnabled: false,
+  maxConcurrentSessions: 0,
+  maxSessionsPerRepo: 0,
+  maxSessionsPerBackend: 0,
+  idleSuspendMinutes: 0,
+  stuckAfterMinutes: 0,
+  stuckAction: "notify",
   updatedAt: 0,
 };
 
+function count(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+const STUCK_ACTIONS: StuckAction[] = ["notify", "interrupt", "relaunch"];
+
+export function isStuckAction(value: unknown): value is StuckAction {
+  return STUCK_ACTIONS.includes(value as StuckAction);
+}
+
 function normalize(raw: Partial<CompanionSettings> | null | undefined): CompanionSettings {
   return {
     openrouterApiKey: typeof raw?.openrouterApiKey === "string" ? raw.openrouterApiKey : "",
@@ -47,6 +73,12 @@ function normalize(raw: Partial<CompanionSettings> | null | undefined): Companio
     linearAutoTransitionStateId: typeof raw?.linearAutoTransitionStateId === "string" ? raw.linearAutoTransitionStateId : "",
     linearAutoTransitionStateName: typeof raw?.linearAutoTransitionStateName === "string" ? raw.linearAutoTransitionStateName : "",
     editorTabEnabled: typeof raw?.editorTabEnabled === "boolean" ? raw.editorTabEnabled : false,
+    maxConcurrentSessions: count(raw?.maxConcurrentSessions),
+    maxSessionsPerRepo: count(raw?.maxSessionsPerRepo),
+    maxSessionsPerBackend: count(raw?.maxSessionsPerBackend),
+    idleSuspendMinutes: count(raw?.idleSuspendMinutes),
+    stuckAfterMinutes: count(raw?.stuckAfterMinutes),
+    stuckAction: isStuckAction(raw?.stuckAction) ? raw.stuckAction : "notify",
     updatedAt: typeof raw?.updatedAt === "number" ? raw.updatedAt : 0,
   };
 }
@@ -75,7 +107,7 @@ export function getSettings(): CompanionSettings {
 }
 
 export function updateSettings(
-  patch: Partial<Pick<CompanionSettings, "openrouterApiKey" | "openrouterModel" | "linearApiKey" | "linearAutoTransition" | "linearAutoTransitionStateId" | "linearAutoTransitionStateName" | "editorTabEnabled">>,
+  patch: Partial<Pick<CompanionSettings, "openrouterApiKey" | "openrouterModel" | "linearApiKey" | "linearAutoTransition" | "linearAutoTransitionStateId" | "linearAutoTransitionStateName" | "editorTabEnabled" | "maxConcurrentSessions" | "maxSessionsPerRepo" | "maxSessionsPerBackend" | "idleSuspendMinutes" | "stuckAfterMinutes" | "stuckAction">>,
 ): CompanionSettings {
   ensureLoaded();
   settings = normalize({
@@ -86,6 +118,12 @@ export function updateSettings(
     linearAutoTransitionStateId: patch.linearAutoTransitionStateId ?? settings.linearAutoTransitionStateId,
     linearAutoTransitionStateName: patch.linearAutoTransitionStateName ?? settings.linearAutoTransitionStateName,
     editorTabEnabled: patch.editorTabEnabled ?? settings.editorTabEnabled,
+    maxConcurrentSessions: patch.maxConcurrentSessions ?? settings.maxConcurrentSessions,
+    maxSessionsPerRepo: patch.maxSessionsPerRepo ?? settings.maxSessionsPerRepo,
+    maxSessionsPerBackend: patch.maxSessionsPerBackend ?? settings.maxSessionsPerBackend,
+    idleSuspendMinutes: patch.idleSuspendMinutes ?? settings.idleSuspendMinutes,
+    stuckAfterMinutes: patch.stuckAfterMinutes ?? settings.stuckAfterMinutes,
+    stuckAction: patch.stuckAction ?? settings.stuckAction,
     updatedAt: Date.now(),
   });
   persist();
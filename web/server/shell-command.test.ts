@@ -0,0 +1,40 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { runShellCommand } from "./shell-command.js";
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "shell-command-test-"));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("runShellCommand", () => {
+  it("collects stdout and stderr with the exit code, in the given cwd", async () => {
+    const result = await runShellCommand("pwd; echo oops >&2; exit 3", { cwd: tempDir });
+
+    expect(result.exitCode).toBe(3);
+    expect(result.timedOut).toBe(false);
+    expect(result.output).toContain(tempDir);
+    expect(result.output).toContain("oops");
+  });
+
+  it("keeps only the tail of long output", async () => {
+    const result = await runShellCommand("seq 1 5000", { cwd: tempDir, maxOutput: 100 });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.output.length).toBeLessThanOrEqual(100);
+    expect(result.output.trim().endsWith("5000")).toBe(true);
+  });
+
+  it("stops commands that run past the timeout", async () => {
+    const result = await runShellCommand("sleep 5", { cwd: tempDir, timeoutMs: 100 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).not.toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { spawn } from "node:child_process";
+
+export interface ShellCommandResult {
+  exitCode: number;
+  /** Combined stdout+stderr, trimmed to the last `maxOutput` characters */
+  output: string;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60_000;
+const DEFAULT_MAX_OUTPUT = 20_000;
+
+/** Run a user-supplied shell command (e.g. a test script) and collect its output. Never rejects. */
+export function runShellCommand(
+  command: string,
+  options: { cwd: string; timeoutMs?: number; maxOutput?: number; env?: Record<string, string> },
+): Promise<ShellCommandResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxOutput = options.maxOutput ?? DEFAULT_MAX_OUTPUT;
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+    const append = (chunk: Buffer) => {
+      output += chunk.toString("utf-8");
+      if (output.length > maxOutput * 2) output = output.slice(-maxOutput);
+    };
+    const finish = (exitCode: number) => {
+      clearTimeout(timer);
+      resolve({
+        exitCode,
+        output: output.length > maxOutput ? output.slice(-maxOutput) : output,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    const proc = spawn("sh", ["-c", command], {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ["ignore", "pipe", "pipe"],
+      // Own process group, so a timeout also stops whatever the shell started
+      detached: true,
+    });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (proc.pid) process.kill(-proc.pid, "SIGTERM");
+      } catch {
+        proc.kill("SIGTERM");
+      }
+    }, timeoutMs);
+    proc.stdout.on("data", append);
+    proc.stderr.on("data", append);
+    proc.on("error", (err) => {
+      output += err.message;
+      finish(-1);
+    });
+    proc.on("close", (code) => finish(code ?? -1));
+  });
+}
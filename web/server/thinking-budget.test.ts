@@ -0,0 +1,41 @@
+import {
+  isThinkingLevel,
+  normalizeThinkingTokens,
+  resolveMaxThinkingTokens,
+  toCodexReasoningEffort,
+} from "./thinking-budget.js";
+
+describe("thinking-budget", () => {
+  it("recognizes the supported levels", () => {
+    expect(isThinkingLevel("medium")).toBe(true);
+    expect(isThinkingLevel("custom")).toBe(true);
+    expect(isThinkingLevel("ultra")).toBe(false);
+    expect(isThinkingLevel(undefined)).toBe(false);
+  });
+
+  it("normalizes custom token counts to positive integers", () => {
+    expect(normalizeThinkingTokens(12000.7)).toBe(12000);
+    expect(normalizeThinkingTokens(0)).toBeUndefined();
+    expect(normalizeThinkingTokens(-5)).toBeUndefined();
+    expect(normalizeThinkingTokens("8000")).toBeUndefined();
+  });
+
+  it("resolves Claude max thinking tokens per level", () => {
+    expect(resolveMaxThinkingTokens("off")).toBe(0);
+    expect(resolveMaxThinkingTokens("low")).toBe(4000);
+    expect(resolveMaxThinkingTokens("medium")).toBe(10000);
+    expect(resolveMaxThinkingTokens("high")).toBe(31999);
+    expect(resolveMaxThinkingTokens("custom", 20000)).toBe(20000);
+    // Missing custom budget falls back to medium
+    expect(resolveMaxThinkingTokens("custom")).toBe(10000);
+  });
+
+  it("maps levels onto Codex reasoning effort", () => {
+    expect(toCodexReasoningEffort("off")).toBe("minimal");
+    expect(toCodexReasoningEffort("low")).toBe("low");
+    expect(toCodexReasoningEffort("high")).toBe("high");
+    expect(toCodexReasoningEffort("custom", 2000)).toBe("low");
+    expect(toCodexReasoningEffort("custom", 8000)).toBe("medium");
+    expect(toCodexReasoningEffort("custom", 50000)).toBe("high");
+  });
+});
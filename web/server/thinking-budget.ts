@@ -0,0 +1,40 @@
+import type { ThinkingLevel } from "./session-types.js";
+
+export const THINKING_LEVELS: readonly ThinkingLevel[] = ["off", "low", "medium", "high", "custom"];
+
+/** Token budgets behind the preset levels (Claude Code's think / think hard / ultrathink). */
+export const THINKING_LEVEL_TOKENS: Record<Exclude<ThinkingLevel, "off" | "custom">, number> = {
+  low: 4_000,
+  medium: 10_000,
+  high: 31_999,
+};
+
+export type CodexReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export function isThinkingLevel(value: unknown): value is ThinkingLevel {
+  return typeof value === "string" && (THINKING_LEVELS as readonly string[]).includes(value);
+}
+
+/** Custom budgets must be a positive whole number of tokens. */
+export function normalizeThinkingTokens(value: unknown): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  const tokens = Math.floor(value);
+  return tokens > 0 ? tokens : undefined;
+}
+
+/** Value for the `set_max_thinking_tokens` control request (0 disables thinking). */
+export function resolveMaxThinkingTokens(level: ThinkingLevel, tokens?: number): number {
+  if (level === "off") return 0;
+  if (level === "custom") return normalizeThinkingTokens(tokens) ?? THINKING_LEVEL_TOKENS.medium;
+  return THINKING_LEVEL_TOKENS[level];
+}
+
+/** Codex has no token budget; map the level onto its reasoning effort instead. */
+export function toCodexReasoningEffort(level: ThinkingLevel, tokens?: number): CodexReasoningEffort {
+  if (level === "off") return "minimal";
+  if (level !== "custom") return level;
+  const budget = resolveMaxThinkingTokens(level, tokens);
+  if (budget <= THINKING_LEVEL_TOKENS.low) return "low";
+  if (budget <= THINKING_LEVEL_TOKENS.medium) return "medium";
+  return "high";
+}
@@ -0,0 +1,140 @@
+import { appendFileSync, mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("./session-names.js", () => ({
+  getName: vi.fn((id: string) => (id === "s1" ? "Fix login" : undefined)),
+}));
+
+import {
+  appendUsage,
+  createUsageRecorder,
+  readUsage,
+  summarizeUsage,
+  totalUsage,
+  usageFromResult,
+  usageToCsv,
+  _resetForTest,
+  type UsageEntry,
+} from "./usage-ledger.js";
+
+let tempDir: string;
+let ledgerPath: string;
+
+// Noon, so the local calendar day is the same in every test timezone.
+const DAY1 = new Date(2026, 2, 14, 12).getTime();
+const DAY2 = new Date(2026, 2, 15, 12).getTime();
+
+function entry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+  return {
+    timestamp: DAY1,
+    sessionId: "s1",
+    backendType: "claude",
+    model: "claude-sonnet-4-5",
+    repoRoot: "/work/app",
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    costUsd: 0.25,
+    durationMs: 1000,
+    isError: false,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "usage-ledger-test-"));
+  ledgerPath = join(tempDir, "usage.jsonl");
+  _resetForTest(ledgerPath);
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  _resetForTest();
+});
+
+describe("usage-ledger", () => {
+  it("appends entries and filters them on read", () => {
+    appendUsage(entry());
+    appendUsage(entry({ timestamp: DAY2, model: "gpt-5.1-codex", backendType: "codex", costUsd: 0 }));
+    appendUsage(entry({ timestamp: DAY2, repoRoot: "/work/other" }));
+    // A partial line from an interrupted write is skipped
+    appendFileSync(ledgerPath, '{"timestamp":');
+
+    expect(readUsage()).toHaveLength(3);
+    expect(readUsage({ from: DAY2 })).toHaveLength(2);
+    expect(readUsage({ to: DAY2 })).toHaveLength(1);
+    expect(readUsage({ backendType: "codex" })).toEqual([expect.objectContaining({ model: "gpt-5.1-codex" })]);
+    expect(readUsage({ repoRoot: "/work/other" })).toHaveLength(1);
+  });
+
+  it("returns nothing when the ledger does not exist yet", () => {
+    expect(readUsage()).toEqual([]);
+  });
+
+  it("groups by day in order and by other keys by spend", () => {
+    const entries = [
+      entry({ timestamp: DAY2, costUsd: 1 }),
+      entry({ costUsd: 0.5, repoRoot: "/work/other" }),
+      entry({ costUsd: 0.25 }),
+    ];
+
+    const byDay = summarizeUsage(entries, "day");
+    expect(byDay.map((b) => [b.key, b.costUsd, b.turns])).toEqual([
+      ["2026-03-14", 0.75, 2],
+      ["2026-03-15", 1, 1],
+    ]);
+
+    const byRepo = summarizeUsage(entries, "repo");
+    expect(byRepo.map((b) => [b.label, b.costUsd])).toEqual([
+      ["app", 1.25],
+      ["other", 0.5],
+    ]);
+
+    expect(totalUsage(entries)).toEqual(expect.objectContaining({ costUsd: 1.75, turns: 3, inputTokens: 300, outputTokens: 150 }));
+  });
+
+  it("labels cron groups with the job name", () => {
+    const groups = summarizeUsage([
+      entry({ cronJobId: "nightly", cronJobName: "Nightly review" }),
+      entry(),
+    ], "cron");
+    expect(groups.map((g) => g.label)).toEqual(["Nightly review", "(not cron)"]);
+  });
+
+  it("exports CSV with quoted cells and ISO timestamps", () => {
+    const csv = usageToCsv([entry({ sessionName: 'Fix "login", again' })]);
+    const [header, row] = csv.trim().split("\n");
+    expect(header.split(",")).toEqual(expect.arrayContaining(["timestamp", "costUsd", "cronJobName"]));
+    expect(row).toContain(new Date(DAY1).toISOString());
+    expect(row).toContain('"Fix ""login"", again"');
+  });
+
+  it("reads token usage and duration from a result message", () => {
+    expect(usageFromResult({
+      is_error: true,
+      duration_ms: 4200,
+      usage: { input_tokens: 10, output_tokens: 20, cache_read_input_tokens: 30, cache_creation_input_tokens: 40 },
+    })).toEqual({
+      inputTokens: 10,
+      outputTokens: 20,
+      cacheReadInputTokens: 30,
+      cacheCreationInputTokens: 40,
+      durationMs: 4200,
+      isError: true,
+    });
+  });
+
+  it("recorder adds session names and the launching cron job", () => {
+    const recorder = createUsageRecorder((id) => (id === "s1" ? { cronJobId: "nightly", cronJobName: "Nightly" } : null));
+    const { timestamp: _t, ...record } = entry();
+    recorder.record(record);
+    recorder.record({ ...record, sessionId: "s2" });
+
+    const [first, second] = readUsage();
+    expect(first).toEqual(expect.objectContaining({ sessionName: "Fix login", cronJobId: "nightly", cronJobName: "Nightly" }));
+    expect(second.sessionName).toBeUndefined();
+    expect(second.cronJobId).toBeUndefined();
+  });
+});
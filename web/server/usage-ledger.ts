@@ -0,0 +1,258 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { homedir } from "node:os";
+import type { BackendType, CLIResultMessage } from "./session-types.js";
+import * as sessionNames from "./session-names.js";
+import { budgetDay } from "./cost-budgets.js";
+
+/**
+ * Append-only record of every finished turn, kept in ~/.companion/usage.jsonl.
+ * Unlike SessionState totals it survives session deletion, so spend can be
+ * analysed per day, repo, model and backend.
+ */
+
+export interface UsageEntry {
+  timestamp: number;
+  sessionId: string;
+  sessionName?: string;
+  backendType: BackendType;
+  model: string;
+  /** Repo root, or the working directory outside git. */
+  repoRoot: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  /** Cost of this turn only (the CLI reports a running total). */
+  costUsd: number;
+  durationMs: number;
+  isError: boolean;
+  cronJobId?: string;
+  cronJobName?: string;
+}
+
+export interface UsageQuery {
+  /** Inclusive lower bound, epoch ms. */
+  from?: number;
+  /** Exclusive upper bound, epoch ms. */
+  to?: number;
+  sessionId?: string;
+  repoRoot?: string;
+  model?: string;
+  backendType?: string;
+  cronJobId?: string;
+}
+
+export const USAGE_GROUPS = ["day", "repo", "model", "backend", "session", "cron"] as const;
+export type UsageGroupBy = (typeof USAGE_GROUPS)[number];
+
+export interface UsageBucket {
+  key: string;
+  label: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  turns: number;
+  durationMs: number;
+}
+
+/** What the bridge knows about a finished turn; the recorder fills in names. */
+export type UsageRecord = Omit<UsageEntry, "timestamp" | "sessionName" | "cronJobId" | "cronJobName">;
+
+/** Attached to the bridge (see WsBridge.setUsageRecorder). */
+export interface UsageRecorder {
+  record(entry: UsageRecord): void;
+}
+
+export interface UsageSessionInfo {
+  cronJobId?: string;
+  cronJobName?: string;
+}
+
+const DEFAULT_PATH = join(homedir(), ".companion", "usage.jsonl");
+
+let filePath = DEFAULT_PATH;
+
+export function isUsageGroupBy(value: unknown): value is UsageGroupBy {
+  return typeof value === "string" && (USAGE_GROUPS as readonly string[]).includes(value);
+}
+
+/** Usage fields of a result message, shared by the Claude and Codex paths. */
+export function usageFromResult(
+  result: Pick<CLIResultMessage, "usage" | "duration_ms" | "is_error">,
+): Pick<UsageRecord, "inputTokens" | "outputTokens" | "cacheReadInputTokens" | "cacheCreationInputTokens" | "durationMs" | "isError"> {
+  const usage = result.usage;
+  return {
+    inputTokens: usage?.input_tokens || 0,
+    outputTokens: usage?.output_tokens || 0,
+    cacheReadInputTokens: usage?.cache_read_input_tokens || 0,
+    cacheCreationInputTokens: usage?.cache_creation_input_tokens || 0,
+    durationMs: result.duration_ms || 0,
+    isError: !!result.is_error,
+  };
+}
+
+export function appendUsage(entry: UsageEntry): void {
+  try {
+    mkdirSync(dirname(filePath), { recursive: true });
+    appendFileSync(filePath, JSON.stringify(entry) + "\n", "utf-8");
+  } catch (err) {
+    console.warn("[usage-ledger] Failed to write usage entry:", err);
+  }
+}
+
+export function matchesUsage(entry: UsageEntry, query: UsageQuery): boolean {
+  return (query.from === undefined || entry.timestamp >= query.from)
+    && (query.to === undefined || entry.timestamp < query.to)
+    && (!query.sessionId || entry.sessionId === query.sessionId)
+    && (!query.repoRoot || entry.repoRoot === query.repoRoot)
+    && (!query.model || entry.model === query.model)
+    && (!query.backendType || entry.backendType === query.backendType)
+    && (!query.cronJobId || entry.cronJobId === query.cronJobId);
+}
+
+/** Matching entries, oldest first. */
+export function readUsage(query: UsageQuery = {}): UsageEntry[] {
+  if (!existsSync(filePath)) return [];
+  const entries: UsageEntry[] = [];
+  for (const line of readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    let entry: UsageEntry;
+    try {
+      entry = JSON.parse(line) as UsageEntry;
+    } catch {
+      continue; // Skip partial lines
+    }
+    if (typeof entry.timestamp === "number" && matchesUsage(entry, query)) entries.push(entry);
+  }
+  return entries;
+}
+
+function groupKey(entry: UsageEntry, groupBy: UsageGroupBy): { key: string; label: string } {
+  switch (groupBy) {
+    case "day": {
+      const day = budgetDay(entry.timestamp);
+      return { key: day, label: day };
+    }
+    case "repo":
+      return { key: entry.repoRoot, label: entry.repoRoot ? basename(entry.repoRoot) : "(none)" };
+    case "model":
+      return { key: entry.model, label: entry.model || "(unknown)" };
+    case "backend":
+      return { key: entry.backendType, label: entry.backendType };
+    case "session":
+      return { key: entry.sessionId, label: entry.sessionName || entry.sessionId.slice(0, 8) };
+    case "cron":
+      return { key: entry.cronJobId || "", label: entry.cronJobName || entry.cronJobId || "(not cron)" };
+  }
+}
+
+function emptyBucket(key: string, label: string): UsageBucket {
+  return {
+    key,
+    label,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    turns: 0,
+    durationMs: 0,
+  };
+}
+
+function addToBucket(bucket: UsageBucket, entry: UsageEntry): void {
+  bucket.costUsd += entry.costUsd || 0;
+  bucket.inputTokens += entry.inputTokens || 0;
+  bucket.outputTokens += entry.outputTokens || 0;
+  bucket.cacheReadInputTokens += entry.cacheReadInputTokens || 0;
+  bucket.cacheCreationInputTokens += entry.cacheCreationInputTokens || 0;
+  bucket.durationMs += entry.durationMs || 0;
+  bucket.turns++;
+}
+
+export function totalUsage(entries: UsageEntry[]): UsageBucket {
+  const total = emptyBucket("total", "Total");
+  for (const entry of entries) addToBucket(total, entry);
+  return total;
+}
+
+/** Days in chronological order; every other grouping by spend, highest first. */
+export function summarizeUsage(entries: UsageEntry[], groupBy: UsageGroupBy): UsageBucket[] {
+  const buckets = new Map<string, UsageBucket>();
+  for (const entry of entries) {
+    const { key, label } = groupKey(entry, groupBy);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = emptyBucket(key, label);
+      buckets.set(key, bucket);
+    }
+    addToBucket(bucket, entry);
+  }
+  const result = [...buckets.values()];
+  if (groupBy === "day") return result.sort((a, b) => a.key.localeCompare(b.key));
+  return result.sort((a, b) => b.costUsd - a.costUsd || b.turns - a.turns);
+}
+
+const CSV_COLUMNS: Array<keyof UsageEntry> = [
+  "timestamp",
+  "sessionId",
+  "sessionName",
+  "backendType",
+  "model",
+  "repoRoot",
+  "inputTokens",
+  "outputTokens",
+  "cacheReadInputTokens",
+  "cacheCreationInputTokens",
+  "costUsd",
+  "durationMs",
+  "isError",
+  "cronJobId",
+  "cronJobName",
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per turn; timestamps as ISO strings so spreadsheets parse them. */
+export function usageToCsv(entries: UsageEntry[]): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  for (const entry of entries) {
+    rows.push(CSV_COLUMNS.map((column) => (
+      csvCell(column === "timestamp" ? new Date(entry.timestamp).toISOString() : entry[column])
+    )).join(","));
+  }
+  return rows.join("\n") + "\n";
+}
+
+/** Recorder for the bridge; `resolve` adds the cron job that launched a session. */
+export function createUsageRecorder(
+  resolve: (sessionId: string) => UsageSessionInfo | null,
+): UsageRecorder {
+  return {
+    record(record) {
+      const info = resolve(record.sessionId);
+      appendUsage({
+        timestamp: Date.now(),
+        ...record,
+        sessionName: sessionNames.getName(record.sessionId),
+        ...(info?.cronJobId ? { cronJobId: info.cronJobId, cronJobName: info.cronJobName } : {}),
+      });
+    },
+  };
+}
+
+export function _resetForTest(customPath?: string): void {
+  filePath = customPath || DEFAULT_PATH;
+}
@@ -0,0 +1,107 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from "node:crypto";
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  createVapidAuthorization,
+  encryptPayload,
+  generateVapidKeys,
+  sendWebPush,
+} from "./web-push.js";
+
+/** What a browser does on receipt (RFC 8291), to check the encryption end to end. */
+function decrypt(body: Buffer, uaPrivate: ReturnType<typeof createECDH>, authSecret: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const asPublic = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const hkdf = (s: Buffer, ikm: Buffer, info: string | Buffer, len: number) =>
+    Buffer.from(hkdfSync("sha256", ikm, s, typeof info === "string" ? Buffer.from(info) : info, len));
+  const shared = uaPrivate.computeSecret(asPublic);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), uaPrivate.getPublicKey(), asPublic]);
+  const ikm = hkdf(authSecret, shared, keyInfo, 32);
+  const cek = hkdf(salt, ikm, "Content-Encoding: aes128gcm\0", 16);
+  const nonce = hkdf(salt, ikm, "Content-Encoding: nonce\0", 12);
+
+  const decipher = createDecipheriv("aes-128-gcm", cek, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plain = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  expect(plain[plain.length - 1]).toBe(0x02);
+  return plain.subarray(0, plain.length - 1).toString("utf-8");
+}
+
+function makeBrowserKeys() {
+  const ua = createECDH("prime256v1");
+  ua.generateKeys();
+  const auth = randomBytes(16);
+  return { ua, auth, keys: { p256dh: base64UrlEncode(ua.getPublicKey()), auth: base64UrlEncode(auth) } };
+}
+
+describe("generateVapidKeys", () => {
+  it("returns an uncompressed P-256 public key and a PEM private key", () => {
+    const keys = generateVapidKeys();
+    const raw = base64UrlDecode(keys.publicKey);
+    expect(raw).toHaveLength(65);
+    expect(raw[0]).toBe(0x04);
+    expect(keys.privateKey).toContain("BEGIN PRIVATE KEY");
+  });
+});
+
+describe("createVapidAuthorization", () => {
+  it("signs an ES256 JWT for the push service origin", () => {
+    const keys = generateVapidKeys();
+    const header = createVapidAuthorization("https://push.example.com/send/abc", keys, "mailto:me@example.com", 1_000_000);
+    const match = header.match(/^vapid t=([^,]+), k=(.+)$/);
+    expect(match?.[2]).toBe(keys.publicKey);
+
+    const [h, c, sig] = match![1].split(".");
+    expect(JSON.parse(base64UrlDecode(c).toString())).toEqual({
+      aud: "https://push.example.com",
+      exp: 1000 + 12 * 60 * 60,
+      sub: "mailto:me@example.com",
+    });
+    const raw = base64UrlDecode(keys.publicKey);
+    const publicKey = createPublicKey({
+      key: { kty: "EC", crv: "P-256", x: base64UrlEncode(raw.subarray(1, 33)), y: base64UrlEncode(raw.subarray(33)) },
+      format: "jwk",
+    });
+    expect(verify("sha256", Buffer.from(`${h}.${c}`), { key: publicKey, dsaEncoding: "ieee-p1363" }, base64UrlDecode(sig)))
+      .toBe(true);
+  });
+});
+
+describe("encryptPayload", () => {
+  it("produces an aes128gcm record the subscriber can decrypt", () => {
+    const browser = makeBrowserKeys();
+    const body = encryptPayload(JSON.stringify({ title: "Hi" }), browser.keys);
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decrypt(body, browser.ua, browser.auth)).toBe('{"title":"Hi"}');
+  });
+
+  it("rejects payloads larger than one record", () => {
+    expect(() => encryptPayload("x".repeat(5000), makeBrowserKeys().keys)).toThrow("Push payload is too large");
+  });
+});
+
+describe("sendWebPush", () => {
+  it("posts the encrypted payload with VAPID headers and flags expired subscriptions", async () => {
+    const browser = makeBrowserKeys();
+    const fetchImpl = vi.fn(async () => new Response(null, { status: 410 }));
+    const result = await sendWebPush(
+      { endpoint: "https://push.example.com/abc", keys: browser.keys },
+      "payload",
+      generateVapidKeys(),
+      "mailto:me@example.com",
+      fetchImpl as unknown as typeof fetch,
+    );
+
+    expect(result).toEqual({ status: 410, gone: true });
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://push.example.com/abc");
+    const headers = init.headers as Record<string, string>;
+    expect(headers["Content-Encoding"]).toBe("aes128gcm");
+    expect(headers.TTL).toBe("86400");
+    expect(headers.Authorization).toMatch(/^vapid t=/);
+    expect(decrypt(Buffer.from(init.body as Uint8Array), browser.ua, browser.auth)).toBe("payload");
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  createECDH,
+  createCipheriv,
+  createPrivateKey,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from "node:crypto";
+
+/**
+ * Minimal Web Push sender: VAPID (RFC 8292) authentication and aes128gcm
+ * payload encryption (RFC 8291). Enough for browser push services; no
+ * external dependency.
+ */
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url. Used as the browser's applicationServerKey. */
+  publicKey: string;
+  /** PKCS#8 PEM private key. */
+  privateKey: string;
+}
+
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+export interface WebPushTarget {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+export interface WebPushResult {
+  status: number;
+  /** The push service no longer knows this subscription; it should be dropped. */
+  gone: boolean;
+}
+
+const RECORD_SIZE = 4096;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+export function base64UrlEncode(data: Buffer | Uint8Array | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+export function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value, "base64url");
+}
+
+export function generateVapidKeys(): VapidKeys {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const jwk = publicKey.export({ format: "jwk" });
+  const raw = Buffer.concat([
+    Buffer.from([0x04]),
+    base64UrlDecode(jwk.x as string),
+    base64UrlDecode(jwk.y as string),
+  ]);
+  return {
+    publicKey: base64UrlEncode(raw),
+    privateKey: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+  };
+}
+
+/** `Authorization` header value for a push to `endpoint`. */
+export function createVapidAuthorization(endpoint: string, keys: VapidKeys, subject: string, now = Date.now()): string {
+  const header = base64UrlEncode(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+  const claims = base64UrlEncode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + JWT_LIFETIME_SECONDS,
+    sub: subject,
+  }));
+  const unsigned = `${header}.${claims}`;
+  const signature = sign("sha256", Buffer.from(unsigned), {
+    key: createPrivateKey(keys.privateKey),
+    dsaEncoding: "ieee-p1363",
+  });
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${keys.publicKey}`;
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/** Encrypt a payload for one subscription (single aes128gcm record). */
+export function encryptPayload(
+  payload: string,
+  keys: PushSubscriptionKeys,
+  salt: Buffer = randomBytes(16),
+): Buffer {
+  const uaPublic = base64UrlDecode(keys.p256dh);
+  const authSecret = base64UrlDecode(keys.auth);
+
+  const ecdh = createECDH("prime256v1");
+  const asPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(uaPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), uaPublic, asPublic]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const cek = hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  // 0x02 marks the last (and only) record.
+  const plaintext = Buffer.concat([Buffer.from(payload, "utf-8"), Buffer.from([0x02])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error("Push payload is too large");
+  }
+  const cipher = createCipheriv("aes-128-gcm", cek, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, ciphertext]);
+}
+
+export async function sendWebPush(
+  target: WebPushTarget,
+  payload: string,
+  vapid: VapidKeys,
+  subject: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<WebPushResult> {
+  const body = encryptPayload(payload, target.keys);
+  const res = await fetchImpl(target.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: createVapidAuthorization(target.endpoint, vapid, subject),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(DEFAULT_TTL_SECONDS),
+      Urgency: "high",
+    },
+    body: new Uint8Array(body),
+  });
+  return { status: res.status, gone: res.status === 404 || res.status === 410 };
+}
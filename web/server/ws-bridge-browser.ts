@@ -5,6 +5,62 @@ import type {
   ReplayableBrowserIncomingMessage,
 } from "./session-types.js";
 
+/** How many trailing messages a browser gets on connect; older ones are paged in on request. */
+export const HISTORY_PAGE_SIZE = 200;
+
+/**
+ * Start index of the page ending at `end`. Streamed assistant messages are stored
+ * once per content chunk under the same id, so the start moves back rather than
+ * splitting one message across pages.
+ */
+function historyPageStart(history: BrowserIncomingMessage[], end: number, size: number): number {
+  let start = Math.max(0, end - size);
+  while (start > 0) {
+    const first = history[start];
+    const prev = history[start - 1];
+    if (
+      first.type !== "assistant"
+      || prev.type !== "assistant"
+      || !first.message.id
+      || first.message.id !== prev.message.id
+    ) break;
+    start--;
+  }
+  return start;
+}
+
+/** The newest page of history, with a cursor when older messages were left out. */
+export function buildHistoryWindow(
+  session: Session,
+  size = HISTORY_PAGE_SIZE,
+): Extract<BrowserIncomingMessage, { type: "message_history" }> {
+  const history = session.messageHistory;
+  const start = historyPageStart(history, history.length, size);
+  return start > 0
+    ? { type: "message_history", messages: history.slice(start), cursor: start }
+    : { type: "message_history", messages: history };
+}
+
+/** Answer a browser's request for the page of history before `before`. Only the requester gets it. */
+export function handleHistoryPage(
+  session: Session,
+  ws: ServerWebSocket<SocketData> | undefined,
+  before: number,
+  sendToBrowser: (ws: ServerWebSocket<SocketData>, msg: BrowserIncomingMessage) => void,
+  size = HISTORY_PAGE_SIZE,
+): void {
+  if (!ws) return;
+  const history = session.messageHistory;
+  const end = Number.isFinite(before) ? Math.min(history.length, Math.max(0, Math.floor(before))) : 0;
+  const start = historyPageStart(history, end, size);
+  sendToBrowser(ws, {
+    type: "history_page",
+    before: end,
+    messages: history.slice(start, end),
+    cursor: start > 0 ? start : null,
+  });
+}
+
 export function handleSessionSubscribe(
   session: Session,
   ws: ServerWebSocket<SocketData> | undefined,
@@ -24,10 +80,7 @@ export function handleSessionSubscribe(
   const earliest = session.eventBuffer[0]?.seq ?? session.nextEventSeq;
   const hasGap = lastAckSeq > 0 && lastAckSeq < earliest - 1;
   if (hasGap) {
-    sendToBrowser(ws, {
-      type: "message_history",
-      messages: session.messageHistory,
-    });
+    sendToBrowser(ws, buildHistoryWindow(session));
     const transientMissed = session.eventBuffer
       .filter((evt) => evt.seq > lastAckSeq && !isHistoryBackedEvent(evt.message));
     if (transientMissed.length > 0) {
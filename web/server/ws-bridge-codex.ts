@@ -1,10 +1,13 @@
 import type {
   BrowserIncomingMessage,
+  CLIResultMessage,
   BrowserOutgoingMessage,
+  PermissionRequest,
   SessionState,
 } from "./session-types.js";
 import type { CodexAdapter } from "./codex-adapter.js";
 import type { Session } from "./ws-bridge-types.js";
+import type { SessionNotifier } from "./notification-dispatcher.js";
 
 export interface CodexAttachDeps {
   persistSession: (session: Session) => void;
@@ -16,6 +19,15 @@ export interface CodexAttachDeps {
   onCLISessionId: ((sessionId: string, cliSessionId: string) => void) | null;
   onFirstTurnCompleted: ((sessionId: string, firstUserMessage: string) => void) | null;
   autoNamingAttempted: Set<string>;
+  /** Answers the request from auto-approval rules; true when it was handled. */
+  autoApprove: (session: Session, request: PermissionRequest) => boolean;
+  getNotifier: () => SessionNotifier | null;
+  /** Codex reports no cost, so only tokens and duration reach the usage ledger. */
+  recordUsage: (session: Session, result: CLIResultMessage) => void;
+  /** Adds a history entry to the full-text search index. */
+  indexMessage: (session: Session, entry: BrowserIncomingMessage) => void;
+  /** Lets the next queued prompt go out once the turn's result is in. */
+  onTurnEnded: (session: Session, result: CLIResultMessage) => void;
 }
 
 export function attachCodexAdapterHandlers(
@@ -25,6 +37,11 @@ export function attachCodexAdapterHandlers(
   deps: CodexAttachDeps,
 ): void {
   adapter.onBrowserMessage((msg) => {
+    session.lastActivityAt = Date.now();
+    session.currentTool = msg.type === "tool_progress"
+      ? { name: msg.tool_name, elapsedSeconds: msg.elapsed_time_seconds }
+      : null;
+
     if (msg.type === "session_init") {
       session.state = { ...session.state, ...msg.session, backend_type: "codex" };
       deps.refreshGitInfo(session, { notifyPoller: true });
@@ -39,8 +56,10 @@ export function attachCodexAdapterHandlers(
     }
 
     if (msg.type === "assistant") {
-      session.messageHistory.push({ ...msg, timestamp: msg.timestamp || Date.now() });
+      const entry = { ...msg, timestamp: msg.timestamp || Date.now() };
+      session.messageHistory.push(entry);
       deps.persistSession(session);
+      deps.indexMessage(session, entry);
     } else if (msg.type === "result") {
       session.messageHistory.push(msg);
       deps.persistSession(session);
@@ -55,12 +74,21 @@ export function attachCodexAdapterHandlers(
     }
 
     if (msg.type === "permission_request") {
+      if (deps.autoApprove(session, msg.request)) return;
       session.pendingPermissions.set(msg.request.request_id, msg.request);
       deps.persistSession(session);
     }
 
     deps.broadcastToBrowsers(session, msg);
 
+    if (msg.type === "permission_request") {
+      deps.getNotifier()?.permissionRequested(session.id, msg.request);
+    } else if (msg.type === "result") {
+      deps.getNotifier()?.turnCompleted(session.id, msg.data);
+      deps.recordUsage(session, msg.data);
+      deps.onTurnEnded(session, msg.data);
+    }
+
     if (
       msg.type === "result" &&
       !(msg.data as { is_error?: boolean }).is_error &&
@@ -92,11 +120,24 @@ export function attachCodexAdapterHandlers(
     }
     session.pendingPermissions.clear();
     session.codexAdapter = null;
+    if (session.turnInProgress) session.disconnectedMidTurnAt = Date.now();
+    session.turnInProgress = false;
+    session.turnCostEstimates.clear();
+    session.currentTool = null;
     deps.persistSession(session);
     console.log(`[ws-bridge] Codex adapter disconnected for session ${sessionId}`);
     deps.broadcastToBrowsers(session, { type: "cli_disconnected" });
   });
 
+  // Restore the session's thinking budget on (re)attach, before queued turns
+  if (session.state.thinking_level) {
+    adapter.sendBrowserMessage({
+      type: "set_thinking_budget",
+      level: session.state.thinking_level,
+      tokens: session.state.thinking_tokens,
+    });
+  }
+
   if (session.pendingMessages.length > 0) {
     console.log(`[ws-bridge] Flushing ${session.pendingMessages.length} queued message(s) to Codex adapter for session ${sessionId}`);
     const queued = session.pendingMessages.splice(0);
@@ -3,8 +3,9 @@ import type {
   CLIControlResponseMessage,
   BrowserIncomingMessage,
   McpServerDetail,
+  RewindFilesResult,
 } from "./session-types.js";
-import type { Session } from "./ws-bridge-types.js";
+import type { PendingControlRequest, Session } from "./ws-bridge-types.js";
 
 export function handleInterrupt(
   session: Session,
@@ -44,6 +45,19 @@ export function handleSetPermissionMode(
   sendToCLI(session, ndjson);
 }
 
+export function handleSetMaxThinkingTokens(
+  session: Session,
+  maxThinkingTokens: number,
+  sendToCLI: (session: Session, ndjson: string) => void,
+): void {
+  const ndjson = JSON.stringify({
+    type: "control_request",
+    request_id: randomUUID(),
+    request: { subtype: "set_max_thinking_tokens", max_thinking_tokens: maxThinkingTokens },
+  });
+  sendToCLI(session, ndjson);
+}
+
 export function handleControlResponse(
   session: Session,
   msg: CLIControlResponseMessage,
@@ -55,6 +69,7 @@ export function handleControlResponse(
   session.pendingControlRequests.delete(reqId);
   if (msg.response.subtype === "error") {
     loggerWarn(`[ws-bridge] Control request ${pending.subtype} failed: ${msg.response.error}`);
+    pending.reject?.(msg.response.error || `${pending.subtype} failed`);
     return;
   }
   pending.resolve(msg.response.response ?? {});
@@ -64,7 +79,7 @@ export function sendControlRequest(
   session: Session,
   request: Record<string, unknown>,
   sendToCLI: (session: Session, ndjson: string) => void,
-  onResponse?: { subtype: string; resolve: (response: unknown) => void },
+  onResponse?: PendingControlRequest,
 ): void {
   const requestId = randomUUID();
   if (onResponse) {
@@ -122,3 +137,121 @@ export function handleMcpSetServers(
   sendControlRequestFn({ subtype: "mcp_set_servers", servers });
   setTimeout(refreshStatus, 2000);
 }
+
+/** Give up on a rewind the CLI never answers, so the dialog doesn't hang. */
+const REWIND_TIMEOUT_MS = 30_000;
+
+/** Normalize the CLI's rewind_files response (filesChanged may be a list or a count). */
+function toRewindFilesResult(response: unknown): RewindFilesResult {
+  const r = (response ?? {}) as {
+    canRewind?: boolean;
+    error?: string;
+    filesChanged?: string[] | number;
+    insertions?: number;
+    deletions?: number;
+  };
+  const files = Array.isArray(r.filesChanged) ? r.filesChanged : [];
+  const count = typeof r.filesChanged === "number" ? r.filesChanged : Array.isArray(r.filesChanged) ? files.length : undefined;
+  return {
+    can_rewind: r.canRewind === true,
+    files_changed: files,
+    ...(count !== undefined ? { files_changed_count: count } : {}),
+    ...(typeof r.insertions === "number" ? { insertions: r.insertions } : {}),
+    ...(typeof r.deletions === "number" ? { deletions: r.deletions } : {}),
+    ...(r.error ? { error: r.error } : {}),
+  };
+}
+
+/**
+ * Ask the CLI to restore files to their checkpoint at a user message.
+ * `messageId` is the browser-facing history id; the CLI needs the uuid we
+ * attached when the message was sent.
+ */
+export function handleRewindFiles(
+  session: Session,
+  messageId: string,
+  dryRun: boolean,
+  sendControlRequestFn: (
+    request: Record<string, unknown>,
+    onResponse?: PendingControlRequest,
+  ) => void,
+  onResult: (result: RewindFilesResult) => void,
+): void {
+  const target = session.messageHistory.find(
+    (m) => m.type === "user_message" && m.id === messageId,
+  );
+  const uuid = target?.type === "user_message" ? target.uuid : undefined;
+  if (!uuid) {
+    onResult({
+      can_rewind: false,
+      files_changed: [],
+      error: "No file checkpoint is available for this message",
+    });
+    return;
+  }
+  let settled = false;
+  const settle = (result: RewindFilesResult) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    onResult(result);
+  };
+  const pending: PendingControlRequest = {
+    subtype: "rewind_files",
+    resolve: (response) => settle(toRewindFilesResult(response)),
+    reject: (error) => settle({ can_rewind: false, files_changed: [], error }),
+  };
+  const timer = setTimeout(() => {
+    for (const [requestId, request] of session.pendingControlRequests) {
+      if (request === pending) session.pendingControlRequests.delete(requestId);
+    }
+    settle({ can_rewind: false, files_changed: [], error: "The CLI didn't answer the rewind request" });
+  }, REWIND_TIMEOUT_MS);
+  sendControlRequestFn({ subtype: "rewind_files", user_message_id: uuid, dry_run: dryRun }, pending);
+}
+
+/**
+ * Drop the given user message and everything after it, so the chat matches
+ * the files after a rewind. Returns false when the message isn't in history.
+ */
+export function truncateHistoryAtMessage(session: Session, messageId: string): boolean {
+  const index = session.messageHistory.findIndex(
+    (m) => m.type === "user_message" && m.id === messageId,
+  );
+  if (index === -1) return false;
+  const target = session.messageHistory[index];
+  const cutAt = target.type === "user_message" ? target.timestamp : 0;
+  session.messageHistory.splice(index);
+  // Buffered events from the message on reference what was dropped; reconnecting
+  // browsers get the truncated history instead of replaying them. Earlier
+  // events stay replayable.
+  session.eventBuffer = session.eventBuffer.filter(
+    (evt) => evt.timestamp !== undefined && evt.timestamp < cutAt,
+  );
+  return true;
+}
+
+function lastIndexOfMessage(session: Session, messageId: string): number {
+  for (let i = session.messageHistory.length - 1; i >= 0; i--) {
+    const m = session.messageHistory[i];
+    if (m.type === "user_message" && m.id === messageId) return i;
+    if (m.type === "assistant" && m.message.id === messageId) return i;
+  }
+  return -1;
+}
+
+/**
+ * The CLI uuid to resume at when forking from a browser-facing message id.
+ * Assistant turns arrive as several CLI messages sharing one API message id;
+ * the last one is used so the fork keeps the whole turn.
+ */
+export function findForkPoint(session: Session, messageId: string): string | null {
+  const entry = session.messageHistory[lastIndexOfMessage(session, messageId)];
+  if (entry?.type === "user_message" || entry?.type === "assistant") return entry.uuid ?? null;
+  return null;
+}
+
+/** History up to and including the fork point, to seed the forked session's chat. */
+export function historyUntilMessage(session: Session, messageId: string): BrowserIncomingMessage[] {
+  return session.messageHistory.slice(0, lastIndexOfMessage(session, messageId) + 1);
+}
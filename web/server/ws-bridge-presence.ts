@@ -0,0 +1,137 @@
+import type { ServerWebSocket } from "bun";
+import type { BrowserSocketData, Session, SocketData } from "./ws-bridge-types.js";
+import type {
+  BrowserIncomingMessage,
+  BrowserOutgoingMessage,
+  SessionViewer,
+} from "./session-types.js";
+
+type PresenceMessage = Extract<
+  BrowserOutgoingMessage,
+  { type: "presence_hello" | "presence_typing" | "driver_claim" | "driver_release" | "driver_handoff" }
+>;
+
+const PRESENCE_TYPES = new Set<string>([
+  "presence_hello",
+  "presence_typing",
+  "driver_claim",
+  "driver_release",
+  "driver_handoff",
+]);
+const NAME_MAX = 40;
+
+export function isPresenceMessage(msg: BrowserOutgoingMessage): msg is PresenceMessage {
+  return PRESENCE_TYPES.has(msg.type);
+}
+
+function viewerOf(ws: ServerWebSocket<SocketData> | undefined): BrowserSocketData | null {
+  const data = ws?.data as BrowserSocketData | undefined;
+  return data?.viewerId ? data : null;
+}
+
+/** Connected viewers, one entry per viewer_id (typing if any of their tabs is). */
+export function listViewers(session: Session): SessionViewer[] {
+  const viewers = new Map<string, SessionViewer>();
+  for (const ws of session.browserSockets) {
+    const data = viewerOf(ws);
+    if (!data) continue;
+    const existing = viewers.get(data.viewerId!);
+    if (existing) {
+      existing.typing ||= !!data.typing;
+    } else {
+      viewers.set(data.viewerId!, { viewer_id: data.viewerId!, name: data.viewerName || "Guest", typing: !!data.typing });
+    }
+  }
+  return [...viewers.values()];
+}
+
+export function buildPresence(session: Session): BrowserIncomingMessage {
+  const viewers = listViewers(session);
+  const present = new Set(viewers.map((v) => v.viewer_id));
+  return {
+    type: "presence",
+    viewers,
+    driver: session.driver,
+    control_requests: session.controlRequests.filter((id) => present.has(id)),
+  };
+}
+
+/**
+ * Apply a presence or driver-lock message from a browser. Returns true when
+ * the presence state changed and should be broadcast.
+ */
+export function handlePresenceMessage(
+  session: Session,
+  ws: ServerWebSocket<SocketData> | undefined,
+  msg: PresenceMessage,
+): boolean {
+  if (!ws) return false;
+  const data = ws.data as BrowserSocketData;
+
+  if (msg.type === "presence_hello") {
+    if (typeof msg.viewer_id !== "string" || !msg.viewer_id) return false;
+    data.viewerId = msg.viewer_id.slice(0, 64);
+    data.viewerName = (typeof msg.name === "string" ? msg.name.trim().slice(0, NAME_MAX) : "") || "Guest";
+    // Keep the driver's display name current after a rename.
+    if (session.driver?.viewer_id === data.viewerId) {
+      session.driver = { viewer_id: data.viewerId, name: data.viewerName };
+    }
+    return true;
+  }
+
+  const viewerId = data.viewerId;
+  if (!viewerId) return false;
+
+  switch (msg.type) {
+    case "presence_typing": {
+      if (!!data.typing === !!msg.typing) return false;
+      data.typing = !!msg.typing;
+      return true;
+    }
+    case "driver_claim": {
+      if (session.driver?.viewer_id === viewerId) return false;
+      const driverPresent = !!session.driver && listViewers(session).some((v) => v.viewer_id === session.driver!.viewer_id);
+      if (driverPresent) {
+        if (session.controlRequests.includes(viewerId)) return false;
+        session.controlRequests = [...session.controlRequests, viewerId];
+        return true;
+      }
+      session.driver = { viewer_id: viewerId, name: data.viewerName || "Guest" };
+      session.controlRequests = session.controlRequests.filter((id) => id !== viewerId);
+      return true;
+    }
+    case "driver_release": {
+      if (session.driver?.viewer_id === viewerId) {
+        session.driver = null;
+        session.controlRequests = [];
+        return true;
+      }
+      // Anyone else withdraws their request.
+      if (!session.controlRequests.includes(viewerId)) return false;
+      session.controlRequests = session.controlRequests.filter((id) => id !== viewerId);
+      return true;
+    }
+    case "driver_handoff": {
+      if (session.driver?.viewer_id !== viewerId) return false;
+      const target = listViewers(session).find((v) => v.viewer_id === msg.viewer_id);
+      if (!target || target.viewer_id === viewerId) return false;
+      session.driver = { viewer_id: target.viewer_id, name: target.name };
+      session.controlRequests = session.controlRequests.filter((id) => id !== target.viewer_id);
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Why this socket may not send a prompt or answer a permission right now,
+ * or null when it may. Server-originated messages (no socket) are never blocked.
+ */
+export function driverLockError(
+  session: Session,
+  ws: ServerWebSocket<SocketData> | undefined,
+): string | null {
+  if (!ws || !session.driver) return null;
+  if (viewerOf(ws)?.viewerId === session.driver.viewer_id) return null;
+  return `${session.driver.name} is driving this session. Ask them to hand off control.`;
+}
@@ -0,0 +1,127 @@
+import type { Session } from "./ws-bridge-types.js";
+import type {
+  BrowserIncomingMessage,
+  BrowserOutgoingMessage,
+  PromptQueue,
+  QueuedPrompt,
+} from "./session-types.js";
+
+type QueueMessage = Extract<
+  BrowserOutgoingMessage,
+  { type: "queue_add" | "queue_edit" | "queue_remove" | "queue_move" | "queue_settings" }
+>;
+
+const QUEUE_TYPES = new Set<string>([
+  "queue_add",
+  "queue_edit",
+  "queue_remove",
+  "queue_move",
+  "queue_settings",
+]);
+export const PROMPT_QUEUE_LIMIT = 50;
+
+let queuedCounter = 0;
+
+export function isQueueMessage(msg: BrowserOutgoingMessage): msg is QueueMessage {
+  return QUEUE_TYPES.has(msg.type);
+}
+
+export function makePromptQueue(): PromptQueue {
+  return { prompts: [], paused: false, pause_on_error: false };
+}
+
+/** Rebuild a persisted queue, dropping anything that is not a usable prompt. */
+export function restorePromptQueue(queue: PromptQueue | undefined): PromptQueue {
+  if (!queue || !Array.isArray(queue.prompts)) return makePromptQueue();
+  return {
+    prompts: queue.prompts.filter((p) => p && typeof p.id === "string" && typeof p.content === "string"),
+    paused: !!queue.paused,
+    pause_on_error: !!queue.pause_on_error,
+    ...(queue.paused && queue.paused_reason ? { paused_reason: queue.paused_reason } : {}),
+  };
+}
+
+export function buildPromptQueue(session: Session): BrowserIncomingMessage {
+  return { type: "prompt_queue", queue: session.promptQueue };
+}
+
+/**
+ * Apply a queue edit from a browser. `changed` means the queue should be
+ * persisted and broadcast; `error` is reported back to the sender only.
+ */
+export function applyQueueMessage(
+  session: Session,
+  msg: QueueMessage,
+  now = Date.now(),
+): { changed: boolean; error?: string } {
+  const queue = session.promptQueue;
+  const index = "id" in msg ? queue.prompts.findIndex((p) => p.id === msg.id) : -1;
+
+  switch (msg.type) {
+    case "queue_add": {
+      const content = typeof msg.content === "string" ? msg.content.trim() : "";
+      if (!content && !msg.images?.length) return { changed: false };
+      if (queue.prompts.length >= PROMPT_QUEUE_LIMIT) {
+        return { changed: false, error: `The prompt queue is full (${PROMPT_QUEUE_LIMIT} prompts).` };
+      }
+      const prompt: QueuedPrompt = { id: `queued-${now}-${queuedCounter++}`, content, created_at: now };
+      if (msg.images?.length) prompt.images = msg.images;
+      session.promptQueue = { ...queue, prompts: [...queue.prompts, prompt] };
+      return { changed: true };
+    }
+    case "queue_edit": {
+      const content = typeof msg.content === "string" ? msg.content.trim() : "";
+      if (index < 0 || !content || queue.prompts[index].content === content) return { changed: false };
+      const prompts = [...queue.prompts];
+      prompts[index] = { ...prompts[index], content };
+      session.promptQueue = { ...queue, prompts };
+      return { changed: true };
+    }
+    case "queue_remove": {
+      if (index < 0) return { changed: false };
+      session.promptQueue = { ...queue, prompts: queue.prompts.filter((p) => p.id !== msg.id) };
+      return { changed: true };
+    }
+    case "queue_move": {
+      if (index < 0 || !Number.isInteger(msg.index)) return { changed: false };
+      const target = Math.max(0, Math.min(msg.index, queue.prompts.length - 1));
+      if (target === index) return { changed: false };
+      const prompts = [...queue.prompts];
+      const [moved] = prompts.splice(index, 1);
+      prompts.splice(target, 0, moved);
+      session.promptQueue = { ...queue, prompts };
+      return { changed: true };
+    }
+    case "queue_settings": {
+      const next: PromptQueue = { ...queue };
+      if (typeof msg.paused === "boolean") {
+        next.paused = msg.paused;
+        delete next.paused_reason;
+      }
+      if (typeof msg.pause_on_error === "boolean") next.pause_on_error = msg.pause_on_error;
+      if (next.paused === queue.paused && next.pause_on_error === queue.pause_on_error && next.paused_reason === queue.paused_reason) {
+        return { changed: false };
+      }
+      session.promptQueue = next;
+      return { changed: true };
+    }
+  }
+  return { changed: false };
+}
+
+/** Pause a non-empty queue on the server's behalf. Returns true when it was running. */
+export function pausePromptQueue(session: Session, reason: string): boolean {
+  const queue = session.promptQueue;
+  if (queue.paused || queue.prompts.length === 0) return false;
+  session.promptQueue = { ...queue, paused: true, paused_reason: reason };
+  return true;
+}
+
+/** Remove and return the next prompt when the agent is idle and the queue may run. */
+export function takeNextPrompt(session: Session): QueuedPrompt | null {
+  const queue = session.promptQueue;
+  if (session.turnInProgress || queue.paused || queue.prompts.length === 0) return null;
+  const [next, ...rest] = queue.prompts;
+  session.promptQueue = { ...queue, prompts: rest };
+  return next;
+}
@@ -31,6 +31,7 @@ export function shouldBufferForReplay(
 ): msg is ReplayableBrowserIncomingMessage {
   return msg.type !== "session_init"
     && msg.type !== "message_history"
+    && msg.type !== "history_page"
     && msg.type !== "event_replay";
 }
 
@@ -51,7 +52,7 @@ export function sequenceEvent(
   const seq = session.nextEventSeq++;
   const sequenced = { ...msg, seq };
   if (shouldBufferForReplay(msg)) {
-    session.eventBuffer.push({ seq, message: msg });
+    session.eventBuffer.push({ seq, message: msg, timestamp: Date.now() });
     if (session.eventBuffer.length > eventBufferLimit) {
       session.eventBuffer.splice(0, session.eventBuffer.length - eventBufferLimit);
     }
@@ -5,6 +5,9 @@ import type {
   PermissionRequest,
   SessionState,
   BufferedBrowserEvent,
+  SessionDriver,
+  PromptQueue,
+  VerifyLoop,
 } from "./session-types.js";
 import type { CodexAdapter } from "./codex-adapter.js";
 
@@ -18,6 +21,10 @@ export interface BrowserSocketData {
   sessionId: string;
   subscribed?: boolean;
   lastAckSeq?: number;
+  /** Set by `presence_hello`; sockets without one are anonymous viewers. */
+  viewerId?: string;
+  viewerName?: string;
+  typing?: boolean;
 }
 
 export interface TerminalSocketData {
@@ -31,6 +38,8 @@ export type SocketData = CLISocketData | BrowserSocketData | TerminalSocketData;
 export interface PendingControlRequest {
   subtype: string;
   resolve: (response: unknown) => void;
+  /** Called with the CLI's error message when the request fails */
+  reject?: (error: string) => void;
 }
 
 export interface Session {
@@ -49,6 +58,23 @@ export interface Session {
   lastAckSeq: number;
   processedClientMessageIds: string[];
   processedClientMessageIdSet: Set<string>;
+  /** Driver lock; kept while the driver reconnects, but anyone may claim it once they are gone. */
+  driver: SessionDriver | null;
+  controlRequests: string[];
+  promptQueue: PromptQueue;
+  /** A prompt was sent and its result has not arrived yet; queued prompts wait for it. */
+  turnInProgress: boolean;
+  verifyLoop: VerifyLoop;
+  /** Last prompt or backend message; idle sessions get suspended */
+  lastActivityAt: number;
+  /** Tool the backend last reported progress for; cleared by any other message */
+  currentTool: { name: string; elapsedSeconds: number } | null;
+  /** Estimated cost of each assistant message in the running turn, by message id; checked against budgets mid-turn */
+  turnCostEstimates: Map<string, number>;
+  /** When the backend went away while a turn was running; cleared once it reconnects or a new prompt goes out */
+  disconnectedMidTurnAt: number | null;
+  /** Backend was stopped for being idle; the next prompt relaunches it */
+  suspended: boolean;
 }
 
 export type GitSessionKey =
@@ -89,3 +115,24 @@ export function makeDefaultState(
     total_lines_removed: 0,
   };
 }
+
+/** What a session has spent overall. Sessions saved before lifetime_cost_usd existed fall back to the CLI's total. */
+export function sessionSpendUsd(state: SessionState): number {
+  return state.lifetime_cost_usd ?? state.total_cost_usd;
+}
+
+/**
+ * Make `session.messageHistory` load on first access. Restored sessions that
+ * nobody opens never read their message log.
+ */
+export function deferMessageHistory(session: Session, load: () => BrowserIncomingMessage[]): void {
+  let history: BrowserIncomingMessage[] | null = null;
+  Object.defineProperty(session, "messageHistory", {
+    get: () => (history ??= load()),
+    set: (value: BrowserIncomingMessage[]) => {
+      history = value;
+    },
+    enumerable: true,
+    configurable: true,
+  });
+}
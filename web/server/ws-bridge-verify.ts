@@ -0,0 +1,186 @@
+import { sessionSpendUsd, type Session } from "./ws-bridge-types.js";
+import type {
+  BrowserIncomingMessage,
+  BrowserOutgoingMessage,
+  VerifyIteration,
+  VerifyLoop,
+} from "./session-types.js";
+import { containerManager } from "./container-manager.js";
+import { runShellCommand, type ShellCommandResult } from "./shell-command.js";
+
+type VerifySettingsMessage = Extract<BrowserOutgoingMessage, { type: "verify_settings" }>;
+
+export const DEFAULT_VERIFY_MAX_ITERATIONS = 5;
+const MAX_VERIFY_ITERATIONS = 50;
+const VERIFY_TIMEOUT_MS = 10 * 60_000;
+/** Output kept per run for the panel */
+const VERIFY_OUTPUT_CHARS = 8_000;
+/** Output quoted in the failure report sent back to the agent */
+const VERIFY_REPORT_CHARS = 4_000;
+
+export function makeVerifyLoop(): VerifyLoop {
+  return {
+    command: "",
+    max_iterations: DEFAULT_VERIFY_MAX_ITERATIONS,
+    running: false,
+    iterations: [],
+    start_cost_usd: 0,
+    follow_up_pending: false,
+  };
+}
+
+/** Rebuild a persisted loop. A run that was in flight when the server stopped is dropped. */
+export function restoreVerifyLoop(loop: VerifyLoop | undefined): VerifyLoop {
+  if (!loop || typeof loop.command !== "string") return makeVerifyLoop();
+  return {
+    ...makeVerifyLoop(),
+    command: loop.command,
+    max_iterations: normalizeMaxIterations(loop.max_iterations) ?? DEFAULT_VERIFY_MAX_ITERATIONS,
+    ...(typeof loop.max_cost_usd === "number" && loop.max_cost_usd > 0 ? { max_cost_usd: loop.max_cost_usd } : {}),
+    iterations: Array.isArray(loop.iterations) ? loop.iterations : [],
+    start_cost_usd: typeof loop.start_cost_usd === "number" ? loop.start_cost_usd : 0,
+    ...(loop.stopped_reason ? { stopped_reason: loop.stopped_reason } : {}),
+  };
+}
+
+export function buildVerifyLoop(session: Session): BrowserIncomingMessage {
+  return { type: "verify_loop", loop: session.verifyLoop };
+}
+
+function normalizeMaxIterations(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 1) return null;
+  return Math.min(Math.floor(value), MAX_VERIFY_ITERATIONS);
+}
+
+/** Apply verification settings from a browser. `changed` means persist and broadcast. */
+export function applyVerifySettings(session: Session, msg: VerifySettingsMessage): { changed: boolean; error?: string } {
+  const next: VerifyLoop = { ...session.verifyLoop };
+  if (typeof msg.command === "string") next.command = msg.command.trim();
+  if (msg.max_iterations !== undefined) {
+    const max = normalizeMaxIterations(msg.max_iterations);
+    if (max === null) return { changed: false, error: "Max iterations must be at least 1." };
+    next.max_iterations = max;
+  }
+  if (msg.max_cost_usd === null) {
+    delete next.max_cost_usd;
+  } else if (msg.max_cost_usd !== undefined) {
+    if (typeof msg.max_cost_usd !== "number" || !(msg.max_cost_usd > 0)) {
+      return { changed: false, error: "The verification budget must be a positive amount." };
+    }
+    next.max_cost_usd = msg.max_cost_usd;
+  }
+  const current = session.verifyLoop;
+  if (
+    next.command === current.command
+    && next.max_iterations === current.max_iterations
+    && next.max_cost_usd === current.max_cost_usd
+  ) {
+    return { changed: false };
+  }
+  session.verifyLoop = next;
+  return { changed: true };
+}
+
+/** A prompt that isn't a failure report starts a new loop; remember what had been spent before it. */
+export function noteVerifyPrompt(session: Session): void {
+  if (session.verifyLoop.follow_up_pending) return;
+  session.verifyLoop = { ...session.verifyLoop, start_cost_usd: sessionSpendUsd(session.state) };
+}
+
+/**
+ * Start a verification run for the turn that just ended. Returns false when
+ * verification is off or already running. A turn that wasn't answering a
+ * failure report starts a fresh loop.
+ */
+export function beginVerifyRun(session: Session): boolean {
+  const loop = session.verifyLoop;
+  if (!loop.command || loop.running) return false;
+  const fresh = !loop.follow_up_pending;
+  session.verifyLoop = {
+    ...loop,
+    running: true,
+    follow_up_pending: false,
+    iterations: fresh ? [] : loop.iterations,
+  };
+  delete session.verifyLoop.stopped_reason;
+  return true;
+}
+
+/** Run the loop's command where the session runs: in its container, or on the host. */
+export async function runVerifyCommand(session: Session): Promise<ShellCommandResult> {
+  const command = session.verifyLoop.command;
+  if (session.state.is_containerized) {
+    const container = containerManager.getContainer(session.id);
+    if (!container?.containerId) {
+      return { exitCode: -1, output: "Container is not running", timedOut: false, durationMs: 0 };
+    }
+    const startedAt = Date.now();
+    const containerCwd = (container.containerCwd || "/workspace").replace(/'/g, "'\\''");
+    try {
+      const result = await containerManager.execInContainerAsync(
+        container.containerId,
+        ["sh", "-lc", `cd '${containerCwd}' && ${command}`],
+        { timeout: VERIFY_TIMEOUT_MS },
+      );
+      return { ...result, timedOut: false, durationMs: Date.now() - startedAt };
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      return { exitCode: -1, output: message, timedOut: false, durationMs: Date.now() - startedAt };
+    }
+  }
+  return runShellCommand(command, {
+    cwd: session.state.cwd,
+    timeoutMs: VERIFY_TIMEOUT_MS,
+    maxOutput: VERIFY_OUTPUT_CHARS,
+  });
+}
+
+/**
+ * Record a finished run. Returns the failure report to send back to the
+ * agent, or null when the loop is over (passed, out of iterations or budget).
+ */
+export function finishVerifyRun(session: Session, result: ShellCommandResult, now = Date.now()): string | null {
+  const loop = session.verifyLoop;
+  const iteration: VerifyIteration = {
+    iteration: loop.iterations.length + 1,
+    passed: result.exitCode === 0 && !result.timedOut,
+    exit_code: result.exitCode,
+    timed_out: result.timedOut,
+    output: result.output.slice(-VERIFY_OUTPUT_CHARS),
+    duration_ms: result.durationMs,
+    finished_at: now,
+  };
+  const next: VerifyLoop = { ...loop, running: false, iterations: [...loop.iterations, iteration] };
+  session.verifyLoop = next;
+
+  if (iteration.passed) {
+    next.stopped_reason = "Passed";
+    return null;
+  }
+  if (iteration.iteration >= next.max_iterations) {
+    next.stopped_reason = `Still failing after ${iteration.iteration} run${iteration.iteration === 1 ? "" : "s"}`;
+    return null;
+  }
+  const spent = sessionSpendUsd(session.state) - next.start_cost_usd;
+  if (next.max_cost_usd !== undefined && spent >= next.max_cost_usd) {
+    next.stopped_reason = `Budget reached ($${spent.toFixed(2)} of $${next.max_cost_usd.toFixed(2)})`;
+    return null;
+  }
+  next.follow_up_pending = true;
+  return buildFailureReport(next.command, iteration, next.max_iterations);
+}
+
+export function buildFailureReport(command: string, iteration: VerifyIteration, maxIterations: number): string {
+  const outcome = iteration.timed_out ? "timed out" : `failed with exit code ${iteration.exit_code}`;
+  const output = iteration.output.length > VERIFY_REPORT_CHARS
+    ? `...[truncated]...\n${iteration.output.slice(-VERIFY_REPORT_CHARS)}`
+    : iteration.output;
+  return [
+    `Verification \`${command}\` ${outcome} (run ${iteration.iteration} of ${maxIterations}).`,
+    "Fix the failures below. The command runs again when you finish.",
+    "",
+    "```",
+    output.trim() || "(no output)",
+    "```",
+  ].join("\n");
+}
@@ -3,10 +3,14 @@ import { vi } from "vitest";
 const mockExecSync = vi.hoisted(() => vi.fn());
 vi.mock("node:child_process", () => ({ execSync: mockExecSync }));
 vi.mock("node:crypto", () => ({ randomUUID: () => "test-uuid" }));
+const mockRunShellCommand = vi.hoisted(() => vi.fn());
+vi.mock("./shell-command.js", () => ({ runShellCommand: mockRunShellCommand }));
 
 import { WsBridge, type SocketData } from "./ws-bridge.js";
 import { SessionStore } from "./session-store.js";
+import { makeDefaultState } from "./ws-bridge-types.js";
 import { containerManager } from "./container-manager.js";
+import { findStuckReason } from "./session-watchdog.js";
 import { mkdtempSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
@@ -697,6 +701,50 @@ describe("Browser handlers", () => {
     expect(historyMsg.messages[0].type).toBe("assistant");
   });
 
+  it("handleBrowserOpen: sends only the newest page of a long history", () => {
+    const first = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(first, "s1");
+    const session = bridge.getSession("s1")!;
+    const chunk = (text: string) => ({
+      type: "assistant" as const,
+      message: {
+        id: "streamed",
+        type: "message" as const,
+        role: "assistant" as const,
+        model: "claude-sonnet-4-6",
+        content: [{ type: "text" as const, text }],
+        stop_reason: null,
+        usage: { input_tokens: 1, output_tokens: 1, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      },
+      parent_tool_use_id: null,
+    });
+    // 300 entries; entries 99 and 100 are chunks of one assistant message straddling the page edge.
+    session.messageHistory = Array.from({ length: 300 }, (_, i) =>
+      i === 99 || i === 100
+        ? chunk(`part ${i}`)
+        : { type: "user_message" as const, content: `m${i}`, timestamp: i },
+    );
+
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    const history = browser.send.mock.calls
+      .map(([arg]: [string]) => JSON.parse(arg))
+      .find((c: any) => c.type === "message_history");
+    // The window widens so the streamed message isn't split
+    expect(history.cursor).toBe(99);
+    expect(history.messages).toHaveLength(201);
+
+    browser.send.mockClear();
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "history_page", before: 99 }));
+    const page = JSON.parse(browser.send.mock.calls[0][0]);
+    expect(page).toMatchObject({ type: "history_page", before: 99, cursor: null });
+    expect(page.messages).toHaveLength(99);
+    expect(page.messages[0].content).toBe("m0");
+    // Pages go to the requester only and stay out of the replay buffer
+    expect(first.send.mock.calls.some(([arg]: [string]) => JSON.parse(arg).type === "history_page")).toBe(false);
+    expect(session.eventBuffer.some((e) => e.message.type === "history_page")).toBe(false);
+  });
+
   it("handleBrowserOpen: sends pending permissions", () => {
     const cli = makeCliSocket("s1");
     bridge.handleCLIOpen(cli, "s1");
@@ -1434,6 +1482,62 @@ describe("Browser message routing", () => {
     expect(cli.send).toHaveBeenCalledTimes(1);
   });
 
+  it("set_thinking_budget: sends set_max_thinking_tokens and broadcasts the new level", () => {
+    browser.send.mockClear();
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "set_thinking_budget",
+      level: "high",
+    }));
+
+    expect(cli.send).toHaveBeenCalledTimes(1);
+    const sent = JSON.parse((cli.send.mock.calls[0][0] as string).trim());
+    expect(sent.type).toBe("control_request");
+    expect(sent.request.subtype).toBe("set_max_thinking_tokens");
+    expect(sent.request.max_thinking_tokens).toBe(31_999);
+
+    const session = bridge.getSession("s1")!;
+    expect(session.state.thinking_level).toBe("high");
+    const updates = browser.send.mock.calls
+      .map(([arg]: [string]) => JSON.parse(arg))
+      .filter((m: { type: string }) => m.type === "session_update");
+    expect(updates.at(-1).session).toEqual({ thinking_level: "high", thinking_tokens: undefined });
+  });
+
+  it("set_thinking_budget: custom level uses the provided token count", () => {
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "set_thinking_budget",
+      level: "custom",
+      tokens: 20_000,
+    }));
+
+    const sent = JSON.parse((cli.send.mock.calls[0][0] as string).trim());
+    expect(sent.request.max_thinking_tokens).toBe(20_000);
+    expect(bridge.getSession("s1")!.state.thinking_tokens).toBe(20_000);
+  });
+
+  it("set_thinking_budget: ignores unknown levels", () => {
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "set_thinking_budget",
+      level: "extreme",
+    }));
+
+    expect(cli.send).not.toHaveBeenCalled();
+    expect(bridge.getSession("s1")!.state.thinking_level).toBeUndefined();
+  });
+
+  it("set_thinking_budget: re-applies the stored budget when the CLI reconnects", () => {
+    bridge.setThinkingBudget("s1", "off");
+    bridge.handleCLIClose(cli);
+
+    const cli2 = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli2, "s1");
+
+    const sent = cli2.send.mock.calls
+      .map(([arg]: [string]) => JSON.parse(arg.trim()))
+      .find((m: { type: string; request?: { subtype: string } }) => m.request?.subtype === "set_max_thinking_tokens");
+    expect(sent.request.max_thinking_tokens).toBe(0);
+  });
+
   it("mcp_toggle: deduplicates repeated client_msg_id", () => {
     const payload = {
       type: "mcp_toggle",
@@ -1540,6 +1644,26 @@ describe("Persistence", () => {
     expect(session!.processedClientMessageIdSet.has("restored-client-1")).toBe(true);
   });
 
+  it("restoreFromDisk: reads a message log only when the history is first used", () => {
+    store.saveSync({
+      id: "lazy-1",
+      state: makeDefaultState("lazy-1"),
+      messageHistory: [{ type: "user_message", content: "Hello", timestamp: 1000 }],
+      pendingMessages: [],
+      pendingPermissions: [],
+    });
+    const loadMessages = vi.spyOn(store, "loadMessages");
+
+    bridge.restoreFromDisk();
+    expect(loadMessages).not.toHaveBeenCalled();
+
+    const session = bridge.getSession("lazy-1")!;
+    expect(session.messageHistory).toHaveLength(1);
+    session.messageHistory.push({ type: "user_message", content: "Again", timestamp: 2000 });
+    expect(session.messageHistory).toHaveLength(2);
+    expect(loadMessages).toHaveBeenCalledTimes(1);
+  });
+
   it("restoreFromDisk: does not overwrite live sessions", () => {
     // Create a live session first
     const liveSession = bridge.getOrCreateSession("live-1");
@@ -3109,3 +3233,1434 @@ describe("MCP control messages", () => {
     vi.useRealTimers();
   });
 });
+
+describe("rewind_files", () => {
+  let cli: ReturnType<typeof makeCliSocket>;
+  let browser: ReturnType<typeof makeBrowserSocket>;
+
+  beforeEach(() => {
+    cli = makeCliSocket("s1");
+    browser = makeBrowserSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    bridge.handleCLIMessage(cli, makeInitMsg());
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "user_message",
+      content: "Refactor the parser",
+      id: "user-local-1",
+    }));
+    cli.send.mockClear();
+    browser.send.mockClear();
+  });
+
+  function respond(response: Record<string, unknown>) {
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_response",
+      response: { subtype: "success", request_id: "test-uuid", response },
+    }));
+  }
+
+  it("user_message: keeps the browser's id and hands a uuid to the CLI", () => {
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "user_message",
+      content: "next",
+      id: "user-local-2",
+    }));
+
+    const sent = JSON.parse((cli.send.mock.calls[0][0] as string).trim());
+    expect(sent.uuid).toBe("test-uuid");
+    const stored = bridge.getSession("s1")!.messageHistory.at(-1);
+    expect(stored).toMatchObject({ type: "user_message", id: "user-local-2", uuid: "test-uuid" });
+  });
+
+  it("finds the CLI uuid to fork at for user and assistant messages", () => {
+    for (const uuid of ["a-1", "a-2"]) {
+      bridge.handleCLIMessage(cli, JSON.stringify({
+        type: "assistant",
+        message: { id: "msg_1", type: "message", role: "assistant", model: "m", content: [], stop_reason: null, usage: {} },
+        parent_tool_use_id: null,
+        uuid,
+        session_id: "cli-123",
+      }));
+    }
+
+    expect(bridge.getForkPoint("s1", "user-local-1")).toBe("test-uuid");
+    // An assistant turn spans several CLI messages; forking keeps all of it.
+    expect(bridge.getForkPoint("s1", "msg_1")).toBe("a-2");
+    expect(bridge.getForkPoint("s1", "missing")).toBeNull();
+    expect(bridge.getForkPoint("nope", "msg_1")).toBeNull();
+  });
+
+  it("seeds a forked session with the parent's history up to the fork point", () => {
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "later", id: "user-local-2" }));
+
+    bridge.seedForkedSession("fork-1", "s1", "user-local-1");
+
+    const history = bridge.getSession("fork-1")!.messageHistory;
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ type: "user_message", id: "user-local-1" });
+    expect(bridge.getSession("s1")!.messageHistory).toHaveLength(2);
+  });
+
+  it("dry run: sends rewind_files with the CLI uuid and answers only the requester", () => {
+    const other = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(other, "s1");
+    other.send.mockClear();
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "rewind_files",
+      message_id: "user-local-1",
+      dry_run: true,
+    }));
+
+    const sent = JSON.parse((cli.send.mock.calls[0][0] as string).trim());
+    expect(sent.type).toBe("control_request");
+    expect(sent.request).toEqual({ subtype: "rewind_files", user_message_id: "test-uuid", dry_run: true });
+
+    respond({ canRewind: true, filesChanged: ["src/a.ts", "src/b.ts"], insertions: 4, deletions: 9 });
+
+    expect(browser.send).toHaveBeenCalledTimes(1);
+    const result = JSON.parse(browser.send.mock.calls[0][0] as string);
+    expect(result).toMatchObject({
+      type: "rewind_result",
+      message_id: "user-local-1",
+      dry_run: true,
+      can_rewind: true,
+      files_changed: ["src/a.ts", "src/b.ts"],
+      insertions: 4,
+      deletions: 9,
+    });
+    expect(other.send).not.toHaveBeenCalled();
+    expect(bridge.getSession("s1")!.messageHistory).toHaveLength(1);
+  });
+
+  it("rewind: truncates history from the message and broadcasts the result", () => {
+    const session = bridge.getSession("s1")!;
+    const userTs = (session.messageHistory[0] as { timestamp: number }).timestamp;
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "assistant",
+      message: {
+        id: "msg-1",
+        type: "message",
+        role: "assistant",
+        model: "claude-sonnet-4-6",
+        content: [{ type: "text", text: "Done" }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 1, output_tokens: 1, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      },
+      parent_tool_use_id: null,
+      uuid: "a-1",
+      session_id: "cli-123",
+    }));
+    expect(session.messageHistory).toHaveLength(2);
+    expect(session.eventBuffer.length).toBeGreaterThan(0);
+    browser.send.mockClear();
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "rewind_files",
+      message_id: "user-local-1",
+    }));
+    const sent = JSON.parse((cli.send.mock.calls[0][0] as string).trim());
+    expect(sent.request.dry_run).toBe(false);
+
+    respond({ canRewind: true, filesChanged: ["src/a.ts"] });
+
+    expect(session.messageHistory).toHaveLength(0);
+    // Only events from before the rewound message survive, then the result
+    const kept = session.eventBuffer.slice(0, -1);
+    expect(kept.every((e) => e.timestamp! < userTs)).toBe(true);
+    expect(session.eventBuffer.map((e) => e.message.type)).not.toContain("assistant");
+    expect(session.eventBuffer.at(-1)!.message.type).toBe("rewind_result");
+    const result = JSON.parse(browser.send.mock.calls[0][0] as string);
+    expect(result).toMatchObject({ type: "rewind_result", dry_run: false, can_rewind: true });
+  });
+
+  it("passes on the file count the CLI reports", () => {
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "rewind_files",
+      message_id: "user-local-1",
+      dry_run: true,
+    }));
+    respond({ canRewind: true, filesChanged: 3, insertions: 12, deletions: 5 });
+
+    const result = JSON.parse(browser.send.mock.calls[0][0] as string);
+    expect(result).toMatchObject({ can_rewind: true, files_changed: [], files_changed_count: 3, insertions: 12, deletions: 5 });
+  });
+
+  it("gives up when the CLI never answers", () => {
+    vi.useFakeTimers();
+    try {
+      bridge.handleBrowserMessage(browser, JSON.stringify({
+        type: "rewind_files",
+        message_id: "user-local-1",
+        dry_run: true,
+      }));
+      vi.advanceTimersByTime(30_000);
+
+      expect(browser.send).toHaveBeenCalledTimes(1);
+      const result = JSON.parse(browser.send.mock.calls[0][0] as string);
+      expect(result).toMatchObject({ type: "rewind_result", can_rewind: false, error: expect.stringContaining("didn't answer") });
+      expect(bridge.getSession("s1")!.pendingControlRequests.size).toBe(0);
+
+      // A late answer is ignored
+      respond({ canRewind: true, filesChanged: 1 });
+      expect(browser.send).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("rewind: keeps buffered events from before the message replayable", () => {
+    const session = bridge.getSession("s1")!;
+    const userTs = (session.messageHistory[0] as { timestamp: number }).timestamp;
+    session.eventBuffer = [
+      { seq: 1, message: { type: "error", message: "before" }, timestamp: userTs - 1000 },
+      { seq: 2, message: { type: "error", message: "after" }, timestamp: userTs + 1000 },
+    ];
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "rewind_files", message_id: "user-local-1" }));
+    respond({ canRewind: true, filesChanged: 1 });
+
+    expect(session.eventBuffer.map((e) => e.message.type === "error" ? e.message.message : e.message.type))
+      .toEqual(["before", "rewind_result"]);
+  });
+
+  it("surfaces CLI errors and keeps history", () => {
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "rewind_files",
+      message_id: "user-local-1",
+    }));
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_response",
+      response: { subtype: "error", request_id: "test-uuid", error: "No checkpoint found" },
+    }));
+
+    const result = JSON.parse(browser.send.mock.calls[0][0] as string);
+    expect(result).toMatchObject({ type: "rewind_result", can_rewind: false, error: "No checkpoint found" });
+    expect(bridge.getSession("s1")!.messageHistory).toHaveLength(1);
+  });
+
+  it("rejects messages without a checkpoint without contacting the CLI", () => {
+    bridge.handleBrowserMessage(browser, JSON.stringify({
+      type: "rewind_files",
+      message_id: "unknown",
+      dry_run: true,
+    }));
+
+    expect(cli.send).not.toHaveBeenCalled();
+    const result = JSON.parse(browser.send.mock.calls[0][0] as string);
+    expect(result.can_rewind).toBe(false);
+    expect(result.error).toContain("No file checkpoint");
+  });
+});
+
+describe("hook policy", () => {
+  const blockRm = {
+    id: "rule-rm",
+    name: "Block rm",
+    enabled: true,
+    event: "PreToolUse" as const,
+    toolPattern: "Bash",
+    inputPattern: "rm\\s+-rf",
+    decision: "deny" as const,
+    reason: "No rm -rf",
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  function parseSent(socket: { send: ReturnType<typeof vi.fn> }) {
+    return socket.send.mock.calls.map(([arg]) => JSON.parse(String(arg).trim()));
+  }
+
+  function hookCallback(cli: ReturnType<typeof makeCliSocket>, command: string) {
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_request",
+      request_id: "hook-req-1",
+      request: {
+        subtype: "hook_callback",
+        callback_id: "companion:PreToolUse",
+        input: {
+          hook_event_name: "PreToolUse",
+          cwd: "/test",
+          tool_name: "Bash",
+          tool_input: { command },
+        },
+        tool_use_id: "tu-1",
+      },
+    }));
+  }
+
+  it("registers hooks via initialize before flushing queued messages", () => {
+    bridge.setHookPolicy({ listRules: () => [blockRm], recordDecision: vi.fn() });
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "hi" }));
+
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+
+    const sent = parseSent(cli);
+    expect(sent[0].type).toBe("control_request");
+    expect(sent[0].request).toEqual({
+      subtype: "initialize",
+      hooks: {
+        PreToolUse: [{ hookCallbackIds: ["companion:PreToolUse"] }],
+        PostToolUse: [{ hookCallbackIds: ["companion:PostToolUse"] }],
+        Stop: [{ hookCallbackIds: ["companion:Stop"] }],
+      },
+    });
+    expect(sent[1].type).toBe("user");
+  });
+
+  it("applies a rule added after the CLI connected", () => {
+    const rules: typeof blockRm[] = [];
+    bridge.setHookPolicy({ listRules: () => rules, recordDecision: vi.fn() });
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    expect(parseSent(cli)[0].request.subtype).toBe("initialize");
+    cli.send.mockClear();
+
+    rules.push(blockRm);
+    hookCallback(cli, "rm -rf /");
+
+    const [response] = parseSent(cli);
+    expect(response.response.response.hookSpecificOutput.permissionDecision).toBe("deny");
+  });
+
+  it("skips initialize when no hook policy is attached", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    expect(cli.send).not.toHaveBeenCalled();
+  });
+
+  it("answers hook_callback with the matching rule's decision and audits it", () => {
+    const recordDecision = vi.fn();
+    bridge.setHookPolicy({ listRules: () => [blockRm], recordDecision });
+    const cli = makeCliSocket("s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    cli.send.mockClear();
+    browser.send.mockClear();
+
+    hookCallback(cli, "rm -rf /");
+
+    const [response] = parseSent(cli);
+    expect(response.type).toBe("control_response");
+    expect(response.response.request_id).toBe("hook-req-1");
+    expect(response.response.response.hookSpecificOutput).toEqual({
+      hookEventName: "PreToolUse",
+      permissionDecision: "deny",
+      permissionDecisionReason: "No rm -rf",
+    });
+    expect(recordDecision).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: "s1",
+      event: "PreToolUse",
+      toolName: "Bash",
+      subject: "rm -rf /",
+      decision: "deny",
+      ruleId: "rule-rm",
+    }));
+    const event = parseSent(browser).find((m: { type: string }) => m.type === "system_event");
+    expect(event.event).toEqual(expect.objectContaining({
+      subtype: "hook_decision",
+      decision: "deny",
+      rule_name: "Block rm",
+      tool_name: "Bash",
+    }));
+  });
+
+  it("lets the tool through with an empty response when no rule matches", () => {
+    const recordDecision = vi.fn();
+    bridge.setHookPolicy({ listRules: () => [blockRm], recordDecision });
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    cli.send.mockClear();
+
+    hookCallback(cli, "ls");
+
+    const [response] = parseSent(cli);
+    expect(response.response.response).toEqual({});
+    expect(recordDecision).not.toHaveBeenCalled();
+  });
+
+  it("blocks the first Stop and lets the second one through", () => {
+    const recordDecision = vi.fn();
+    const keepGoing = { ...blockRm, id: "rule-stop", name: "Keep going", event: "Stop" as const };
+    bridge.setHookPolicy({ listRules: () => [keepGoing], recordDecision });
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    cli.send.mockClear();
+
+    const stop = (requestId: string, stopHookActive: boolean) => bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_request",
+      request_id: requestId,
+      request: {
+        subtype: "hook_callback",
+        callback_id: "companion:Stop",
+        input: { hook_event_name: "Stop", stop_hook_active: stopHookActive },
+      },
+    }));
+    stop("stop-1", false);
+    stop("stop-2", true);
+
+    const [first, second] = parseSent(cli);
+    expect(first.response.response).toEqual({ decision: "block", reason: "No rm -rf" });
+    expect(second.response.request_id).toBe("stop-2");
+    expect(second.response.response).toEqual({});
+    expect(recordDecision).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("auto-approval", () => {
+  const allowGitStatus = {
+    id: "rule-git",
+    enabled: true,
+    behavior: "allow" as const,
+    toolName: "Bash",
+    commandPattern: "^git status$",
+    scope: "global" as const,
+    description: "git status",
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  function parseSent(socket: { send: ReturnType<typeof vi.fn> }) {
+    return socket.send.mock.calls.map(([arg]) => JSON.parse(String(arg).trim()));
+  }
+
+  function canUseTool(cli: ReturnType<typeof makeCliSocket>, command: string) {
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_request",
+      request_id: "req-auto",
+      request: { subtype: "can_use_tool", tool_name: "Bash", input: { command }, tool_use_id: "tu-auto" },
+    }));
+  }
+
+  it("answers a matching Claude request without asking the browser", () => {
+    bridge.setAutoApprovalRules(() => [allowGitStatus]);
+    const cli = makeCliSocket("s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    cli.send.mockClear();
+    browser.send.mockClear();
+
+    canUseTool(cli, "git status");
+
+    const response = parseSent(cli).find((m: { type: string }) => m.type === "control_response");
+    expect(response.response.request_id).toBe("req-auto");
+    expect(response.response.response).toEqual(expect.objectContaining({
+      behavior: "allow",
+      updatedInput: { command: "git status" },
+    }));
+    const sent = parseSent(browser);
+    expect(sent.find((m: { type: string }) => m.type === "permission_request")).toBeUndefined();
+    const event = sent.find((m: { type: string }) => m.type === "system_event");
+    expect(event.event).toEqual(expect.objectContaining({
+      subtype: "auto_approval",
+      behavior: "allow",
+      rule_id: "rule-git",
+      subject: "git status",
+    }));
+    expect(bridge.getSession("s1")!.pendingPermissions.size).toBe(0);
+  });
+
+  it("denies requests that hit a deny rule and still asks for the rest", () => {
+    bridge.setAutoApprovalRules(() => [{
+      ...allowGitStatus,
+      id: "rule-rm",
+      behavior: "deny" as const,
+      commandPattern: "rm\\s+-rf",
+      description: "No rm -rf",
+    }]);
+    const cli = makeCliSocket("s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    cli.send.mockClear();
+    browser.send.mockClear();
+
+    canUseTool(cli, "rm -rf build");
+    const response = parseSent(cli).find((m: { type: string }) => m.type === "control_response");
+    expect(response.response.response).toEqual(expect.objectContaining({
+      behavior: "deny",
+      message: "Denied by Companion rule: No rm -rf",
+    }));
+
+    canUseTool(cli, "ls");
+    expect(parseSent(browser).find((m: { type: string }) => m.type === "permission_request")).toBeDefined();
+    expect(bridge.getSession("s1")!.pendingPermissions.has("req-auto")).toBe(true);
+  });
+
+  it("answers Codex approvals through the adapter", () => {
+    bridge.setAutoApprovalRules(() => [allowGitStatus]);
+    let emit: (msg: unknown) => void = () => {};
+    const adapter = {
+      onBrowserMessage: vi.fn((cb: (msg: unknown) => void) => { emit = cb; }),
+      onSessionMeta: vi.fn(),
+      onDisconnect: vi.fn(),
+      sendBrowserMessage: vi.fn(() => true),
+    };
+    const browser = makeBrowserSocket("s1");
+    bridge.attachCodexAdapter("s1", adapter as any);
+    bridge.handleBrowserOpen(browser, "s1");
+    browser.send.mockClear();
+
+    emit({
+      type: "permission_request",
+      request: {
+        request_id: "codex-req",
+        tool_name: "Bash",
+        input: { command: "git status" },
+        tool_use_id: "item-1",
+        timestamp: Date.now(),
+      },
+    });
+
+    expect(adapter.sendBrowserMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: "permission_response",
+      request_id: "codex-req",
+      behavior: "allow",
+    }));
+    expect(parseSent(browser).find((m: { type: string }) => m.type === "permission_request")).toBeUndefined();
+    expect(bridge.getSession("s1")!.pendingPermissions.size).toBe(0);
+  });
+});
+
+describe("notifier", () => {
+  function makeNotifier() {
+    return { permissionRequested: vi.fn(), turnCompleted: vi.fn(), sessionStuck: vi.fn() };
+  }
+
+  it("reports permission requests and finished turns", () => {
+    const notifier = makeNotifier();
+    bridge.setNotifier(notifier);
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_request",
+      request_id: "req-n",
+      request: { subtype: "can_use_tool", tool_name: "Bash", input: { command: "ls" }, tool_use_id: "tu-n" },
+    }));
+    expect(notifier.permissionRequested).toHaveBeenCalledWith("s1", expect.objectContaining({
+      request_id: "req-n",
+      tool_name: "Bash",
+    }));
+
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "result",
+      subtype: "success",
+      is_error: false,
+      result: "Done!",
+      duration_ms: 1,
+      duration_api_ms: 1,
+      num_turns: 1,
+      total_cost_usd: 0,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      uuid: "uuid-n",
+      session_id: "s1",
+    }));
+    expect(notifier.turnCompleted).toHaveBeenCalledWith("s1", expect.objectContaining({ result: "Done!" }));
+  });
+
+  it("stays quiet for auto-approved requests", () => {
+    const notifier = makeNotifier();
+    bridge.setNotifier(notifier);
+    bridge.setAutoApprovalRules(() => [{
+      id: "rule-ls",
+      enabled: true,
+      behavior: "allow",
+      toolName: "Bash",
+      commandPattern: "^ls$",
+      scope: "global",
+      createdAt: 0,
+      updatedAt: 0,
+    }]);
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_request",
+      request_id: "req-n",
+      request: { subtype: "can_use_tool", tool_name: "Bash", input: { command: "ls" }, tool_use_id: "tu-n" },
+    }));
+    expect(notifier.permissionRequested).not.toHaveBeenCalled();
+  });
+
+  it("reports Codex permission requests and results", () => {
+    const notifier = makeNotifier();
+    bridge.setNotifier(notifier);
+    let emit: (msg: unknown) => void = () => {};
+    const adapter = {
+      onBrowserMessage: vi.fn((cb: (msg: unknown) => void) => { emit = cb; }),
+      onSessionMeta: vi.fn(),
+      onDisconnect: vi.fn(),
+      sendBrowserMessage: vi.fn(() => true),
+    };
+    bridge.attachCodexAdapter("s1", adapter as any);
+
+    emit({
+      type: "permission_request",
+      request: { request_id: "codex-req", tool_name: "Bash", input: { command: "make" }, tool_use_id: "i1", timestamp: 0 },
+    });
+    emit({ type: "result", data: { type: "result", subtype: "success", is_error: false, result: "ok" } });
+
+    expect(notifier.permissionRequested).toHaveBeenCalledWith("s1", expect.objectContaining({ request_id: "codex-req" }));
+    expect(notifier.turnCompleted).toHaveBeenCalledWith("s1", expect.objectContaining({ result: "ok" }));
+  });
+});
+
+describe("answerPermissionRemotely", () => {
+  function sent(socket: ReturnType<typeof makeCliSocket>) {
+    return socket.send.mock.calls.map(([arg]: [unknown]) => JSON.parse(String(arg).trim()));
+  }
+
+  function requestPermission(cli: ReturnType<typeof makeCliSocket>) {
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "control_request",
+      request_id: "req-r",
+      request: { subtype: "can_use_tool", tool_name: "Bash", input: { command: "rm -rf dist" }, tool_use_id: "tu-r" },
+    }));
+  }
+
+  it("answers the CLI once, clears the prompt and records who answered", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    requestPermission(cli);
+    cli.send.mockClear();
+    browser.send.mockClear();
+
+    const answered = bridge.answerPermissionRemotely("req-r", "allow", { via: "push", actor: "push (iPhone Safari)" });
+
+    expect(answered).toEqual({ sessionId: "s1", request: expect.objectContaining({ tool_name: "Bash" }) });
+    expect(sent(cli)).toContainEqual(expect.objectContaining({
+      type: "control_response",
+      response: expect.objectContaining({
+        request_id: "req-r",
+        response: expect.objectContaining({ behavior: "allow", updatedInput: { command: "rm -rf dist" } }),
+      }),
+    }));
+    const toBrowser = sent(browser);
+    expect(toBrowser).toContainEqual(expect.objectContaining({ type: "permission_cancelled", request_id: "req-r" }));
+    expect(toBrowser).toContainEqual(expect.objectContaining({
+      type: "system_event",
+      event: expect.objectContaining({
+        subtype: "remote_permission_decision",
+        behavior: "allow",
+        via: "push",
+        actor: "push (iPhone Safari)",
+      }),
+    }));
+
+    // The link is single use: the request is no longer pending.
+    expect(bridge.findPendingPermission("req-r")).toBeNull();
+    expect(bridge.answerPermissionRemotely("req-r", "deny", { via: "push", actor: "x" })).toBeNull();
+  });
+
+  it("returns null once the CLI disconnected", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    requestPermission(cli);
+    bridge.handleCLIClose(cli);
+
+    expect(bridge.answerPermissionRemotely("req-r", "allow", { via: "webhook", actor: "webhook" })).toBeNull();
+  });
+
+  it("routes Codex decisions to the adapter", () => {
+    let emit: (msg: unknown) => void = () => {};
+    const adapter = {
+      onBrowserMessage: vi.fn((cb: (msg: unknown) => void) => { emit = cb; }),
+      onSessionMeta: vi.fn(),
+      onDisconnect: vi.fn(),
+      sendBrowserMessage: vi.fn(() => true),
+    };
+    bridge.attachCodexAdapter("s1", adapter as any);
+    emit({
+      type: "permission_request",
+      request: { request_id: "codex-req", tool_name: "Bash", input: { command: "make" }, tool_use_id: "i1", timestamp: 0 },
+    });
+
+    bridge.answerPermissionRemotely("codex-req", "deny", { via: "webhook", actor: "webhook" });
+
+    expect(adapter.sendBrowserMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: "permission_response",
+      request_id: "codex-req",
+      behavior: "deny",
+      message: "Denied from a webhook notification",
+    }));
+  });
+});
+
+describe("cost budgets", () => {
+  let limit: number | null;
+
+  function makePolicy() {
+    return {
+      recordSpend: vi.fn(),
+      evaluate: vi.fn((ctx: { sessionId: string; costUsd: number; inFlightUsd?: number }) => (limit === null ? [] : [{
+        scope: "session" as const,
+        target: ctx.sessionId,
+        label: "This session",
+        limit_usd: limit,
+        spent_usd: ctx.costUsd + (ctx.inFlightUsd ?? 0),
+      }])),
+    };
+  }
+
+  function sendResult(cli: ReturnType<typeof makeCliSocket>, totalCost: number) {
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "result",
+      subtype: "success",
+      is_error: false,
+      result: "ok",
+      duration_ms: 1,
+      duration_api_ms: 1,
+      num_turns: 1,
+      total_cost_usd: totalCost,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      uuid: `uuid-${totalCost}`,
+      session_id: "s1",
+    }));
+  }
+
+  function sent(socket: { send: { mock: { calls: unknown[][] } } }) {
+    return socket.send.mock.calls.map(([arg]) => JSON.parse(String(arg).trim()));
+  }
+
+  beforeEach(() => {
+    limit = 1;
+  });
+
+  it("records turn costs and blocks new turns once a budget is used up", () => {
+    const policy = makePolicy();
+    bridge.setCostBudgets(policy);
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+
+    sendResult(cli, 0.4);
+    expect(policy.recordSpend).toHaveBeenLastCalledWith(undefined, 0.4);
+
+    cli.send.mockClear();
+    browser.send.mockClear();
+    sendResult(cli, 1.2);
+
+    expect(policy.recordSpend).toHaveBeenLastCalledWith(undefined, expect.closeTo(0.8, 5));
+    // The turn already ended; there is nothing to interrupt.
+    expect(sent(cli).some((m) => m.request?.subtype === "interrupt")).toBe(false);
+    const toBrowser = sent(browser);
+    expect(toBrowser).toContainEqual(expect.objectContaining({
+      type: "session_update",
+      session: { budgets: [expect.objectContaining({ limit_usd: 1, spent_usd: 1.2 })] },
+    }));
+    expect(toBrowser).toContainEqual(expect.objectContaining({
+      type: "system_event",
+      event: expect.objectContaining({ subtype: "budget_exceeded", scope: "session", spent_usd: 1.2, interrupted: false }),
+    }));
+  });
+
+  it("interrupts a running turn when a budget is used up meanwhile", () => {
+    const policy = makePolicy();
+    bridge.setCostBudgets(policy);
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    sendResult(cli, 0.4);
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "keep going" }));
+    cli.send.mockClear();
+
+    // e.g. the limit was lowered, or another session used up a shared budget
+    limit = 0.3;
+    bridge.refreshBudgets();
+
+    expect(sent(cli)).toContainEqual(expect.objectContaining({
+      type: "control_request",
+      request: { subtype: "interrupt" },
+    }));
+    expect(sent(browser)).toContainEqual(expect.objectContaining({
+      type: "system_event",
+      event: expect.objectContaining({ subtype: "budget_exceeded", interrupted: true }),
+    }));
+
+    // Still over budget on the next refresh: no second interrupt.
+    cli.send.mockClear();
+    bridge.refreshBudgets();
+    expect(sent(cli).some((m) => m.request?.subtype === "interrupt")).toBe(false);
+  });
+
+  it("interrupts the turn that crosses the budget from its streamed usage", () => {
+    const policy = makePolicy();
+    bridge.setCostBudgets(policy);
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    sendResult(cli, 0.4);
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "big refactor" }));
+    cli.send.mockClear();
+    browser.send.mockClear();
+
+    // Sonnet output is $15 per million tokens
+    const assistant = (id: string, outputTokens: number) => bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "assistant",
+      message: {
+        id,
+        type: "message",
+        role: "assistant",
+        model: "claude-sonnet-4-6",
+        content: [{ type: "text", text: "Working" }],
+        stop_reason: null,
+        usage: { input_tokens: 0, output_tokens: outputTokens, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      },
+      parent_tool_use_id: null,
+      uuid: `uuid-${id}`,
+      session_id: "s1",
+    }));
+
+    assistant("msg-1", 20_000); // ~$0.70 with the turn so far
+    expect(sent(cli).some((m) => m.request?.subtype === "interrupt")).toBe(false);
+    expect(sent(browser).some((m) => m.type === "session_update")).toBe(false);
+
+    assistant("msg-2", 30_000); // ~$1.15
+    expect(sent(cli)).toContainEqual(expect.objectContaining({
+      type: "control_request",
+      request: { subtype: "interrupt" },
+    }));
+    expect(sent(browser)).toContainEqual(expect.objectContaining({
+      type: "system_event",
+      event: expect.objectContaining({ subtype: "budget_exceeded", spent_usd: expect.closeTo(1.15, 5), interrupted: true }),
+    }));
+
+    // More streamed output doesn't interrupt again; the result brings the real figure.
+    cli.send.mockClear();
+    assistant("msg-3", 10_000);
+    expect(sent(cli).some((m) => m.request?.subtype === "interrupt")).toBe(false);
+    sendResult(cli, 1.05);
+    expect(bridge.getSession("s1")!.state.budgets).toEqual([
+      expect.objectContaining({ spent_usd: expect.closeTo(1.05, 5) }),
+    ]);
+  });
+
+  it("keeps the session total across CLI relaunches", () => {
+    const policy = makePolicy();
+    bridge.setCostBudgets(policy);
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    sendResult(cli, 0.8);
+
+    bridge.handleCLIClose(cli);
+    const relaunched = makeCliSocket("s1");
+    bridge.handleCLIOpen(relaunched, "s1");
+    sendResult(relaunched, 0.3);
+
+    expect(policy.recordSpend).toHaveBeenLastCalledWith(undefined, 0.3);
+    expect(bridge.getSession("s1")!.state.lifetime_cost_usd).toBeCloseTo(1.1, 5);
+    expect(bridge.getSession("s1")!.state.budgets).toEqual([
+      expect.objectContaining({ spent_usd: expect.closeTo(1.1, 5) }),
+    ]);
+  });
+
+  it("refuses new turns until the budget is raised", () => {
+    bridge.setCostBudgets(makePolicy());
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    sendResult(cli, 1.5);
+    cli.send.mockClear();
+    browser.send.mockClear();
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "more please" }));
+    expect(sent(cli).some((m) => m.type === "user")).toBe(false);
+    expect(sent(browser)).toContainEqual(expect.objectContaining({
+      type: "error",
+      message: expect.stringContaining("Budget reached"),
+    }));
+
+    limit = 5;
+    bridge.refreshBudgets();
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "more please" }));
+    expect(sent(cli).some((m) => m.type === "user")).toBe(true);
+  });
+});
+
+describe("usage ledger", () => {
+  function result(totalCost: number) {
+    return {
+      type: "result",
+      subtype: "success",
+      is_error: false,
+      result: "ok",
+      duration_ms: 1500,
+      duration_api_ms: 1200,
+      num_turns: 1,
+      total_cost_usd: totalCost,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 120, output_tokens: 40, cache_creation_input_tokens: 5, cache_read_input_tokens: 900 },
+      uuid: `uuid-${totalCost}`,
+      session_id: "s1",
+    };
+  }
+
+  it("records each Claude turn with its share of the running cost", () => {
+    const recorder = { record: vi.fn() };
+    bridge.setUsageRecorder(recorder);
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.getOrCreateSession("s1").state.model = "claude-sonnet-4-5";
+
+    bridge.handleCLIMessage(cli, JSON.stringify(result(0.3)));
+    bridge.handleCLIMessage(cli, JSON.stringify(result(0.5)));
+
+    expect(recorder.record).toHaveBeenCalledTimes(2);
+    expect(recorder.record).toHaveBeenNthCalledWith(1, {
+      sessionId: "s1",
+      backendType: "claude",
+      model: "claude-sonnet-4-5",
+      repoRoot: "",
+      costUsd: 0.3,
+      inputTokens: 120,
+      outputTokens: 40,
+      cacheReadInputTokens: 900,
+      cacheCreationInputTokens: 5,
+      durationMs: 1500,
+      isError: false,
+    });
+    expect(recorder.record.mock.calls[1][0].costUsd).toBeCloseTo(0.2, 5);
+  });
+
+  it("records Codex turns without cost", () => {
+    const recorder = { record: vi.fn() };
+    bridge.setUsageRecorder(recorder);
+    let emit: (msg: unknown) => void = () => {};
+    const adapter = {
+      onBrowserMessage: vi.fn((cb: (msg: unknown) => void) => { emit = cb; }),
+      onSessionMeta: vi.fn(),
+      onDisconnect: vi.fn(),
+      sendBrowserMessage: vi.fn(() => true),
+    };
+    bridge.attachCodexAdapter("s1", adapter as any);
+
+    emit({ type: "result", data: result(0) });
+
+    expect(recorder.record).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: "s1",
+      backendType: "codex",
+      costUsd: 0,
+      inputTokens: 120,
+      durationMs: 1500,
+    }));
+  });
+});
+
+describe("search index", () => {
+  function makeIndexer() {
+    return { addMessage: vi.fn(), addToolResults: vi.fn(), indexSession: vi.fn(), removeSession: vi.fn() };
+  }
+
+  it("indexes user and assistant messages, and CLI tool results", () => {
+    const indexer = makeIndexer();
+    bridge.setSearchIndex(indexer);
+    const cli = makeCliSocket("s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleBrowserOpen(browser, "s1");
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "run tests", id: "u1" }));
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "assistant",
+      message: { id: "msg_1", type: "message", role: "assistant", model: "m", content: [], stop_reason: null, usage: {} },
+      parent_tool_use_id: null,
+      uuid: "a-1",
+      session_id: "cli-123",
+    }));
+    const blocks = [{ type: "tool_result", tool_use_id: "tu1", content: "2 failed" }];
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "user",
+      message: { role: "user", content: blocks },
+      parent_tool_use_id: null,
+      session_id: "cli-123",
+    }));
+
+    const meta = { repoRoot: "", backendType: "claude" };
+    expect(indexer.addMessage.mock.calls.map(([id, m, entry]) => [id, m, entry.type])).toEqual([
+      ["s1", meta, "user_message"],
+      ["s1", meta, "assistant"],
+    ]);
+    expect(indexer.addToolResults).toHaveBeenCalledWith("s1", meta, bridge.getSession("s1")!.messageHistory, blocks);
+  });
+
+  it("indexes Codex assistant messages", () => {
+    const indexer = makeIndexer();
+    bridge.setSearchIndex(indexer);
+    let emit: (msg: unknown) => void = () => {};
+    const adapter = {
+      onBrowserMessage: vi.fn((cb: (msg: unknown) => void) => { emit = cb; }),
+      onSessionMeta: vi.fn(),
+      onDisconnect: vi.fn(),
+      sendBrowserMessage: vi.fn(() => true),
+    };
+    bridge.attachCodexAdapter("s1", adapter as any);
+
+    emit({ type: "assistant", message: { id: "item-1", content: [{ type: "text", text: "done" }] }, parent_tool_use_id: null });
+
+    expect(indexer.addMessage).toHaveBeenCalledWith(
+      "s1",
+      { repoRoot: "", backendType: "codex" },
+      expect.objectContaining({ type: "assistant" }),
+    );
+  });
+
+  it("reindexes forks and drops closed sessions", () => {
+    const indexer = makeIndexer();
+    bridge.setSearchIndex(indexer);
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "hello", id: "u1" }));
+
+    bridge.seedForkedSession("fork-1", "s1", "u1");
+    expect(indexer.indexSession).toHaveBeenCalledWith("fork-1", expect.any(Object), bridge.getSession("fork-1")!.messageHistory);
+
+    bridge.closeSession("s1");
+    expect(indexer.removeSession).toHaveBeenCalledWith("s1");
+    expect(bridge.getSearchSources().map((s) => s.sessionId)).toEqual(["fork-1"]);
+  });
+});
+
+describe("presence and driver lock", () => {
+  function sent(ws: { send: ReturnType<typeof vi.fn> }) {
+    return ws.send.mock.calls.map(([raw]) => JSON.parse(raw as string));
+  }
+
+  function lastPresence(ws: { send: ReturnType<typeof vi.fn> }) {
+    return sent(ws).filter((m) => m.type === "presence").at(-1);
+  }
+
+  function connect(viewerId: string, name: string) {
+    const ws = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(ws, "s1");
+    bridge.handleBrowserMessage(ws, JSON.stringify({ type: "presence_hello", viewer_id: viewerId, name }));
+    return ws;
+  }
+
+  it("broadcasts viewers and typing state without buffering them for replay", () => {
+    const ada = connect("v-ada", "Ada");
+    const bob = connect("v-bob", "Bob");
+    // A second tab of the same viewer is listed once
+    connect("v-bob", "Bob");
+
+    bridge.handleBrowserMessage(bob, JSON.stringify({ type: "presence_typing", typing: true }));
+
+    expect(lastPresence(ada)).toEqual({
+      type: "presence",
+      viewers: [
+        { viewer_id: "v-ada", name: "Ada", typing: false },
+        { viewer_id: "v-bob", name: "Bob", typing: true },
+      ],
+      driver: null,
+      control_requests: [],
+    });
+    expect(lastPresence(ada).seq).toBeUndefined();
+
+    bridge.handleBrowserClose(ada);
+    expect(lastPresence(bob).viewers.map((v: { name: string }) => v.name)).toEqual(["Bob"]);
+  });
+
+  it("only lets the driver send prompts and answer permissions", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const ada = connect("v-ada", "Ada");
+    const bob = connect("v-bob", "Bob");
+
+    bridge.handleBrowserMessage(ada, JSON.stringify({ type: "driver_claim" }));
+    expect(lastPresence(bob).driver).toEqual({ viewer_id: "v-ada", name: "Ada" });
+    cli.send.mockClear();
+
+    bridge.handleBrowserMessage(bob, JSON.stringify({ type: "user_message", content: "hi", client_msg_id: "m1" }));
+    bridge.handleBrowserMessage(bob, JSON.stringify({ type: "permission_response", request_id: "r1", behavior: "allow" }));
+    expect(cli.send).not.toHaveBeenCalled();
+    expect(sent(bob)).toContainEqual({ type: "error", message: "Ada is driving this session. Ask them to hand off control." });
+
+    // Bob asks, Ada hands off, and Bob's retried message goes through.
+    bridge.handleBrowserMessage(bob, JSON.stringify({ type: "driver_claim" }));
+    expect(lastPresence(ada).control_requests).toEqual(["v-bob"]);
+    bridge.handleBrowserMessage(ada, JSON.stringify({ type: "driver_handoff", viewer_id: "v-bob" }));
+    expect(lastPresence(ada)).toEqual(expect.objectContaining({
+      driver: { viewer_id: "v-bob", name: "Bob" },
+      control_requests: [],
+    }));
+
+    bridge.handleBrowserMessage(bob, JSON.stringify({ type: "user_message", content: "hi", client_msg_id: "m1" }));
+    expect(cli.send).toHaveBeenCalled();
+  });
+
+  it("lets another viewer take over when the driver has left", () => {
+    const ada = connect("v-ada", "Ada");
+    const bob = connect("v-bob", "Bob");
+    bridge.handleBrowserMessage(ada, JSON.stringify({ type: "driver_claim" }));
+    bridge.handleBrowserClose(ada);
+
+    bridge.handleBrowserMessage(bob, JSON.stringify({ type: "driver_claim" }));
+    expect(lastPresence(bob).driver).toEqual({ viewer_id: "v-bob", name: "Bob" });
+
+    bridge.handleBrowserMessage(bob, JSON.stringify({ type: "driver_release" }));
+    expect(lastPresence(bob).driver).toBeNull();
+  });
+});
+
+describe("prompt queue", () => {
+  function sent(ws: { send: ReturnType<typeof vi.fn> }) {
+    return ws.send.mock.calls.map(([raw]) => JSON.parse(raw as string));
+  }
+
+  function lastQueue(ws: { send: ReturnType<typeof vi.fn> }) {
+    return sent(ws).filter((m) => m.type === "prompt_queue").at(-1).queue;
+  }
+
+  function userContents(cli: { send: ReturnType<typeof vi.fn> }) {
+    return cli.send.mock.calls
+      .map(([raw]) => JSON.parse(raw as string))
+      .filter((m) => m.type === "user")
+      .map((m) => m.message.content);
+  }
+
+  function result(isError = false) {
+    return JSON.stringify({
+      type: "result",
+      subtype: isError ? "error_during_execution" : "success",
+      is_error: isError,
+      duration_ms: 100,
+      duration_api_ms: 80,
+      num_turns: 1,
+      total_cost_usd: 0,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      uuid: "r",
+      session_id: "s1",
+    });
+  }
+
+  function setup() {
+    const cli = makeCliSocket("s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "first" }));
+    return { cli, browser };
+  }
+
+  it("holds prompts while a turn runs and sends the next one when it finishes", () => {
+    const { cli, browser } = setup();
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_add", content: "second" }));
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_add", content: "third" }));
+
+    expect(userContents(cli)).toEqual(["first"]);
+    expect(lastQueue(browser).prompts.map((p: { content: string }) => p.content)).toEqual(["second", "third"]);
+
+    bridge.handleCLIMessage(cli, result());
+    expect(userContents(cli)).toEqual(["first", "second"]);
+    expect(lastQueue(browser).prompts.map((p: { content: string }) => p.content)).toEqual(["third"]);
+    // Other viewers see the dispatched prompt in the feed
+    expect(sent(browser)).toContainEqual(expect.objectContaining({ type: "user_message", content: "second" }));
+
+    bridge.handleCLIMessage(cli, result());
+    expect(userContents(cli)).toEqual(["first", "second", "third"]);
+    expect(lastQueue(browser).prompts).toEqual([]);
+  });
+
+  it("edits, reorders and cancels queued prompts", () => {
+    const { cli, browser } = setup();
+    for (const content of ["a", "b", "c"]) {
+      bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_add", content }));
+    }
+    const [a, b, c] = lastQueue(browser).prompts;
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_move", id: c.id, index: 0 }));
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_edit", id: a.id, content: "a (edited)" }));
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_remove", id: b.id }));
+    expect(lastQueue(browser).prompts.map((p: { content: string }) => p.content)).toEqual(["c", "a (edited)"]);
+
+    bridge.handleCLIMessage(cli, result());
+    expect(userContents(cli).at(-1)).toBe("c");
+  });
+
+  it("pauses on an error result when asked to, and resumes on request", () => {
+    const { cli, browser } = setup();
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_settings", pause_on_error: true }));
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_add", content: "next" }));
+
+    bridge.handleCLIMessage(cli, result(true));
+    expect(userContents(cli)).toEqual(["first"]);
+    expect(lastQueue(browser)).toMatchObject({ paused: true, paused_reason: "Paused after an error result" });
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_settings", paused: false }));
+    expect(userContents(cli)).toEqual(["first", "next"]);
+    expect(lastQueue(browser)).toEqual({ prompts: [], paused: false, pause_on_error: true });
+  });
+
+  it("pauses when the user interrupts the turn", () => {
+    const { cli, browser } = setup();
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_add", content: "next" }));
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "interrupt" }));
+    bridge.handleCLIMessage(cli, result(true));
+
+    expect(userContents(cli)).toEqual(["first"]);
+    expect(lastQueue(browser).paused).toBe(true);
+  });
+
+  it("persists the queue and waits for the CLI after a restore", () => {
+    const saveSpy = vi.spyOn(store, "save");
+    const { browser } = setup();
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_add", content: "later" }));
+    store.saveSync(saveSpy.mock.calls.at(-1)![0]);
+
+    const restored = new WsBridge();
+    restored.setStore(new SessionStore(tempDir));
+    restored.restoreFromDisk();
+    expect(restored.getSession("s1")!.promptQueue.prompts.map((p) => p.content)).toEqual(["later"]);
+
+    const cli = makeCliSocket("s1");
+    restored.handleCLIOpen(cli, "s1");
+    expect(userContents(cli)).toEqual(["later"]);
+  });
+});
+
+describe("verification loop", () => {
+  function sent(ws: { send: ReturnType<typeof vi.fn> }) {
+    return ws.send.mock.calls.map(([raw]) => JSON.parse(raw as string));
+  }
+
+  function lastLoop(ws: { send: ReturnType<typeof vi.fn> }) {
+    return sent(ws).filter((m) => m.type === "verify_loop").at(-1).loop;
+  }
+
+  function userContents(cli: { send: ReturnType<typeof vi.fn> }) {
+    return cli.send.mock.calls
+      .map(([raw]) => JSON.parse(raw as string))
+      .filter((m) => m.type === "user")
+      .map((m) => m.message.content);
+  }
+
+  function result(totalCostUsd = 0) {
+    return JSON.stringify({
+      type: "result",
+      subtype: "success",
+      is_error: false,
+      duration_ms: 100,
+      duration_api_ms: 80,
+      num_turns: 1,
+      total_cost_usd: totalCostUsd,
+      stop_reason: "end_turn",
+      usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      uuid: "r",
+      session_id: "s1",
+    });
+  }
+
+  function run(exitCode: number, output: string) {
+    return { exitCode, output, timedOut: false, durationMs: 10 };
+  }
+
+  function setup(settings: Record<string, unknown>) {
+    const cli = makeCliSocket("s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "verify_settings", ...settings }));
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "fix it" }));
+    return { cli, browser };
+  }
+
+  beforeEach(() => {
+    mockRunShellCommand.mockReset();
+  });
+
+  it("sends failures back until the command passes, holding queued prompts meanwhile", async () => {
+    mockRunShellCommand
+      .mockResolvedValueOnce(run(1, "FAIL math.test.ts"))
+      .mockResolvedValueOnce(run(0, "all green"));
+    const { cli, browser } = setup({ command: "bun test", max_iterations: 3 });
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "queue_add", content: "then this" }));
+
+    bridge.handleCLIMessage(cli, result());
+    await vi.waitFor(() => expect(userContents(cli)).toHaveLength(2));
+    expect(mockRunShellCommand).toHaveBeenCalledWith("bun test", expect.objectContaining({ cwd: expect.any(String) }));
+    expect(userContents(cli)[1]).toContain("Verification `bun test` failed with exit code 1 (run 1 of 3)");
+    expect(userContents(cli)[1]).toContain("FAIL math.test.ts");
+    expect(lastLoop(browser)).toMatchObject({ follow_up_pending: true, running: false });
+
+    bridge.handleCLIMessage(cli, result());
+    await vi.waitFor(() => expect(lastLoop(browser).stopped_reason).toBe("Passed"));
+    expect(lastLoop(browser).iterations.map((i: { passed: boolean }) => i.passed)).toEqual([false, true]);
+    // The queue resumes once verification is done
+    expect(userContents(cli).at(-1)).toBe("then this");
+  });
+
+  it("gives up after max iterations", async () => {
+    mockRunShellCommand.mockResolvedValue(run(2, "still broken"));
+    const { cli, browser } = setup({ command: "make check", max_iterations: 1 });
+
+    bridge.handleCLIMessage(cli, result());
+    await vi.waitFor(() => expect(lastLoop(browser).stopped_reason).toBe("Still failing after 1 run"));
+    expect(userContents(cli)).toEqual(["fix it"]);
+  });
+
+  it("stops sending follow-ups once the loop budget is spent", async () => {
+    mockRunShellCommand.mockResolvedValue(run(1, "nope"));
+    const { cli, browser } = setup({ command: "bun test", max_cost_usd: 0.5 });
+
+    bridge.handleCLIMessage(cli, result(0.75));
+    await vi.waitFor(() => expect(lastLoop(browser).stopped_reason).toBe("Budget reached ($0.75 of $0.50)"));
+    expect(userContents(cli)).toEqual(["fix it"]);
+  });
+
+  it("keeps counting the loop budget after the CLI was relaunched", async () => {
+    mockRunShellCommand.mockResolvedValue(run(1, "nope"));
+    // The previous CLI process had reported $2; the relaunched one starts from zero.
+    bridge.getOrCreateSession("s1").state.total_cost_usd = 2;
+    const { cli, browser } = setup({ command: "bun test", max_cost_usd: 0.5 });
+
+    bridge.handleCLIMessage(cli, result(0.75));
+    await vi.waitFor(() => expect(lastLoop(browser).stopped_reason).toBe("Budget reached ($0.75 of $0.50)"));
+    expect(userContents(cli)).toEqual(["fix it"]);
+  });
+
+  it("starts a new loop when a person sends the next prompt", async () => {
+    mockRunShellCommand.mockResolvedValue(run(1, "nope"));
+    const { cli, browser } = setup({ command: "bun test", max_iterations: 1 });
+    bridge.handleCLIMessage(cli, result());
+    await vi.waitFor(() => expect(lastLoop(browser).stopped_reason).toBeDefined());
+
+    mockRunShellCommand.mockResolvedValue(run(0, "ok"));
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "try again" }));
+    bridge.handleCLIMessage(cli, result());
+    await vi.waitFor(() => expect(lastLoop(browser).stopped_reason).toBe("Passed"));
+    expect(lastLoop(browser).iterations).toHaveLength(1);
+  });
+});
+
+describe("idle suspend", () => {
+  it("waits for the next prompt before relaunching a suspended session", () => {
+    const relaunchCb = vi.fn();
+    bridge.onCLIRelaunchNeededCallback(relaunchCb);
+    bridge.getOrCreateSession("s1");
+    bridge.markSuspended("s1");
+
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    expect(relaunchCb).not.toHaveBeenCalled();
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "continue" }));
+
+    expect(relaunchCb).toHaveBeenCalledWith("s1");
+    expect(bridge.getSession("s1")!.suspended).toBe(false);
+    // The prompt waits for the relaunched CLI
+    expect(bridge.getSession("s1")!.pendingMessages).toHaveLength(1);
+  });
+
+  it("only reports sessions as idle between turns", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    expect(bridge.getIdleSince("s1")).toEqual(expect.any(Number));
+
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "hi" }));
+
+    expect(bridge.getIdleSince("s1")).toBeNull();
+    expect(bridge.getIdleSince("unknown")).toBeNull();
+  });
+});
+
+describe("stuck-session watchdog", () => {
+  function sent(socket: { send: { mock: { calls: unknown[][] } } }) {
+    return socket.send.mock.calls.map(([arg]) => JSON.parse(String(arg).trim()));
+  }
+
+  it("reports the running tool while a turn is in progress", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "run the suite" }));
+
+    bridge.handleCLIMessage(cli, JSON.stringify({
+      type: "tool_progress",
+      tool_use_id: "tu-1",
+      tool_name: "Bash",
+      parent_tool_use_id: null,
+      elapsed_time_seconds: 90,
+      uuid: "uuid-1",
+      session_id: "s1",
+    }));
+
+    expect(bridge.listLiveness()).toEqual([expect.objectContaining({
+      sessionId: "s1",
+      busy: true,
+      connected: true,
+      currentTool: { name: "Bash", elapsedSeconds: 90 },
+      stuck: false,
+    })]);
+  });
+
+  it("keeps a turn whose CLI disconnected mid-turn visible to the watchdog until it reconnects", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    bridge.handleBrowserMessage(browser, JSON.stringify({ type: "user_message", content: "run the suite" }));
+
+    bridge.handleCLIClose(cli);
+
+    const [liveness] = bridge.listLiveness();
+    expect(liveness).toEqual(expect.objectContaining({ busy: true, connected: false }));
+    expect(findStuckReason(liveness, 10, Date.now() + 11 * 60_000)).toBe("Backend disconnected mid-turn 11 minutes ago");
+
+    bridge.handleCLIOpen(makeCliSocket("s1"), "s1");
+    expect(bridge.listLiveness()[0].busy).toBe(false);
+  });
+
+  it("does not flag a CLI that disconnected between turns", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    bridge.handleCLIClose(cli);
+    expect(bridge.listLiveness()[0]).toEqual(expect.objectContaining({ busy: false, connected: false }));
+  });
+
+  it("flags, interrupts and records the intervention, then clears the flag", () => {
+    const cli = makeCliSocket("s1");
+    bridge.handleCLIOpen(cli, "s1");
+    const browser = makeBrowserSocket("s1");
+    bridge.handleBrowserOpen(browser, "s1");
+    cli.send.mockClear();
+    browser.send.mockClear();
+
+    bridge.markStuck("s1", "No events for 30 minutes", "interrupt");
+
+    expect(bridge.getSession("s1")!.state.stuck).toEqual(
+      expect.objectContaining({ reason: "No events for 30 minutes", action: "interrupt" }),
+    );
+    expect(sent(cli)).toContainEqual(expect.objectContaining({
+      type: "control_request",
+      request: { subtype: "interrupt" },
+    }));
+    expect(sent(browser)).toContainEqual(expect.objectContaining({
+      type: "system_event",
+      event: { subtype: "session_stuck", reason: "No events for 30 minutes", action: "interrupt" },
+    }));
+
+    browser.send.mockClear();
+    bridge.clearStuck("s1");
+
+    expect(bridge.getSession("s1")!.state.stuck).toBeNull();
+    expect(sent(browser)).toContainEqual({ type: "session_update", session: { stuck: null }, seq: expect.any(Number) });
+  });
+});
@@ -1,8 +1,10 @@
 import type { ServerWebSocket } from "bun";
+import { randomUUID } from "node:crypto";
 import type {
   CLIMessage,
   CLISystemMessage,
   CLIAssistantMessage,
+  CLIUserMessage,
   CLIResultMessage,
   CLIStreamEventMessage,
   CLIToolProgressMessage,
@@ -14,6 +16,9 @@ import type {
   SessionState,
   PermissionRequest,
   BackendType,
+  ThinkingLevel,
+  SessionStuck,
+  StuckAction,
 } from "./session-types.js";
 import type { SessionStore } from "./session-store.js";
 import type { CodexAdapter } from "./codex-adapter.js";
@@ -26,7 +31,7 @@ import type {
   BrowserSocketData,
   GitSessionKey,
 } from "./ws-bridge-types.js";
-import { makeDefaultState } from "./ws-bridge-types.js";
+import { deferMessageHistory, makeDefaultState, sessionSpendUsd } from "./ws-bridge-types.js";
 export type { SocketData } from "./ws-bridge-types.js";
 import {
   isDuplicateClientMessage,
@@ -45,11 +50,61 @@ import {
   handleMcpToggle,
   handleMcpReconnect,
   handleMcpSetServers,
+  handleRewindFiles,
+  truncateHistoryAtMessage,
+  findForkPoint,
+  historyUntilMessage,
+  handleSetMaxThinkingTokens,
 } from "./ws-bridge-controls.js";
+import {
+  isThinkingLevel,
+  normalizeThinkingTokens,
+  resolveMaxThinkingTokens,
+} from "./thinking-budget.js";
+import {
+  buildHookRegistration,
+  evaluateHookCallback,
+  toHookCallbackResponse,
+  type HookCallbackInput,
+  type HookPolicy,
+} from "./hook-policy.js";
+import { evaluateAutoApproval, type AutoApprovalRule } from "./auto-approval.js";
+import type { SessionNotifier } from "./notification-dispatcher.js";
+import { estimateUsageCostUsd, findExceededBudget, type CostBudgetPolicy } from "./cost-budgets.js";
+import { usageFromResult, type UsageRecorder } from "./usage-ledger.js";
+import type { SearchIndexer, SearchSessionMeta, SearchSource } from "./search-index.js";
+import type { SessionLiveness } from "./session-watchdog.js";
+import {
+  buildPresence,
+  driverLockError,
+  handlePresenceMessage,
+  isPresenceMessage,
+} from "./ws-bridge-presence.js";
+import {
+  applyQueueMessage,
+  buildPromptQueue,
+  isQueueMessage,
+  makePromptQueue,
+  pausePromptQueue,
+  restorePromptQueue,
+  takeNextPrompt,
+} from "./ws-bridge-queue.js";
+import {
+  applyVerifySettings,
+  beginVerifyRun,
+  buildVerifyLoop,
+  finishVerifyRun,
+  makeVerifyLoop,
+  noteVerifyPrompt,
+  restoreVerifyLoop,
+  runVerifyCommand,
+} from "./ws-bridge-verify.js";
 import {
   handleSessionSubscribe,
   handleSessionAck,
   handlePermissionResponse,
+  handleHistoryPage,
+  buildHistoryWindow,
 } from "./ws-bridge-browser.js";
 
 // ─── Bridge ───────────────────────────────────────────────────────────────────
@@ -67,13 +122,23 @@ export class WsBridge {
     "mcp_toggle",
     "mcp_reconnect",
     "mcp_set_servers",
+    "rewind_files",
+    "set_thinking_budget",
+    "queue_add",
   ]);
   private sessions = new Map<string, Session>();
   private store: SessionStore | null = null;
   private recorder: RecorderManager | null = null;
+  private hookPolicy: HookPolicy | null = null;
+  private autoApprovalRules: (() => AutoApprovalRule[]) | null = null;
+  private notifier: SessionNotifier | null = null;
+  private costBudgets: CostBudgetPolicy | null = null;
+  private usageRecorder: UsageRecorder | null = null;
+  private searchIndex: SearchIndexer | null = null;
   private onCLISessionId: ((sessionId: string, cliSessionId: string) => void) | null = null;
   private onCLIRelaunchNeeded: ((sessionId: string) => void) | null = null;
   private onFirstTurnCompleted: ((sessionId: string, firstUserMessage: string) => void) | null = null;
+  private onTurnCompleted: ((sessionId: string, result: CLIResultMessage) => void) | null = null;
   private autoNamingAttempted = new Set<string>();
   private userMsgCounter = 0;
   private onGitInfoReady: ((sessionId: string, cwd: string, branch: string) => void) | null = null;
@@ -101,6 +166,11 @@ export class WsBridge {
     this.onFirstTurnCompleted = cb;
   }
 
+  /** Register a callback for every turn result, from either backend. */
+  onTurnCompletedCallback(cb: (sessionId: string, result: CLIResultMessage) => void): void {
+    this.onTurnCompleted = cb;
+  }
+
   /** Register a callback for when git info is resolved and branch is known. */
   onSessionGitInfoReadyCallback(cb: (sessionId: string, cwd: string, branch: string) => void): void {
     this.onGitInfoReady = cb;
@@ -117,6 +187,19 @@ export class WsBridge {
     session.state.cwd = hostCwd;
   }
 
+  /**
+   * Set a session's thinking budget (e.g. from a cron job). Stored on the
+   * session state and sent to the backend, or queued until it connects.
+   */
+  setThinkingBudget(sessionId: string, level: ThinkingLevel, tokens?: number): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.error(`[ws-bridge] Cannot set thinking budget: session ${sessionId} not found`);
+      return;
+    }
+    this.routeBrowserMessage(session, { type: "set_thinking_budget", level, tokens });
+  }
+
   /** Push a message to all connected browsers for a session (public, for PRPoller etc.). */
   broadcastToSession(sessionId: string, msg: BrowserIncomingMessage): void {
     const session = this.sessions.get(sessionId);
@@ -134,10 +217,51 @@ export class WsBridge {
     this.recorder = recorder;
   }
 
-  /** Restore sessions from disk (call once at startup). */
+  /** Attach the hook rule engine. Claude sessions register its hooks on connect. */
+  setHookPolicy(policy: HookPolicy): void {
+    this.hookPolicy = policy;
+  }
+
+  /** Attach the auto-approval rule source consulted before permission requests reach the browser. */
+  setAutoApprovalRules(provider: () => AutoApprovalRule[]): void {
+    this.autoApprovalRules = provider;
+  }
+
+  /** Attach the push/webhook notifier told about permission requests and finished turns. */
+  setNotifier(notifier: SessionNotifier): void {
+    this.notifier = notifier;
+  }
+
+  /** Attach cost budgets: turn costs are recorded and sessions over budget are interrupted. */
+  setCostBudgets(policy: CostBudgetPolicy): void {
+    this.costBudgets = policy;
+  }
+
+  /** Attach the usage ledger that receives one entry per finished turn. */
+  setUsageRecorder(recorder: UsageRecorder): void {
+    this.usageRecorder = recorder;
+  }
+
+  /** Attach the full-text search index, kept current as messages arrive. */
+  setSearchIndex(indexer: SearchIndexer): void {
+    this.searchIndex = indexer;
+  }
+
+  /** Re-evaluate budgets for every session, e.g. after a limit was raised or lowered. */
+  refreshBudgets(): void {
+    for (const session of this.sessions.values()) {
+      this.applyBudgets(session);
+    }
+  }
+
+  /**
+   * Restore sessions from disk (call once at startup). Only metadata is read
+   * here; each message log is loaded the first time its history is touched.
+   */
   restoreFromDisk(): number {
     if (!this.store) return 0;
-    const persisted = this.store.loadAll();
+    const store = this.store;
+    const persisted = store.loadAllMeta();
     let count = 0;
     for (const p of persisted) {
       if (this.sessions.has(p.id)) continue; // don't overwrite live sessions
@@ -150,7 +274,7 @@ export class WsBridge {
         state: p.state,
         pendingPermissions: new Map(p.pendingPermissions || []),
         pendingControlRequests: new Map(),
-        messageHistory: p.messageHistory || [],
+        messageHistory: [],
         pendingMessages: p.pendingMessages || [],
         nextEventSeq: p.nextEventSeq && p.nextEventSeq > 0 ? p.nextEventSeq : 1,
         eventBuffer: Array.isArray(p.eventBuffer) ? p.eventBuffer : [],
@@ -159,8 +283,21 @@ export class WsBridge {
         processedClientMessageIdSet: new Set(
           Array.isArray(p.processedClientMessageIds) ? p.processedClientMessageIds : [],
         ),
+        driver: null,
+        controlRequests: [],
+        promptQueue: restorePromptQueue(p.promptQueue),
+        turnInProgress: false,
+        verifyLoop: restoreVerifyLoop(p.verifyLoop),
+        lastActivityAt: Date.now(),
+        currentTool: null,
+        turnCostEstimates: new Map(),
+        disconnectedMidTurnAt: null,
+        suspended: false,
       };
       session.state.backend_type = session.backendType;
+      // No turn survives a restart, so neither does a stuck flag
+      delete session.state.stuck;
+      deferMessageHistory(session, () => store.loadMessages(p.id));
       // Resolve git info for restored sessions (may have been persisted without it)
       resolveSessionGitInfo(session.id, session.state);
       this.sessions.set(p.id, session);
@@ -189,6 +326,8 @@ export class WsBridge {
       nextEventSeq: session.nextEventSeq,
       lastAckSeq: session.lastAckSeq,
       processedClientMessageIds: session.processedClientMessageIds,
+      promptQueue: session.promptQueue,
+      verifyLoop: session.verifyLoop,
     });
   }
 
@@ -259,6 +398,16 @@ export class WsBridge {
         lastAckSeq: 0,
         processedClientMessageIds: [],
         processedClientMessageIdSet: new Set(),
+        driver: null,
+        controlRequests: [],
+        promptQueue: makePromptQueue(),
+        turnInProgress: false,
+        verifyLoop: makeVerifyLoop(),
+        lastActivityAt: Date.now(),
+        currentTool: null,
+        turnCostEstimates: new Map(),
+        disconnectedMidTurnAt: null,
+        suspended: false,
       };
       this.sessions.set(sessionId, session);
     } else if (backendType) {
@@ -274,6 +423,31 @@ export class WsBridge {
     return this.sessions.get(sessionId);
   }
 
+  /** CLI message uuid to fork the session at, or null when the message has none. */
+  getForkPoint(sessionId: string, messageId: string): string | null {
+    const session = this.sessions.get(sessionId);
+    return session ? findForkPoint(session, messageId) : null;
+  }
+
+  /** Start a forked session's chat with the parent's history up to the fork point. */
+  seedForkedSession(sessionId: string, parentId: string, messageId: string): void {
+    const parent = this.sessions.get(parentId);
+    if (!parent) return;
+    const session = this.getOrCreateSession(sessionId, "claude");
+    session.messageHistory = historyUntilMessage(parent, messageId);
+    this.persistSession(session);
+    this.searchIndex?.indexSession(sessionId, this.searchMeta(session), session.messageHistory);
+  }
+
+  /** Every session's history, for building the search index. */
+  getSearchSources(): SearchSource[] {
+    return Array.from(this.sessions.values()).map((s) => ({
+      sessionId: s.id,
+      meta: this.searchMeta(s),
+      history: s.messageHistory,
+    }));
+  }
+
   getAllSessions(): SessionState[] {
     return Array.from(this.sessions.values()).map((s) => s.state);
   }
@@ -292,6 +466,76 @@ export class WsBridge {
     return !!session.cliSocket;
   }
 
+  /** When a session went quiet, or null while it is busy (turn, permission prompt or verification). */
+  getIdleSince(sessionId: string): number | null {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.turnInProgress || session.verifyLoop.running) return null;
+    if (session.pendingPermissions.size > 0) return null;
+    return session.lastActivityAt;
+  }
+
+  /** The backend is about to be stopped for idling; don't relaunch it until the next prompt. */
+  markSuspended(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) session.suspended = true;
+  }
+
+  /** Liveness of every session, for the stuck-session watchdog. */
+  listLiveness(): SessionLiveness[] {
+    return [...this.sessions.values()].map((session) => ({
+      sessionId: session.id,
+      // A turn waiting on a permission prompt is waiting on a person, not stuck.
+      // A turn whose backend dropped never finishes on its own.
+      busy: (session.turnInProgress && session.pendingPermissions.size === 0) || session.disconnectedMidTurnAt !== null,
+      connected: this.isCliConnected(session.id),
+      lastEventAt: session.disconnectedMidTurnAt ?? session.lastActivityAt,
+      currentTool: session.currentTool,
+      stuck: !!session.state.stuck,
+    }));
+  }
+
+  /**
+   * Flag a session as stuck, record it in the feed and interrupt or notify as
+   * `action` says. Relaunching is left to the caller, which owns the launcher.
+   */
+  markStuck(sessionId: string, reason: string, action: StuckAction): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.setStuck(session, { reason, since: Date.now(), action });
+    this.forwardSystemEvent(session, { subtype: "session_stuck", reason, action });
+    if (action === "interrupt" && (session.cliSocket || session.codexAdapter)) {
+      this.routeBrowserMessage(session, { type: "interrupt" });
+    } else if (action === "notify") {
+      this.notifier?.sessionStuck(session.id, reason);
+    }
+    console.log(`[ws-bridge] Session ${session.id} looks stuck (${reason}), action: ${action}`);
+  }
+
+  /** Interrupt the running turn. Returns false when no backend is connected. */
+  interruptSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || (!session.cliSocket && !session.codexAdapter)) return false;
+    this.routeBrowserMessage(session, { type: "interrupt" });
+    return true;
+  }
+
+  clearStuck(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session?.state.stuck) this.setStuck(session, null);
+  }
+
+  private setStuck(session: Session, stuck: SessionStuck | null): void {
+    session.state.stuck = stuck;
+    this.broadcastToBrowsers(session, { type: "session_update", session: { stuck } });
+    this.persistSession(session);
+  }
+
+  private resumeSuspended(session: Session): void {
+    session.suspended = false;
+    console.log(`[ws-bridge] Resuming suspended session ${session.id}`);
+    this.onCLIRelaunchNeeded?.(session.id);
+  }
+
   removeSession(sessionId: string) {
     this.sessions.delete(sessionId);
     this.autoNamingAttempted.delete(sessionId);
@@ -326,6 +570,7 @@ export class WsBridge {
     this.sessions.delete(sessionId);
     this.autoNamingAttempted.delete(sessionId);
     this.store?.remove(sessionId);
+    this.searchIndex?.removeSession(sessionId);
   }
 
   // ── Codex adapter attachment ────────────────────────────────────────────
@@ -340,6 +585,8 @@ export class WsBridge {
     session.backendType = "codex";
     session.state.backend_type = "codex";
     session.codexAdapter = adapter;
+    session.suspended = false;
+    session.disconnectedMidTurnAt = null;
     attachCodexAdapterHandlers(sessionId, session, adapter, {
       persistSession: this.persistSession.bind(this),
       refreshGitInfo: this.refreshGitInfo.bind(this),
@@ -347,7 +594,13 @@ export class WsBridge {
       onCLISessionId: this.onCLISessionId,
       onFirstTurnCompleted: this.onFirstTurnCompleted,
       autoNamingAttempted: this.autoNamingAttempted,
+      autoApprove: this.tryAutoApprove.bind(this),
+      getNotifier: () => this.notifier,
+      recordUsage: (s, result) => this.recordUsage(s, result, 0),
+      indexMessage: this.indexMessage.bind(this),
+      onTurnEnded: this.handleTurnEnded.bind(this),
     });
+    this.dispatchQueuedPrompt(session);
   }
 
   // ── CLI WebSocket handlers ──────────────────────────────────────────────
@@ -355,9 +608,29 @@ export class WsBridge {
   handleCLIOpen(ws: ServerWebSocket<SocketData>, sessionId: string) {
     const session = this.getOrCreateSession(sessionId);
     session.cliSocket = ws;
+    session.suspended = false;
+    session.disconnectedMidTurnAt = null;
     console.log(`[ws-bridge] CLI connected for session ${sessionId}`);
     this.broadcastToBrowsers(session, { type: "cli_connected" });
 
+    // Hooks must be registered via `initialize` before the first user message.
+    if (this.hookPolicy) {
+      sendControlRequest(session, { subtype: "initialize", hooks: buildHookRegistration() }, this.sendToCLI.bind(this), {
+        subtype: "initialize",
+        resolve: () => {},
+      });
+    }
+
+    // A relaunched CLI starts with its default budget; restore the session's
+    // choice before any queued turn runs.
+    if (session.state.thinking_level) {
+      handleSetMaxThinkingTokens(
+        session,
+        resolveMaxThinkingTokens(session.state.thinking_level, session.state.thinking_tokens),
+        this.sendToCLI.bind(this),
+      );
+    }
+
     // Flush any messages queued while waiting for the CLI WebSocket.
     // Per the SDK protocol, the first user message triggers system.init,
     // so we must send it as soon as the WebSocket is open — NOT wait for
@@ -370,6 +643,7 @@ export class WsBridge {
         this.sendToCLI(session, ndjson);
       }
     }
+    this.dispatchQueuedPrompt(session);
   }
 
   handleCLIMessage(ws: ServerWebSocket<SocketData>, raw: string | Buffer) {
@@ -401,6 +675,10 @@ export class WsBridge {
     if (!session) return;
 
     session.cliSocket = null;
+    if (session.turnInProgress) session.disconnectedMidTurnAt = Date.now();
+    session.turnInProgress = false;
+    session.turnCostEstimates.clear();
+    session.currentTool = null;
     console.log(`[ws-bridge] CLI disconnected for session ${sessionId}`);
     this.broadcastToBrowsers(session, { type: "cli_disconnected" });
 
@@ -431,12 +709,10 @@ export class WsBridge {
     };
     this.sendToBrowser(ws, snapshot);
 
-    // Replay message history so the browser can reconstruct the conversation
+    // Replay recent history so the browser can reconstruct the conversation;
+    // older messages are fetched with history_page as the user scrolls up.
     if (session.messageHistory.length > 0) {
-      this.sendToBrowser(ws, {
-        type: "message_history",
-        messages: session.messageHistory,
-      });
+      this.sendToBrowser(ws, buildHistoryWindow(session));
     }
 
     // Send any pending permission requests
@@ -444,6 +720,11 @@ export class WsBridge {
       this.sendToBrowser(ws, { type: "permission_request", request: perm });
     }
 
+    // Who else is here; this socket joins the list once it sends presence_hello.
+    this.sendToBrowser(ws, buildPresence(session));
+    this.sendToBrowser(ws, buildPromptQueue(session));
+    this.sendToBrowser(ws, buildVerifyLoop(session));
+
     // Notify if backend is not connected and request relaunch
     const backendConnected = session.backendType === "codex"
       // Treat an attached adapter as "alive" during init.
@@ -454,7 +735,8 @@ export class WsBridge {
 
     if (!backendConnected) {
       this.sendToBrowser(ws, { type: "cli_disconnected" });
-      if (this.onCLIRelaunchNeeded) {
+      // Suspended sessions wait for their next prompt instead.
+      if (this.onCLIRelaunchNeeded && !session.suspended) {
         console.log(`[ws-bridge] Browser connected but backend is dead for session ${sessionId}, requesting relaunch`);
         this.onCLIRelaunchNeeded(sessionId);
       }
@@ -499,11 +781,18 @@ export class WsBridge {
 
     session.browserSockets.delete(ws);
     console.log(`[ws-bridge] Browser disconnected for session ${sessionId} (${session.browserSockets.size} browsers)`);
+    if ((ws.data as BrowserSocketData).viewerId) this.broadcastPresence(session);
   }
 
   // ── CLI message routing ─────────────────────────────────────────────────
 
   private routeCLIMessage(session: Session, msg: CLIMessage) {
+    if (msg.type !== "keep_alive") {
+      session.lastActivityAt = Date.now();
+      session.currentTool = msg.type === "tool_progress"
+        ? { name: msg.tool_name, elapsedSeconds: msg.elapsed_time_seconds }
+        : null;
+    }
     switch (msg.type) {
       case "system":
         this.handleSystemMessage(session, msg);
@@ -513,6 +802,10 @@ export class WsBridge {
         this.handleAssistantMessage(session, msg);
         break;
 
+      case "user":
+        this.handleCLIUserMessage(session, msg);
+        break;
+
       case "result":
         this.handleResultMessage(session, msg);
         break;
@@ -718,14 +1011,36 @@ export class WsBridge {
       message: msg.message,
       parent_tool_use_id: msg.parent_tool_use_id,
       timestamp: Date.now(),
+      // Kept so the conversation can be forked at this message later.
+      uuid: msg.uuid,
     };
     session.messageHistory.push(browserMsg);
     this.broadcastToBrowsers(session, browserMsg);
     this.persistSession(session);
+    this.indexMessage(session, browserMsg);
+
+    // Cost is only reported with the result; estimate it from the streamed
+    // usage so a budget can stop the turn that crosses it.
+    if (this.costBudgets && session.turnInProgress && msg.message.usage) {
+      const model = msg.message.model || session.state.model;
+      session.turnCostEstimates.set(msg.message.id, estimateUsageCostUsd(model, msg.message.usage));
+      this.applyBudgets(session, { midTurn: true });
+    }
+  }
+
+  /** Tool results are not shown in the chat, but they are searchable. */
+  private handleCLIUserMessage(session: Session, msg: CLIUserMessage) {
+    if (!this.searchIndex || typeof msg.message.content === "string") return;
+    this.searchIndex.addToolResults(session.id, this.searchMeta(session), session.messageHistory, msg.message.content);
   }
 
   private handleResultMessage(session: Session, msg: CLIResultMessage) {
-    // Update session cost/turns
+    // Update session cost/turns. A relaunched CLI reports cost from zero again,
+    // so the session's own spend is summed from per-turn deltas.
+    const previousCost = session.state.total_cost_usd;
+    const delta = msg.total_cost_usd >= previousCost ? msg.total_cost_usd - previousCost : msg.total_cost_usd;
+    session.state.lifetime_cost_usd = sessionSpendUsd(session.state) + delta;
+    session.turnCostEstimates.clear();
     session.state.total_cost_usd = msg.total_cost_usd;
     session.state.num_turns = msg.num_turns;
 
@@ -759,6 +1074,13 @@ export class WsBridge {
     session.messageHistory.push(browserMsg);
     this.broadcastToBrowsers(session, browserMsg);
     this.persistSession(session);
+    this.notifier?.turnCompleted(session.id, msg);
+
+    // Record spend before the queue moves on so its budget check sees this turn.
+    this.recordUsage(session, msg, delta);
+    this.costBudgets?.recordSpend(session.state.repo_root || session.state.cwd || undefined, delta);
+    this.handleTurnEnded(session, msg);
+    if (this.costBudgets) this.refreshBudgets();
 
     // Trigger auto-naming after the first successful result for this session.
     // Note: num_turns counts all internal tool-use turns, so it's typically > 1
@@ -798,6 +1120,7 @@ export class WsBridge {
         agent_id: msg.request.agent_id,
         timestamp: Date.now(),
       };
+      if (this.tryAutoApprove(session, perm)) return;
       session.pendingPermissions.set(msg.request_id, perm);
 
       this.broadcastToBrowsers(session, {
@@ -805,7 +1128,201 @@ export class WsBridge {
         request: perm,
       });
       this.persistSession(session);
+      this.notifier?.permissionRequested(session.id, perm);
+    } else if (msg.request.subtype === "hook_callback") {
+      this.handleHookCallback(session, msg.request_id, msg.request.callback_id, msg.request.input);
+    }
+  }
+
+  /**
+   * Answer a permission request from auto-approval rules without waiting for a
+   * browser. Records the decision in the feed. Returns false when no rule applies.
+   */
+  private tryAutoApprove(session: Session, perm: PermissionRequest): boolean {
+    if (!this.autoApprovalRules) return false;
+    const decision = evaluateAutoApproval(this.autoApprovalRules(), perm.tool_name, perm.input, {
+      sessionId: session.id,
+      cwd: session.state.cwd,
+      repoRoot: session.state.repo_root || undefined,
+    });
+    if (!decision) return false;
+
+    const { rule, subject } = decision;
+    this.forwardSystemEvent(session, {
+      subtype: "auto_approval",
+      request_id: perm.request_id,
+      tool_name: perm.tool_name,
+      behavior: rule.behavior,
+      rule_id: rule.id,
+      scope: rule.scope,
+      description: rule.description,
+      subject: subject?.slice(0, 300),
+    });
+    this.routeBrowserMessage(session, rule.behavior === "allow"
+      ? { type: "permission_response", request_id: perm.request_id, behavior: "allow", updated_input: perm.input }
+      : {
+        type: "permission_response",
+        request_id: perm.request_id,
+        behavior: "deny",
+        message: rule.description ? `Denied by Companion rule: ${rule.description}` : "Denied by Companion auto-approval rule",
+      });
+    return true;
+  }
+
+  /** The pending permission request with this ID, in whichever session holds it. */
+  findPendingPermission(requestId: string): { sessionId: string; request: PermissionRequest } | null {
+    for (const session of this.sessions.values()) {
+      const request = session.pendingPermissions.get(requestId);
+      if (request) return { sessionId: session.id, request };
+    }
+    return null;
+  }
+
+  /**
+   * Answer a pending permission from outside the browser (signed notification
+   * link). Records who answered in the feed and clears the prompt in open
+   * browsers. Returns null when the request is no longer pending.
+   */
+  answerPermissionRemotely(
+    requestId: string,
+    behavior: "allow" | "deny",
+    source: { via: string; actor: string },
+  ): { sessionId: string; request: PermissionRequest } | null {
+    const found = this.findPendingPermission(requestId);
+    if (!found) return null;
+    const session = this.sessions.get(found.sessionId)!;
+    const { request } = found;
+
+    this.routeBrowserMessage(session, behavior === "allow"
+      ? { type: "permission_response", request_id: requestId, behavior: "allow", updated_input: request.input }
+      : {
+        type: "permission_response",
+        request_id: requestId,
+        behavior: "deny",
+        message: `Denied from a ${source.via} notification`,
+      });
+    this.broadcastToBrowsers(session, { type: "permission_cancelled", request_id: requestId });
+    this.forwardSystemEvent(session, {
+      subtype: "remote_permission_decision",
+      request_id: requestId,
+      tool_name: request.tool_name,
+      behavior,
+      via: source.via,
+      actor: source.actor,
+    });
+    console.log(`[ws-bridge] Permission ${requestId} (${request.tool_name}) ${behavior === "allow" ? "allowed" : "denied"} via ${source.via} by ${source.actor}`);
+    return found;
+  }
+
+  /** Append a finished turn to the usage ledger; `costUsd` is this turn's share. */
+  private recordUsage(
+    session: Session,
+    result: Pick<CLIResultMessage, "usage" | "duration_ms" | "is_error" | "modelUsage">,
+    costUsd: number,
+  ): void {
+    if (!this.usageRecorder) return;
+    this.usageRecorder.record({
+      sessionId: session.id,
+      backendType: session.backendType,
+      model: session.state.model || Object.keys(result.modelUsage ?? {})[0] || "",
+      repoRoot: session.state.repo_root || session.state.cwd || "",
+      costUsd,
+      ...usageFromResult(result),
+    });
+  }
+
+  private searchMeta(session: Session): SearchSessionMeta {
+    return { repoRoot: session.state.repo_root || session.state.cwd || "", backendType: session.backendType };
+  }
+
+  private indexMessage(session: Session, entry: BrowserIncomingMessage): void {
+    this.searchIndex?.addMessage(session.id, this.searchMeta(session), entry);
+  }
+
+  /**
+   * Update a session's budget usage; interrupt it when a budget was just used up.
+   * `midTurn` checks come from streamed usage: they only act once the running
+   * turn's estimate crosses a limit, and leave the shown spend to the result.
+   */
+  private applyBudgets(session: Session, { midTurn = false }: { midTurn?: boolean } = {}) {
+    if (!this.costBudgets) return;
+    let inFlightUsd = 0;
+    for (const usd of session.turnCostEstimates.values()) inFlightUsd += usd;
+    const budgets = this.costBudgets.evaluate({
+      sessionId: session.id,
+      costUsd: sessionSpendUsd(session.state),
+      repoRoot: session.state.repo_root || session.state.cwd || undefined,
+      inFlightUsd,
+    });
+    const previous = session.state.budgets ?? [];
+    if (JSON.stringify(previous) === JSON.stringify(budgets)) return;
+    const wasExceeded = findExceededBudget(previous) !== null;
+    if (midTurn && (wasExceeded || !findExceededBudget(budgets))) return;
+    session.state.budgets = budgets;
+    this.broadcastToBrowsers(session, { type: "session_update", session: { budgets } });
+    this.persistSession(session);
+
+    const exceeded = findExceededBudget(budgets);
+    if (!exceeded || wasExceeded) return;
+    // Crossed mid-turn: stop the turn. Crossed by a result: the turn is over
+    // and the budget blocks the next one.
+    const interrupted = session.turnInProgress && !!(session.cliSocket || session.codexAdapter);
+    if (interrupted) {
+      this.routeBrowserMessage(session, { type: "interrupt" });
     }
+    this.forwardSystemEvent(session, {
+      subtype: "budget_exceeded",
+      scope: exceeded.scope,
+      label: exceeded.label,
+      limit_usd: exceeded.limit_usd,
+      spent_usd: exceeded.spent_usd,
+      interrupted,
+    });
+    console.log(`[ws-bridge] Session ${session.id} reached its ${exceeded.scope} budget ($${exceeded.spent_usd.toFixed(2)} of $${exceeded.limit_usd.toFixed(2)}), ${interrupted ? "interrupted" : "new turns blocked"}`);
+  }
+
+  /** Answer a `hook_callback` from the attached rules, auditing any rule that fired. */
+  private handleHookCallback(
+    session: Session,
+    requestId: string,
+    callbackId: string,
+    input: HookCallbackInput,
+  ) {
+    const evaluation = this.hookPolicy
+      ? evaluateHookCallback(this.hookPolicy.listRules(), callbackId, input, session.state.cwd)
+      : null;
+
+    this.sendToCLI(session, JSON.stringify({
+      type: "control_response",
+      response: {
+        subtype: "success",
+        request_id: requestId,
+        response: toHookCallbackResponse(evaluation),
+      },
+    }));
+
+    const rule = evaluation?.rule;
+    if (!evaluation || !rule) return;
+    this.hookPolicy?.recordDecision({
+      timestamp: Date.now(),
+      sessionId: session.id,
+      event: evaluation.event,
+      toolName: evaluation.toolName,
+      subject: evaluation.subject,
+      decision: rule.decision,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      reason: rule.reason,
+    });
+    this.forwardSystemEvent(session, {
+      subtype: "hook_decision",
+      hook_event: evaluation.event,
+      tool_name: evaluation.toolName,
+      decision: rule.decision,
+      rule_id: rule.id,
+      rule_name: rule.name,
+      reason: rule.reason,
+    });
   }
 
   private handleToolProgress(session: Session, msg: CLIToolProgressMessage) {
@@ -857,6 +1374,30 @@ export class WsBridge {
       return;
     }
 
+    if (msg.type === "history_page") {
+      handleHistoryPage(session, ws, msg.before, this.sendToBrowser.bind(this));
+      return;
+    }
+
+    if (isPresenceMessage(msg)) {
+      if (handlePresenceMessage(session, ws, msg)) this.broadcastPresence(session);
+      return;
+    }
+
+    // Checked before dedup so a blocked message can be retried after a hand-off.
+    if (
+      msg.type === "user_message"
+      || msg.type === "permission_response"
+      || msg.type === "verify_settings"
+      || isQueueMessage(msg)
+    ) {
+      const lockError = driverLockError(session, ws);
+      if (lockError) {
+        if (ws) this.sendToBrowser(ws, { type: "error", message: lockError });
+        return;
+      }
+    }
+
     if (
       WsBridge.IDEMPOTENT_BROWSER_MESSAGE_TYPES.has(msg.type)
       && "client_msg_id" in msg
@@ -873,18 +1414,79 @@ export class WsBridge {
       );
     }
 
+    if (msg.type === "user_message" && this.costBudgets) {
+      // Re-evaluate first: the day may have rolled over or a cron budget been raised.
+      this.applyBudgets(session);
+      const exceeded = findExceededBudget(session.state.budgets);
+      if (exceeded) {
+        this.broadcastToBrowsers(session, {
+          type: "error",
+          message: `Budget reached (${exceeded.label}: $${exceeded.spent_usd.toFixed(2)} of $${exceeded.limit_usd.toFixed(2)}). Raise it to continue.`,
+        });
+        return;
+      }
+    }
+
+    if (isQueueMessage(msg)) {
+      const { changed, error } = applyQueueMessage(session, msg);
+      if (error && ws) this.sendToBrowser(ws, { type: "error", message: error });
+      if (changed) {
+        this.persistSession(session);
+        this.broadcastPromptQueue(session);
+        this.dispatchQueuedPrompt(session);
+      }
+      return;
+    }
+
+    if (msg.type === "verify_settings") {
+      const { changed, error } = applyVerifySettings(session, msg);
+      if (error && ws) this.sendToBrowser(ws, { type: "error", message: error });
+      if (changed) {
+        this.persistSession(session);
+        this.broadcastVerifyLoop(session);
+      }
+      return;
+    }
+
+    if (msg.type === "user_message") {
+      session.turnInProgress = true;
+      session.turnCostEstimates.clear();
+      session.disconnectedMidTurnAt = null;
+      session.lastActivityAt = Date.now();
+      noteVerifyPrompt(session);
+      if (session.suspended) this.resumeSuspended(session);
+    } else if (msg.type === "interrupt" && pausePromptQueue(session, "Paused after an interrupt")) {
+      // Stopping a turn shouldn't immediately start the next queued prompt.
+      this.persistSession(session);
+      this.broadcastPromptQueue(session);
+    }
+
+    if (msg.type === "set_thinking_budget") {
+      if (!isThinkingLevel(msg.level)) return;
+      const tokens = msg.level === "custom" ? normalizeThinkingTokens(msg.tokens) : undefined;
+      session.state.thinking_level = msg.level;
+      session.state.thinking_tokens = tokens;
+      this.persistSession(session);
+      this.broadcastToBrowsers(session, {
+        type: "session_update",
+        session: { thinking_level: msg.level, thinking_tokens: tokens },
+      });
+    }
+
     // For Codex sessions, delegate entirely to the adapter
     if (session.backendType === "codex") {
       // Store user messages in history for replay with stable ID for dedup on reconnect
       if (msg.type === "user_message") {
         const ts = Date.now();
-        session.messageHistory.push({
+        const entry: BrowserIncomingMessage = {
           type: "user_message",
           content: msg.content,
           timestamp: ts,
-          id: `user-${ts}-${this.userMsgCounter++}`,
-        });
+          id: msg.id || `user-${ts}-${this.userMsgCounter++}`,
+        };
+        session.messageHistory.push(entry);
         this.persistSession(session);
+        this.indexMessage(session, entry);
       }
       if (msg.type === "permission_response") {
         session.pendingPermissions.delete(msg.request_id);
@@ -972,21 +1574,67 @@ export class WsBridge {
             ),
         );
         break;
+
+      case "rewind_files":
+        this.handleRewindFilesRequest(session, msg.message_id, msg.dry_run ?? false, ws);
+        break;
+
+      case "set_thinking_budget":
+        handleSetMaxThinkingTokens(
+          session,
+          resolveMaxThinkingTokens(msg.level, session.state.thinking_tokens),
+          this.sendToCLI.bind(this),
+        );
+        break;
     }
   }
 
+  private handleRewindFilesRequest(
+    session: Session,
+    messageId: string,
+    dryRun: boolean,
+    ws?: ServerWebSocket<SocketData>,
+  ) {
+    handleRewindFiles(
+      session,
+      messageId,
+      dryRun,
+      (request, onResponse) => sendControlRequest(session, request, this.sendToCLI.bind(this), onResponse),
+      (result) => {
+        const msg: BrowserIncomingMessage = { type: "rewind_result", message_id: messageId, dry_run: dryRun, ...result };
+        // Previews only concern the browser that asked; a real rewind changes
+        // the conversation for every viewer.
+        if (dryRun && ws) {
+          this.sendToBrowser(ws, msg);
+          return;
+        }
+        if (!dryRun && result.can_rewind && !result.error) {
+          truncateHistoryAtMessage(session, messageId);
+          this.persistSession(session);
+          this.searchIndex?.indexSession(session.id, this.searchMeta(session), session.messageHistory);
+        }
+        this.broadcastToBrowsers(session, msg);
+      },
+    );
+  }
+
   private handleUserMessage(
     session: Session,
-    msg: { type: "user_message"; content: string; session_id?: string; images?: { media_type: string; data: string }[] }
+    msg: { type: "user_message"; content: string; session_id?: string; images?: { media_type: string; data: string }[]; id?: string }
   ) {
-    // Store user message in history for replay with stable ID for dedup on reconnect
+    // Store user message in history for replay with stable ID for dedup on reconnect.
+    // The uuid is handed to the CLI so its file checkpoint can be rewound later.
     const ts = Date.now();
-    session.messageHistory.push({
+    const uuid = randomUUID();
+    const entry: BrowserIncomingMessage = {
       type: "user_message",
       content: msg.content,
       timestamp: ts,
-      id: `user-${ts}-${this.userMsgCounter++}`,
-    });
+      id: msg.id || `user-${ts}-${this.userMsgCounter++}`,
+      uuid,
+    };
+    session.messageHistory.push(entry);
+    this.indexMessage(session, entry);
 
     // Build content: if images are present, use content block array; otherwise plain string
     let content: string | unknown[];
@@ -1009,11 +1657,92 @@ export class WsBridge {
       message: { role: "user", content },
       parent_tool_use_id: null,
       session_id: msg.session_id || session.state.session_id || "",
+      uuid,
     });
     this.sendToCLI(session, ndjson);
     this.persistSession(session);
   }
 
+  // ── Prompt queue ────────────────────────────────────────────────────────
+
+  private handleTurnEnded(session: Session, result: CLIResultMessage) {
+    session.turnInProgress = false;
+    session.lastActivityAt = Date.now();
+    this.onTurnCompleted?.(session.id, result);
+    // Interrupted or failed turns aren't verified; the queue waits for a verification run.
+    if (!result.is_error && beginVerifyRun(session)) {
+      this.persistSession(session);
+      this.broadcastVerifyLoop(session);
+      void this.runVerification(session);
+      return;
+    }
+    this.continueAfterTurn(session, result);
+  }
+
+  private continueAfterTurn(session: Session, result: Pick<CLIResultMessage, "is_error">) {
+    if (result.is_error && session.promptQueue.pause_on_error && pausePromptQueue(session, "Paused after an error result")) {
+      this.persistSession(session);
+      this.broadcastPromptQueue(session);
+      return;
+    }
+    this.dispatchQueuedPrompt(session);
+  }
+
+  // ── Verification loop ───────────────────────────────────────────────────
+
+  private async runVerification(session: Session) {
+    const result = await runVerifyCommand(session);
+    // The session may have been closed while the command ran.
+    if (this.sessions.get(session.id) !== session) return;
+    let report = finishVerifyRun(session, result);
+    const last = session.verifyLoop.iterations[session.verifyLoop.iterations.length - 1];
+    if (report && session.turnInProgress) {
+      // Someone sent a prompt while the command ran; its result starts a new loop.
+      session.verifyLoop = { ...session.verifyLoop, follow_up_pending: false, stopped_reason: "Superseded by a new prompt" };
+      report = null;
+    }
+    console.log(`[ws-bridge] Verification run ${last.iteration} for session ${session.id}: ${last.passed ? "passed" : `failed (exit ${last.exit_code})`}`);
+    this.persistSession(session);
+    this.broadcastVerifyLoop(session);
+    if (!report) {
+      this.continueAfterTurn(session, { is_error: false });
+      return;
+    }
+    const id = `verify-${Date.now()}-${last.iteration}`;
+    this.routeBrowserMessage(session, { type: "user_message", content: report, id });
+    this.broadcastToBrowsers(session, { type: "user_message", content: report, timestamp: Date.now(), id });
+  }
+
+  /** Send the head of the queue once the backend is connected and idle. */
+  private dispatchQueuedPrompt(session: Session) {
+    const queue = session.promptQueue;
+    if (session.turnInProgress || queue.paused || queue.prompts.length === 0) return;
+    const connected = session.backendType === "codex" ? !!session.codexAdapter : !!session.cliSocket;
+    if (!connected) return;
+
+    // Keep the prompt queued rather than letting the budget check drop it.
+    if (this.costBudgets) {
+      this.applyBudgets(session);
+      const exceeded = findExceededBudget(session.state.budgets);
+      if (exceeded) {
+        if (pausePromptQueue(session, `Budget reached (${exceeded.label})`)) {
+          this.persistSession(session);
+          this.broadcastPromptQueue(session);
+        }
+        return;
+      }
+    }
+
+    const next = takeNextPrompt(session);
+    if (!next) return;
+    console.log(`[ws-bridge] Dispatching queued prompt ${next.id} for session ${session.id} (${session.promptQueue.prompts.length} left)`);
+    this.persistSession(session);
+    this.broadcastPromptQueue(session);
+    this.routeBrowserMessage(session, { type: "user_message", content: next.content, images: next.images, id: next.id });
+    // Browsers only add their own prompts to the feed, so show this one to everyone.
+    this.broadcastToBrowsers(session, { type: "user_message", content: next.content, timestamp: Date.now(), id: next.id });
+  }
+
   // ── Transport helpers ───────────────────────────────────────────────────
 
   private sendToCLI(session: Session, ndjson: string) {
@@ -1067,6 +1796,29 @@ export class WsBridge {
     }
   }
 
+  /** Queue snapshots are transient too; each browser gets the current one on connect. */
+  private broadcastPromptQueue(session: Session) {
+    const msg = buildPromptQueue(session);
+    for (const ws of session.browserSockets) {
+      this.sendToBrowser(ws, msg);
+    }
+  }
+
+  private broadcastVerifyLoop(session: Session) {
+    const msg = buildVerifyLoop(session);
+    for (const ws of session.browserSockets) {
+      this.sendToBrowser(ws, msg);
+    }
+  }
+
+  /** Presence is transient: sent to every socket without a sequence number or replay buffering. */
+  private broadcastPresence(session: Session) {
+    const msg = buildPresence(session);
+    for (const ws of session.browserSockets) {
+      this.sendToBrowser(ws, msg);
+    }
+  }
+
   private sendToBrowser(ws: ServerWebSocket<SocketData>, msg: BrowserIncomingMessage) {
     try {
       ws.send(JSON.stringify(msg));
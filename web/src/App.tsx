@@ -15,6 +15,7 @@ import { SessionLaunchOverlay } from "./components/SessionLaunchOverlay.js";
 import { SessionTerminalDock } from "./components/SessionTerminalDock.js";
 import { SessionEditorPane } from "./components/SessionEditorPane.js";
 import { UpdateOverlay } from "./components/UpdateOverlay.js";
+import { LoginPage } from "./components/LoginPage.js";
 
 // Lazy-loaded route-level pages (not needed for initial render)
 const Playground = lazy(() => import("./components/Playground.js").then((m) => ({ default: m.Playground })));
@@ -22,7 +23,12 @@ const SettingsPage = lazy(() => import("./components/SettingsPage.js").then((m)
 const IntegrationsPage = lazy(() => import("./components/IntegrationsPage.js").then((m) => ({ default: m.IntegrationsPage })));
 const LinearSettingsPage = lazy(() => import("./components/LinearSettingsPage.js").then((m) => ({ default: m.LinearSettingsPage })));
 const PromptsPage = lazy(() => import("./components/PromptsPage.js").then((m) => ({ default: m.PromptsPage })));
+const HooksPage = lazy(() => import("./components/HooksPage.js").then((m) => ({ default: m.HooksPage })));
+const AutoApprovalPage = lazy(() => import("./components/AutoApprovalPage.js").then((m) => ({ default: m.AutoApprovalPage })));
 const EnvManager = lazy(() => import("./components/EnvManager.js").then((m) => ({ default: m.EnvManager })));
+const UsagePage = lazy(() => import("./components/UsagePage.js").then((m) => ({ default: m.UsagePage })));
+const FanoutPage = lazy(() => import("./components/FanoutPage.js").then((m) => ({ default: m.FanoutPage })));
+const SearchPage = lazy(() => import("./components/SearchPage.js").then((m) => ({ default: m.SearchPage })));
 const CronManager = lazy(() => import("./components/CronManager.js").then((m) => ({ default: m.CronManager })));
 const TerminalPage = lazy(() => import("./components/TerminalPage.js").then((m) => ({ default: m.TerminalPage })));
 
@@ -56,15 +62,20 @@ export default function App() {
   const creationProgress = useStore((s) => s.creationProgress);
   const creationError = useStore((s) => s.creationError);
   const updateOverlayActive = useStore((s) => s.updateOverlayActive);
+  const authRequired = useStore((s) => s.authRequired);
   const hash = useHash();
   const route = useMemo(() => parseHash(hash), [hash]);
   const isSettingsPage = route.page === "settings";
   const isPromptsPage = route.page === "prompts";
+  const isHooksPage = route.page === "hooks";
+  const isAutoApprovalPage = route.page === "auto-approval";
   const isIntegrationsPage = route.page === "integrations";
   const isLinearIntegrationPage = route.page === "integration-linear";
   const isTerminalPage = route.page === "terminal";
   const isEnvironmentsPage = route.page === "environments";
   const isScheduledPage = route.page === "scheduled";
+  const isUsagePage = route.page === "usage";
+  const isSearchPage = route.page === "search";
   const isSessionView = route.page === "session" || route.page === "home";
 
   useEffect(() => {
@@ -76,10 +87,17 @@ export default function App() {
   }, [darkMode]);
 
   useEffect(() => {
+    api.getAuthStatus().then(({ authenticated }) => {
+      if (!authenticated) useStore.getState().setAuthRequired(true);
+    }).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (authRequired) return;
     api.getSettings().then((settings) => {
       setEditorTabEnabled(settings.editorTabEnabled);
     }).catch(() => {});
-  }, [setEditorTabEnabled]);
+  }, [authRequired, setEditorTabEnabled]);
 
   useEffect(() => {
     if (!editorTabEnabled && activeTab === "editor") {
@@ -155,6 +173,10 @@ export default function App() {
     return <Suspense fallback={<LazyFallback />}><Playground /></Suspense>;
   }
 
+  if (authRequired) {
+    return <LoginPage />;
+  }
+
   return (
     <div className="h-[100dvh] flex font-sans-ui bg-cc-bg text-cc-fg antialiased pt-safe">
       {/* Mobile overlay backdrop */}
@@ -194,6 +216,18 @@ export default function App() {
             </div>
           )}
 
+          {isHooksPage && (
+            <div className="absolute inset-0">
+              <Suspense fallback={<LazyFallback />}><HooksPage embedded /></Suspense>
+            </div>
+          )}
+
+          {isAutoApprovalPage && (
+            <div className="absolute inset-0">
+              <Suspense fallback={<LazyFallback />}><AutoApprovalPage embedded /></Suspense>
+            </div>
+          )}
+
           {isIntegrationsPage && (
             <div className="absolute inset-0">
               <Suspense fallback={<LazyFallback />}><IntegrationsPage embedded /></Suspense>
@@ -224,6 +258,24 @@ export default function App() {
             </div>
           )}
 
+          {isUsagePage && (
+            <div className="absolute inset-0">
+              <Suspense fallback={<LazyFallback />}><UsagePage embedded /></Suspense>
+            </div>
+          )}
+
+          {isSearchPage && (
+            <div className="absolute inset-0">
+              <Suspense fallback={<LazyFallback />}><SearchPage embedded /></Suspense>
+            </div>
+          )}
+
+          {route.page === "fanout" && (
+            <div className="absolute inset-0">
+              <Suspense fallback={<LazyFallback />}><FanoutPage fanoutId={route.fanoutId} /></Suspense>
+            </div>
+          )}
+
           {isSessionView && (
             <>
               <div className="absolute inset-0">
@@ -1,6 +1,7 @@
 import type { SdkSessionInfo } from "./types.js";
-import type { ContentBlock } from "./types.js";
+import type { BudgetScope, ContentBlock, ThinkingLevel } from "./types.js";
 import { captureEvent, captureException } from "./analytics.js";
+import { handleUnauthorized, withAuthHeaders } from "./utils/auth.js";
 
 const BASE = "/api";
 
@@ -41,12 +42,13 @@ async function post<T = unknown>(path: string, body?: object): Promise<T> {
   const startedAt = nowMs();
   let failureTracked = false;
   try {
-    const res = await fetch(`${BASE}${path}`, {
+    const res = await fetch(`${BASE}${path}`, withAuthHeaders({
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: body ? JSON.stringify(body) : undefined,
-    });
+    }));
     if (!res.ok) {
+      if (res.status === 401) handleUnauthorized();
       const err = await res.json().catch(() => ({ error: res.statusText }));
       const apiError = new Error(err.error || res.statusText);
       trackApiFailure("POST", path, nowMs() - startedAt, apiError, res.status);
@@ -67,8 +69,9 @@ async function get<T = unknown>(path: string): Promise<T> {
   const startedAt = nowMs();
   let failureTracked = false;
   try {
-    const res = await fetch(`${BASE}${path}`);
+    const res = await fetch(`${BASE}${path}`, withAuthHeaders());
     if (!res.ok) {
+      if (res.status === 401) handleUnauthorized();
       const err = await res.json().catch(() => ({ error: res.statusText }));
       const apiError = new Error(err.error || res.statusText);
       trackApiFailure("GET", path, nowMs() - startedAt, apiError, res.status);
@@ -89,12 +92,13 @@ async function put<T = unknown>(path: string, body?: object): Promise<T> {
   const startedAt = nowMs();
   let failureTracked = false;
   try {
-    const res = await fetch(`${BASE}${path}`, {
+    const res = await fetch(`${BASE}${path}`, withAuthHeaders({
       method: "PUT",
       headers: { "Content-Type": "application/json" },
       body: body ? JSON.stringify(body) : undefined,
-    });
+    }));
     if (!res.ok) {
+      if (res.status === 401) handleUnauthorized();
       const err = await res.json().catch(() => ({ error: res.statusText }));
       const apiError = new Error(err.error || res.statusText);
       trackApiFailure("PUT", path, nowMs() - startedAt, apiError, res.status);
@@ -115,12 +119,13 @@ async function patch<T = unknown>(path: string, body?: object): Promise<T> {
   const startedAt = nowMs();
   let failureTracked = false;
   try {
-    const res = await fetch(`${BASE}${path}`, {
+    const res = await fetch(`${BASE}${path}`, withAuthHeaders({
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
       body: body ? JSON.stringify(body) : undefined,
-    });
+    }));
     if (!res.ok) {
+      if (res.status === 401) handleUnauthorized();
       const err = await res.json().catch(() => ({ error: res.statusText }));
       const apiError = new Error(err.error || res.statusText);
       trackApiFailure("PATCH", path, nowMs() - startedAt, apiError, res.status);
@@ -141,12 +146,13 @@ async function del<T = unknown>(path: string, body?: object): Promise<T> {
   const startedAt = nowMs();
   let failureTracked = false;
   try {
-    const res = await fetch(`${BASE}${path}`, {
+    const res = await fetch(`${BASE}${path}`, withAuthHeaders({
       method: "DELETE",
       headers: body ? { "Content-Type": "application/json" } : undefined,
       body: body ? JSON.stringify(body) : undefined,
-    });
+    }));
     if (!res.ok) {
+      if (res.status === 401) handleUnauthorized();
       const err = await res.json().catch(() => ({ error: res.statusText }));
       const apiError = new Error(err.error || res.statusText);
       trackApiFailure("DELETE", path, nowMs() - startedAt, apiError, res.status);
@@ -200,6 +206,9 @@ export interface CreateSessionOpts {
   container?: ContainerCreateOpts;
   resumeSessionAt?: string;
   forkSession?: boolean;
+  env?: Record<string, string>;
+  /** Fill unset options from a session preset; the server also sends its prompt */
+  presetId?: string;
 }
 
 export interface BackendInfo {
@@ -352,8 +361,26 @@ export interface AppSettings {
   linearAutoTransition: boolean;
   linearAutoTransitionStateName: string;
   editorTabEnabled: boolean;
+  maxConcurrentSessions: number;
+  maxSessionsPerRepo: number;
+  maxSessionsPerBackend: number;
+  idleSuspendMinutes: number;
+  stuckAfterMinutes: number;
+  stuckAction: StuckAction;
 }
 
+/** What the watchdog does with a session stuck mid-turn. */
+export type StuckAction = "notify" | "interrupt" | "relaunch";
+
+/** Stuck-session watchdog settings; 0 minutes turns it off. */
+export type WatchdogSettings = Pick<AppSettings, "stuckAfterMinutes" | "stuckAction">;
+
+/** Concurrency settings; 0 means no limit (or no idle suspend). */
+export type SessionLimits = Pick<
+  AppSettings,
+  "maxConcurrentSessions" | "maxSessionsPerRepo" | "maxSessionsPerBackend" | "idleSuspendMinutes"
+>;
+
 export interface LinearWorkflowState {
   id: string;
   name: string;
@@ -441,6 +468,17 @@ export interface PRStatusResponse {
   pr: GitHubPRInfo | null;
 }
 
+/** What starts a scheduled task run (see server/cron-types.ts). */
+export type CronTrigger =
+  | { kind: "schedule" }
+  | { kind: "watch"; dir: string; glob: string; debounceSeconds: number }
+  | { kind: "git"; remote: string; branch: string; intervalMinutes: number }
+  | { kind: "job"; jobId: string; on: "success" | "any" }
+  | { kind: "manual" };
+
+/** What happens when a task fires while its previous run is still working. */
+export type CronOverlapPolicy = "skip" | "queue" | "kill";
+
 export interface CronJobInfo {
   id: string;
   name: string;
@@ -454,6 +492,19 @@ export interface CronJobInfo {
   enabled: boolean;
   permissionMode: string;
   codexInternetAccess?: boolean;
+  thinkingLevel?: ThinkingLevel;
+  thinkingTokens?: number;
+  budgetUsd?: number;
+  presetId?: string;
+  /** Unset = schedule */
+  trigger?: CronTrigger;
+  /** Unset = skip */
+  overlapPolicy?: CronOverlapPolicy;
+  maxRuntimeMinutes?: number;
+  maxRetries?: number;
+  retryBackoffSeconds?: number;
+  /** Set when the scheduler turned the task off after repeated failures */
+  disabledReason?: string;
   createdAt: number;
   updatedAt: number;
   lastRunAt?: number;
@@ -471,6 +522,39 @@ export interface CronJobExecution {
   success?: boolean;
   error?: string;
   costUsd?: number;
+  triggeredBy?: string;
+  jobName?: string;
+  cwd?: string;
+  baseCommit?: string;
+  baseTree?: string;
+  resultSubtype?: string;
+  /** Final assistant message */
+  summary?: string;
+  durationMs?: number;
+  numTurns?: number;
+  linesAdded?: number;
+  linesRemoved?: number;
+  hasDiff?: boolean;
+  /** "gone" once the session was purged, or for runs that never launched */
+  sessionStatus: "active" | "archived" | "gone";
+}
+
+export interface AssistantConfig {
+  enabled: boolean;
+  model: string;
+  permissionMode: string;
+  cwd: string;
+  updatedAt: number;
+}
+
+export interface AssistantStatus {
+  enabled: boolean;
+  running: boolean;
+  sessionId: string | null;
+  state: "starting" | "connected" | "running" | "exited" | null;
+  model: string;
+  permissionMode: string;
+  cwd: string;
 }
 
 export interface SavedPrompt {
@@ -483,6 +567,205 @@ export interface SavedPrompt {
   updatedAt: number;
 }
 
+export interface PresetLaunchOptions {
+  backend?: "claude" | "codex";
+  model?: string;
+  permissionMode?: string;
+  cwd?: string;
+  envSlug?: string;
+  env?: Record<string, string>;
+  branch?: string;
+  createBranch?: boolean;
+  useWorktree?: boolean;
+  container?: { image?: string; ports?: number[]; volumes?: string[] };
+  claudeBinary?: string;
+  codexBinary?: string;
+  allowedTools?: string[];
+}
+
+export interface SessionPreset {
+  id: string;
+  name: string;
+  scope: "global" | "project";
+  projectPath?: string;
+  options: PresetLaunchOptions;
+  initialPrompt?: string;
+  promptId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface FanoutVariantConfig {
+  backend: "claude" | "codex";
+  model?: string;
+  permissionMode?: string;
+}
+
+export interface FanoutVariant extends FanoutVariantConfig {
+  sessionId: string;
+  label: string;
+  branch: string;
+  worktreePath: string;
+  testResult?: { passed: boolean; exitCode: number; output: string; ranAt: number };
+  status: "starting" | "connected" | "running" | "exited";
+  archived: boolean;
+  costUsd: number;
+  numTurns: number;
+}
+
+export type FanoutKeepMode = "merge" | "checkout";
+
+export interface FanoutGroup {
+  id: string;
+  prompt: string;
+  cwd: string;
+  repoRoot: string;
+  baseBranch: string;
+  baseCommit: string;
+  testCommand?: string;
+  variants: FanoutVariant[];
+  kept?: { sessionId: string; mode: FanoutKeepMode; at: number };
+  createdAt: number;
+  /** The test command is running in the background; results land in each variant */
+  testsRunning: boolean;
+}
+
+export type HookEvent = "PreToolUse" | "PostToolUse" | "Stop";
+export type HookRuleDecision = "allow" | "deny" | "ask";
+
+export interface HookRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  event: HookEvent;
+  toolPattern?: string;
+  inputPattern?: string;
+  outsideCwd?: boolean;
+  decision: HookRuleDecision;
+  reason?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type HookRuleInput = Partial<Omit<HookRule, "id" | "createdAt" | "updatedAt">>;
+
+export interface HookAuditEntry {
+  timestamp: number;
+  sessionId: string;
+  event: HookEvent;
+  toolName?: string;
+  subject?: string;
+  decision: HookRuleDecision;
+  ruleId: string;
+  ruleName: string;
+  reason?: string;
+}
+
+export type AutoApprovalScope = "global" | "repo" | "session";
+
+export interface AutoApprovalRule {
+  id: string;
+  enabled: boolean;
+  behavior: "allow" | "deny";
+  toolName: string;
+  pathGlob?: string;
+  commandPattern?: string;
+  scope: AutoApprovalScope;
+  repoRoot?: string;
+  sessionId?: string;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AutoApprovalRuleInput = Partial<Omit<AutoApprovalRule, "id" | "createdAt" | "updatedAt">>;
+
+export type NotificationKind = "permission_request" | "result" | "stuck" | "cron_disabled";
+
+export interface NotificationSettings {
+  publicKey: string;
+  subscriptionCount: number;
+  webhookUrl: string;
+  baseUrl: string;
+  events: Record<NotificationKind, boolean>;
+  mutedSessions: string[];
+}
+
+export interface BudgetConfig {
+  dailyUsd: number | null;
+  repos: Record<string, number>;
+  sessions: Record<string, number>;
+  spend: { date: string; totalUsd: number; byRepo: Record<string, number> };
+  updatedAt: number;
+}
+
+export type UsageGroupBy = "day" | "repo" | "model" | "backend" | "session" | "cron";
+
+export interface UsageFilters {
+  /** Inclusive local days, e.g. "2026-03-14". */
+  from?: string;
+  to?: string;
+  repo?: string;
+  model?: string;
+  backend?: string;
+  session?: string;
+  cron?: string;
+}
+
+export interface UsageBucket {
+  key: string;
+  label: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  turns: number;
+  durationMs: number;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  totals: UsageBucket;
+  groups: UsageBucket[];
+  options: { repos: string[]; models: string[]; backends: string[] };
+}
+
+export type SearchKind = "user" | "assistant" | "tool_use" | "tool_result";
+
+export interface SearchFilters {
+  /** Inclusive local days, e.g. "2026-03-14". */
+  from?: string;
+  to?: string;
+  repo?: string;
+  backend?: string;
+  session?: string;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  sessionName?: string;
+  /** Message in the session's feed that holds the match ("" when unknown). */
+  messageId: string;
+  kind: SearchKind;
+  toolName?: string;
+  snippet: string;
+  timestamp: number;
+  repoRoot: string;
+  backendType: string;
+}
+
+export interface SearchResponse {
+  hits: SearchHit[];
+  total: number;
+  options: { repos: string[]; backends: string[] };
+}
+
+export interface NotificationTestResult {
+  push: { sent: number; failed: number; removed: number };
+  webhook: "sent" | "failed" | "disabled";
+}
+
 // ─── Claude Config Browser ──────────────────────────────────────────────────
 
 export interface ClaudeConfigResponse {
@@ -529,13 +812,14 @@ export async function createSessionStream(
   opts: CreateSessionOpts | undefined,
   onProgress: (progress: CreationProgressEvent) => void,
 ): Promise<CreateSessionStreamResult> {
-  const res = await fetch(`${BASE}/sessions/create-stream`, {
+  const res = await fetch(`${BASE}/sessions/create-stream`, withAuthHeaders({
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(opts ?? {}),
-  });
+  }));
 
   if (!res.ok || !res.body) {
+    if (res.status === 401) handleUnauthorized();
     const err = await res.json().catch(() => ({ error: res.statusText }));
     throw new Error((err as { error?: string }).error || res.statusText);
   }
@@ -582,9 +866,49 @@ export async function createSessionStream(
   return result;
 }
 
+function usageQuery(params: Record<string, string | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) search.set(key, value);
+  }
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+/** Raw ledger rows as CSV, for the usage page's export button. */
+export async function fetchUsageCsv(filters: UsageFilters): Promise<string> {
+  const res = await fetch(`${BASE}/usage${usageQuery({ ...filters, format: "csv" })}`, withAuthHeaders());
+  if (!res.ok) {
+    if (res.status === 401) handleUnauthorized();
+    const err = await res.json().catch(() => ({ error: res.statusText }));
+    throw new Error((err as { error?: string }).error || res.statusText);
+  }
+  return res.text();
+}
+
+export type SessionExportFormat = "md" | "html" | "json";
+
+/** A session transcript file, for the export menu's download. */
+export async function fetchSessionExport(
+  sessionId: string,
+  format: SessionExportFormat,
+): Promise<{ blob: Blob; filename: string }> {
+  const res = await fetch(`${BASE}/sessions/${encodeURIComponent(sessionId)}/export?format=${format}`, withAuthHeaders());
+  if (!res.ok) {
+    if (res.status === 401) handleUnauthorized();
+    const err = await res.json().catch(() => ({ error: res.statusText }));
+    throw new Error((err as { error?: string }).error || res.statusText);
+  }
+  const match = /filename="([^"]+)"/.exec(res.headers.get("content-disposition") || "");
+  return { blob: await res.blob(), filename: match?.[1] || `session.${format}` };
+}
+
 export const api = {
+  getAuthStatus: () => get<{ authenticated: boolean }>("/auth/status"),
+  login: (token: string) => post<{ ok: boolean }>("/auth/login", { token }),
+
   createSession: (opts?: CreateSessionOpts) =>
-    post<{ sessionId: string; state: string; cwd: string }>(
+    post<SdkSessionInfo>(
       "/sessions/create",
       opts,
     ),
@@ -611,6 +935,9 @@ export const api = {
   relaunchSession: (sessionId: string) =>
     post(`/sessions/${encodeURIComponent(sessionId)}/relaunch`),
 
+  forkSession: (sessionId: string, messageId: string, opts?: { useWorktree?: boolean; branch?: string }) =>
+    post<SdkSessionInfo>(`/sessions/${encodeURIComponent(sessionId)}/fork`, { messageId, ...opts }),
+
   archiveSession: (sessionId: string, opts?: { force?: boolean }) =>
     post(`/sessions/${encodeURIComponent(sessionId)}/archive`, opts),
 
@@ -678,7 +1005,7 @@ export const api = {
     linearAutoTransitionStateId?: string;
     linearAutoTransitionStateName?: string;
     editorTabEnabled?: boolean;
-  }) => put<AppSettings>("/settings", data),
+  } & Partial<SessionLimits> & Partial<WatchdogSettings>) => put<AppSettings>("/settings", data),
   searchLinearIssues: (query: string, limit = 8) =>
     get<{ issues: LinearIssue[] }>(
       `/linear/issues?query=${encodeURIComponent(query)}&limit=${encodeURIComponent(String(limit))}`,
@@ -850,6 +1177,19 @@ export const api = {
   runCronJob: (id: string) => post(`/cron/jobs/${encodeURIComponent(id)}/run`),
   getCronJobExecutions: (id: string) =>
     get<CronJobExecution[]>(`/cron/jobs/${encodeURIComponent(id)}/executions`),
+  listCronExecutions: () => get<CronJobExecution[]>("/cron/executions"),
+  getCronExecutionDiff: (jobId: string, sessionId: string) =>
+    get<{ diff: string }>(
+      `/cron/jobs/${encodeURIComponent(jobId)}/executions/${encodeURIComponent(sessionId)}/diff`,
+    ),
+
+  // Assistant
+  getAssistantStatus: () => get<AssistantStatus>("/assistant/status"),
+  launchAssistant: () => post<AssistantStatus>("/assistant/launch"),
+  stopAssistant: () => post<AssistantStatus>("/assistant/stop"),
+  getAssistantConfig: () => get<AssistantConfig>("/assistant/config"),
+  updateAssistantConfig: (data: Partial<Pick<AssistantConfig, "enabled" | "model" | "permissionMode" | "cwd">>) =>
+    put<AssistantConfig>("/assistant/config", data),
 
   // Cross-session messaging
   sendSessionMessage: (sessionId: string, content: string) =>
@@ -869,4 +1209,79 @@ export const api = {
     put<SavedPrompt>(`/prompts/${encodeURIComponent(id)}`, data),
   deletePrompt: (id: string) =>
     del<{ ok: boolean }>(`/prompts/${encodeURIComponent(id)}`),
+
+  // Session presets
+  listPresets: (cwd?: string) =>
+    get<SessionPreset[]>(`/presets${cwd ? `?cwd=${encodeURIComponent(cwd)}` : ""}`),
+  createPreset: (data: {
+    name: string;
+    scope: "global" | "project";
+    cwd?: string;
+    options: PresetLaunchOptions;
+    initialPrompt?: string;
+    promptId?: string;
+  }) => post<SessionPreset>("/presets", data),
+  updatePreset: (id: string, data: { name?: string; options?: PresetLaunchOptions; initialPrompt?: string; promptId?: string }) =>
+    put<SessionPreset>(`/presets/${encodeURIComponent(id)}`, data),
+  deletePreset: (id: string) =>
+    del<{ ok: boolean }>(`/presets/${encodeURIComponent(id)}`),
+
+  // Fan-out runs
+  listFanouts: (cwd?: string) =>
+    get<FanoutGroup[]>(`/fanouts${cwd ? `?cwd=${encodeURIComponent(cwd)}` : ""}`),
+  getFanout: (id: string) => get<FanoutGroup>(`/fanouts/${encodeURIComponent(id)}`),
+  createFanout: (data: { prompt: string; cwd: string; variants: FanoutVariantConfig[]; testCommand?: string }) =>
+    post<FanoutGroup>("/fanouts", data),
+  getFanoutDiff: (id: string, sessionId: string) =>
+    get<{ diff: string }>(`/fanouts/${encodeURIComponent(id)}/diff?sessionId=${encodeURIComponent(sessionId)}`),
+  runFanoutTests: (id: string) => post<FanoutGroup>(`/fanouts/${encodeURIComponent(id)}/test`),
+  keepFanoutVariant: (id: string, sessionId: string, mode: FanoutKeepMode) =>
+    post<FanoutGroup>(`/fanouts/${encodeURIComponent(id)}/keep`, { sessionId, mode }),
+
+  // Hook rules
+  listHookRules: () => get<HookRule[]>("/hooks/rules"),
+  createHookRule: (data: HookRuleInput) => post<HookRule>("/hooks/rules", data),
+  updateHookRule: (id: string, data: HookRuleInput) =>
+    put<HookRule>(`/hooks/rules/${encodeURIComponent(id)}`, data),
+  deleteHookRule: (id: string) =>
+    del<{ ok: boolean }>(`/hooks/rules/${encodeURIComponent(id)}`),
+  listHookAudit: (limit?: number) =>
+    get<HookAuditEntry[]>(`/hooks/audit${limit ? `?limit=${limit}` : ""}`),
+  clearHookAudit: () => del<{ ok: boolean }>("/hooks/audit"),
+
+  // Auto-approval rules
+  listAutoApprovalRules: (sessionId?: string) =>
+    get<AutoApprovalRule[]>(`/auto-approval/rules${sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : ""}`),
+  createAutoApprovalRule: (data: AutoApprovalRuleInput) =>
+    post<AutoApprovalRule>("/auto-approval/rules", data),
+  updateAutoApprovalRule: (id: string, data: AutoApprovalRuleInput) =>
+    put<AutoApprovalRule>(`/auto-approval/rules/${encodeURIComponent(id)}`, data),
+  deleteAutoApprovalRule: (id: string) =>
+    del<{ ok: boolean }>(`/auto-approval/rules/${encodeURIComponent(id)}`),
+
+  // Push and webhook notifications
+  getNotificationSettings: () => get<NotificationSettings>("/notifications/settings"),
+  updateNotificationSettings: (data: {
+    webhookUrl?: string;
+    baseUrl?: string;
+    events?: Partial<Record<NotificationKind, boolean>>;
+  }) => put<NotificationSettings>("/notifications/settings", data),
+  addPushSubscription: (subscription: PushSubscriptionJSON) =>
+    post<{ id: string; createdAt: number }>("/notifications/subscriptions", subscription),
+  removePushSubscription: (endpoint: string) =>
+    del<{ ok: boolean; removed: boolean }>("/notifications/subscriptions", { endpoint }),
+  setSessionNotificationsMuted: (sessionId: string, muted: boolean) =>
+    put<{ ok: boolean; muted: boolean }>(`/notifications/sessions/${encodeURIComponent(sessionId)}/mute`, { muted }),
+  sendTestNotification: () => post<NotificationTestResult>("/notifications/test"),
+
+  // Cost budgets (limitUsd null clears the budget)
+  getBudgets: () => get<BudgetConfig>("/budgets"),
+  setBudget: (data: { scope: BudgetScope; target: string; limitUsd: number | null }) =>
+    put<BudgetConfig>("/budgets", data),
+  getUsage: (filters: UsageFilters, groupBy: UsageGroupBy) =>
+    get<UsageReport>(`/usage${usageQuery({ ...filters, groupBy })}`),
+
+  // Full-text search across session transcripts
+  search: (q: string, filters: SearchFilters = {}) =>
+    get<SearchResponse>(`/search${usageQuery({ ...filters, q })}`),
 };
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+interface MockStoreState {
+  currentSessionId: string | null;
+  sdkSessions: { sessionId: string; name?: string; model?: string; archived?: boolean }[];
+  sessionNames: Map<string, string>;
+  sessions: Map<string, { cwd: string; repo_root?: string }>;
+}
+
+let mockState: MockStoreState;
+
+const mockApi = {
+  listAutoApprovalRules: vi.fn(),
+  createAutoApprovalRule: vi.fn(),
+  updateAutoApprovalRule: vi.fn(),
+  deleteAutoApprovalRule: vi.fn(),
+};
+
+vi.mock("../api.js", () => ({
+  api: {
+    listAutoApprovalRules: (...args: unknown[]) => mockApi.listAutoApprovalRules(...args),
+    createAutoApprovalRule: (...args: unknown[]) => mockApi.createAutoApprovalRule(...args),
+    updateAutoApprovalRule: (...args: unknown[]) => mockApi.updateAutoApprovalRule(...args),
+    deleteAutoApprovalRule: (...args: unknown[]) => mockApi.deleteAutoApprovalRule(...args),
+  },
+}));
+
+vi.mock("../store.js", () => {
+  const useStoreFn = (selector: (state: MockStoreState) => unknown) => selector(mockState);
+  useStoreFn.getState = () => mockState;
+  return { useStore: useStoreFn };
+});
+
+import { AutoApprovalPage } from "./AutoApprovalPage.js";
+
+const rule = {
+  id: "r1",
+  enabled: true,
+  behavior: "allow",
+  toolName: "Bash",
+  commandPattern: "^git status$",
+  scope: "session",
+  sessionId: "s1",
+  description: "Read-only git",
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockState = {
+    currentSessionId: "s1",
+    sdkSessions: [{ sessionId: "s1", model: "sonnet" }],
+    sessionNames: new Map([["s1", "Fix login"]]),
+    sessions: new Map([["s1", { cwd: "/repo/app", repo_root: "/repo" }]]),
+  };
+  mockApi.listAutoApprovalRules.mockResolvedValue([rule]);
+  mockApi.createAutoApprovalRule.mockResolvedValue(rule);
+  mockApi.updateAutoApprovalRule.mockResolvedValue(rule);
+  mockApi.deleteAutoApprovalRule.mockResolvedValue({ ok: true });
+});
+
+describe("AutoApprovalPage", () => {
+  it("lists rules with their match and scope", async () => {
+    render(<AutoApprovalPage embedded />);
+    expect(await screen.findByText("Read-only git")).toBeInTheDocument();
+    expect(screen.getByText("Bash • command ~ /^git status$/")).toBeInTheDocument();
+    expect(screen.getByText("session Fix login")).toBeInTheDocument();
+  });
+
+  it("creates a repo rule prefilled with the current session's repo", async () => {
+    mockApi.listAutoApprovalRules.mockResolvedValue([]);
+    render(<AutoApprovalPage embedded />);
+    await screen.findByText("No rules yet. Every permission request waits for you.");
+
+    fireEvent.change(screen.getByLabelText("Path glob"), { target: { value: "src/**" } });
+    fireEvent.change(screen.getByLabelText("Scope"), { target: { value: "repo" } });
+    expect(screen.getByLabelText("Repository path")).toHaveValue("/repo");
+    fireEvent.click(screen.getByRole("button", { name: "Create Rule" }));
+
+    await waitFor(() => {
+      expect(mockApi.createAutoApprovalRule).toHaveBeenCalledWith(expect.objectContaining({
+        behavior: "allow",
+        toolName: "Read",
+        pathGlob: "src/**",
+        scope: "repo",
+        repoRoot: "/repo",
+        sessionId: "",
+      }));
+    });
+  });
+
+  it("toggles and deletes rules", async () => {
+    render(<AutoApprovalPage embedded />);
+    await screen.findByText("Read-only git");
+
+    fireEvent.click(screen.getByRole("button", { name: "Disable" }));
+    await waitFor(() => expect(mockApi.updateAutoApprovalRule).toHaveBeenCalledWith("r1", { enabled: false }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    await waitFor(() => expect(mockApi.deleteAutoApprovalRule).toHaveBeenCalledWith("r1"));
+  });
+
+  it("shows server validation errors", async () => {
+    mockApi.createAutoApprovalRule.mockRejectedValue(new Error("Allow rules for any tool need a path glob or command pattern"));
+    render(<AutoApprovalPage embedded />);
+    await screen.findByText("Read-only git");
+
+    fireEvent.change(screen.getByLabelText("Tool"), { target: { value: "*" } });
+    fireEvent.click(screen.getByRole("button", { name: "Create Rule" }));
+    expect(await screen.findByText("Allow rules for any tool need a path glob or command pattern")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,401 @@
+import { useCallback, useEffect, useState } from "react";
+import { api, type AutoApprovalRule, type AutoApprovalRuleInput, type AutoApprovalScope } from "../api.js";
+import { useStore } from "../store.js";
+import { navigateHome, navigateToSession } from "../utils/routing.js";
+
+interface AutoApprovalPageProps {
+  embedded?: boolean;
+}
+
+interface RuleForm {
+  behavior: "allow" | "deny";
+  toolName: string;
+  pathGlob: string;
+  commandPattern: string;
+  scope: AutoApprovalScope;
+  repoRoot: string;
+  sessionId: string;
+  description: string;
+}
+
+const COMMON_TOOLS = ["Read", "Grep", "Glob", "LS", "Bash", "Edit", "Write", "MultiEdit", "WebFetch", "WebSearch", "*"];
+
+const EXAMPLES: { label: string; form: Partial<RuleForm> }[] = [
+  { label: "Reads", form: { behavior: "allow", toolName: "Read", description: "Read files" } },
+  {
+    label: "git status/diff/log",
+    form: {
+      behavior: "allow",
+      toolName: "Bash",
+      commandPattern: "^git (status|diff|log|show)\\b",
+      description: "Read-only git",
+    },
+  },
+  { label: "Block .env", form: { behavior: "deny", toolName: "*", pathGlob: "**/.env*", description: "Secrets stay closed" } },
+];
+
+function describeRule(rule: AutoApprovalRule): string {
+  const parts = [rule.toolName === "*" ? "any tool" : rule.toolName];
+  if (rule.commandPattern) parts.push(`command ~ /${rule.commandPattern}/`);
+  if (rule.pathGlob) parts.push(`path ${rule.pathGlob}`);
+  return parts.join(" • ");
+}
+
+function scopeLabel(rule: AutoApprovalRule, sessionLabel: (id: string) => string): string {
+  if (rule.scope === "repo") return `repo ${rule.repoRoot}`;
+  if (rule.scope === "session" && rule.sessionId) return `session ${sessionLabel(rule.sessionId)}`;
+  return "global";
+}
+
+export function AutoApprovalPage({ embedded = false }: AutoApprovalPageProps) {
+  const currentSessionId = useStore((s) => s.currentSessionId);
+  const sdkSessions = useStore((s) => s.sdkSessions);
+  const sessionNames = useStore((s) => s.sessionNames);
+  const currentRepoRoot = useStore((s) => {
+    if (!s.currentSessionId) return "";
+    const session = s.sessions.get(s.currentSessionId);
+    return session?.repo_root || session?.cwd || "";
+  });
+
+  const emptyForm = useCallback((): RuleForm => ({
+    behavior: "allow",
+    toolName: "Read",
+    pathGlob: "",
+    commandPattern: "",
+    scope: "global",
+    repoRoot: currentRepoRoot,
+    sessionId: currentSessionId ?? "",
+    description: "",
+  }), [currentRepoRoot, currentSessionId]);
+
+  const [rules, setRules] = useState<AutoApprovalRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const sessionLabel = useCallback((id: string) => {
+    const sdk = sdkSessions.find((s) => s.sessionId === id);
+    return sessionNames.get(id) || sdk?.name || sdk?.model || id.slice(0, 8);
+  }, [sdkSessions, sessionNames]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      setRules(await api.listAutoApprovalRules());
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  function resetForm() {
+    setForm(emptyForm());
+    setEditingId(null);
+  }
+
+  function toInput(f: RuleForm): AutoApprovalRuleInput {
+    return {
+      behavior: f.behavior,
+      toolName: f.toolName.trim(),
+      pathGlob: f.pathGlob.trim(),
+      commandPattern: f.commandPattern.trim(),
+      scope: f.scope,
+      repoRoot: f.scope === "repo" ? f.repoRoot.trim() : "",
+      sessionId: f.scope === "session" ? f.sessionId : "",
+      description: f.description.trim(),
+    };
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.toolName.trim()) return;
+    setSaving(true);
+    setError("");
+    try {
+      if (editingId) {
+        await api.updateAutoApprovalRule(editingId, toInput(form));
+      } else {
+        await api.createAutoApprovalRule(toInput(form));
+      }
+      resetForm();
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(rule: AutoApprovalRule) {
+    try {
+      await api.updateAutoApprovalRule(rule.id, { enabled: !rule.enabled });
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await api.deleteAutoApprovalRule(id);
+      if (editingId === id) resetForm();
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const inputClass = "w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60";
+  const activeSessions = sdkSessions.filter((s) => !s.archived);
+
+  return (
+    <div className={`${embedded ? "h-full" : "h-[100dvh]"} bg-cc-bg text-cc-fg font-sans-ui antialiased overflow-y-auto`}>
+      <div className="max-w-5xl mx-auto px-4 sm:px-8 py-6 sm:py-10">
+        <div className="flex items-start justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-xl font-semibold text-cc-fg">Auto-Approval</h1>
+            <p className="mt-1 text-sm text-cc-muted">
+              Permission requests that match a rule are answered right away and logged in the session feed. Deny rules win over allow rules.
+            </p>
+            <p className="mt-1.5 text-xs text-cc-muted">
+              Allow rules never cover chained or redirected shell commands (<code>;</code>, <code>&amp;&amp;</code>, <code>|</code>, <code>&gt;</code>, <code>$(…)</code>). Applies to Claude Code and Codex sessions.
+            </p>
+          </div>
+          {!embedded && (
+            <button
+              onClick={() => {
+                if (currentSessionId) {
+                  navigateToSession(currentSessionId);
+                } else {
+                  navigateHome();
+                }
+              }}
+              className="px-3 py-1.5 rounded-lg text-sm text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+            >
+              Back
+            </button>
+          )}
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-[340px_minmax(0,1fr)]">
+          <form onSubmit={handleSubmit} className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-4 h-fit">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h2 className="text-sm font-semibold text-cc-fg">{editingId ? "Edit Rule" : "Create Rule"}</h2>
+              {!editingId && (
+                <div className="ml-auto flex gap-1.5 flex-wrap">
+                  {EXAMPLES.map((example) => (
+                    <button
+                      key={example.label}
+                      type="button"
+                      onClick={() => setForm({ ...emptyForm(), ...example.form })}
+                      className="px-2 py-1 text-[11px] rounded-md border border-cc-border text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                    >
+                      {example.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1.5" htmlFor="auto-behavior">Decision</label>
+                <select
+                  id="auto-behavior"
+                  value={form.behavior}
+                  onChange={(e) => setForm({ ...form, behavior: e.target.value as RuleForm["behavior"] })}
+                  className={inputClass}
+                >
+                  <option value="allow">Allow</option>
+                  <option value="deny">Deny</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5" htmlFor="auto-tool">Tool</label>
+                <input
+                  id="auto-tool"
+                  list="auto-approval-tools"
+                  value={form.toolName}
+                  onChange={(e) => setForm({ ...form, toolName: e.target.value })}
+                  placeholder="Read or *"
+                  className={inputClass}
+                />
+                <datalist id="auto-approval-tools">
+                  {COMMON_TOOLS.map((tool) => <option key={tool} value={tool} />)}
+                </datalist>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="auto-command">Command regex</label>
+              <input
+                id="auto-command"
+                value={form.commandPattern}
+                onChange={(e) => setForm({ ...form, commandPattern: e.target.value })}
+                placeholder="^npm (test|run lint)$"
+                className={`${inputClass} font-mono-code`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="auto-path">Path glob</label>
+              <input
+                id="auto-path"
+                value={form.pathGlob}
+                onChange={(e) => setForm({ ...form, pathGlob: e.target.value })}
+                placeholder="src/**/*.ts"
+                className={`${inputClass} font-mono-code`}
+              />
+              <p className="mt-1 text-[11px] text-cc-muted">Relative globs only match files inside the session folder.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="auto-scope">Scope</label>
+              <select
+                id="auto-scope"
+                value={form.scope}
+                onChange={(e) => setForm({ ...form, scope: e.target.value as AutoApprovalScope })}
+                className={inputClass}
+              >
+                <option value="global">All sessions</option>
+                <option value="repo">One repository</option>
+                <option value="session">One session</option>
+              </select>
+            </div>
+            {form.scope === "repo" && (
+              <div>
+                <label className="block text-sm font-medium mb-1.5" htmlFor="auto-repo">Repository path</label>
+                <input
+                  id="auto-repo"
+                  value={form.repoRoot}
+                  onChange={(e) => setForm({ ...form, repoRoot: e.target.value })}
+                  placeholder="/path/to/repo"
+                  className={`${inputClass} font-mono-code`}
+                />
+              </div>
+            )}
+            {form.scope === "session" && (
+              <div>
+                <label className="block text-sm font-medium mb-1.5" htmlFor="auto-session">Session</label>
+                <select
+                  id="auto-session"
+                  value={form.sessionId}
+                  onChange={(e) => setForm({ ...form, sessionId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Choose a session</option>
+                  {activeSessions.map((s) => (
+                    <option key={s.sessionId} value={s.sessionId}>{sessionLabel(s.sessionId)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="auto-description">Label</label>
+              <input
+                id="auto-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Read-only git"
+                className={inputClass}
+              />
+            </div>
+
+            <p className="text-xs text-cc-muted">Saved in <code>~/.companion/auto-approval.json</code></p>
+
+            {error && (
+              <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-3 py-2 rounded-lg text-sm font-medium border border-cc-border text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving || !form.toolName.trim()}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  saving || !form.toolName.trim()
+                    ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+                    : "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+                }`}
+              >
+                {saving ? "Saving..." : editingId ? "Save Rule" : "Create Rule"}
+              </button>
+            </div>
+          </form>
+
+          <div className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 h-fit">
+            <h2 className="text-sm font-semibold text-cc-fg mb-3">Rules</h2>
+            {loading ? (
+              <p className="text-xs text-cc-muted">Loading rules...</p>
+            ) : rules.length === 0 ? (
+              <p className="text-xs text-cc-muted">No rules yet. Every permission request waits for you.</p>
+            ) : (
+              <div className="space-y-2">
+                {rules.map((rule) => (
+                  <div key={rule.id} className="border border-cc-border rounded-lg px-3 py-2.5 bg-cc-input-bg/40">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-[10px] uppercase tracking-wide rounded px-1.5 py-0.5 ${
+                        rule.behavior === "allow" ? "text-cc-success bg-cc-success/10" : "text-cc-error bg-cc-error/10"
+                      }`}>
+                        {rule.behavior}
+                      </span>
+                      <div className={`text-sm font-medium truncate ${rule.enabled ? "text-cc-fg" : "text-cc-muted line-through"}`}>
+                        {rule.description || describeRule(rule)}
+                      </div>
+                      <button
+                        onClick={() => void handleToggle(rule)}
+                        className="ml-auto text-xs text-cc-muted hover:text-cc-fg transition-colors cursor-pointer"
+                      >
+                        {rule.enabled ? "Disable" : "Enable"}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingId(rule.id);
+                          setForm({
+                            behavior: rule.behavior,
+                            toolName: rule.toolName,
+                            pathGlob: rule.pathGlob ?? "",
+                            commandPattern: rule.commandPattern ?? "",
+                            scope: rule.scope,
+                            repoRoot: rule.repoRoot ?? currentRepoRoot,
+                            sessionId: rule.sessionId ?? currentSessionId ?? "",
+                            description: rule.description ?? "",
+                          });
+                        }}
+                        className="text-xs text-cc-muted hover:text-cc-fg transition-colors cursor-pointer"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => void handleDelete(rule.id)}
+                        className="text-xs text-cc-muted hover:text-cc-error transition-colors cursor-pointer"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                    <p className="mt-1 text-xs text-cc-muted font-mono-code truncate">{describeRule(rule)}</p>
+                    <p className="mt-0.5 text-[11px] text-cc-muted truncate">{scopeLabel(rule, sessionLabel)}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
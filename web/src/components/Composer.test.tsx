@@ -8,6 +8,7 @@ import type { SessionState } from "../../server/session-types.js";
 Element.prototype.scrollIntoView = vi.fn();
 
 const mockSendToSession = vi.fn();
+const mockSendTyping = vi.fn();
 const mockListPrompts = vi.fn();
 const mockCreatePrompt = vi.fn();
 
@@ -16,6 +17,7 @@ let mockStoreState: Record<string, unknown> = {};
 
 vi.mock("../ws.js", () => ({
   sendToSession: (...args: unknown[]) => mockSendToSession(...args),
+  sendTyping: (...args: unknown[]) => mockSendTyping(...args),
 }));
 
 vi.mock("../api.js", () => ({
@@ -148,6 +150,62 @@ describe("Composer send button state", () => {
     expect(sendBtn.hasAttribute("disabled")).toBe(true);
   });
 
+  it("blocks sending once a cost budget is used up", () => {
+    setupMockStore({
+      session: {
+        budgets: [{ scope: "session", target: "s1", label: "This session", limit_usd: 2, spent_usd: 2.4 }],
+      },
+    });
+    const { container } = render(<Composer sessionId="s1" />);
+    const textarea = container.querySelector("textarea")!;
+
+    fireEvent.change(textarea, { target: { value: "one more turn" } });
+    fireEvent.keyDown(textarea, { key: "Enter", shiftKey: false });
+
+    expect(screen.getByText(/Budget reached \(This session: \$2\.40 of \$2\.00\)/)).toBeTruthy();
+    expect(screen.getByTitle("Send message").hasAttribute("disabled")).toBe(true);
+    expect(mockSendToSession).not.toHaveBeenCalled();
+  });
+
+  it("blocks sending while another viewer drives the session", () => {
+    localStorage.setItem("cc-viewer-id", "v-me");
+    setupMockStore();
+    mockStoreState.presence = new Map([["s1", {
+      viewers: [
+        { viewer_id: "v-me", name: "Me", typing: false },
+        { viewer_id: "v-ada", name: "Ada", typing: true },
+      ],
+      driver: { viewer_id: "v-ada", name: "Ada" },
+      controlRequests: [],
+    }]]);
+    const { container } = render(<Composer sessionId="s1" />);
+    const textarea = container.querySelector("textarea")!;
+
+    fireEvent.change(textarea, { target: { value: "let me try" } });
+    fireEvent.keyDown(textarea, { key: "Enter", shiftKey: false });
+
+    expect(screen.getByText(/Ada is driving this session/)).toBeTruthy();
+    expect(screen.getByText("Ada is typing…")).toBeTruthy();
+    expect(screen.getByTitle("Send message").hasAttribute("disabled")).toBe(true);
+    expect(mockSendToSession).not.toHaveBeenCalledWith("s1", expect.objectContaining({ type: "user_message" }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Request control" }));
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "driver_claim" });
+  });
+
+  it("reports typing once and clears it on send", () => {
+    const { container } = render(<Composer sessionId="s1" />);
+    const textarea = container.querySelector("textarea")!;
+
+    fireEvent.change(textarea, { target: { value: "h" } });
+    fireEvent.change(textarea, { target: { value: "hi" } });
+    expect(mockSendTyping).toHaveBeenCalledTimes(1);
+    expect(mockSendTyping).toHaveBeenCalledWith("s1", true);
+
+    fireEvent.keyDown(textarea, { key: "Enter", shiftKey: false });
+    expect(mockSendTyping).toHaveBeenLastCalledWith("s1", false);
+  });
+
   it("typing text enables the send button", async () => {
     const { container } = render(<Composer sessionId="s1" />);
     const textarea = container.querySelector("textarea")!;
@@ -249,6 +307,20 @@ describe("Composer interrupt button", () => {
     expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "interrupt" });
   });
 
+  it("queues messages typed while the agent is running", () => {
+    setupMockStore({ sessionStatus: "running" });
+    const { container } = render(<Composer sessionId="s1" />);
+    const textarea = container.querySelector("textarea")!;
+    expect(textarea.getAttribute("placeholder")).toBe("Queue a message for when the agent is done...");
+
+    fireEvent.change(textarea, { target: { value: "then run lint" } });
+    fireEvent.click(screen.getByTitle("Queue message"));
+
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "queue_add", content: "then run lint", images: undefined });
+    expect(mockAppendMessage).not.toHaveBeenCalled();
+    expect(textarea.value).toBe("");
+  });
+
   it("send button appears when session is idle", () => {
     setupMockStore({ sessionStatus: "idle" });
     render(<Composer sessionId="s1" />);
@@ -1,14 +1,21 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useStore } from "../store.js";
-import { sendToSession } from "../ws.js";
+import { sendToSession, sendTyping } from "../ws.js";
 import { CLAUDE_MODES, CODEX_MODES } from "../utils/backends.js";
 import { api, type SavedPrompt } from "../api.js";
 import type { ModeOption } from "../utils/backends.js";
 
 import { readFileAsBase64, type ImageAttachment } from "../utils/image.js";
+import { ThinkingBudgetPicker } from "./ThinkingBudgetPicker.js";
+import { PromptQueuePanel } from "./PromptQueuePanel.js";
+import { findExceededBudget, formatUsd } from "../utils/budgets.js";
+import { getViewerId } from "../utils/viewer.js";
 
 let idCounter = 0;
 
+/** Typing state clears itself after this long without a keystroke. */
+const TYPING_IDLE_MS = 3000;
+
 interface CommandItem {
   name: string;
   type: "command" | "skill";
@@ -41,13 +48,42 @@ export function Composer({ sessionId }: { sessionId: string }) {
   const cliConnected = useStore((s) => s.cliConnected);
   const sessionData = useStore((s) => s.sessions.get(sessionId));
   const previousMode = useStore((s) => s.previousPermissionMode.get(sessionId) || "acceptEdits");
+  const presence = useStore((s) => s.presence?.get(sessionId));
+  const typingRef = useRef(false);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const isConnected = cliConnected.get(sessionId) ?? false;
   const currentMode = sessionData?.permissionMode || "acceptEdits";
   const isPlan = currentMode === "plan";
   const isCodex = sessionData?.backend_type === "codex";
+  // The server refuses new turns too; this only explains why.
+  const exceededBudget = findExceededBudget(sessionData?.budgets);
   const modes: ModeOption[] = isCodex ? CODEX_MODES : CLAUDE_MODES;
   const modeLabel = modes.find((m) => m.value === currentMode)?.label?.toLowerCase() || currentMode;
+  // Another viewer holds the driver lock; the server rejects our prompts too.
+  const myViewerId = getViewerId();
+  const lockedBy = presence?.driver && presence.driver.viewer_id !== myViewerId ? presence.driver : null;
+  const controlRequested = !!presence?.controlRequests.includes(myViewerId);
+  const othersTyping = (presence?.viewers ?? []).filter((v) => v.typing && v.viewer_id !== myViewerId);
+
+  const setTyping = useCallback((typing: boolean) => {
+    if (typingTimerRef.current) {
+      clearTimeout(typingTimerRef.current);
+      typingTimerRef.current = null;
+    }
+    if (typing) {
+      typingTimerRef.current = setTimeout(() => setTyping(false), TYPING_IDLE_MS);
+    }
+    if (typingRef.current === typing) return;
+    typingRef.current = typing;
+    sendTyping(sessionId, typing);
+  }, [sessionId]);
+
+  useEffect(() => () => {
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    if (typingRef.current) sendTyping(sessionId, false);
+    typingRef.current = false;
+  }, [sessionId]);
 
   const refreshPrompts = useCallback(async () => {
     setPromptsLoading(true);
@@ -195,24 +231,39 @@ export function Composer({ sessionId }: { sessionId: string }) {
 
   function handleSend() {
     const msg = text.trim();
-    if (!msg || !isConnected) return;
+    if (!msg || !isConnected || exceededBudget || lockedBy) return;
+    const outgoingImages = images.length > 0 ? images.map((img) => ({ media_type: img.mediaType, data: img.base64 })) : undefined;
 
+    if (isRunning) {
+      // The server holds it until the current turn finishes.
+      sendToSession(sessionId, { type: "queue_add", content: msg, images: outgoingImages });
+      resetInput();
+      return;
+    }
+
+    // Shared with the server so the message can be referenced later (e.g. rewind)
+    const messageId = `user-${Date.now()}-${++idCounter}`;
     sendToSession(sessionId, {
       type: "user_message",
       content: msg,
       session_id: sessionId,
-      images: images.length > 0 ? images.map((img) => ({ media_type: img.mediaType, data: img.base64 })) : undefined,
+      images: outgoingImages,
+      id: messageId,
     });
 
     useStore.getState().appendMessage(sessionId, {
-      id: `user-${Date.now()}-${++idCounter}`,
+      id: messageId,
       role: "user",
       content: msg,
-      images: images.length > 0 ? images.map((img) => ({ media_type: img.mediaType, data: img.base64 })) : undefined,
+      images: outgoingImages,
       timestamp: Date.now(),
     });
+    resetInput();
+  }
 
+  function resetInput() {
     setText("");
+    setTyping(false);
     setImages([]);
     setSlashMenuOpen(false);
     setMentionMenuOpen(false);
@@ -301,6 +352,7 @@ export function Composer({ sessionId }: { sessionId: string }) {
 
   function handleInput(e: React.ChangeEvent<HTMLTextAreaElement>) {
     setText(e.target.value);
+    setTyping(e.target.value.trim().length > 0);
     setCaretPos(e.target.selectionStart ?? e.target.value.length);
     const ta = e.target;
     ta.style.height = "auto";
@@ -387,11 +439,40 @@ export function Composer({ sessionId }: { sessionId: string }) {
 
   const sessionStatus = useStore((s) => s.sessionStatus);
   const isRunning = sessionStatus.get(sessionId) === "running";
-  const canSend = text.trim().length > 0 && isConnected;
+  const canSend = text.trim().length > 0 && isConnected && !exceededBudget && !lockedBy;
 
   return (
     <div className="shrink-0 px-0 sm:px-6 pt-0 sm:pt-3 pb-safe bg-cc-input-bg sm:bg-transparent">
       <div className="max-w-3xl mx-auto">
+        {exceededBudget && (
+          <div className="mb-2 mx-3 sm:mx-0 px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+            Budget reached ({exceededBudget.label}: {formatUsd(exceededBudget.spent_usd)} of {formatUsd(exceededBudget.limit_usd)}).
+            Raise it in the Budgets section of the side panel to send new messages.
+          </div>
+        )}
+
+        {lockedBy && (
+          <div className="mb-2 mx-3 sm:mx-0 px-3 py-2 rounded-lg bg-cc-hover border border-cc-border text-xs text-cc-fg flex items-center gap-2">
+            <span className="flex-1 min-w-0">
+              {lockedBy.name} is driving this session. You can watch, but only they can send messages.
+            </span>
+            <button
+              onClick={() => sendToSession(sessionId, { type: controlRequested ? "driver_release" : "driver_claim" })}
+              className="shrink-0 px-2 py-1 rounded-md bg-cc-card border border-cc-border hover:bg-cc-active cursor-pointer"
+            >
+              {controlRequested ? "Cancel request" : "Request control"}
+            </button>
+          </div>
+        )}
+
+        {othersTyping.length > 0 && (
+          <div className="mb-1 mx-3 sm:mx-0 text-[11px] text-cc-muted" aria-live="polite">
+            {othersTyping.map((v) => v.name).join(", ")} {othersTyping.length === 1 ? "is" : "are"} typing…
+          </div>
+        )}
+
+        <PromptQueuePanel sessionId={sessionId} disabled={!!lockedBy} />
+
         {/* Image thumbnails */}
         {images.length > 0 && (
           <div className="flex items-center gap-2 mb-2 px-3 sm:px-0 flex-wrap">
@@ -583,6 +664,8 @@ export function Composer({ sessionId }: { sessionId: string }) {
               <span>{modeLabel}</span>
             </button>
 
+            <ThinkingBudgetPicker sessionId={sessionId} />
+
             <div className="flex-1" />
 
             <button
@@ -652,6 +735,8 @@ export function Composer({ sessionId }: { sessionId: string }) {
               <span>{modeLabel}</span>
             </button>
 
+            <ThinkingBudgetPicker sessionId={sessionId} className="mb-0.5 hidden sm:block" />
+
             <textarea
               ref={textareaRef}
               value={text}
@@ -661,9 +746,11 @@ export function Composer({ sessionId }: { sessionId: string }) {
               onKeyUp={syncCaret}
               onPaste={handlePaste}
               aria-label="Message input"
-              placeholder={isConnected
-                ? "Type a message... (/ + @)"
-                : "Waiting for CLI connection..."}
+              placeholder={!isConnected
+                ? "Waiting for CLI connection..."
+                : isRunning
+                  ? "Queue a message for when the agent is done..."
+                  : "Type a message... (/ + @)"}
               disabled={!isConnected}
               rows={1}
               className="flex-1 min-w-0 px-2 py-2 text-base sm:text-sm bg-transparent resize-none outline-none text-cc-fg font-sans-ui placeholder:text-cc-muted disabled:opacity-50 overflow-y-auto"
@@ -711,6 +798,17 @@ export function Composer({ sessionId }: { sessionId: string }) {
               </button>
 
               {/* Send/stop: always visible */}
+              {isRunning && canSend && (
+                <button
+                  onClick={handleSend}
+                  className="flex items-center justify-center w-10 h-10 sm:w-9 sm:h-9 rounded-lg border border-cc-border text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                  title="Queue message"
+                >
+                  <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-4 h-4">
+                    <path d="M3 4h10M3 8h10M3 12h6M12 10v4M10 12h4" strokeLinecap="round" />
+                  </svg>
+                </button>
+              )}
               {isRunning ? (
                 <button
                   onClick={handleInterrupt}
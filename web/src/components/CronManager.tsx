@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { createPortal } from "react-dom";
-import { api, type CronJobInfo } from "../api.js";
+import { api, type CronJobInfo, type CronOverlapPolicy, type CronTrigger, type SessionPreset } from "../api.js";
 import { getModelsForBackend, getDefaultModel, toModelOptions, type ModelOption } from "../utils/backends.js";
 import { FolderPicker } from "./FolderPicker.js";
+import { CronRunHistory } from "./CronRunHistory.js";
 import { timeAgo } from "../utils/time-ago.js";
+import type { ThinkingLevel } from "../types.js";
 import { useClickOutside } from "../utils/use-click-outside.js";
 
 interface Props {
@@ -73,15 +75,56 @@ function humanizeSchedule(schedule: string, recurring: boolean): string {
   return schedule;
 }
 
+/** One line on what starts the job, for the job list. */
+function describeTrigger(job: CronJobInfo, jobs: CronJobInfo[]): string {
+  const trigger = job.trigger ?? { kind: "schedule" };
+  switch (trigger.kind) {
+    case "schedule":
+      return humanizeSchedule(job.schedule, job.recurring);
+    case "watch":
+      return `When ${trigger.glob} changes`;
+    case "git":
+      return `On new commits to ${trigger.remote}/${trigger.branch}`;
+    case "job": {
+      const upstream = jobs.find((j) => j.id === trigger.jobId)?.name ?? trigger.jobId;
+      return trigger.on === "success" ? `After "${upstream}" succeeds` : `After "${upstream}" finishes`;
+    }
+    case "manual":
+      return "Manual only";
+  }
+}
+
 interface JobFormData {
   name: string;
   prompt: string;
+  triggerKind: CronTrigger["kind"];
   recurring: boolean;
   schedule: string;
   oneTimeDate: string;
   backendType: "claude" | "codex";
   model: string;
   cwd: string;
+  /** "" = backend default */
+  thinkingLevel: ThinkingLevel | "";
+  thinkingTokens: string;
+  /** Cost cap per run in USD; "" = no cap */
+  budgetUsd: string;
+  /** Session preset to launch from; "" = none */
+  presetId: string;
+  /** File watch; an empty directory means the job's folder */
+  watchDir: string;
+  watchGlob: string;
+  watchDebounceSeconds: string;
+  gitRemote: string;
+  gitBranch: string;
+  gitIntervalMinutes: string;
+  afterJobId: string;
+  afterOn: "success" | "any";
+  overlapPolicy: CronOverlapPolicy;
+  /** "" = no limit */
+  maxRuntimeMinutes: string;
+  maxRetries: string;
+  retryBackoffSeconds: string;
 }
 
 const EMPTY_FORM: JobFormData = {
@@ -93,8 +136,89 @@ const EMPTY_FORM: JobFormData = {
   backendType: "claude",
   model: getDefaultModel("claude"),
   cwd: "",
+  thinkingLevel: "",
+  thinkingTokens: "",
+  budgetUsd: "",
+  presetId: "",
+  triggerKind: "schedule",
+  watchDir: "",
+  watchGlob: "**/*",
+  watchDebounceSeconds: "30",
+  gitRemote: "origin",
+  gitBranch: "main",
+  gitIntervalMinutes: "5",
+  afterJobId: "",
+  afterOn: "success",
+  overlapPolicy: "skip",
+  maxRuntimeMinutes: "",
+  maxRetries: "0",
+  retryBackoffSeconds: "60",
 };
 
+/** Run policy fields for create and update; blank values reset them on the server. */
+function runPolicyPayload(form: JobFormData): Partial<CronJobInfo> {
+  return {
+    overlapPolicy: form.overlapPolicy,
+    maxRuntimeMinutes: Number(form.maxRuntimeMinutes) || 0,
+    maxRetries: Number(form.maxRetries) || 0,
+    retryBackoffSeconds: Number(form.retryBackoffSeconds) || undefined,
+  };
+}
+
+function triggerPayload(form: JobFormData): CronTrigger {
+  switch (form.triggerKind) {
+    case "watch":
+      return {
+        kind: "watch",
+        dir: form.watchDir.trim() || form.cwd.trim(),
+        glob: form.watchGlob.trim(),
+        debounceSeconds: Number(form.watchDebounceSeconds) || 30,
+      };
+    case "git":
+      return {
+        kind: "git",
+        remote: form.gitRemote.trim() || "origin",
+        branch: form.gitBranch.trim(),
+        intervalMinutes: Number(form.gitIntervalMinutes) || 5,
+      };
+    case "job":
+      return { kind: "job", jobId: form.afterJobId, on: form.afterOn };
+    default:
+      return { kind: form.triggerKind };
+  }
+}
+
+/** Form fields for a job's trigger; the rest keep their defaults. */
+function triggerFormFields(trigger: CronTrigger | undefined): Partial<JobFormData> {
+  if (!trigger) return { triggerKind: "schedule" };
+  switch (trigger.kind) {
+    case "watch":
+      return {
+        triggerKind: "watch",
+        watchDir: trigger.dir,
+        watchGlob: trigger.glob,
+        watchDebounceSeconds: String(trigger.debounceSeconds),
+      };
+    case "git":
+      return {
+        triggerKind: "git",
+        gitRemote: trigger.remote,
+        gitBranch: trigger.branch,
+        gitIntervalMinutes: String(trigger.intervalMinutes),
+      };
+    case "job":
+      return { triggerKind: "job", afterJobId: trigger.jobId, afterOn: trigger.on };
+    default:
+      return { triggerKind: trigger.kind };
+  }
+}
+
+function thinkingBudgetPayload(form: JobFormData): { thinkingLevel: ThinkingLevel | null; thinkingTokens?: number } {
+  if (!form.thinkingLevel) return { thinkingLevel: null };
+  if (form.thinkingLevel !== "custom") return { thinkingLevel: form.thinkingLevel };
+  return { thinkingLevel: "custom", thinkingTokens: Number(form.thinkingTokens) };
+}
+
 const CRON_PRESETS: { label: string; value: string }[] = [
   { label: "Every hour", value: "0 * * * *" },
   { label: "Every day at 8am", value: "0 8 * * *" },
@@ -114,6 +238,7 @@ export function CronManager({ onClose, embedded = false }: Props) {
   const [creating, setCreating] = useState(false);
   const [createCollapsed, setCreateCollapsed] = useState(true);
   const [runningIds, setRunningIds] = useState<Set<string>>(new Set());
+  const [presets, setPresets] = useState<SessionPreset[]>([]);
 
   const refresh = useCallback(() => {
     api.listCronJobs().then(setJobs).catch(() => {}).finally(() => setLoading(false));
@@ -125,6 +250,10 @@ export function CronManager({ onClose, embedded = false }: Props) {
     return () => clearInterval(interval);
   }, [refresh]);
 
+  useEffect(() => {
+    api.listPresets().then(setPresets).catch(() => {});
+  }, []);
+
   // ─── Create ──────────────────────────────────────────────────────────
 
   async function handleCreate() {
@@ -149,6 +278,11 @@ export function CronManager({ onClose, embedded = false }: Props) {
         backendType: createForm.backendType,
         model: createForm.model.trim() || undefined,
         cwd: createForm.cwd.trim() || undefined,
+        ...thinkingBudgetPayload(createForm),
+        budgetUsd: createForm.budgetUsd ? Number(createForm.budgetUsd) : undefined,
+        presetId: createForm.presetId || undefined,
+        trigger: triggerPayload(createForm),
+        ...runPolicyPayload(createForm),
       } as Partial<CronJobInfo>);
       setCreateForm(EMPTY_FORM);
       setCreateCollapsed(true);
@@ -165,6 +299,8 @@ export function CronManager({ onClose, embedded = false }: Props) {
   function startEdit(job: CronJobInfo) {
     setEditingId(job.id);
     setEditForm({
+      ...EMPTY_FORM,
+      ...triggerFormFields(job.trigger),
       name: job.name,
       prompt: job.prompt,
       recurring: job.recurring,
@@ -173,6 +309,14 @@ export function CronManager({ onClose, embedded = false }: Props) {
       backendType: job.backendType,
       model: job.model,
       cwd: job.cwd,
+      thinkingLevel: job.thinkingLevel ?? "",
+      thinkingTokens: job.thinkingTokens ? String(job.thinkingTokens) : "",
+      budgetUsd: job.budgetUsd ? String(job.budgetUsd) : "",
+      presetId: job.presetId ?? "",
+      overlapPolicy: job.overlapPolicy ?? "skip",
+      maxRuntimeMinutes: job.maxRuntimeMinutes ? String(job.maxRuntimeMinutes) : "",
+      maxRetries: String(job.maxRetries ?? 0),
+      retryBackoffSeconds: String(job.retryBackoffSeconds ?? 60),
     });
     setError("");
   }
@@ -202,6 +346,13 @@ export function CronManager({ onClose, embedded = false }: Props) {
         backendType: editForm.backendType,
         model: editForm.model.trim() || undefined,
         cwd: editForm.cwd.trim() || undefined,
+        ...thinkingBudgetPayload(editForm),
+        // 0 clears the cap on the server
+        budgetUsd: editForm.budgetUsd ? Number(editForm.budgetUsd) : 0,
+        // "" unlinks the preset
+        presetId: editForm.presetId,
+        trigger: triggerPayload(editForm),
+        ...runPolicyPayload(editForm),
       } as Partial<CronJobInfo>);
       setEditingId(null);
       setError("");
@@ -340,10 +491,28 @@ export function CronManager({ onClose, embedded = false }: Props) {
             )}
           </div>
 
+          {/* Turned off by the scheduler after repeated failures */}
+          {!job.enabled && job.disabledReason && (
+            <div className="flex items-start gap-2 px-3 py-2 bg-cc-error/10 border-b border-cc-error/20 text-xs text-cc-error">
+              <span className="flex-1 min-w-0 break-words">{job.disabledReason}</span>
+              <button
+                onClick={() => handleToggle(job.id)}
+                className="shrink-0 font-medium hover:underline cursor-pointer"
+              >
+                Turn back on
+              </button>
+            </div>
+          )}
+
           {/* Edit form (inline) */}
           {editingId === job.id && (
             <div className="px-3 py-3 space-y-2.5">
-              <JobForm form={editForm} onChange={setEditForm} />
+              <JobForm
+                form={editForm}
+                onChange={setEditForm}
+                presets={presets}
+                otherJobs={jobs.filter((j) => j.id !== job.id)}
+              />
               <div className="flex items-center gap-2">
                 <button
                   onClick={saveEdit}
@@ -371,8 +540,8 @@ export function CronManager({ onClose, embedded = false }: Props) {
 
               {/* Info row */}
               <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-cc-muted">
-                {/* Schedule */}
-                <span>{humanizeSchedule(job.schedule, job.recurring)}</span>
+                {/* Trigger */}
+                <span>{describeTrigger(job, jobs)}</span>
 
                 {/* Next run */}
                 {job.nextRunAt != null && job.enabled && (
@@ -435,7 +604,7 @@ export function CronManager({ onClose, embedded = false }: Props) {
       </button>
       {!createCollapsed && (
         <div className="px-3 py-3 space-y-2.5">
-          <JobForm form={createForm} onChange={setCreateForm} />
+          <JobForm form={createForm} onChange={setCreateForm} presets={presets} otherJobs={jobs} />
           <div className="text-[10px] text-cc-muted">
             Scheduled tasks run with full autonomy (bypassPermissions)
           </div>
@@ -476,6 +645,10 @@ export function CronManager({ onClose, embedded = false }: Props) {
             <section className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-3">
               {createSection}
             </section>
+            <section className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-3">
+              <h2 className="text-sm font-semibold text-cc-fg">Run history</h2>
+              <CronRunHistory jobs={jobs} />
+            </section>
           </div>
         </div>
       </div>
@@ -509,6 +682,10 @@ export function CronManager({ onClose, embedded = false }: Props) {
         {errorBanner}
         {jobsList}
         {createSection}
+        <div className="space-y-3">
+          <h3 className="text-xs font-semibold text-cc-fg">Run history</h3>
+          <CronRunHistory jobs={jobs} />
+        </div>
       </div>
     </div>
   );
@@ -523,12 +700,29 @@ export function CronManager({ onClose, embedded = false }: Props) {
 
 // ─── Shared Job Form ─────────────────────────────────────────────────────────
 
+const INPUT_CLASS =
+  "px-3 py-2 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50";
+
+const TRIGGER_OPTIONS: { label: string; kind: CronTrigger["kind"]; recurring: boolean }[] = [
+  { label: "Recurring", kind: "schedule", recurring: true },
+  { label: "One-time", kind: "schedule", recurring: false },
+  { label: "File changes", kind: "watch", recurring: true },
+  { label: "New commits", kind: "git", recurring: true },
+  { label: "After task", kind: "job", recurring: true },
+  { label: "Manual only", kind: "manual", recurring: true },
+];
+
 function JobForm({
   form,
   onChange,
+  presets,
+  otherJobs,
 }: {
   form: JobFormData;
   onChange: (form: JobFormData) => void;
+  presets: SessionPreset[];
+  /** Jobs this one can be chained after */
+  otherJobs: CronJobInfo[];
 }) {
   const update = (partial: Partial<JobFormData>) =>
     onChange({ ...form, ...partial });
@@ -597,32 +791,29 @@ function JobForm({
         style={{ minHeight: "100px" }}
       />
 
-      {/* Schedule type toggle */}
+      {/* Trigger toggle */}
       <div className="space-y-2">
-        <div className="flex items-center gap-1.5">
-          <button
-            onClick={() => update({ recurring: true })}
-            className={`px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors cursor-pointer ${
-              form.recurring
-                ? "bg-cc-primary text-white"
-                : "bg-cc-hover text-cc-muted hover:text-cc-fg"
-            }`}
-          >
-            Recurring
-          </button>
-          <button
-            onClick={() => update({ recurring: false })}
-            className={`px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors cursor-pointer ${
-              !form.recurring
-                ? "bg-cc-primary text-white"
-                : "bg-cc-hover text-cc-muted hover:text-cc-fg"
-            }`}
-          >
-            One-time
-          </button>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {TRIGGER_OPTIONS.map((option) => {
+            const selected = option.kind === form.triggerKind
+              && (option.kind !== "schedule" || option.recurring === form.recurring);
+            return (
+              <button
+                key={option.label}
+                onClick={() => update({ triggerKind: option.kind, recurring: option.recurring })}
+                className={`px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors cursor-pointer ${
+                  selected
+                    ? "bg-cc-primary text-white"
+                    : "bg-cc-hover text-cc-muted hover:text-cc-fg"
+                }`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
         </div>
 
-        {form.recurring ? (
+        {form.triggerKind === "schedule" && (form.recurring ? (
           <div className="space-y-1.5">
             {/* Cron presets */}
             <div className="flex flex-wrap gap-1.5">
@@ -646,7 +837,7 @@ function JobForm({
               value={form.schedule}
               onChange={(e) => update({ schedule: e.target.value })}
               placeholder="Cron expression (e.g. 0 8 * * *)"
-              className="w-full px-3 py-2 text-sm font-mono-code bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+              className={`w-full ${INPUT_CLASS} font-mono-code`}
             />
             <div className="text-[10px] text-cc-muted">
               {humanizeSchedule(form.schedule, true)}
@@ -657,8 +848,109 @@ function JobForm({
             type="datetime-local"
             value={form.oneTimeDate}
             onChange={(e) => update({ oneTimeDate: e.target.value })}
-            className="w-full px-3 py-2 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+            className={`w-full ${INPUT_CLASS}`}
           />
+        ))}
+
+        {form.triggerKind === "watch" && (
+          <div className="space-y-1.5">
+            <div className="flex gap-1.5">
+              <input
+                type="text"
+                value={form.watchGlob}
+                onChange={(e) => update({ watchGlob: e.target.value })}
+                placeholder="Files to watch (e.g. src/**/*.ts)"
+                aria-label="Files to watch"
+                className={`flex-1 min-w-0 ${INPUT_CLASS} font-mono-code`}
+              />
+              <input
+                type="number"
+                min={1}
+                value={form.watchDebounceSeconds}
+                onChange={(e) => update({ watchDebounceSeconds: e.target.value })}
+                aria-label="Quiet period in seconds"
+                title="Seconds without changes before the task runs"
+                className={`w-20 ${INPUT_CLASS}`}
+              />
+            </div>
+            <input
+              type="text"
+              value={form.watchDir}
+              onChange={(e) => update({ watchDir: e.target.value })}
+              placeholder={form.cwd ? `Directory (defaults to ${form.cwd})` : "Directory to watch (absolute path)"}
+              aria-label="Directory to watch"
+              className={`w-full ${INPUT_CLASS} font-mono-code`}
+            />
+            <div className="text-[10px] text-cc-muted">
+              Runs once matching files stop changing for {form.watchDebounceSeconds || "30"}s. .git and node_modules are ignored.
+            </div>
+          </div>
+        )}
+
+        {form.triggerKind === "git" && (
+          <div className="space-y-1.5">
+            <div className="flex gap-1.5">
+              <input
+                type="text"
+                value={form.gitRemote}
+                onChange={(e) => update({ gitRemote: e.target.value })}
+                placeholder="Remote"
+                aria-label="Remote"
+                className={`w-28 ${INPUT_CLASS} font-mono-code`}
+              />
+              <input
+                type="text"
+                value={form.gitBranch}
+                onChange={(e) => update({ gitBranch: e.target.value })}
+                placeholder="Branch"
+                aria-label="Branch"
+                className={`flex-1 min-w-0 ${INPUT_CLASS} font-mono-code`}
+              />
+              <input
+                type="number"
+                min={1}
+                value={form.gitIntervalMinutes}
+                onChange={(e) => update({ gitIntervalMinutes: e.target.value })}
+                aria-label="Fetch interval in minutes"
+                title="Minutes between fetches"
+                className={`w-20 ${INPUT_CLASS}`}
+              />
+            </div>
+            <div className="text-[10px] text-cc-muted">
+              Fetches every {form.gitIntervalMinutes || "5"} min in the task's folder and runs when the branch moves.
+            </div>
+          </div>
+        )}
+
+        {form.triggerKind === "job" && (
+          <div className="flex gap-1.5">
+            <select
+              value={form.afterJobId}
+              onChange={(e) => update({ afterJobId: e.target.value })}
+              aria-label="Run after task"
+              className={`flex-1 min-w-0 ${INPUT_CLASS}`}
+            >
+              <option value="">Select a task...</option>
+              {otherJobs.map((job) => (
+                <option key={job.id} value={job.id}>{job.name}</option>
+              ))}
+            </select>
+            <select
+              value={form.afterOn}
+              onChange={(e) => update({ afterOn: e.target.value as JobFormData["afterOn"] })}
+              aria-label="Run when"
+              className={INPUT_CLASS}
+            >
+              <option value="success">if it succeeds</option>
+              <option value="any">whenever it finishes</option>
+            </select>
+          </div>
+        )}
+
+        {form.triggerKind === "manual" && (
+          <div className="text-[10px] text-cc-muted">
+            Runs only when started with Run Now.
+          </div>
         )}
       </div>
 
@@ -712,6 +1004,69 @@ function JobForm({
           )}
         </div>
 
+        {/* Thinking budget (Codex maps it to reasoning effort) */}
+        <select
+          value={form.thinkingLevel}
+          onChange={(e) => update({ thinkingLevel: e.target.value as ThinkingLevel | "" })}
+          aria-label="Thinking budget"
+          title={form.backendType === "codex" ? "Reasoning effort" : "Thinking budget"}
+          className="px-2 py-1.5 text-xs text-cc-muted bg-transparent rounded-lg hover:bg-cc-hover transition-colors cursor-pointer border border-cc-border focus:outline-none"
+        >
+          <option value="">Default thinking</option>
+          <option value="off">Thinking off</option>
+          <option value="low">Low thinking</option>
+          <option value="medium">Medium thinking</option>
+          <option value="high">High thinking</option>
+          <option value="custom">Custom thinking</option>
+        </select>
+        {form.thinkingLevel === "custom" && (
+          <input
+            type="number"
+            min={1}
+            step={1000}
+            value={form.thinkingTokens}
+            onChange={(e) => update({ thinkingTokens: e.target.value })}
+            placeholder="Tokens"
+            aria-label="Thinking tokens"
+            className="w-24 px-2 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+          />
+        )}
+
+        {/* Cost cap per run; the run is interrupted once it is reached */}
+        <input
+          type="number"
+          min={0.01}
+          step="any"
+          value={form.budgetUsd}
+          onChange={(e) => update({ budgetUsd: e.target.value })}
+          placeholder="Budget $"
+          aria-label="Budget per run (USD)"
+          title="Cost cap per run (USD)"
+          className="w-24 px-2 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+        />
+
+        {/* Preset launch settings replace the job's; its prompt runs first */}
+        {(presets.length > 0 || form.presetId) && (
+          <select
+            value={form.presetId}
+            onChange={(e) => update({ presetId: e.target.value })}
+            aria-label="Session preset"
+            title="Launch settings and first prompt come from this preset"
+            className="px-2 py-1.5 text-xs text-cc-muted bg-transparent rounded-lg hover:bg-cc-hover transition-colors cursor-pointer border border-cc-border focus:outline-none"
+          >
+            <option value="">No preset</option>
+            {presets.map((p) => {
+              // Scheduled runs launch on the host; the server rejects these presets
+              const hostOnly = !!(p.options.container || p.options.useWorktree || p.options.branch);
+              return (
+                <option key={p.id} value={p.id} disabled={hostOnly && p.id !== form.presetId}>
+                  {hostOnly ? `${p.name} (container/worktree: not for scheduled runs)` : p.name}
+                </option>
+              );
+            })}
+          </select>
+        )}
+
         {/* Folder picker */}
         <button
           onClick={() => setShowFolderPicker(true)}
@@ -733,6 +1088,58 @@ function JobForm({
           />
         )}
       </div>
+
+      {/* Run policy: overlap, runtime limit, retries */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <select
+          value={form.overlapPolicy}
+          onChange={(e) => update({ overlapPolicy: e.target.value as CronOverlapPolicy })}
+          aria-label="If the previous run is still going"
+          title="What happens when the task fires while its previous run is still going"
+          className="px-2 py-1.5 text-xs text-cc-muted bg-transparent rounded-lg hover:bg-cc-hover transition-colors cursor-pointer border border-cc-border focus:outline-none"
+        >
+          <option value="skip">Skip if still running</option>
+          <option value="queue">Queue after current run</option>
+          <option value="kill">Stop previous run</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={form.maxRuntimeMinutes}
+          onChange={(e) => update({ maxRuntimeMinutes: e.target.value })}
+          placeholder="Time limit (min)"
+          aria-label="Time limit per run (minutes)"
+          title="The run is interrupted at this limit, then stopped if it keeps going"
+          className="w-32 px-2 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+        />
+        <label className="flex items-center gap-1 text-xs text-cc-muted">
+          Retries
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={form.maxRetries}
+            onChange={(e) => update({ maxRetries: e.target.value })}
+            aria-label="Retries after a failed run"
+            className="w-14 px-2 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/50"
+          />
+        </label>
+        {Number(form.maxRetries) > 0 && (
+          <label className="flex items-center gap-1 text-xs text-cc-muted">
+            first after
+            <input
+              type="number"
+              min={1}
+              value={form.retryBackoffSeconds}
+              onChange={(e) => update({ retryBackoffSeconds: e.target.value })}
+              aria-label="Seconds before the first retry"
+              title="Each retry waits twice as long as the one before"
+              className="w-16 px-2 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/50"
+            />
+            s, doubling
+          </label>
+        )}
+      </div>
     </div>
   );
 }
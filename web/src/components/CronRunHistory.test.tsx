@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+const mockApi = {
+  listCronExecutions: vi.fn(),
+  getCronExecutionDiff: vi.fn(),
+};
+
+vi.mock("../api.js", () => ({
+  api: {
+    listCronExecutions: (...args: unknown[]) => mockApi.listCronExecutions(...args),
+    getCronExecutionDiff: (...args: unknown[]) => mockApi.getCronExecutionDiff(...args),
+  },
+}));
+
+vi.mock("./DiffViewer.js", () => ({
+  DiffViewer: ({ unifiedDiff }: { unifiedDiff: string }) => <pre data-testid="diff">{unifiedDiff}</pre>,
+}));
+
+const mockNavigateToSession = vi.fn();
+vi.mock("../utils/routing.js", () => ({
+  navigateToSession: (...args: unknown[]) => mockNavigateToSession(...args),
+}));
+
+import { CronRunHistory } from "./CronRunHistory.js";
+
+const runs = [
+  {
+    sessionId: "s2", jobId: "nightly", jobName: "Nightly", startedAt: Date.now() - 60_000, completedAt: Date.now(),
+    success: false, error: "Reached max turns", resultSubtype: "error_max_turns", triggeredBy: "Schedule",
+    sessionStatus: "gone",
+  },
+  {
+    sessionId: "s1", jobId: "nightly", jobName: "Nightly", startedAt: Date.now() - 120_000, completedAt: Date.now(),
+    success: true, summary: "Fixed the flaky test.", triggeredBy: "Manual run", durationMs: 95_000, numTurns: 4,
+    linesAdded: 12, linesRemoved: 3, costUsd: 0.5, hasDiff: true, sessionStatus: "archived",
+  },
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockApi.listCronExecutions.mockResolvedValue(runs);
+  mockApi.getCronExecutionDiff.mockResolvedValue({ diff: "diff --git a/x b/x" });
+});
+
+describe("CronRunHistory", () => {
+  it("lists runs with their outcome and filters them", async () => {
+    render(<CronRunHistory jobs={[]} />);
+
+    expect(await screen.findByText("Failed (max turns)")).toBeInTheDocument();
+    expect(screen.getByText("Succeeded", { selector: "span" })).toBeInTheDocument();
+    expect(screen.getByText("1m 35s")).toBeInTheDocument();
+    expect(screen.getByText("+12")).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Filter by outcome"), { target: { value: "failed" } });
+    expect(screen.queryByText("Succeeded", { selector: "span" })).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Filter by outcome"), { target: { value: "all" } });
+    fireEvent.change(screen.getByLabelText("Search runs"), { target: { value: "flaky" } });
+    expect(screen.queryByText("Failed (max turns)")).not.toBeInTheDocument();
+    expect(screen.getByText("Succeeded", { selector: "span" })).toBeInTheDocument();
+  });
+
+  it("shows a run's summary, session link and diff", async () => {
+    render(<CronRunHistory jobs={[]} />);
+
+    fireEvent.click(await screen.findByText("Succeeded", { selector: "span" }));
+    expect(screen.getByText("Fixed the flaky test.")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Open archived session"));
+    expect(mockNavigateToSession).toHaveBeenCalledWith("s1");
+
+    fireEvent.click(screen.getByText("Show diff"));
+    await waitFor(() => expect(screen.getByTestId("diff")).toHaveTextContent("diff --git a/x b/x"));
+    expect(mockApi.getCronExecutionDiff).toHaveBeenCalledWith("nightly", "s1");
+  });
+});
@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { api, type CronJobExecution, type CronJobInfo } from "../api.js";
+import { formatUsd } from "../utils/budgets.js";
+import { navigateToSession } from "../utils/routing.js";
+import { timeAgo } from "../utils/time-ago.js";
+import { DiffViewer } from "./DiffViewer.js";
+
+const POLL_MS = 10_000;
+
+type OutcomeFilter = "all" | "succeeded" | "failed" | "running";
+
+function outcomeOf(run: CronJobExecution): Exclude<OutcomeFilter, "all"> {
+  if (!run.completedAt) return "running";
+  return run.success ? "succeeded" : "failed";
+}
+
+function formatDuration(ms: number): string {
+  const secs = Math.round(ms / 1000);
+  if (secs < 60) return `${secs}s`;
+  const mins = Math.floor(secs / 60);
+  if (mins < 60) return `${mins}m ${secs % 60}s`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+function Outcome({ run }: { run: CronJobExecution }) {
+  const outcome = outcomeOf(run);
+  if (outcome === "running") return <span className="text-cc-muted">Running</span>;
+  if (outcome === "succeeded") return <span className="text-cc-success">Succeeded</span>;
+  const detail = run.resultSubtype && run.resultSubtype !== "error_during_execution"
+    ? ` (${run.resultSubtype.replace(/^error_/, "").replace(/_/g, " ")})`
+    : "";
+  return <span className="text-cc-error">Failed{detail}</span>;
+}
+
+/** Every job's past runs, with what each one said and changed. */
+export function CronRunHistory({ jobs }: { jobs: CronJobInfo[] }) {
+  const [runs, setRuns] = useState<CronJobExecution[] | null>(null);
+  const [jobFilter, setJobFilter] = useState("");
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>("all");
+  const [query, setQuery] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  /** Keyed by session id; null while loading */
+  const [diffs, setDiffs] = useState<Record<string, string | null>>({});
+  const [diffError, setDiffError] = useState("");
+
+  const load = useCallback(() => {
+    api.listCronExecutions().then(setRuns).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  // Runs of deleted jobs are dropped with the job; renamed ones keep the name they ran under.
+  const jobOptions = useMemo(() => {
+    const names = new Map(jobs.map((j) => [j.id, j.name]));
+    for (const run of runs ?? []) {
+      if (!names.has(run.jobId)) names.set(run.jobId, run.jobName ?? run.jobId);
+    }
+    return [...names].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [jobs, runs]);
+  const jobNames = useMemo(() => new Map(jobOptions), [jobOptions]);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (runs ?? []).filter((run) => {
+      if (jobFilter && run.jobId !== jobFilter) return false;
+      if (outcomeFilter !== "all" && outcomeOf(run) !== outcomeFilter) return false;
+      if (!needle) return true;
+      return [run.summary, run.error, run.triggeredBy].some((text) => text?.toLowerCase().includes(needle));
+    });
+  }, [runs, jobFilter, outcomeFilter, query]);
+
+  function showDiff(run: CronJobExecution) {
+    setDiffError("");
+    setDiffs((prev) => ({ ...prev, [run.sessionId]: null }));
+    api.getCronExecutionDiff(run.jobId, run.sessionId)
+      .then(({ diff }) => setDiffs((prev) => ({ ...prev, [run.sessionId]: diff })))
+      .catch((e: unknown) => {
+        setDiffs((prev) => {
+          const next = { ...prev };
+          delete next[run.sessionId];
+          return next;
+        });
+        setDiffError(e instanceof Error ? e.message : String(e));
+      });
+  }
+
+  const selectClass = "px-2 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/50";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <select value={jobFilter} onChange={(e) => setJobFilter(e.target.value)} aria-label="Filter by task" className={selectClass}>
+          <option value="">All tasks</option>
+          {jobOptions.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <select
+          value={outcomeFilter}
+          onChange={(e) => setOutcomeFilter(e.target.value as OutcomeFilter)}
+          aria-label="Filter by outcome"
+          className={selectClass}
+        >
+          <option value="all">Any outcome</option>
+          <option value="succeeded">Succeeded</option>
+          <option value="failed">Failed</option>
+          <option value="running">Running</option>
+        </select>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search summaries"
+          aria-label="Search runs"
+          className={`flex-1 min-w-[140px] ${selectClass} placeholder:text-cc-muted`}
+        />
+      </div>
+
+      {runs === null ? (
+        <div className="text-sm text-cc-muted text-center py-6">Loading run history...</div>
+      ) : filtered.length === 0 ? (
+        <div className="text-sm text-cc-muted text-center py-6">
+          {runs.length === 0 ? "No runs yet." : "No runs match these filters."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-cc-muted border-b border-cc-border">
+                <th className="py-1.5 pr-3 font-medium">Started</th>
+                <th className="py-1.5 pr-3 font-medium">Task</th>
+                <th className="py-1.5 pr-3 font-medium">Trigger</th>
+                <th className="py-1.5 pr-3 font-medium">Outcome</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Duration</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Turns</th>
+                <th className="py-1.5 pr-3 font-medium text-right">Lines</th>
+                <th className="py-1.5 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map((run) => {
+                const key = `${run.jobId}:${run.sessionId}:${run.startedAt}`;
+                const isOpen = expanded === key;
+                const diff = diffs[run.sessionId];
+                return [
+                  <tr
+                    key={key}
+                    onClick={() => setExpanded(isOpen ? null : key)}
+                    aria-expanded={isOpen}
+                    className="border-b border-cc-border/60 hover:bg-cc-hover cursor-pointer"
+                  >
+                    <td className="py-1.5 pr-3 whitespace-nowrap" title={new Date(run.startedAt).toLocaleString()}>
+                      {timeAgo(run.startedAt)}
+                    </td>
+                    <td className="py-1.5 pr-3 truncate max-w-[160px]">{jobNames.get(run.jobId) ?? run.jobName ?? run.jobId}</td>
+                    <td className="py-1.5 pr-3 truncate max-w-[180px] text-cc-muted">{run.triggeredBy ?? "—"}</td>
+                    <td className="py-1.5 pr-3 whitespace-nowrap"><Outcome run={run} /></td>
+                    <td className="py-1.5 pr-3 text-right tabular-nums">
+                      {run.durationMs != null ? formatDuration(run.durationMs) : "—"}
+                    </td>
+                    <td className="py-1.5 pr-3 text-right tabular-nums">{run.numTurns ?? "—"}</td>
+                    <td className="py-1.5 pr-3 text-right tabular-nums whitespace-nowrap">
+                      {run.linesAdded != null || run.linesRemoved != null ? (
+                        <>
+                          <span className="text-cc-success">+{run.linesAdded ?? 0}</span>{" "}
+                          <span className="text-cc-error">-{run.linesRemoved ?? 0}</span>
+                        </>
+                      ) : "—"}
+                    </td>
+                    <td className="py-1.5 text-right tabular-nums">{run.costUsd != null ? formatUsd(run.costUsd) : "—"}</td>
+                  </tr>,
+                  isOpen && (
+                    <tr key={`${key}:detail`} className="border-b border-cc-border/60">
+                      <td colSpan={8} className="py-2.5 space-y-2">
+                        {run.error && <p className="text-cc-error">{run.error}</p>}
+                        {run.summary ? (
+                          <p className="whitespace-pre-wrap text-cc-fg max-h-60 overflow-y-auto">{run.summary}</p>
+                        ) : (
+                          !run.error && <p className="text-cc-muted">No summary recorded.</p>
+                        )}
+                        <div className="flex items-center gap-1.5">
+                          {run.sessionStatus === "gone" ? (
+                            <span className="text-cc-muted">{run.sessionId ? "Session deleted" : "No session was started"}</span>
+                          ) : (
+                            <button
+                              onClick={() => navigateToSession(run.sessionId)}
+                              className="px-2 py-1 rounded-md text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                            >
+                              {run.sessionStatus === "archived" ? "Open archived session" : "Open session"}
+                            </button>
+                          )}
+                          {run.hasDiff && diff === undefined && (
+                            <button
+                              onClick={() => showDiff(run)}
+                              className="px-2 py-1 rounded-md text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                            >
+                              Show diff
+                            </button>
+                          )}
+                        </div>
+                        {diffError && diff === undefined && <p className="text-cc-error">{diffError}</p>}
+                        {run.hasDiff && diff !== undefined && (
+                          <div className="max-h-[480px] overflow-auto rounded-lg border border-cc-border">
+                            {diff === null ? (
+                              <p className="p-3 text-cc-muted">Loading diff...</p>
+                            ) : diff ? (
+                              <DiffViewer unifiedDiff={diff} mode="full" />
+                            ) : (
+                              <p className="p-3 text-cc-muted">This run changed no files</p>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ),
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
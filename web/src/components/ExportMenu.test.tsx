@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+const mockFetchSessionExport = vi.fn();
+
+vi.mock("../api.js", () => ({
+  fetchSessionExport: (...args: unknown[]) => mockFetchSessionExport(...args),
+}));
+
+import { ExportMenu } from "./ExportMenu.js";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  URL.createObjectURL = vi.fn(() => "blob:export");
+  URL.revokeObjectURL = vi.fn();
+});
+
+describe("ExportMenu", () => {
+  it("downloads the chosen format under the server's file name", async () => {
+    mockFetchSessionExport.mockResolvedValue({ blob: new Blob(["# Fix login"]), filename: "fix-login.md" });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+    render(<ExportMenu sessionId="s1" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Export transcript" }));
+    expect(screen.getAllByRole("menuitem").map((item) => item.textContent)).toEqual([
+      "MarkdownFor PR descriptions and docs",
+      "HTMLSingle file, viewable offline",
+      "JSONStructured transcript",
+    ]);
+    fireEvent.click(screen.getByRole("menuitem", { name: /Markdown/ }));
+
+    await waitFor(() => expect(click).toHaveBeenCalled());
+    expect(mockFetchSessionExport).toHaveBeenCalledWith("s1", "md");
+    expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe("fix-login.md");
+    await waitFor(() => expect(screen.queryByRole("menu")).toBeNull());
+    click.mockRestore();
+  });
+
+  it("shows export errors in the menu", async () => {
+    mockFetchSessionExport.mockRejectedValue(new Error("Session not found"));
+    render(<ExportMenu sessionId="s1" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Export transcript" }));
+    fireEvent.click(screen.getByRole("menuitem", { name: /HTML/ }));
+
+    expect(await screen.findByText("Session not found")).toBeInTheDocument();
+    expect(mockFetchSessionExport).toHaveBeenCalledWith("s1", "html");
+  });
+});
@@ -0,0 +1,73 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { fetchSessionExport, type SessionExportFormat } from "../api.js";
+import { useClickOutside } from "../utils/use-click-outside.js";
+
+const FORMATS: { format: SessionExportFormat; label: string; hint: string }[] = [
+  { format: "md", label: "Markdown", hint: "For PR descriptions and docs" },
+  { format: "html", label: "HTML", hint: "Single file, viewable offline" },
+  { format: "json", label: "JSON", hint: "Structured transcript" },
+];
+
+/** Download the session transcript in one of the export formats. */
+export function ExportMenu({ sessionId }: { sessionId: string }) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<SessionExportFormat | null>(null);
+  const [error, setError] = useState("");
+  const rootRef = useRef<HTMLDivElement>(null);
+  const refs = useMemo(() => [rootRef], []);
+  const close = useCallback(() => setOpen(false), []);
+  useClickOutside(refs, close, open);
+
+  async function handleExport(format: SessionExportFormat) {
+    setExporting(format);
+    setError("");
+    try {
+      const { blob, filename } = await fetchSessionExport(sessionId, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setOpen(false);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center justify-center w-7 h-7 rounded-md text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+        title="Export transcript"
+        aria-label="Export transcript"
+        aria-expanded={open}
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-[15px] h-[15px]">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v12m0 0l-4-4m4 4l4-4M4 17v2a2 2 0 002 2h12a2 2 0 002-2v-2" />
+        </svg>
+      </button>
+
+      {open && (
+        <div role="menu" className="absolute right-0 top-full mt-1 w-56 z-50 bg-cc-card border border-cc-border rounded-xl shadow-lg p-1 text-xs">
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="w-full flex flex-col items-start px-2.5 py-1.5 rounded-lg text-left hover:bg-cc-hover disabled:opacity-60 transition-colors cursor-pointer"
+            >
+              <span className="text-cc-fg">{exporting === format ? "Exporting..." : label}</span>
+              <span className="text-[11px] text-cc-muted">{hint}</span>
+            </button>
+          ))}
+          {error && <p className="px-2.5 py-1.5 text-cc-error">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
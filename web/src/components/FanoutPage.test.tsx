@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor, within } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+const mockApi = {
+  getFanout: vi.fn(),
+  getFanoutDiff: vi.fn(),
+  runFanoutTests: vi.fn(),
+  keepFanoutVariant: vi.fn(),
+};
+
+vi.mock("../api.js", () => ({
+  api: {
+    getFanout: (...args: unknown[]) => mockApi.getFanout(...args),
+    getFanoutDiff: (...args: unknown[]) => mockApi.getFanoutDiff(...args),
+    runFanoutTests: (...args: unknown[]) => mockApi.runFanoutTests(...args),
+    keepFanoutVariant: (...args: unknown[]) => mockApi.keepFanoutVariant(...args),
+  },
+}));
+
+vi.mock("./DiffViewer.js", () => ({
+  DiffViewer: ({ unifiedDiff }: { unifiedDiff: string }) => <pre data-testid="diff">{unifiedDiff}</pre>,
+}));
+
+import { FanoutPage } from "./FanoutPage.js";
+
+function makeGroup(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "fan1",
+    prompt: "Fix the flaky test",
+    cwd: "/repo",
+    repoRoot: "/repo",
+    baseBranch: "main",
+    baseCommit: "abc123",
+    testCommand: "bun test",
+    createdAt: 1,
+    testsRunning: false,
+    variants: [
+      {
+        backend: "claude", sessionId: "s1", label: "Claude · opus", branch: "main-wt-1", worktreePath: "/wt/1",
+        status: "connected", archived: false, costUsd: 0.42, numTurns: 3,
+        testResult: { passed: true, exitCode: 0, output: "", ranAt: 1 },
+      },
+      {
+        backend: "codex", sessionId: "s2", label: "Codex", branch: "main-wt-2", worktreePath: "/wt/2",
+        status: "running", archived: false, costUsd: 0, numTurns: 1,
+        testResult: { passed: false, exitCode: 1, output: "1 failing", ranAt: 1 },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockApi.getFanout.mockResolvedValue(makeGroup());
+  mockApi.getFanoutDiff.mockImplementation((_id: string, sessionId: string) =>
+    Promise.resolve({ diff: sessionId === "s1" ? "diff --git a/x b/x" : "" }));
+});
+
+describe("FanoutPage", () => {
+  it("shows each variant's cost, turns, test result and diff side by side", async () => {
+    render(<FanoutPage fanoutId="fan1" />);
+
+    const claude = await screen.findByRole("region", { name: "Claude · opus" });
+    expect(claude).toHaveTextContent("$0.42");
+    expect(claude).toHaveTextContent("Passed");
+    await waitFor(() => expect(screen.getByTestId("diff")).toHaveTextContent("diff --git a/x b/x"));
+
+    const codex = screen.getByRole("region", { name: "Codex" });
+    expect(codex).toHaveTextContent("Failed (exit 1)");
+    expect(codex).toHaveTextContent("No changes yet");
+  });
+
+  it("starts the tests in the background and polls for their results", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    try {
+      mockApi.runFanoutTests.mockResolvedValue(makeGroup({ testsRunning: true }));
+      render(<FanoutPage fanoutId="fan1" />);
+
+      fireEvent.click(await screen.findByRole("button", { name: "Run tests" }));
+      const running = await screen.findByRole("button", { name: "Running tests..." });
+      expect(running).toBeDisabled();
+      expect(mockApi.runFanoutTests).toHaveBeenCalledWith("fan1");
+
+      const done = makeGroup();
+      done.variants[1].testResult = { passed: true, exitCode: 0, output: "", ranAt: 2 };
+      mockApi.getFanout.mockResolvedValue(done);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(await screen.findByRole("button", { name: "Run tests" })).not.toBeDisabled();
+      expect(screen.getByRole("region", { name: "Codex" })).toHaveTextContent("Passed");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("keeps the chosen variant with the selected mode", async () => {
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    mockApi.keepFanoutVariant.mockResolvedValue(makeGroup({ kept: { sessionId: "s2", mode: "checkout", at: 2 } }));
+    render(<FanoutPage fanoutId="fan1" />);
+
+    const codex = await screen.findByRole("region", { name: "Codex" });
+    fireEvent.change(screen.getByLabelText("Keeping a variant will"), { target: { value: "checkout" } });
+    fireEvent.click(within(codex).getByRole("button", { name: "Keep this one" }));
+
+    await waitFor(() => expect(mockApi.keepFanoutVariant).toHaveBeenCalledWith("fan1", "s2", "checkout"));
+    expect(await screen.findByText("Kept")).toBeInTheDocument();
+    expect(screen.queryByText("Keep this one")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useState } from "react";
+import { api, type FanoutGroup, type FanoutKeepMode, type FanoutVariant } from "../api.js";
+import { formatUsd } from "../utils/budgets.js";
+import { navigateHome, navigateToSession } from "../utils/routing.js";
+import { DiffViewer } from "./DiffViewer.js";
+
+const POLL_MS = 5000;
+
+const STATUS_LABELS: Record<FanoutVariant["status"], string> = {
+  starting: "Starting",
+  connected: "Idle",
+  running: "Running",
+  exited: "Stopped",
+};
+
+function TestBadge({ result }: { result: FanoutVariant["testResult"] }) {
+  if (!result) return <span className="text-cc-muted">Not run</span>;
+  return result.passed
+    ? <span className="text-cc-success">Passed</span>
+    : <span className="text-cc-error">Failed (exit {result.exitCode})</span>;
+}
+
+/** Side-by-side comparison of a fan-out run's variants, with "keep this one". */
+export function FanoutPage({ fanoutId }: { fanoutId: string }) {
+  const [group, setGroup] = useState<FanoutGroup | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, string>>({});
+  const [keepMode, setKeepMode] = useState<FanoutKeepMode>("merge");
+  const [busy, setBusy] = useState<"tests" | "keep" | null>(null);
+  const [error, setError] = useState("");
+
+  const load = useCallback(() => {
+    api.getFanout(fanoutId).then(setGroup).catch((e: unknown) => {
+      setError(e instanceof Error ? e.message : String(e));
+    });
+  }, [fanoutId]);
+
+  const loadDiffs = useCallback((variants: FanoutVariant[]) => {
+    for (const variant of variants) {
+      api.getFanoutDiff(fanoutId, variant.sessionId)
+        .then(({ diff }) => setDiffs((prev) => ({ ...prev, [variant.sessionId]: diff })))
+        .catch(() => {});
+    }
+  }, [fanoutId]);
+
+  useEffect(() => {
+    setGroup(null);
+    setDiffs({});
+    setError("");
+    // Diffs are fetched once here; "Refresh diffs" re-fetches them on demand.
+    api.getFanout(fanoutId).then((g) => {
+      setGroup(g);
+      loadDiffs(g.variants);
+    }).catch((e: unknown) => {
+      setError(e instanceof Error ? e.message : String(e));
+    });
+  }, [fanoutId, loadDiffs]);
+
+  // Cost, turns and test results change while the variants work; stop
+  // polling once one is kept and no tests are left to report.
+  const kept = !!group?.kept;
+  const testsRunning = !!group?.testsRunning;
+  useEffect(() => {
+    if (kept && !testsRunning) return;
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load, kept, testsRunning]);
+
+  async function handleRunTests() {
+    setBusy("tests");
+    setError("");
+    try {
+      // Returns once the run has started; polling picks up the results
+      setGroup(await api.runFanoutTests(fanoutId));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleKeep(variant: FanoutVariant) {
+    const action = keepMode === "merge"
+      ? `merge "${variant.label}" into ${group?.baseBranch}`
+      : `check out ${variant.branch}`;
+    if (!window.confirm(`Keep this variant? This will ${action} and archive the other sessions.`)) return;
+    setBusy("keep");
+    setError("");
+    try {
+      setGroup(await api.keepFanoutVariant(fanoutId, variant.sessionId, keepMode));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (!group) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-cc-muted">
+        {error || "Loading fan-out..."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full bg-cc-bg text-cc-fg font-sans-ui antialiased overflow-y-auto">
+      <div className="max-w-6xl mx-auto px-4 sm:px-8 py-6 sm:py-10">
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div className="min-w-0">
+            <h1 className="text-xl font-semibold text-cc-fg">Fan-out comparison</h1>
+            <p className="mt-1 text-sm text-cc-muted truncate">
+              {group.variants.length} variants from <span className="font-mono-code">{group.baseBranch}</span> in {group.repoRoot}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {group.testCommand && (
+              <button
+                onClick={handleRunTests}
+                disabled={busy !== null || testsRunning}
+                title={group.testCommand}
+                className="px-3 py-1.5 rounded-lg text-sm bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors disabled:opacity-50 cursor-pointer"
+              >
+                {busy === "tests" || testsRunning ? "Running tests..." : "Run tests"}
+              </button>
+            )}
+            <button
+              onClick={() => loadDiffs(group.variants)}
+              className="px-3 py-1.5 rounded-lg text-sm bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer"
+            >
+              Refresh diffs
+            </button>
+            <button
+              onClick={() => navigateHome()}
+              className="px-3 py-1.5 rounded-lg text-sm bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+
+        <pre className="mb-4 max-h-32 overflow-y-auto whitespace-pre-wrap rounded-xl border border-cc-border bg-cc-card p-3 text-xs text-cc-fg">
+          {group.prompt}
+        </pre>
+
+        {!group.kept && (
+          <div className="mb-4 flex items-center gap-2 text-xs text-cc-muted">
+            <label htmlFor="fanout-keep-mode">Keeping a variant will</label>
+            <select
+              id="fanout-keep-mode"
+              value={keepMode}
+              onChange={(e) => setKeepMode(e.target.value as FanoutKeepMode)}
+              className="px-2 py-1 bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60"
+            >
+              <option value="merge">merge it into {group.baseBranch}</option>
+              <option value="checkout">check out its branch</option>
+            </select>
+          </div>
+        )}
+
+        {error && <div className="mb-4 px-3 py-2 rounded-lg bg-cc-error/10 text-xs text-cc-error">{error}</div>}
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          {group.variants.map((variant) => {
+            const isKept = group.kept?.sessionId === variant.sessionId;
+            const diff = diffs[variant.sessionId];
+            return (
+              <section
+                key={variant.sessionId}
+                aria-label={variant.label}
+                className={`rounded-xl border bg-cc-card p-3 min-w-0 ${isKept ? "border-cc-success" : "border-cc-border"}`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <h2 className="text-sm font-medium text-cc-fg truncate">{variant.label}</h2>
+                  <span className="text-[11px] text-cc-muted">
+                    {isKept ? "Kept" : variant.archived ? "Archived" : STATUS_LABELS[variant.status]}
+                  </span>
+                  <div className="ml-auto flex items-center gap-1.5">
+                    {!variant.archived && (
+                      <button
+                        onClick={() => navigateToSession(variant.sessionId)}
+                        className="px-2 py-1 rounded-md text-xs text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                      >
+                        Open session
+                      </button>
+                    )}
+                    {!group.kept && (
+                      <button
+                        onClick={() => handleKeep(variant)}
+                        disabled={busy !== null}
+                        className="px-2 py-1 rounded-md text-xs font-medium bg-cc-primary text-white hover:bg-cc-primary-hover transition-colors disabled:opacity-50 cursor-pointer"
+                      >
+                        Keep this one
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <dl className="grid grid-cols-3 gap-2 mb-3 text-xs">
+                  <div>
+                    <dt className="text-cc-muted">Cost</dt>
+                    <dd className="tabular-nums">{formatUsd(variant.costUsd)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-cc-muted">Turns</dt>
+                    <dd className="tabular-nums">{variant.numTurns}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-cc-muted">Tests</dt>
+                    <dd><TestBadge result={variant.testResult} /></dd>
+                  </div>
+                </dl>
+                {variant.testResult && !variant.testResult.passed && variant.testResult.output && (
+                  <details className="mb-3 text-xs">
+                    <summary className="cursor-pointer text-cc-muted">Test output</summary>
+                    <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap font-mono-code text-[11px]">
+                      {variant.testResult.output}
+                    </pre>
+                  </details>
+                )}
+                <div className="max-h-[480px] overflow-auto rounded-lg border border-cc-border">
+                  {diff === undefined ? (
+                    <p className="p-3 text-xs text-cc-muted">Loading diff...</p>
+                  ) : diff ? (
+                    <DiffViewer unifiedDiff={diff} mode="full" />
+                  ) : (
+                    <p className="p-3 text-xs text-cc-muted">No changes yet</p>
+                  )}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
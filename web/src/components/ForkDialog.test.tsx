@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+
+const { forkSessionMock, connectSessionMock, navigateToSessionMock } = vi.hoisted(() => ({
+  forkSessionMock: vi.fn(),
+  connectSessionMock: vi.fn(),
+  navigateToSessionMock: vi.fn(),
+}));
+
+let storeState: Record<string, unknown>;
+
+vi.mock("../api.js", () => ({
+  api: { forkSession: forkSessionMock },
+}));
+
+vi.mock("../ws.js", () => ({
+  connectSession: connectSessionMock,
+}));
+
+vi.mock("../utils/routing.js", () => ({
+  navigateToSession: navigateToSessionMock,
+}));
+
+vi.mock("../store.js", () => {
+  const useStore = (selector: (state: Record<string, unknown>) => unknown) => selector(storeState);
+  useStore.getState = () => storeState;
+  return { useStore };
+});
+
+import { ForkDialog } from "./ForkDialog.js";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storeState = {
+    sessions: new Map([["s1", { git_branch: "main" }]]),
+    sdkSessions: [{ sessionId: "s1", state: "connected", cwd: "/repo", createdAt: 1 }],
+    sessionNames: new Map([["s1", "Fix login"]]),
+    setSdkSessions: vi.fn(),
+    setSessionName: vi.fn(),
+  };
+});
+
+describe("ForkDialog", () => {
+  it("forks in place and opens the new session", async () => {
+    const fork = { sessionId: "s2", state: "starting", cwd: "/repo", createdAt: 2, parentSessionId: "s1" };
+    forkSessionMock.mockResolvedValue(fork);
+    const onClose = vi.fn();
+    render(<ForkDialog sessionId="s1" messageId="msg-7" onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Fork session" }));
+
+    await waitFor(() => expect(navigateToSessionMock).toHaveBeenCalledWith("s2"));
+    expect(forkSessionMock).toHaveBeenCalledWith("s1", "msg-7", { useWorktree: false, branch: undefined });
+    expect(storeState.setSdkSessions).toHaveBeenCalledWith([expect.objectContaining({ sessionId: "s1" }), fork]);
+    expect(storeState.setSessionName).toHaveBeenCalledWith("s2", "Fix login (fork)");
+    expect(connectSessionMock).toHaveBeenCalledWith("s2");
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("forks into a worktree on the chosen branch and shows errors", async () => {
+    forkSessionMock.mockRejectedValue(new Error("This message cannot be forked from"));
+    render(<ForkDialog sessionId="s1" messageId="msg-7" onClose={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole("checkbox"));
+    fireEvent.change(screen.getByLabelText("Branch"), { target: { value: "try-b" } });
+    fireEvent.click(screen.getByRole("button", { name: "Fork session" }));
+
+    expect(await screen.findByText("This message cannot be forked from")).toBeTruthy();
+    expect(forkSessionMock).toHaveBeenCalledWith("s1", "msg-7", { useWorktree: true, branch: "try-b" });
+    expect(navigateToSessionMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { api } from "../api.js";
+import { useStore } from "../store.js";
+import { connectSession } from "../ws.js";
+import { navigateToSession } from "../utils/routing.js";
+
+/** Options for "Fork from here": where the new session runs, then opens it. */
+export function ForkDialog({
+  sessionId,
+  messageId,
+  onClose,
+}: {
+  sessionId: string;
+  messageId: string;
+  onClose: () => void;
+}) {
+  const gitBranch = useStore((s) => s.sessions.get(sessionId)?.git_branch || "");
+  const [useWorktree, setUseWorktree] = useState(false);
+  const [branch, setBranch] = useState("");
+  const [forking, setForking] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleFork() {
+    setForking(true);
+    setError("");
+    try {
+      const info = await api.forkSession(sessionId, messageId, {
+        useWorktree,
+        branch: useWorktree && branch.trim() ? branch.trim() : undefined,
+      });
+      const store = useStore.getState();
+      store.setSdkSessions([...store.sdkSessions.filter((s) => s.sessionId !== info.sessionId), info]);
+      const parentName = store.sessionNames.get(sessionId);
+      if (parentName) store.setSessionName(info.sessionId, `${parentName} (fork)`);
+      onClose();
+      navigateToSession(info.sessionId);
+      connectSession(info.sessionId);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+      setForking(false);
+    }
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Fork session"
+        className="w-full max-w-md mx-0 sm:mx-4 flex flex-col bg-cc-bg border border-cc-border rounded-t-[14px] sm:rounded-[14px] shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 sm:px-5 py-3 sm:py-4 border-b border-cc-border">
+          <h2 className="text-sm font-semibold text-cc-fg">Fork from here</h2>
+          <p className="text-xs text-cc-muted mt-0.5">
+            Starts a new session with the conversation up to this message. This session is left as it is.
+          </p>
+        </div>
+
+        <div className="px-4 sm:px-5 py-3 sm:py-4 space-y-3">
+          {gitBranch && (
+            <label className="flex items-start gap-2 text-xs text-cc-fg cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useWorktree}
+                onChange={(e) => setUseWorktree(e.target.checked)}
+                className="mt-0.5 accent-cc-primary"
+              />
+              <span>
+                Run in a fresh worktree
+                <span className="block text-cc-muted">Keeps the fork's file changes apart from this session's.</span>
+              </span>
+            </label>
+          )}
+          {useWorktree && (
+            <div>
+              <label htmlFor="fork-branch" className="block text-xs text-cc-muted mb-1">Branch</label>
+              <input
+                id="fork-branch"
+                value={branch}
+                onChange={(e) => setBranch(e.target.value)}
+                placeholder={gitBranch}
+                className="w-full px-2.5 py-1.5 text-xs font-mono-code bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60"
+              />
+            </div>
+          )}
+          {error && (
+            <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 sm:px-5 py-3 border-t border-cc-border">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleFork}
+            disabled={forking}
+            className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+              forking
+                ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+                : "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+            }`}
+          >
+            {forking ? "Forking..." : "Fork session"}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -17,6 +17,12 @@ const { mockApi, createSessionStreamMock, mockStoreState, mockStoreGetState } =
     getLinearProjectIssues: vi.fn(),
     searchLinearIssues: vi.fn(),
     gitFetch: vi.fn(),
+    listPresets: vi.fn(),
+    listPrompts: vi.fn(),
+    createPreset: vi.fn(),
+    deletePreset: vi.fn(),
+    listFanouts: vi.fn(),
+    createFanout: vi.fn(),
   },
   createSessionStreamMock: vi.fn(),
   mockStoreState: {
@@ -110,6 +116,41 @@ describe("HomePage", () => {
     });
     mockApi.searchLinearIssues.mockResolvedValue({ issues: [] });
     mockApi.gitFetch.mockResolvedValue({ ok: true });
+    mockApi.listPresets.mockResolvedValue([]);
+    mockApi.listPrompts.mockResolvedValue([]);
+    mockApi.listFanouts.mockResolvedValue([]);
+  });
+
+  it("fills the form from a preset and launches with its extra options", async () => {
+    mockApi.listPrompts.mockResolvedValue([
+      { id: "p1", name: "Checklist", content: "Run the release checklist", scope: "global", createdAt: 1, updatedAt: 1 },
+    ]);
+    mockApi.listPresets.mockResolvedValue([
+      {
+        id: "preset-1",
+        name: "Release",
+        scope: "global",
+        options: { backend: "claude", model: "claude-haiku-4-5-20251001", permissionMode: "plan", allowedTools: ["Read"] },
+        initialPrompt: "Then tag the release.",
+        promptId: "p1",
+        createdAt: 1,
+        updatedAt: 1,
+      },
+    ]);
+    createSessionStreamMock.mockResolvedValue({ sessionId: "session-9", state: "starting", cwd: "/repo" });
+
+    render(<HomePage />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Release" }));
+    const textarea = screen.getByPlaceholderText("Fix a bug, build a feature, refactor code...");
+    expect(textarea).toHaveValue("Run the release checklist\n\nThen tag the release.");
+
+    fireEvent.keyDown(textarea, { key: "Enter" });
+    await waitFor(() => expect(createSessionStreamMock).toHaveBeenCalled());
+    expect(createSessionStreamMock).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "claude-haiku-4-5-20251001", permissionMode: "plan", allowedTools: ["Read"] }),
+      expect.any(Function),
+    );
   });
 
   it("auto-sets branch from selected mapped Linear issue", async () => {
@@ -293,4 +334,31 @@ describe("HomePage", () => {
     expect(screen.getByRole("button", { name: /fork and open beta/i })).toBeInTheDocument();
     expect(screen.queryByRole("button", { name: /fork and open alpha/i })).not.toBeInTheDocument();
   });
+
+  it("launches a fan-out across the configured variants and opens the comparison", async () => {
+    mockApi.createFanout.mockResolvedValue({ id: "fan-1" });
+
+    render(<HomePage />);
+
+    // The toggle only appears once the cwd's repo info has loaded
+    fireEvent.click(await screen.findByRole("button", { name: "Fan-out" }, { timeout: 3000 }));
+    fireEvent.change(screen.getByLabelText("Variant 2 backend"), { target: { value: "claude" } });
+    fireEvent.change(screen.getByLabelText("Fan-out test command"), { target: { value: "bun test" } });
+    const textarea = screen.getByPlaceholderText("Fix a bug, build a feature, refactor code...");
+    fireEvent.change(textarea, { target: { value: "Fix the flaky test" } });
+    fireEvent.keyDown(textarea, { key: "Enter" });
+
+    await waitFor(() => expect(mockApi.createFanout).toHaveBeenCalled());
+    expect(mockApi.createFanout).toHaveBeenCalledWith({
+      prompt: "Fix the flaky test",
+      cwd: "/repo",
+      variants: [
+        expect.objectContaining({ backend: "claude" }),
+        expect.objectContaining({ backend: "claude" }),
+      ],
+      testCommand: "bun test",
+    });
+    expect(createSessionStreamMock).not.toHaveBeenCalled();
+    await waitFor(() => expect(window.location.hash).toBe("#/fanout/fan-1"));
+  });
 });
@@ -5,17 +5,20 @@ import {
   createSessionStream,
   type ClaudeDiscoveredSession,
   type CompanionEnv,
+  type FanoutVariantConfig,
   type GitRepoInfo,
   type GitBranchInfo,
   type BackendInfo,
   type ImagePullState,
   type LinearIssue,
+  type PresetLaunchOptions,
+  type SessionPreset,
 } from "../api.js";
 import { connectSession, waitForConnection, sendToSession } from "../ws.js";
 import { disconnectSession } from "../ws.js";
 import { generateUniqueSessionName } from "../utils/names.js";
 import { getRecentDirs, addRecentDir } from "../utils/recent-dirs.js";
-import { navigateToSession } from "../utils/routing.js";
+import { navigateToFanout, navigateToSession } from "../utils/routing.js";
 import { getModelsForBackend, getModesForBackend, getDefaultModel, getDefaultMode, toModelOptions, type ModelOption } from "../utils/backends.js";
 import type { BackendType } from "../types.js";
 import { EnvManager } from "./EnvManager.js";
@@ -23,6 +26,8 @@ import { FolderPicker } from "./FolderPicker.js";
 import { readFileAsBase64, type ImageAttachment } from "../utils/image.js";
 import { LinearSection } from "./home/LinearSection.js";
 import { BranchPicker } from "./home/BranchPicker.js";
+import { PresetBar } from "./home/PresetBar.js";
+import { FanoutPanel } from "./home/FanoutPanel.js";
 import type { SdkSessionInfo } from "../types.js";
 
 let idCounter = 0;
@@ -39,6 +44,9 @@ type ResumeCandidate = {
   source: "companion" | "claude_disk";
 };
 
+/** Preset options the home form has no controls for; passed through to the create call. */
+type PresetExtras = Pick<PresetLaunchOptions, "container" | "allowedTools" | "claudeBinary" | "codexBinary" | "env">;
+
 type SessionLaunchOverride = {
   resumeSessionAt: string;
   forkSession: boolean;
@@ -144,6 +152,17 @@ export function HomePage() {
   const [isNewBranch, setIsNewBranch] = useState(false);
   const [branches, setBranches] = useState<GitBranchInfo[]>([]);
 
+  // Session preset state
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [presetExtras, setPresetExtras] = useState<PresetExtras>({});
+  // Branch to select once the repo info for a preset's cwd has loaded
+  const pendingPresetBranchRef = useRef<{ branch?: string; createBranch?: boolean } | null>(null);
+
+  // Fan-out state: the same prompt across several configurations
+  const [fanoutEnabled, setFanoutEnabled] = useState(false);
+  const [fanoutVariants, setFanoutVariants] = useState<FanoutVariantConfig[]>([]);
+  const [fanoutTestCommand, setFanoutTestCommand] = useState("");
+
   // Branch freshness check state
   const [pullPrompt, setPullPrompt] = useState<{ behind: number; branchName: string } | null>(null);
   const [pulling, setPulling] = useState(false);
@@ -285,14 +304,63 @@ export function HomePage() {
       return;
     }
     api.getRepoInfo(cwd).then((info) => {
+      const pending = pendingPresetBranchRef.current;
+      pendingPresetBranchRef.current = null;
       setGitRepoInfo(info);
-      setSelectedBranch(info.currentBranch);
-      setIsNewBranch(false);
+      setSelectedBranch(pending?.branch || info.currentBranch);
+      setIsNewBranch(!!pending?.branch && !!pending.createBranch);
     }).catch(() => {
+      pendingPresetBranchRef.current = null;
       setGitRepoInfo(null);
     });
   }, [cwd]);
 
+  function applyPreset(preset: SessionPreset, prompt: string) {
+    const options = preset.options;
+    const presetBackend = options.backend || backend;
+    if (presetBackend !== backend) switchBackend(presetBackend);
+    setModel(options.model || getDefaultModel(presetBackend));
+    setMode(options.permissionMode || getDefaultMode(presetBackend));
+    setSelectedEnv(options.envSlug || "");
+    setUseWorktree(!!options.useWorktree);
+    if (options.cwd && options.cwd !== cwd) {
+      pendingPresetBranchRef.current = { branch: options.branch, createBranch: options.createBranch };
+      setCwd(options.cwd);
+    } else {
+      setSelectedBranch(options.branch || gitRepoInfo?.currentBranch || "");
+      setIsNewBranch(!!options.branch && !!options.createBranch);
+    }
+    setPresetExtras({
+      container: options.container,
+      allowedTools: options.allowedTools,
+      claudeBinary: options.claudeBinary,
+      codexBinary: options.codexBinary,
+      env: options.env,
+    });
+    setActivePresetId(preset.id);
+    if (prompt) setText(prompt);
+  }
+
+  function getPresetSnapshot(): { options: PresetLaunchOptions; prompt: string } {
+    const branch = selectedBranch.trim();
+    // The checked-out branch is the default anyway; only pin a branch the user picked.
+    const pinBranch = branch && (isNewBranch || useWorktree || branch !== gitRepoInfo?.currentBranch);
+    return {
+      options: {
+        ...presetExtras,
+        backend,
+        model,
+        permissionMode: mode,
+        cwd: cwd || undefined,
+        envSlug: selectedEnv || undefined,
+        branch: pinBranch ? branch : undefined,
+        createBranch: pinBranch && isNewBranch ? true : undefined,
+        useWorktree: useWorktree ? true : undefined,
+      },
+      prompt: text,
+    };
+  }
+
   const selectedModel = MODELS.find((m) => m.value === model) || MODELS[0];
   const selectedMode = MODES.find((m) => m.value === mode) || MODES[0];
   const logoSrc = backend === "codex" ? "/logo-codex.svg" : "/logo.svg";
@@ -486,6 +554,35 @@ export function HomePage() {
     return `${context}\n\nUser request:\n${msg}`;
   }
 
+  function toggleFanout() {
+    if (!fanoutEnabled && fanoutVariants.length === 0) {
+      // Start from the current selection against the other backend's default
+      const other: BackendType = backend === "claude" ? "codex" : "claude";
+      setFanoutVariants([
+        { backend, model },
+        { backend: other, model: getDefaultModel(other) },
+      ]);
+    }
+    setFanoutEnabled((v) => !v);
+  }
+
+  async function launchFanout(msg: string) {
+    try {
+      const group = await api.createFanout({
+        prompt: buildInitialMessage(msg),
+        cwd,
+        variants: fanoutVariants.map((v) => ({ ...v, permissionMode: v.backend === backend ? mode : undefined })),
+        testCommand: fanoutTestCommand.trim() || undefined,
+      });
+      setText("");
+      navigateToFanout(group.id);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSending(false);
+    }
+  }
+
   async function handleSend() {
     const msg = text.trim();
     if (!msg || sending) return;
@@ -494,6 +591,11 @@ export function HomePage() {
     setError("");
     setPullError("");
 
+    if (fanoutEnabled && gitRepoInfo) {
+      await launchFanout(msg);
+      return;
+    }
+
     // Branch freshness check: warn if behind remote
     // Only offer pull when the effective branch is the currently checked-out branch,
     // since git pull operates on the checked-out branch
@@ -544,6 +646,7 @@ export function HomePage() {
       // Create session with progress streaming
       const result = await createSessionStream(
         {
+          ...presetExtras,
           model,
           permissionMode: mode,
           cwd: effectiveCwd || undefined,
@@ -604,6 +707,7 @@ export function HomePage() {
       const trimmedMsg = msg.trim();
       if (trimmedMsg.length > 0) {
         const initialMessage = buildInitialMessage(trimmedMsg);
+        const messageId = `user-${Date.now()}-${++idCounter}`;
 
         // Send message
         sendToSession(sessionId, {
@@ -611,11 +715,12 @@ export function HomePage() {
           content: initialMessage,
           session_id: sessionId,
           images: images.length > 0 ? images.map((img) => ({ media_type: img.mediaType, data: img.base64 })) : undefined,
+          id: messageId,
         });
 
         // Add user message to store
         useStore.getState().appendMessage(sessionId, {
-          id: `user-${Date.now()}-${++idCounter}`,
+          id: messageId,
           role: "user",
           content: initialMessage,
           images: images.length > 0 ? images.map((img) => ({ media_type: img.mediaType, data: img.base64 })) : undefined,
@@ -742,6 +847,13 @@ export function HomePage() {
           </h1>
         </div>
 
+        <PresetBar
+          cwd={cwd}
+          activePresetId={activePresetId}
+          getCurrent={getPresetSnapshot}
+          onApply={applyPreset}
+        />
+
         {/* Image thumbnails */}
         {images.length > 0 && (
           <div className="flex items-center gap-2 mb-2 flex-wrap">
@@ -1083,8 +1195,38 @@ export function HomePage() {
               Branch from session
             </button>
           )}
+
+          {/* Fan-out: one prompt across several configurations (git repos only) */}
+          {gitRepoInfo && (
+            <button
+              type="button"
+              onClick={toggleFanout}
+              className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded-md transition-colors cursor-pointer ${
+                fanoutEnabled
+                  ? "text-cc-primary bg-cc-primary/10 hover:bg-cc-primary/15"
+                  : "text-cc-muted hover:text-cc-fg hover:bg-cc-hover"
+              }`}
+              aria-expanded={fanoutEnabled}
+              aria-controls="fanout-panel"
+            >
+              <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3.5 h-3.5 opacity-70">
+                <path d="M3 8h3m0 0l4-4h3M6 8l4 4h3M6 8h7" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+              Fan-out
+            </button>
+          )}
             </div>
 
+            {fanoutEnabled && gitRepoInfo && (
+              <FanoutPanel
+                cwd={cwd}
+                variants={fanoutVariants}
+                onVariantsChange={setFanoutVariants}
+                testCommand={fanoutTestCommand}
+                onTestCommandChange={setFanoutTestCommand}
+              />
+            )}
+
             {backend === "claude" && showBranchingControls && (
               <div
                 id="branch-from-session-panel"
@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+interface MockStoreState {
+  currentSessionId: string | null;
+}
+
+let mockState: MockStoreState;
+
+const mockApi = {
+  listHookRules: vi.fn(),
+  createHookRule: vi.fn(),
+  updateHookRule: vi.fn(),
+  deleteHookRule: vi.fn(),
+  listHookAudit: vi.fn(),
+  clearHookAudit: vi.fn(),
+};
+
+vi.mock("../api.js", () => ({
+  api: {
+    listHookRules: (...args: unknown[]) => mockApi.listHookRules(...args),
+    createHookRule: (...args: unknown[]) => mockApi.createHookRule(...args),
+    updateHookRule: (...args: unknown[]) => mockApi.updateHookRule(...args),
+    deleteHookRule: (...args: unknown[]) => mockApi.deleteHookRule(...args),
+    listHookAudit: (...args: unknown[]) => mockApi.listHookAudit(...args),
+    clearHookAudit: (...args: unknown[]) => mockApi.clearHookAudit(...args),
+  },
+}));
+
+vi.mock("../store.js", () => {
+  const useStoreFn = (selector: (state: MockStoreState) => unknown) => selector(mockState);
+  useStoreFn.getState = () => mockState;
+  return { useStore: useStoreFn };
+});
+
+import { HooksPage } from "./HooksPage.js";
+
+const rule = {
+  id: "r1",
+  name: "Block rm",
+  enabled: true,
+  event: "PreToolUse",
+  toolPattern: "Bash",
+  inputPattern: "rm\\s+-rf",
+  decision: "deny",
+  reason: "No rm -rf",
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockState = { currentSessionId: null };
+  mockApi.listHookRules.mockResolvedValue([rule]);
+  mockApi.listHookAudit.mockResolvedValue([
+    {
+      timestamp: Date.now(),
+      sessionId: "s1",
+      event: "PreToolUse",
+      toolName: "Bash",
+      subject: "rm -rf /",
+      decision: "deny",
+      ruleId: "r1",
+      ruleName: "Block rm",
+    },
+  ]);
+  mockApi.createHookRule.mockResolvedValue(rule);
+  mockApi.updateHookRule.mockResolvedValue(rule);
+  mockApi.deleteHookRule.mockResolvedValue({ ok: true });
+  mockApi.clearHookAudit.mockResolvedValue({ ok: true });
+});
+
+describe("HooksPage", () => {
+  it("lists rules and audit log entries", async () => {
+    render(<HooksPage embedded />);
+    expect(await screen.findByText("tool ~ Bash • input ~ /rm\\s+-rf/")).toBeInTheDocument();
+    expect(screen.getByText("rm -rf /")).toBeInTheDocument();
+    expect(mockApi.listHookAudit).toHaveBeenCalledWith(100);
+  });
+
+  it("creates a rule from an example preset", async () => {
+    render(<HooksPage embedded />);
+    await screen.findByText("No rm -rf");
+
+    fireEvent.click(screen.getByRole("button", { name: "Approve writes outside cwd" }));
+    fireEvent.click(screen.getByRole("button", { name: "Create Rule" }));
+
+    await waitFor(() => {
+      expect(mockApi.createHookRule).toHaveBeenCalledWith({
+        name: "Approve writes outside cwd",
+        event: "PreToolUse",
+        toolPattern: "Write|Edit|MultiEdit|NotebookEdit",
+        inputPattern: "",
+        outsideCwd: true,
+        decision: "ask",
+        reason: "Writes outside the project need approval.",
+      });
+    });
+  });
+
+  it("forces Stop rules to block and drops tool conditions", async () => {
+    render(<HooksPage embedded />);
+    await screen.findByText("No rm -rf");
+
+    fireEvent.change(screen.getByLabelText("Name"), { target: { value: "Keep testing" } });
+    fireEvent.change(screen.getByLabelText("Hook"), { target: { value: "Stop" } });
+    expect(screen.queryByLabelText("Tool pattern")).not.toBeInTheDocument();
+    expect(screen.getByLabelText("Decision")).toBeDisabled();
+    fireEvent.click(screen.getByRole("button", { name: "Create Rule" }));
+
+    await waitFor(() => {
+      expect(mockApi.createHookRule).toHaveBeenCalledWith(expect.objectContaining({
+        name: "Keep testing",
+        event: "Stop",
+        toolPattern: "",
+        decision: "deny",
+      }));
+    });
+  });
+
+  it("toggles, edits and deletes rules", async () => {
+    render(<HooksPage embedded />);
+    await screen.findByText("No rm -rf");
+
+    fireEvent.click(screen.getByRole("button", { name: "Disable" }));
+    await waitFor(() => expect(mockApi.updateHookRule).toHaveBeenCalledWith("r1", { enabled: false }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit" }));
+    expect(screen.getByLabelText("Name")).toHaveValue("Block rm");
+    fireEvent.change(screen.getByLabelText("Reason"), { target: { value: "Never" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Rule" }));
+    await waitFor(() => expect(mockApi.updateHookRule).toHaveBeenCalledWith("r1", expect.objectContaining({ reason: "Never" })));
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    await waitFor(() => expect(mockApi.deleteHookRule).toHaveBeenCalledWith("r1"));
+  });
+
+  it("shows API errors", async () => {
+    mockApi.createHookRule.mockRejectedValueOnce(new Error("Input pattern is not a valid regular expression"));
+    render(<HooksPage embedded />);
+    await screen.findByText("No rm -rf");
+
+    fireEvent.change(screen.getByLabelText("Name"), { target: { value: "Broken" } });
+    fireEvent.click(screen.getByRole("button", { name: "Create Rule" }));
+    expect(await screen.findByText("Input pattern is not a valid regular expression")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,452 @@
+import { useCallback, useEffect, useState } from "react";
+import { api, type HookAuditEntry, type HookEvent, type HookRule, type HookRuleDecision, type HookRuleInput } from "../api.js";
+import { useStore } from "../store.js";
+import { navigateHome, navigateToSession } from "../utils/routing.js";
+
+interface HooksPageProps {
+  embedded?: boolean;
+}
+
+interface RuleForm {
+  name: string;
+  event: HookEvent;
+  toolPattern: string;
+  inputPattern: string;
+  outsideCwd: boolean;
+  decision: HookRuleDecision;
+  reason: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  event: "PreToolUse",
+  toolPattern: "",
+  inputPattern: "",
+  outsideCwd: false,
+  decision: "deny",
+  reason: "",
+};
+
+const EXAMPLES: { label: string; form: RuleForm }[] = [
+  {
+    label: "Block rm -rf",
+    form: {
+      ...EMPTY_FORM,
+      name: "Block rm -rf",
+      toolPattern: "Bash",
+      inputPattern: "rm\\s+-[a-zA-Z]*r[a-zA-Z]*f",
+      reason: "Recursive force deletes are blocked by policy.",
+    },
+  },
+  {
+    label: "Approve writes outside cwd",
+    form: {
+      ...EMPTY_FORM,
+      name: "Approve writes outside cwd",
+      toolPattern: "Write|Edit|MultiEdit|NotebookEdit",
+      outsideCwd: true,
+      decision: "ask",
+      reason: "Writes outside the project need approval.",
+    },
+  },
+];
+
+const DECISION_LABELS: Record<HookRuleDecision, string> = {
+  deny: "Block",
+  ask: "Ask",
+  allow: "Allow",
+};
+
+function toForm(rule: HookRule): RuleForm {
+  return {
+    name: rule.name,
+    event: rule.event,
+    toolPattern: rule.toolPattern ?? "",
+    inputPattern: rule.inputPattern ?? "",
+    outsideCwd: !!rule.outsideCwd,
+    decision: rule.decision,
+    reason: rule.reason ?? "",
+  };
+}
+
+function toInput(form: RuleForm): HookRuleInput {
+  const isTool = form.event !== "Stop";
+  return {
+    name: form.name.trim(),
+    event: form.event,
+    toolPattern: isTool ? form.toolPattern.trim() : "",
+    inputPattern: isTool ? form.inputPattern.trim() : "",
+    outsideCwd: isTool && form.outsideCwd,
+    decision: form.event === "PreToolUse" ? form.decision : "deny",
+    reason: form.reason.trim(),
+  };
+}
+
+function describeRule(rule: HookRule): string {
+  if (rule.event === "Stop") return "When Claude stops";
+  const parts = [rule.toolPattern ? `tool ~ ${rule.toolPattern}` : "any tool"];
+  if (rule.inputPattern) parts.push(`input ~ /${rule.inputPattern}/`);
+  if (rule.outsideCwd) parts.push("path outside cwd");
+  return parts.join(" • ");
+}
+
+export function HooksPage({ embedded = false }: HooksPageProps) {
+  const [rules, setRules] = useState<HookRule[]>([]);
+  const [audit, setAudit] = useState<HookAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const currentSessionId = useStore((s) => s.currentSessionId);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const [nextRules, nextAudit] = await Promise.all([api.listHookRules(), api.listHookAudit(100)]);
+      setRules(nextRules);
+      setAudit(nextAudit);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  function resetForm() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    setSaving(true);
+    setError("");
+    try {
+      if (editingId) {
+        await api.updateHookRule(editingId, toInput(form));
+      } else {
+        await api.createHookRule(toInput(form));
+      }
+      resetForm();
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(rule: HookRule) {
+    try {
+      await api.updateHookRule(rule.id, { enabled: !rule.enabled });
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await api.deleteHookRule(id);
+      if (editingId === id) resetForm();
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function handleClearAudit() {
+    try {
+      await api.clearHookAudit();
+      setAudit([]);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const isToolEvent = form.event !== "Stop";
+  const inputClass = "w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60";
+
+  return (
+    <div className={`${embedded ? "h-full" : "h-[100dvh]"} bg-cc-bg text-cc-fg font-sans-ui antialiased overflow-y-auto`}>
+      <div className="max-w-5xl mx-auto px-4 sm:px-8 py-6 sm:py-10">
+        <div className="flex items-start justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-xl font-semibold text-cc-fg">Hook Rules</h1>
+            <p className="mt-1 text-sm text-cc-muted">
+              Rules run inside Companion on PreToolUse, PostToolUse and Stop hooks. When several rules match, Block wins over Ask, and Ask wins over Allow.
+            </p>
+            <p className="mt-1.5 text-xs text-cc-muted">
+              Claude Code sessions only. Rules are registered when a session connects; edits apply to running sessions right away.
+            </p>
+          </div>
+          {!embedded && (
+            <button
+              onClick={() => {
+                if (currentSessionId) {
+                  navigateToSession(currentSessionId);
+                } else {
+                  navigateHome();
+                }
+              }}
+              className="px-3 py-1.5 rounded-lg text-sm text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+            >
+              Back
+            </button>
+          )}
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-[340px_minmax(0,1fr)]">
+          <form onSubmit={handleSubmit} className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-4 h-fit">
+            <div className="flex items-center gap-2">
+              <h2 className="text-sm font-semibold text-cc-fg">{editingId ? "Edit Rule" : "Create Rule"}</h2>
+              {!editingId && (
+                <div className="ml-auto flex gap-1.5">
+                  {EXAMPLES.map((example) => (
+                    <button
+                      key={example.label}
+                      type="button"
+                      onClick={() => setForm(example.form)}
+                      className="px-2 py-1 text-[11px] rounded-md border border-cc-border text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                    >
+                      {example.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="hook-name">Name</label>
+              <input
+                id="hook-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Block force pushes"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="hook-event">Hook</label>
+              <select
+                id="hook-event"
+                value={form.event}
+                onChange={(e) => setForm({ ...form, event: e.target.value as HookEvent })}
+                className={inputClass}
+              >
+                <option value="PreToolUse">PreToolUse (before a tool runs)</option>
+                <option value="PostToolUse">PostToolUse (after a tool runs)</option>
+                <option value="Stop">Stop (when Claude finishes)</option>
+              </select>
+            </div>
+            {isToolEvent && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5" htmlFor="hook-tool">Tool pattern</label>
+                  <input
+                    id="hook-tool"
+                    type="text"
+                    value={form.toolPattern}
+                    onChange={(e) => setForm({ ...form, toolPattern: e.target.value })}
+                    placeholder="Bash or Write|Edit (empty = any tool)"
+                    className={`${inputClass} font-mono-code`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1.5" htmlFor="hook-input">Input pattern</label>
+                  <input
+                    id="hook-input"
+                    type="text"
+                    value={form.inputPattern}
+                    onChange={(e) => setForm({ ...form, inputPattern: e.target.value })}
+                    placeholder="git push .*--force"
+                    className={`${inputClass} font-mono-code`}
+                  />
+                  <p className="mt-1 text-[11px] text-cc-muted">Regex on the Bash command, the file path, or the JSON input.</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-cc-fg">
+                  <input
+                    type="checkbox"
+                    checked={form.outsideCwd}
+                    onChange={(e) => setForm({ ...form, outsideCwd: e.target.checked })}
+                  />
+                  Only paths outside the session folder
+                </label>
+              </>
+            )}
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="hook-decision">Decision</label>
+              <select
+                id="hook-decision"
+                value={form.event === "PreToolUse" ? form.decision : "deny"}
+                onChange={(e) => setForm({ ...form, decision: e.target.value as HookRuleDecision })}
+                disabled={form.event !== "PreToolUse"}
+                className={inputClass}
+              >
+                <option value="deny">Block</option>
+                <option value="ask">Ask for approval</option>
+                <option value="allow">Allow without asking</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="hook-reason">Reason</label>
+              <input
+                id="hook-reason"
+                type="text"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="Shown to Claude when the rule fires"
+                className={inputClass}
+              />
+            </div>
+
+            <p className="text-xs text-cc-muted">Saved in <code>~/.companion/hooks.json</code></p>
+
+            {error && (
+              <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-3 py-2 rounded-lg text-sm font-medium border border-cc-border text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving || !form.name.trim()}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  saving || !form.name.trim()
+                    ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+                    : "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+                }`}
+              >
+                {saving ? "Saving..." : editingId ? "Save Rule" : "Create Rule"}
+              </button>
+            </div>
+          </form>
+
+          <div className="space-y-4 min-w-0">
+            <div className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5">
+              <h2 className="text-sm font-semibold text-cc-fg mb-3">Rules</h2>
+              {loading ? (
+                <p className="text-xs text-cc-muted">Loading rules...</p>
+              ) : rules.length === 0 ? (
+                <p className="text-xs text-cc-muted">No rules yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {rules.map((rule) => (
+                    <div key={rule.id} className="border border-cc-border rounded-lg px-3 py-2.5 bg-cc-input-bg/40">
+                      <div className="flex items-center gap-2">
+                        <div className={`text-sm font-medium truncate ${rule.enabled ? "text-cc-fg" : "text-cc-muted line-through"}`}>
+                          {rule.name}
+                        </div>
+                        <span className="text-[10px] uppercase tracking-wide text-cc-muted border border-cc-border rounded px-1.5 py-0.5">
+                          {rule.event}
+                        </span>
+                        <span className={`text-[10px] uppercase tracking-wide rounded px-1.5 py-0.5 ${
+                          rule.decision === "deny"
+                            ? "text-cc-error bg-cc-error/10"
+                            : rule.decision === "ask"
+                              ? "text-cc-warning bg-cc-warning/10"
+                              : "text-cc-success bg-cc-success/10"
+                        }`}>
+                          {DECISION_LABELS[rule.decision]}
+                        </span>
+                        <button
+                          onClick={() => void handleToggle(rule)}
+                          className="ml-auto text-xs text-cc-muted hover:text-cc-fg transition-colors cursor-pointer"
+                        >
+                          {rule.enabled ? "Disable" : "Enable"}
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEditingId(rule.id);
+                            setForm(toForm(rule));
+                          }}
+                          className="text-xs text-cc-muted hover:text-cc-fg transition-colors cursor-pointer"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => void handleDelete(rule.id)}
+                          className="text-xs text-cc-muted hover:text-cc-error transition-colors cursor-pointer"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                      <p className="mt-1 text-xs text-cc-muted font-mono-code truncate">{describeRule(rule)}</p>
+                      {rule.reason && <p className="mt-0.5 text-xs text-cc-muted">{rule.reason}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5">
+              <div className="flex items-center gap-2 mb-3">
+                <h2 className="text-sm font-semibold text-cc-fg">Audit Log</h2>
+                <button
+                  onClick={() => void load()}
+                  className="ml-auto text-xs text-cc-muted hover:text-cc-fg transition-colors cursor-pointer"
+                >
+                  Refresh
+                </button>
+                <button
+                  onClick={() => void handleClearAudit()}
+                  disabled={audit.length === 0}
+                  className="text-xs text-cc-muted hover:text-cc-error transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Clear
+                </button>
+              </div>
+              {audit.length === 0 ? (
+                <p className="text-xs text-cc-muted">No decisions recorded yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-cc-muted border-b border-cc-border">
+                        <th className="py-1.5 pr-3 font-medium">Time</th>
+                        <th className="py-1.5 pr-3 font-medium">Rule</th>
+                        <th className="py-1.5 pr-3 font-medium">Decision</th>
+                        <th className="py-1.5 pr-3 font-medium">Tool</th>
+                        <th className="py-1.5 font-medium">Input</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {audit.map((entry, i) => (
+                        <tr key={`${entry.timestamp}-${i}`} className="border-b border-cc-border/50 align-top">
+                          <td className="py-1.5 pr-3 text-cc-muted whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                          <td className="py-1.5 pr-3 text-cc-fg">{entry.ruleName}</td>
+                          <td className="py-1.5 pr-3 text-cc-fg">{DECISION_LABELS[entry.decision]}</td>
+                          <td className="py-1.5 pr-3 text-cc-muted">{entry.toolName ?? entry.event}</td>
+                          <td className="py-1.5 text-cc-muted font-mono-code break-all">{entry.subject ?? ""}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
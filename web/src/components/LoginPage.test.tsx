@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+
+const mockLogin = vi.fn();
+const mockSetAuthRequired = vi.fn();
+const mockSetAuthToken = vi.fn();
+
+vi.mock("../api.js", () => ({
+  api: {
+    login: (token: string) => mockLogin(token),
+  },
+}));
+
+vi.mock("../store.js", () => ({
+  useStore: {
+    getState: () => ({ setAuthRequired: mockSetAuthRequired }),
+  },
+}));
+
+vi.mock("../utils/auth.js", () => ({
+  setAuthToken: (token: string) => mockSetAuthToken(token),
+}));
+
+import { LoginPage } from "./LoginPage.js";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("LoginPage", () => {
+  it("disables submit until a token is entered", () => {
+    render(<LoginPage />);
+    expect((screen.getByRole("button", { name: "Sign in" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it("stores the token and clears the auth gate on success", async () => {
+    mockLogin.mockResolvedValueOnce({ ok: true });
+    render(<LoginPage />);
+
+    fireEvent.change(screen.getByLabelText("Access token"), { target: { value: " secret " } });
+    fireEvent.click(screen.getByRole("button", { name: "Sign in" }));
+
+    await waitFor(() => expect(mockSetAuthRequired).toHaveBeenCalledWith(false));
+    expect(mockLogin).toHaveBeenCalledWith("secret");
+    expect(mockSetAuthToken).toHaveBeenCalledWith("secret");
+  });
+
+  it("shows the server error for an invalid token", async () => {
+    mockLogin.mockRejectedValueOnce(new Error("Invalid token"));
+    render(<LoginPage />);
+
+    fireEvent.change(screen.getByLabelText("Access token"), { target: { value: "wrong" } });
+    fireEvent.click(screen.getByRole("button", { name: "Sign in" }));
+
+    expect(await screen.findByText("Invalid token")).toBeTruthy();
+    expect(mockSetAuthToken).not.toHaveBeenCalled();
+    expect(mockSetAuthRequired).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { api } from "../api.js";
+import { useStore } from "../store.js";
+import { setAuthToken } from "../utils/auth.js";
+
+export function LoginPage() {
+  const [token, setToken] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const trimmed = token.trim();
+    if (!trimmed) return;
+    setSubmitting(true);
+    setError("");
+    try {
+      await api.login(trimmed);
+      setAuthToken(trimmed);
+      useStore.getState().setAuthRequired(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="h-[100dvh] flex items-center justify-center bg-cc-bg text-cc-fg font-sans-ui antialiased px-4">
+      <form
+        onSubmit={onSubmit}
+        className="w-full max-w-sm bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-4"
+      >
+        <div>
+          <h1 className="text-lg font-semibold text-cc-fg">The Companion</h1>
+          <p className="mt-1 text-xs text-cc-muted">
+            Enter the access token printed at server startup, or found in <code>~/.companion/auth.json</code>.
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1.5" htmlFor="auth-token">
+            Access token
+          </label>
+          <input
+            id="auth-token"
+            type="password"
+            autoFocus
+            autoComplete="current-password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60"
+          />
+        </div>
+        {error && (
+          <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+            {error}
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={submitting || !token.trim()}
+          className={`w-full px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+            submitting || !token.trim()
+              ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+              : "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+          }`}
+        >
+          {submitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
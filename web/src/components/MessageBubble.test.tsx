@@ -86,6 +86,21 @@ describe("MessageBubble - user messages", () => {
   });
 });
 
+describe("MessageBubble - fork from here", () => {
+  it("offers forking on user and assistant messages when a handler is given", () => {
+    const onFork = vi.fn();
+    const { rerender } = render(<MessageBubble message={makeMessage({ role: "user", content: "Try A" })} onFork={onFork} />);
+    fireEvent.click(screen.getByRole("button", { name: "Fork from here" }));
+
+    rerender(<MessageBubble message={makeMessage({ role: "assistant", content: "Done", contentBlocks: [] })} onFork={onFork} />);
+    fireEvent.click(screen.getByRole("button", { name: "Fork from here" }));
+    expect(onFork).toHaveBeenCalledTimes(2);
+
+    rerender(<MessageBubble message={makeMessage({ role: "assistant", content: "Done", contentBlocks: [] })} />);
+    expect(screen.queryByRole("button", { name: "Fork from here" })).toBeNull();
+  });
+});
+
 // ─── Assistant messages ──────────────────────────────────────────────────────
 
 describe("MessageBubble - assistant messages", () => {
@@ -1,10 +1,18 @@
-import { useState, useMemo, type ComponentProps } from "react";
+import { useContext, useState, useMemo, type ComponentProps } from "react";
 import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import type { ChatMessage, ContentBlock } from "../types.js";
-import { ToolBlock, getToolIcon, getToolLabel, getPreview, ToolIcon } from "./ToolBlock.js";
+import { ToolBlock, ToolBlocksExpanded, getToolIcon, getToolLabel, getPreview, ToolIcon } from "./ToolBlock.js";
 
-export function MessageBubble({ message }: { message: ChatMessage }) {
+export function MessageBubble({
+  message,
+  onRewind,
+  onFork,
+}: {
+  message: ChatMessage;
+  onRewind?: () => void;
+  onFork?: () => void;
+}) {
   if (message.role === "system") {
     return (
       <div className="flex items-center gap-3 py-1">
@@ -19,23 +27,43 @@ export function MessageBubble({ message }: { message: ChatMessage }) {
 
   if (message.role === "user") {
     return (
-      <div className="flex justify-end animate-[fadeSlideIn_0.2s_ease-out]">
-        <div className="max-w-[85%] sm:max-w-[80%] px-3 sm:px-4 py-2.5 rounded-[14px] rounded-br-[4px] bg-cc-user-bubble text-cc-fg">
-          {message.images && message.images.length > 0 && (
-            <div className="flex gap-2 flex-wrap mb-2">
-              {message.images.map((img, i) => (
-                <img
-                  key={i}
-                  src={`data:${img.media_type};base64,${img.data}`}
-                  alt="attachment"
-                  className="max-w-[150px] sm:max-w-[200px] max-h-[120px] sm:max-h-[150px] rounded-lg object-cover"
-                />
-              ))}
+      <div className="group flex justify-end animate-[fadeSlideIn_0.2s_ease-out]">
+        <div className="max-w-[85%] sm:max-w-[80%] flex flex-col items-end gap-1">
+          <div className="px-3 sm:px-4 py-2.5 rounded-[14px] rounded-br-[4px] bg-cc-user-bubble text-cc-fg">
+            {message.images && message.images.length > 0 && (
+              <div className="flex gap-2 flex-wrap mb-2">
+                {message.images.map((img, i) => (
+                  <img
+                    key={i}
+                    src={`data:${img.media_type};base64,${img.data}`}
+                    alt="attachment"
+                    className="max-w-[150px] sm:max-w-[200px] max-h-[120px] sm:max-h-[150px] rounded-lg object-cover"
+                  />
+                ))}
+              </div>
+            )}
+            <div className="text-[13px] sm:text-[14px] leading-relaxed break-words">
+              <MarkdownContent text={message.content} />
             </div>
-          )}
-          <div className="text-[13px] sm:text-[14px] leading-relaxed break-words">
-            <MarkdownContent text={message.content} />
           </div>
+          {(onRewind || onFork) && (
+            <div className="flex items-center gap-1">
+              {onFork && <ForkButton onFork={onFork} />}
+              {onRewind && (
+                <button
+                  onClick={onRewind}
+                  title="Restore files to how they were before this message"
+                  className="flex items-center gap-1 px-1.5 py-0.5 text-[11px] text-cc-muted hover:text-cc-fg rounded transition-colors cursor-pointer opacity-100 sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100"
+                >
+                  <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3 h-3">
+                    <path d="M3 7h7a3 3 0 010 6H7" strokeLinecap="round" strokeLinejoin="round" />
+                    <path d="M6 4L3 7l3 3" strokeLinecap="round" strokeLinejoin="round" />
+                  </svg>
+                  Rewind to here
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -43,12 +71,35 @@ export function MessageBubble({ message }: { message: ChatMessage }) {
 
   // Assistant message
   return (
-    <div className="animate-[fadeSlideIn_0.2s_ease-out]">
+    <div className="group animate-[fadeSlideIn_0.2s_ease-out]">
       <AssistantMessage message={message} />
+      {onFork && (
+        <div className="flex pl-9 mt-1">
+          <ForkButton onFork={onFork} />
+        </div>
+      )}
     </div>
   );
 }
 
+function ForkButton({ onFork }: { onFork: () => void }) {
+  return (
+    <button
+      onClick={onFork}
+      title="Start a new session that continues from this message"
+      className="flex items-center gap-1 px-1.5 py-0.5 text-[11px] text-cc-muted hover:text-cc-fg rounded transition-colors cursor-pointer opacity-100 sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100"
+    >
+      <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3 h-3">
+        <circle cx="4.5" cy="3.5" r="1.5" />
+        <circle cx="4.5" cy="12.5" r="1.5" />
+        <circle cx="11.5" cy="5.5" r="1.5" />
+        <path d="M4.5 5v6M11.5 7c0 2.5-3 2.5-6.5 4" strokeLinecap="round" strokeLinejoin="round" />
+      </svg>
+      Fork from here
+    </button>
+  );
+}
+
 interface ToolGroupItem {
   id: string;
   name: string;
@@ -295,7 +346,8 @@ function ContentBlockRenderer({
 
 function BashResultBlock({ text, isError }: { text: string; isError: boolean }) {
   const lines = text.split(/\r?\n/);
-  const hasMore = lines.length > 20;
+  const expanded = useContext(ToolBlocksExpanded);
+  const hasMore = lines.length > 20 && !expanded;
   const [showFull, setShowFull] = useState(false);
   const rendered = showFull || !hasMore ? text : lines.slice(-20).join("\n");
 
@@ -330,7 +382,7 @@ function BashResultBlock({ text, isError }: { text: string; isError: boolean })
 }
 
 function ToolGroupBlock({ name, items }: { name: string; items: ToolGroupItem[] }) {
-  const [open, setOpen] = useState(false);
+  const [open, setOpen] = useState(useContext(ToolBlocksExpanded));
   const iconType = getToolIcon(name);
   const label = getToolLabel(name);
 
@@ -338,6 +390,7 @@ function ToolGroupBlock({ name, items }: { name: string; items: ToolGroupItem[]
     <div className="border border-cc-border rounded-[10px] overflow-hidden bg-cc-card">
       <button
         onClick={() => setOpen(!open)}
+        aria-expanded={open}
         className="w-full flex items-center gap-2.5 px-3 py-2 text-left hover:bg-cc-hover transition-colors cursor-pointer"
       >
         <svg
@@ -380,6 +433,7 @@ function ThinkingBlock({ text }: { text: string }) {
     <div className="border border-cc-border rounded-[12px] overflow-hidden bg-cc-card/70 backdrop-blur-[2px]">
       <button
         onClick={() => setOpen(!open)}
+        aria-expanded={open}
         className="w-full flex items-center gap-2 px-3 py-2.5 text-xs text-cc-muted hover:bg-cc-hover/70 transition-colors cursor-pointer"
       >
         <svg
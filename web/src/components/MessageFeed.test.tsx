@@ -8,8 +8,11 @@ beforeAll(() => {
 import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import type { ChatMessage } from "../types.js";
 
-const { getClaudeSessionHistoryMock } = vi.hoisted(() => ({
+const { getClaudeSessionHistoryMock, requestRewindPreviewMock, requestOlderHistoryMock, setFeedFocusMock } = vi.hoisted(() => ({
   getClaudeSessionHistoryMock: vi.fn(),
+  requestRewindPreviewMock: vi.fn(),
+  requestOlderHistoryMock: vi.fn(),
+  setFeedFocusMock: vi.fn(),
 }));
 
 // Mock react-markdown to avoid ESM issues in tests
@@ -27,24 +30,35 @@ vi.mock("../api.js", () => ({
   },
 }));
 
+vi.mock("../ws.js", () => ({
+  requestRewindPreview: requestRewindPreviewMock,
+  requestOlderHistory: requestOlderHistoryMock,
+  confirmRewind: vi.fn(),
+}));
+
 // Build a mock for the store that returns configurable values per session
 const mockStoreValues: Record<string, unknown> = {};
 
-vi.mock("../store.js", () => ({
-  useStore: (selector: (state: Record<string, unknown>) => unknown) => {
-    const state = {
-      messages: mockStoreValues.messages ?? new Map(),
-      streaming: mockStoreValues.streaming ?? new Map(),
-      streamingStartedAt: mockStoreValues.streamingStartedAt ?? new Map(),
-      streamingOutputTokens: mockStoreValues.streamingOutputTokens ?? new Map(),
-      sessionStatus: mockStoreValues.sessionStatus ?? new Map(),
-      toolProgress: mockStoreValues.toolProgress ?? new Map(),
-      chatTabReentryTickBySession: mockStoreValues.chatTabReentryTickBySession ?? new Map(),
-      sdkSessions: mockStoreValues.sdkSessions ?? [],
-    };
-    return selector(state);
-  },
-}));
+vi.mock("../store.js", () => {
+  const getState = () => ({
+    messages: mockStoreValues.messages ?? new Map(),
+    streaming: mockStoreValues.streaming ?? new Map(),
+    streamingStartedAt: mockStoreValues.streamingStartedAt ?? new Map(),
+    streamingOutputTokens: mockStoreValues.streamingOutputTokens ?? new Map(),
+    sessionStatus: mockStoreValues.sessionStatus ?? new Map(),
+    toolProgress: mockStoreValues.toolProgress ?? new Map(),
+    chatTabReentryTickBySession: mockStoreValues.chatTabReentryTickBySession ?? new Map(),
+    sdkSessions: mockStoreValues.sdkSessions ?? [],
+    sessions: mockStoreValues.sessions ?? new Map(),
+    rewindStates: mockStoreValues.rewindStates ?? new Map(),
+    historyPaging: mockStoreValues.historyPaging ?? new Map(),
+    feedFocus: mockStoreValues.feedFocus ?? null,
+    setFeedFocus: setFeedFocusMock,
+  });
+  const useStore = (selector: (state: Record<string, unknown>) => unknown) => selector(getState());
+  useStore.getState = getState;
+  return { useStore };
+});
 
 import { MessageFeed } from "./MessageFeed.js";
 
@@ -99,11 +113,18 @@ function resetStore() {
   mockStoreValues.sessionStatus = new Map();
   mockStoreValues.chatTabReentryTickBySession = new Map();
   mockStoreValues.sdkSessions = [];
+  mockStoreValues.sessions = new Map();
+  mockStoreValues.rewindStates = new Map();
+  mockStoreValues.feedFocus = null;
+  mockStoreValues.historyPaging = new Map();
 }
 
 beforeEach(() => {
   resetStore();
   getClaudeSessionHistoryMock.mockReset();
+  requestRewindPreviewMock.mockReset();
+  requestOlderHistoryMock.mockReset();
+  setFeedFocusMock.mockReset();
 });
 
 // ─── Pure functions tested through component output ──────────────────────────
@@ -343,6 +364,29 @@ describe("MessageFeed - lazy resume transcript", () => {
   });
 });
 
+describe("MessageFeed - server history paging", () => {
+  it("requests older messages when the server holds more history", () => {
+    const sid = "test-paged";
+    setStoreMessages(sid, [makeMessage({ role: "user", content: "Latest question" })]);
+    mockStoreValues.historyPaging = new Map([[sid, { cursor: 200, loading: false }]]);
+
+    render(<MessageFeed sessionId={sid} />);
+    fireEvent.click(screen.getByRole("button", { name: "Load earlier messages" }));
+
+    expect(requestOlderHistoryMock).toHaveBeenCalledWith(sid);
+  });
+
+  it("shows progress while a page is loading", () => {
+    const sid = "test-paged";
+    setStoreMessages(sid, [makeMessage({ role: "user", content: "Latest question" })]);
+    mockStoreValues.historyPaging = new Map([[sid, { cursor: 200, loading: true }]]);
+
+    render(<MessageFeed sessionId={sid} />);
+
+    expect((screen.getByRole("button", { name: "Loading earlier messages..." }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
+
 // ─── getToolOnlyName behavior (tested via grouping) ──────────────────────────
 
 describe("MessageFeed - tool-only message detection", () => {
@@ -460,3 +504,131 @@ describe("MessageFeed - subagent grouping", () => {
     expect(screen.getByText("researcher")).toBeTruthy();
   });
 });
+
+// ─── Rewind to here ──────────────────────────────────────────────────────────
+
+describe("MessageFeed - rewind", () => {
+  const sid = "test-rewind";
+
+  it("offers rewind on user messages and requests a dry-run preview", () => {
+    setStoreMessages(sid, [
+      makeMessage({ id: "u1", role: "user", content: "Change the parser" }),
+      makeMessage({ id: "a1", role: "assistant", content: "Done" }),
+    ]);
+
+    render(<MessageFeed sessionId={sid} />);
+    const buttons = screen.getAllByRole("button", { name: "Rewind to here" });
+    expect(buttons).toHaveLength(1);
+
+    fireEvent.click(buttons[0]);
+    expect(requestRewindPreviewMock).toHaveBeenCalledWith(sid, "u1");
+  });
+
+  it("hides rewind for Codex sessions", () => {
+    mockStoreValues.sessions = new Map([[sid, { backend_type: "codex" }]]);
+    setStoreMessages(sid, [makeMessage({ id: "u1", role: "user", content: "hi" })]);
+
+    render(<MessageFeed sessionId={sid} />);
+    expect(screen.queryByRole("button", { name: "Rewind to here" })).toBeNull();
+  });
+
+  it("hides rewind while a turn is running", () => {
+    setStoreStatus(sid, "running");
+    setStoreMessages(sid, [makeMessage({ id: "u1", role: "user", content: "hi" })]);
+
+    render(<MessageFeed sessionId={sid} />);
+    expect(screen.queryByRole("button", { name: "Rewind to here" })).toBeNull();
+  });
+});
+
+// ─── Jump to a search result ─────────────────────────────────────────────────
+
+describe("MessageFeed - search focus", () => {
+  const sid = "test-focus";
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("pages in, highlights and scrolls to the focused message, then clears the focus", () => {
+    vi.useFakeTimers();
+    const msgs = Array.from({ length: 150 }, (_, i) =>
+      makeMessage({ id: `u${i}`, role: "user", content: `prompt ${i}` }),
+    );
+    setStoreMessages(sid, msgs);
+    mockStoreValues.feedFocus = { sessionId: sid, messageId: "u3" };
+    const scrollIntoView = vi.mocked(Element.prototype.scrollIntoView);
+    scrollIntoView.mockClear();
+
+    const { container } = render(<MessageFeed sessionId={sid} />);
+
+    // u3 sits before the first page of 100 entries, so the feed loads more
+    const focused = container.querySelector("[data-search-focus]");
+    expect(focused?.textContent).toContain("prompt 3");
+    vi.advanceTimersByTime(20);
+    expect(scrollIntoView.mock.contexts).toContain(focused);
+    vi.advanceTimersByTime(2500);
+    expect(setFeedFocusMock).toHaveBeenCalledWith(null);
+  });
+
+  it("highlights the tool group holding a focused tool-only message", () => {
+    setStoreMessages(sid, [
+      makeMessage({ id: "t1", role: "assistant", contentBlocks: [{ type: "tool_use", id: "tu1", name: "Read", input: { file_path: "/a.ts" } }] }),
+      makeMessage({ id: "t2", role: "assistant", contentBlocks: [{ type: "tool_use", id: "tu2", name: "Read", input: { file_path: "/b.ts" } }] }),
+    ]);
+    mockStoreValues.feedFocus = { sessionId: sid, messageId: "t2" };
+
+    const { container } = render(<MessageFeed sessionId={sid} />);
+    expect(container.querySelectorAll("[data-search-focus]")).toHaveLength(1);
+  });
+
+  it("pages older history in from the server until the focused message is loaded", () => {
+    setStoreMessages(sid, [makeMessage({ id: "u300", role: "user", content: "latest" })]);
+    mockStoreValues.historyPaging = new Map([[sid, { cursor: 200, loading: false }]]);
+    mockStoreValues.feedFocus = { sessionId: sid, messageId: "u3" };
+
+    const { rerender } = render(<MessageFeed sessionId={sid} />);
+    expect(requestOlderHistoryMock).toHaveBeenCalledWith(sid);
+    expect(setFeedFocusMock).not.toHaveBeenCalled();
+
+    // The next page still doesn't reach the message: keep going.
+    requestOlderHistoryMock.mockClear();
+    setStoreMessages(sid, [
+      makeMessage({ id: "u100", role: "user", content: "older" }),
+      makeMessage({ id: "u300", role: "user", content: "latest" }),
+    ]);
+    mockStoreValues.historyPaging = new Map([[sid, { cursor: 100, loading: false }]]);
+    rerender(<MessageFeed sessionId={sid} />);
+    expect(requestOlderHistoryMock).toHaveBeenCalledWith(sid);
+
+    // Reached the start of the session without finding it: give up on the jump.
+    mockStoreValues.historyPaging = new Map();
+    rerender(<MessageFeed sessionId={sid} />);
+    expect(setFeedFocusMock).toHaveBeenCalledWith(null);
+  });
+
+  it("highlights the focused message once its page arrives", () => {
+    setStoreMessages(sid, [makeMessage({ id: "u300", role: "user", content: "latest" })]);
+    mockStoreValues.historyPaging = new Map([[sid, { cursor: 5, loading: false }]]);
+    mockStoreValues.feedFocus = { sessionId: sid, messageId: "u3" };
+    const { container, rerender } = render(<MessageFeed sessionId={sid} />);
+
+    setStoreMessages(sid, [
+      makeMessage({ id: "u3", role: "user", content: "prompt 3" }),
+      makeMessage({ id: "u300", role: "user", content: "latest" }),
+    ]);
+    mockStoreValues.historyPaging = new Map();
+    rerender(<MessageFeed sessionId={sid} />);
+
+    expect(container.querySelector("[data-search-focus]")?.textContent).toContain("prompt 3");
+    expect(setFeedFocusMock).not.toHaveBeenCalled();
+  });
+
+  it("ignores focus meant for another session", () => {
+    setStoreMessages(sid, [makeMessage({ id: "u1", role: "user", content: "hi" })]);
+    mockStoreValues.feedFocus = { sessionId: "other", messageId: "u1" };
+
+    const { container } = render(<MessageFeed sessionId={sid} />);
+    expect(container.querySelector("[data-search-focus]")).toBeNull();
+  });
+});
@@ -2,6 +2,9 @@ import { useEffect, useRef, useMemo, useState, useCallback } from "react";
 import { useStore } from "../store.js";
 import { api } from "../api.js";
 import { MessageBubble } from "./MessageBubble.js";
+import { RewindDialog } from "./RewindDialog.js";
+import { ForkDialog } from "./ForkDialog.js";
+import { requestRewindPreview, requestOlderHistory } from "../ws.js";
 import { getToolIcon, getToolLabel, getPreview, ToolIcon } from "./ToolBlock.js";
 import type { ChatMessage, ContentBlock, SdkSessionInfo } from "../types.js";
 import { formatElapsed, formatTokenCount } from "../utils/format.js";
@@ -9,6 +12,7 @@ import { formatElapsed, formatTokenCount } from "../utils/format.js";
 const FEED_PAGE_SIZE = 100;
 const RESUME_HISTORY_PAGE_SIZE = 40;
 const SCROLL_TOP_PREFETCH_PX = 120;
+const FOCUS_HIGHLIGHT_MS = 2500;
 const savedDistanceFromBottomBySession = new Map<string, number>();
 
 const EMPTY_MESSAGES: ChatMessage[] = [];
@@ -29,6 +33,7 @@ interface ToolMsgGroup {
   toolName: string;
   items: ToolItem[];
   firstId: string;
+  messageIds: string[];
 }
 
 interface SubagentGroup {
@@ -88,6 +93,13 @@ function getTaskIdsFromEntry(entry: FeedEntry): string[] {
   return [];
 }
 
+/** Whether a feed entry renders the message, directly, in a tool group or in a subagent. */
+function entryContainsMessage(entry: FeedEntry, messageId: string): boolean {
+  if (entry.kind === "message") return entry.msg.id === messageId;
+  if (entry.kind === "tool_msg_group") return entry.messageIds.includes(messageId);
+  return entry.children.some((child) => entryContainsMessage(child, messageId));
+}
+
 /** Group consecutive same-tool messages */
 function groupToolMessages(messages: ChatMessage[]): FeedEntry[] {
   const entries: FeedEntry[] = [];
@@ -99,6 +111,7 @@ function groupToolMessages(messages: ChatMessage[]): FeedEntry[] {
       const last = entries[entries.length - 1];
       if (last?.kind === "tool_msg_group" && last.toolName === toolName) {
         last.items.push(...extractToolItems(msg));
+        last.messageIds.push(msg.id);
         continue;
       }
       entries.push({
@@ -106,6 +119,7 @@ function groupToolMessages(messages: ChatMessage[]): FeedEntry[] {
         toolName,
         items: extractToolItems(msg),
         firstId: msg.id,
+        messageIds: [msg.id],
       });
     } else {
       entries.push({ kind: "message", msg });
@@ -272,17 +286,52 @@ function ToolMessageGroup({ group }: { group: ToolMsgGroup }) {
   );
 }
 
-function FeedEntries({ entries }: { entries: FeedEntry[] }) {
+function FeedEntries({
+  entries,
+  onRewind,
+  onFork,
+  transcriptIds,
+  focusEntry,
+}: {
+  entries: FeedEntry[];
+  onRewind?: (messageId: string) => void;
+  onFork?: (messageId: string) => void;
+  /** Messages loaded from a resumed transcript: the server has no CLI uuid to fork them at. */
+  transcriptIds?: Set<string>;
+  /** Entry a search result jumped to; rendered highlighted. */
+  focusEntry?: FeedEntry;
+}) {
   return (
     <>
       {entries.map((entry, i) => {
+        let key: string | number;
+        let node: React.ReactNode;
         if (entry.kind === "tool_msg_group") {
-          return <ToolMessageGroup key={entry.firstId || i} group={entry} />;
+          key = entry.firstId || i;
+          node = <ToolMessageGroup key={key} group={entry} />;
+        } else if (entry.kind === "subagent") {
+          key = entry.taskToolUseId;
+          node = <SubagentContainer key={key} group={entry} />;
+        } else {
+          const msg = entry.msg;
+          key = msg.id;
+          node = (
+            <MessageBubble
+              key={key}
+              message={msg}
+              onRewind={onRewind && msg.role === "user" ? () => onRewind(msg.id) : undefined}
+              onFork={onFork && msg.role !== "system" && !msg.isStreaming && !transcriptIds?.has(msg.id)
+                ? () => onFork(msg.id)
+                : undefined}
+            />
+          );
         }
-        if (entry.kind === "subagent") {
-          return <SubagentContainer key={entry.taskToolUseId} group={entry} />;
-        }
-        return <MessageBubble key={entry.msg.id} message={entry.msg} />;
+        if (entry !== focusEntry) return node;
+        return (
+          <div key={key} data-search-focus className="rounded-xl ring-2 ring-cc-primary/50 bg-cc-primary/5 transition-colors">
+            {node}
+          </div>
+        );
       })}
     </>
   );
@@ -372,27 +421,34 @@ export function MessageFeed({ sessionId }: { sessionId: string }) {
   const streamingOutputTokens = useStore((s) => s.streamingOutputTokens.get(sessionId));
   const sessionStatus = useStore((s) => s.sessionStatus.get(sessionId));
   const toolProgress = useStore((s) => s.toolProgress.get(sessionId));
+  const backendType = useStore((s) => s.sessions.get(sessionId)?.backend_type);
+  const historyPaging = useStore((s) => s.historyPaging?.get(sessionId));
   const bottomRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const isNearBottom = useRef(true);
   const [elapsed, setElapsed] = useState(0);
   const [visibleCount, setVisibleCount] = useState(FEED_PAGE_SIZE);
   const [resumeHistoryMessages, setResumeHistoryMessages] = useState<ChatMessage[]>([]);
+  const [forkMessageId, setForkMessageId] = useState<string | null>(null);
   const [resumeHistoryCursor, setResumeHistoryCursor] = useState(0);
   const [resumeHistoryHasMore, setResumeHistoryHasMore] = useState(false);
   const [resumeHistoryLoaded, setResumeHistoryLoaded] = useState(false);
   const [resumeHistoryLoading, setResumeHistoryLoading] = useState(false);
   const [resumeHistoryError, setResumeHistoryError] = useState("");
   const resumeHistoryMessageIdsRef = useRef<Set<string>>(new Set());
+  // Set while an older server page is in flight, to reveal it and keep the scroll anchored.
+  const olderHistoryRequestRef = useRef<{ entries: number; scrollHeight: number } | null>(null);
   const chatTabReentryTick = useStore((s) => s.chatTabReentryTickBySession.get(sessionId) ?? 0);
+  const focusMessageId = useStore((s) => (s.feedFocus?.sessionId === sessionId ? s.feedFocus.messageId : null));
   const hasStreamingAssistant = useMemo(
     () => messages.some((m) => m.role === "assistant" && m.isStreaming),
     [messages],
   );
   const resumeSourceSessionId = useMemo(() => {
-    if (sdkSession?.backendType === "codex") return "";
+    // Forks get the parent's chat from the server; resumeSessionAt is a message uuid there.
+    if (sdkSession?.backendType === "codex" || sdkSession?.parentSessionId) return "";
     return (sdkSession?.resumeSessionAt || "").trim();
-  }, [sdkSession?.backendType, sdkSession?.resumeSessionAt]);
+  }, [sdkSession?.backendType, sdkSession?.parentSessionId, sdkSession?.resumeSessionAt]);
   const canLoadResumeHistory = resumeSourceSessionId.length > 0;
   const resumeModeLabel = sdkSession?.forkSession ? "Forked from" : "Continuing from";
   const mergedMessages = useMemo(() => {
@@ -424,12 +480,25 @@ export function MessageFeed({ sessionId }: { sessionId: string }) {
     setResumeHistoryLoading(false);
     setResumeHistoryError("");
     resumeHistoryMessageIdsRef.current = new Set();
+    olderHistoryRequestRef.current = null;
   }, [sessionId, resumeSourceSessionId]);
 
+  const focusIndex = useMemo(
+    () => (focusMessageId ? grouped.findIndex((entry) => entryContainsMessage(entry, focusMessageId)) : -1),
+    [grouped, focusMessageId],
+  );
+
   const totalEntries = grouped.length;
   const hasMore = totalEntries > visibleCount;
   const visibleEntries = hasMore ? grouped.slice(totalEntries - visibleCount) : grouped;
   const hiddenCount = totalEntries - visibleEntries.length;
+  // The server only sends the newest messages on connect; older ones are paged in once everything local is shown.
+  const canLoadOlderHistory = !!historyPaging && !hasMore;
+  // File checkpoints are a Claude Code feature; skip mid-turn so edits in flight aren't rewound
+  const handleRewind = backendType !== "codex" && sessionStatus !== "running"
+    ? (messageId: string) => requestRewindPreview(sessionId, messageId)
+    : undefined;
+  const handleFork = backendType !== "codex" ? setForkMessageId : undefined;
 
   const handleLoadMore = useCallback(() => {
     const el = containerRef.current;
@@ -444,6 +513,29 @@ export function MessageFeed({ sessionId }: { sessionId: string }) {
     });
   }, []);
 
+  const loadOlderHistory = useCallback(() => {
+    if (!historyPaging || historyPaging.loading) return;
+    olderHistoryRequestRef.current = {
+      entries: totalEntries,
+      scrollHeight: containerRef.current?.scrollHeight ?? 0,
+    };
+    requestOlderHistory(sessionId);
+  }, [historyPaging, totalEntries, sessionId]);
+
+  // Once the page lands, show its entries and keep the reader's place.
+  useEffect(() => {
+    const request = olderHistoryRequestRef.current;
+    if (!request || historyPaging?.loading) return;
+    olderHistoryRequestRef.current = null;
+    const added = totalEntries - request.entries;
+    if (added <= 0) return;
+    setVisibleCount((count) => count + added);
+    requestAnimationFrame(() => {
+      const el = containerRef.current;
+      if (el) el.scrollTop += el.scrollHeight - request.scrollHeight;
+    });
+  }, [historyPaging, totalEntries]);
+
   const loadResumeHistoryPage = useCallback(async (
     options: { preserveScroll?: boolean } = {},
   ) => {
@@ -541,6 +633,9 @@ export function MessageFeed({ sessionId }: { sessionId: string }) {
     ) {
       void loadResumeHistoryPage({ preserveScroll: true });
     }
+    if (canLoadOlderHistory && el.scrollTop <= SCROLL_TOP_PREFETCH_PX) {
+      loadOlderHistory();
+    }
   }
 
   const scrollToBottomInstant = useCallback(() => {
@@ -593,6 +688,39 @@ export function MessageFeed({ sessionId }: { sessionId: string }) {
     }
   }, [messages]);
 
+  // Jump to a message picked from search: page it in, scroll to it, then fade the highlight.
+  const focusEntriesFromEnd = focusIndex === -1 ? 0 : totalEntries - focusIndex;
+  const focusVisible = focusIndex !== -1 && focusEntriesFromEnd <= visibleCount;
+  useEffect(() => {
+    if (focusIndex === -1 || focusVisible) return;
+    setVisibleCount(Math.ceil(focusEntriesFromEnd / FEED_PAGE_SIZE) * FEED_PAGE_SIZE);
+  }, [focusIndex, focusVisible, focusEntriesFromEnd]);
+
+  // A hit older than what the server sent on connect: page history in until it
+  // shows up, or drop the focus once there is nothing older left to load.
+  const hasMessages = mergedMessages.length > 0;
+  useEffect(() => {
+    if (!focusMessageId || focusIndex !== -1 || !hasMessages) return;
+    if (!historyPaging) {
+      useStore.getState().setFeedFocus(null);
+      return;
+    }
+    loadOlderHistory();
+  }, [focusMessageId, focusIndex, hasMessages, historyPaging, loadOlderHistory]);
+
+  useEffect(() => {
+    if (!focusMessageId || !focusVisible) return;
+    isNearBottom.current = false;
+    const frame = requestAnimationFrame(() => {
+      containerRef.current?.querySelector("[data-search-focus]")?.scrollIntoView({ block: "center" });
+    });
+    const timer = setTimeout(() => useStore.getState().setFeedFocus(null), FOCUS_HIGHLIGHT_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [focusMessageId, focusVisible]);
+
   if (mergedMessages.length === 0) {
     return (
       <div className="flex-1 flex flex-col items-center justify-center gap-4 select-none px-6">
@@ -689,7 +817,24 @@ export function MessageFeed({ sessionId }: { sessionId: string }) {
               </button>
             </div>
           )}
-          <FeedEntries entries={visibleEntries} />
+          {canLoadOlderHistory && (
+            <div className="flex justify-center pb-2">
+              <button
+                onClick={loadOlderHistory}
+                disabled={historyPaging.loading}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-cc-muted hover:text-cc-fg bg-cc-card border border-cc-border rounded-lg hover:bg-cc-hover transition-colors disabled:opacity-60 disabled:cursor-not-allowed cursor-pointer"
+              >
+                {historyPaging.loading ? "Loading earlier messages..." : "Load earlier messages"}
+              </button>
+            </div>
+          )}
+          <FeedEntries
+            entries={visibleEntries}
+            onRewind={handleRewind}
+            onFork={handleFork}
+            transcriptIds={resumeHistoryMessageIdsRef.current}
+            focusEntry={focusIndex >= 0 ? grouped[focusIndex] : undefined}
+          />
 
           {/* Tool progress indicator */}
           {toolProgress && toolProgress.size > 0 && !hasStreamingAssistant && (
@@ -725,6 +870,10 @@ export function MessageFeed({ sessionId }: { sessionId: string }) {
           <div ref={bottomRef} />
         </div>
       </div>
+      <RewindDialog sessionId={sessionId} />
+      {forkMessageId && (
+        <ForkDialog sessionId={sessionId} messageId={forkMessageId} onClose={() => setForkMessageId(null)} />
+      )}
     </div>
   );
 }
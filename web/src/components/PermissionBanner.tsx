@@ -3,6 +3,7 @@ import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { useStore } from "../store.js";
 import { sendToSession } from "../ws.js";
+import { getViewerId } from "../utils/viewer.js";
 import type { PermissionRequest } from "../types.js";
 import type { PermissionUpdate } from "../../server/session-types.js";
 import { DiffViewer } from "./DiffViewer.js";
@@ -32,6 +33,10 @@ export function PermissionBanner({
 }) {
   const [loading, setLoading] = useState(false);
   const removePermission = useStore((s) => s.removePermission);
+  const driver = useStore((s) => s.presence?.get(sessionId)?.driver);
+  // Only the driver may answer while the session is locked.
+  const lockedBy = driver && driver.viewer_id !== getViewerId() ? driver : null;
+  const disabled = loading || !!lockedBy;
 
   function handleAllow(updatedInput?: Record<string, unknown>, updatedPermissions?: PermissionUpdate[]) {
     setLoading(true);
@@ -95,7 +100,7 @@ export function PermissionBanner({
               <AskUserQuestionDisplay
                 input={permission.input}
                 onSelect={(answers) => handleAllow({ ...permission.input, answers })}
-                disabled={loading}
+                disabled={disabled}
               />
             ) : (
               <ToolInputDisplay toolName={permission.tool_name} input={permission.input} description={permission.description} />
@@ -106,7 +111,7 @@ export function PermissionBanner({
               <div className="flex items-center gap-2 mt-3 flex-wrap">
                 <button
                   onClick={() => handleAllow()}
-                  disabled={loading}
+                  disabled={disabled}
                   className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg bg-cc-success/90 hover:bg-cc-success text-white disabled:opacity-50 transition-colors cursor-pointer"
                 >
                   <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2.5" className="w-3 h-3">
@@ -120,7 +125,7 @@ export function PermissionBanner({
                   <button
                     key={i}
                     onClick={() => handleAllow(undefined, [suggestion])}
-                    disabled={loading}
+                    disabled={disabled}
                     title={`${suggestion.type}: ${JSON.stringify(suggestion)}`}
                     className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg bg-cc-primary/10 hover:bg-cc-primary/20 text-cc-primary border border-cc-primary/20 disabled:opacity-50 transition-colors cursor-pointer"
                   >
@@ -133,7 +138,7 @@ export function PermissionBanner({
 
                 <button
                   onClick={handleDeny}
-                  disabled={loading}
+                  disabled={disabled}
                   className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg bg-cc-hover hover:bg-cc-active text-cc-fg border border-cc-border disabled:opacity-50 transition-colors cursor-pointer"
                 >
                   <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2.5" className="w-3 h-3">
@@ -143,6 +148,10 @@ export function PermissionBanner({
                 </button>
               </div>
             )}
+
+            {lockedBy && (
+              <p className="mt-2 text-[11px] text-cc-muted">{lockedBy.name} is driving this session and answers permissions.</p>
+            )}
           </div>
         </div>
       </div>
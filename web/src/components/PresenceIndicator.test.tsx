@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import type { SessionPresence } from "../store.js";
+
+let mockPresence: Map<string, SessionPresence>;
+const mockSendToSession = vi.fn();
+const mockRenameViewer = vi.fn();
+
+vi.mock("../store.js", () => ({
+  useStore: (selector: (state: { presence: Map<string, SessionPresence> }) => unknown) =>
+    selector({ presence: mockPresence }),
+}));
+
+vi.mock("../ws.js", () => ({
+  sendToSession: (...args: unknown[]) => mockSendToSession(...args),
+  renameViewer: (...args: unknown[]) => mockRenameViewer(...args),
+}));
+
+import { PresenceIndicator } from "./PresenceIndicator.js";
+
+const ME = { viewer_id: "v-me", name: "Grace Hopper", typing: false };
+const ADA = { viewer_id: "v-ada", name: "Ada", typing: true };
+
+function setPresence(presence: Partial<SessionPresence>) {
+  mockPresence = new Map([["s1", { viewers: [ME, ADA], driver: null, controlRequests: [], ...presence }]]);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  localStorage.setItem("cc-viewer-id", "v-me");
+  localStorage.setItem("cc-viewer-name", "Grace Hopper");
+  setPresence({});
+});
+
+describe("PresenceIndicator", () => {
+  it("renders nothing until someone is connected", () => {
+    mockPresence = new Map();
+    const { container } = render(<PresenceIndicator sessionId="s1" />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows an avatar per viewer and lets anyone take a free lock", () => {
+    render(<PresenceIndicator sessionId="s1" />);
+    const toggle = screen.getByRole("button", { name: "Viewers: Grace Hopper (you), Ada" });
+    expect(toggle).toHaveTextContent("GH");
+
+    fireEvent.click(toggle);
+    expect(screen.getByText("typing…")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Take control" }));
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "driver_claim" });
+  });
+
+  it("lets the driver hand off to a viewer who asked", () => {
+    setPresence({ driver: { viewer_id: "v-me", name: "Grace Hopper" }, controlRequests: ["v-ada"] });
+    render(<PresenceIndicator sessionId="s1" />);
+    fireEvent.click(screen.getByRole("button", { name: /^Viewers:/ }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Hand off" }));
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "driver_handoff", viewer_id: "v-ada" });
+    fireEvent.click(screen.getByRole("button", { name: "Release control" }));
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "driver_release" });
+  });
+
+  it("asks the driver for control and renames the viewer", () => {
+    setPresence({ driver: { viewer_id: "v-ada", name: "Ada" } });
+    render(<PresenceIndicator sessionId="s1" />);
+    fireEvent.click(screen.getByRole("button", { name: /^Viewers:/ }));
+
+    expect(screen.getByText(/Ada is driving/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Request control" }));
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "driver_claim" });
+
+    fireEvent.change(screen.getByLabelText("Your name"), { target: { value: "Grace" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+    expect(mockRenameViewer).toHaveBeenCalledWith("Grace");
+  });
+});
@@ -0,0 +1,151 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useStore } from "../store.js";
+import { renameViewer, sendToSession } from "../ws.js";
+import { useClickOutside } from "../utils/use-click-outside.js";
+import { getViewerId, getViewerName, viewerHue, viewerInitials } from "../utils/viewer.js";
+import type { SessionViewer } from "../types.js";
+
+const MAX_AVATARS = 4;
+
+function Avatar({ viewer, isDriver }: { viewer: SessionViewer; isDriver: boolean }) {
+  const hue = viewerHue(viewer.viewer_id);
+  return (
+    <span
+      className={`w-6 h-6 rounded-full flex items-center justify-center text-[9px] font-semibold text-white border-2 ${
+        isDriver ? "border-cc-primary" : "border-cc-bg"
+      }`}
+      style={{ backgroundColor: `hsl(${hue} 55% 45%)` }}
+      aria-hidden="true"
+    >
+      {viewerInitials(viewer.name)}
+    </span>
+  );
+}
+
+/** Avatars of everyone viewing the session, plus the driver lock controls. */
+export function PresenceIndicator({ sessionId }: { sessionId: string }) {
+  const presence = useStore((s) => s.presence.get(sessionId));
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(getViewerName);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const refs = useMemo(() => [rootRef], []);
+  const close = useCallback(() => setOpen(false), []);
+  useClickOutside(refs, close, open);
+
+  if (!presence || presence.viewers.length === 0) return null;
+
+  const myId = getViewerId();
+  const { viewers, driver, controlRequests } = presence;
+  const iAmDriver = driver?.viewer_id === myId;
+  const requested = controlRequests.includes(myId);
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const label = viewers.map((v) => `${v.name}${v.viewer_id === myId ? " (you)" : ""}${v.viewer_id === driver?.viewer_id ? " – driving" : ""}`).join(", ");
+
+  function saveName(e: React.FormEvent) {
+    e.preventDefault();
+    if (name.trim()) renameViewer(name);
+  }
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center h-7 px-1 rounded-md hover:bg-cc-hover transition-colors cursor-pointer"
+        title={label}
+        aria-label={`Viewers: ${label}`}
+        aria-expanded={open}
+      >
+        <span className="flex -space-x-1.5">
+          {shown.map((v) => (
+            <Avatar key={v.viewer_id} viewer={v} isDriver={v.viewer_id === driver?.viewer_id} />
+          ))}
+        </span>
+        {viewers.length > MAX_AVATARS && (
+          <span className="ml-1 text-[10px] text-cc-muted">+{viewers.length - MAX_AVATARS}</span>
+        )}
+        {driver && (
+          <svg viewBox="0 0 16 16" fill="currentColor" className={`ml-1 w-3 h-3 ${iAmDriver ? "text-cc-primary" : "text-cc-muted"}`} aria-hidden="true">
+            <path d="M8 1a3.5 3.5 0 00-3.5 3.5V6H4a1 1 0 00-1 1v6a1 1 0 001 1h8a1 1 0 001-1V7a1 1 0 00-1-1h-.5V4.5A3.5 3.5 0 008 1zm2 5V4.5a2 2 0 10-4 0V6h4z" />
+          </svg>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-64 z-50 bg-cc-card border border-cc-border rounded-xl shadow-lg p-3 space-y-3 text-xs">
+          <ul className="space-y-1.5">
+            {viewers.map((v) => {
+              const asks = controlRequests.includes(v.viewer_id);
+              return (
+                <li key={v.viewer_id} className="flex items-center gap-2">
+                  <Avatar viewer={v} isDriver={v.viewer_id === driver?.viewer_id} />
+                  <span className="flex-1 min-w-0 truncate text-cc-fg">
+                    {v.name}
+                    {v.viewer_id === myId && <span className="text-cc-muted"> (you)</span>}
+                  </span>
+                  {v.viewer_id === driver?.viewer_id && <span className="text-cc-primary">driving</span>}
+                  {v.typing && v.viewer_id !== driver?.viewer_id && <span className="text-cc-muted">typing…</span>}
+                  {asks && iAmDriver && (
+                    <button
+                      onClick={() => sendToSession(sessionId, { type: "driver_handoff", viewer_id: v.viewer_id })}
+                      className="px-1.5 py-0.5 rounded bg-cc-primary text-white hover:bg-cc-primary-hover cursor-pointer"
+                    >
+                      Hand off
+                    </button>
+                  )}
+                  {asks && !iAmDriver && <span className="text-cc-warning">asks</span>}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="pt-2 border-t border-cc-border space-y-2">
+            <p className="text-cc-muted">
+              {driver
+                ? iAmDriver
+                  ? "You are driving: only you can send prompts and answer permissions."
+                  : `${driver.name} is driving: only they can send prompts and answer permissions.`
+                : "Anyone here can send prompts. Take control to be the only one who can."}
+            </p>
+            {iAmDriver ? (
+              <button
+                onClick={() => sendToSession(sessionId, { type: "driver_release" })}
+                className="w-full px-2 py-1.5 rounded-lg bg-cc-hover hover:bg-cc-active text-cc-fg cursor-pointer"
+              >
+                Release control
+              </button>
+            ) : requested ? (
+              <button
+                onClick={() => sendToSession(sessionId, { type: "driver_release" })}
+                className="w-full px-2 py-1.5 rounded-lg bg-cc-hover hover:bg-cc-active text-cc-fg cursor-pointer"
+              >
+                Cancel request
+              </button>
+            ) : (
+              <button
+                onClick={() => sendToSession(sessionId, { type: "driver_claim" })}
+                className="w-full px-2 py-1.5 rounded-lg bg-cc-hover hover:bg-cc-active text-cc-fg cursor-pointer"
+              >
+                {driver ? "Request control" : "Take control"}
+              </button>
+            )}
+          </div>
+
+          <form onSubmit={saveName} className="pt-2 border-t border-cc-border flex items-center gap-1.5">
+            <label className="sr-only" htmlFor="presence-name">Your name</label>
+            <input
+              id="presence-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={40}
+              placeholder="Your name"
+              className="flex-1 min-w-0 px-2 py-1 bg-cc-input-bg border border-cc-border rounded-md text-cc-fg focus:outline-none focus:border-cc-primary/60"
+            />
+            <button type="submit" className="px-2 py-1 rounded-md bg-cc-hover hover:bg-cc-active text-cc-fg cursor-pointer">
+              Save
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
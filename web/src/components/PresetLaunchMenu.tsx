@@ -0,0 +1,86 @@
+import { useState, useEffect, useRef } from "react";
+import { api, type SessionPreset } from "../api.js";
+import { useStore } from "../store.js";
+import { connectSession } from "../ws.js";
+import { navigateToSession } from "../utils/routing.js";
+
+/** Sidebar menu that launches a session straight from a preset; the server sends its prompt. */
+export function PresetLaunchMenu() {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<SessionPreset[] | null>(null);
+  const [launching, setLaunching] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setError("");
+    api.listPresets().then(setPresets).catch(() => setPresets([]));
+    function handleClick(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener("pointerdown", handleClick);
+    return () => document.removeEventListener("pointerdown", handleClick);
+  }, [open]);
+
+  async function launch(preset: SessionPreset) {
+    setLaunching(preset.id);
+    setError("");
+    try {
+      const info = await api.createSession({ presetId: preset.id });
+      const store = useStore.getState();
+      store.setSdkSessions([...store.sdkSessions.filter((s) => s.sessionId !== info.sessionId), info]);
+      store.setSessionName(info.sessionId, preset.name);
+      setOpen(false);
+      navigateToSession(info.sessionId);
+      connectSession(info.sessionId);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLaunching(null);
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        title="New from preset"
+        aria-label="New from preset"
+        aria-expanded={open}
+        className="w-7 h-7 rounded-lg text-cc-muted hover:text-cc-fg hover:bg-cc-hover flex items-center justify-center transition-colors duration-150 cursor-pointer"
+      >
+        <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3.5 h-3.5">
+          <path d="M9 1.5L3.5 9H8l-1 5.5L12.5 7H8l1-5.5z" strokeLinejoin="round" />
+        </svg>
+      </button>
+      {open && (
+        <div
+          role="menu"
+          aria-label="Presets"
+          className="absolute right-0 top-full mt-1 w-56 z-20 rounded-[10px] border border-cc-border bg-cc-card shadow-lg py-1"
+        >
+          {presets === null && <div className="px-3 py-2 text-xs text-cc-muted">Loading...</div>}
+          {presets?.length === 0 && (
+            <div className="px-3 py-2 text-xs text-cc-muted">No presets yet. Save one from the home page.</div>
+          )}
+          {presets?.map((preset) => (
+            <button
+              key={preset.id}
+              role="menuitem"
+              onClick={() => launch(preset)}
+              disabled={launching !== null}
+              className="w-full px-3 py-1.5 text-left text-xs text-cc-fg hover:bg-cc-hover disabled:opacity-50 cursor-pointer"
+            >
+              <span className="block truncate">{launching === preset.id ? "Launching..." : preset.name}</span>
+              {preset.options.cwd && (
+                <span className="block truncate text-[11px] text-cc-muted">{preset.options.cwd}</span>
+              )}
+            </button>
+          ))}
+          {error && <div className="px-3 py-1.5 text-[11px] text-cc-error">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
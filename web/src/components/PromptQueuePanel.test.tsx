@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import type { PromptQueue } from "../types.js";
+
+let mockQueues: Map<string, PromptQueue>;
+const mockSendToSession = vi.fn();
+
+vi.mock("../ws.js", () => ({
+  sendToSession: (...args: unknown[]) => mockSendToSession(...args),
+}));
+
+vi.mock("../store.js", () => ({
+  useStore: (selector: (state: { promptQueues: Map<string, PromptQueue> }) => unknown) =>
+    selector({ promptQueues: mockQueues }),
+}));
+
+import { PromptQueuePanel } from "./PromptQueuePanel.js";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockQueues = new Map([["s1", {
+    prompts: [
+      { id: "q1", content: "run the tests", created_at: 1 },
+      { id: "q2", content: "then open a PR", created_at: 2 },
+    ],
+    paused: false,
+    pause_on_error: false,
+  }]]);
+});
+
+describe("PromptQueuePanel", () => {
+  it("renders nothing when the queue is empty", () => {
+    mockQueues = new Map([["s1", { prompts: [], paused: false, pause_on_error: false }]]);
+    const { container } = render(<PromptQueuePanel sessionId="s1" />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("reorders, cancels and edits queued prompts", () => {
+    render(<PromptQueuePanel sessionId="s1" />);
+    expect(screen.getByText("Queued (2)")).toBeInTheDocument();
+    expect(screen.getAllByRole("button", { name: "Move up" })[0]).toBeDisabled();
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Move up" })[1]);
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "queue_move", id: "q2", index: 0 });
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Cancel queued prompt" })[0]);
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "queue_remove", id: "q1" });
+
+    fireEvent.click(screen.getByText("run the tests"));
+    const editor = screen.getByLabelText("Edit queued prompt");
+    fireEvent.change(editor, { target: { value: "run the unit tests" } });
+    fireEvent.keyDown(editor, { key: "Enter" });
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "queue_edit", id: "q1", content: "run the unit tests" });
+  });
+
+  it("shows why the queue paused and resumes it", () => {
+    mockQueues.set("s1", { ...mockQueues.get("s1")!, paused: true, paused_reason: "Paused after an error result" });
+    render(<PromptQueuePanel sessionId="s1" />);
+
+    expect(screen.getByText("Paused after an error result")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Resume" }));
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "queue_settings", paused: false });
+
+    fireEvent.click(screen.getByLabelText("Pause on error"));
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", { type: "queue_settings", pause_on_error: true });
+  });
+});
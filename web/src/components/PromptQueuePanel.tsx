@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useStore } from "../store.js";
+import { sendToSession } from "../ws.js";
+import type { QueuedPrompt } from "../types.js";
+
+function QueuedPromptRow({
+  sessionId,
+  prompt,
+  index,
+  count,
+  disabled,
+}: {
+  sessionId: string;
+  prompt: QueuedPrompt;
+  index: number;
+  count: number;
+  disabled: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  function save() {
+    if (draft !== null && draft.trim()) {
+      sendToSession(sessionId, { type: "queue_edit", id: prompt.id, content: draft });
+    }
+    setDraft(null);
+  }
+
+  const iconButton = "flex items-center justify-center w-6 h-6 rounded-md text-cc-muted hover:text-cc-fg hover:bg-cc-hover disabled:opacity-30 disabled:cursor-not-allowed transition-colors cursor-pointer";
+
+  return (
+    <li className="flex items-start gap-2 px-2 py-1.5 rounded-lg hover:bg-cc-hover/50">
+      <span className="shrink-0 w-4 pt-1 text-[11px] text-cc-muted tabular-nums">{index + 1}.</span>
+      {draft !== null ? (
+        <div className="flex-1 min-w-0 flex flex-col gap-1">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                save();
+              } else if (e.key === "Escape") {
+                setDraft(null);
+              }
+            }}
+            aria-label="Edit queued prompt"
+            rows={2}
+            autoFocus
+            className="w-full px-2 py-1 text-xs bg-cc-input-bg border border-cc-border rounded-md resize-none outline-none text-cc-fg focus:border-cc-primary/50"
+          />
+          <div className="flex gap-1 text-[11px]">
+            <button onClick={save} className="px-2 py-0.5 rounded-md bg-cc-primary text-white hover:bg-cc-primary-hover cursor-pointer">Save</button>
+            <button onClick={() => setDraft(null)} className="px-2 py-0.5 rounded-md text-cc-muted hover:text-cc-fg cursor-pointer">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => !disabled && setDraft(prompt.content)}
+          disabled={disabled}
+          className="flex-1 min-w-0 pt-0.5 text-left text-xs text-cc-fg whitespace-pre-wrap break-words line-clamp-3 cursor-pointer disabled:cursor-default"
+          title={disabled ? undefined : "Edit"}
+        >
+          {prompt.content}
+          {prompt.images?.length ? <span className="ml-1 text-cc-muted">(+{prompt.images.length} image{prompt.images.length === 1 ? "" : "s"})</span> : null}
+        </button>
+      )}
+      <div className="shrink-0 flex items-center">
+        <button
+          onClick={() => sendToSession(sessionId, { type: "queue_move", id: prompt.id, index: index - 1 })}
+          disabled={disabled || index === 0}
+          className={iconButton}
+          aria-label="Move up"
+        >
+          <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3 h-3">
+            <path d="M4 10l4-4 4 4" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+        </button>
+        <button
+          onClick={() => sendToSession(sessionId, { type: "queue_move", id: prompt.id, index: index + 1 })}
+          disabled={disabled || index === count - 1}
+          className={iconButton}
+          aria-label="Move down"
+        >
+          <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3 h-3">
+            <path d="M4 6l4 4 4-4" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+        </button>
+        <button
+          onClick={() => sendToSession(sessionId, { type: "queue_remove", id: prompt.id })}
+          disabled={disabled}
+          className={iconButton}
+          aria-label="Cancel queued prompt"
+        >
+          <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3 h-3">
+            <path d="M4 4l8 8M12 4l-8 8" strokeLinecap="round" />
+          </svg>
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/** Prompts waiting for the agent to go idle; sent one at a time by the server. */
+export function PromptQueuePanel({ sessionId, disabled = false }: { sessionId: string; disabled?: boolean }) {
+  const queue = useStore((s) => s.promptQueues?.get(sessionId));
+  if (!queue || queue.prompts.length === 0) return null;
+
+  return (
+    <div className="mb-2 mx-3 sm:mx-0 rounded-xl border border-cc-border bg-cc-card" role="region" aria-label="Prompt queue">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-cc-border text-[11px]">
+        <span className="font-medium text-cc-fg">Queued ({queue.prompts.length})</span>
+        {queue.paused && (
+          <span className="text-cc-warning truncate">{queue.paused_reason || "Paused"}</span>
+        )}
+        <label className="ml-auto flex items-center gap-1 text-cc-muted cursor-pointer">
+          <input
+            type="checkbox"
+            checked={queue.pause_on_error}
+            disabled={disabled}
+            onChange={(e) => sendToSession(sessionId, { type: "queue_settings", pause_on_error: e.target.checked })}
+            className="accent-cc-primary"
+          />
+          Pause on error
+        </label>
+        <button
+          onClick={() => sendToSession(sessionId, { type: "queue_settings", paused: !queue.paused })}
+          disabled={disabled}
+          className="px-2 py-0.5 rounded-md border border-cc-border text-cc-fg hover:bg-cc-hover disabled:opacity-50 cursor-pointer"
+        >
+          {queue.paused ? "Resume" : "Pause"}
+        </button>
+      </div>
+      <ol className="max-h-40 overflow-y-auto p-1">
+        {queue.prompts.map((prompt, i) => (
+          <QueuedPromptRow
+            key={prompt.id}
+            sessionId={sessionId}
+            prompt={prompt}
+            index={i}
+            count={queue.prompts.length}
+            disabled={disabled}
+          />
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+const mockApi = {
+  getNotificationSettings: vi.fn(),
+  updateNotificationSettings: vi.fn(),
+  sendTestNotification: vi.fn(),
+};
+
+vi.mock("../api.js", () => ({
+  api: {
+    getNotificationSettings: (...args: unknown[]) => mockApi.getNotificationSettings(...args),
+    updateNotificationSettings: (...args: unknown[]) => mockApi.updateNotificationSettings(...args),
+    sendTestNotification: (...args: unknown[]) => mockApi.sendTestNotification(...args),
+  },
+}));
+
+vi.mock("../utils/push-notifications.js", () => ({
+  isPushSupported: () => false,
+  hasPushSubscription: () => Promise.resolve(false),
+  subscribeToPush: vi.fn(),
+  unsubscribeFromPush: vi.fn(),
+}));
+
+import { RemoteNotificationsSettings } from "./RemoteNotificationsSettings.js";
+
+const settings = {
+  publicKey: "key",
+  subscriptionCount: 1,
+  webhookUrl: "",
+  baseUrl: "",
+  events: { permission_request: true, result: true, stuck: true, cron_disabled: true },
+  mutedSessions: ["s1"],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockApi.getNotificationSettings.mockResolvedValue(settings);
+  mockApi.updateNotificationSettings.mockImplementation(async (patch: Record<string, unknown>) => ({
+    ...settings,
+    ...patch,
+    events: { ...settings.events, ...(patch.events as object) },
+  }));
+  mockApi.sendTestNotification.mockResolvedValue({ push: { sent: 1, failed: 0, removed: 0 }, webhook: "disabled" });
+});
+
+describe("RemoteNotificationsSettings", () => {
+  it("shows subscription and mute counts and explains missing push support", async () => {
+    render(<RemoteNotificationsSettings />);
+    expect(await screen.findByText("1 device subscribed • 1 muted session")).toBeInTheDocument();
+    expect(screen.getByText(/Web Push needs HTTPS/)).toBeInTheDocument();
+  });
+
+  it("toggles events and saves the webhook target", async () => {
+    render(<RemoteNotificationsSettings />);
+    fireEvent.click(await screen.findByRole("button", { name: /Finished turns/ }));
+    await waitFor(() => {
+      expect(mockApi.updateNotificationSettings).toHaveBeenCalledWith({ events: { result: false } });
+    });
+
+    fireEvent.change(screen.getByLabelText("Webhook URL"), { target: { value: "https://hooks.example.com/x" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save targets" }));
+    await waitFor(() => {
+      expect(mockApi.updateNotificationSettings).toHaveBeenCalledWith({ webhookUrl: "https://hooks.example.com/x", baseUrl: "" });
+    });
+    expect(await screen.findByText("Saved.")).toBeInTheDocument();
+  });
+
+  it("sends a test notification", async () => {
+    render(<RemoteNotificationsSettings />);
+    fireEvent.click(await screen.findByRole("button", { name: "Send test" }));
+    expect(await screen.findByText("Test: 1 push sent.")).toBeInTheDocument();
+  });
+});
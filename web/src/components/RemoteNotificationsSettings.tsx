@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { api, type NotificationKind, type NotificationSettings } from "../api.js";
+import { hasPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "../utils/push-notifications.js";
+
+const EVENT_LABELS: Record<NotificationKind, string> = {
+  permission_request: "Permission requests",
+  result: "Finished turns",
+  stuck: "Stuck sessions",
+  cron_disabled: "Scheduled tasks turned off",
+};
+
+/**
+ * Server-side notifications (Web Push + webhook). Unlike sound and desktop
+ * alerts these keep firing when no Companion tab is open.
+ */
+export function RemoteNotificationsSettings() {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [status, setStatus] = useState("");
+  const pushSupported = isPushSupported();
+
+  useEffect(() => {
+    api
+      .getNotificationSettings()
+      .then((s) => {
+        setSettings(s);
+        setWebhookUrl(s.webhookUrl);
+        setBaseUrl(s.baseUrl);
+      })
+      .catch(() => {});
+    hasPushSubscription().then(setPushEnabled).catch(() => {});
+  }, []);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    setStatus("");
+    try {
+      await action();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onTogglePush() {
+    void run(async () => {
+      if (pushEnabled) {
+        await unsubscribeFromPush();
+        setPushEnabled(false);
+      } else {
+        if (!settings) return;
+        await subscribeToPush(settings.publicKey);
+        setPushEnabled(true);
+      }
+      setSettings(await api.getNotificationSettings());
+    });
+  }
+
+  function onToggleEvent(kind: NotificationKind) {
+    if (!settings) return;
+    void run(async () => {
+      setSettings(await api.updateNotificationSettings({ events: { [kind]: !settings.events[kind] } }));
+    });
+  }
+
+  function onSaveTargets(e: React.FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const next = await api.updateNotificationSettings({ webhookUrl, baseUrl });
+      setSettings(next);
+      setWebhookUrl(next.webhookUrl);
+      setBaseUrl(next.baseUrl);
+      setStatus("Saved.");
+    });
+  }
+
+  function onTest() {
+    void run(async () => {
+      const result = await api.sendTestNotification();
+      const parts = [`${result.push.sent} push sent`];
+      if (result.push.failed) parts.push(`${result.push.failed} failed`);
+      if (result.webhook !== "disabled") parts.push(`webhook ${result.webhook}`);
+      setStatus(`Test: ${parts.join(", ")}.`);
+    });
+  }
+
+  if (!settings) return null;
+
+  return (
+    <div className="pt-2 space-y-3 border-t border-cc-border">
+      <div>
+        <h3 className="text-xs font-semibold text-cc-fg">Remote notifications</h3>
+        <p className="mt-0.5 text-xs text-cc-muted">
+          Sent by the server when a session needs permission or finishes a turn, even with no tab open.
+          Mute a single session from the bell in its top bar.
+        </p>
+      </div>
+
+      {pushSupported ? (
+        <button
+          type="button"
+          onClick={onTogglePush}
+          disabled={busy}
+          className="w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm bg-cc-hover text-cc-fg hover:bg-cc-active transition-colors cursor-pointer disabled:cursor-not-allowed"
+        >
+          <span>Push to this device</span>
+          <span className="text-xs text-cc-muted">{pushEnabled ? "On" : "Off"}</span>
+        </button>
+      ) : (
+        <p className="text-xs text-cc-muted">Web Push needs HTTPS (or localhost) and a browser with service workers.</p>
+      )}
+
+      {(Object.keys(EVENT_LABELS) as NotificationKind[]).map((kind) => (
+        <button
+          key={kind}
+          type="button"
+          onClick={() => onToggleEvent(kind)}
+          disabled={busy}
+          className="w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm bg-cc-hover text-cc-fg hover:bg-cc-active transition-colors cursor-pointer disabled:cursor-not-allowed"
+        >
+          <span>{EVENT_LABELS[kind]}</span>
+          <span className="text-xs text-cc-muted">{settings.events[kind] ? "On" : "Off"}</span>
+        </button>
+      ))}
+
+      <form onSubmit={onSaveTargets} className="space-y-2">
+        <div>
+          <label className="block text-xs font-medium mb-1" htmlFor="notification-webhook">Webhook URL</label>
+          <input
+            id="notification-webhook"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://hooks.example.com/companion"
+            className="w-full px-3 py-2 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium mb-1" htmlFor="notification-base-url">Link base URL</label>
+          <input
+            id="notification-base-url"
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder={window.location.origin}
+            className="w-full px-3 py-2 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60"
+          />
+          <p className="mt-1 text-[11px] text-cc-muted">Used to build session links and the signed Allow/Deny links in notifications.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer disabled:cursor-not-allowed"
+          >
+            Save targets
+          </button>
+          <button
+            type="button"
+            onClick={onTest}
+            disabled={busy || (settings.subscriptionCount === 0 && !settings.webhookUrl)}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send test
+          </button>
+        </div>
+      </form>
+
+      <p className="text-xs text-cc-muted">
+        {settings.subscriptionCount} device{settings.subscriptionCount === 1 ? "" : "s"} subscribed
+        {settings.mutedSessions.length > 0 ? ` • ${settings.mutedSessions.length} muted session${settings.mutedSessions.length === 1 ? "" : "s"}` : ""}
+      </p>
+
+      {error && (
+        <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+          {error}
+        </div>
+      )}
+      {status && <p className="text-xs text-cc-success">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen } from "@testing-library/react";
+import type { RewindState } from "../store.js";
+
+const { confirmRewindMock, setRewindStateMock } = vi.hoisted(() => ({
+  confirmRewindMock: vi.fn(),
+  setRewindStateMock: vi.fn(),
+}));
+
+let rewindStates = new Map<string, RewindState>();
+
+vi.mock("../ws.js", () => ({
+  confirmRewind: confirmRewindMock,
+}));
+
+vi.mock("../store.js", () => {
+  const useStore = (selector: (state: Record<string, unknown>) => unknown) => selector({ rewindStates });
+  useStore.getState = () => ({ setRewindState: setRewindStateMock });
+  return { useStore };
+});
+
+import { RewindDialog } from "./RewindDialog.js";
+
+beforeEach(() => {
+  rewindStates = new Map();
+  confirmRewindMock.mockReset();
+  setRewindStateMock.mockReset();
+});
+
+describe("RewindDialog", () => {
+  it("renders nothing without a pending rewind", () => {
+    render(<RewindDialog sessionId="s1" />);
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+
+  it("disables confirmation while the preview is loading", () => {
+    rewindStates.set("s1", { messageId: "u1", phase: "previewing" });
+    render(<RewindDialog sessionId="s1" />);
+
+    expect(screen.getByText("Checking which files would change...")).toBeTruthy();
+    expect((screen.getByRole("button", { name: "Rewind files" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it("lists files from the dry run and confirms the rewind", () => {
+    rewindStates.set("s1", {
+      messageId: "u1",
+      phase: "confirm",
+      preview: { can_rewind: true, files_changed: ["src/a.ts", "src/b.ts"], insertions: 5, deletions: 2 },
+    });
+    render(<RewindDialog sessionId="s1" />);
+
+    expect(screen.getByText("src/a.ts")).toBeTruthy();
+    expect(screen.getByText("src/b.ts")).toBeTruthy();
+    expect(screen.getByText(/2 files will be restored/)).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Rewind files" }));
+    expect(confirmRewindMock).toHaveBeenCalledWith("s1", "u1");
+  });
+
+  it("shows the file count when the CLI reports no file names", () => {
+    rewindStates.set("s1", {
+      messageId: "u1",
+      phase: "confirm",
+      preview: { can_rewind: true, files_changed: [], files_changed_count: 3, insertions: 12, deletions: 5 },
+    });
+    render(<RewindDialog sessionId="s1" />);
+
+    expect(screen.getByText(/3 files will be restored/)).toBeTruthy();
+    expect(screen.getByText(/\+12 \/ -5/)).toBeTruthy();
+  });
+
+  it("shows errors and blocks confirmation", () => {
+    rewindStates.set("s1", {
+      messageId: "u1",
+      phase: "confirm",
+      error: "No file checkpoint is available for this message",
+    });
+    render(<RewindDialog sessionId="s1" />);
+
+    expect(screen.getByText("No file checkpoint is available for this message")).toBeTruthy();
+    expect((screen.getByRole("button", { name: "Rewind files" }) as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.click(screen.getByRole("button", { name: "Cancel" }));
+    expect(setRewindStateMock).toHaveBeenCalledWith("s1", null);
+  });
+});
@@ -0,0 +1,91 @@
+import { createPortal } from "react-dom";
+import { useStore } from "../store.js";
+import { confirmRewind } from "../ws.js";
+
+/** Confirmation for "Rewind to here": lists the files the dry run says will be restored. */
+export function RewindDialog({ sessionId }: { sessionId: string }) {
+  const rewind = useStore((s) => s.rewindStates.get(sessionId));
+  if (!rewind) return null;
+
+  const close = () => useStore.getState().setRewindState(sessionId, null);
+  const preview = rewind.preview;
+  const files = preview?.files_changed ?? [];
+  const fileCount = preview?.files_changed_count ?? files.length;
+  const canConfirm = rewind.phase === "confirm" && !!preview?.can_rewind && !rewind.error;
+  const hasLineStats = typeof preview?.insertions === "number" || typeof preview?.deletions === "number";
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50" onClick={close}>
+      <div
+        role="dialog"
+        aria-label="Rewind files"
+        className="w-full max-w-lg max-h-[90dvh] sm:max-h-[80dvh] mx-0 sm:mx-4 flex flex-col bg-cc-bg border border-cc-border rounded-t-[14px] sm:rounded-[14px] shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 sm:px-5 py-3 sm:py-4 border-b border-cc-border">
+          <h2 className="text-sm font-semibold text-cc-fg">Rewind to here</h2>
+          <p className="text-xs text-cc-muted mt-0.5">
+            Restores files to how they were before this message and removes it, and everything after it, from the chat.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 sm:px-5 py-3 sm:py-4 space-y-3">
+          {rewind.phase === "previewing" && (
+            <p className="text-xs text-cc-muted">Checking which files would change...</p>
+          )}
+
+          {rewind.error && (
+            <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+              {rewind.error}
+            </div>
+          )}
+
+          {preview?.can_rewind && (
+            <>
+              <p className="text-xs text-cc-fg">
+                {fileCount > 0
+                  ? `${fileCount} file${fileCount === 1 ? "" : "s"} will be restored`
+                  : "No file changes to restore"}
+                {hasLineStats && (
+                  <span className="text-cc-muted font-mono-code">
+                    {" "}(+{preview.insertions ?? 0} / -{preview.deletions ?? 0})
+                  </span>
+                )}
+              </p>
+              {files.length > 0 && (
+                <ul className="space-y-1">
+                  {files.map((file) => (
+                    <li key={file} className="text-xs font-mono-code text-cc-muted truncate" title={file}>
+                      {file}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 sm:px-5 py-3 border-t border-cc-border">
+          <button
+            onClick={close}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => confirmRewind(sessionId, rewind.messageId)}
+            disabled={!canConfirm}
+            className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+              canConfirm
+                ? "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+                : "bg-cc-hover text-cc-muted cursor-not-allowed"
+            }`}
+          >
+            {rewind.phase === "rewinding" ? "Rewinding..." : "Rewind files"}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
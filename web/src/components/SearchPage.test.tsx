@@ -0,0 +1,110 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+interface MockStoreState {
+  currentSessionId: string | null;
+  sessionNames: Map<string, string>;
+  setFeedFocus: ReturnType<typeof vi.fn>;
+}
+
+let mockState: MockStoreState;
+
+const mockApi = { search: vi.fn() };
+const mockNavigateToSession = vi.fn();
+
+vi.mock("../api.js", () => ({
+  api: {
+    search: (...args: unknown[]) => mockApi.search(...args),
+  },
+}));
+
+vi.mock("../store.js", () => {
+  const useStoreFn = (selector: (state: MockStoreState) => unknown) => selector(mockState);
+  useStoreFn.getState = () => mockState;
+  return { useStore: useStoreFn };
+});
+
+vi.mock("../utils/routing.js", () => ({
+  navigateHome: vi.fn(),
+  navigateToSession: (...args: unknown[]) => mockNavigateToSession(...args),
+}));
+
+import { SearchPage } from "./SearchPage.js";
+
+function hit(overrides: Record<string, unknown> = {}) {
+  return {
+    sessionId: "s1",
+    sessionName: "Fix login",
+    messageId: "u1",
+    kind: "user",
+    snippet: "why is the login test flaky",
+    timestamp: new Date(2026, 2, 14, 12).getTime(),
+    repoRoot: "/work/app",
+    backendType: "claude",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockState = { currentSessionId: null, sessionNames: new Map(), setFeedFocus: vi.fn() };
+  mockApi.search.mockResolvedValue({
+    hits: [
+      hit(),
+      hit({ messageId: "a1", kind: "tool_result", snippet: "2 flaky tests failed" }),
+      hit({ sessionId: "s2", sessionName: undefined, messageId: "u9", snippet: "flaky deploy", repoRoot: "/work/api", backendType: "codex" }),
+    ],
+    total: 3,
+    options: { repos: ["/work/api", "/work/app"], backends: ["claude", "codex"] },
+  });
+});
+
+function search(text: string) {
+  fireEvent.change(screen.getByLabelText("Search sessions"), { target: { value: text } });
+}
+
+describe("SearchPage", () => {
+  it("searches as you type and groups results by session", async () => {
+    render(<SearchPage embedded />);
+    search("flaky");
+
+    await waitFor(() => expect(screen.getByText("Fix login")).toBeInTheDocument());
+    expect(mockApi.search).toHaveBeenCalledWith("flaky", { from: undefined, repo: "", backend: "" });
+    // Unnamed sessions fall back to a short id
+    expect(screen.getByText("s2")).toBeInTheDocument();
+    expect(screen.getByText("Tool output")).toBeInTheDocument();
+    expect(screen.getByText("3 matches")).toBeInTheDocument();
+    // Query words are highlighted in the snippet
+    expect(screen.getAllByText("flaky", { selector: "mark" })).toHaveLength(3);
+  });
+
+  it("jumps to the matching message in its session", async () => {
+    render(<SearchPage embedded />);
+    search("flaky");
+
+    // The snippet is split by its highlight, so match the paragraph's full text.
+    fireEvent.click(await screen.findByText((_, el) => el?.tagName === "P" && el.textContent === "2 flaky tests failed"));
+    expect(mockState.setFeedFocus).toHaveBeenCalledWith({ sessionId: "s1", messageId: "a1" });
+    expect(mockNavigateToSession).toHaveBeenCalledWith("s1");
+  });
+
+  it("passes repo and backend filters", async () => {
+    render(<SearchPage embedded />);
+    search("flaky");
+    await screen.findByText("Fix login");
+
+    fireEvent.change(screen.getByLabelText("Backend"), { target: { value: "codex" } });
+    await waitFor(() =>
+      expect(mockApi.search).toHaveBeenLastCalledWith("flaky", { from: undefined, repo: "", backend: "codex" }),
+    );
+  });
+
+  it("shows server errors", async () => {
+    mockApi.search.mockRejectedValueOnce(new Error("q is required"));
+    render(<SearchPage embedded />);
+    search("x y");
+
+    expect(await screen.findByText("q is required")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from "react";
+import { api, type SearchHit, type SearchKind, type SearchResponse } from "../api.js";
+import { useStore } from "../store.js";
+import { navigateHome, navigateToSession } from "../utils/routing.js";
+
+interface SearchPageProps {
+  embedded?: boolean;
+}
+
+const DEBOUNCE_MS = 250;
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  user: "You",
+  assistant: "Assistant",
+  tool_use: "Tool call",
+  tool_result: "Tool output",
+};
+
+const RANGES: { label: string; days: number | null }[] = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "All time", days: null },
+];
+
+// Kept across visits so going back from a result shows the same search.
+let lastSearch = { query: "", rangeDays: null as number | null, repo: "", backend: "" };
+
+/** Local calendar day, matching the server's day buckets. */
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function rangeStart(days: number | null): string | undefined {
+  if (days === null) return undefined;
+  const date = new Date();
+  date.setDate(date.getDate() - (days - 1));
+  return localDay(date);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Snippet with the query's words marked. */
+function Highlighted({ text, words }: { text: string; words: string[] }) {
+  if (words.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join("|")})`, "gi");
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-cc-primary/25 text-cc-fg rounded-sm px-0.5">{part}</mark>
+          : part,
+      )}
+    </>
+  );
+}
+
+function groupBySession(hits: SearchHit[]): { sessionId: string; hits: SearchHit[] }[] {
+  const groups = new Map<string, SearchHit[]>();
+  for (const hit of hits) {
+    const list = groups.get(hit.sessionId);
+    if (list) list.push(hit);
+    else groups.set(hit.sessionId, [hit]);
+  }
+  return [...groups].map(([sessionId, list]) => ({ sessionId, hits: list }));
+}
+
+export function SearchPage({ embedded = false }: SearchPageProps) {
+  const currentSessionId = useStore((s) => s.currentSessionId);
+  const sessionNames = useStore((s) => s.sessionNames);
+  const [query, setQuery] = useState(lastSearch.query);
+  const [rangeDays, setRangeDays] = useState<number | null>(lastSearch.rangeDays);
+  const [repo, setRepo] = useState(lastSearch.repo);
+  const [backend, setBackend] = useState(lastSearch.backend);
+  const [results, setResults] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    lastSearch = { query, rangeDays, repo, backend };
+    const q = query.trim();
+    if (!q) {
+      setResults(null);
+      setError("");
+      return;
+    }
+    let active = true;
+    const timer = setTimeout(() => {
+      setLoading(true);
+      api
+        .search(q, { from: rangeStart(rangeDays), repo, backend })
+        .then((next) => {
+          if (!active) return;
+          setResults(next);
+          setError("");
+        })
+        .catch((e: unknown) => {
+          if (active) setError(e instanceof Error ? e.message : String(e));
+        })
+        .finally(() => {
+          if (active) setLoading(false);
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [query, rangeDays, repo, backend]);
+
+  const words = useMemo(
+    () => (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((w) => w.length >= 2),
+    [query],
+  );
+  const groups = useMemo(() => groupBySession(results?.hits ?? []), [results]);
+
+  function openHit(hit: SearchHit) {
+    useStore.getState().setFeedFocus(hit.messageId ? { sessionId: hit.sessionId, messageId: hit.messageId } : null);
+    navigateToSession(hit.sessionId);
+  }
+
+  const selectClass = "px-2.5 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60";
+
+  return (
+    <div className={`${embedded ? "h-full" : "h-[100dvh]"} bg-cc-bg text-cc-fg font-sans-ui antialiased overflow-y-auto`}>
+      <div className="max-w-4xl mx-auto px-4 sm:px-8 py-6 sm:py-10">
+        <div className="flex items-start justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-xl font-semibold text-cc-fg">Search</h1>
+            <p className="mt-1 text-sm text-cc-muted">
+              Find prompts, replies, tool calls and tool output across every session. Use "quotes" for exact phrases.
+            </p>
+          </div>
+          {!embedded && (
+            <button
+              onClick={() => {
+                if (currentSessionId) {
+                  navigateToSession(currentSessionId);
+                } else {
+                  navigateHome();
+                }
+              }}
+              className="px-3 py-1.5 rounded-lg text-sm text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+            >
+              Back
+            </button>
+          )}
+        </div>
+
+        <input
+          type="search"
+          aria-label="Search sessions"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search all sessions..."
+          autoFocus
+          className="w-full px-3 py-2 mb-3 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60"
+        />
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="flex rounded-lg border border-cc-border overflow-hidden" role="group" aria-label="Date range">
+            {RANGES.map((range) => (
+              <button
+                key={range.label}
+                onClick={() => setRangeDays(range.days)}
+                aria-pressed={rangeDays === range.days}
+                className={`px-2.5 py-1.5 text-xs transition-colors cursor-pointer ${
+                  rangeDays === range.days ? "bg-cc-active text-cc-fg" : "text-cc-muted hover:bg-cc-hover"
+                }`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+          <select aria-label="Repo" value={repo} onChange={(e) => setRepo(e.target.value)} className={selectClass}>
+            <option value="">All repos</option>
+            {results?.options.repos.map((r) => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <select aria-label="Backend" value={backend} onChange={(e) => setBackend(e.target.value)} className={selectClass}>
+            <option value="">All backends</option>
+            {results?.options.backends.map((b) => <option key={b} value={b}>{b}</option>)}
+          </select>
+          {loading && <span className="text-xs text-cc-muted">Searching...</span>}
+        </div>
+
+        {error && (
+          <div className="mb-4 px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+            {error}
+          </div>
+        )}
+
+        {results && (
+          results.hits.length === 0 ? (
+            <p className="text-sm text-cc-muted">No matches.</p>
+          ) : (
+            <>
+              <p className="mb-3 text-xs text-cc-muted">
+                {results.total} match{results.total === 1 ? "" : "es"}
+                {results.total > results.hits.length && `, showing the best ${results.hits.length}`}
+              </p>
+              <div className="space-y-4">
+                {groups.map((group) => {
+                  const first = group.hits[0];
+                  const name = sessionNames.get(group.sessionId) || first.sessionName || group.sessionId.slice(0, 8);
+                  return (
+                    <section key={group.sessionId} className="bg-cc-card border border-cc-border rounded-xl overflow-hidden">
+                      <header className="flex items-center gap-2 px-4 py-2 border-b border-cc-border text-xs">
+                        <span className="font-medium text-cc-fg truncate">{name}</span>
+                        {first.repoRoot && <span className="text-cc-muted truncate font-mono-code">{first.repoRoot}</span>}
+                        <span className="ml-auto text-cc-muted">{first.backendType}</span>
+                      </header>
+                      <ul className="divide-y divide-cc-border">
+                        {group.hits.map((hit, i) => (
+                          <li key={`${hit.messageId}-${hit.kind}-${i}`}>
+                            <button
+                              onClick={() => openHit(hit)}
+                              className="w-full text-left px-4 py-2.5 hover:bg-cc-hover transition-colors cursor-pointer"
+                            >
+                              <div className="flex items-center gap-2 mb-1 text-[11px] text-cc-muted">
+                                <span className="uppercase tracking-wider">
+                                  {KIND_LABELS[hit.kind]}
+                                  {hit.toolName ? ` · ${hit.toolName}` : ""}
+                                </span>
+                                {hit.timestamp > 0 && <span className="ml-auto">{new Date(hit.timestamp).toLocaleString()}</span>}
+                              </div>
+                              <p className="text-xs text-cc-fg leading-relaxed break-words">
+                                <Highlighted text={hit.snippet} words={words} />
+                              </p>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </section>
+                  );
+                })}
+              </div>
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
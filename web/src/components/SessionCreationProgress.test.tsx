@@ -101,4 +101,19 @@ describe("SessionCreationProgress", () => {
     );
     expect(labels).toEqual(["Step 1", "Step 2", "Step 3"]);
   });
+
+  it("shows why a queued launch is waiting", () => {
+    const steps: CreationProgressEvent[] = [
+      { step: "launching_cli", label: "Launching Claude Code...", status: "in_progress" },
+      {
+        step: "waiting_for_slot",
+        label: "Waiting for a free slot (position 2 in queue)...",
+        status: "in_progress",
+        detail: "3 of 3 sessions running",
+      },
+    ];
+    render(<SessionCreationProgress steps={steps} />);
+    expect(screen.getByText("Waiting for a free slot (position 2 in queue)...")).toBeDefined();
+    expect(screen.getByText("3 of 3 sessions running")).toBeDefined();
+  });
 });
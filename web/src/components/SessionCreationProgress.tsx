@@ -120,6 +120,11 @@ export function SessionCreationProgress({ steps, error }: Props) {
                 )}
               </div>
 
+              {/* One-line status, e.g. the limit a queued launch waits on */}
+              {step.detail && !LOG_STEPS.has(step.step) && step.status === "in_progress" && (
+                <p className="ml-[26px] text-xs text-cc-muted">{step.detail}</p>
+              )}
+
               {/* Detail log area */}
               {hasLogs && isExpanded && (
                 <pre
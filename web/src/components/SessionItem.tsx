@@ -127,7 +127,10 @@ export function SessionItem({
   }, []);
 
   return (
-    <div className={`relative group ${archived ? "opacity-50" : ""}`}>
+    <div
+      className={`relative group ${archived ? "opacity-50" : ""}`}
+      style={s.forkDepth ? { paddingLeft: Math.min(s.forkDepth, 3) * 12 } : undefined}
+    >
       <button
         onClick={() => onSelect(s.id)}
         onDoubleClick={(e) => {
@@ -177,9 +180,17 @@ export function SessionItem({
           </span>
         )}
 
-        {/* Badges: backend type + Docker + Cron */}
+        {/* Badges: stuck + backend type + Docker + Fork + Cron */}
         {!isEditing && (
           <span className="flex items-center gap-1 shrink-0">
+            {s.stuckReason && (
+              <span
+                className="px-1 py-0.5 rounded bg-cc-warning/10 text-[10px] font-medium leading-none text-cc-warning"
+                title={`Stuck: ${s.stuckReason}`}
+              >
+                Stuck
+              </span>
+            )}
             <BackendBadge type={s.backendType} />
             {s.isContainerized && (
               <span className="flex items-center px-1 py-0.5 rounded bg-blue-400/10" title="Docker">
@@ -188,6 +199,16 @@ export function SessionItem({
                 </svg>
               </span>
             )}
+            {s.forkedFrom && (
+              <span className="flex items-center px-1 py-0.5 rounded bg-cc-primary/10" title={`Forked from ${s.forkedFrom}`}>
+                <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-2.5 h-2.5 text-cc-primary">
+                  <circle cx="4.5" cy="3.5" r="1.5" />
+                  <circle cx="4.5" cy="12.5" r="1.5" />
+                  <circle cx="11.5" cy="5.5" r="1.5" />
+                  <path d="M4.5 5v6M11.5 7c0 2.5-3 2.5-6.5 4" strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+              </span>
+            )}
             {s.cronJobId && (
               <span className="flex items-center px-1 py-0.5 rounded bg-violet-400/10" title="Scheduled">
                 <svg viewBox="0 0 16 16" fill="currentColor" className="w-2.5 h-2.5 text-violet-400">
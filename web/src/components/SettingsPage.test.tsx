@@ -45,6 +45,12 @@ const mockApi = {
   updateSettings: vi.fn(),
   forceCheckForUpdate: vi.fn(),
   triggerUpdate: vi.fn(),
+  getAssistantConfig: vi.fn(),
+  getAssistantStatus: vi.fn(),
+  updateAssistantConfig: vi.fn(),
+  launchAssistant: vi.fn(),
+  stopAssistant: vi.fn(),
+  getNotificationSettings: vi.fn(),
 };
 
 const mockTelemetry = {
@@ -58,6 +64,12 @@ vi.mock("../api.js", () => ({
     updateSettings: (...args: unknown[]) => mockApi.updateSettings(...args),
     forceCheckForUpdate: (...args: unknown[]) => mockApi.forceCheckForUpdate(...args),
     triggerUpdate: (...args: unknown[]) => mockApi.triggerUpdate(...args),
+    getAssistantConfig: (...args: unknown[]) => mockApi.getAssistantConfig(...args),
+    getAssistantStatus: (...args: unknown[]) => mockApi.getAssistantStatus(...args),
+    updateAssistantConfig: (...args: unknown[]) => mockApi.updateAssistantConfig(...args),
+    launchAssistant: (...args: unknown[]) => mockApi.launchAssistant(...args),
+    stopAssistant: (...args: unknown[]) => mockApi.stopAssistant(...args),
+    getNotificationSettings: (...args: unknown[]) => mockApi.getNotificationSettings(...args),
   },
 }));
 
@@ -74,6 +86,16 @@ vi.mock("../store.js", () => {
 
 import { SettingsPage } from "./SettingsPage.js";
 
+const stoppedAssistantStatus = {
+  enabled: false,
+  running: false,
+  sessionId: null,
+  state: null,
+  model: "",
+  permissionMode: "default",
+  cwd: "/home/test/.companion/assistant",
+};
+
 beforeEach(() => {
   vi.clearAllMocks();
   mockState = createMockState();
@@ -94,6 +116,22 @@ beforeEach(() => {
     linearAutoTransitionStateName: "",
     editorTabEnabled: false,
   });
+  mockApi.getAssistantConfig.mockResolvedValue({
+    enabled: false,
+    model: "",
+    permissionMode: "default",
+    cwd: "/home/test/.companion/assistant",
+    updatedAt: 0,
+  });
+  mockApi.getAssistantStatus.mockResolvedValue(stoppedAssistantStatus);
+  mockApi.getNotificationSettings.mockResolvedValue({
+    publicKey: "key",
+    subscriptionCount: 0,
+    webhookUrl: "",
+    baseUrl: "",
+    events: { permission_request: true, result: true, stuck: true, cron_disabled: true },
+    mutedSessions: [],
+  });
   mockApi.forceCheckForUpdate.mockResolvedValue({
     currentVersion: "0.22.1",
     latestVersion: null,
@@ -382,4 +420,55 @@ describe("SettingsPage", () => {
     expect(mockState.setUpdateOverlayActive).toHaveBeenCalledWith(true);
     expect(await screen.findByText("Update started. Server will restart shortly.")).toBeInTheDocument();
   });
+  it("loads and saves assistant config", async () => {
+    mockApi.updateAssistantConfig.mockResolvedValue({
+      enabled: true,
+      model: "claude-sonnet-4-5",
+      permissionMode: "default",
+      cwd: "/home/test/.companion/assistant",
+      updatedAt: 1,
+    });
+    render(<SettingsPage />);
+    await screen.findByDisplayValue("/home/test/.companion/assistant");
+
+    fireEvent.click(screen.getByRole("button", { name: /Launch on server start/ }));
+    fireEvent.change(screen.getByLabelText("Model"), { target: { value: " claude-sonnet-4-5 " } });
+    fireEvent.click(screen.getByRole("button", { name: "Save assistant" }));
+
+    await waitFor(() => {
+      expect(mockApi.updateAssistantConfig).toHaveBeenCalledWith({
+        enabled: true,
+        model: "claude-sonnet-4-5",
+        permissionMode: "default",
+        cwd: "/home/test/.companion/assistant",
+      });
+    });
+    expect(await screen.findByText("Assistant settings saved.")).toBeInTheDocument();
+  });
+
+  it("launches and stops the assistant", async () => {
+    const runningStatus = { ...stoppedAssistantStatus, running: true, sessionId: "a1", state: "connected" };
+    mockApi.launchAssistant.mockResolvedValue(runningStatus);
+    mockApi.stopAssistant.mockResolvedValue({ ...stoppedAssistantStatus, sessionId: "a1", state: "exited" });
+    render(<SettingsPage />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Launch assistant" }));
+    await waitFor(() => {
+      expect(mockApi.launchAssistant).toHaveBeenCalledTimes(1);
+    });
+    expect(await screen.findByText("Running (connected)")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Stop assistant" }));
+    await waitFor(() => {
+      expect(mockApi.stopAssistant).toHaveBeenCalledTimes(1);
+    });
+    expect(await screen.findByRole("button", { name: "Launch assistant" })).toBeInTheDocument();
+  });
+
+  it("shows assistant launch errors", async () => {
+    mockApi.launchAssistant.mockRejectedValue(new Error("claude not found"));
+    render(<SettingsPage />);
+    fireEvent.click(await screen.findByRole("button", { name: "Launch assistant" }));
+    expect(await screen.findByText("claude not found")).toBeInTheDocument();
+  });
 });
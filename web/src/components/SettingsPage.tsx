@@ -1,13 +1,34 @@
 import { useEffect, useState } from "react";
-import { api } from "../api.js";
+import { api, type AssistantStatus, type SessionLimits, type StuckAction, type WatchdogSettings } from "../api.js";
 import { useStore } from "../store.js";
 import { getTelemetryPreferenceEnabled, setTelemetryPreferenceEnabled } from "../analytics.js";
 import { navigateToSession, navigateHome } from "../utils/routing.js";
+import { RemoteNotificationsSettings } from "./RemoteNotificationsSettings.js";
 
 interface SettingsPageProps {
   embedded?: boolean;
 }
 
+const NO_SESSION_LIMITS: SessionLimits = {
+  maxConcurrentSessions: 0,
+  maxSessionsPerRepo: 0,
+  maxSessionsPerBackend: 0,
+  idleSuspendMinutes: 0,
+};
+
+const SESSION_LIMIT_FIELDS: { key: keyof SessionLimits; id: string; label: string }[] = [
+  { key: "maxConcurrentSessions", id: "limit-total", label: "Running sessions" },
+  { key: "maxSessionsPerRepo", id: "limit-repo", label: "Per repository" },
+  { key: "maxSessionsPerBackend", id: "limit-backend", label: "Per backend" },
+  { key: "idleSuspendMinutes", id: "limit-idle", label: "Suspend when idle (minutes)" },
+];
+
+const STUCK_ACTION_LABELS: Record<StuckAction, string> = {
+  notify: "Notify me",
+  interrupt: "Interrupt the turn",
+  relaunch: "Relaunch the backend",
+};
+
 export function SettingsPage({ embedded = false }: SettingsPageProps) {
   const [openrouterApiKey, setOpenrouterApiKey] = useState("");
   const [openrouterModel, setOpenrouterModel] = useState("openrouter/free");
@@ -35,6 +56,22 @@ export function SettingsPage({ embedded = false }: SettingsPageProps) {
   const [updateStatus, setUpdateStatus] = useState("");
   const [updateError, setUpdateError] = useState("");
   const [telemetryEnabled, setTelemetryEnabled] = useState(getTelemetryPreferenceEnabled());
+  const [assistantEnabled, setAssistantEnabled] = useState(false);
+  const [assistantModel, setAssistantModel] = useState("");
+  const [assistantPermissionMode, setAssistantPermissionMode] = useState("default");
+  const [assistantCwd, setAssistantCwd] = useState("");
+  const [assistantStatus, setAssistantStatus] = useState<AssistantStatus | null>(null);
+  const [assistantBusy, setAssistantBusy] = useState(false);
+  const [assistantError, setAssistantError] = useState("");
+  const [assistantSaved, setAssistantSaved] = useState(false);
+  const [limits, setLimits] = useState<SessionLimits>(NO_SESSION_LIMITS);
+  const [limitsSaving, setLimitsSaving] = useState(false);
+  const [limitsError, setLimitsError] = useState("");
+  const [limitsSaved, setLimitsSaved] = useState(false);
+  const [watchdog, setWatchdog] = useState<WatchdogSettings>({ stuckAfterMinutes: 0, stuckAction: "notify" });
+  const [watchdogSaving, setWatchdogSaving] = useState(false);
+  const [watchdogError, setWatchdogError] = useState("");
+  const [watchdogSaved, setWatchdogSaved] = useState(false);
 
   useEffect(() => {
     api
@@ -44,11 +81,63 @@ export function SettingsPage({ embedded = false }: SettingsPageProps) {
         setOpenrouterModel(s.openrouterModel || "openrouter/free");
         setEditorTabEnabled(s.editorTabEnabled);
         setStoreEditorTabEnabled(s.editorTabEnabled);
+        setLimits(pickLimits(s));
+        setWatchdog({ stuckAfterMinutes: s.stuckAfterMinutes ?? 0, stuckAction: s.stuckAction ?? "notify" });
       })
       .catch((e: unknown) => setError(e instanceof Error ? e.message : String(e)))
       .finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    api
+      .getAssistantConfig()
+      .then((cfg) => {
+        setAssistantEnabled(cfg.enabled);
+        setAssistantModel(cfg.model);
+        setAssistantPermissionMode(cfg.permissionMode);
+        setAssistantCwd(cfg.cwd);
+      })
+      .catch(() => {});
+    api.getAssistantStatus().then(setAssistantStatus).catch(() => {});
+  }, []);
+
+  async function onSaveAssistant(e: React.FormEvent) {
+    e.preventDefault();
+    setAssistantBusy(true);
+    setAssistantError("");
+    setAssistantSaved(false);
+    try {
+      const cfg = await api.updateAssistantConfig({
+        enabled: assistantEnabled,
+        model: assistantModel.trim(),
+        permissionMode: assistantPermissionMode,
+        cwd: assistantCwd.trim(),
+      });
+      setAssistantCwd(cfg.cwd);
+      setAssistantSaved(true);
+      setTimeout(() => setAssistantSaved(false), 1800);
+    } catch (err: unknown) {
+      setAssistantError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setAssistantBusy(false);
+    }
+  }
+
+  async function onToggleAssistantRunning() {
+    setAssistantBusy(true);
+    setAssistantError("");
+    try {
+      const status = assistantStatus?.running
+        ? await api.stopAssistant()
+        : await api.launchAssistant();
+      setAssistantStatus(status);
+    } catch (err: unknown) {
+      setAssistantError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setAssistantBusy(false);
+    }
+  }
+
   async function onSave(e: React.FormEvent) {
     e.preventDefault();
     setSaving(true);
@@ -78,6 +167,40 @@ export function SettingsPage({ embedded = false }: SettingsPageProps) {
     }
   }
 
+  async function onSaveLimits(e: React.FormEvent) {
+    e.preventDefault();
+    setLimitsSaving(true);
+    setLimitsError("");
+    setLimitsSaved(false);
+    try {
+      const res = await api.updateSettings(limits);
+      setLimits(pickLimits(res));
+      setLimitsSaved(true);
+      setTimeout(() => setLimitsSaved(false), 1800);
+    } catch (err: unknown) {
+      setLimitsError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLimitsSaving(false);
+    }
+  }
+
+  async function onSaveWatchdog(e: React.FormEvent) {
+    e.preventDefault();
+    setWatchdogSaving(true);
+    setWatchdogError("");
+    setWatchdogSaved(false);
+    try {
+      const res = await api.updateSettings(watchdog);
+      setWatchdog({ stuckAfterMinutes: res.stuckAfterMinutes, stuckAction: res.stuckAction });
+      setWatchdogSaved(true);
+      setTimeout(() => setWatchdogSaved(false), 1800);
+    } catch (err: unknown) {
+      setWatchdogError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWatchdogSaving(false);
+    }
+  }
+
   async function onCheckUpdates() {
     setCheckingUpdates(true);
     setUpdateStatus("");
@@ -218,6 +341,252 @@ export function SettingsPage({ embedded = false }: SettingsPageProps) {
           </div>
         </form>
 
+        <form
+          onSubmit={onSaveAssistant}
+          className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-4"
+        >
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-semibold text-cc-fg">Assistant</h2>
+            <span className="text-xs text-cc-muted">
+              {assistantStatus?.running ? `Running (${assistantStatus.state})` : "Stopped"}
+            </span>
+          </div>
+          <p className="text-xs text-cc-muted">
+            A long-lived Claude Code session that can manage The Companion through the <code className="font-mono-code bg-cc-code-bg px-1 py-0.5 rounded text-cc-code-fg">companion</code> CLI.
+          </p>
+          <button
+            type="button"
+            onClick={() => setAssistantEnabled((v) => !v)}
+            className="w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm bg-cc-hover text-cc-fg hover:bg-cc-active transition-colors cursor-pointer"
+          >
+            <span>Launch on server start</span>
+            <span className="text-xs text-cc-muted">{assistantEnabled ? "On" : "Off"}</span>
+          </button>
+          <div>
+            <label className="block text-sm font-medium mb-1.5" htmlFor="assistant-model">
+              Model
+            </label>
+            <input
+              id="assistant-model"
+              type="text"
+              value={assistantModel}
+              onChange={(e) => setAssistantModel(e.target.value)}
+              placeholder="CLI default"
+              className="w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1.5" htmlFor="assistant-permission-mode">
+              Permission mode
+            </label>
+            <select
+              id="assistant-permission-mode"
+              value={assistantPermissionMode}
+              onChange={(e) => setAssistantPermissionMode(e.target.value)}
+              className="w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60"
+            >
+              <option value="default">Ask for permission</option>
+              <option value="acceptEdits">Accept edits</option>
+              <option value="plan">Plan</option>
+              <option value="bypassPermissions">Bypass permissions</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1.5" htmlFor="assistant-cwd">
+              Working directory
+            </label>
+            <input
+              id="assistant-cwd"
+              type="text"
+              value={assistantCwd}
+              onChange={(e) => setAssistantCwd(e.target.value)}
+              placeholder="~/.companion/assistant"
+              className="w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60"
+            />
+            <p className="mt-1.5 text-xs text-cc-muted">
+              Changes apply the next time the assistant launches. Changing the directory starts a fresh conversation.
+            </p>
+          </div>
+
+          {assistantError && (
+            <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+              {assistantError}
+            </div>
+          )}
+
+          {assistantSaved && (
+            <div className="px-3 py-2 rounded-lg bg-cc-success/10 border border-cc-success/20 text-xs text-cc-success">
+              Assistant settings saved.
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={onToggleAssistantRunning}
+                disabled={assistantBusy}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  assistantBusy
+                    ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+                    : "bg-cc-hover hover:bg-cc-active text-cc-fg cursor-pointer"
+                }`}
+              >
+                {assistantStatus?.running ? "Stop assistant" : "Launch assistant"}
+              </button>
+              {assistantStatus?.sessionId && (
+                <button
+                  type="button"
+                  onClick={() => navigateToSession(assistantStatus.sessionId!)}
+                  className="px-3 py-2 rounded-lg text-sm font-medium bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer"
+                >
+                  Open
+                </button>
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={assistantBusy}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                assistantBusy
+                  ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+                  : "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+              }`}
+            >
+              Save assistant
+            </button>
+          </div>
+        </form>
+
+        <form
+          onSubmit={onSaveLimits}
+          className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-4"
+        >
+          <h2 className="text-sm font-semibold text-cc-fg">Session limits</h2>
+          <p className="text-xs text-cc-muted">
+            New sessions and scheduled runs beyond these limits wait in a queue until a session stops. Idle sessions
+            are stopped and resume on their next message. 0 means no limit.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            {SESSION_LIMIT_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium mb-1.5" htmlFor={field.id}>
+                  {field.label}
+                </label>
+                <input
+                  id={field.id}
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={limits[field.key]}
+                  onChange={(e) => {
+                    const value = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                    setLimits((prev) => ({ ...prev, [field.key]: value }));
+                  }}
+                  className="w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60"
+                />
+              </div>
+            ))}
+          </div>
+
+          {limitsError && (
+            <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+              {limitsError}
+            </div>
+          )}
+
+          {limitsSaved && (
+            <div className="px-3 py-2 rounded-lg bg-cc-success/10 border border-cc-success/20 text-xs text-cc-success">
+              Session limits saved.
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={limitsSaving || loading}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                limitsSaving || loading
+                  ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+                  : "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+              }`}
+            >
+              Save limits
+            </button>
+          </div>
+        </form>
+
+        <form
+          onSubmit={onSaveWatchdog}
+          className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-4"
+        >
+          <h2 className="text-sm font-semibold text-cc-fg">Stuck sessions</h2>
+          <p className="text-xs text-cc-muted">
+            A turn with no events, or a tool running longer than this, is marked stuck in the sidebar and the
+            action below runs once. 0 turns the watchdog off.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="stuck-after">
+                Stuck after (minutes)
+              </label>
+              <input
+                id="stuck-after"
+                type="number"
+                min={0}
+                step={1}
+                value={watchdog.stuckAfterMinutes}
+                onChange={(e) => {
+                  const value = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                  setWatchdog((prev) => ({ ...prev, stuckAfterMinutes: value }));
+                }}
+                className="w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5" htmlFor="stuck-action">
+                Then
+              </label>
+              <select
+                id="stuck-action"
+                value={watchdog.stuckAction}
+                onChange={(e) => setWatchdog((prev) => ({ ...prev, stuckAction: e.target.value as StuckAction }))}
+                className="w-full px-3 py-2.5 text-sm bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60"
+              >
+                {(Object.keys(STUCK_ACTION_LABELS) as StuckAction[]).map((action) => (
+                  <option key={action} value={action}>{STUCK_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {watchdogError && (
+            <div className="px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+              {watchdogError}
+            </div>
+          )}
+
+          {watchdogSaved && (
+            <div className="px-3 py-2 rounded-lg bg-cc-success/10 border border-cc-success/20 text-xs text-cc-success">
+              Watchdog settings saved.
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={watchdogSaving || loading}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                watchdogSaving || loading
+                  ? "bg-cc-hover text-cc-muted cursor-not-allowed"
+                  : "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+              }`}
+            >
+              Save watchdog
+            </button>
+          </div>
+        </form>
+
         <div className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-3">
           <h2 className="text-sm font-semibold text-cc-fg">Notifications</h2>
           <button
@@ -248,6 +617,7 @@ export function SettingsPage({ embedded = false }: SettingsPageProps) {
               <span className="text-xs text-cc-muted">{notificationDesktop ? "On" : "Off"}</span>
             </button>
           )}
+          <RemoteNotificationsSettings />
         </div>
 
         <div className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-3">
@@ -359,6 +729,38 @@ export function SettingsPage({ embedded = false }: SettingsPageProps) {
           </p>
         </div>
 
+        <div className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-3">
+          <h2 className="text-sm font-semibold text-cc-fg">Auto-Approval</h2>
+          <p className="text-xs text-cc-muted">
+            Answer routine permission prompts automatically with allow and deny rules, globally, per repo or per session.
+          </p>
+          <button
+            type="button"
+            onClick={() => {
+              window.location.hash = "#/auto-approval";
+            }}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-cc-primary hover:bg-cc-primary-hover text-white transition-colors cursor-pointer"
+          >
+            Open Auto-Approval Page
+          </button>
+        </div>
+
+        <div className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-3">
+          <h2 className="text-sm font-semibold text-cc-fg">Hook Rules</h2>
+          <p className="text-xs text-cc-muted">
+            Block, allow, or require approval for tool calls in Claude Code sessions, and review every decision.
+          </p>
+          <button
+            type="button"
+            onClick={() => {
+              window.location.hash = "#/hooks";
+            }}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-cc-primary hover:bg-cc-primary-hover text-white transition-colors cursor-pointer"
+          >
+            Open Hook Rules Page
+          </button>
+        </div>
+
         <div className="mt-4 bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5 space-y-3">
           <h2 className="text-sm font-semibold text-cc-fg">Environments</h2>
           <p className="text-xs text-cc-muted">
@@ -378,3 +780,12 @@ export function SettingsPage({ embedded = false }: SettingsPageProps) {
     </div>
   );
 }
+
+function pickLimits(settings: Partial<SessionLimits>): SessionLimits {
+  return {
+    maxConcurrentSessions: settings.maxConcurrentSessions ?? 0,
+    maxSessionsPerRepo: settings.maxSessionsPerRepo ?? 0,
+    maxSessionsPerBackend: settings.maxSessionsPerBackend ?? 0,
+    idleSuspendMinutes: settings.idleSuspendMinutes ?? 0,
+  };
+}
@@ -236,6 +236,19 @@ describe("Sidebar", () => {
     expect(screen.getByTitle("Docker")).toBeInTheDocument();
   });
 
+  it("session items show a stuck badge with the watchdog's reason", () => {
+    const session = makeSession("s1", {
+      stuck: { reason: "Bash running for 40 minutes", since: 1000, action: "notify" },
+    });
+    mockState = createMockState({
+      sessions: new Map([["s1", session]]),
+      sdkSessions: [makeSdkSession("s1")],
+    });
+
+    render(<Sidebar />);
+    expect(screen.getByTitle("Stuck: Bash running for 40 minutes")).toHaveTextContent("Stuck");
+  });
+
   it("session items do not show git stats (removed in redesign)", () => {
     // Git ahead/behind and lines added/removed were intentionally removed
     // from session items in the sidebar redesign.
@@ -5,6 +5,7 @@ import { connectSession, connectAllSessions, disconnectSession } from "../ws.js"
 import { navigateToSession, navigateHome, parseHash } from "../utils/routing.js";
 import { ProjectGroup } from "./ProjectGroup.js";
 import { SessionItem } from "./SessionItem.js";
+import { PresetLaunchMenu } from "./PresetLaunchMenu.js";
 import { groupSessionsByProject, type SessionItem as SessionItemType } from "../utils/project-grouping.js";
 
 interface NavItem {
@@ -61,6 +62,22 @@ const NAV_ITEMS: NavItem[] = [
     viewBox: "0 0 16 16",
     iconPath: "M8 2a6 6 0 100 12A6 6 0 008 2zM0 8a8 8 0 1116 0A8 8 0 010 8zm9-3a1 1 0 10-2 0v3a1 1 0 00.293.707l2 2a1 1 0 001.414-1.414L9 7.586V5z",
   },
+  {
+    id: "search",
+    label: "Search",
+    shortLabel: "Search",
+    hash: "#/search",
+    viewBox: "0 0 16 16",
+    iconPath: "M6.5 1a5.5 5.5 0 014.38 8.83l3.65 3.64a.75.75 0 01-1.06 1.06l-3.64-3.65A5.5 5.5 0 116.5 1zm0 1.5a4 4 0 100 8 4 4 0 000-8z",
+  },
+  {
+    id: "usage",
+    label: "Usage",
+    shortLabel: "Usage",
+    hash: "#/usage",
+    viewBox: "0 0 16 16",
+    iconPath: "M2 13.5a.5.5 0 01.5-.5h11a.5.5 0 010 1h-11a.5.5 0 01-.5-.5zM3 9.5A.5.5 0 013.5 9h1a.5.5 0 01.5.5V12H3V9.5zm4-3A.5.5 0 017.5 6h1a.5.5 0 01.5.5V12H7V6.5zm4-4a.5.5 0 01.5-.5h1a.5.5 0 01.5.5V12h-2V2.5z",
+  },
   {
     id: "settings",
     label: "Settings",
@@ -284,10 +301,17 @@ export function Sidebar() {
       permCount: pendingPermissions.get(id)?.size ?? 0,
       cronJobId: bridgeState?.cronJobId || sdkInfo?.cronJobId,
       cronJobName: bridgeState?.cronJobName || sdkInfo?.cronJobName,
+      isAssistant: sdkInfo?.assistant ?? false,
+      parentSessionId: sdkInfo?.parentSessionId,
+      forkedFrom: sdkInfo?.parentSessionId
+        ? sessionNames.get(sdkInfo.parentSessionId) || sdkInfo.parentSessionId.slice(0, 8)
+        : undefined,
+      stuckReason: bridgeState?.stuck?.reason,
     };
   }).sort((a, b) => b.createdAt - a.createdAt);
 
-  const activeSessions = allSessionList.filter((s) => !s.archived && !s.cronJobId);
+  const assistantSession = allSessionList.find((s) => !s.archived && s.isAssistant);
+  const activeSessions = allSessionList.filter((s) => !s.archived && !s.cronJobId && !s.isAssistant);
   const cronSessions = allSessionList.filter((s) => !s.archived && !!s.cronJobId);
   const archivedSessions = allSessionList.filter((s) => s.archived);
   const currentSession = currentSessionId ? allSessionList.find((s) => s.id === currentSessionId) : null;
@@ -323,11 +347,14 @@ export function Sidebar() {
         <div className="flex items-center gap-2.5">
           <img src={logoSrc} alt="" className="w-6 h-6" />
           <span className="text-[13px] font-semibold text-cc-fg tracking-tight">The Companion</span>
+          <div className="ml-auto">
+            <PresetLaunchMenu />
+          </div>
           <button
             onClick={handleNewSession}
             title="New Session"
             aria-label="New Session"
-            className="ml-auto w-7 h-7 rounded-lg bg-cc-primary hover:bg-cc-primary-hover text-white flex items-center justify-center transition-colors duration-150 cursor-pointer"
+            className="w-7 h-7 rounded-lg bg-cc-primary hover:bg-cc-primary-hover text-white flex items-center justify-center transition-colors duration-150 cursor-pointer"
           >
             <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2.5" className="w-3.5 h-3.5">
               <path d="M8 3v10M3 8h10" />
@@ -368,10 +395,31 @@ export function Sidebar() {
 
       {/* Session list */}
       <div className="flex-1 overflow-y-auto px-2.5 pb-2">
+        {assistantSession && (
+          <div className="mb-2 pb-2 border-b border-cc-border">
+            <div className="px-3 py-1.5 text-[11px] font-medium text-cc-primary uppercase tracking-wider flex items-center gap-1.5">
+              <svg viewBox="0 0 16 16" fill="currentColor" className="w-3 h-3 opacity-60">
+                <path d="M8 1l1.76 4.24L14 7l-4.24 1.76L8 13l-1.76-4.24L2 7l4.24-1.76L8 1z" />
+              </svg>
+              Assistant
+            </div>
+            <SessionItem
+              session={assistantSession}
+              isActive={currentSessionId === assistantSession.id}
+              sessionName={sessionNames.get(assistantSession.id)}
+              permCount={pendingPermissions.get(assistantSession.id)?.size ?? 0}
+              isRecentlyRenamed={recentlyRenamed.has(assistantSession.id)}
+              {...sessionItemProps}
+            />
+          </div>
+        )}
+
         {activeSessions.length === 0 && cronSessions.length === 0 && archivedSessions.length === 0 ? (
-          <p className="px-3 py-8 text-xs text-cc-muted text-center leading-relaxed">
-            No sessions yet.
-          </p>
+          !assistantSession && (
+            <p className="px-3 py-8 text-xs text-cc-muted text-center leading-relaxed">
+              No sessions yet.
+            </p>
+          )
         ) : (
           <>
             {projectGroups.map((group, i) => (
@@ -8,9 +8,15 @@ vi.mock("../api.js", () => ({
     getSessionUsageLimits: vi.fn().mockRejectedValue(new Error("skip")),
     getPRStatus: vi.fn().mockRejectedValue(new Error("skip")),
     getLinkedLinearIssue: vi.fn().mockResolvedValue({ issue: null }),
+    setBudget: vi.fn().mockResolvedValue({}),
   },
 }));
 
+const mockSendToSession = vi.hoisted(() => vi.fn());
+vi.mock("../ws.js", () => ({
+  sendToSession: mockSendToSession,
+}));
+
 vi.mock("./McpPanel.js", () => ({
   McpSection: () => <div data-testid="mcp-section">MCP Section</div>,
 }));
@@ -37,8 +43,11 @@ interface MockStoreState {
     codex_token_details?: CodexTokenDetails;
     codex_rate_limits?: CodexRateLimits;
     context_used_percent?: number;
+    total_cost_usd?: number;
+    repo_root?: string;
+    budgets?: { scope: "session" | "cron" | "repo" | "day"; target: string; label: string; limit_usd: number; spent_usd: number }[];
   }>;
-  sdkSessions: { sessionId: string; backendType?: string; cwd?: string; gitBranch?: string }[];
+  sdkSessions: { sessionId: string; backendType?: string; cwd?: string; gitBranch?: string; cronJobId?: string; cronJobName?: string }[];
   taskPanelOpen: boolean;
   setTaskPanelOpen: ReturnType<typeof vi.fn>;
   taskPanelConfig: TaskPanelConfig;
@@ -50,6 +59,7 @@ interface MockStoreState {
   resetTaskPanelConfig: ReturnType<typeof vi.fn>;
   prStatus: Map<string, { available: boolean; pr?: unknown } | null>;
   linkedLinearIssues: Map<string, unknown>;
+  verifyLoops?: Map<string, import("../types.js").VerifyLoop>;
 }
 
 let mockState: MockStoreState;
@@ -81,7 +91,8 @@ vi.mock("../store.js", () => ({
   ),
 }));
 
-import { TaskPanel, CodexRateLimitsSection, CodexTokenDetailsSection } from "./TaskPanel.js";
+import { TaskPanel, CodexRateLimitsSection, CodexTokenDetailsSection, BudgetsSection, VerificationSection } from "./TaskPanel.js";
+import { api } from "../api.js";
 
 beforeEach(() => {
   vi.clearAllMocks();
@@ -374,6 +385,49 @@ describe("CodexTokenDetailsSection", () => {
   });
 });
 
+describe("BudgetsSection", () => {
+  it("shows a bar for each budget and offers to set the others", () => {
+    resetStore({
+      sessions: new Map([["s1", {
+        backend_type: "claude",
+        total_cost_usd: 1.5,
+        repo_root: "/work/app",
+        budgets: [
+          { scope: "session", target: "s1", label: "This session", limit_usd: 2, spent_usd: 1.5 },
+          { scope: "day", target: "2026-03-14", label: "All sessions today", limit_usd: 10, spent_usd: 4 },
+        ],
+      }]]),
+      sdkSessions: [{ sessionId: "s1", cronJobId: "nightly", cronJobName: "Nightly" }],
+    });
+    render(<BudgetsSection sessionId="s1" />);
+
+    expect(screen.getByText("$1.50 / $2.00")).toBeInTheDocument();
+    expect(screen.getByText("$4.00 / $10.00")).toBeInTheDocument();
+    expect(screen.getByText('Cron "Nightly"')).toBeInTheDocument();
+    expect(screen.getByText("app today")).toBeInTheDocument();
+    expect(screen.getAllByText("Set")).toHaveLength(2);
+    expect(screen.queryByText(/budget reached/)).not.toBeInTheDocument();
+  });
+
+  it("raises a used-up budget", async () => {
+    resetStore({
+      sessions: new Map([["s1", {
+        backend_type: "claude",
+        total_cost_usd: 2.5,
+        budgets: [{ scope: "session", target: "s1", label: "This session", limit_usd: 2, spent_usd: 2.5 }],
+      }]]),
+    });
+    render(<BudgetsSection sessionId="s1" />);
+    expect(screen.getByText(/This session budget reached/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("$2.50 / $2.00"));
+    fireEvent.change(screen.getByLabelText("This session budget (USD)"), { target: { value: "5" } });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(api.setBudget).toHaveBeenCalledWith({ scope: "session", target: "s1", limitUsd: 5 });
+  });
+});
+
 describe("TaskPanel accessibility", () => {
   it("passes axe accessibility checks", async () => {
     const { axe } = await import("vitest-axe");
@@ -383,3 +437,45 @@ describe("TaskPanel accessibility", () => {
     expect(results).toHaveNoViolations();
   });
 });
+
+describe("VerificationSection", () => {
+  const loop = {
+    command: "bun test",
+    max_iterations: 3,
+    running: false,
+    start_cost_usd: 0,
+    follow_up_pending: false,
+    stopped_reason: "Passed",
+    iterations: [
+      { iteration: 1, passed: false, exit_code: 1, timed_out: false, output: "1 failing", duration_ms: 4000, finished_at: 1 },
+      { iteration: 2, passed: true, exit_code: 0, timed_out: false, output: "all green", duration_ms: 65_000, finished_at: 2 },
+    ],
+  };
+
+  it("lists each iteration's outcome", () => {
+    resetStore({ verifyLoops: new Map([["s1", loop]]) });
+    render(<VerificationSection sessionId="s1" />);
+
+    expect(screen.getByText("bun test")).toBeInTheDocument();
+    expect(screen.getByText("Failed (exit 1)")).toBeInTheDocument();
+    expect(screen.getByText("1m 5s")).toBeInTheDocument();
+    expect(screen.getAllByText("Passed")).toHaveLength(2);
+  });
+
+  it("sends edited settings to the server", () => {
+    resetStore({ verifyLoops: new Map([["s1", { ...loop, command: "", iterations: [], stopped_reason: undefined }]]) });
+    render(<VerificationSection sessionId="s1" />);
+
+    fireEvent.click(screen.getByText("Set up"));
+    fireEvent.change(screen.getByLabelText("Verification command"), { target: { value: "bun test" } });
+    fireEvent.change(screen.getByLabelText("Verification budget (USD)"), { target: { value: "2" } });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(mockSendToSession).toHaveBeenCalledWith("s1", {
+      type: "verify_settings",
+      command: "bun test",
+      max_iterations: 3,
+      max_cost_usd: 2,
+    });
+  });
+});
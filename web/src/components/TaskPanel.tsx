@@ -1,13 +1,15 @@
 import { useEffect, useState, useCallback, useRef, type ComponentType } from "react";
 import { useStore } from "../store.js";
 import { api, type UsageLimits, type GitHubPRInfo, type LinearIssue, type LinearComment } from "../api.js";
-import type { TaskItem } from "../types.js";
+import type { BudgetScope, TaskItem, VerifyIteration } from "../types.js";
+import { sendToSession } from "../ws.js";
 import { McpSection } from "./McpPanel.js";
 import { LinearLogo } from "./LinearLogo.js";
 import { ClaudeConfigBrowser } from "./ClaudeConfigBrowser.js";
 import { SECTION_DEFINITIONS } from "./task-panel-sections.js";
 import { formatResetTime, formatCodexResetTime, formatWindowDuration, formatTokenCount } from "../utils/format.js";
 import { timeAgo } from "../utils/time-ago.js";
+import { findExceededBudget, formatUsd } from "../utils/budgets.js";
 import { captureException } from "../analytics.js";
 import { SectionErrorBoundary } from "./SectionErrorBoundary.js";
 
@@ -770,6 +772,273 @@ function UsageLimitsRenderer({ sessionId }: { sessionId: string }) {
   return <UsageLimitsSection sessionId={sessionId} />;
 }
 
+interface BudgetRow {
+  scope: BudgetScope;
+  target: string;
+  label: string;
+}
+
+/** Cost budgets — a bar per budget that applies, editable in place */
+function BudgetsSection({ sessionId }: { sessionId: string }) {
+  const session = useStore((s) => s.sessions.get(sessionId));
+  const sdk = useStore((s) => s.sdkSessions.find((x) => x.sessionId === sessionId));
+  const [editing, setEditing] = useState<BudgetScope | null>(null);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState("");
+
+  if (!session) return null;
+
+  const budgets = session.budgets ?? [];
+  const exceeded = findExceededBudget(budgets);
+  const repoRoot = session.repo_root || session.cwd;
+  const rows: BudgetRow[] = [{ scope: "session", target: sessionId, label: "This session" }];
+  if (sdk?.cronJobId) {
+    rows.push({ scope: "cron", target: sdk.cronJobId, label: `Cron "${sdk.cronJobName || sdk.cronJobId}"` });
+  }
+  if (repoRoot) {
+    rows.push({ scope: "repo", target: repoRoot, label: `${repoRoot.split("/").pop() || repoRoot} today` });
+  }
+  rows.push({ scope: "day", target: "", label: "All sessions today" });
+
+  function startEdit(row: BudgetRow, limit?: number) {
+    setEditing(row.scope);
+    setDraft(limit ? String(limit) : "");
+    setError("");
+  }
+
+  function save(row: BudgetRow, limitUsd: number | null) {
+    api.setBudget({ scope: row.scope, target: row.target, limitUsd })
+      .then(() => setEditing(null))
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : String(e)));
+  }
+
+  const spent = session.lifetime_cost_usd ?? session.total_cost_usd;
+
+  return (
+    <div className="shrink-0 px-4 py-3 border-b border-cc-border space-y-2.5">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] text-cc-muted uppercase tracking-wider">Budgets</span>
+        {spent > 0 && (
+          <span className="text-[11px] text-cc-muted tabular-nums">{formatUsd(spent)} spent</span>
+        )}
+      </div>
+
+      {rows.map((row) => {
+        const usage = budgets.find((b) => b.scope === row.scope);
+        const pct = usage ? Math.round((usage.spent_usd / usage.limit_usd) * 100) : 0;
+        return (
+          <div key={row.scope} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[11px] text-cc-fg truncate" title={row.target || undefined}>
+                {usage?.label ?? row.label}
+              </span>
+              {editing !== row.scope && (
+                <button
+                  type="button"
+                  onClick={() => startEdit(row, usage?.limit_usd)}
+                  className="shrink-0 text-[11px] text-cc-muted hover:text-cc-fg tabular-nums transition-colors cursor-pointer"
+                  title={usage ? "Change budget" : "Set a budget"}
+                >
+                  {usage ? `${formatUsd(usage.spent_usd)} / ${formatUsd(usage.limit_usd)}` : "Set"}
+                </button>
+              )}
+            </div>
+            {usage && (
+              <div className="w-full h-1.5 rounded-full bg-cc-hover overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all duration-500 ${barColor(pct)}`}
+                  style={{ width: `${Math.min(pct, 100)}%` }}
+                />
+              </div>
+            )}
+            {editing === row.scope && (
+              <form
+                className="flex items-center gap-1.5"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  save(row, Number(draft));
+                }}
+              >
+                <input
+                  type="number"
+                  min={0.01}
+                  step="any"
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  placeholder="USD"
+                  aria-label={`${row.label} budget (USD)`}
+                  className="w-20 px-2 py-1 text-[11px] bg-cc-input-bg border border-cc-border rounded-md text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+                />
+                <button type="submit" className="text-[11px] font-medium text-cc-primary hover:text-cc-primary-hover cursor-pointer">
+                  Save
+                </button>
+                {usage && (
+                  <button type="button" onClick={() => save(row, null)} className="text-[11px] text-cc-muted hover:text-cc-error cursor-pointer">
+                    Remove
+                  </button>
+                )}
+                <button type="button" onClick={() => setEditing(null)} className="text-[11px] text-cc-muted hover:text-cc-fg cursor-pointer">
+                  Cancel
+                </button>
+              </form>
+            )}
+          </div>
+        );
+      })}
+
+      {exceeded && (
+        <p className="text-[11px] text-cc-error">
+          {exceeded.label} budget reached. New turns are blocked until you raise it.
+        </p>
+      )}
+      {error && <p className="text-[11px] text-cc-error">{error}</p>}
+    </div>
+  );
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function VerifyIterationRow({ run }: { run: VerifyIteration }) {
+  const outcome = run.passed ? "Passed" : run.timed_out ? "Timed out" : `Failed (exit ${run.exit_code})`;
+  return (
+    <details className="text-[11px]">
+      <summary className="flex items-center gap-2 cursor-pointer list-none">
+        <span className="text-cc-muted tabular-nums">#{run.iteration}</span>
+        <span className={run.passed ? "text-cc-success" : "text-cc-error"}>{outcome}</span>
+        <span className="ml-auto text-cc-muted tabular-nums">{formatDuration(run.duration_ms)}</span>
+      </summary>
+      <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-cc-hover/50 p-2 font-mono-code text-[10px] text-cc-fg">
+        {run.output.trim() || "(no output)"}
+      </pre>
+    </details>
+  );
+}
+
+/** "Loop until green": a command run after each turn, with failures sent back to the agent */
+function VerificationSection({ sessionId }: { sessionId: string }) {
+  const loop = useStore((s) => s.verifyLoops?.get(sessionId));
+  const [editing, setEditing] = useState(false);
+  const [command, setCommand] = useState("");
+  const [maxIterations, setMaxIterations] = useState("");
+  const [budget, setBudget] = useState("");
+
+  if (!loop) return null;
+
+  function startEdit() {
+    if (!loop) return;
+    setCommand(loop.command);
+    setMaxIterations(String(loop.max_iterations));
+    setBudget(loop.max_cost_usd ? String(loop.max_cost_usd) : "");
+    setEditing(true);
+  }
+
+  function save() {
+    const max = Number(maxIterations);
+    sendToSession(sessionId, {
+      type: "verify_settings",
+      command,
+      ...(max >= 1 ? { max_iterations: max } : {}),
+      max_cost_usd: Number(budget) > 0 ? Number(budget) : null,
+    });
+    setEditing(false);
+  }
+
+  const status = loop.running
+    ? "Running..."
+    : loop.follow_up_pending
+      ? "Agent is fixing failures"
+      : loop.stopped_reason;
+
+  return (
+    <div className="shrink-0 px-4 py-3 border-b border-cc-border space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] text-cc-muted uppercase tracking-wider">Verification</span>
+        {!editing && (
+          <button
+            type="button"
+            onClick={startEdit}
+            className="text-[11px] text-cc-muted hover:text-cc-fg transition-colors cursor-pointer"
+          >
+            {loop.command ? "Edit" : "Set up"}
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <form
+          className="space-y-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+        >
+          <input
+            type="text"
+            autoFocus
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            placeholder="e.g. bun test (empty turns it off)"
+            aria-label="Verification command"
+            className="w-full px-2 py-1 text-[11px] font-mono-code bg-cc-input-bg border border-cc-border rounded-md text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+          />
+          <div className="flex items-center gap-1.5">
+            <input
+              type="number"
+              min={1}
+              value={maxIterations}
+              onChange={(e) => setMaxIterations(e.target.value)}
+              aria-label="Max iterations"
+              title="Max iterations"
+              className="w-14 px-2 py-1 text-[11px] bg-cc-input-bg border border-cc-border rounded-md text-cc-fg focus:outline-none focus:border-cc-primary/50"
+            />
+            <span className="text-[11px] text-cc-muted">runs, up to</span>
+            <input
+              type="number"
+              min={0.01}
+              step="any"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              placeholder="USD"
+              aria-label="Verification budget (USD)"
+              className="w-16 px-2 py-1 text-[11px] bg-cc-input-bg border border-cc-border rounded-md text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/50"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <button type="submit" className="text-[11px] font-medium text-cc-primary hover:text-cc-primary-hover cursor-pointer">
+              Save
+            </button>
+            <button type="button" onClick={() => setEditing(false)} className="text-[11px] text-cc-muted hover:text-cc-fg cursor-pointer">
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : loop.command ? (
+        <p className="text-[11px] text-cc-fg">
+          <code className="font-mono-code">{loop.command}</code>
+          <span className="text-cc-muted">
+            {" "}· {loop.max_iterations} runs{loop.max_cost_usd ? ` · ${formatUsd(loop.max_cost_usd)}` : ""}
+          </span>
+        </p>
+      ) : (
+        <p className="text-[11px] text-cc-muted">Run a command after each turn and send failures back until it passes.</p>
+      )}
+
+      {status && <p className="text-[11px] text-cc-muted">{status}</p>}
+      {loop.iterations.length > 0 && (
+        <div className="space-y-1">
+          {loop.iterations.map((run) => (
+            <VerifyIterationRow key={run.iteration} run={run} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /** Git branch info — extracted from inline JSX in TaskPanel */
 function GitBranchSection({ sessionId }: { sessionId: string }) {
   const session = useStore((s) => s.sessions.get(sessionId));
@@ -872,6 +1141,8 @@ function TasksSection({ sessionId }: { sessionId: string }) {
 
 const SECTION_COMPONENTS: Record<string, ComponentType<{ sessionId: string }>> = {
   "usage-limits": UsageLimitsRenderer,
+  "budgets": BudgetsSection,
+  "verification": VerificationSection,
   "git-branch": GitBranchSection,
   "github-pr": GitHubPRSection,
   "linear-issue": LinearIssueSection,
@@ -997,7 +1268,7 @@ function TaskPanelConfigView({ isCodex }: { isCodex: boolean }) {
 
 // ─── Task Panel ──────────────────────────────────────────────────────────────
 
-export { CodexRateLimitsSection, CodexTokenDetailsSection };
+export { CodexRateLimitsSection, CodexTokenDetailsSection, BudgetsSection, VerificationSection };
 
 export function TaskPanel({ sessionId }: { sessionId: string }) {
   const session = useStore((s) => s.sessions.get(sessionId));
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen } from "@testing-library/react";
+import type { SessionState } from "../types.js";
+
+const { sendToSessionMock, updateSessionMock } = vi.hoisted(() => ({
+  sendToSessionMock: vi.fn(),
+  updateSessionMock: vi.fn(),
+}));
+
+let sessions = new Map<string, Partial<SessionState>>();
+let cliConnected = new Map<string, boolean>();
+
+vi.mock("../ws.js", () => ({
+  sendToSession: sendToSessionMock,
+}));
+
+vi.mock("../store.js", () => {
+  const useStore = (selector: (state: Record<string, unknown>) => unknown) => selector({ sessions, cliConnected });
+  useStore.getState = () => ({ updateSession: updateSessionMock });
+  return { useStore };
+});
+
+import { ThinkingBudgetPicker } from "./ThinkingBudgetPicker.js";
+
+beforeEach(() => {
+  sessions = new Map([["s1", { session_id: "s1", backend_type: "claude" }]]);
+  cliConnected = new Map([["s1", true]]);
+  sendToSessionMock.mockReset();
+  updateSessionMock.mockReset();
+});
+
+describe("ThinkingBudgetPicker", () => {
+  it("shows the default label and is disabled while disconnected", () => {
+    cliConnected.set("s1", false);
+    render(<ThinkingBudgetPicker sessionId="s1" />);
+
+    const button = screen.getByTitle("Thinking budget") as HTMLButtonElement;
+    expect(button.textContent).toContain("default");
+    expect(button.disabled).toBe(true);
+  });
+
+  it("sends the selected preset level", () => {
+    render(<ThinkingBudgetPicker sessionId="s1" />);
+    fireEvent.click(screen.getByTitle("Thinking budget"));
+    fireEvent.click(screen.getByRole("button", { name: "High" }));
+
+    expect(sendToSessionMock).toHaveBeenCalledWith("s1", { type: "set_thinking_budget", level: "high", tokens: undefined });
+    expect(updateSessionMock).toHaveBeenCalledWith("s1", { thinking_level: "high", thinking_tokens: undefined });
+  });
+
+  it("sends a custom token budget", () => {
+    render(<ThinkingBudgetPicker sessionId="s1" />);
+    fireEvent.click(screen.getByTitle("Thinking budget"));
+    fireEvent.change(screen.getByLabelText("Custom thinking tokens"), { target: { value: "24000" } });
+    fireEvent.click(screen.getByRole("button", { name: "Set" }));
+
+    expect(sendToSessionMock).toHaveBeenCalledWith("s1", { type: "set_thinking_budget", level: "custom", tokens: 24000 });
+  });
+
+  it("labels custom budgets in thousands and uses reasoning effort wording for Codex", () => {
+    sessions.set("s1", { session_id: "s1", backend_type: "codex", thinking_level: "custom", thinking_tokens: 16000 });
+    render(<ThinkingBudgetPicker sessionId="s1" />);
+
+    expect(screen.getByTitle("Reasoning effort").textContent).toContain("16k");
+  });
+});
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from "react";
+import { useStore } from "../store.js";
+import { sendToSession } from "../ws.js";
+import type { ThinkingLevel } from "../types.js";
+
+const LEVELS: { value: ThinkingLevel; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+  { value: "custom", label: "Custom" },
+];
+
+const DEFAULT_CUSTOM_TOKENS = 16_000;
+
+/** Per-session thinking budget. Claude gets a token budget, Codex a reasoning effort. */
+export function ThinkingBudgetPicker({ sessionId, className = "" }: { sessionId: string; className?: string }) {
+  const sessionData = useStore((s) => s.sessions.get(sessionId));
+  const isConnected = useStore((s) => s.cliConnected.get(sessionId) ?? false);
+  const [open, setOpen] = useState(false);
+  const [customTokens, setCustomTokens] = useState(String(sessionData?.thinking_tokens ?? DEFAULT_CUSTOM_TOKENS));
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const level = sessionData?.thinking_level;
+  const isCodex = sessionData?.backend_type === "codex";
+  const label = level === "custom" && sessionData?.thinking_tokens
+    ? `${Math.round(sessionData.thinking_tokens / 1000)}k`
+    : LEVELS.find((l) => l.value === level)?.label.toLowerCase() ?? "default";
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  function apply(next: ThinkingLevel, tokens?: number) {
+    sendToSession(sessionId, { type: "set_thinking_budget", level: next, tokens });
+    useStore.getState().updateSession(sessionId, { thinking_level: next, thinking_tokens: tokens });
+    setOpen(false);
+  }
+
+  const parsedCustom = Math.floor(Number(customTokens));
+  const customValid = Number.isFinite(parsedCustom) && parsedCustom > 0;
+
+  return (
+    <div ref={menuRef} className={`relative shrink-0 ${className}`}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={!isConnected}
+        className={`flex items-center gap-1.5 px-2 sm:px-2.5 py-1 sm:py-1.5 rounded-md text-[12px] font-semibold transition-all border select-none ${
+          !isConnected
+            ? "opacity-30 cursor-not-allowed text-cc-muted border-transparent"
+            : level && level !== "off"
+              ? "text-cc-primary border-cc-primary/30 bg-cc-primary/8 hover:bg-cc-primary/12 cursor-pointer"
+              : "text-cc-muted border-cc-border hover:text-cc-fg hover:bg-cc-hover cursor-pointer"
+        }`}
+        title={isCodex ? "Reasoning effort" : "Thinking budget"}
+      >
+        <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-3.5 h-3.5">
+          <path d="M8 2a4 4 0 00-2.5 7.1V11h5V9.1A4 4 0 008 2z" strokeLinejoin="round" />
+          <path d="M6 13.5h4" strokeLinecap="round" />
+        </svg>
+        <span>{label}</span>
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-0 mb-1.5 w-56 bg-cc-card border border-cc-border rounded-lg shadow-lg z-20 py-1">
+          <div className="px-3 py-1.5 text-[11px] text-cc-muted">
+            {isCodex ? "Reasoning effort for new turns" : "Thinking budget for new turns"}
+          </div>
+          {LEVELS.filter((l) => l.value !== "custom").map((l) => (
+            <button
+              key={l.value}
+              onClick={() => apply(l.value)}
+              className={`w-full text-left px-3 py-1.5 text-[12px] hover:bg-cc-hover transition-colors cursor-pointer ${
+                level === l.value ? "text-cc-primary font-semibold" : "text-cc-fg"
+              }`}
+            >
+              {l.label}
+            </button>
+          ))}
+          <div className="flex items-center gap-1.5 px-3 py-1.5 border-t border-cc-border mt-1">
+            <input
+              type="number"
+              min={1}
+              step={1000}
+              value={customTokens}
+              onChange={(e) => setCustomTokens(e.target.value)}
+              aria-label="Custom thinking tokens"
+              className="flex-1 min-w-0 px-2 py-1 text-[12px] bg-cc-input-bg border border-cc-border rounded-md text-cc-fg focus:outline-none focus:border-cc-primary/60"
+            />
+            <button
+              onClick={() => apply("custom", parsedCustom)}
+              disabled={!customValid}
+              className={`px-2 py-1 rounded-md text-[12px] font-medium transition-colors ${
+                customValid
+                  ? "bg-cc-primary hover:bg-cc-primary-hover text-white cursor-pointer"
+                  : "bg-cc-hover text-cc-muted cursor-not-allowed"
+              }`}
+            >
+              Set
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
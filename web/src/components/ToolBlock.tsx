@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { createContext, useContext, useState } from "react";
 import { DiffViewer } from "./DiffViewer.js";
 
 const TOOL_ICONS: Record<string, string> = {
@@ -45,6 +45,9 @@ export function getToolLabel(name: string): string {
   return name;
 }
 
+/** Start tool blocks expanded; the static HTML export has no React to open them. */
+export const ToolBlocksExpanded = createContext(false);
+
 export function ToolBlock({
   name,
   input,
@@ -54,7 +57,7 @@ export function ToolBlock({
   input: Record<string, unknown>;
   toolUseId: string;
 }) {
-  const [open, setOpen] = useState(false);
+  const [open, setOpen] = useState(useContext(ToolBlocksExpanded));
   const iconType = getToolIcon(name);
   const label = getToolLabel(name);
 
@@ -65,6 +68,7 @@ export function ToolBlock({
     <div className="border border-cc-border rounded-[10px] overflow-hidden bg-cc-card">
       <button
         onClick={() => setOpen(!open)}
+        aria-expanded={open}
         className="w-full flex items-center gap-2.5 px-3 py-2 text-left hover:bg-cc-hover transition-colors cursor-pointer"
       >
         <svg
@@ -2,9 +2,12 @@
 import { fireEvent, render, screen } from "@testing-library/react";
 import "@testing-library/jest-dom";
 
+const mockSetSessionNotificationsMuted = vi.hoisted(() => vi.fn());
+
 vi.mock("../api.js", () => ({
   api: {
     relaunchSession: vi.fn().mockResolvedValue({ ok: true }),
+    setSessionNotificationsMuted: (...args: unknown[]) => mockSetSessionNotificationsMuted(...args),
   },
 }));
 
@@ -25,8 +28,10 @@ interface MockStoreState {
   openQuickTerminal: ReturnType<typeof vi.fn>;
   resetQuickTerminal: ReturnType<typeof vi.fn>;
   sessions: Map<string, { cwd?: string; is_containerized?: boolean }>;
-  sdkSessions: { sessionId: string; cwd?: string; containerId?: string }[];
+  sdkSessions: { sessionId: string; cwd?: string; containerId?: string; notificationsMuted?: boolean }[];
+  setSdkSessions: ReturnType<typeof vi.fn>;
   gitChangedFilesCount: Map<string, number>;
+  presence: Map<string, unknown>;
 }
 
 let storeState: MockStoreState;
@@ -50,7 +55,9 @@ function resetStore(overrides: Partial<MockStoreState> = {}) {
     resetQuickTerminal: vi.fn(),
     sessions: new Map([["s1", { cwd: "/repo" }]]),
     sdkSessions: [],
+    setSdkSessions: vi.fn(),
     gitChangedFilesCount: new Map(),
+    presence: new Map(),
     ...overrides,
   };
 }
@@ -213,4 +220,21 @@ describe("TopBar", () => {
     const results = await axe(container);
     expect(results).toHaveNoViolations();
   });
+
+  it("mutes remote notifications for the current session", async () => {
+    window.location.hash = "#/session/s1";
+    mockSetSessionNotificationsMuted.mockResolvedValue({ ok: true, muted: true });
+    resetStore({ sdkSessions: [{ sessionId: "s1", cwd: "/repo" }] });
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Mute session notifications" }));
+
+    expect(mockSetSessionNotificationsMuted).toHaveBeenCalledWith("s1", true);
+    await vi.waitFor(() => {
+      expect(storeState.setSdkSessions).toHaveBeenCalledWith([
+        { sessionId: "s1", cwd: "/repo", notificationsMuted: true },
+      ]);
+    });
+    window.location.hash = "";
+  });
 });
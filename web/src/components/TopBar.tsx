@@ -1,6 +1,9 @@
 import { useEffect, useMemo, useSyncExternalStore } from "react";
 import { useStore } from "../store.js";
+import { api } from "../api.js";
 import { parseHash } from "../utils/routing.js";
+import { PresenceIndicator } from "./PresenceIndicator.js";
+import { ExportMenu } from "./ExportMenu.js";
 
 type WorkspaceTab = "chat" | "diff" | "terminal" | "editor";
 
@@ -19,6 +22,7 @@ export function TopBar() {
   const sessionStatus = useStore((s) => s.sessionStatus);
   const sessionNames = useStore((s) => s.sessionNames);
   const sdkSessions = useStore((s) => s.sdkSessions);
+  const setSdkSessions = useStore((s) => s.setSdkSessions);
   const sidebarOpen = useStore((s) => s.sidebarOpen);
   const setSidebarOpen = useStore((s) => s.setSidebarOpen);
   const taskPanelOpen = useStore((s) => s.taskPanelOpen);
@@ -71,6 +75,19 @@ export function TopBar() {
     : null;
   const showWorkspaceControls = !!(currentSessionId && isSessionView);
   const showContextToggle = route.page === "session" && !!currentSessionId;
+  const notificationsMuted = !!sdkSession?.notificationsMuted;
+
+  const toggleNotificationsMuted = () => {
+    if (!currentSessionId) return;
+    const muted = !notificationsMuted;
+    api.setSessionNotificationsMuted(currentSessionId, muted)
+      .then(() => {
+        setSdkSessions(sdkSessions.map((s) => (
+          s.sessionId === currentSessionId ? { ...s, notificationsMuted: muted } : s
+        )));
+      })
+      .catch(() => {});
+  };
   const workspaceTabs = useMemo(() => {
     const tabs: WorkspaceTab[] = ["chat", "diff", "terminal"];
     if (editorTabEnabled) tabs.push("editor");
@@ -212,6 +229,27 @@ export function TopBar() {
         )}
 
         <div className="flex items-center gap-0.5 shrink-0">
+          {showContextToggle && currentSessionId && <PresenceIndicator sessionId={currentSessionId} />}
+          {showContextToggle && currentSessionId && <ExportMenu sessionId={currentSessionId} />}
+          {showContextToggle && (
+            <button
+              onClick={toggleNotificationsMuted}
+              className={`flex items-center justify-center w-7 h-7 rounded-md transition-colors cursor-pointer ${
+                notificationsMuted
+                  ? "text-cc-warning hover:bg-cc-hover"
+                  : "text-cc-muted hover:text-cc-fg hover:bg-cc-hover"
+              }`}
+              title={notificationsMuted ? "Unmute push and webhook notifications for this session" : "Mute push and webhook notifications for this session"}
+              aria-label={notificationsMuted ? "Unmute session notifications" : "Mute session notifications"}
+              aria-pressed={notificationsMuted}
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="w-[15px] h-[15px]">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M18 8a6 6 0 10-12 0c0 7-3 9-3 9h18s-3-2-3-9" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M13.73 21a2 2 0 01-3.46 0" />
+                {notificationsMuted && <path strokeLinecap="round" strokeLinejoin="round" d="M3 3l18 18" />}
+              </svg>
+            </button>
+          )}
           {showContextToggle && (
             <button
               onClick={() => setTaskPanelOpen(!taskPanelOpen)}
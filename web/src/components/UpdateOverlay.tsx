@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState } from "react";
+import { withAuthHeaders } from "../utils/auth.js";
 
 type Phase = "installing" | "restarting" | "waiting" | "ready";
 
@@ -43,7 +44,7 @@ function useServerPoll(active: boolean) {
     function poll() {
       if (!mountedRef.current) return;
 
-      fetch("/api/update-check", { signal: AbortSignal.timeout(3000) })
+      fetch("/api/update-check", withAuthHeaders({ signal: AbortSignal.timeout(3000) }))
         .then((res) => {
           if (!res.ok) throw new Error("not ready");
           return res.json();
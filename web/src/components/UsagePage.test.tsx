@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+interface MockStoreState {
+  currentSessionId: string | null;
+}
+
+let mockState: MockStoreState;
+
+const mockApi = {
+  getUsage: vi.fn(),
+  fetchUsageCsv: vi.fn(),
+};
+
+vi.mock("../api.js", () => ({
+  api: {
+    getUsage: (...args: unknown[]) => mockApi.getUsage(...args),
+  },
+  fetchUsageCsv: (...args: unknown[]) => mockApi.fetchUsageCsv(...args),
+}));
+
+vi.mock("../store.js", () => {
+  const useStoreFn = (selector: (state: MockStoreState) => unknown) => selector(mockState);
+  useStoreFn.getState = () => mockState;
+  return { useStore: useStoreFn };
+});
+
+import { UsagePage } from "./UsagePage.js";
+
+function bucket(key: string, costUsd: number, turns: number) {
+  return {
+    key,
+    label: key,
+    costUsd,
+    inputTokens: 1500,
+    outputTokens: 300,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    turns,
+    durationMs: 0,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockState = { currentSessionId: null };
+  mockApi.getUsage.mockImplementation((_filters: unknown, groupBy: string) => Promise.resolve({
+    groupBy,
+    totals: bucket("total", 3.5, 4),
+    groups: groupBy === "model"
+      ? [bucket("claude-sonnet-4-5", 3.5, 3), bucket("gpt-5.1-codex", 0, 1)]
+      : [bucket("2026-03-14", 1, 1), bucket("2026-03-15", 2.5, 3)],
+    options: { repos: ["/work/app"], models: ["claude-sonnet-4-5", "gpt-5.1-codex"], backends: ["claude", "codex"] },
+  }));
+});
+
+describe("UsagePage", () => {
+  it("shows totals and spend per day", async () => {
+    render(<UsagePage embedded />);
+
+    expect(await screen.findByText("$3.50")).toBeInTheDocument();
+    expect(screen.getByText("2026-03-15")).toBeInTheDocument();
+    expect(screen.getByText("$2.50 · 3 turns")).toBeInTheDocument();
+    expect(mockApi.getUsage).toHaveBeenCalledWith(expect.objectContaining({ from: expect.any(String) }), "day");
+  });
+
+  it("regroups and filters", async () => {
+    render(<UsagePage embedded />);
+    await screen.findByText("2026-03-15");
+
+    fireEvent.click(screen.getByRole("tab", { name: "Model" }));
+    expect(await screen.findByText("gpt-5.1-codex")).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Backend"), { target: { value: "codex" } });
+    await waitFor(() => {
+      expect(mockApi.getUsage).toHaveBeenLastCalledWith(expect.objectContaining({ backend: "codex" }), "model");
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "All time" }));
+    await waitFor(() => {
+      expect(mockApi.getUsage).toHaveBeenLastCalledWith(expect.objectContaining({ from: undefined }), "model");
+    });
+  });
+
+  it("exports the filtered ledger as CSV", async () => {
+    mockApi.fetchUsageCsv.mockResolvedValue("timestamp,costUsd\n");
+    const createObjectURL = vi.fn(() => "blob:usage");
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+    render(<UsagePage embedded />);
+    await screen.findByText("2026-03-15");
+    fireEvent.click(screen.getByRole("button", { name: "Export CSV" }));
+
+    await waitFor(() => expect(click).toHaveBeenCalled());
+    expect(mockApi.fetchUsageCsv).toHaveBeenCalledWith(expect.objectContaining({ repo: "", backend: "" }));
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:usage");
+    click.mockRestore();
+  });
+
+  it("shows an empty state", async () => {
+    mockApi.getUsage.mockResolvedValue({
+      groupBy: "day",
+      totals: bucket("total", 0, 0),
+      groups: [],
+      options: { repos: [], models: [], backends: [] },
+    });
+    render(<UsagePage embedded />);
+    expect(await screen.findByText("No usage recorded for this selection.")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { api, fetchUsageCsv, type UsageFilters, type UsageGroupBy, type UsageReport } from "../api.js";
+import { useStore } from "../store.js";
+import { formatUsd } from "../utils/budgets.js";
+import { navigateHome, navigateToSession } from "../utils/routing.js";
+
+interface UsagePageProps {
+  embedded?: boolean;
+}
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  day: "Day",
+  repo: "Repo",
+  model: "Model",
+  backend: "Backend",
+  session: "Session",
+  cron: "Cron job",
+};
+
+const RANGES: { label: string; days: number | null }[] = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "All time", days: null },
+];
+
+/** Local calendar day, matching the server's day buckets. */
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function rangeStart(days: number | null): string | undefined {
+  if (days === null) return undefined;
+  const date = new Date();
+  date.setDate(date.getDate() - (days - 1));
+  return localDay(date);
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+export function UsagePage({ embedded = false }: UsagePageProps) {
+  const currentSessionId = useStore((s) => s.currentSessionId);
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>("day");
+  const [repo, setRepo] = useState("");
+  const [model, setModel] = useState("");
+  const [backend, setBackend] = useState("");
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState("");
+
+  const filters: UsageFilters = { from: rangeStart(rangeDays), repo, model, backend };
+
+  useEffect(() => {
+    let active = true;
+    api
+      .getUsage({ from: rangeStart(rangeDays), repo, model, backend }, groupBy)
+      .then((next) => {
+        if (!active) return;
+        setReport(next);
+        setError("");
+      })
+      .catch((e: unknown) => {
+        if (active) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      active = false;
+    };
+  }, [rangeDays, groupBy, repo, model, backend]);
+
+  async function handleExport() {
+    try {
+      const csv = await fetchUsageCsv(filters);
+      const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `companion-usage-${localDay(new Date())}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const maxCost = Math.max(0, ...(report?.groups.map((g) => g.costUsd) ?? []));
+  const maxTurns = Math.max(0, ...(report?.groups.map((g) => g.turns) ?? []));
+  // Codex reports no cost; fall back to turn counts so the chart still says something.
+  const byCost = maxCost > 0;
+  const selectClass = "px-2.5 py-1.5 text-xs bg-cc-input-bg border border-cc-border rounded-lg text-cc-fg focus:outline-none focus:border-cc-primary/60";
+
+  return (
+    <div className={`${embedded ? "h-full" : "h-[100dvh]"} bg-cc-bg text-cc-fg font-sans-ui antialiased overflow-y-auto`}>
+      <div className="max-w-5xl mx-auto px-4 sm:px-8 py-6 sm:py-10">
+        <div className="flex items-start justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-xl font-semibold text-cc-fg">Usage</h1>
+            <p className="mt-1 text-sm text-cc-muted">
+              Every finished turn is recorded in a local ledger, including sessions that were since deleted.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              className="px-3 py-1.5 rounded-lg text-sm bg-cc-hover hover:bg-cc-active text-cc-fg transition-colors cursor-pointer"
+            >
+              Export CSV
+            </button>
+            {!embedded && (
+              <button
+                onClick={() => {
+                  if (currentSessionId) {
+                    navigateToSession(currentSessionId);
+                  } else {
+                    navigateHome();
+                  }
+                }}
+                className="px-3 py-1.5 rounded-lg text-sm text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+              >
+                Back
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="flex rounded-lg border border-cc-border overflow-hidden" role="group" aria-label="Date range">
+            {RANGES.map((range) => (
+              <button
+                key={range.label}
+                onClick={() => setRangeDays(range.days)}
+                aria-pressed={rangeDays === range.days}
+                className={`px-2.5 py-1.5 text-xs transition-colors cursor-pointer ${
+                  rangeDays === range.days ? "bg-cc-active text-cc-fg" : "text-cc-muted hover:bg-cc-hover"
+                }`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+          <select aria-label="Repo" value={repo} onChange={(e) => setRepo(e.target.value)} className={selectClass}>
+            <option value="">All repos</option>
+            {report?.options.repos.map((r) => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <select aria-label="Model" value={model} onChange={(e) => setModel(e.target.value)} className={selectClass}>
+            <option value="">All models</option>
+            {report?.options.models.map((m) => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <select aria-label="Backend" value={backend} onChange={(e) => setBackend(e.target.value)} className={selectClass}>
+            <option value="">All backends</option>
+            {report?.options.backends.map((b) => <option key={b} value={b}>{b}</option>)}
+          </select>
+        </div>
+
+        {error && (
+          <div className="mb-4 px-3 py-2 rounded-lg bg-cc-error/10 border border-cc-error/20 text-xs text-cc-error">
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+              {[
+                { label: "Spend", value: formatUsd(report.totals.costUsd) },
+                { label: "Turns", value: String(report.totals.turns) },
+                { label: "Input tokens", value: formatTokens(report.totals.inputTokens + report.totals.cacheReadInputTokens + report.totals.cacheCreationInputTokens) },
+                { label: "Output tokens", value: formatTokens(report.totals.outputTokens) },
+              ].map((card) => (
+                <div key={card.label} className="bg-cc-card border border-cc-border rounded-xl px-4 py-3">
+                  <div className="text-[11px] uppercase tracking-wider text-cc-muted">{card.label}</div>
+                  <div className="mt-1 text-lg font-semibold tabular-nums">{card.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-cc-card border border-cc-border rounded-xl p-4 sm:p-5">
+              <div className="flex flex-wrap items-center gap-1.5 mb-4" role="tablist" aria-label="Group by">
+                {(Object.keys(GROUP_LABELS) as UsageGroupBy[]).map((key) => (
+                  <button
+                    key={key}
+                    role="tab"
+                    aria-selected={groupBy === key}
+                    onClick={() => setGroupBy(key)}
+                    className={`px-2.5 py-1 text-xs rounded-md transition-colors cursor-pointer ${
+                      groupBy === key ? "bg-cc-active text-cc-fg" : "text-cc-muted hover:bg-cc-hover"
+                    }`}
+                  >
+                    {GROUP_LABELS[key]}
+                  </button>
+                ))}
+              </div>
+
+              {report.groups.length === 0 ? (
+                <p className="text-sm text-cc-muted">No usage recorded for this selection.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {report.groups.map((group) => {
+                    const value = byCost ? group.costUsd : group.turns;
+                    const max = byCost ? maxCost : maxTurns;
+                    return (
+                      <li key={group.key} className="grid grid-cols-[minmax(0,10rem)_minmax(0,1fr)_auto] items-center gap-3 text-xs">
+                        <span className="truncate text-cc-fg" title={group.key}>{group.label}</span>
+                        <div className="h-2 rounded-full bg-cc-hover overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-cc-primary"
+                            style={{ width: `${max > 0 ? Math.max(2, (value / max) * 100) : 0}%` }}
+                          />
+                        </div>
+                        <span className="tabular-nums text-cc-muted">
+                          {formatUsd(group.costUsd)} · {group.turns} turn{group.turns === 1 ? "" : "s"}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
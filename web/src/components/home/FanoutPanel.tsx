@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { api, type FanoutGroup, type FanoutVariantConfig } from "../../api.js";
+import { getDefaultModel, getModelsForBackend } from "../../utils/backends.js";
+import { navigateToFanout } from "../../utils/routing.js";
+
+/** Server-side limit on variants per fan-out. */
+export const MAX_FANOUT_VARIANTS = 6;
+
+interface FanoutPanelProps {
+  cwd: string;
+  variants: FanoutVariantConfig[];
+  onVariantsChange: (variants: FanoutVariantConfig[]) => void;
+  testCommand: string;
+  onTestCommandChange: (command: string) => void;
+}
+
+/** Variant list for a fan-out launch: the prompt runs once per row, each in its own worktree. */
+export function FanoutPanel({ cwd, variants, onVariantsChange, testCommand, onTestCommandChange }: FanoutPanelProps) {
+  const [recent, setRecent] = useState<FanoutGroup[]>([]);
+
+  useEffect(() => {
+    if (!cwd) {
+      setRecent([]);
+      return;
+    }
+    api.listFanouts(cwd).then((groups) => setRecent(groups.slice(0, 3))).catch(() => setRecent([]));
+  }, [cwd]);
+
+  function updateVariant(index: number, patch: Partial<FanoutVariantConfig>) {
+    onVariantsChange(variants.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+  }
+
+  function addVariant() {
+    const last = variants[variants.length - 1];
+    const backend = last?.backend ?? "claude";
+    onVariantsChange([...variants, { backend, model: getDefaultModel(backend) }]);
+  }
+
+  return (
+    <div id="fanout-panel" className="mt-2 px-3 py-2.5 rounded-lg border border-cc-border bg-cc-card/50 space-y-2">
+      <p className="text-[11px] text-cc-muted">
+        Send runs the prompt once per variant, each in its own worktree, then opens a side-by-side comparison.
+      </p>
+      {variants.map((variant, i) => (
+        <div key={i} className="flex items-center gap-1.5">
+          <span className="w-5 text-[11px] text-cc-muted tabular-nums">{i + 1}.</span>
+          <select
+            aria-label={`Variant ${i + 1} backend`}
+            value={variant.backend}
+            onChange={(e) => {
+              const backend = e.target.value as FanoutVariantConfig["backend"];
+              updateVariant(i, { backend, model: getDefaultModel(backend) });
+            }}
+            className="px-2 py-1 text-xs bg-cc-input-bg border border-cc-border rounded-md text-cc-fg focus:outline-none focus:border-cc-primary/60"
+          >
+            <option value="claude">Claude</option>
+            <option value="codex">Codex</option>
+          </select>
+          <select
+            aria-label={`Variant ${i + 1} model`}
+            value={variant.model ?? ""}
+            onChange={(e) => updateVariant(i, { model: e.target.value || undefined })}
+            className="flex-1 min-w-0 px-2 py-1 text-xs bg-cc-input-bg border border-cc-border rounded-md text-cc-fg focus:outline-none focus:border-cc-primary/60"
+          >
+            {getModelsForBackend(variant.backend).map((m) => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onVariantsChange(variants.filter((_, j) => j !== i))}
+            disabled={variants.length <= 2}
+            aria-label={`Remove variant ${i + 1}`}
+            className="px-1.5 py-1 rounded-md text-xs text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors disabled:opacity-40 cursor-pointer"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <button
+          type="button"
+          onClick={addVariant}
+          disabled={variants.length >= MAX_FANOUT_VARIANTS}
+          className="px-2 py-1 rounded-md text-[11px] bg-cc-hover text-cc-muted hover:text-cc-fg transition-colors disabled:opacity-50 cursor-pointer"
+        >
+          Add variant
+        </button>
+        <input
+          type="text"
+          value={testCommand}
+          onChange={(e) => onTestCommandChange(e.target.value)}
+          aria-label="Fan-out test command"
+          placeholder="Test command (optional), e.g. bun test"
+          className="flex-1 min-w-[180px] px-2 py-1 text-xs font-mono-code bg-cc-input-bg border border-cc-border rounded-md text-cc-fg placeholder:text-cc-muted focus:outline-none focus:border-cc-primary/60"
+        />
+      </div>
+      {recent.length > 0 && (
+        <div className="pt-1 border-t border-cc-border">
+          <p className="text-[11px] text-cc-muted mb-1">Recent fan-outs</p>
+          {recent.map((group) => (
+            <button
+              key={group.id}
+              type="button"
+              onClick={() => navigateToFanout(group.id)}
+              className="w-full flex items-center gap-2 px-1.5 py-1 rounded-md text-left text-[11px] text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+            >
+              <span className="truncate">{group.prompt}</span>
+              <span className="ml-auto shrink-0 text-cc-muted">
+                {group.variants.length} variants{group.kept ? " · kept" : ""}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
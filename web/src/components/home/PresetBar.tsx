@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from "react";
+import { api, type PresetLaunchOptions, type SavedPrompt, type SessionPreset } from "../../api.js";
+
+interface PresetBarProps {
+  cwd: string;
+  activePresetId: string | null;
+  /** Snapshot of the launch form, captured when saving a new preset */
+  getCurrent: () => { options: PresetLaunchOptions; prompt: string };
+  /** Called with the preset and its resolved first message */
+  onApply: (preset: SessionPreset, prompt: string) => void;
+}
+
+/** The linked saved prompt first, then the preset's own text — same order the server uses. */
+function resolvePrompt(preset: SessionPreset, prompts: SavedPrompt[]): string {
+  const linked = preset.promptId ? prompts.find((p) => p.id === preset.promptId)?.content : undefined;
+  return [linked, preset.initialPrompt].filter(Boolean).join("\n\n");
+}
+
+export function PresetBar({ cwd, activePresetId, getCurrent, onApply }: PresetBarProps) {
+  const [presets, setPresets] = useState<SessionPreset[]>([]);
+  const [prompts, setPrompts] = useState<SavedPrompt[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<"global" | "project">("global");
+  const [promptId, setPromptId] = useState("");
+  const [error, setError] = useState("");
+
+  const refresh = useCallback(() => {
+    api.listPresets(cwd || undefined).then(setPresets).catch(() => setPresets([]));
+    api.listPrompts(cwd || undefined).then(setPrompts).catch(() => setPrompts([]));
+  }, [cwd]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  function closeForm() {
+    setSaving(false);
+    setName("");
+    setPromptId("");
+    setError("");
+  }
+
+  async function handleSave() {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const { options, prompt } = getCurrent();
+    try {
+      await api.createPreset({
+        name: trimmed,
+        scope,
+        cwd: scope === "project" ? cwd : undefined,
+        options,
+        initialPrompt: prompt.trim() || undefined,
+        promptId: promptId || undefined,
+      });
+      closeForm();
+      refresh();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function handleDelete(preset: SessionPreset) {
+    try {
+      await api.deletePreset(preset.id);
+      refresh();
+    } catch {
+      refresh();
+    }
+  }
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center gap-1.5 flex-wrap" role="group" aria-label="Session presets">
+        {presets.map((preset) => (
+          <span
+            key={preset.id}
+            className={`group inline-flex items-center rounded-full border text-xs transition-colors ${
+              preset.id === activePresetId
+                ? "border-cc-primary/60 bg-cc-primary/10 text-cc-fg"
+                : "border-cc-border text-cc-muted hover:text-cc-fg hover:bg-cc-hover"
+            }`}
+          >
+            <button
+              onClick={() => onApply(preset, resolvePrompt(preset, prompts))}
+              className="pl-2.5 pr-1 py-1 cursor-pointer"
+              title={preset.scope === "project" ? `${preset.name} (this project)` : preset.name}
+            >
+              {preset.name}
+            </button>
+            <button
+              onClick={() => handleDelete(preset)}
+              className="pr-2 py-1 opacity-0 group-hover:opacity-100 text-cc-muted hover:text-cc-error transition-opacity cursor-pointer"
+              aria-label={`Delete preset ${preset.name}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {!saving && (
+          <button
+            onClick={() => setSaving(true)}
+            className="px-2.5 py-1 rounded-full border border-dashed border-cc-border text-xs text-cc-muted hover:text-cc-fg hover:bg-cc-hover transition-colors cursor-pointer"
+          >
+            Save as preset
+          </button>
+        )}
+      </div>
+
+      {saving && (
+        <div className="mt-2 flex items-center gap-2 flex-wrap text-xs">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+              else if (e.key === "Escape") closeForm();
+            }}
+            placeholder="Preset name"
+            aria-label="Preset name"
+            autoFocus
+            className="px-2 py-1 rounded-md bg-cc-input-bg border border-cc-border text-cc-fg outline-none focus:border-cc-primary/50"
+          />
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as "global" | "project")}
+            aria-label="Preset scope"
+            className="px-2 py-1 rounded-md bg-cc-input-bg border border-cc-border text-cc-fg"
+          >
+            <option value="global">All projects</option>
+            <option value="project" disabled={!cwd}>This project</option>
+          </select>
+          <select
+            value={promptId}
+            onChange={(e) => setPromptId(e.target.value)}
+            aria-label="Linked prompt"
+            className="px-2 py-1 rounded-md bg-cc-input-bg border border-cc-border text-cc-fg max-w-[12rem]"
+          >
+            <option value="">No saved prompt</option>
+            {prompts.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-2.5 py-1 rounded-md bg-cc-primary text-white hover:bg-cc-primary-hover disabled:opacity-50 cursor-pointer"
+          >
+            Save
+          </button>
+          <button onClick={closeForm} className="px-2 py-1 text-cc-muted hover:text-cc-fg cursor-pointer">
+            Cancel
+          </button>
+          {error && <span className="w-full text-cc-error">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
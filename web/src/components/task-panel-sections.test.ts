@@ -32,9 +32,11 @@ describe("getInitialTaskPanelConfig", () => {
   it("restores a valid saved config from localStorage", () => {
     // Save a config with a custom order and one section disabled
     const saved = {
-      order: ["tasks", "git-branch", "usage-limits", "github-pr", "linear-issue", "mcp-servers"],
+      order: ["tasks", "git-branch", "usage-limits", "budgets", "verification", "github-pr", "linear-issue", "mcp-servers"],
       enabled: {
         "usage-limits": true,
+        "budgets": true,
+        "verification": true,
         "git-branch": true,
         "github-pr": false,
         "linear-issue": true,
@@ -53,7 +55,7 @@ describe("getInitialTaskPanelConfig", () => {
   });
 
   it("appends new sections that were added since the config was saved", () => {
-    // Simulate a config saved before "tasks" and "mcp-servers" were added
+    // Simulate a config saved before "budgets", "verification", "tasks" and "mcp-servers" were added
     const saved = {
       order: ["usage-limits", "git-branch", "github-pr", "linear-issue"],
       enabled: {
@@ -66,10 +68,10 @@ describe("getInitialTaskPanelConfig", () => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
 
     const config = getInitialTaskPanelConfig();
-    // The two missing sections should be appended at the end
+    // The missing sections should be appended at the end
     expect(config.order).toEqual([
       "usage-limits", "git-branch", "github-pr", "linear-issue",
-      "mcp-servers", "tasks",
+      "budgets", "verification", "mcp-servers", "tasks",
     ]);
     // New sections should be enabled by default
     expect(config.enabled["mcp-servers"]).toBe(true);
@@ -81,9 +83,11 @@ describe("getInitialTaskPanelConfig", () => {
   it("filters out removed sections that no longer exist in SECTION_DEFINITIONS", () => {
     // Simulate a saved config that includes a section ID that no longer exists
     const saved = {
-      order: ["usage-limits", "old-removed-section", "git-branch", "github-pr", "linear-issue", "mcp-servers", "tasks"],
+      order: ["usage-limits", "budgets", "verification", "old-removed-section", "git-branch", "github-pr", "linear-issue", "mcp-servers", "tasks"],
       enabled: {
         "usage-limits": true,
+        "budgets": true,
+        "verification": true,
         "old-removed-section": true,
         "git-branch": true,
         "github-pr": true,
@@ -99,7 +103,7 @@ describe("getInitialTaskPanelConfig", () => {
     expect(config.order).not.toContain("old-removed-section");
     // All valid sections should remain in their saved order
     expect(config.order).toEqual([
-      "usage-limits", "git-branch", "github-pr", "linear-issue", "mcp-servers", "tasks",
+      "usage-limits", "budgets", "verification", "git-branch", "github-pr", "linear-issue", "mcp-servers", "tasks",
     ]);
   });
 
@@ -125,7 +129,9 @@ describe("getInitialTaskPanelConfig", () => {
     expect(config.order).toContain("linear-issue");
     expect(config.order).toContain("mcp-servers");
     expect(config.order).toContain("tasks");
-    expect(config.order.length).toBe(6);
+    expect(config.order).toContain("budgets");
+    expect(config.order).toContain("verification");
+    expect(config.order.length).toBe(8);
   });
 
   it("returns defaults when localStorage contains corrupted JSON", () => {
@@ -31,6 +31,18 @@ export const SECTION_DEFINITIONS: TaskPanelSectionDef[] = [
     description: "API usage and rate limit meters",
     backends: null,
   },
+  {
+    id: "budgets",
+    label: "Budgets",
+    description: "Cost budgets for this session, its repo and the day",
+    backends: null,
+  },
+  {
+    id: "verification",
+    label: "Verification",
+    description: "Command run after each turn, with failures sent back until it passes",
+    backends: null,
+  },
   {
     id: "git-branch",
     label: "Git Branch",
@@ -3,9 +3,11 @@ import { createRoot } from "react-dom/client";
 import App from "./App.js";
 import { initAnalytics } from "./analytics.js";
 import { AppErrorBoundary } from "./components/AppErrorBoundary.js";
+import { consumeTokenFromLocation } from "./utils/auth.js";
 import "./index.css";
 
 initAnalytics();
+consumeTokenFromLocation();
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
@@ -1,5 +1,5 @@
 import { create } from "zustand";
-import type { SessionState, PermissionRequest, ChatMessage, SdkSessionInfo, TaskItem, McpServerDetail } from "./types.js";
+import type { SessionState, PermissionRequest, ChatMessage, SdkSessionInfo, TaskItem, McpServerDetail, RewindFilesResult, SessionViewer, SessionDriver, PromptQueue, VerifyLoop } from "./types.js";
 import type { UpdateInfo, PRStatusResponse, CreationProgressEvent, LinearIssue } from "./api.js";
 import { type TaskPanelConfig, getInitialTaskPanelConfig, getDefaultConfig, persistTaskPanelConfig, SECTION_DEFINITIONS } from "./components/task-panel-sections.js";
 
@@ -30,6 +30,27 @@ export type QuickTerminalPlacement = "top" | "right" | "bottom" | "left";
 
 export type DiffBase = "last-commit" | "default-branch";
 
+/** "Rewind to here" flow: dry-run preview first, then the real rewind */
+export interface RewindState {
+  messageId: string;
+  phase: "previewing" | "confirm" | "rewinding";
+  preview?: RewindFilesResult;
+  error?: string;
+}
+
+/** Older transcript still on the server: messages before `cursor` haven't been loaded */
+export interface HistoryPaging {
+  cursor: number;
+  loading: boolean;
+}
+
+/** Who is looking at a session, pushed by the server via "presence" */
+export interface SessionPresence {
+  viewers: SessionViewer[];
+  driver: SessionDriver | null;
+  controlRequests: string[];
+}
+
 interface AppState {
   // Sessions
   sessions: Map<string, SessionState>;
@@ -82,12 +103,33 @@ interface AppState {
   // MCP servers per session
   mcpServers: Map<string, McpServerDetail[]>;
 
+  // Pending "rewind to here" per session
+  rewindStates: Map<string, RewindState>;
+
+  // Unloaded older history per session; absent once the whole transcript is loaded
+  historyPaging: Map<string, HistoryPaging>;
+
+  // Other viewers and the driver lock per session
+  presence: Map<string, SessionPresence>;
+
+  // Prompts waiting for the current turn to finish, per session
+  promptQueues: Map<string, PromptQueue>;
+
+  // "Loop until green" verification settings and runs, per session
+  verifyLoops: Map<string, VerifyLoop>;
+
+  // Message the feed should scroll to and highlight (set by search results)
+  feedFocus: { sessionId: string; messageId: string } | null;
+
   // Tool progress (session → tool_use_id → progress info)
   toolProgress: Map<string, Map<string, { toolName: string; elapsedSeconds: number }>>;
 
   // Sidebar project grouping
   collapsedProjects: Set<string>;
 
+  // Auth — true once the server rejects our token (or we have none)
+  authRequired: boolean;
+
   // Update info
   updateInfo: UpdateInfo | null;
   updateDismissedVersion: string | null;
@@ -174,6 +216,14 @@ interface AppState {
   // MCP actions
   setMcpServers: (sessionId: string, servers: McpServerDetail[]) => void;
 
+  // Rewind actions
+  setRewindState: (sessionId: string, state: RewindState | null) => void;
+  setHistoryPaging: (sessionId: string, paging: HistoryPaging | null) => void;
+  setPresence: (sessionId: string, presence: SessionPresence) => void;
+  setPromptQueue: (sessionId: string, queue: PromptQueue) => void;
+  setVerifyLoop: (sessionId: string, loop: VerifyLoop) => void;
+  setFeedFocus: (focus: { sessionId: string; messageId: string } | null) => void;
+
   // Tool progress actions
   setToolProgress: (sessionId: string, toolUseId: string, data: { toolName: string; elapsedSeconds: number }) => void;
   clearToolProgress: (sessionId: string, toolUseId?: string) => void;
@@ -189,6 +239,9 @@ interface AppState {
   setCliConnected: (sessionId: string, connected: boolean) => void;
   setSessionStatus: (sessionId: string, status: "idle" | "running" | "compacting" | null) => void;
 
+  // Auth actions
+  setAuthRequired: (required: boolean) => void;
+
   // Update actions
   setUpdateInfo: (info: UpdateInfo | null) => void;
   dismissUpdate: (version: string) => void;
@@ -320,12 +373,19 @@ export const useStore = create<AppState>((set) => ({
   prStatus: new Map(),
   linkedLinearIssues: new Map(),
   mcpServers: new Map(),
+  rewindStates: new Map(),
+  historyPaging: new Map(),
+  presence: new Map(),
+  promptQueues: new Map(),
+  verifyLoops: new Map(),
+  feedFocus: null,
   toolProgress: new Map(),
   collapsedProjects: getInitialCollapsedProjects(),
   creationProgress: null,
   creationError: null,
   sessionCreating: false,
   sessionCreatingBackend: null,
+  authRequired: false,
   updateInfo: null,
   updateDismissedVersion: getInitialDismissedVersion(),
   updateOverlayActive: false,
@@ -489,6 +549,11 @@ export const useStore = create<AppState>((set) => ({
         recentlyRenamed: deleteFromSet(s.recentlyRenamed, sessionId),
         diffPanelSelectedFile: deleteFromMap(s.diffPanelSelectedFile, sessionId),
         mcpServers: deleteFromMap(s.mcpServers, sessionId),
+        rewindStates: deleteFromMap(s.rewindStates, sessionId),
+        historyPaging: deleteFromMap(s.historyPaging, sessionId),
+        presence: deleteFromMap(s.presence, sessionId),
+        promptQueues: deleteFromMap(s.promptQueues, sessionId),
+        verifyLoops: deleteFromMap(s.verifyLoops, sessionId),
         toolProgress: deleteFromMap(s.toolProgress, sessionId),
         prStatus: deleteFromMap(s.prStatus, sessionId),
         linkedLinearIssues: deleteFromMap(s.linkedLinearIssues, sessionId),
@@ -668,6 +733,45 @@ export const useStore = create<AppState>((set) => ({
       return { mcpServers };
     }),
 
+  setRewindState: (sessionId, state) =>
+    set((s) => {
+      if (!state) return { rewindStates: deleteFromMap(s.rewindStates, sessionId) };
+      const rewindStates = new Map(s.rewindStates);
+      rewindStates.set(sessionId, state);
+      return { rewindStates };
+    }),
+
+  setHistoryPaging: (sessionId, paging) =>
+    set((s) => {
+      if (!paging) return { historyPaging: deleteFromMap(s.historyPaging, sessionId) };
+      const historyPaging = new Map(s.historyPaging);
+      historyPaging.set(sessionId, paging);
+      return { historyPaging };
+    }),
+
+  setPresence: (sessionId, presence) =>
+    set((s) => {
+      const next = new Map(s.presence);
+      next.set(sessionId, presence);
+      return { presence: next };
+    }),
+
+  setPromptQueue: (sessionId, queue) =>
+    set((s) => {
+      const next = new Map(s.promptQueues);
+      next.set(sessionId, queue);
+      return { promptQueues: next };
+    }),
+
+  setVerifyLoop: (sessionId, loop) =>
+    set((s) => {
+      const next = new Map(s.verifyLoops);
+      next.set(sessionId, loop);
+      return { verifyLoops: next };
+    }),
+
+  setFeedFocus: (focus) => set({ feedFocus: focus }),
+
   setToolProgress: (sessionId, toolUseId, data) =>
     set((s) => {
       const toolProgress = new Map(s.toolProgress);
@@ -733,6 +837,8 @@ export const useStore = create<AppState>((set) => ({
       return { sessionStatus };
     }),
 
+  setAuthRequired: (required) => set({ authRequired: required }),
+
   setUpdateInfo: (info) => set({ updateInfo: info }),
   dismissUpdate: (version) => {
     localStorage.setItem("cc-update-dismissed", version);
@@ -850,6 +956,12 @@ export const useStore = create<AppState>((set) => ({
       sessionNames: new Map(),
       recentlyRenamed: new Set(),
       mcpServers: new Map(),
+      rewindStates: new Map(),
+      historyPaging: new Map(),
+      presence: new Map(),
+      promptQueues: new Map(),
+      verifyLoops: new Map(),
+      feedFocus: null,
       toolProgress: new Map(),
       prStatus: new Map(),
       linkedLinearIssues: new Map(),
@@ -1,3 +1,5 @@
+import { withAuthQuery } from "./utils/auth.js";
+
 interface TerminalConnectionCallbacks {
   onData: (data: Uint8Array) => void;
   onExit: (exitCode: number) => void;
@@ -16,7 +18,7 @@ export function createTerminalConnection(
   callbacks: TerminalConnectionCallbacks,
 ): TerminalConnection {
   const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${protocol}//${window.location.host}/ws/terminal/${terminalId}`;
+  const wsUrl = withAuthQuery(`${protocol}//${window.location.host}/ws/terminal/${terminalId}`);
   const socket = new WebSocket(wsUrl);
   socket.binaryType = "arraybuffer";
 
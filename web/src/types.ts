@@ -8,9 +8,19 @@ import type {
   McpServerDetail,
   McpServerConfig,
   CreationProgressEvent,
+  RewindFilesResult,
+  ThinkingLevel,
+  BudgetScope,
+  BudgetUsage,
+  SessionViewer,
+  SessionDriver,
+  QueuedPrompt,
+  PromptQueue,
+  VerifyIteration,
+  VerifyLoop,
 } from "../server/session-types.js";
 
-export type { SessionState, PermissionRequest, ContentBlock, BrowserIncomingMessage, BrowserOutgoingMessage, BackendType, McpServerDetail, McpServerConfig, CreationProgressEvent };
+export type { SessionState, PermissionRequest, ContentBlock, BrowserIncomingMessage, BrowserOutgoingMessage, BackendType, McpServerDetail, McpServerConfig, CreationProgressEvent, RewindFilesResult, ThinkingLevel, BudgetScope, BudgetUsage, SessionViewer, SessionDriver, QueuedPrompt, PromptQueue, VerifyIteration, VerifyLoop };
 
 export interface ChatMessage {
   id: string;
@@ -58,8 +68,16 @@ export interface SdkSessionInfo {
   totalLinesRemoved?: number;
   resumeSessionAt?: string;
   forkSession?: boolean;
+  /** Session this one was forked from with "Fork from here" */
+  parentSessionId?: string;
+  /** Fan-out group this session is one variant of */
+  fanoutId?: string;
   /** If this session was spawned by a cron job */
   cronJobId?: string;
   /** Human-readable name of the cron job that spawned this session */
   cronJobName?: string;
+  /** Whether this is the long-lived Companion Assistant session */
+  assistant?: boolean;
+  /** Push/webhook notifications are muted for this session */
+  notificationsMuted?: boolean;
 }
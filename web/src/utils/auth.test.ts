@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from "vitest";
+import { useStore } from "../store.js";
+import {
+  getAuthToken,
+  setAuthToken,
+  clearAuthToken,
+  withAuthHeaders,
+  withAuthQuery,
+  handleUnauthorized,
+  consumeTokenFromLocation,
+} from "./auth.js";
+
+beforeEach(() => {
+  localStorage.clear();
+  useStore.getState().setAuthRequired(false);
+  window.history.replaceState(null, "", "/");
+});
+
+describe("auth token storage", () => {
+  it("stores and clears the token", () => {
+    expect(getAuthToken()).toBeNull();
+    setAuthToken("abc");
+    expect(getAuthToken()).toBe("abc");
+    clearAuthToken();
+    expect(getAuthToken()).toBeNull();
+  });
+});
+
+describe("withAuthHeaders", () => {
+  it("returns init untouched when no token is stored", () => {
+    expect(withAuthHeaders()).toBeUndefined();
+    const init = { method: "POST" };
+    expect(withAuthHeaders(init)).toBe(init);
+  });
+
+  it("adds a Bearer header and keeps existing headers", () => {
+    setAuthToken("abc");
+    const init = withAuthHeaders({ method: "POST", headers: { "Content-Type": "application/json" } });
+    expect(init?.method).toBe("POST");
+    expect(init?.headers).toEqual({ "Content-Type": "application/json", Authorization: "Bearer abc" });
+  });
+});
+
+describe("withAuthQuery", () => {
+  it("appends the token to WebSocket URLs", () => {
+    expect(withAuthQuery("ws://host/ws/browser/s1")).toBe("ws://host/ws/browser/s1");
+    setAuthToken("a b");
+    expect(withAuthQuery("ws://host/ws/browser/s1")).toBe("ws://host/ws/browser/s1?token=a%20b");
+    expect(withAuthQuery("ws://host/x?y=1")).toBe("ws://host/x?y=1&token=a%20b");
+  });
+});
+
+describe("handleUnauthorized", () => {
+  it("drops the token and flags the store", () => {
+    setAuthToken("stale");
+    handleUnauthorized();
+    expect(getAuthToken()).toBeNull();
+    expect(useStore.getState().authRequired).toBe(true);
+  });
+});
+
+describe("consumeTokenFromLocation", () => {
+  it("stores the token from the login URL and strips it", () => {
+    window.history.replaceState(null, "", "/?token=from-url&x=1#/session/s1");
+    consumeTokenFromLocation();
+    expect(getAuthToken()).toBe("from-url");
+    expect(window.location.search).toBe("?x=1");
+    expect(window.location.hash).toBe("#/session/s1");
+  });
+
+  it("does nothing without a token param", () => {
+    consumeTokenFromLocation();
+    expect(getAuthToken()).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { useStore } from "../store.js";
+
+const AUTH_TOKEN_KEY = "cc-auth-token";
+
+export function getAuthToken(): string | null {
+  try {
+    return localStorage.getItem(AUTH_TOKEN_KEY) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function setAuthToken(token: string): void {
+  try {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function clearAuthToken(): void {
+  try {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/** Merge the Authorization header into fetch options. Returns `init` untouched when logged out. */
+export function withAuthHeaders(init?: RequestInit): RequestInit | undefined {
+  const token = getAuthToken();
+  if (!token) return init;
+  return {
+    ...init,
+    headers: { ...(init?.headers as Record<string, string> | undefined), Authorization: `Bearer ${token}` },
+  };
+}
+
+/** Append the token as a query param — browsers can't set headers on WebSocket upgrades. */
+export function withAuthQuery(url: string): string {
+  const token = getAuthToken();
+  if (!token) return url;
+  const sep = url.includes("?") ? "&" : "?";
+  return `${url}${sep}token=${encodeURIComponent(token)}`;
+}
+
+/** Called when the server answers 401: drop the stale token and show the login page. */
+export function handleUnauthorized(): void {
+  clearAuthToken();
+  useStore.getState().setAuthRequired(true);
+}
+
+/**
+ * Pick up a token from the login URL printed at server startup
+ * (`/?token=...`), store it, and strip it from the address bar.
+ */
+export function consumeTokenFromLocation(): void {
+  if (typeof window === "undefined") return;
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get("token");
+  if (!token) return;
+  setAuthToken(token);
+  params.delete("token");
+  const search = params.toString();
+  window.history.replaceState(
+    null,
+    "",
+    `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`,
+  );
+}
@@ -0,0 +1,11 @@
+import type { BudgetUsage } from "../types.js";
+
+/** Dollar amount with cents, e.g. "$3.20". */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/** The first budget that has been used up, if any. Mirrors the server check in cost-budgets.ts. */
+export function findExceededBudget(budgets: BudgetUsage[] | undefined): BudgetUsage | null {
+  return budgets?.find((b) => b.spent_usd >= b.limit_usd) ?? null;
+}
@@ -3,6 +3,7 @@ import {
   extractProjectKey,
   extractProjectLabel,
   groupSessionsByProject,
+  nestForks,
   type SessionItem,
 } from "./project-grouping.js";
 
@@ -280,3 +281,34 @@ describe("groupSessionsByProject", () => {
     expect(groups[0].label).toBe("companion");
   });
 });
+
+describe("nestForks", () => {
+  it("lists forks right after their parent with their depth", () => {
+    const sessions = [
+      makeItem({ id: "fork-b", parentSessionId: "root", createdAt: 4000 }),
+      makeItem({ id: "other", createdAt: 3500 }),
+      makeItem({ id: "fork-of-fork", parentSessionId: "fork-a", createdAt: 3000 }),
+      makeItem({ id: "fork-a", parentSessionId: "root", createdAt: 2000 }),
+      makeItem({ id: "root", createdAt: 1000 }),
+      // Parent not in this list (archived or another project): shown at top level
+      makeItem({ id: "orphan", parentSessionId: "gone", createdAt: 500 }),
+    ];
+
+    expect(nestForks(sessions).map((s) => [s.id, s.forkDepth ?? 0])).toEqual([
+      ["other", 0],
+      ["root", 0],
+      ["fork-b", 1],
+      ["fork-a", 1],
+      ["fork-of-fork", 2],
+      ["orphan", 0],
+    ]);
+  });
+
+  it("is applied within project groups", () => {
+    const groups = groupSessionsByProject([
+      makeItem({ id: "fork", parentSessionId: "root", createdAt: 2000 }),
+      makeItem({ id: "root", createdAt: 1000 }),
+    ]);
+    expect(groups[0].sessions.map((s) => s.id)).toEqual(["root", "fork"]);
+  });
+});
@@ -20,6 +20,14 @@ export interface SessionItem {
   permCount: number;
   cronJobId?: string;
   cronJobName?: string;
+  isAssistant?: boolean;
+  /** Session this one was forked from, and that session's display name */
+  parentSessionId?: string;
+  forkedFrom?: string;
+  /** Nesting under the parent when both are listed in the same group */
+  forkDepth?: number;
+  /** Why the watchdog flagged the session as stuck */
+  stuckReason?: string;
 }
 
 export interface ProjectGroup {
@@ -58,6 +66,38 @@ export function extractProjectLabel(projectKey: string): string {
   return parts[parts.length - 1];
 }
 
+/**
+ * Places forks right after the session they were forked from, keeping the
+ * existing order among siblings, and records how deep each one is nested.
+ */
+export function nestForks(sessions: SessionItem[]): SessionItem[] {
+  const ids = new Set(sessions.map((s) => s.id));
+  const children = new Map<string, SessionItem[]>();
+  const roots: SessionItem[] = [];
+  for (const session of sessions) {
+    const parent = session.parentSessionId;
+    if (parent && parent !== session.id && ids.has(parent)) {
+      if (!children.has(parent)) children.set(parent, []);
+      children.get(parent)!.push(session);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const result: SessionItem[] = [];
+  const visited = new Set<string>();
+  const visit = (session: SessionItem, depth: number) => {
+    if (visited.has(session.id)) return;
+    visited.add(session.id);
+    result.push(depth > 0 ? { ...session, forkDepth: depth } : session);
+    for (const child of children.get(session.id) ?? []) visit(child, depth + 1);
+  };
+  for (const root of roots) visit(root, 0);
+  // Fork cycles have no root; keep those sessions visible at the top level.
+  for (const session of sessions) visit(session, 0);
+  return result;
+}
+
 /**
  * Groups sessions by project directory, sorts groups by most recent activity,
  * and sorts sessions within each group (running first, then by createdAt desc).
@@ -101,6 +141,7 @@ export function groupSessionsByProject(
   // Within each group, sort sessions by createdAt desc (stable order, no reordering on status change)
   for (const group of sorted) {
     group.sessions.sort((a, b) => b.createdAt - a.createdAt);
+    group.sessions = nestForks(group.sessions);
   }
 
   return sorted;
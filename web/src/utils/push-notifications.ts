@@ -0,0 +1,66 @@
+import { api } from "../api.js";
+
+/** Web Push needs a service worker, PushManager and a secure context (https or localhost). */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined"
+    && window.isSecureContext
+    && "serviceWorker" in navigator
+    && "PushManager" in window
+    && typeof Notification !== "undefined"
+  );
+}
+
+function urlBase64ToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const padding = "=".repeat((4 - (value.length % 4)) % 4);
+  const base64 = (value + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register("/sw.js");
+  return navigator.serviceWorker.ready;
+}
+
+/** Whether this browser currently holds a push subscription. */
+export async function hasPushSubscription(): Promise<boolean> {
+  if (!isPushSupported()) return false;
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  return !!(await registration?.pushManager.getSubscription());
+}
+
+/** Ask for permission, subscribe this browser and register it with the server. */
+export async function subscribeToPush(publicKey: string): Promise<void> {
+  if (!isPushSupported()) throw new Error("Push notifications are not supported in this browser");
+  if (Notification.permission !== "granted") {
+    const result = await Notification.requestPermission();
+    if (result !== "granted") throw new Error("Notification permission was not granted");
+  }
+  const registration = await getRegistration();
+  const key = urlBase64ToUint8Array(publicKey);
+  let subscription = await registration.pushManager.getSubscription();
+  // A subscription made with another server key can't receive our pushes.
+  const currentKey = subscription?.options.applicationServerKey;
+  if (subscription && currentKey && !sameKey(new Uint8Array(currentKey), key)) {
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+  subscription ??= await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: key });
+  await api.addPushSubscription(subscription.toJSON());
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+  await api.removePushSubscription(subscription.endpoint).catch(() => {});
+  await subscription.unsubscribe();
+}
+
+function sameKey(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
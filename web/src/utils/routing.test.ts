@@ -39,10 +39,26 @@ describe("parseHash", () => {
     expect(parseHash("#/environments")).toEqual({ page: "environments" });
   });
 
+  it("parses hooks route", () => {
+    expect(parseHash("#/hooks")).toEqual({ page: "hooks" });
+  });
+
+  it("parses auto-approval route", () => {
+    expect(parseHash("#/auto-approval")).toEqual({ page: "auto-approval" });
+  });
+
   it("parses scheduled route", () => {
     expect(parseHash("#/scheduled")).toEqual({ page: "scheduled" });
   });
 
+  it("parses usage route", () => {
+    expect(parseHash("#/usage")).toEqual({ page: "usage" });
+  });
+
+  it("parses search route", () => {
+    expect(parseHash("#/search")).toEqual({ page: "search" });
+  });
+
   it("parses playground route", () => {
     expect(parseHash("#/playground")).toEqual({ page: "playground" });
   });
@@ -65,6 +81,11 @@ describe("parseHash", () => {
     // #/session/ with no ID should be treated as home
     expect(parseHash("#/session/")).toEqual({ page: "home" });
   });
+
+  it("parses fan-out comparison route", () => {
+    expect(parseHash("#/fanout/a1b2c3d4")).toEqual({ page: "fanout", fanoutId: "a1b2c3d4" });
+    expect(parseHash("#/fanout/")).toEqual({ page: "home" });
+  });
 });
 
 describe("sessionHash", () => {
@@ -5,12 +5,18 @@ export type Route =
   | { page: "integrations" }
   | { page: "integration-linear" }
   | { page: "prompts" }
+  | { page: "hooks" }
+  | { page: "auto-approval" }
   | { page: "terminal" }
   | { page: "environments" }
   | { page: "scheduled" }
+  | { page: "usage" }
+  | { page: "search" }
+  | { page: "fanout"; fanoutId: string }
   | { page: "playground" };
 
 const SESSION_PREFIX = "#/session/";
+const FANOUT_PREFIX = "#/fanout/";
 
 /**
  * Parse a window.location.hash string into a typed Route.
@@ -20,9 +26,13 @@ export function parseHash(hash: string): Route {
   if (hash === "#/integrations") return { page: "integrations" };
   if (hash === "#/integrations/linear") return { page: "integration-linear" };
   if (hash === "#/prompts") return { page: "prompts" };
+  if (hash === "#/hooks") return { page: "hooks" };
+  if (hash === "#/auto-approval") return { page: "auto-approval" };
   if (hash === "#/terminal") return { page: "terminal" };
   if (hash === "#/environments") return { page: "environments" };
   if (hash === "#/scheduled") return { page: "scheduled" };
+  if (hash === "#/usage") return { page: "usage" };
+  if (hash === "#/search") return { page: "search" };
   if (hash === "#/playground") return { page: "playground" };
 
   if (hash.startsWith(SESSION_PREFIX)) {
@@ -30,6 +40,11 @@ export function parseHash(hash: string): Route {
     if (sessionId) return { page: "session", sessionId };
   }
 
+  if (hash.startsWith(FANOUT_PREFIX)) {
+    const fanoutId = hash.slice(FANOUT_PREFIX.length);
+    if (fanoutId) return { page: "fanout", fanoutId };
+  }
+
   return { page: "home" };
 }
 
@@ -54,6 +69,11 @@ export function navigateToSession(sessionId: string, replace = false): void {
   }
 }
 
+/** Navigate to a fan-out run's comparison view. */
+export function navigateToFanout(fanoutId: string): void {
+  window.location.hash = `/fanout/${fanoutId}`;
+}
+
 /**
  * Navigate to the home page (no session selected) by clearing the hash.
  * When replace=true, uses replaceState to avoid creating a history entry.
@@ -0,0 +1,64 @@
+const VIEWER_ID_KEY = "cc-viewer-id";
+const VIEWER_NAME_KEY = "cc-viewer-name";
+
+function read(key: string): string | null {
+  try {
+    return localStorage.getItem(key) || null;
+  } catch {
+    return null;
+  }
+}
+
+function write(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/** Stable per-browser id, so every tab (and reconnect) counts as the same viewer. */
+export function getViewerId(): string {
+  let id = read(VIEWER_ID_KEY);
+  if (!id) {
+    id = typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID()
+      : `viewer-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    write(VIEWER_ID_KEY, id);
+  }
+  return id;
+}
+
+/** Name shown to other viewers; "Guest 1234" until the user picks one. */
+export function getViewerName(): string {
+  let name = read(VIEWER_NAME_KEY);
+  if (!name) {
+    name = `Guest ${String(Math.floor(1000 + Math.random() * 9000))}`;
+    write(VIEWER_NAME_KEY, name);
+  }
+  return name;
+}
+
+export function setViewerName(name: string): void {
+  const trimmed = name.trim();
+  if (trimmed) write(VIEWER_NAME_KEY, trimmed);
+}
+
+/** Two-letter avatar label, e.g. "Ada Lovelace" → "AL". */
+export function viewerInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "?";
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return (words[0][0] + words[1][0]).toUpperCase();
+}
+
+const AVATAR_HUES = [12, 38, 145, 190, 220, 265, 300, 340];
+
+/** Deterministic avatar color so a viewer looks the same in every browser. */
+export function viewerHue(viewerId: string): number {
+  let hash = 0;
+  for (let i = 0; i < viewerId.length; i++) {
+    hash = (hash * 31 + viewerId.charCodeAt(i)) | 0;
+  }
+  return AVATAR_HUES[Math.abs(hash) % AVATAR_HUES.length];
+}
@@ -778,6 +778,56 @@ describe("handleMessage: status_change", () => {
   });
 });
 
+// ===========================================================================
+// handleMessage: presence
+// ===========================================================================
+describe("handleMessage: presence", () => {
+  it("introduces the viewer on open and stores who is watching", () => {
+    localStorage.setItem("cc-viewer-id", "v-me");
+    localStorage.setItem("cc-viewer-name", "Ada");
+    wsModule.connectSession("s1");
+    lastWs.onopen?.(new Event("open"));
+
+    expect(lastWs.send).toHaveBeenCalledWith(
+      JSON.stringify({ type: "presence_hello", viewer_id: "v-me", name: "Ada" }),
+    );
+
+    fireMessage({
+      type: "presence",
+      viewers: [{ viewer_id: "v-me", name: "Ada", typing: false }],
+      driver: { viewer_id: "v-me", name: "Ada" },
+      control_requests: ["v-bob"],
+    });
+
+    expect(useStore.getState().presence.get("s1")).toEqual({
+      viewers: [{ viewer_id: "v-me", name: "Ada", typing: false }],
+      driver: { viewer_id: "v-me", name: "Ada" },
+      controlRequests: ["v-bob"],
+    });
+  });
+});
+
+// ===========================================================================
+// handleMessage: prompt queue
+// ===========================================================================
+describe("handleMessage: prompt queue", () => {
+  it("stores the queue and shows prompts the server dispatched from it", () => {
+    wsModule.connectSession("s1");
+    fireMessage({ type: "session_init", session: makeSession("s1") });
+
+    const queue = { prompts: [{ id: "q1", content: "then lint", created_at: 1 }], paused: false, pause_on_error: true };
+    fireMessage({ type: "prompt_queue", queue });
+    expect(useStore.getState().promptQueues.get("s1")).toEqual(queue);
+
+    fireMessage({ type: "user_message", id: "q1", content: "then lint", timestamp: 2000, seq: 1 });
+    fireMessage({ type: "user_message", id: "q1", content: "then lint", timestamp: 2000, seq: 2 });
+    expect(useStore.getState().messages.get("s1")).toEqual([
+      { id: "q1", role: "user", content: "then lint", timestamp: 2000 },
+    ]);
+    expect(useStore.getState().sessionStatus.get("s1")).toBe("running");
+  });
+});
+
 // ===========================================================================
 // handleMessage: system_event
 // ===========================================================================
@@ -804,6 +854,19 @@ describe("handleMessage: system_event", () => {
     expect(msgs[0].timestamp).toBe(1500);
   });
 
+  it("says whether a used-up budget interrupted the turn or only blocks the next one", () => {
+    wsModule.connectSession("s1");
+    fireMessage({ type: "session_init", session: makeSession("s1") });
+    const base = { subtype: "budget_exceeded", scope: "session", label: "This session", limit_usd: 1, spent_usd: 1.2 };
+
+    fireMessage({ type: "system_event", event: { ...base, interrupted: false } });
+    fireMessage({ type: "system_event", event: { ...base, interrupted: true } });
+
+    const msgs = useStore.getState().messages.get("s1")!;
+    expect(msgs[0].content).toBe("Budget reached (This session: $1.20 of $1.00). New turns are blocked; raise the budget to continue.");
+    expect(msgs[1].content).toContain("Session interrupted");
+  });
+
   it("ignores noisy hook_progress events in chat", () => {
     wsModule.connectSession("s1");
     fireMessage({ type: "session_init", session: makeSession("s1") });
@@ -1120,6 +1183,51 @@ describe("handleMessage: message_history", () => {
   });
 });
 
+// ===========================================================================
+// handleMessage: history_page
+// ===========================================================================
+describe("handleMessage: history_page", () => {
+  function userEntry(id: string, timestamp: number) {
+    return { type: "user_message", id, content: id, timestamp };
+  }
+
+  it("tracks the cursor and prepends older pages on request", () => {
+    wsModule.connectSession("s1");
+    fireMessage({ type: "session_init", session: makeSession("s1") });
+    fireMessage({ type: "message_history", messages: [userEntry("u3", 3000)], cursor: 2 });
+
+    expect(useStore.getState().historyPaging.get("s1")).toEqual({ cursor: 2, loading: false });
+
+    lastWs.send.mockClear();
+    wsModule.requestOlderHistory("s1");
+    wsModule.requestOlderHistory("s1"); // ignored while the first is in flight
+    expect(lastWs.send).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(lastWs.send.mock.calls[0][0])).toEqual({ type: "history_page", before: 2 });
+    expect(useStore.getState().historyPaging.get("s1")?.loading).toBe(true);
+
+    fireMessage({
+      type: "history_page",
+      before: 2,
+      messages: [userEntry("u1", 1000), userEntry("u2", 2000)],
+      cursor: null,
+    });
+
+    expect(useStore.getState().messages.get("s1")!.map((m) => m.id)).toEqual(["u1", "u2", "u3"]);
+    expect(useStore.getState().historyPaging.has("s1")).toBe(false);
+  });
+
+  it("ignores pages that no longer line up with the cursor", () => {
+    wsModule.connectSession("s1");
+    fireMessage({ type: "session_init", session: makeSession("s1") });
+    fireMessage({ type: "message_history", messages: [userEntry("u3", 3000)], cursor: 2 });
+
+    fireMessage({ type: "history_page", before: 5, messages: [userEntry("stale", 1000)], cursor: 3 });
+
+    expect(useStore.getState().messages.get("s1")!.map((m) => m.id)).toEqual(["u3"]);
+    expect(useStore.getState().historyPaging.get("s1")).toEqual({ cursor: 2, loading: false });
+  });
+});
+
 // ===========================================================================
 // handleMessage: auth_status error
 // ===========================================================================
@@ -1478,6 +1586,87 @@ describe("MCP status messages", () => {
   });
 });
 
+// ===========================================================================
+// Rewind
+// ===========================================================================
+describe("rewind_files", () => {
+  function seedConversation() {
+    wsModule.connectSession("s1");
+    fireMessage({ type: "session_init", session: makeSession("s1") });
+    useStore.getState().setMessages("s1", [
+      { id: "u1", role: "user", content: "first", timestamp: 1 },
+      { id: "a1", role: "assistant", content: "ok", timestamp: 2 },
+      { id: "u2", role: "user", content: "second", timestamp: 3 },
+      { id: "a2", role: "assistant", content: "done", timestamp: 4 },
+    ]);
+    lastWs.send.mockClear();
+  }
+
+  it("requestRewindPreview: sends a dry-run rewind and tracks the pending request", () => {
+    seedConversation();
+
+    wsModule.requestRewindPreview("s1", "u2");
+
+    const sent = JSON.parse(lastWs.send.mock.calls[0][0]);
+    expect(sent).toMatchObject({ type: "rewind_files", message_id: "u2", dry_run: true });
+    expect(typeof sent.client_msg_id).toBe("string");
+    expect(useStore.getState().rewindStates.get("s1")).toEqual({ messageId: "u2", phase: "previewing" });
+  });
+
+  it("stores the dry-run preview for confirmation", () => {
+    seedConversation();
+    wsModule.requestRewindPreview("s1", "u2");
+
+    fireMessage({
+      type: "rewind_result",
+      message_id: "u2",
+      dry_run: true,
+      can_rewind: true,
+      files_changed: ["src/a.ts"],
+      insertions: 3,
+      deletions: 1,
+    });
+
+    const state = useStore.getState().rewindStates.get("s1");
+    expect(state?.phase).toBe("confirm");
+    expect(state?.preview?.files_changed).toEqual(["src/a.ts"]);
+    expect(state?.error).toBeUndefined();
+    expect(useStore.getState().messages.get("s1")).toHaveLength(4);
+  });
+
+  it("confirmRewind: truncates messages from the rewound message on success", () => {
+    seedConversation();
+    wsModule.requestRewindPreview("s1", "u2");
+    wsModule.confirmRewind("s1", "u2");
+
+    const sent = JSON.parse(lastWs.send.mock.calls[1][0]);
+    expect(sent).toMatchObject({ type: "rewind_files", message_id: "u2", dry_run: false });
+    expect(useStore.getState().rewindStates.get("s1")?.phase).toBe("rewinding");
+
+    fireMessage({ type: "rewind_result", message_id: "u2", dry_run: false, can_rewind: true, files_changed: [] });
+
+    expect(useStore.getState().messages.get("s1")!.map((m) => m.id)).toEqual(["u1", "a1"]);
+    expect(useStore.getState().rewindStates.has("s1")).toBe(false);
+  });
+
+  it("keeps messages and shows the error when the rewind fails", () => {
+    seedConversation();
+    wsModule.requestRewindPreview("s1", "u2");
+
+    fireMessage({
+      type: "rewind_result",
+      message_id: "u2",
+      dry_run: true,
+      can_rewind: false,
+      files_changed: [],
+      error: "No file checkpoint is available for this message",
+    });
+
+    expect(useStore.getState().rewindStates.get("s1")?.error).toBe("No file checkpoint is available for this message");
+    expect(useStore.getState().messages.get("s1")).toHaveLength(4);
+  });
+});
+
 // ===========================================================================
 // handleMessage: tool_progress
 // ===========================================================================
@@ -2,6 +2,8 @@ import { useStore } from "./store.js";
 import type { BrowserIncomingMessage, BrowserOutgoingMessage, ContentBlock, ChatMessage, TaskItem, SdkSessionInfo, McpServerConfig } from "./types.js";
 import { generateUniqueSessionName } from "./utils/names.js";
 import { playNotificationSound } from "./utils/notification-sound.js";
+import { withAuthQuery } from "./utils/auth.js";
+import { getViewerId, getViewerName, setViewerName } from "./utils/viewer.js";
 
 const WS_RECONNECT_DELAY_MS = 2000;
 const sockets = new Map<string, WebSocket>();
@@ -165,6 +167,39 @@ function summarizeSystemEvent(
     return `Hook ${event.outcome}: ${event.hook_name} (${event.hook_event})${exitCode}.`;
   }
 
+  if (event.subtype === "hook_decision") {
+    const verb = event.decision === "deny" ? "blocked" : event.decision === "ask" ? "asked approval for" : "allowed";
+    const target = event.tool_name ?? event.hook_event;
+    const reason = event.reason ? ` ${event.reason}` : "";
+    return `Hook rule "${event.rule_name}" ${verb} ${target}.${reason}`;
+  }
+
+  if (event.subtype === "auto_approval") {
+    const verb = event.behavior === "allow" ? "Auto-approved" : "Auto-denied";
+    const subject = event.subject ? `: ${event.subject}` : "";
+    const rule = event.description ? `"${event.description}", ` : "";
+    return `${verb} ${event.tool_name}${subject} (${rule}${event.scope} rule).`;
+  }
+
+  if (event.subtype === "remote_permission_decision") {
+    const verb = event.behavior === "allow" ? "Allowed" : "Denied";
+    return `${verb} ${event.tool_name} from a ${event.via} notification (${event.actor}).`;
+  }
+
+  if (event.subtype === "budget_exceeded") {
+    const outcome = event.interrupted ? "Session interrupted" : "New turns are blocked";
+    return `Budget reached (${event.label}: $${event.spent_usd.toFixed(2)} of $${event.limit_usd.toFixed(2)}). ${outcome}; raise the budget to continue.`;
+  }
+
+  if (event.subtype === "session_stuck") {
+    const outcome = event.action === "interrupt"
+      ? "Interrupted the turn."
+      : event.action === "relaunch"
+        ? "Relaunching the backend."
+        : "Sent a notification.";
+    return `Session looks stuck: ${event.reason}. ${outcome}`;
+  }
+
   // hook_progress can be high-volume; keep it out of chat by default.
   return null;
 }
@@ -259,11 +294,13 @@ const IDEMPOTENT_OUTGOING_TYPES = new Set<BrowserOutgoingMessage["type"]>([
   "mcp_toggle",
   "mcp_reconnect",
   "mcp_set_servers",
+  "rewind_files",
+  "queue_add",
 ]);
 
 function getWsUrl(sessionId: string): string {
   const proto = location.protocol === "https:" ? "wss:" : "ws:";
-  return `${proto}//${location.host}/ws/browser/${sessionId}`;
+  return withAuthQuery(`${proto}//${location.host}/ws/browser/${sessionId}`);
 }
 
 function getLastSeqStorageKey(sessionId: string): string {
@@ -378,6 +415,74 @@ function handleMessage(sessionId: string, event: MessageEvent) {
   handleParsedMessage(sessionId, data);
 }
 
+/**
+ * Convert stored history entries to chat messages. `offset` is the index of the
+ * first entry in the full history, so generated ids stay stable across pages.
+ */
+function historyToChatMessages(
+  sessionId: string,
+  messages: BrowserIncomingMessage[],
+  offset: number,
+  extractTools: boolean,
+): ChatMessage[] {
+  const chatMessages: ChatMessage[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    const histMsg = messages[i];
+    if (histMsg.type === "user_message") {
+      chatMessages.push({
+        id: histMsg.id || nextId(),
+        role: "user",
+        content: histMsg.content,
+        timestamp: histMsg.timestamp,
+      });
+    } else if (histMsg.type === "assistant") {
+      const msg = histMsg.message;
+      const textContent = extractTextFromBlocks(msg.content);
+      const assistantMsg: ChatMessage = {
+        id: msg.id,
+        role: "assistant",
+        content: textContent,
+        contentBlocks: msg.content,
+        timestamp: histMsg.timestamp || Date.now(),
+        parentToolUseId: histMsg.parent_tool_use_id,
+        model: msg.model,
+        stopReason: msg.stop_reason,
+      };
+      const existingIndex = chatMessages.findIndex((m) => m.role === "assistant" && m.id === assistantMsg.id);
+      if (existingIndex === -1) {
+        chatMessages.push(assistantMsg);
+      } else {
+        chatMessages[existingIndex] = mergeAssistantMessage(chatMessages[existingIndex], assistantMsg);
+      }
+      // Also extract tasks and changed files from history
+      if (extractTools && msg.content?.length) {
+        extractTasksFromBlocks(sessionId, msg.content);
+        extractChangedFilesFromBlocks(sessionId, msg.content);
+      }
+    } else if (histMsg.type === "result") {
+      const r = histMsg.data;
+      if (r.is_error && r.errors?.length) {
+        chatMessages.push({
+          id: `hist-error-${offset + i}`,
+          role: "system",
+          content: `Error: ${r.errors.join(", ")}`,
+          timestamp: Date.now(),
+        });
+      }
+    } else if (histMsg.type === "system_event") {
+      const summary = summarizeSystemEvent(histMsg.event);
+      if (!summary) continue;
+      chatMessages.push({
+        id: `hist-system-event-${offset + i}`,
+        role: "system",
+        content: summary,
+        timestamp: histMsg.timestamp || Date.now(),
+      });
+    }
+  }
+  return chatMessages;
+}
+
 function handleParsedMessage(
   sessionId: string,
   data: BrowserIncomingMessage,
@@ -656,6 +761,37 @@ function handleParsedMessage(
       break;
     }
 
+    case "presence": {
+      store.setPresence(sessionId, {
+        viewers: data.viewers,
+        driver: data.driver,
+        controlRequests: data.control_requests,
+      });
+      break;
+    }
+
+    case "prompt_queue": {
+      store.setPromptQueue(sessionId, data.queue);
+      break;
+    }
+
+    case "verify_loop": {
+      store.setVerifyLoop(sessionId, data.loop);
+      break;
+    }
+
+    case "user_message": {
+      // Sent by the server when it dispatches a queued prompt.
+      store.appendMessage(sessionId, {
+        id: data.id || nextId(),
+        role: "user",
+        content: data.content,
+        timestamp: data.timestamp,
+      });
+      store.setSessionStatus(sessionId, "running");
+      break;
+    }
+
     case "cli_disconnected": {
       store.setCliConnected(sessionId, false);
       store.setSessionStatus(sessionId, null);
@@ -688,60 +824,39 @@ function handleParsedMessage(
       break;
     }
 
+    case "rewind_result": {
+      const pending = store.rewindStates.get(sessionId);
+      const { type: _type, message_id: messageId, dry_run: dryRun, ...result } = data;
+      if (!dryRun && result.can_rewind && !result.error) {
+        // Drop the rewound message and everything after it, matching the server
+        const existing = store.messages.get(sessionId) || [];
+        const idx = existing.findIndex((m) => m.id === messageId);
+        if (idx !== -1) store.setMessages(sessionId, existing.slice(0, idx));
+        store.bumpChangedFilesTick(sessionId);
+        if (pending?.messageId === messageId) store.setRewindState(sessionId, null);
+        break;
+      }
+      if (pending?.messageId !== messageId) break;
+      store.setRewindState(sessionId, {
+        messageId,
+        phase: "confirm",
+        preview: dryRun ? result : pending.preview,
+        error: result.error || (result.can_rewind ? undefined : "Files can't be rewound to this message"),
+      });
+      break;
+    }
+
     case "message_history": {
-      const chatMessages: ChatMessage[] = [];
-      for (let i = 0; i < data.messages.length; i++) {
-        const histMsg = data.messages[i];
-        if (histMsg.type === "user_message") {
-          chatMessages.push({
-            id: histMsg.id || nextId(),
-            role: "user",
-            content: histMsg.content,
-            timestamp: histMsg.timestamp,
-          });
-        } else if (histMsg.type === "assistant") {
-          const msg = histMsg.message;
-          const textContent = extractTextFromBlocks(msg.content);
-          const assistantMsg: ChatMessage = {
-            id: msg.id,
-            role: "assistant",
-            content: textContent,
-            contentBlocks: msg.content,
-            timestamp: histMsg.timestamp || Date.now(),
-            parentToolUseId: histMsg.parent_tool_use_id,
-            model: msg.model,
-            stopReason: msg.stop_reason,
-          };
-          const existingIndex = chatMessages.findIndex((m) => m.role === "assistant" && m.id === assistantMsg.id);
-          if (existingIndex === -1) {
-            chatMessages.push(assistantMsg);
-          } else {
-            chatMessages[existingIndex] = mergeAssistantMessage(chatMessages[existingIndex], assistantMsg);
-          }
-          // Also extract tasks and changed files from history
-          if (msg.content?.length) {
-            extractTasksFromBlocks(sessionId, msg.content);
-            extractChangedFilesFromBlocks(sessionId, msg.content);
-          }
-        } else if (histMsg.type === "result") {
-          const r = histMsg.data;
-          if (r.is_error && r.errors?.length) {
-            chatMessages.push({
-              id: `hist-error-${i}`,
-              role: "system",
-              content: `Error: ${r.errors.join(", ")}`,
-              timestamp: Date.now(),
-            });
-          }
-        } else if (histMsg.type === "system_event") {
-          const summary = summarizeSystemEvent(histMsg.event);
-          if (!summary) continue;
-          chatMessages.push({
-            id: `hist-system-event-${i}`,
-            role: "system",
-            content: summary,
-            timestamp: histMsg.timestamp || Date.now(),
-          });
+      const offset = data.cursor ?? 0;
+      const chatMessages = historyToChatMessages(sessionId, data.messages, offset, true);
+      const existingCount = store.messages.get(sessionId)?.length ?? 0;
+      if (existingCount === 0) {
+        store.setHistoryPaging(sessionId, offset > 0 ? { cursor: offset, loading: false } : null);
+      } else {
+        // Reconnect: what is loaded now starts at whichever window reaches further back
+        const paging = store.historyPaging.get(sessionId);
+        if (paging && offset < paging.cursor) {
+          store.setHistoryPaging(sessionId, offset > 0 ? { cursor: offset, loading: false } : null);
         }
       }
       if (chatMessages.length > 0) {
@@ -772,6 +887,19 @@ function handleParsedMessage(
       break;
     }
 
+    case "history_page": {
+      const paging = store.historyPaging.get(sessionId);
+      // Stale answer (reconnect or a rewind moved the cursor); a new request will follow.
+      if (!paging || paging.cursor !== data.before) break;
+      // Older tool calls are skipped: replaying a TodoWrite from the past would clobber current tasks.
+      const older = historyToChatMessages(sessionId, data.messages, data.cursor ?? 0, false);
+      const existing = store.messages.get(sessionId) || [];
+      const loadedIds = new Set(existing.map((m) => m.id));
+      store.setMessages(sessionId, [...older.filter((m) => !loadedIds.has(m.id)), ...existing]);
+      store.setHistoryPaging(sessionId, data.cursor === null ? null : { cursor: data.cursor, loading: false });
+      break;
+    }
+
     case "event_replay": {
       let latestProcessed: number | undefined;
       for (const evt of data.events) {
@@ -807,6 +935,7 @@ export function connectSession(sessionId: string) {
     // proving the subscription succeeded. handleMessage promotes to "connected".
     const lastSeq = getLastSeq(sessionId);
     ws.send(JSON.stringify({ type: "session_subscribe", last_seq: lastSeq }));
+    ws.send(JSON.stringify(presenceHello()));
     // Clear any reconnect timer
     const timer = reconnectTimers.get(sessionId);
     if (timer) {
@@ -905,6 +1034,8 @@ export function sendToSession(sessionId: string, msg: BrowserOutgoingMessage) {
       case "mcp_toggle":
       case "mcp_reconnect":
       case "mcp_set_servers":
+      case "rewind_files":
+      case "queue_add":
         if (!msg.client_msg_id) {
           outgoing = { ...msg, client_msg_id: nextClientMsgId() };
         }
@@ -916,6 +1047,22 @@ export function sendToSession(sessionId: string, msg: BrowserOutgoingMessage) {
   }
 }
 
+function presenceHello(): BrowserOutgoingMessage {
+  return { type: "presence_hello", viewer_id: getViewerId(), name: getViewerName() };
+}
+
+/** Change this browser's display name and announce it on every open session. */
+export function renameViewer(name: string) {
+  setViewerName(name);
+  for (const sessionId of sockets.keys()) {
+    sendToSession(sessionId, presenceHello());
+  }
+}
+
+export function sendTyping(sessionId: string, typing: boolean) {
+  sendToSession(sessionId, { type: "presence_typing", typing });
+}
+
 export function sendMcpGetStatus(sessionId: string) {
   sendToSession(sessionId, { type: "mcp_get_status" });
 }
@@ -931,3 +1078,25 @@ export function sendMcpReconnect(sessionId: string, serverName: string) {
 export function sendMcpSetServers(sessionId: string, servers: Record<string, McpServerConfig>) {
   sendToSession(sessionId, { type: "mcp_set_servers", servers });
 }
+
+/** Ask the server for the page of history before what is loaded. No-op while a page is in flight. */
+export function requestOlderHistory(sessionId: string) {
+  const store = useStore.getState();
+  const paging = store.historyPaging.get(sessionId);
+  if (!paging || paging.loading) return;
+  if (sockets.get(sessionId)?.readyState !== WebSocket.OPEN) return;
+  store.setHistoryPaging(sessionId, { ...paging, loading: true });
+  sendToSession(sessionId, { type: "history_page", before: paging.cursor });
+}
+
+/** Start "rewind to here" by asking for a dry-run preview of the files it would restore. */
+export function requestRewindPreview(sessionId: string, messageId: string) {
+  useStore.getState().setRewindState(sessionId, { messageId, phase: "previewing" });
+  sendToSession(sessionId, { type: "rewind_files", message_id: messageId, dry_run: true });
+}
+
+export function confirmRewind(sessionId: string, messageId: string) {
+  const pending = useStore.getState().rewindStates.get(sessionId);
+  useStore.getState().setRewindState(sessionId, { messageId, phase: "rewinding", preview: pending?.preview });
+  sendToSession(sessionId, { type: "rewind_files", message_id: messageId, dry_run: false });
+}